@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import type { TierPlan, ActionOwner, ActionSchedule } from '../types';
+import {
+    SCHOOL_YEAR_MONTHS, QUARTERS, OWNER_LABELS, getActionSchedules, setActionSchedule, canDependOn, findScheduleConflicts, describeOwner, describePeriod,
+} from '../services/actionTimelineService';
+import { getPlanComponentItems } from '../services/monitoringService';
+import { CalendarRange, AlertTriangle } from 'lucide-react';
+
+interface ActionTimelineProps {
+    plan: TierPlan;
+    /** Without it the timeline is shown as is, for print. */
+    onChange?: (plan: TierPlan) => void;
+}
+
+const OWNER_COLORS: { [owner in ActionOwner]: string } = {
+    'supervisor': 'bg-blue-500',
+    'principal': 'bg-green-500',
+    'coordinator': 'bg-purple-500',
+    'partner': 'bg-orange-400',
+};
+
+const OWNERS = Object.keys(OWNER_LABELS) as ActionOwner[];
+
+const MONTHS = SCHOOL_YEAR_MONTHS.map((_, index) => index + 1);
+
+/**
+ * The plan's main actions on the months of the school year, grouped by quarter, with their owners and dependencies.
+ * A month range is set by clicking its first and last months on the action's row.
+ */
+const ActionTimeline: React.FC<ActionTimelineProps> = ({ plan, onChange }) => {
+    const [anchor, setAnchor] = useState<{ action: string; month: number } | null>(null);
+    const rows = getActionSchedules(plan);
+    if (rows.length === 0) return null;
+
+    const schedules = rows.map(row => row.schedule);
+    const conflicts = findScheduleConflicts(schedules);
+    const partners = getPlanComponentItems(plan.partners);
+    const readOnly = !onChange;
+
+    const update = (schedule: ActionSchedule) => onChange?.(setActionSchedule(plan, schedule));
+
+    const handleMonthClick = (schedule: ActionSchedule, month: number) => {
+        if (anchor?.action !== schedule.action) {
+            setAnchor({ action: schedule.action, month });
+            return;
+        }
+        update({ ...schedule, startMonth: Math.min(anchor.month, month), endMonth: Math.max(anchor.month, month) });
+        setAnchor(null);
+    };
+
+    return (
+        <div className="bg-white p-3 rounded-lg border border-gray-200 break-inside-avoid">
+            <h5 className="font-semibold text-gray-800 text-sm mb-2 flex items-center gap-2">
+                <CalendarRange size={16} /> לוח זמנים לפעולות המרכזיות
+            </h5>
+            <div className="overflow-x-auto">
+                <table className="w-full text-xs border-collapse">
+                    <thead>
+                        <tr>
+                            <th className="p-1" />
+                            {QUARTERS.map(quarter => (
+                                <th key={quarter.label} colSpan={3} className="p-1 text-center font-semibold text-gray-700 border-x border-gray-200 bg-gray-50">{quarter.label}</th>
+                            ))}
+                        </tr>
+                        <tr>
+                            <th className="p-1 text-right text-gray-600 font-semibold">פעולה</th>
+                            {MONTHS.map(month => (
+                                <th key={month} className={`p-1 text-center font-normal text-gray-500 ${month % 3 === 1 ? 'border-r border-gray-200' : ''}`}>{SCHOOL_YEAR_MONTHS[month - 1]}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(({ schedule, isScheduled }) => (
+                            <tr key={schedule.action} className="border-t border-gray-100 align-middle">
+                                <td className="p-1 text-gray-800 min-w-[10rem] max-w-[16rem]">
+                                    <span className="block">{schedule.action}</span>
+                                    <span className="block text-gray-500">
+                                        {describeOwner(schedule)} · {describePeriod(schedule)}{!isScheduled && ' · טרם תוזמן'}
+                                    </span>
+                                    {schedule.dependsOn.length > 0 && <span className="block text-gray-500">אחרי: {schedule.dependsOn.join(', ')}</span>}
+                                    {conflicts[schedule.action]?.map(conflict => (
+                                        <span key={conflict} className="flex items-center gap-1 text-red-700"><AlertTriangle size={12} /> {conflict}</span>
+                                    ))}
+                                </td>
+                                {MONTHS.map(month => {
+                                    const active = month >= schedule.startMonth && month <= schedule.endMonth;
+                                    const anchored = anchor?.action === schedule.action && anchor.month === month;
+                                    return (
+                                        <td key={month} className={`p-0.5 ${month % 3 === 1 ? 'border-r border-gray-200' : ''}`}>
+                                            <button
+                                                type="button"
+                                                disabled={readOnly}
+                                                onClick={() => handleMonthClick(schedule, month)}
+                                                className={`block w-full h-5 rounded-sm ${active ? OWNER_COLORS[schedule.owner] : 'bg-gray-100'} ${active && !isScheduled ? 'opacity-40' : ''} ${anchored ? 'ring-2 ring-gray-800' : ''} ${readOnly ? 'cursor-default' : 'hover:ring-1 hover:ring-gray-400'}`}
+                                                title={readOnly ? undefined : anchor?.action === schedule.action ? 'בחירת חודש הסיום' : 'בחירת חודש ההתחלה'}
+                                            />
+                                        </td>
+                                    );
+                                })}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            {!readOnly && (
+                <details className="mt-2">
+                    <summary className="cursor-pointer text-xs text-gray-600">אחראים ותלויות</summary>
+                    <ul className="mt-2 space-y-2">
+                        {rows.map(({ schedule }) => (
+                            <li key={schedule.action} className="flex flex-wrap items-center gap-2 text-xs border-t border-gray-100 pt-2">
+                                <span className="flex-1 min-w-[10rem] text-gray-800">{schedule.action}</span>
+                                <select value={schedule.owner} onChange={(e) => update({ ...schedule, owner: e.target.value as ActionOwner })} className="p-1 border border-gray-300 rounded-md bg-white">
+                                    {OWNERS.map(owner => <option key={owner} value={owner}>{OWNER_LABELS[owner]}</option>)}
+                                </select>
+                                {schedule.owner === 'partner' && (
+                                    <select value={schedule.partner} onChange={(e) => update({ ...schedule, partner: e.target.value })} className="p-1 border border-gray-300 rounded-md bg-white max-w-[12rem]">
+                                        <option value="">{partners.length > 0 ? 'בחירת שותף...' : 'לא נבחרו שותפים בתוכנית'}</option>
+                                        {partners.map(partner => <option key={partner} value={partner}>{partner}</option>)}
+                                    </select>
+                                )}
+                                {schedules.length > 1 && (
+                                    <details>
+                                        <summary className="cursor-pointer text-gray-600">תלויות ({schedule.dependsOn.length})</summary>
+                                        <div className="mt-1 space-y-1">
+                                            {schedules.filter(other => other.action !== schedule.action).map(other => {
+                                                const checked = schedule.dependsOn.includes(other.action);
+                                                return (
+                                                    <label key={other.action} className="flex items-center gap-1 text-gray-700">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={checked}
+                                                            disabled={!checked && !canDependOn(schedules, schedule.action, other.action)}
+                                                            onChange={(e) => update({
+                                                                ...schedule,
+                                                                dependsOn: e.target.checked ? [...schedule.dependsOn, other.action] : schedule.dependsOn.filter(a => a !== other.action),
+                                                            })}
+                                                            className="h-3 w-3 rounded border-gray-300 text-blue-600"
+                                                        />
+                                                        {other.action}
+                                                    </label>
+                                                );
+                                            })}
+                                        </div>
+                                    </details>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </details>
+            )}
+
+            <div className="flex flex-wrap gap-3 text-xs text-gray-600 mt-2">
+                {OWNERS.map(owner => (
+                    <span key={owner} className="flex items-center gap-1">
+                        <span className={`inline-block w-3 h-3 rounded-sm ${OWNER_COLORS[owner]}`} /> {OWNER_LABELS[owner]}
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default ActionTimeline;
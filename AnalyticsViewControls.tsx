@@ -0,0 +1,96 @@
+import React from 'react';
+import type { AnalyticsView, AveragingMode, School, SupportLevel } from '../types';
+import { AVERAGING_LABELS, SUPPORT_LEVEL_SEGMENTS, supportLevelLabel, filterBySupportLevel, countSchoolsWithoutStudents } from '../services/analyticsViewService';
+import { Scale, FileQuestion } from 'lucide-react';
+
+interface AnalyticsViewControlsProps {
+    view: AnalyticsView;
+    onChange: (view: AnalyticsView) => void;
+    /** All the schools, for the segment counts. */
+    schools: School[];
+}
+
+const AnalyticsViewControls: React.FC<AnalyticsViewControlsProps> = ({ view, onChange, schools }) => {
+    const segmentSchools = filterBySupportLevel(schools, view.supportLevel);
+    const withoutStudents = view.averaging === 'student' ? countSchoolsWithoutStudents(segmentSchools) : 0;
+
+    const coverageInput = (field: 'minSchoolCoverage' | 'minGroupCoverage', label: string, hint: string) => (
+        <label className="flex items-center gap-1" title={hint}>
+            {label}
+            <input
+                type="number"
+                min={0}
+                max={100}
+                step={5}
+                value={view.coverage[field]}
+                onChange={(e) => onChange({ ...view, coverage: { ...view.coverage, [field]: Math.min(100, Math.max(0, parseInt(e.target.value, 10) || 0)) } })}
+                className="p-1 border border-gray-300 rounded-md w-16"
+            />
+            %
+        </label>
+    );
+
+    return (
+        <div className="flex flex-wrap items-center gap-4 bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm">
+            <div className="flex items-center gap-2">
+                <Scale size={16} className="text-gray-500" />
+                <span className="font-semibold text-gray-700">ממוצעים:</span>
+                <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+                    {(Object.keys(AVERAGING_LABELS) as AveragingMode[]).map(mode => (
+                        <button
+                            key={mode}
+                            type="button"
+                            onClick={() => onChange({ ...view, averaging: mode })}
+                            className={`px-3 py-1 ${view.averaging === mode ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+                        >
+                            {AVERAGING_LABELS[mode]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <label className="flex items-center gap-2">
+                <span className="font-semibold text-gray-700">רמת ליווי:</span>
+                <select
+                    value={view.supportLevel}
+                    onChange={(e) => onChange({ ...view, supportLevel: e.target.value as SupportLevel | 'all' })}
+                    className="p-1 border border-gray-300 rounded-md bg-white"
+                >
+                    <option value="all">{supportLevelLabel('all')} ({schools.length})</option>
+                    {SUPPORT_LEVEL_SEGMENTS.map(level => {
+                        const count = filterBySupportLevel(schools, level).length;
+                        return <option key={level || 'none'} value={level} disabled={count === 0}>{supportLevelLabel(level)} ({count})</option>;
+                    })}
+                </select>
+            </label>
+            <details className="w-full">
+                <summary className="cursor-pointer font-semibold text-gray-700 flex items-center gap-2">
+                    <FileQuestion size={16} className="text-gray-500" /> כללי כיסוי נתונים
+                    <span className="font-normal text-xs text-gray-500">
+                        (בית ספר: {view.coverage.minSchoolCoverage}%, קבוצה: {view.coverage.minGroupCoverage}%{view.coverage.imputeMissing ? ', כולל השלמת ערכים חסרים' : ''})
+                    </span>
+                </summary>
+                <div className="flex flex-wrap items-center gap-4 mt-2 text-gray-700">
+                    {coverageInput('minSchoolCoverage', 'כיסוי מינימלי לבית ספר:', 'אחוז המדדים בתחום או בסוגיה שבית הספר חייב למלא כדי שהתוצאה שלו תיחשב')}
+                    {coverageInput('minGroupCoverage', 'כיסוי מינימלי לממוצע קבוצתי:', 'אחוז הציונים של קבוצת בתי הספר שחייבים להיות מלאים כדי שהממוצע ייחשב')}
+                    <label className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked={view.coverage.imputeMissing}
+                            onChange={(e) => onChange({ ...view, coverage: { ...view.coverage, imputeMissing: e.target.checked } })}
+                            className="h-4 w-4 rounded border-gray-300 text-blue-600"
+                        />
+                        השלמת ציונים חסרים לפי ממוצע בית הספר בתת-התחום (מסומן בנפרד)
+                    </label>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">תוצאות מתחת לכיסוי המינימלי מסומנות "אין מספיק נתונים" ומוצגות בקווים אלכסוניים.</p>
+            </details>
+            {withoutStudents > 0 && (
+                <span className="text-xs text-orange-700">
+                    {withoutStudents} בתי ספר ללא מספר תלמידים תקין אינם נכללים בממוצע המשוקלל.
+                </span>
+            )}
+        </div>
+    );
+};
+
+export default AnalyticsViewControls;
@@ -0,0 +1,174 @@
+import React, { useState, useMemo } from 'react';
+import type { AllInterventionPlans, FullInterventionPlan, Issue, TieredSchools, CapacitySettings } from '../types';
+import {
+    WORKLOAD_CATEGORY_LABELS, WorkloadCategory, loadCapacitySettings, saveCapacitySettings, computeMonthlyWorkload, summarizeCapacity,
+    suggestSharedTier3Plans, applyTier3Sharing,
+} from '../services/capacityService';
+import { loadSchoolCalendar, validateSchoolCalendar, scheduleVisits } from '../services/visitScheduleService';
+import { Clock, AlertTriangle, Users } from 'lucide-react';
+
+interface CapacityPanelProps {
+    issues: Issue[];
+    plans: AllInterventionPlans;
+    tieredSchools: TieredSchools;
+    onPlanUpdate: (issueId: string, plan: FullInterventionPlan) => void;
+}
+
+const CATEGORY_COLORS: { [category in WorkloadCategory]: string } = {
+    'tier1': 'bg-green-500',
+    'tier2': 'bg-yellow-400',
+    'tier3-general': 'bg-orange-400',
+    'tier3-individual': 'bg-red-500',
+};
+
+const CATEGORIES = Object.keys(WORKLOAD_CATEGORY_LABELS) as WorkloadCategory[];
+
+const formatHours = (hours: number): string => String(Math.round(hours * 10) / 10);
+
+const formatMonth = (month: string): string => new Date(`${month}-01`).toLocaleDateString('he-IL', { month: 'short', year: '2-digit' });
+
+/**
+ * The supervision hours every plan calls for, month by month, against the supervisors' budget.
+ */
+const CapacityPanel: React.FC<CapacityPanelProps> = ({ issues, plans, tieredSchools, onPlanUpdate }) => {
+    const [settings, setSettings] = useState<CapacitySettings>(loadCapacitySettings);
+    // The calendar is edited in the visit scheduler of the monitoring step.
+    const calendar = useMemo(loadSchoolCalendar, []);
+    const calendarIsValid = validateSchoolCalendar(calendar).length === 0;
+
+    const visits = useMemo(
+        () => calendarIsValid ? scheduleVisits(plans, issues, tieredSchools, calendar).visits : [],
+        [plans, issues, tieredSchools, calendar, calendarIsValid],
+    );
+    const workload = useMemo(() => computeMonthlyWorkload(visits, calendar), [visits, calendar]);
+    const summary = summarizeCapacity(workload, settings);
+    const suggestions = useMemo(() => suggestSharedTier3Plans(plans, issues, tieredSchools, visits), [plans, issues, tieredSchools, visits]);
+    const scale = Math.max(summary.capacity, summary.peak?.total || 0) || 1;
+
+    const handleSettingsChange = (updated: CapacitySettings) => {
+        setSettings(updated);
+        saveCapacitySettings(updated);
+    };
+
+    const issueName = (issueId: string) => issues.find(issue => issue.id === issueId)?.name || issueId;
+    const schoolName = (schoolId: number) => tieredSchools.tier3.find(school => school.id === schoolId)?.name || String(schoolId);
+
+    return (
+        <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm">
+            <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2 mb-1">
+                <Clock size={20} className="text-blue-600" /> עומס הליווי מול הזמן הזמין
+            </h3>
+            <p className="text-xs text-gray-500 mb-3">
+                השעות מחושבות מתדירות הליווי שנבחרה בכל התוכניות, לפי לוח שנת הלימודים {calendar.schoolYear} (ניתן לעריכה בשלב המעקב).
+            </p>
+
+            <div className="flex flex-wrap items-end gap-4 text-sm mb-4">
+                <label className="flex flex-col gap-1 text-gray-700">
+                    שעות בחודש לכל מפקח/ת
+                    <input
+                        type="number"
+                        min={1}
+                        value={settings.monthlyHoursBudget}
+                        onChange={(e) => handleSettingsChange({ ...settings, monthlyHoursBudget: Math.max(1, parseFloat(e.target.value) || 1) })}
+                        className="p-1 border border-gray-300 rounded-md bg-white w-24"
+                    />
+                </label>
+                <label className="flex flex-col gap-1 text-gray-700">
+                    מספר מפקחים
+                    <input
+                        type="number"
+                        min={1}
+                        value={settings.supervisorCount}
+                        onChange={(e) => handleSettingsChange({ ...settings, supervisorCount: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                        className="p-1 border border-gray-300 rounded-md bg-white w-20"
+                    />
+                </label>
+                <p className="text-gray-700">
+                    סה"כ {formatHours(summary.annualHours)} שעות בשנה מתוך {formatHours(summary.annualCapacity)} זמינות
+                    {summary.peak && summary.peak.total > 0 && <> · שיא: {formatMonth(summary.peak.month)} ({formatHours(summary.peak.total)} שעות)</>}
+                </p>
+            </div>
+
+            {!calendarIsValid && <p className="text-sm text-red-700 mb-3">לוח שנת הלימודים אינו תקין, ולכן לא ניתן לחשב את העומס.</p>}
+
+            {summary.targetedOverMonths.length > 0 && (
+                <div className="bg-red-50 border border-red-200 rounded-md p-3 mb-3 text-sm text-red-800 flex items-start gap-2">
+                    <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+                    <p>
+                        קבוצות שכבה 2 והתוכניות הפרטניות בשכבה 3 לבדן חורגות מהזמן הזמין ב-{summary.targetedOverMonths.length} חודשים
+                        ({summary.targetedOverMonths.map(formatMonth).join(', ')}). כדאי לאחד קבוצות, להפחית תדירות או לעבור לתוכנית כללית בשכבה 3.
+                    </p>
+                </div>
+            )}
+            {summary.overMonths.length > summary.targetedOverMonths.length && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 mb-3 text-sm text-yellow-800 flex items-start gap-2">
+                    <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+                    <p>העומס הכולל חורג מהזמן הזמין ב-{summary.overMonths.length} חודשים ({summary.overMonths.map(formatMonth).join(', ')}).</p>
+                </div>
+            )}
+
+            <div className="space-y-1 mb-2">
+                {workload.map(month => (
+                    <div key={month.month} className="flex items-center gap-2 text-xs">
+                        <span className="w-16 text-gray-600">{formatMonth(month.month)}</span>
+                        <div className="relative flex-1 h-4 bg-gray-100 rounded">
+                            <div className="absolute inset-y-0 right-0 flex flex-row-reverse" style={{ width: `${(month.total / scale) * 100}%` }}>
+                                {CATEGORIES.map(category => month.hours[category] > 0 && (
+                                    <div
+                                        key={category}
+                                        className={CATEGORY_COLORS[category]}
+                                        style={{ width: `${(month.hours[category] / month.total) * 100}%` }}
+                                        title={`${WORKLOAD_CATEGORY_LABELS[category]}: ${formatHours(month.hours[category])} שעות`}
+                                    />
+                                ))}
+                            </div>
+                            <div className="absolute inset-y-0 w-0.5 bg-gray-800" style={{ right: `${(summary.capacity / scale) * 100}%` }} title={`זמין: ${formatHours(summary.capacity)} שעות`} />
+                        </div>
+                        <span className={`w-12 text-left font-semibold ${month.total > summary.capacity ? 'text-red-700' : 'text-gray-700'}`}>{formatHours(month.total)}</span>
+                    </div>
+                ))}
+            </div>
+            <div className="flex flex-wrap gap-3 text-xs text-gray-600 mb-4">
+                {CATEGORIES.map(category => (
+                    <span key={category} className="flex items-center gap-1">
+                        <span className={`inline-block w-3 h-3 rounded ${CATEGORY_COLORS[category]}`} /> {WORKLOAD_CATEGORY_LABELS[category]}
+                    </span>
+                ))}
+                <span className="flex items-center gap-1"><span className="inline-block w-0.5 h-3 bg-gray-800" /> הזמן הזמין</span>
+            </div>
+
+            {suggestions.length > 0 && (
+                <div>
+                    <h4 className="font-semibold text-gray-800 text-sm flex items-center gap-2 mb-2">
+                        <Users size={16} /> בתי ספר בשכבה 3 שיכולים לחלוק תוכנית כללית
+                    </h4>
+                    <ul className="space-y-2 text-sm">
+                        {suggestions.map(suggestion => (
+                            <li key={suggestion.issueId} className="bg-blue-50 border border-blue-200 rounded-md p-3">
+                                <p className="font-semibold text-gray-800">{issueName(suggestion.issueId)}</p>
+                                <p className="text-gray-700">
+                                    {suggestion.schoolIds.map(schoolName).join(', ')}: התוכניות דומות ב-{Math.round(suggestion.averageSimilarity * 100)}% בממוצע לתוכנית של {schoolName(suggestion.representativeSchoolId)}.
+                                    {suggestion.sharedAnnualHours < suggestion.annualHours && ` לפי תוכנית זו הם ידרשו ${formatHours(suggestion.sharedAnnualHours)} שעות בשנה במקום ${formatHours(suggestion.annualHours)}.`}
+                                </p>
+                                {suggestion.distinctSchoolIds.length > 0 && (
+                                    <p className="text-xs text-gray-500 mt-1">
+                                        לבתי הספר {suggestion.distinctSchoolIds.map(schoolName).join(', ')} תוכניות שונות; בתוכנית כללית גם הם יפעלו לפיה.
+                                    </p>
+                                )}
+                                <button
+                                    type="button"
+                                    onClick={() => onPlanUpdate(suggestion.issueId, applyTier3Sharing(plans[suggestion.issueId], suggestion))}
+                                    className="mt-2 text-xs px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                                >
+                                    מעבר לתוכנית כללית בשכבה 3
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CapacityPanel;
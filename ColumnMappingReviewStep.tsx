@@ -0,0 +1,221 @@
+import React, { useState, useMemo } from 'react';
+import type { ColumnMapping, RawDataTable, School, SavedColumnLayout } from '../types';
+import { getMappingTargets, scoreColumnMatch } from '../services/fileParserService';
+import { listColumnLayouts, saveColumnLayout, applyColumnLayout, deleteColumnLayout } from '../services/columnLayoutService';
+import { ArrowLeft, ArrowRight, Check, EyeOff, Save, AlertCircle, Trash2 } from 'lucide-react';
+
+interface ColumnMappingReviewStepProps {
+    fileName: string;
+    table: RawDataTable;
+    initialMappings: ColumnMapping[];
+    appliedLayoutName: string | null;
+    onComplete: (mappings: ColumnMapping[]) => void;
+    onBack: () => void;
+}
+
+const SAMPLE_SIZE = 3;
+
+const ScoreBadge: React.FC<{ mapping: ColumnMapping }> = ({ mapping }) => {
+    if (mapping.status === 'ignored' || !mapping.targetField) {
+        return <span className="text-xs text-gray-400">—</span>;
+    }
+    const percent = Math.round(mapping.score * 100);
+    const color = mapping.score >= 0.9 ? 'bg-green-100 text-green-800' : mapping.score >= 0.7 ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-800';
+    return <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${color}`}>{percent}%</span>;
+};
+
+const ColumnMappingReviewStep: React.FC<ColumnMappingReviewStepProps> = ({ fileName, table, initialMappings, appliedLayoutName, onComplete, onBack }) => {
+    const [mappings, setMappings] = useState<ColumnMapping[]>(initialMappings);
+    const [savedLayouts, setSavedLayouts] = useState<SavedColumnLayout[]>(listColumnLayouts);
+    const [layoutName, setLayoutName] = useState(appliedLayoutName || '');
+    const [statusMessage, setStatusMessage] = useState<string | null>(appliedLayoutName ? `הוחל מיפוי שמור: "${appliedLayoutName}"` : null);
+
+    const targets = useMemo(() => getMappingTargets(), []);
+
+    const duplicateTargets = useMemo(() => {
+        const counts = new Map<string, number>();
+        mappings.forEach(m => {
+            if (m.targetField && m.status !== 'ignored') counts.set(m.targetField as string, (counts.get(m.targetField as string) || 0) + 1);
+        });
+        return new Set([...counts.entries()].filter(([, count]) => count > 1).map(([field]) => field));
+    }, [mappings]);
+
+    const hasNameColumn = mappings.some(m => m.targetField === 'name' && m.status !== 'ignored');
+    const pendingCount = mappings.filter(m => m.status === 'proposed').length;
+
+    const updateMapping = (index: number, update: Partial<ColumnMapping>) => {
+        setMappings(prev => prev.map((m, i) => i === index ? { ...m, ...update } : m));
+    };
+
+    const handleTargetChange = (index: number, value: string) => {
+        if (!value) {
+            updateMapping(index, { targetField: null, score: 0, status: 'unmapped' });
+            return;
+        }
+        const targetField = value as keyof School;
+        updateMapping(index, { targetField, score: scoreColumnMatch(mappings[index].sourceHeader, targetField), status: 'confirmed' });
+    };
+
+    const handleConfirmAll = () => {
+        setMappings(prev => prev.map(m => m.status === 'proposed' ? { ...m, status: 'confirmed' } : m));
+    };
+
+    const handleApplyLayout = (layoutId: string) => {
+        const layout = savedLayouts.find(l => l.id === layoutId);
+        if (!layout) return;
+        setMappings(prev => applyColumnLayout(layout, prev));
+        setLayoutName(layout.name);
+        setStatusMessage(`הוחל מיפוי שמור: "${layout.name}"`);
+    };
+
+    const handleSaveLayout = () => {
+        const name = layoutName.trim() || fileName;
+        try {
+            saveColumnLayout(name, mappings);
+            setSavedLayouts(listColumnLayouts());
+            setStatusMessage(`המיפוי נשמר בשם "${name}" ויוחל אוטומטית על קבצים עם אותן כותרות.`);
+        } catch (error) {
+            setStatusMessage(`שגיאה בשמירת המיפוי: ${(error as Error).message}`);
+        }
+    };
+
+    const handleDeleteLayout = (layout: SavedColumnLayout) => {
+        if (window.confirm(`האם למחוק את המיפוי השמור "${layout.name}"?`)) {
+            deleteColumnLayout(layout.id);
+            setSavedLayouts(listColumnLayouts());
+        }
+    };
+
+    return (
+        <div className="bg-white p-8 rounded-lg shadow-lg">
+            <header className="text-center mb-8">
+                <h1 className="text-3xl md:text-4xl font-bold text-gray-800">בדיקת מיפוי עמודות</h1>
+                <p className="text-gray-500 mt-2 text-lg max-w-3xl mx-auto">
+                    לכל עמודה בקובץ "{fileName}" הוצע שדה יעד לפי דמיון שמות. ניתן לאשר, למפות מחדש או להתעלם מעמודות לפני אימות הנתונים.
+                </p>
+            </header>
+
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+                <button type="button" onClick={handleConfirmAll} disabled={pendingCount === 0} className="flex items-center gap-2 px-3 py-1.5 bg-green-500 text-white text-sm font-semibold rounded-md hover:bg-green-600 disabled:bg-gray-300">
+                    <Check size={16} /> אשר את כל ההצעות ({pendingCount})
+                </button>
+                {savedLayouts.length > 0 && (
+                    <select
+                        value=""
+                        onChange={(e) => handleApplyLayout(e.target.value)}
+                        className="p-1.5 border border-gray-300 rounded-md text-sm bg-white"
+                    >
+                        <option value="">החל מיפוי שמור...</option>
+                        {savedLayouts.map(layout => <option key={layout.id} value={layout.id}>{layout.name}</option>)}
+                    </select>
+                )}
+                <div className="flex-grow" />
+                <input
+                    type="text"
+                    value={layoutName}
+                    onChange={(e) => setLayoutName(e.target.value)}
+                    placeholder="שם למיפוי (למשל: מחוז מרכז)"
+                    className="p-1.5 border border-gray-300 rounded-md text-sm w-56"
+                />
+                <button type="button" onClick={handleSaveLayout} className="flex items-center gap-2 px-3 py-1.5 bg-blue-500 text-white text-sm font-semibold rounded-md hover:bg-blue-600">
+                    <Save size={16} /> שמור מיפוי לשימוש חוזר
+                </button>
+            </div>
+
+            {statusMessage && <p className="mb-4 text-sm text-blue-800 bg-blue-50 border border-blue-200 rounded-md p-2">{statusMessage}</p>}
+            {!hasNameColumn && (
+                <div className="mb-4 flex items-center gap-2 text-sm text-red-800 bg-red-50 border border-red-200 rounded-md p-2">
+                    <AlertCircle size={16} /> לא מופתה עמודה לשם בית הספר. בתי הספר יקבלו שמות כלליים.
+                </div>
+            )}
+
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full text-sm">
+                    <thead className="bg-gray-100 text-xs text-gray-600">
+                        <tr>
+                            <th className="p-2 text-right">עמודה בקובץ</th>
+                            <th className="p-2 text-right">ערכים לדוגמה</th>
+                            <th className="p-2 text-right">שדה יעד</th>
+                            <th className="p-2 text-center">התאמה</th>
+                            <th className="p-2 text-center">פעולות</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {mappings.map((mapping, index) => {
+                            const samples = table.rows.slice(0, SAMPLE_SIZE).map(row => row[index]).filter(Boolean);
+                            const isIgnored = mapping.status === 'ignored';
+                            const isDuplicate = !!mapping.targetField && duplicateTargets.has(mapping.targetField as string) && !isIgnored;
+                            return (
+                                <tr key={index} className={`border-t border-gray-200 ${isIgnored ? 'bg-gray-50 text-gray-400' : mapping.status === 'confirmed' ? 'bg-green-50/40' : ''}`}>
+                                    <td className="p-2 font-semibold">{mapping.sourceHeader || <span className="italic">(ללא כותרת)</span>}</td>
+                                    <td className="p-2 text-xs text-gray-500 max-w-[200px] truncate">{samples.join(' · ')}</td>
+                                    <td className="p-2">
+                                        <select
+                                            value={(mapping.targetField as string) || ''}
+                                            onChange={(e) => handleTargetChange(index, e.target.value)}
+                                            disabled={isIgnored}
+                                            className={`w-full max-w-sm p-1.5 border rounded-md bg-white ${isDuplicate ? 'border-red-500' : 'border-gray-300'}`}
+                                        >
+                                            <option value="">— ללא מיפוי —</option>
+                                            {targets.map(target => <option key={target.field as string} value={target.field as string}>{target.label}</option>)}
+                                        </select>
+                                        {isDuplicate && <p className="text-xs text-red-600 mt-1">שדה זה ממופה ליותר מעמודה אחת.</p>}
+                                    </td>
+                                    <td className="p-2 text-center"><ScoreBadge mapping={mapping} /></td>
+                                    <td className="p-2">
+                                        <div className="flex items-center justify-center gap-2">
+                                            {mapping.status === 'proposed' && (
+                                                <button type="button" onClick={() => updateMapping(index, { status: 'confirmed' })} className="p-1 rounded-full text-green-600 hover:bg-green-100" title="אישור">
+                                                    <Check size={16} />
+                                                </button>
+                                            )}
+                                            <button
+                                                type="button"
+                                                onClick={() => updateMapping(index, { status: isIgnored ? (mapping.targetField ? 'confirmed' : 'unmapped') : 'ignored' })}
+                                                className={`p-1 rounded-full hover:bg-gray-200 ${isIgnored ? 'text-blue-600' : 'text-gray-500'}`}
+                                                title={isIgnored ? 'ביטול התעלמות' : 'התעלם מעמודה'}
+                                            >
+                                                <EyeOff size={16} />
+                                            </button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            {savedLayouts.length > 0 && (
+                <details className="mt-4 text-sm text-gray-600">
+                    <summary className="cursor-pointer font-semibold">מיפויים שמורים ({savedLayouts.length})</summary>
+                    <ul className="mt-2 space-y-1">
+                        {savedLayouts.map(layout => (
+                            <li key={layout.id} className="flex items-center gap-2">
+                                <span>{layout.name} ({layout.headers.length} עמודות, נשמר {new Date(layout.savedAt).toLocaleDateString('he-IL')})</span>
+                                <button type="button" onClick={() => handleDeleteLayout(layout)} className="text-red-500 hover:text-red-700 p-1 rounded-full"><Trash2 size={14} /></button>
+                            </li>
+                        ))}
+                    </ul>
+                </details>
+            )}
+
+            <div className="flex justify-between items-center mt-12 border-t pt-6">
+                <button onClick={onBack} className="flex items-center gap-2 px-6 py-3 bg-gray-200 text-gray-800 font-semibold rounded-lg shadow-sm hover:bg-gray-300 transition-colors">
+                    <ArrowRight size={18} />
+                    חזרה
+                </button>
+                <button
+                    onClick={() => onComplete(mappings)}
+                    disabled={duplicateTargets.size > 0}
+                    className="flex items-center gap-2 px-8 py-4 bg-green-600 text-white font-bold rounded-lg shadow-lg hover:bg-green-700 transition-all transform hover:scale-105 disabled:bg-gray-400 disabled:cursor-not-allowed disabled:transform-none"
+                >
+                    המשך לאימות נתונים
+                    <ArrowLeft size={20} />
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ColumnMappingReviewStep;
@@ -0,0 +1,81 @@
+import React, { useMemo } from 'react';
+import type { CorrelationMatrix } from '../services/metricCorrelationService';
+import { clusterMetrics, getIssueMetrics, rankUpstreamMetrics, metricName, MIN_PAIRED_SCHOOLS } from '../services/metricCorrelationService';
+import { Network } from 'lucide-react';
+
+interface CorrelationExplorerProps {
+    matrix: CorrelationMatrix;
+    issueId: string;
+    schoolCount: number;
+}
+
+const MAX_UPSTREAM_METRICS = 8;
+
+const correlationColor = (r: number): string => {
+    if (r >= 0.7) return 'bg-blue-700 text-white';
+    if (r >= 0.5) return 'bg-blue-500 text-white';
+    if (r >= 0.3) return 'bg-blue-200 text-blue-900';
+    return 'bg-gray-100 text-gray-700';
+};
+
+export const CorrelationBadge: React.FC<{ r: number }> = ({ r }) => (
+    <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-semibold whitespace-nowrap ${correlationColor(r)}`} dir="ltr">
+        r = {r.toFixed(2)}
+    </span>
+);
+
+/**
+ * Shows which metrics outside the issue move together with the issue's metrics across the uploaded schools,
+ * and the groups of metrics that move together overall.
+ */
+const CorrelationExplorer: React.FC<CorrelationExplorerProps> = ({ matrix, issueId, schoolCount }) => {
+    const issueMetrics = useMemo(() => getIssueMetrics(issueId), [issueId]);
+    const upstream = useMemo(() => rankUpstreamMetrics(matrix, issueMetrics).slice(0, MAX_UPSTREAM_METRICS), [matrix, issueMetrics]);
+    const clusters = useMemo(() => clusterMetrics(matrix), [matrix]);
+
+    if (schoolCount < MIN_PAIRED_SCHOOLS) {
+        return <p className="text-sm text-gray-500">נדרשים לפחות {MIN_PAIRED_SCHOOLS} בתי ספר כדי לחשב מתאמים בין מדדים.</p>;
+    }
+
+    return (
+        <div className="space-y-4 text-sm">
+            <div>
+                <h4 className="font-bold text-gray-800 mb-1">מדדים הקשורים ביותר למדדי הסוגיה</h4>
+                <p className="text-xs text-gray-500 mb-2">מתאם פירסון ממוצע עם מדדי הסוגיה ({issueMetrics.length} מדדים) על פני {schoolCount} בתי ספר. מתאם אינו מעיד על סיבתיות.</p>
+                {upstream.length > 0 ? (
+                    <ul className="space-y-1">
+                        {upstream.map(association => (
+                            <li key={association.field} className="flex flex-wrap justify-between gap-2 p-2 bg-white rounded-md border border-gray-200">
+                                <span className="text-gray-800">{metricName(association.field)}</span>
+                                <span className="flex items-center gap-2 text-xs text-gray-500">
+                                    <span>בעיקר עם: {metricName(association.strongestWith)} ({association.strongestCorrelation.toFixed(2)})</span>
+                                    <CorrelationBadge r={association.correlation} />
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                ) : <p className="text-gray-500">לא נמצאו מתאמים עבור מדדי הסוגיה.</p>}
+            </div>
+            <details>
+                <summary className="cursor-pointer font-bold text-gray-800 flex items-center gap-2">
+                    <Network size={16} /> אשכולות מדדים הנעים יחד ({clusters.length})
+                </summary>
+                {clusters.length > 0 ? (
+                    <ol className="list-decimal list-inside mt-2 space-y-2">
+                        {clusters.map((cluster, index) => (
+                            <li key={index} className="text-gray-700">
+                                {cluster.map(field => (
+                                    <span key={field} className={`inline-block m-0.5 px-2 py-0.5 rounded-md text-xs ${issueMetrics.includes(field) ? 'bg-red-100 text-red-800 font-semibold' : 'bg-gray-100'}`}>
+                                        {metricName(field)}
+                                    </span>
+                                ))}
+                            </li>
+                        ))}
+                    </ol>
+                ) : <p className="text-gray-500 mt-2">לא נמצאו מדדים הנעים יחד.</p>}
+            </details>
+        </div>
+    );
+};
+
+export default CorrelationExplorer;
@@ -0,0 +1,125 @@
+import React, { useMemo, useState } from 'react';
+import type { DataQualityIssue } from '../types';
+import { DATA_QUALITY_ISSUE_LABELS } from '../services/dataValidationService';
+import { AlertTriangle, CheckCircle, ChevronDown, Wand2 } from 'lucide-react';
+
+interface DataQualityReportProps {
+    issues: DataQualityIssue[];
+    onApplyFixes: (issues: DataQualityIssue[]) => void;
+}
+
+const DataQualityReport: React.FC<DataQualityReportProps> = ({ issues, onApplyFixes }) => {
+    const [isOpen, setIsOpen] = useState(true);
+    const [expandedSchoolId, setExpandedSchoolId] = useState<number | null>(null);
+
+    const errorCount = issues.filter(i => i.severity === 'error').length;
+    const fixableIssues = useMemo(() => issues.filter(i => i.fix), [issues]);
+
+    const issuesByType = useMemo(() => {
+        const groups = new Map<DataQualityIssue['type'], DataQualityIssue[]>();
+        issues.forEach(issue => groups.set(issue.type, [...(groups.get(issue.type) || []), issue]));
+        return [...groups.entries()];
+    }, [issues]);
+
+    const issuesBySchool = useMemo(() => {
+        const groups = new Map<number, { schoolName: string; issues: DataQualityIssue[] }>();
+        issues.forEach(issue => {
+            const group = groups.get(issue.schoolId) || { schoolName: issue.schoolName, issues: [] };
+            group.issues.push(issue);
+            groups.set(issue.schoolId, group);
+        });
+        return [...groups.entries()];
+    }, [issues]);
+
+    if (issues.length === 0) {
+        return (
+            <div className="mb-6 flex items-center gap-2 bg-green-50 border border-green-200 text-green-800 rounded-lg p-4 font-semibold">
+                <CheckCircle className="w-5 h-5" />
+                בדיקת איכות הנתונים עברה בהצלחה: לא נמצאו ערכים חריגים.
+            </div>
+        );
+    }
+
+    return (
+        <div className={`mb-6 rounded-lg border p-4 ${errorCount > 0 ? 'bg-red-50 border-red-200' : 'bg-yellow-50 border-yellow-200'}`}>
+            <div className="flex flex-wrap justify-between items-center gap-3">
+                <button type="button" onClick={() => setIsOpen(!isOpen)} className={`flex items-center gap-2 font-semibold ${errorCount > 0 ? 'text-red-800' : 'text-yellow-800'}`}>
+                    <AlertTriangle className="w-5 h-5" />
+                    דוח איכות נתונים: {errorCount} שגיאות ו-{issues.length - errorCount} אזהרות ב-{issuesBySchool.length} בתי ספר
+                    <ChevronDown className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+                </button>
+                {fixableIssues.length > 0 && (
+                    <button
+                        type="button"
+                        onClick={() => onApplyFixes(fixableIssues)}
+                        className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 text-white text-sm font-semibold rounded-md hover:bg-blue-700"
+                    >
+                        <Wand2 size={16} /> החל את כל התיקונים המוצעים ({fixableIssues.length})
+                    </button>
+                )}
+            </div>
+
+            {isOpen && (
+                <div className="mt-4 space-y-4">
+                    <div className="flex flex-wrap gap-2">
+                        {issuesByType.map(([type, typeIssues]) => {
+                            const fixable = typeIssues.filter(i => i.fix);
+                            return (
+                                <div key={type} className="flex items-center gap-2 bg-white border border-gray-200 rounded-md px-3 py-1.5 text-sm">
+                                    <span className="font-semibold text-gray-700">{DATA_QUALITY_ISSUE_LABELS[type]}:</span>
+                                    <span className="text-gray-600">{typeIssues.length}</span>
+                                    {fixable.length > 0 && (
+                                        <button type="button" onClick={() => onApplyFixes(fixable)} className="text-blue-600 hover:underline text-xs font-semibold">
+                                            תקן הכל
+                                        </button>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    <ul className="bg-white border border-gray-200 rounded-md divide-y divide-gray-200 max-h-96 overflow-y-auto text-sm">
+                        {issuesBySchool.map(([schoolId, group]) => {
+                            const isExpanded = expandedSchoolId === schoolId;
+                            return (
+                                <li key={schoolId}>
+                                    <button
+                                        type="button"
+                                        onClick={() => setExpandedSchoolId(isExpanded ? null : schoolId)}
+                                        className="w-full flex justify-between items-center p-2 text-right hover:bg-gray-50"
+                                    >
+                                        <span className="font-semibold text-gray-800">{group.schoolName || `בית ספר ${schoolId}`}</span>
+                                        <span className="flex items-center gap-2 text-xs text-gray-500">
+                                            {group.issues.length} בעיות
+                                            <ChevronDown className={`w-4 h-4 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+                                        </span>
+                                    </button>
+                                    {isExpanded && (
+                                        <ul className="px-4 pb-2 space-y-1">
+                                            {group.issues.map(issue => (
+                                                <li key={issue.id} className="flex flex-wrap items-center justify-between gap-2">
+                                                    <span className={issue.severity === 'error' ? 'text-red-700' : 'text-yellow-800'}>{issue.message}</span>
+                                                    {issue.fix && (
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => onApplyFixes([issue])}
+                                                            className="px-2 py-0.5 bg-blue-100 text-blue-800 text-xs font-semibold rounded hover:bg-blue-200"
+                                                        >
+                                                            {issue.fix.label}
+                                                        </button>
+                                                    )}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default DataQualityReport;
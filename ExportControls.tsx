@@ -1,4 +1,5 @@
 import React, { useState, useRef, useEffect } from 'react';
+import { canRenderPdfDocuments, downloadPdfDocument, PdfDocument } from '../services/pdfExportService';
 
 // Declare globals for CDN scripts
 declare const html2canvas: any;
@@ -18,9 +19,11 @@ interface ExportControlsProps {
   reportName: string;
   onExportCSV?: () => void;
   onExportHTML?: () => void;
+  /** Builds the report as text for a searchable PDF; without it the PDF is a snapshot of the page. */
+  pdfDocument?: () => PdfDocument;
 }
 
-const ExportControls: React.FC<ExportControlsProps> = ({ targetRef, reportName, onExportCSV, onExportHTML }) => {
+const ExportControls: React.FC<ExportControlsProps> = ({ targetRef, reportName, onExportCSV, onExportHTML, pdfDocument }) => {
     const [isOpen, setIsOpen] = useState(false);
     const [isExporting, setIsExporting] = useState<boolean>(false);
     const dropdownRef = useRef<HTMLDivElement>(null);
@@ -50,6 +53,19 @@ const ExportControls: React.FC<ExportControlsProps> = ({ targetRef, reportName,
     
     const exportAs = async (format: 'png' | 'pdf') => {
         setIsOpen(false);
+        if (format === 'pdf' && pdfDocument) {
+            if (!canRenderPdfDocuments()) {
+                alert('Export functionality is not available.');
+                return;
+            }
+            try {
+                downloadPdfDocument(pdfDocument(), reportName);
+            } catch (error) {
+                console.error('PDF export failed:', error);
+                alert(`An error occurred during export: ${(error as Error).message}`);
+            }
+            return;
+        }
         setIsExporting(true);
         const element = targetRef.current;
         if (!element || typeof html2canvas === 'undefined') {
@@ -1,42 +1,269 @@
-import React, { useState, useCallback, useMemo } from 'react';
-import { parseFile } from '../services/fileParserService';
-import { School, AnalysisData, Issue, AllInterventionPlans, TieredSchools, SchoolForAnalysis } from '../types';
+import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import { parseFile, buildSchoolsFromTable, proposeColumnMappings } from '../services/fileParserService';
+import { findMatchingLayout, applyColumnLayout } from '../services/columnLayoutService';
+import { createSessionId, saveSession, loadSession, deleteSession, listSessions } from '../services/sessionStorageService';
+import { downloadProjectFile, isProjectFile, parseProjectFile } from '../services/projectFileService';
+import { downloadXlsxTemplate, downloadCsvTemplate } from '../services/templateService';
+import { DEFAULT_TIERING_RULE_SET, computeTieredSchools, describeRuleSet } from '../services/tieringRulesService';
+import { DEFAULT_ANALYTICS_VIEW } from '../services/analyticsViewService';
+import { loadCoverageRules, saveCoverageRules } from '../services/dataCoverageService';
+import { loadPrioritizationSettings, savePrioritizationSettings, describePrioritization } from '../services/prioritizationService';
+import type { WhatIfContext } from '../services/whatIfService';
+import { School, AnalysisData, Issue, AllInterventionPlans, TieredSchools, SchoolForAnalysis, WizardStep, SessionMetadata, SessionSummary, WizardSessionState, ParseIssue, HistoricalDataset, RawDataTable, ColumnMapping, WorkbookSheet, TieringRuleSet, TierOverride, AnalyticsView, PrioritizationSettings, MonitoredIndicator } from '../types';
 import DynamicDataAnalyzer from './DynamicDataAnalyzer';
 import Step1_DataMapping from './Step1_DataMapping';
 import IssueSelectionStep from './IssueSelectionStep';
 import { InterventionPlanBuilder } from './InterventionPlanBuilder';
 import MTSS_TieringStep from './MTSS_TieringStep';
 import Step6_SupervisorGoals from './Step6_SupervisorGoals';
+import Step7_SuccessIndicators from './Step7_SuccessIndicators';
 import FocusAreaSelectionStep from './FocusAreaSelectionStep';
+import RecentSessionsList from './RecentSessionsList';
+import SessionDetailsBar from './SessionDetailsBar';
+import ParseWarningsPanel from './ParseWarningsPanel';
+import ColumnMappingReviewStep from './ColumnMappingReviewStep';
+import SheetSelectionStep from './SheetSelectionStep';
+import HistoricalDatasetsPanel from './HistoricalDatasetsPanel';
+import InteractiveHeatMap from './InteractiveHeatMap';
+
+const AUTOSAVE_DELAY_MS = 800;
+
+const emptySessionMetadata = (): SessionMetadata => ({ name: '', district: '', schoolYear: '' });
+
+// Prefers a saved layout for the same headers over the similarity-based proposal.
+const proposeReview = (table: RawDataTable, proposedMappings: ColumnMapping[]) => {
+    const savedLayout = findMatchingLayout(table.headers);
+    return {
+        table,
+        mappings: savedLayout ? applyColumnLayout(savedLayout, proposedMappings) : proposedMappings,
+        appliedLayoutName: savedLayout?.name || null,
+    };
+};
 
 const FileUploadAnalyzer: React.FC = () => {
-    const [currentStep, setCurrentStep] = useState<'upload' | 'data-mapping' | 'analysis' | 'focus-area-selection' | 'issue-selection' | 'mtss-tiering' | 'supervisor-goals' | 'plan'>('upload');
+    const [currentStep, setCurrentStep] = useState<WizardStep>('upload');
     const [schoolsData, setSchoolsData] = useState<School[]>([]);
     const [analysisData, setAnalysisData] = useState<AnalysisData | null>(null);
     const [selectedFocusAreas, setSelectedFocusAreas] = useState<string[]>([]);
     const [selectedIssues, setSelectedIssues] = useState<Issue[]>([]);
     const [interventionPlans, setInterventionPlans] = useState<AllInterventionPlans>({});
+    const [historicalDatasets, setHistoricalDatasets] = useState<HistoricalDataset[]>([]);
+    const [tieringRuleSet, setTieringRuleSet] = useState<TieringRuleSet>(DEFAULT_TIERING_RULE_SET);
+    const [tierOverrides, setTierOverrides] = useState<TierOverride[]>([]);
+    const [prioritizationSettings, setPrioritizationSettings] = useState<PrioritizationSettings>(loadPrioritizationSettings);
+    const [monitoringIndicators, setMonitoringIndicators] = useState<MonitoredIndicator[]>([]);
+    const [followUpDataset, setFollowUpDataset] = useState<HistoricalDataset | null>(null);
+    // A view preference shared by the analysis steps; it is not part of the saved project.
+    const [analyticsView, setAnalyticsView] = useState<AnalyticsView>(() => ({ ...DEFAULT_ANALYTICS_VIEW, coverage: loadCoverageRules() }));
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [sessionId, setSessionId] = useState<string | null>(null);
+    const [sessionCreatedAt, setSessionCreatedAt] = useState<string | null>(null);
+    const [sessionMetadata, setSessionMetadata] = useState<SessionMetadata>(emptySessionMetadata);
+    const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const [recentSessions, setRecentSessions] = useState<SessionSummary[]>([]);
+    const [parseReport, setParseReport] = useState<{ fileName: string; warnings: ParseIssue[] } | null>(null);
+    const [importReview, setImportReview] = useState<{ fileName: string; sheets: WorkbookSheet[]; table: RawDataTable; mappings: ColumnMapping[]; appliedLayoutName: string | null } | null>(null);
+
+    const refreshRecentSessions = useCallback(async () => {
+        try {
+            setRecentSessions(await listSessions());
+        } catch (error) {
+            console.error("Failed to list saved sessions:", error);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (currentStep === 'upload') {
+            refreshRecentSessions();
+        }
+    }, [currentStep, refreshRecentSessions]);
+
+    const wizardState = useMemo((): WizardSessionState => ({
+        currentStep,
+        schoolsData,
+        analysisData,
+        selectedFocusAreas,
+        selectedIssues,
+        interventionPlans,
+        historicalDatasets,
+        tieringRuleSet,
+        tierOverrides,
+        prioritizationSettings,
+        monitoringIndicators,
+        followUpDataset,
+    }), [currentStep, schoolsData, analysisData, selectedFocusAreas, selectedIssues, interventionPlans, historicalDatasets, tieringRuleSet, tierOverrides, prioritizationSettings, monitoringIndicators, followUpDataset]);
+
+    // Autosave the whole wizard state once a session has been started.
+    useEffect(() => {
+        if (!sessionId || !sessionCreatedAt) return;
+        const timerId = setTimeout(async () => {
+            const updatedAt = new Date().toISOString();
+            try {
+                await saveSession({
+                    id: sessionId,
+                    createdAt: sessionCreatedAt,
+                    updatedAt,
+                    ...sessionMetadata,
+                    ...wizardState,
+                });
+                setLastSavedAt(updatedAt);
+                setSaveError(null);
+            } catch (error) {
+                console.error("Autosave failed:", error);
+                setSaveError("השמירה האוטומטית נכשלה");
+            }
+        }, AUTOSAVE_DELAY_MS);
+        return () => clearTimeout(timerId);
+    }, [sessionId, sessionCreatedAt, sessionMetadata, wizardState]);
+
+    const startNewSession = useCallback((name: string) => {
+        setSessionId(createSessionId());
+        setSessionCreatedAt(new Date().toISOString());
+        setSessionMetadata({ ...emptySessionMetadata(), name });
+        setLastSavedAt(null);
+        setSaveError(null);
+    }, []);
+
+    const restoreWizardState = useCallback((state: WizardSessionState) => {
+        setSchoolsData(state.schoolsData);
+        setAnalysisData(state.analysisData);
+        setSelectedFocusAreas(state.selectedFocusAreas);
+        setSelectedIssues(state.selectedIssues);
+        setInterventionPlans(state.interventionPlans);
+        setHistoricalDatasets(state.historicalDatasets || []);
+        setTieringRuleSet(state.tieringRuleSet || DEFAULT_TIERING_RULE_SET);
+        setTierOverrides(state.tierOverrides || []);
+        setPrioritizationSettings(state.prioritizationSettings || loadPrioritizationSettings());
+        setMonitoringIndicators(state.monitoringIndicators || []);
+        setFollowUpDataset(state.followUpDataset || null);
+        // The import steps need the raw file, which is not stored; steps after the analysis need analysis results.
+        const isImportStep = state.currentStep === 'sheet-selection' || state.currentStep === 'column-mapping';
+        const needsAnalysis = !['upload', 'sheet-selection', 'column-mapping', 'data-mapping', 'analysis'].includes(state.currentStep);
+        const cannotResume = isImportStep || (needsAnalysis && !state.analysisData);
+        setCurrentStep(cannotResume ? 'data-mapping' : state.currentStep);
+    }, []);
+
+    // The formula is saved as the user's default and recorded in the project with the ranking it produced.
+    const handlePrioritizationSettingsChange = useCallback((settings: PrioritizationSettings) => {
+        setPrioritizationSettings(settings);
+        savePrioritizationSettings(settings);
+    }, []);
+
+    // The coverage rules are kept per user across projects.
+    const handleAnalyticsViewChange = useCallback((view: AnalyticsView) => {
+        setAnalyticsView(view);
+        saveCoverageRules(view.coverage);
+    }, []);
+
+    const handleResumeSession = useCallback(async (id: string) => {
+        try {
+            setError(null);
+            const session = await loadSession(id);
+            if (!session) {
+                setError("הסשן המבוקש לא נמצא.");
+                refreshRecentSessions();
+                return;
+            }
+            setSessionId(session.id);
+            setSessionCreatedAt(session.createdAt);
+            setSessionMetadata({ name: session.name, district: session.district, schoolYear: session.schoolYear });
+            setLastSavedAt(session.updatedAt);
+            setSaveError(null);
+            restoreWizardState(session);
+        } catch (error) {
+            setError(`שגיאה בטעינת הסשן: ${(error as Error).message}`);
+        }
+    }, [refreshRecentSessions, restoreWizardState]);
+
+    const handleDeleteSession = useCallback(async (id: string) => {
+        try {
+            await deleteSession(id);
+        } catch (error) {
+            setError(`שגיאה במחיקת הסשן: ${(error as Error).message}`);
+        }
+        refreshRecentSessions();
+    }, [refreshRecentSessions]);
+
+    const handleManualEntry = useCallback(() => {
+        startNewSession(`הזנה ידנית ${new Date().toLocaleDateString('he-IL')}`);
+        setCurrentStep('data-mapping');
+    }, [startNewSession]);
+
+    const handleProjectFileUpload = useCallback(async (file: File) => {
+        try {
+            setLoading(true);
+            setError(null);
+            const project = await parseProjectFile(file);
+            startNewSession(project.metadata.name);
+            setSessionMetadata(project.metadata);
+            restoreWizardState(project.state);
+        } catch (error) {
+            setError(`שגיאה בפתיחת קובץ הפרויקט: ${(error as Error).message}`);
+        } finally {
+            setLoading(false);
+        }
+    }, [startNewSession, restoreWizardState]);
+
+    const handleExportProject = useCallback(() => {
+        downloadProjectFile(sessionMetadata, wizardState);
+    }, [sessionMetadata, wizardState]);
 
     const handleFileUpload = useCallback(async (file: File) => {
+        if (isProjectFile(file)) {
+            return handleProjectFileUpload(file);
+        }
         try {
             setLoading(true);
             setError(null);
             const parsedData = await parseFile(file);
-            const schoolsWithIds = parsedData.schools.map((school, index) => ({
-                ...school,
-                id: school.id || index + 1
-            }));
-            setSchoolsData(schoolsWithIds);
-            setCurrentStep('data-mapping');
+            setParseReport({ fileName: parsedData.metadata.fileName, warnings: parsedData.metadata.warnings });
+            setImportReview({
+                fileName: parsedData.metadata.fileName,
+                sheets: parsedData.sheets,
+                ...proposeReview(parsedData.table, parsedData.columnMappings),
+            });
+            setCurrentStep(parsedData.sheets.length > 1 ? 'sheet-selection' : 'column-mapping');
         } catch (error) {
             setError(`שגיאה בעיבוד הקובץ: ${(error as Error).message}`);
         } finally {
             setLoading(false);
         }
+    }, [handleProjectFileUpload]);
+
+    const handleSheetSelectionComplete = useCallback((table: RawDataTable) => {
+        setImportReview(prev => prev && { ...prev, ...proposeReview(table, proposeColumnMappings(table.headers)) });
+        setCurrentStep('column-mapping');
+    }, []);
+
+    const handleColumnMappingComplete = useCallback((mappings: ColumnMapping[]) => {
+        if (!importReview) return;
+        const schools = buildSchoolsFromTable(importReview.table, mappings);
+        if (schools.length === 0) {
+            setError("לא נמצאו נתונים בקובץ.");
+            return;
+        }
+        startNewSession(importReview.fileName.replace(/\.[^.]+$/, ''));
+        setSchoolsData(schools);
+        setImportReview(null);
+        setCurrentStep('data-mapping');
+    }, [importReview, startNewSession]);
+
+    const handleImportCancel = useCallback(() => {
+        setImportReview(null);
+        setParseReport(null);
+        setCurrentStep('upload');
     }, []);
 
+    const handleColumnMappingBack = useCallback(() => {
+        if (importReview && importReview.sheets.length > 1) {
+            setCurrentStep('sheet-selection');
+        } else {
+            handleImportCancel();
+        }
+    }, [importReview, handleImportCancel]);
+
     const handleDataMappingComplete = useCallback(() => {
         if (schoolsData.length === 0) {
             setError("יש להזין נתונים עבור בית ספר אחד לפחות.");
@@ -70,36 +297,50 @@ const FileUploadAnalyzer: React.FC = () => {
 
     const handlePlanComplete = useCallback((plans: AllInterventionPlans) => {
         setInterventionPlans(plans);
-        alert("תכנית התערבות נוצרה בהצלחה!");
+        setCurrentStep('monitoring');
     }, []);
 
+    // The saved session stays in storage; resetting only detaches the wizard from it.
     const handleReset = useCallback(() => {
+        setSessionId(null);
+        setSessionCreatedAt(null);
+        setSessionMetadata(emptySessionMetadata());
+        setLastSavedAt(null);
+        setSaveError(null);
         setCurrentStep('upload');
+        setParseReport(null);
+        setImportReview(null);
         setSchoolsData([]);
         setAnalysisData(null);
         setSelectedFocusAreas([]);
         setSelectedIssues([]);
         setInterventionPlans({});
+        setHistoricalDatasets([]);
+        setTieringRuleSet(DEFAULT_TIERING_RULE_SET);
+        setTierOverrides([]);
+        setPrioritizationSettings(loadPrioritizationSettings());
+        setMonitoringIndicators([]);
+        setFollowUpDataset(null);
         setError(null);
     }, []);
 
      const tieredSchoolsForPlan = useMemo((): TieredSchools => {
         if (!analysisData) {
-            return { tier1: [], tier2: [], tier3: [] };
+            return { tier1: [], tier2: [], tier3: [], overrides: {} };
         }
-        const affectedSchoolIds = new Set<number>();
-        selectedIssues.forEach(issue => {
-            issue.schoolDetails.forEach(detail => {
-                affectedSchoolIds.add(detail.schoolId);
-            });
-        });
-
-        const tier3 = analysisData.schools.filter(s => s.tier === 3 && affectedSchoolIds.has(s.id));
-        const tier2 = analysisData.schools.filter(s => s.tier === 2 && affectedSchoolIds.has(s.id));
-        const tier1 = analysisData.schools; // Universal tier includes all schools
+        return computeTieredSchools(analysisData.schools, selectedIssues, tieringRuleSet, historicalDatasets, tierOverrides);
+    }, [analysisData, selectedIssues, tieringRuleSet, historicalDatasets, tierOverrides]);
 
-        return { tier1, tier2, tier3 };
-    }, [analysisData, selectedIssues]);
+    const whatIfContext = useMemo((): WhatIfContext | undefined => analysisData ? {
+        schools: analysisData.schools,
+        selectedFocusAreas,
+        selectedIssueIds: selectedIssues.map(issue => issue.id),
+        ruleSet: tieringRuleSet,
+        historicalDatasets,
+        tierOverrides,
+        prioritizationSettings,
+        view: analyticsView,
+    } : undefined, [analysisData, selectedFocusAreas, selectedIssues, tieringRuleSet, historicalDatasets, tierOverrides, prioritizationSettings, analyticsView]);
 
     const FileUploadStep = () => (
         <div className="max-w-4xl mx-auto p-8">
@@ -148,12 +389,12 @@ const FileUploadAnalyzer: React.FC = () => {
                                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
                                 </svg>
                                 <p className="mb-2 text-sm text-gray-500"><span className="font-semibold">לחץ להעלאה</span> או גרור לכאן</p>
-                                <p className="text-xs text-gray-500">נתמכים: Excel (.xlsx/.xls), CSV</p>
+                                <p className="text-xs text-gray-500">נתמכים: Excel (.xlsx/.xls), CSV, קובץ פרויקט (.mtss)</p>
                             </div>
                             <input
                                 type="file"
                                 className="hidden"
-                                accept=".xlsx,.xls,.csv"
+                                accept=".xlsx,.xls,.csv,.mtss"
                                 onChange={(e) => {
                                     const file = e.target.files?.[0];
                                     if (file) handleFileUpload(file);
@@ -163,10 +404,21 @@ const FileUploadAnalyzer: React.FC = () => {
                     </div>
                 )}
                  <div className="mt-8 text-center">
-                    <button onClick={() => setCurrentStep('data-mapping')} className="text-blue-600 hover:underline">
+                    <button onClick={handleManualEntry} className="text-blue-600 hover:underline">
                         או המשך להזנה ידנית
                     </button>
                 </div>
+                <div className="mt-6 pt-6 border-t border-gray-200 text-center">
+                    <p className="text-sm text-gray-600 mb-3">אין עדיין קובץ? הורידו תבנית ריקה להפצה למנהלים. תבנית שמולאה נטענת ללא צורך במיפוי.</p>
+                    <div className="flex justify-center gap-3">
+                        <button onClick={downloadXlsxTemplate} className="px-4 py-2 bg-green-600 text-white text-sm font-semibold rounded-md hover:bg-green-700">
+                            הורדת תבנית Excel
+                        </button>
+                        <button onClick={downloadCsvTemplate} className="px-4 py-2 bg-gray-200 text-gray-800 text-sm font-semibold rounded-md hover:bg-gray-300">
+                            הורדת תבנית CSV
+                        </button>
+                    </div>
+                </div>
             </div>
         </div>
     );
@@ -174,9 +426,62 @@ const FileUploadAnalyzer: React.FC = () => {
     const renderCurrentStep = () => {
         switch (currentStep) {
             case 'upload':
-                return <FileUploadStep />;
+                return (
+                    <>
+                        <FileUploadStep />
+                        <RecentSessionsList sessions={recentSessions} onResume={handleResumeSession} onDelete={handleDeleteSession} />
+                    </>
+                );
+            case 'sheet-selection':
+                return (
+                    <div className="max-w-7xl mx-auto p-4 md:p-8">
+                        {importReview && (
+                            <SheetSelectionStep
+                                fileName={importReview.fileName}
+                                sheets={importReview.sheets}
+                                onComplete={handleSheetSelectionComplete}
+                                onBack={handleImportCancel}
+                            />
+                        )}
+                    </div>
+                );
+            case 'column-mapping':
+                return (
+                    <>
+                        {parseReport && (
+                            <ParseWarningsPanel fileName={parseReport.fileName} warnings={parseReport.warnings} onDismiss={() => setParseReport(null)} />
+                        )}
+                        <div className="max-w-7xl mx-auto p-4 md:p-8">
+                            {importReview && (
+                                <ColumnMappingReviewStep
+                                    key={importReview.table.headers.join('|')}
+                                    fileName={importReview.fileName}
+                                    table={importReview.table}
+                                    initialMappings={importReview.mappings}
+                                    appliedLayoutName={importReview.appliedLayoutName}
+                                    onComplete={handleColumnMappingComplete}
+                                    onBack={handleColumnMappingBack}
+                                />
+                            )}
+                        </div>
+                    </>
+                );
             case 'data-mapping':
-                return <Step1_DataMapping schools={schoolsData} setSchools={setSchoolsData} onComplete={handleDataMappingComplete} onReset={handleReset} />;
+                return (
+                    <>
+                        {parseReport && (
+                            <ParseWarningsPanel fileName={parseReport.fileName} warnings={parseReport.warnings} onDismiss={() => setParseReport(null)} />
+                        )}
+                        <HistoricalDatasetsPanel
+                            currentSchools={schoolsData}
+                            currentSchoolYear={sessionMetadata.schoolYear}
+                            datasets={historicalDatasets}
+                            onAdd={(dataset) => setHistoricalDatasets(prev => [...prev, dataset])}
+                            onRemove={(datasetId) => setHistoricalDatasets(prev => prev.filter(d => d.id !== datasetId))}
+                        />
+                        <Step1_DataMapping schools={schoolsData} setSchools={setSchoolsData} onComplete={handleDataMappingComplete} onReset={handleReset} />
+                    </>
+                );
             case 'analysis':
                 return (
                     <div className="max-w-7xl mx-auto p-4 md:p-8">
@@ -189,10 +494,17 @@ const FileUploadAnalyzer: React.FC = () => {
                         {analysisData && (
                             <FocusAreaSelectionStep
                                 analysisData={analysisData}
+                                analyticsView={analyticsView}
+                                onAnalyticsViewChange={handleAnalyticsViewChange}
                                 onComplete={handleFocusAreasSelected}
                                 onBack={() => setCurrentStep('analysis')}
                             />
                         )}
+                        {analysisData && historicalDatasets.length > 0 && (
+                            <div className="mt-8">
+                                <InteractiveHeatMap schools={analysisData.schools} historicalDatasets={historicalDatasets} analyticsView={analyticsView} />
+                            </div>
+                        )}
                     </div>
                 );
             case 'issue-selection':
@@ -202,6 +514,10 @@ const FileUploadAnalyzer: React.FC = () => {
                             <IssueSelectionStep
                                 schools={analysisData.schools}
                                 selectedFocusAreas={selectedFocusAreas}
+                                analyticsView={analyticsView}
+                                onAnalyticsViewChange={handleAnalyticsViewChange}
+                                prioritizationSettings={prioritizationSettings}
+                                onPrioritizationSettingsChange={handlePrioritizationSettingsChange}
                                 onComplete={handleIssuesSelected}
                                 onBack={() => setCurrentStep('focus-area-selection')}
                             />
@@ -215,6 +531,11 @@ const FileUploadAnalyzer: React.FC = () => {
                             <MTSS_TieringStep
                                 analysisData={analysisData}
                                 selectedIssues={selectedIssues}
+                                historicalDatasets={historicalDatasets}
+                                tieringRuleSet={tieringRuleSet}
+                                onTieringRuleSetChange={setTieringRuleSet}
+                                tierOverrides={tierOverrides}
+                                onTierOverridesChange={setTierOverrides}
                                 onComplete={handleTieringComplete}
                                 onBack={() => setCurrentStep('issue-selection')}
                             />
@@ -238,6 +559,12 @@ const FileUploadAnalyzer: React.FC = () => {
                             <InterventionPlanBuilder
                                 selectedIssues={selectedIssues}
                                 tieredSchools={tieredSchoolsForPlan}
+                                tieringCriteria={describeRuleSet(tieringRuleSet)}
+                                tierOverrideHistory={tierOverrides}
+                                prioritizationFormula={describePrioritization(prioritizationSettings)}
+                                whatIfContext={whatIfContext}
+                                initialPlans={interventionPlans}
+                                onPlansChange={setInterventionPlans}
                                 onPlanComplete={handlePlanComplete}
                                 onReset={handleReset}
                                 onBack={() => setCurrentStep('supervisor-goals')}
@@ -245,6 +572,23 @@ const FileUploadAnalyzer: React.FC = () => {
                         )}
                     </div>
                 );
+            case 'monitoring':
+                return (
+                    <div className="max-w-7xl mx-auto p-4 md:p-8">
+                        <Step7_SuccessIndicators
+                            selectedIssues={selectedIssues}
+                            plans={interventionPlans}
+                            onPlansChange={setInterventionPlans}
+                            tieredSchools={tieredSchoolsForPlan}
+                            indicators={monitoringIndicators}
+                            onIndicatorsChange={setMonitoringIndicators}
+                            followUpDataset={followUpDataset}
+                            onFollowUpDatasetChange={setFollowUpDataset}
+                            onBack={() => setCurrentStep('plan')}
+                            onReset={handleReset}
+                        />
+                    </div>
+                );
             default:
                 return <FileUploadStep />;
         }
@@ -252,6 +596,15 @@ const FileUploadAnalyzer: React.FC = () => {
 
     return (
         <div className="bg-gray-100 min-h-screen">
+            {sessionId && currentStep !== 'upload' && (
+                <SessionDetailsBar
+                    metadata={sessionMetadata}
+                    onChange={setSessionMetadata}
+                    lastSavedAt={lastSavedAt}
+                    saveError={saveError}
+                    onExportProject={handleExportProject}
+                />
+            )}
             {renderCurrentStep()}
         </div>
     );
@@ -1,48 +1,51 @@
 import React, { useState, useMemo } from 'react';
-import { AnalysisData, SchoolForAnalysis } from '../types';
+import { AnalysisData, AnalyticsView, SupportLevel } from '../types';
 import { FOCUS_AREA_DEFINITIONS, BOOKLET_TO_PLAN_ISSUES_MAP, BOOKLET_ISSUE_TO_METRICS_MAP } from '../constants';
+import { filterBySupportLevel, segmentBySupportLevel, weightedAverage, supportLevelLabel, AVERAGING_LABELS } from '../services/analyticsViewService';
+import { scoreCoverage, INSUFFICIENT_DATA_HATCHING } from '../services/dataCoverageService';
+import AnalyticsViewControls from './AnalyticsViewControls';
 import { ArrowLeft, ArrowRight, CheckCircle } from 'lucide-react';
 
 interface FocusAreaSelectionStepProps {
   analysisData: AnalysisData;
+  analyticsView: AnalyticsView;
+  onAnalyticsViewChange: (view: AnalyticsView) => void;
   onComplete: (selectedAreas: string[]) => void;
   onBack: () => void;
 }
 
-const FocusAreaSelectionStep: React.FC<FocusAreaSelectionStepProps> = ({ analysisData, onComplete, onBack }) => {
+const FocusAreaSelectionStep: React.FC<FocusAreaSelectionStepProps> = ({ analysisData, analyticsView, onAnalyticsViewChange, onComplete, onBack }) => {
     const [selectedAreas, setSelectedAreas] = useState<string[]>([]);
 
+    const segmentSchools = useMemo(() => filterBySupportLevel(analysisData.schools, analyticsView.supportLevel), [analysisData, analyticsView.supportLevel]);
+
     const focusAreaScores = useMemo(() => {
-        const scores: { [key: string]: { average: number; count: number } } = {};
+        const scores: { [key: string]: { average: number; count: number; coveragePercent: number; bySupportLevel: { level: SupportLevel; average: number }[] } } = {};
+        const { imputeMissing } = analyticsView.coverage;
         
         Object.keys(FOCUS_AREA_DEFINITIONS).forEach(areaKey => {
             const issueKeys = BOOKLET_TO_PLAN_ISSUES_MAP[areaKey] || [];
-            const metricsForArea = [...new Set(issueKeys.flatMap(issueKey => BOOKLET_ISSUE_TO_METRICS_MAP[issueKey] || []))];
+            const metricsForArea = [...new Set(issueKeys.flatMap(issueKey => BOOKLET_ISSUE_TO_METRICS_MAP[issueKey] || []))] as string[];
 
             if (metricsForArea.length === 0) {
-                scores[areaKey] = { average: 0, count: 0 };
+                scores[areaKey] = { average: 0, count: 0, coveragePercent: 100, bySupportLevel: [] };
                 return;
             }
 
-            let totalScore = 0;
-            let scoreCount = 0;
-            analysisData.schools.forEach(school => {
-                metricsForArea.forEach(metric => {
-                    const score = parseInt(school[metric as keyof SchoolForAnalysis] as string, 10);
-                    if (!isNaN(score) && score > 0) {
-                        totalScore += score;
-                        scoreCount++;
-                    }
-                });
-            });
-
             scores[areaKey] = {
-                average: scoreCount > 0 ? totalScore / scoreCount : 0,
-                count: metricsForArea.length
+                average: weightedAverage(segmentSchools, metricsForArea, analyticsView.averaging, imputeMissing),
+                count: metricsForArea.length,
+                coveragePercent: scoreCoverage(segmentSchools, metricsForArea).percent,
+                bySupportLevel: analyticsView.supportLevel === 'all'
+                    ? segmentBySupportLevel(analysisData.schools).map(segment => ({
+                        level: segment.level,
+                        average: weightedAverage(segment.schools, metricsForArea, analyticsView.averaging, imputeMissing),
+                    }))
+                    : [],
             };
         });
         return scores;
-    }, [analysisData]);
+    }, [analysisData, segmentSchools, analyticsView]);
 
     const handleToggleArea = (areaKey: string) => {
         setSelectedAreas(prev => 
@@ -68,10 +71,15 @@ const FocusAreaSelectionStep: React.FC<FocusAreaSelectionStepProps> = ({ analysi
                 </p>
             </header>
 
+            <div className="mb-6">
+                <AnalyticsViewControls view={analyticsView} onChange={onAnalyticsViewChange} schools={analysisData.schools} />
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                 {Object.entries(FOCUS_AREA_DEFINITIONS).map(([key, def]) => {
                     const isSelected = selectedAreas.includes(key);
                     const scoreInfo = focusAreaScores[key];
+                    const insufficient = scoreInfo.coveragePercent < analyticsView.coverage.minGroupCoverage;
                     return (
                         <div
                             key={key}
@@ -85,12 +93,25 @@ const FocusAreaSelectionStep: React.FC<FocusAreaSelectionStepProps> = ({ analysi
                                 <div className="bg-gray-100 p-3 rounded-lg text-gray-600">{def.icon}</div>
                                 <h3 className="text-xl font-bold text-gray-800">{def.name}</h3>
                             </div>
-                            <div className="text-center">
-                                <p className="text-sm text-gray-500">ציון ממוצע</p>
-                                <p className={`text-5xl font-extrabold ${getScoreColor(scoreInfo.average)}`}>
+                            <div className="text-center rounded-lg" style={insufficient ? INSUFFICIENT_DATA_HATCHING : undefined}>
+                                <p className="text-sm text-gray-500">ציון ממוצע ({AVERAGING_LABELS[analyticsView.averaging]}){analyticsView.coverage.imputeMissing && ' - משוער'}</p>
+                                <p className={`text-5xl font-extrabold ${getScoreColor(scoreInfo.average)} ${analyticsView.coverage.imputeMissing ? 'italic' : ''}`}>
                                     {scoreInfo.average.toFixed(2)}
                                 </p>
-                                <p className="text-xs text-gray-400 mt-1">מבוסס על {scoreInfo.count} מדדים</p>
+                                <p className="text-xs text-gray-400 mt-1">מבוסס על {scoreInfo.count} מדדים ו-{segmentSchools.length} בתי ספר</p>
+                                <p className={`text-xs mt-1 ${insufficient ? 'text-red-600 font-semibold' : 'text-gray-400'}`}>
+                                    כיסוי נתונים {scoreInfo.coveragePercent.toFixed(0)}%{insufficient && ' · אין מספיק נתונים'}
+                                </p>
+                                {scoreInfo.bySupportLevel.length > 1 && (
+                                    <div className="mt-3 pt-3 border-t border-gray-200 grid grid-cols-2 gap-1 text-xs">
+                                        {scoreInfo.bySupportLevel.map(segment => (
+                                            <span key={segment.level || 'none'} className="flex justify-between gap-1 text-gray-600">
+                                                <span>{supportLevelLabel(segment.level)}</span>
+                                                <span className={`font-bold ${getScoreColor(segment.average)}`}>{segment.average.toFixed(2)}</span>
+                                            </span>
+                                        ))}
+                                    </div>
+                                )}
                             </div>
                         </div>
                     );
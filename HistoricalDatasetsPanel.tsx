@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import type { School, HistoricalDataset } from '../types';
+import { importDatasetFile } from '../services/columnLayoutService';
+import { sortDatasetsByYear, summarizeDatasetMatch } from '../services/trendService';
+import { History, Trash2, Upload } from 'lucide-react';
+
+interface HistoricalDatasetsPanelProps {
+    currentSchools: School[];
+    currentSchoolYear: string;
+    datasets: HistoricalDataset[];
+    onAdd: (dataset: HistoricalDataset) => void;
+    onRemove: (datasetId: string) => void;
+}
+
+const HistoricalDatasetsPanel: React.FC<HistoricalDatasetsPanelProps> = ({ currentSchools, currentSchoolYear, datasets, onAdd, onRemove }) => {
+    const [schoolYear, setSchoolYear] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleFile = async (file: File) => {
+        const year = schoolYear.trim();
+        if (!year) {
+            setError('יש להזין את שנת הלימודים של הקובץ לפני ההעלאה.');
+            return;
+        }
+        if (year === currentSchoolYear.trim() || datasets.some(d => d.schoolYear === year)) {
+            setError(`כבר קיימים נתונים עבור שנת ${year}.`);
+            return;
+        }
+        try {
+            setLoading(true);
+            setError(null);
+            onAdd(await importDatasetFile(file, year));
+            setSchoolYear('');
+        } catch (error) {
+            setError(`שגיאה בטעינת הקובץ: ${(error as Error).message}`);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="max-w-7xl mx-auto px-4 md:px-8 pt-4">
+            <details className="bg-white border border-gray-200 rounded-lg p-4" open={datasets.length > 0}>
+                <summary className="cursor-pointer font-semibold text-gray-800 flex items-center gap-2">
+                    <History className="w-5 h-5 text-blue-600" />
+                    נתוני שנים קודמות ({datasets.length})
+                </summary>
+                <p className="text-sm text-gray-600 mt-3">
+                    העלו קבצים משנים קודמות כדי להציג מגמות בדוח בית הספר ובמפת החום. בתי ספר מותאמים לפי סמל מוסד, ובהיעדרו לפי שם.
+                    {currentSchoolYear ? ` הנתונים הנוכחיים משויכים לשנת ${currentSchoolYear}.` : ' מומלץ להזין את שנת הלימודים של הנתונים הנוכחיים בסרגל הסשן.'}
+                </p>
+
+                {datasets.length > 0 && (
+                    <ul className="mt-3 divide-y divide-gray-200 text-sm">
+                        {sortDatasetsByYear(datasets).map(dataset => {
+                            const match = summarizeDatasetMatch(currentSchools, dataset);
+                            return (
+                                <li key={dataset.id} className="py-2 flex flex-wrap items-center justify-between gap-2">
+                                    <span>
+                                        <span className="font-bold">{dataset.schoolYear}</span>
+                                        <span className="text-gray-500"> | {dataset.fileName} | {dataset.schools.length} בתי ספר</span>
+                                    </span>
+                                    <span className="flex items-center gap-3 text-xs text-gray-600">
+                                        הותאמו {match.byCode} לפי סמל, {match.byName} לפי שם
+                                        {match.unmatched > 0 && <span className="text-yellow-700">({match.unmatched} ללא התאמה)</span>}
+                                        <button type="button" onClick={() => onRemove(dataset.id)} className="text-red-500 hover:text-red-700 p-1 rounded-full" aria-label="הסרת שנה">
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </span>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+
+                <div className="mt-3 flex flex-wrap items-center gap-3">
+                    <input
+                        type="text"
+                        value={schoolYear}
+                        onChange={(e) => setSchoolYear(e.target.value)}
+                        placeholder='שנת לימודים (למשל תשפ"ד)'
+                        className="p-1.5 border border-gray-300 rounded-md text-sm w-48"
+                    />
+                    <label className={`flex items-center gap-2 px-3 py-1.5 text-sm font-semibold rounded-md cursor-pointer ${loading ? 'bg-gray-300 text-gray-600' : 'bg-blue-600 text-white hover:bg-blue-700'}`}>
+                        <Upload size={16} /> {loading ? 'טוען...' : 'העלאת קובץ שנה קודמת'}
+                        <input
+                            type="file"
+                            className="hidden"
+                            accept=".xlsx,.xls,.csv"
+                            disabled={loading}
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                e.target.value = '';
+                                if (file) handleFile(file);
+                            }}
+                        />
+                    </label>
+                </div>
+                {error && <p className="mt-2 text-sm text-red-700">{error}</p>}
+            </details>
+        </div>
+    );
+};
+
+export default HistoricalDatasetsPanel;
@@ -1,49 +1,79 @@
 import React, { useState, useMemo, useRef } from 'react';
-import type { SchoolForAnalysis } from '../types';
+import type { SchoolForAnalysis, HistoricalDataset, AnalyticsView } from '../types';
 import { HIERARCHICAL_CATEGORIES } from '../constants';
+import { filterBySupportLevel, weightedAverage, parseStudentCount, describeAnalyticsView } from '../services/analyticsViewService';
+import { scoreCoverage, isSufficient, countImputedScores, INSUFFICIENT_DATA_HATCHING } from '../services/dataCoverageService';
+import AnalyticsViewControls from './AnalyticsViewControls';
+import { sortDatasetsByYear, compareWithDataset, GroupTrend } from '../services/trendService';
+import TrendBadge from './TrendBadge';
 
 declare const html2canvas: any;
 
 interface InteractiveHeatMapProps {
     schools: SchoolForAnalysis[];
     focusOnTier?: number;
+    /** Earlier school years; when given, each cell shows the change since the selected year. */
+    historicalDatasets?: HistoricalDataset[];
+    analyticsView: AnalyticsView;
+    /** When omitted the view is controlled elsewhere on the page and is only described here. */
+    onAnalyticsViewChange?: (view: AnalyticsView) => void;
 }
 
-const InteractiveHeatMap: React.FC<InteractiveHeatMapProps> = ({ schools, focusOnTier }) => {
+const InteractiveHeatMap: React.FC<InteractiveHeatMapProps> = ({ schools, focusOnTier, historicalDatasets = [], analyticsView, onAnalyticsViewChange }) => {
     const [activeTier, setActiveTier] = useState<number>(focusOnTier || 0); // 0 for all
+    const sortedDatasets = useMemo(() => sortDatasetsByYear(historicalDatasets), [historicalDatasets]);
+    const [compareDatasetId, setCompareDatasetId] = useState<string>(sortedDatasets[sortedDatasets.length - 1]?.id || '');
+    const compareDataset = sortedDatasets.find(d => d.id === compareDatasetId) || null;
     const heatMapRef = useRef<HTMLDivElement>(null);
 
     const filteredSchools = useMemo(() => {
-        if (activeTier === 0) return schools;
-        return schools.filter(s => s.tier === activeTier);
-    }, [schools, activeTier]);
+        const segment = filterBySupportLevel(schools, analyticsView.supportLevel);
+        if (activeTier === 0) return segment;
+        return segment.filter(s => s.tier === activeTier);
+    }, [schools, activeTier, analyticsView.supportLevel]);
 
     const calculateSubCategoryAverage = (subCategoryKey: string, metrics: { key: string; name: string }[]) => {
-        const relevantScores = filteredSchools.flatMap(school =>
-            metrics.map(m => parseInt(school[m.key] as string, 10))
-        ).filter(score => !isNaN(score) && score > 0);
-
-        const average = relevantScores.length > 0 ? relevantScores.reduce((a, b) => a + b, 0) / relevantScores.length : 0;
+        const metricKeys = metrics.map(m => m.key);
+        const { imputeMissing, minGroupCoverage } = analyticsView.coverage;
+        const average = weightedAverage(filteredSchools, metricKeys, analyticsView.averaging, imputeMissing);
+        const coverage = scoreCoverage(filteredSchools, metricKeys);
+        const imputedScores = imputeMissing ? countImputedScores(filteredSchools, metricKeys) : 0;
         
-        const affectedSchoolsCount = filteredSchools.filter(school => 
+        const affectedSchools = filteredSchools.filter(school => 
             metrics.some(m => {
                 const score = parseInt(school[m.key] as string, 10);
                 return !isNaN(score) && score <= 3;
             })
-        ).length;
+        );
+        const affectedStudents = affectedSchools.reduce((sum, school) => sum + (parseStudentCount(school.students) ?? 0), 0);
 
-        return { average, affectedSchoolsCount, total: filteredSchools.length };
+        return {
+            average, affectedSchoolsCount: affectedSchools.length, affectedStudents, total: filteredSchools.length,
+            coveragePercent: coverage.percent, sufficient: isSufficient(coverage, minGroupCoverage), imputedScores,
+        };
     };
 
     const subCategoryAverages = useMemo(() => {
-        const data: { [key: string]: { average: number; affectedSchoolsCount: number; total: number } } = {};
+        const data: { [key: string]: ReturnType<typeof calculateSubCategoryAverage> } = {};
         HIERARCHICAL_CATEGORIES.forEach(category => {
             category.subCategories.forEach(subCat => {
                 data[subCat.key] = calculateSubCategoryAverage(subCat.key, subCat.metrics);
             });
         });
         return data;
-    }, [filteredSchools]);
+    }, [filteredSchools, analyticsView.averaging, analyticsView.coverage]);
+
+    // Trends compare the same schools in both years, so they are computed separately from the averages above.
+    const subCategoryTrends = useMemo(() => {
+        const data: { [key: string]: GroupTrend | null } = {};
+        if (!compareDataset) return data;
+        HIERARCHICAL_CATEGORIES.forEach(category => {
+            category.subCategories.forEach(subCat => {
+                data[subCat.key] = compareWithDataset(filteredSchools, compareDataset, subCat.metrics.map(m => m.key));
+            });
+        });
+        return data;
+    }, [filteredSchools, compareDataset]);
 
     const getColor = (score: number) => {
         if (score >= 3.5) return 'bg-green-800'; // Excellent
@@ -68,14 +98,20 @@ const InteractiveHeatMap: React.FC<InteractiveHeatMapProps> = ({ schools, focusO
 
     const exportToCsv = () => {
         let csvContent = "data:text/csv;charset=utf-8,\uFEFF"; // BOM for UTF-8 Excel compatibility
-        csvContent += "תחום ראשי,תת-תחום,ממוצע ציונים,מספר בתי ספר מושפעים,סך הכל בתי ספר\n";
+        csvContent += `תצוגה,${describeAnalyticsView(analyticsView).replace(/,/g, ' -')}\n`;
+        csvContent += "תחום ראשי,תת-תחום,ממוצע ציונים,כיסוי נתונים (%),נתונים מספיקים,ציונים שהושלמו,מספר בתי ספר מושפעים,תלמידים בבתי ספר מושפעים,סך הכל בתי ספר";
+        csvContent += compareDataset ? `,ממוצע ${compareDataset.schoolYear} (בתי ספר תואמים),שינוי,בתי ספר תואמים\n` : "\n";
 
         HIERARCHICAL_CATEGORIES.forEach(category => {
             category.subCategories.forEach(subCat => {
                 const data = subCategoryAverages[subCat.key];
                 if (data) {
-                    const row = [category.name, subCat.name, data.average.toFixed(2), data.affectedSchoolsCount, data.total].join(',');
-                    csvContent += row + "\n";
+                    const row = [category.name, subCat.name, data.average.toFixed(2), data.coveragePercent.toFixed(0), data.sufficient ? 'כן' : 'לא', data.imputedScores, data.affectedSchoolsCount, data.affectedStudents, data.total];
+                    if (compareDataset) {
+                        const trend = subCategoryTrends[subCat.key];
+                        row.push(trend ? trend.previous.toFixed(2) : '', trend ? trend.delta.toFixed(2) : '', trend ? trend.matchedSchools : 0);
+                    }
+                    csvContent += row.join(',') + "\n";
                 }
             });
         });
@@ -118,12 +154,27 @@ const InteractiveHeatMap: React.FC<InteractiveHeatMapProps> = ({ schools, focusO
                         </button>
                     ))}
                 </div>
+                {sortedDatasets.length > 0 && (
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        השוואה לשנת:
+                        <select value={compareDatasetId} onChange={(e) => setCompareDatasetId(e.target.value)} className="p-1 border border-gray-300 rounded-md bg-white">
+                            <option value="">ללא השוואה</option>
+                            {sortedDatasets.map(dataset => <option key={dataset.id} value={dataset.id}>{dataset.schoolYear}</option>)}
+                        </select>
+                    </label>
+                )}
                 <div className="flex items-center gap-2">
                     <button onClick={exportToPng} className="text-sm bg-gray-600 text-white px-3 py-1 rounded-md hover:bg-gray-700">ייצוא תמונה (PNG)</button>
                     <button onClick={exportToCsv} className="text-sm bg-green-600 text-white px-3 py-1 rounded-md hover:bg-green-700">ייצוא נתונים (CSV)</button>
                 </div>
             </div>
 
+            <div className="mb-4">
+                {onAnalyticsViewChange
+                    ? <AnalyticsViewControls view={analyticsView} onChange={onAnalyticsViewChange} schools={schools} />
+                    : <p className="text-sm text-gray-500">{describeAnalyticsView(analyticsView)}</p>}
+            </div>
+
             <div ref={heatMapRef} className="bg-white p-4 rounded-md">
                 {HIERARCHICAL_CATEGORIES.map(category => (
                     <div key={category.name} className="mb-6 last:mb-0">
@@ -132,17 +183,31 @@ const InteractiveHeatMap: React.FC<InteractiveHeatMapProps> = ({ schools, focusO
                             {category.subCategories.map(subCat => {
                                 const data = subCategoryAverages[subCat.key];
                                 if (!data) return null;
+                                const trend = subCategoryTrends[subCat.key];
                                 return (
-                                    <div key={subCat.key} className={`p-3 rounded-lg text-white shadow-sm relative group cursor-pointer ${getColor(data.average)}`}>
+                                    <div
+                                        key={subCat.key}
+                                        className={`p-3 rounded-lg text-white shadow-sm relative group cursor-pointer ${getColor(data.average)} ${data.imputedScores > 0 ? 'outline-dashed outline-2 outline-offset-[-4px] outline-white/80' : ''}`}
+                                        style={data.sufficient ? undefined : INSUFFICIENT_DATA_HATCHING}
+                                    >
                                         <div className="font-bold truncate">{subCat.name}</div>
-                                        <div className="text-2xl font-black">{data.average.toFixed(2)}</div>
+                                        <div className={`text-2xl font-black ${data.imputedScores > 0 ? 'italic' : ''}`}>{data.average.toFixed(2)}{data.imputedScores > 0 && <span className="text-xs font-semibold not-italic mr-1">(משוער)</span>}</div>
+                                        <div className="text-xs opacity-90">כיסוי נתונים {data.coveragePercent.toFixed(0)}%{!data.sufficient && ' · אין מספיק נתונים'}</div>
                                         <div className="text-xs opacity-80">{data.affectedSchoolsCount} מתוך {data.total} בתי"ס עם אתגר</div>
+                                        {analyticsView.averaging === 'student' && <div className="text-xs opacity-80">{data.affectedStudents.toLocaleString()} תלמידים</div>}
+                                        {trend && <TrendBadge delta={trend.delta} sinceYear={compareDataset?.schoolYear} light />}
                                         
                                         <div className="absolute bottom-full mb-2 right-1/2 transform translate-x-1/2 w-48 bg-gray-800 text-white text-xs rounded-lg p-3 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-10">
                                             <p><span className="font-bold">תחום:</span> {subCat.name}</p>
                                             <p><span className="font-bold">ממוצע:</span> {data.average.toFixed(3)}</p>
+                                            <p><span className="font-bold">כיסוי נתונים:</span> {data.coveragePercent.toFixed(0)}% (מינימום {analyticsView.coverage.minGroupCoverage}%)</p>
+                                            {data.imputedScores > 0 && <p><span className="font-bold">ציונים שהושלמו:</span> {data.imputedScores}</p>}
                                             <p><span className="font-bold">בתי"ס עם אתגר:</span> {data.affectedSchoolsCount}</p>
+                                            <p><span className="font-bold">תלמידים בבתי"ס אלה:</span> {data.affectedStudents.toLocaleString()}</p>
                                             <p><span className="font-bold">סה"כ בתי"ס:</span> {data.total}</p>
+                                            {trend && compareDataset && (
+                                                <p><span className="font-bold">שינוי מאז {compareDataset.schoolYear}:</span> {trend.previous.toFixed(2)} ← {trend.current.toFixed(2)} ({trend.matchedSchools} בתי"ס תואמים)</p>
+                                            )}
                                             <div className="absolute top-full right-1/2 transform -translate-x-1/2 w-0 h-0 border-x-8 border-x-transparent border-t-8 border-t-gray-800"></div>
                                         </div>
                                     </div>
@@ -151,6 +216,18 @@ const InteractiveHeatMap: React.FC<InteractiveHeatMapProps> = ({ schools, focusO
                         </div>
                     </div>
                 ))}
+                <div className="flex flex-wrap gap-4 mt-4 pt-3 border-t text-xs text-gray-600">
+                    <span className="flex items-center gap-1">
+                        <span className="inline-block w-5 h-4 rounded bg-gray-500" style={INSUFFICIENT_DATA_HATCHING}></span>
+                        אין מספיק נתונים (כיסוי מתחת ל-{analyticsView.coverage.minGroupCoverage}%)
+                    </span>
+                    {analyticsView.coverage.imputeMissing && (
+                        <span className="flex items-center gap-1">
+                            <span className="inline-block w-5 h-4 rounded bg-gray-500 outline-dashed outline-2 outline-offset-[-3px] outline-white/80"></span>
+                            ממוצע משוער הכולל ציונים שהושלמו
+                        </span>
+                    )}
+                </div>
             </div>
         </div>
     );
@@ -1,8 +1,22 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
-import { Issue, AllInterventionPlans, TierPlan, PlanComponent, TieredSchools, SchoolForAnalysis, Tier2Group, Tier3PlanManager, InformationCard } from '../types';
+import { Issue, AllInterventionPlans, TierPlan, PlanComponent, TieredSchools, SchoolForAnalysis, Tier2Group, Tier3PlanManager, InformationCard, TierOverride } from '../types';
 import { interventionPlanData } from '../data/interventionPlanData';
 import { informationCardsData } from '../data/informationCardsData';
 import { issuesAndGoalsData } from '../data/issuesAndGoalsData';
+import { suggestTier2Clusters, describeCluster, DEFAULT_GROUP_SIZE } from '../services/tier2GroupingService';
+import { findPeerSchools, describePeerPartner } from '../services/peerMatchingService';
+import { SEVERITY_LABELS } from '../services/prioritizationService';
+import { CorrelationMatrix, computeCorrelationMatrix, rankRootCauses, rankUpstreamMetrics, getIssueMetrics, metricName } from '../services/metricCorrelationService';
+import CorrelationExplorer, { CorrelationBadge } from './CorrelationExplorer';
+import type { WhatIfContext } from '../services/whatIfService';
+import WhatIfSimulator from './WhatIfSimulator';
+import ObjectiveBindingsEditor from './ObjectiveBindingsEditor';
+import CapacityPanel from './CapacityPanel';
+import SchoolPlanView from './SchoolPlanView';
+import ActionTimeline from './ActionTimeline';
+import { describeObjectiveBinding } from '../services/objectiveService';
+import { canRenderPdfDocuments, downloadPdfDocument } from '../services/pdfExportService';
+import { buildPlanPdfDocument } from '../services/pdfDocumentService';
 import { ArrowLeft, ArrowRight, Send, RotateCcw, ChevronDown, GripVertical, Plus, CheckSquare, Printer, Download, Loader, AlertCircle, Trash2, Users, Wand2, BookOpen, User, Check, Target, Layers3, ShieldAlert } from 'lucide-react';
 
 
@@ -14,7 +28,6 @@ declare global {
         };
     }
 }
-declare const html2canvas: any;
 
 const emptyPlanComponent = (): PlanComponent => ({ predefined: [], custom: '' });
 const emptyTierPlan = (): TierPlan => ({
@@ -24,6 +37,7 @@ const emptyTierPlan = (): TierPlan => ({
     supportFrequency: emptyPlanComponent(),
     successMetrics: emptyPlanComponent(),
     partners: emptyPlanComponent(),
+    objectiveBindings: [],
 });
 
 interface PlanOptions {
@@ -256,19 +270,23 @@ const MultiSchoolSelect: React.FC<MultiSchoolSelectProps> = ({ availableSchools,
 };
 
 // --- PlanEditor Component ---
-const PlanEditor: React.FC<{ plan: TierPlan, options: any, tierColor: string, onUpdate: (updatedPlan: TierPlan) => void }> = ({ plan, options, tierColor, onUpdate }) => {
+const PlanEditor: React.FC<{ plan: TierPlan, options: any, tierColor: string, planSchools: SchoolForAnalysis[], onUpdate: (updatedPlan: TierPlan) => void }> = ({ plan, options, tierColor, planSchools, onUpdate }) => {
     const handleFieldUpdate = (field: keyof TierPlan, value: PlanComponent) => {
         onUpdate({ ...plan, [field]: value });
     };
 
     return (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 items-start">
-            <PlanFieldEditor label="מטרה מרכזית" options={options.mainGoalOptions} value={plan.mainGoal} onChange={val => handleFieldUpdate('mainGoal', val)} tierColor={tierColor} />
-            <PlanFieldEditor label="יעדים מדידים" reorderable options={options.measurableObjectivesOptions} value={plan.measurableObjectives} onChange={val => handleFieldUpdate('measurableObjectives', val)} tierColor={tierColor} />
-            <PlanFieldEditor label="פעולות מרכזיות" reorderable options={options.mainActionsOptions} value={plan.mainActions} onChange={val => handleFieldUpdate('mainActions', val)} tierColor={tierColor} />
-            <PlanFieldEditor label="תדירות ליווי" options={options.supportFrequencyOptions} value={plan.supportFrequency} onChange={val => handleFieldUpdate('supportFrequency', val)} tierColor={tierColor} />
-            <PlanFieldEditor label="מדדי הצלחה" options={options.successMetricsOptions} value={plan.successMetrics} onChange={val => handleFieldUpdate('successMetrics', val)} tierColor={tierColor} />
-            <PlanFieldEditor label="שותפים" options={options.partnersOptions} value={plan.partners} onChange={val => handleFieldUpdate('partners', val)} tierColor={tierColor} />
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 items-start">
+                <PlanFieldEditor label="מטרה מרכזית" options={options.mainGoalOptions} value={plan.mainGoal} onChange={val => handleFieldUpdate('mainGoal', val)} tierColor={tierColor} />
+                <PlanFieldEditor label="יעדים מדידים" reorderable options={options.measurableObjectivesOptions} value={plan.measurableObjectives} onChange={val => handleFieldUpdate('measurableObjectives', val)} tierColor={tierColor} />
+                <PlanFieldEditor label="פעולות מרכזיות" reorderable options={options.mainActionsOptions} value={plan.mainActions} onChange={val => handleFieldUpdate('mainActions', val)} tierColor={tierColor} />
+                <PlanFieldEditor label="תדירות ליווי" options={options.supportFrequencyOptions} value={plan.supportFrequency} onChange={val => handleFieldUpdate('supportFrequency', val)} tierColor={tierColor} />
+                <PlanFieldEditor label="מדדי הצלחה" options={options.successMetricsOptions} value={plan.successMetrics} onChange={val => handleFieldUpdate('successMetrics', val)} tierColor={tierColor} />
+                <PlanFieldEditor label="שותפים" options={options.partnersOptions} value={plan.partners} onChange={val => handleFieldUpdate('partners', val)} tierColor={tierColor} />
+            </div>
+            <ObjectiveBindingsEditor plan={plan} planSchools={planSchools} onChange={bindings => onUpdate({ ...plan, objectiveBindings: bindings })} />
+            <ActionTimeline plan={plan} onChange={onUpdate} />
         </div>
     );
 };
@@ -310,6 +328,7 @@ const Tier2GroupEditor: React.FC<{ group: Tier2Group, options: any, availableSch
                         plan={group.plan}
                         options={options}
                         tierColor="amber"
+                        planSchools={availableSchools.filter(school => group.schoolIds.includes(school.id))}
                         onUpdate={(plan) => handleFieldUpdate('plan', plan)}
                     />
                 </div>
@@ -325,32 +344,17 @@ const Tier2GroupManager: React.FC<{
     allSelectedIssues: Issue[],
     onUpdate: (updatedGroups: Tier2Group[]) => void
 }> = ({ groups, options, availableSchools, allSelectedIssues, onUpdate }) => {
+    const [groupSize, setGroupSize] = useState(DEFAULT_GROUP_SIZE);
 
     const handleSuggestGroups = () => {
-        const issueToSchoolIdsMap = new Map<string, number[]>();
-        
-        allSelectedIssues.forEach(issue => {
-            const relevantSchoolIds = issue.schoolDetails
-                .filter(detail => availableSchools.some(s => s.id === detail.schoolId))
-                .map(detail => detail.schoolId);
-            if (relevantSchoolIds.length > 0) {
-                const existing = issueToSchoolIdsMap.get(issue.id) || [];
-                issueToSchoolIdsMap.set(issue.id, [...new Set([...existing, ...relevantSchoolIds])]);
-            }
-        });
-    
-        const suggestedGroups: Tier2Group[] = [];
-        issueToSchoolIdsMap.forEach((schoolIds, issueId) => {
-            const issue = allSelectedIssues.find(i => i.id === issueId);
-            if (issue && schoolIds.length > 0) {
-                suggestedGroups.push({
-                    id: `group-${Date.now()}-${issueId}`,
-                    name: `קבוצת אתגר: ${issue.name}`,
-                    schoolIds: schoolIds,
-                    plan: emptyTierPlan()
-                });
-            }
-        });
+        // Each school joins exactly one group, clustered by its low scores across all the selected issues.
+        const suggestedGroups: Tier2Group[] = suggestTier2Clusters(availableSchools, allSelectedIssues, groupSize.min, groupSize.max)
+            .map((cluster, index) => ({
+                id: `group-${Date.now()}-${index}`,
+                name: `קבוצה ${index + 1}: ${describeCluster(cluster)}`,
+                schoolIds: cluster.schoolIds,
+                plan: emptyTierPlan()
+            }));
 
         if (suggestedGroups.length > 0) {
             onUpdate(suggestedGroups);
@@ -375,6 +379,28 @@ const Tier2GroupManager: React.FC<{
             <div className="flex flex-wrap gap-2 mb-4">
                 <button type="button" onClick={handleAddNewGroup} className="flex items-center gap-2 px-3 py-1.5 bg-green-500 text-white text-sm font-semibold rounded-md hover:bg-green-600"><Plus size={16}/> הוסף קבוצה</button>
                 <button type="button" onClick={handleSuggestGroups} className="flex items-center gap-2 px-3 py-1.5 bg-blue-500 text-white text-sm font-semibold rounded-md hover:bg-blue-600"><Wand2 size={16}/> הצע קבוצות</button>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                    גודל קבוצה:
+                    <input
+                        type="number"
+                        min={1}
+                        max={groupSize.max}
+                        value={groupSize.min}
+                        onChange={(e) => setGroupSize({ ...groupSize, min: Math.max(1, Math.min(parseInt(e.target.value, 10) || 1, groupSize.max)) })}
+                        className="w-14 p-1 border border-gray-300 rounded-md"
+                        aria-label="מספר בתי ספר מינימלי בקבוצה"
+                    />
+                    עד
+                    <input
+                        type="number"
+                        min={groupSize.min}
+                        value={groupSize.max}
+                        onChange={(e) => setGroupSize({ ...groupSize, max: Math.max(parseInt(e.target.value, 10) || groupSize.min, groupSize.min) })}
+                        className="w-14 p-1 border border-gray-300 rounded-md"
+                        aria-label="מספר בתי ספר מרבי בקבוצה"
+                    />
+                    בתי ספר
+                </label>
             </div>
             {groups.length === 0 && <p className="text-sm text-gray-500 text-center py-4">אין עדיין קבוצות. ניתן להוסיף קבוצה חדשה או לבקש הצעות אוטומטיות.</p>}
             {groups.map(group => (
@@ -396,10 +422,18 @@ const Tier3PlanManager: React.FC<{
     planManager: Tier3PlanManager,
     options: any,
     availableSchools: SchoolForAnalysis[],
+    /** All schools, searched for peer partners of the selected school. */
+    peerCandidates: SchoolForAnalysis[],
     onUpdate: (updatedManager: Tier3PlanManager) => void
-}> = ({ planManager, options, availableSchools, onUpdate }) => {
+}> = ({ planManager, options, availableSchools, peerCandidates, onUpdate }) => {
     const [selectedSchoolId, setSelectedSchoolId] = useState<number | null>(availableSchools[0]?.id || null);
 
+    const selectedSchool = availableSchools.find(s => s.id === selectedSchoolId);
+    const peerMatches = useMemo(
+        () => selectedSchool ? findPeerSchools(selectedSchool, peerCandidates, 3) : [],
+        [selectedSchool, peerCandidates]
+    );
+
     const handleToggleGeneralPlan = (useGeneral: boolean) => {
         onUpdate({ ...planManager, useGeneralPlan: useGeneral });
     };
@@ -424,6 +458,15 @@ const Tier3PlanManager: React.FC<{
 
     const selectedSchoolPlan = selectedSchoolId ? (planManager.individualPlans[selectedSchoolId] || emptyTierPlan()) : emptyTierPlan();
 
+    const handleAddPeerPartner = (partner: string) => {
+        if (!selectedSchoolId || selectedSchoolPlan.partners.custom.includes(partner)) return;
+        const custom = selectedSchoolPlan.partners.custom.trim();
+        handleIndividualPlanUpdate(selectedSchoolId, {
+            ...selectedSchoolPlan,
+            partners: { ...selectedSchoolPlan.partners, custom: custom ? `${custom}; ${partner}` : partner },
+        });
+    };
+
     return (
         <div className="p-5 bg-gray-50/50 rounded-xl border-l-4 shadow-sm border-red-500">
             <h4 className="text-xl font-bold text-red-800 mb-4">שכבה 3: התערבות אינטנסיבית</h4>
@@ -442,6 +485,7 @@ const Tier3PlanManager: React.FC<{
                     plan={planManager.generalPlan}
                     options={options}
                     tierColor="red"
+                    planSchools={availableSchools}
                     onUpdate={(plan) => onUpdate({ ...planManager, generalPlan: plan })}
                 />
             ) : (
@@ -465,11 +509,36 @@ const Tier3PlanManager: React.FC<{
                     <div className="md:col-span-2">
                         {selectedSchoolId && (
                             <div>
-                                <h5 className="font-bold mb-3">תוכנית אישית עבור: <span className="text-blue-700">{availableSchools.find(s => s.id === selectedSchoolId)?.name}</span></h5>
+                                <h5 className="font-bold mb-3">תוכנית אישית עבור: <span className="text-blue-700">{selectedSchool?.name}</span></h5>
+                                {peerMatches.length > 0 && (
+                                    <div className="mb-4 p-3 bg-white rounded-lg border border-green-200">
+                                        <h6 className="text-sm font-semibold text-green-800 mb-2 flex items-center gap-2"><Users size={16} /> בתי ספר שותפים מוצעים לביקורי עמיתים</h6>
+                                        <ul className="space-y-2 text-sm">
+                                            {peerMatches.map(match => {
+                                                const partner = describePeerPartner(match);
+                                                const isAdded = selectedSchoolPlan.partners.custom.includes(partner);
+                                                return (
+                                                    <li key={match.school.id} className="flex items-center justify-between gap-3">
+                                                        <span className="text-gray-700">{partner}</span>
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => handleAddPeerPartner(partner)}
+                                                            disabled={isAdded}
+                                                            className="flex-shrink-0 flex items-center gap-1 px-2 py-1 text-xs font-semibold rounded-md bg-green-600 text-white hover:bg-green-700 disabled:bg-gray-300 disabled:text-gray-600"
+                                                        >
+                                                            {isAdded ? <><Check size={12} /> נוסף</> : <><Plus size={12} /> הוספה לשותפים</>}
+                                                        </button>
+                                                    </li>
+                                                );
+                                            })}
+                                        </ul>
+                                    </div>
+                                )}
                                 <PlanEditor
                                     plan={selectedSchoolPlan}
                                     options={options}
                                     tierColor="red"
+                                    planSchools={selectedSchool ? [selectedSchool] : []}
                                     onUpdate={(plan) => handleIndividualPlanUpdate(selectedSchoolId, plan)}
                                 />
                             </div>
@@ -488,12 +557,14 @@ interface IssueAccordionItemProps {
     plan: AllInterventionPlans[string];
     tieredSchools: TieredSchools;
     allSelectedIssues: Issue[];
+    correlationMatrix: CorrelationMatrix;
+    whatIfContext?: WhatIfContext;
     onUpdate: (issueId: string, updatedPlan: AllInterventionPlans[string]) => void;
     isOpen: boolean;
     onToggle: () => void;
 }
 
-const IssueAccordionItem: React.FC<IssueAccordionItemProps> = ({ issueId, title, plan, tieredSchools, allSelectedIssues, onUpdate, isOpen, onToggle }) => {
+const IssueAccordionItem: React.FC<IssueAccordionItemProps> = ({ issueId, title, plan, tieredSchools, allSelectedIssues, correlationMatrix, whatIfContext, onUpdate, isOpen, onToggle }) => {
     const issueDefaults = interventionPlanData[issueId] || {
         title: title,
         rootCauseOptions: [],
@@ -503,6 +574,11 @@ const IssueAccordionItem: React.FC<IssueAccordionItemProps> = ({ issueId, title,
         tier2: emptyPlanOptions,
         tier3: emptyPlanOptions,
     };
+    // Root causes whose metrics move with the issue's metrics across the schools are listed first.
+    const rankedRootCauses = useMemo(
+        () => rankRootCauses(issueDefaults.rootCauseOptions, rankUpstreamMetrics(correlationMatrix, getIssueMetrics(issueId))),
+        [issueDefaults.rootCauseOptions, correlationMatrix, issueId]
+    );
     
     if (!plan) return null;
 
@@ -517,6 +593,26 @@ const IssueAccordionItem: React.FC<IssueAccordionItemProps> = ({ issueId, title,
         onUpdate(issueId, { ...plan, tier1: { ...plan.tier1, [field]: value } });
     };
 
+    // A tier 2 objective goes to every group; a tier 3 one to the general plan or to each individual plan, whichever is in use.
+    const handleAddObjective = (tiers: (1 | 2 | 3)[], objective: string) => {
+        const withObjective = (tierPlan: TierPlan): TierPlan => ({
+            ...tierPlan,
+            measurableObjectives: {
+                ...tierPlan.measurableObjectives,
+                custom: [tierPlan.measurableObjectives.custom.trim(), objective].filter(Boolean).join('\n'),
+            },
+        });
+        const { tier3 } = plan;
+        onUpdate(issueId, {
+            ...plan,
+            tier1: tiers.includes(1) ? withObjective(plan.tier1) : plan.tier1,
+            tier2Groups: tiers.includes(2) ? plan.tier2Groups.map(group => ({ ...group, plan: withObjective(group.plan) })) : plan.tier2Groups,
+            tier3: !tiers.includes(3) ? tier3 : tier3.useGeneralPlan
+                ? { ...tier3, generalPlan: withObjective(tier3.generalPlan) }
+                : { ...tier3, individualPlans: Object.fromEntries(Object.entries(tier3.individualPlans).map(([id, p]) => [id, withObjective(p)])) },
+        });
+    };
+
     return (
         <div className="bg-white rounded-xl shadow-md border border-gray-200/80 overflow-hidden">
             <button
@@ -534,15 +630,22 @@ const IssueAccordionItem: React.FC<IssueAccordionItemProps> = ({ issueId, title,
                         <div>
                             <h3 className="text-lg font-bold text-blue-800 mb-3">ניתוח גורמי שורש (יש לבחור)</h3>
                             <div className="space-y-2">
-                                {issueDefaults.rootCauseOptions.length > 0 ? issueDefaults.rootCauseOptions.map(cause => (
-                                    <label key={cause} className="flex items-center p-2 rounded-md hover:bg-blue-50 cursor-pointer transition-colors">
+                                {rankedRootCauses.length > 0 ? rankedRootCauses.map(({ cause, linkedMetrics, evidence }) => (
+                                    <label key={cause} className="flex items-start p-2 rounded-md hover:bg-blue-50 cursor-pointer transition-colors">
                                         <input
                                             type="checkbox"
                                             checked={plan.selectedRootCauses.includes(cause)}
                                             onChange={(e) => handleRootCauseChange(cause, e.target.checked)}
-                                            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                            className="h-4 w-4 mt-1 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                                         />
-                                        <span className="mr-3 text-gray-700">{cause}</span>
+                                        <span className="mr-3 text-gray-700 flex-1">
+                                            {cause}
+                                            {evidence !== null && (
+                                                <span className="block text-xs text-gray-500 mt-0.5" title={linkedMetrics.map(m => `${metricName(m.field)}: ${m.correlation.toFixed(2)}`).join('\n')}>
+                                                    <CorrelationBadge r={evidence} /> {linkedMetrics.map(m => metricName(m.field)).join(', ')}
+                                                </span>
+                                            )}
+                                        </span>
                                     </label>
                                 )) : <p className="text-sm text-gray-500">לא נמצאו גורמי שורש מוצעים. ניתן להמשיך לבניית התוכנית.</p>}
                             </div>
@@ -556,12 +659,34 @@ const IssueAccordionItem: React.FC<IssueAccordionItemProps> = ({ issueId, title,
                         </div>
                     </div>
                     
+                    <details className="mb-6 bg-white p-4 rounded-lg border border-gray-200">
+                        <summary className="cursor-pointer text-lg font-bold text-blue-800">ניתוח מתאמים בין מדדים</summary>
+                        <div className="mt-3">
+                            <CorrelationExplorer matrix={correlationMatrix} issueId={issueId} schoolCount={tieredSchools.tier1.length} />
+                        </div>
+                    </details>
+
+                    {whatIfContext && (
+                        <details className="mb-6 bg-white p-4 rounded-lg border border-gray-200">
+                            <summary className="cursor-pointer text-lg font-bold text-blue-800">סימולציית יעדים: מה אם...?</summary>
+                            <div className="mt-3">
+                                <WhatIfSimulator
+                                    issueId={issueId}
+                                    issues={allSelectedIssues}
+                                    tieredSchools={tieredSchools}
+                                    context={whatIfContext}
+                                    onAddObjective={handleAddObjective}
+                                />
+                            </div>
+                        </details>
+                    )}
+
                     <h3 className="text-xl font-bold text-blue-800 mb-4">תוכנית התערבות מערכתית (ניתן לערוך)</h3>
                     <div className="space-y-6">
                         <div className="p-5 bg-gray-50/50 rounded-xl border-l-4 shadow-sm border-green-500">
                             <h4 className="text-xl font-bold text-green-800">שכבה 1: אוניברסלית ({tieredSchools.tier1.length} בתי ספר)</h4>
                             <div className="mt-5">
-                                <PlanEditor plan={plan.tier1} options={issueDefaults.tier1} tierColor="green" onUpdate={p => onUpdate(issueId, { ...plan, tier1: p })} />
+                                <PlanEditor plan={plan.tier1} options={issueDefaults.tier1} tierColor="green" planSchools={tieredSchools.tier1} onUpdate={p => onUpdate(issueId, { ...plan, tier1: p })} />
                             </div>
                         </div>
                         <Tier2GroupManager
@@ -575,6 +700,7 @@ const IssueAccordionItem: React.FC<IssueAccordionItemProps> = ({ issueId, title,
                             planManager={plan.tier3}
                             options={issueDefaults.tier3}
                             availableSchools={tieredSchools.tier3}
+                            peerCandidates={tieredSchools.tier1}
                             onUpdate={pm => onUpdate(issueId, { ...plan, tier3: pm })}
                         />
                     </div>
@@ -589,7 +715,12 @@ const PlanPrintLayout: React.FC<{
     issues: { id: string; title: string; }[]; 
     tieredSchools: TieredSchools;
     cardData?: InformationCard | null;
-}> = ({ plans, issues, tieredSchools, cardData }) => {
+    tieringCriteria?: string[];
+    tierOverrideHistory?: TierOverride[];
+    prioritizationFormula?: string[];
+    /** The analyzed issues, for the urgency each printed issue was ranked with. */
+    rankedIssues?: Issue[];
+}> = ({ plans, issues, tieredSchools, cardData, tieringCriteria = [], tierOverrideHistory = [], prioritizationFormula = [], rankedIssues = [] }) => {
     
     const renderListComponent = (title: string, component: PlanComponent) => {
         const items = [...component.predefined, component.custom].filter(Boolean);
@@ -605,13 +736,17 @@ const PlanPrintLayout: React.FC<{
     };
 
     const renderPlan = (plan: TierPlan) => (
-         <div className="grid grid-cols-2 gap-x-6 gap-y-2">
-            {renderListComponent("מטרה מרכזית:", plan.mainGoal)}
-            {renderListComponent("יעדים מדידים:", plan.measurableObjectives)}
-            {renderListComponent("פעולות מרכזיות:", plan.mainActions)}
-            {renderListComponent("תדירות ליווי:", plan.supportFrequency)}
-            {renderListComponent("מדדי הצלחה:", plan.successMetrics)}
-            {renderListComponent("שותפים:", plan.partners)}
+        <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-x-6 gap-y-2">
+                {renderListComponent("מטרה מרכזית:", plan.mainGoal)}
+                {renderListComponent("יעדים מדידים:", plan.measurableObjectives)}
+                {renderListComponent("יעדים מקושרים למדדים:", { predefined: (plan.objectiveBindings || []).map(describeObjectiveBinding), custom: '' })}
+                {renderListComponent("פעולות מרכזיות:", plan.mainActions)}
+                {renderListComponent("תדירות ליווי:", plan.supportFrequency)}
+                {renderListComponent("מדדי הצלחה:", plan.successMetrics)}
+                {renderListComponent("שותפים:", plan.partners)}
+            </div>
+            <ActionTimeline plan={plan} />
         </div>
     );
     
@@ -737,9 +872,11 @@ const PlanPrintLayout: React.FC<{
                                 ) : (
                                     Object.entries(plan.tier3.individualPlans).map(([schoolId, individualPlan]) => {
                                         const school = tieredSchools.tier3.find(s => s.id === parseInt(schoolId));
+                                        const override = tieredSchools.overrides[parseInt(schoolId)];
                                         return (
                                             <div key={schoolId} className="mt-3 p-2 border-t border-red-200 break-inside-avoid">
                                                 <h5 className="font-bold text-red-800">{school?.name}</h5>
+                                                {override && <p className="text-xs text-purple-800 mb-2">שויך ידנית לשכבה 3 (סיווג מחושב: שכבה {override.computedTier}). נימוק: {override.reason}</p>}
                                                 {renderPlan(individualPlan)}
                                             </div>
                                         );
@@ -751,6 +888,88 @@ const PlanPrintLayout: React.FC<{
                 );
             })}
 
+            {prioritizationFormula.length > 0 && (
+                <div className="mb-8 break-inside-avoid">
+                    <h2 className="text-2xl font-bold bg-gray-100 p-3 rounded-md text-purple-800 border-r-4 border-purple-500">תעדוף הסוגיות</h2>
+                    <div className="p-4 text-sm text-gray-800 space-y-4">
+                        <ul className="list-disc list-inside pl-4 space-y-1">
+                            {prioritizationFormula.map((line, index) => <li key={index}>{line}</li>)}
+                        </ul>
+                        {issues.some(issue => rankedIssues.some(r => r.id === issue.id)) && (
+                            <table className="w-full text-right border border-gray-300">
+                                <thead className="bg-gray-100">
+                                    <tr>
+                                        <th className="p-2 border-b">סוגיה</th>
+                                        <th className="p-2 border-b">דחיפות</th>
+                                        <th className="p-2 border-b">חומרה</th>
+                                        <th className="p-2 border-b">בתי ספר מושפעים</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {issues.map(issue => {
+                                        const ranked = rankedIssues.find(r => r.id === issue.id);
+                                        if (!ranked) return null;
+                                        return (
+                                            <tr key={issue.id} className="border-t border-gray-200">
+                                                <td className="p-2">{issue.title}</td>
+                                                <td className="p-2">{ranked.urgency}</td>
+                                                <td className="p-2">{SEVERITY_LABELS[ranked.severity]}</td>
+                                                <td className="p-2">{ranked.affectedSchools} מתוך {ranked.totalSchools}</td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {(tieringCriteria.length > 0 || tierOverrideHistory.length > 0) && (
+                <div className="mb-8 break-inside-avoid">
+                    <h2 className="text-2xl font-bold bg-gray-100 p-3 rounded-md text-purple-800 border-r-4 border-purple-500">סיווג בתי הספר לשכבות</h2>
+                    <div className="p-4 text-sm text-gray-800 space-y-4">
+                        {tieringCriteria.length > 0 && (
+                            <div>
+                                <h3 className="text-lg font-semibold mb-2">קריטריונים</h3>
+                                <ul className="list-disc list-inside pl-4 space-y-1">
+                                    {tieringCriteria.map((line, index) => <li key={index}>{line}</li>)}
+                                </ul>
+                            </div>
+                        )}
+                        {tierOverrideHistory.length > 0 && (
+                            <div>
+                                <h3 className="text-lg font-semibold mb-2">שינויי שכבה ידניים</h3>
+                                <table className="min-w-full text-xs border border-gray-300">
+                                    <thead className="bg-gray-100">
+                                        <tr>
+                                            <th className="p-1 border border-gray-300 text-right">תאריך</th>
+                                            <th className="p-1 border border-gray-300 text-right">בית ספר</th>
+                                            <th className="p-1 border border-gray-300 text-right">סיווג מחושב</th>
+                                            <th className="p-1 border border-gray-300 text-right">שינוי</th>
+                                            <th className="p-1 border border-gray-300 text-right">נימוק</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {tierOverrideHistory.map((entry, index) => (
+                                            <tr key={index}>
+                                                <td className="p-1 border border-gray-300 whitespace-nowrap">{new Date(entry.createdAt).toLocaleDateString('he-IL')}</td>
+                                                <td className="p-1 border border-gray-300">{entry.schoolName}</td>
+                                                <td className="p-1 border border-gray-300">שכבה {entry.computedTier}</td>
+                                                <td className="p-1 border border-gray-300">
+                                                    שכבה {entry.fromTier} ← {entry.toTier === null ? 'ביטול השיוך הידני' : `שכבה ${entry.toTier}`}
+                                                </td>
+                                                <td className="p-1 border border-gray-300">{entry.reason}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+
             {cardData && <InformationCardDisplay card={cardData} />}
         </div>
     );
@@ -760,15 +979,27 @@ const PlanPrintLayout: React.FC<{
 interface InterventionPlanBuilderProps {
     selectedIssues: Issue[];
     tieredSchools: TieredSchools;
+    /** Written tiering criteria and the manual tier changes, printed with the plan for audits. */
+    tieringCriteria?: string[];
+    tierOverrideHistory?: TierOverride[];
+    /** The formula the issues were ranked with, printed with the plan. */
+    prioritizationFormula?: string[];
+    /** The data the issues were ranked and tiered with; enables the what-if simulator. */
+    whatIfContext?: WhatIfContext;
+    initialPlans?: AllInterventionPlans;
+    onPlansChange?: (plans: AllInterventionPlans) => void;
     onPlanComplete: (plans: AllInterventionPlans) => void;
     onReset: () => void;
     onBack: () => void;
 }
 
-export const InterventionPlanBuilder: React.FC<InterventionPlanBuilderProps> = ({ selectedIssues, tieredSchools, onPlanComplete, onReset, onBack }) => {
+export const InterventionPlanBuilder: React.FC<InterventionPlanBuilderProps> = ({ selectedIssues, tieredSchools, tieringCriteria, tierOverrideHistory, prioritizationFormula, whatIfContext, initialPlans, onPlansChange, onPlanComplete, onReset, onBack }) => {
     const [plans, setPlans] = useState<AllInterventionPlans>({});
+    // Plans restored from a saved session are only read when the builder initializes.
+    const initialPlansRef = useRef(initialPlans);
     const [openAccordion, setOpenAccordion] = useState<string | null>(null);
-    const [currentView, setCurrentView] = useState<'select' | 'build' | 'review'>('select');
+    const correlationMatrix = useMemo(() => computeCorrelationMatrix(tieredSchools.tier1), [tieredSchools.tier1]);
+    const [currentView, setCurrentView] = useState<'select' | 'build' | 'review' | 'school'>('select');
     const [selectedPlanIssueId, setSelectedPlanIssueId] = useState<string | null>(null);
     const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
     const printLayoutRef = useRef<HTMLDivElement>(null);
@@ -788,6 +1019,11 @@ export const InterventionPlanBuilder: React.FC<InterventionPlanBuilderProps> = (
         const initialPlans: AllInterventionPlans = {};
         
         selectedIssues.forEach(issue => {
+            const savedPlan = initialPlansRef.current?.[issue.id];
+            if (savedPlan) {
+                initialPlans[issue.id] = savedPlan;
+                return;
+            }
             const defaults = interventionPlanData[issue.id];
             const goalsData = issuesAndGoalsData.find(i => i.id === issue.id);
 
@@ -810,6 +1046,12 @@ export const InterventionPlanBuilder: React.FC<InterventionPlanBuilderProps> = (
     useEffect(() => {
         initializePlans();
     }, [initializePlans]);
+
+    useEffect(() => {
+        if (onPlansChange && Object.keys(plans).length > 0) {
+            onPlansChange(plans);
+        }
+    }, [plans, onPlansChange]);
     
     useEffect(() => {
         if (relevantPlanIssues.length === 1 && currentView === 'select') {
@@ -861,8 +1103,7 @@ export const InterventionPlanBuilder: React.FC<InterventionPlanBuilderProps> = (
         setCurrentView('review');
     };
 
-    const handlePrint = () => {
-        const printableElement = printLayoutRef.current;
+    const handlePrint = (printableElement: HTMLElement | null = printLayoutRef.current) => {
         if (!printableElement) return alert('שגיאה: לא ניתן למצוא תוכן להדפסה.');
         const printWindow = window.open('', '_blank');
         if (printWindow) {
@@ -881,41 +1122,23 @@ export const InterventionPlanBuilder: React.FC<InterventionPlanBuilderProps> = (
         }
     };
     
-    const handleDownloadPdf = async () => {
-        setIsGeneratingPdf(true);
-        const element = printLayoutRef.current;
-        if (!element || typeof html2canvas === 'undefined' || typeof window.jspdf === 'undefined') {
+    const handleDownloadPdf = () => {
+        if (!canRenderPdfDocuments()) {
             alert('שגיאה בייצוא PDF. ודא שכל הספריות נטענו.');
-            setIsGeneratingPdf(false);
             return;
         }
-
+        setIsGeneratingPdf(true);
         try {
-            const canvas = await html2canvas(element, { scale: 2, useCORS: true, backgroundColor: '#ffffff' });
-            const imgData = canvas.toDataURL('image/png');
-            const { jsPDF } = window.jspdf;
-            const pdf = new jsPDF('p', 'mm', 'a4');
-            const pdfWidth = pdf.internal.pageSize.getWidth();
-            const pdfHeight = pdf.internal.pageSize.getHeight();
-            const imgWidth = canvas.width;
-            const imgHeight = canvas.height;
-            const ratio = pdfWidth / imgWidth;
-            let heightLeft = imgHeight;
-            let position = 0;
-
-            const pageHeightInCanvas = pdfHeight / ratio;
-
-            pdf.addImage(imgData, 'PNG', 0, position, imgWidth * ratio, imgHeight * ratio);
-            heightLeft -= pageHeightInCanvas;
-
-            while (heightLeft > 0) {
-                position -= pageHeightInCanvas;
-                pdf.addPage();
-                pdf.addImage(imgData, 'PNG', 0, position, imgWidth * ratio, imgHeight * ratio);
-                heightLeft -= pageHeightInCanvas;
-            }
-
-            pdf.save(`תוכנית-התערבות-${selectedIssues[0]?.name}.pdf`);
+            downloadPdfDocument(buildPlanPdfDocument({
+                plans,
+                issues: relevantPlanIssues.filter(p => p.id === selectedPlanIssueId),
+                tieredSchools,
+                cardData: selectedPlanIssueId ? informationCardsData[selectedPlanIssueId] : null,
+                tieringCriteria,
+                tierOverrideHistory,
+                prioritizationFormula,
+                rankedIssues: selectedIssues,
+            }), `תוכנית-התערבות-${selectedIssues[0]?.name}`);
         } catch (error) {
             console.error('PDF export failed:', error);
             alert(`שגיאה בייצוא ל-PDF: ${(error as Error).message}`);
@@ -940,24 +1163,51 @@ export const InterventionPlanBuilder: React.FC<InterventionPlanBuilderProps> = (
                 </header>
                  <div className="absolute left-[-9999px] top-auto -z-10" aria-hidden="true">
                      <div ref={printLayoutRef}>
-                        <PlanPrintLayout plans={plans} issues={issueForPrint} tieredSchools={tieredSchools} cardData={cardDataForPrint} />
+                        <PlanPrintLayout plans={plans} issues={issueForPrint} tieredSchools={tieredSchools} cardData={cardDataForPrint} tieringCriteria={tieringCriteria} tierOverrideHistory={tierOverrideHistory} prioritizationFormula={prioritizationFormula} rankedIssues={selectedIssues} />
                     </div>
                 </div>
                 <div className="bg-white rounded-lg shadow-lg border max-w-4xl mx-auto">
-                   <PlanPrintLayout plans={plans} issues={issueForPrint} tieredSchools={tieredSchools} cardData={cardDataForPrint} />
+                   <PlanPrintLayout plans={plans} issues={issueForPrint} tieredSchools={tieredSchools} cardData={cardDataForPrint} tieringCriteria={tieringCriteria} tierOverrideHistory={tierOverrideHistory} prioritizationFormula={prioritizationFormula} rankedIssues={selectedIssues} />
                 </div>
                  <div className="flex flex-wrap gap-4 justify-between items-center mt-12 border-t border-gray-200 pt-6 no-print">
                     <button type="button" onClick={() => setCurrentView('build')} className="flex items-center gap-2 px-6 py-3 bg-gray-200 text-gray-800 font-semibold rounded-lg shadow-sm hover:bg-gray-300 transition-colors">
                         <ArrowRight size={18} /> חזרה לעריכה
                     </button>
                     <div className="flex-grow flex justify-center gap-3">
-                        <button type="button" onClick={handlePrint} className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg shadow-md hover:bg-blue-700 transition"><Printer size={16} /> הדפסה</button>
+                        <button type="button" onClick={() => handlePrint()} className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg shadow-md hover:bg-blue-700 transition"><Printer size={16} /> הדפסה</button>
+                        <button type="button" onClick={() => setCurrentView('school')} className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white font-semibold rounded-lg shadow-md hover:bg-indigo-700 transition"><BookOpen size={16} /> תוכנית לכל בית ספר</button>
                         <button type="button" onClick={handleDownloadPdf} disabled={isGeneratingPdf} className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white font-semibold rounded-lg shadow-md hover:bg-red-700 transition disabled:bg-gray-400">
                             {isGeneratingPdf ? <><Loader className="animate-spin" size={16}/>מעבד...</> : <><Download size={16} /> הורדה (PDF)</>}
                         </button>
                     </div>
-                    <button type="button" onClick={onReset} className="flex items-center gap-2 px-6 py-3 bg-gray-500 text-white font-semibold rounded-lg shadow-md hover:bg-gray-600 transition">
-                        <RotateCcw size={18} /> התחל מחדש
+                    <div className="flex gap-3">
+                        <button type="button" onClick={onReset} className="flex items-center gap-2 px-6 py-3 bg-gray-500 text-white font-semibold rounded-lg shadow-md hover:bg-gray-600 transition">
+                            <RotateCcw size={18} /> התחל מחדש
+                        </button>
+                        <button type="button" onClick={() => onPlanComplete(plans)} className="flex items-center gap-2 px-6 py-3 bg-green-600 text-white font-semibold rounded-lg shadow-md hover:bg-green-700 transition">
+                            מעבר למעקב התקדמות <ArrowLeft size={18} />
+                        </button>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    if (currentView === 'school') {
+        return (
+            <div className="bg-gray-50 p-8 rounded-lg">
+                <header className="text-center mb-8 no-print">
+                    <h1 className="text-3xl md:text-4xl font-bold text-gray-800">תוכנית מאוחדת לבית ספר</h1>
+                    <p className="text-gray-500 mt-2 text-lg max-w-3xl mx-auto">
+                        כל מה שהתוכניות של כלל הסוגיות מבקשות מבית הספר, במסמך אחד למנהל/ת. פריטים החוזרים בכמה תוכניות מופיעים פעם אחת.
+                    </p>
+                </header>
+                <div className="max-w-4xl mx-auto">
+                    <SchoolPlanView issues={selectedIssues} plans={plans} tieredSchools={tieredSchools} onPrint={handlePrint} />
+                </div>
+                <div className="flex justify-between items-center mt-12 border-t border-gray-200 pt-6 no-print">
+                    <button type="button" onClick={() => setCurrentView('review')} className="flex items-center gap-2 px-6 py-3 bg-gray-200 text-gray-800 font-semibold rounded-lg shadow-sm hover:bg-gray-300 transition-colors">
+                        <ArrowRight size={18} /> חזרה לתוכנית
                     </button>
                 </div>
             </div>
@@ -979,10 +1229,13 @@ export const InterventionPlanBuilder: React.FC<InterventionPlanBuilderProps> = (
                         plan={plans[selectedIssueForPlan.id]}
                         tieredSchools={tieredSchools}
                         allSelectedIssues={selectedIssues}
+                        correlationMatrix={correlationMatrix}
+                        whatIfContext={whatIfContext}
                         onUpdate={handlePlanUpdate}
                         isOpen={openAccordion === selectedIssueForPlan.id}
                         onToggle={() => setOpenAccordion(prev => prev === selectedIssueForPlan.id ? null : selectedIssueForPlan.id)}
                     />
+                    <CapacityPanel issues={selectedIssues} plans={plans} tieredSchools={tieredSchools} onPlanUpdate={handlePlanUpdate} />
                 </div>
                 <div className="flex flex-wrap gap-4 justify-between items-center mt-12 border-t border-gray-200 pt-6">
                     <button onClick={() => { setCurrentView('select'); setSelectedPlanIssueId(null); }} className="flex items-center gap-2 px-6 py-3 bg-gray-200 text-gray-800 font-semibold rounded-lg shadow-sm hover:bg-gray-300 transition-colors">
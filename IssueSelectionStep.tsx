@@ -1,12 +1,21 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { FileText, Users, Target, CheckCircle, ArrowRight, ArrowLeft, ChevronDown, AlertCircle, Briefcase, BookOpen, HeartHandshake, Puzzle } from 'lucide-react';
-import { SchoolForAnalysis, Issue, School, SchoolIssueDetail, FullSystemicIssue } from '../types';
-import { ALL_SCORE_FIELDS, FIELD_HEBREW_MAP, METRIC_TO_CHALLENGE_MAP, BOOKLET_ISSUE_TO_METRICS_MAP, BOOKLET_TO_PLAN_ISSUES_MAP } from '../constants';
-import { issuesAndGoalsData } from '../data/issuesAndGoalsData';
+import { FileText, Users, Target, CheckCircle, ArrowRight, ArrowLeft, ChevronDown, AlertCircle, Briefcase, BookOpen, HeartHandshake, Puzzle, SlidersHorizontal, Download } from 'lucide-react';
+import { SchoolForAnalysis, Issue, School, SchoolIssueDetail, AnalyticsView, PrioritizationSettings } from '../types';
+import { ALL_SCORE_FIELDS } from '../constants';
+import { filterBySupportLevel, supportLevelLabel, describeAnalyticsView } from '../services/analyticsViewService';
+import { INSUFFICIENT_DATA_HATCHING } from '../services/dataCoverageService';
+import { describePrioritization, SEVERITY_LABELS } from '../services/prioritizationService';
+import { identifyIssues } from '../services/issueAnalysisService';
+import AnalyticsViewControls from './AnalyticsViewControls';
+import PrioritizationSettingsPanel from './PrioritizationSettingsPanel';
 
 interface IssueSelectionStepProps {
   schools: SchoolForAnalysis[];
   selectedFocusAreas: string[];
+  analyticsView: AnalyticsView;
+  onAnalyticsViewChange: (view: AnalyticsView) => void;
+  prioritizationSettings: PrioritizationSettings;
+  onPrioritizationSettingsChange: (settings: PrioritizationSettings) => void;
   onComplete: (selectedIssues: Issue[]) => void;
   onBack: () => void;
 }
@@ -77,140 +86,30 @@ const SchoolDetailsView: React.FC<{ details: SchoolIssueDetail[] }> = ({ details
     );
 };
 
-
-const IssueSelectionStep: React.FC<IssueSelectionStepProps> = ({ schools, selectedFocusAreas, onComplete, onBack }) => {
+const IssueSelectionStep: React.FC<IssueSelectionStepProps> = ({ schools, selectedFocusAreas, analyticsView, onAnalyticsViewChange, prioritizationSettings, onPrioritizationSettingsChange, onComplete, onBack }) => {
   const [selectedIssues, setSelectedIssues] = useState<string[]>([]);
-  const [issues, setIssues] = useState<Issue[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(true);
   const [expandedIssueId, setExpandedIssueId] = useState<string | null>(null);
+  const [showPrioritization, setShowPrioritization] = useState(false);
 
-  const analyzeSchoolData = useCallback(() => {
-    if (!schools || schools.length === 0 || selectedFocusAreas.length === 0) return;
-
-    const relevantIssueIds = new Set(selectedFocusAreas.flatMap(area => BOOKLET_TO_PLAN_ISSUES_MAP[area] || []));
-    const relevantIssuesData = issuesAndGoalsData.filter(issue => relevantIssueIds.has(issue.id));
-
-    const calculateAverageForCategory = (categoryKey: string, schoolSet: SchoolForAnalysis[]): number => {
-        const metricsForCategory = BOOKLET_ISSUE_TO_METRICS_MAP[categoryKey] || [];
-        if (metricsForCategory.length === 0 || schoolSet.length === 0) return 0;
-
-        let totalScore = 0;
-        let scoreCount = 0;
-
-        schoolSet.forEach(school => {
-            metricsForCategory.forEach(metric => {
-                const score = parseInt(school[metric] as string, 10);
-                if (!isNaN(score) && score > 0) {
-                    totalScore += score;
-                    scoreCount++;
-                }
-            });
-        });
-        return scoreCount > 0 ? totalScore / scoreCount : 0;
-    };
-
-
-    const buildSchoolDetails = (categoryKey: string): SchoolIssueDetail[] => {
-        const metricsForCategory = BOOKLET_ISSUE_TO_METRICS_MAP[categoryKey] || [];
-        if (metricsForCategory.length === 0) return [];
-
-        return schools.map(school => {
-            const affectedMetricsForSchool = metricsForCategory.filter(metric => {
-                const score = parseInt(school[metric] as string, 10);
-                return !isNaN(score) && score <= 2;
-            });
-
-            if (affectedMetricsForSchool.length === 0) return null;
-
-            const percentage = (affectedMetricsForSchool.length / metricsForCategory.length) * 100;
-            let severity: 'critical' | 'high' | 'medium';
-            if (percentage >= 70) severity = 'critical';
-            else if (percentage >= 40) severity = 'high';
-            else severity = 'medium';
-
-            return {
-                schoolId: school.id, schoolName: school.name, performanceTier: school.tier, severity,
-                affectedMetrics: affectedMetricsForSchool.map(key => METRIC_TO_CHALLENGE_MAP[key as string] || `תפקוד נמוך במדד: "${FIELD_HEBREW_MAP[key as string]?.split(' - ')[1] || String(key)}"`)
-            };
-        }).filter((detail): detail is SchoolIssueDetail => detail !== null);
-    };
-    
-    const identifiedIssues: Issue[] = relevantIssuesData
-      .map((issueData: FullSystemicIssue) => {
-        const metricsForCategory = BOOKLET_ISSUE_TO_METRICS_MAP[issueData.id] || [];
-        let totalLowScores = 0;
-        let totalScoresCount = 0;
-        const affectedSchoolIds = new Set<number>();
-
-        schools.forEach(school => {
-            let hasLowScoreInIssue = false;
-            metricsForCategory.forEach(metric => {
-                const score = parseInt(school[metric] as string, 10);
-                if (!isNaN(score) && score > 0) {
-                    totalScoresCount++;
-                    if (score <= 2) {
-                        totalLowScores++;
-                        hasLowScoreInIssue = true;
-                    }
-                }
-            });
-            if (hasLowScoreInIssue) {
-                affectedSchoolIds.add(school.id);
-            }
-        });
+  // Issues are ranked within the selected support level; the issues passed on cover all the schools.
+  const segmentSchools = useMemo(() => filterBySupportLevel(schools, analyticsView.supportLevel), [schools, analyticsView.supportLevel]);
 
-        const affectedSchoolsCount = affectedSchoolIds.size;
-        if (affectedSchoolsCount === 0) return null;
-
-        const scopeScore = (affectedSchoolsCount / schools.length);
-        const severityScore = (totalLowScores / (totalScoresCount || 1));
-        const finalScore = (scopeScore * 0.6) + (severityScore * 0.4);
-
-        let severity: 'critical' | 'high' | 'medium' | 'low';
-        if (finalScore > 0.4) severity = 'critical';
-        else if (finalScore > 0.25) severity = 'high';
-        else if (finalScore > 0.1) severity = 'medium';
-        else severity = 'low';
-        
-        const tier1Schools = schools.filter(s => s.tier === 1);
-        const tier2Schools = schools.filter(s => s.tier === 2);
-        const tier3Schools = schools.filter(s => s.tier === 3);
-
-        return {
-          id: issueData.id,
-          name: issueData.title,
-          description: issueData.principalGoal,
-          affectedSchools: affectedSchoolsCount,
-          totalSchools: schools.length,
-          severity,
-          category: issueData.category,
-          urgency: Math.round(finalScore * 100),
-          schoolDetails: buildSchoolDetails(issueData.id),
-          overallAverage: calculateAverageForCategory(issueData.id, schools),
-          tier1Average: calculateAverageForCategory(issueData.id, tier1Schools),
-          tier2Average: calculateAverageForCategory(issueData.id, tier2Schools),
-          tier3Average: calculateAverageForCategory(issueData.id, tier3Schools),
-        };
-      })
-      .filter((issue): issue is Issue => issue !== null)
-      .sort((a, b) => b.urgency - a.urgency);
-
-    setIssues(identifiedIssues);
-  }, [schools, selectedFocusAreas]);
+  const rankIssues = useCallback(
+    (settings: PrioritizationSettings) => identifyIssues(segmentSchools, schools, selectedFocusAreas, analyticsView.averaging, analyticsView.coverage, settings),
+    [segmentSchools, schools, selectedFocusAreas, analyticsView.averaging, analyticsView.coverage]
+  );
+  const issues = useMemo(() => isAnalyzing ? [] : rankIssues(prioritizationSettings), [rankIssues, prioritizationSettings, isAnalyzing]);
 
   useEffect(() => {
     setIsAnalyzing(true);
     if (schools && schools.length > 0) {
-      const timerId = setTimeout(() => {
-        analyzeSchoolData();
-        setIsAnalyzing(false);
-      }, 1500);
+      const timerId = setTimeout(() => setIsAnalyzing(false), 1500);
       return () => clearTimeout(timerId);
     } else {
       setIsAnalyzing(false);
-      setIssues([]);
     }
-  }, [schools, analyzeSchoolData]);
+  }, [schools]);
 
   const handleIssueSelection = (issueId: string) => {
     setSelectedIssues(prev => {
@@ -224,11 +123,33 @@ const IssueSelectionStep: React.FC<IssueSelectionStepProps> = ({ schools, select
     setExpandedIssueId(prev => (prev === issueId ? null : issueId));
   };
 
+  const hasInsufficientData = (issue: Issue) =>
+    issue.dataCoverage !== undefined && issue.dataCoverage < analyticsView.coverage.minGroupCoverage;
+
   const handleContinue = () => {
-    onComplete(issues.filter(issue => selectedIssues.includes(issue.id)));
+    const allSchoolIssues = identifyIssues(schools, schools, selectedFocusAreas, analyticsView.averaging, analyticsView.coverage, prioritizationSettings);
+    onComplete(allSchoolIssues.filter(issue => selectedIssues.includes(issue.id)));
   };
 
-    const getSeverityText = (severity: 'critical' | 'high' | 'medium' | 'low') => ({ critical: 'קריטי', high: 'גבוה', medium: 'בינוני', low: 'נמוך'}[severity]);
+  const exportRankingToCsv = () => {
+    const escape = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+    let csvContent = "data:text/csv;charset=utf-8,\uFEFF"; // BOM for UTF-8 Excel compatibility
+    csvContent += `${escape('תצוגה')},${escape(describeAnalyticsView(analyticsView))}\n`;
+    describePrioritization(prioritizationSettings).forEach(line => { csvContent += `${escape('נוסחת דירוג')},${escape(line)}\n`; });
+    csvContent += "\nדירוג,סוגיה,דחיפות,חומרה,בתי ספר מושפעים,סך הכל בתי ספר,ממוצע כללי,כיסוי נתונים (%)\n";
+    issues.forEach((issue, index) => {
+      csvContent += [index + 1, escape(issue.name), issue.urgency, SEVERITY_LABELS[issue.severity], issue.affectedSchools, issue.totalSchools, issue.overallAverage.toFixed(2), issue.dataCoverage?.toFixed(0) ?? ''].join(',') + "\n";
+    });
+
+    const link = document.createElement("a");
+    link.setAttribute("href", encodeURI(csvContent));
+    link.setAttribute("download", "issue_ranking.csv");
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+    const getSeverityText = (severity: 'critical' | 'high' | 'medium' | 'low') => SEVERITY_LABELS[severity];
     const getCategoryText = (category: 'pedagogical' | 'organizational' | 'community' | 'strategic') => ({ pedagogical: 'פדגוגי', organizational: 'ארגוני', community: 'קהילתי', strategic: 'אסטרטגי'}[category]);
     const getCategoryIcon = (category: string) => ({ 
         pedagogical: <BookOpen className="w-5 h-5" />, 
@@ -250,14 +171,31 @@ const IssueSelectionStep: React.FC<IssueSelectionStepProps> = ({ schools, select
     <div className="p-8 bg-white rounded-lg shadow-lg">
       <div className="flex justify-between items-center mb-4">
         <div className="flex items-center"><div className="bg-blue-100 text-blue-800 font-bold rounded-full w-8 h-8 flex items-center justify-center mr-3">3</div><h2 className="text-2xl font-bold">בחירת סוגיות ספציפיות להתערבות</h2></div>
-        <div className="bg-blue-50 text-blue-700 px-4 py-2 rounded-full text-sm font-medium">{schools.length} בתי ספר נותחו</div>
+        <div className="bg-blue-50 text-blue-700 px-4 py-2 rounded-full text-sm font-medium">{segmentSchools.length} בתי ספר נותחו</div>
+      </div>
+
+      <div className="mb-4 space-y-3">
+        <AnalyticsViewControls view={analyticsView} onChange={onAnalyticsViewChange} schools={schools} />
+        <div className="flex flex-wrap gap-2">
+          <button type="button" onClick={() => setShowPrioritization(prev => !prev)} className="flex items-center gap-2 text-sm px-3 py-1.5 bg-white border border-gray-300 rounded-md hover:bg-gray-100">
+            <SlidersHorizontal size={16} /> הגדרות נוסחת הדירוג
+            <ChevronDown size={16} className={`transition-transform ${showPrioritization ? 'rotate-180' : ''}`} />
+          </button>
+          <button type="button" onClick={exportRankingToCsv} disabled={issues.length === 0} className="flex items-center gap-2 text-sm px-3 py-1.5 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-400">
+            <Download size={16} /> ייצוא הדירוג והנוסחה (CSV)
+          </button>
+        </div>
+        {showPrioritization && (
+          <PrioritizationSettingsPanel settings={prioritizationSettings} onApply={onPrioritizationSettingsChange} rankIssues={rankIssues} />
+        )}
       </div>
 
       <div className="bg-blue-50 border border-blue-200 text-blue-800 p-4 rounded-lg mb-6 flex items-center gap-3">
         <AlertCircle className="w-5 h-5" />
         <div>
             <p className="font-semibold">זיהינו {issues.length} סוגיות רלוונטיות לתחומי ההתמקדות שבחרת. בחר/י עד 3 סוגיות להתערבות.</p>
-            <p className="text-sm">הסוגיות מדורגות לפי רמת הדחיפות שלהן, המבוססת על היקף וחומרת האתגרים בנתונים.</p>
+            <p className="text-sm">הסוגיות מדורגות לפי רמת הדחיפות שלהן, המבוססת על היקף וחומרת האתגרים בנתונים ({describeAnalyticsView(analyticsView)}).</p>
+            {analyticsView.supportLevel !== 'all' && <p className="text-sm">הדירוג מוצג עבור רמת הליווי שנבחרה; הסוגיות שייבחרו ימשיכו לשלב הבא עם נתוני כלל בתי הספר.</p>}
         </div>
       </div>
       
@@ -279,10 +217,13 @@ const IssueSelectionStep: React.FC<IssueSelectionStepProps> = ({ schools, select
                   <h3 className="text-xl font-bold mb-2 text-gray-800">{issue.name}</h3>
                   <p className="text-gray-600 mb-4 text-sm">{issue.description}</p>
               
-                   <div className="mt-4 pt-4 border-t border-gray-200 grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+                   <div
+                      className={`mt-4 pt-4 border-t border-gray-200 grid grid-cols-2 md:grid-cols-4 gap-4 text-center ${hasInsufficientData(issue) ? 'bg-gray-200 rounded-md' : ''}`}
+                      style={hasInsufficientData(issue) ? INSUFFICIENT_DATA_HATCHING : undefined}
+                   >
                       <div>
-                          <div className="text-xs text-gray-500">ממוצע כללי</div>
-                          <div className="text-xl font-bold text-gray-800">{issue.overallAverage?.toFixed(2) ?? 'N/A'}</div>
+                          <div className="text-xs text-gray-500">ממוצע כללי{analyticsView.coverage.imputeMissing && ' (משוער)'}</div>
+                          <div className={`text-xl font-bold text-gray-800 ${analyticsView.coverage.imputeMissing ? 'italic' : ''}`}>{issue.overallAverage?.toFixed(2) ?? 'N/A'}</div>
                       </div>
                       <div>
                           <div className="text-xs text-gray-500">ממוצע תפקוד גבוה</div>
@@ -297,6 +238,25 @@ const IssueSelectionStep: React.FC<IssueSelectionStepProps> = ({ schools, select
                           <div className="text-xl font-bold text-red-600">{issue.tier3Average?.toFixed(2) ?? 'N/A'}</div>
                       </div>
                   </div>
+                  <div className="mt-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-600">
+                      <span>{issue.affectedSchools} מתוך {issue.totalSchools} בתי ספר{issue.affectedStudents ? ` | ${issue.affectedStudents.toLocaleString()} תלמידים` : ''}</span>
+                      {issue.dataCoverage !== undefined && (
+                          <span className={hasInsufficientData(issue) ? 'text-red-700 font-semibold' : ''}>
+                              כיסוי נתונים {issue.dataCoverage.toFixed(0)}%{hasInsufficientData(issue) && ' · אין מספיק נתונים'}
+                              {!!issue.insufficientDataSchools && ` | ${issue.insufficientDataSchools} בתי ספר מתחת ל-${analyticsView.coverage.minSchoolCoverage}% כיסוי`}
+                          </span>
+                      )}
+                      {issue.supportLevelAverages && issue.supportLevelAverages.length > 1 && (
+                          <span className="flex flex-wrap gap-2">
+                              לפי רמת ליווי:
+                              {issue.supportLevelAverages.map(segment => (
+                                  <span key={segment.level || 'none'} className={`px-2 rounded-full border ${segment.level === analyticsView.supportLevel ? 'bg-blue-100 border-blue-300 font-semibold' : 'bg-white border-gray-200'}`}>
+                                      {supportLevelLabel(segment.level)} {segment.average.toFixed(2)}
+                                  </span>
+                              ))}
+                          </span>
+                      )}
+                  </div>
               </div>
               <div className="px-4 md:px-6 py-3 border-t border-gray-200 bg-white/50">
                   <button onClick={(e) => { e.stopPropagation(); handleToggleDetails(issue.id);}} className="flex justify-between items-center w-full text-sm font-semibold text-blue-700 hover:text-blue-800">
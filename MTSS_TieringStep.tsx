@@ -1,9 +1,15 @@
 import React, { useMemo, useState } from 'react';
-import { AnalysisData, Issue, SchoolForAnalysis } from '../types';
-import { ArrowLeft, ArrowRight, Layers3, Target, ShieldAlert, ChevronDown } from 'lucide-react';
+import { AnalysisData, Issue, SchoolForAnalysis, HistoricalDataset, TieringRuleSet, TierAssignment, TierOverride, ActiveTierOverride } from '../types';
+import { assignTiers, computeTieredSchools, getEffectiveTier } from '../services/tieringRulesService';
+import TieringRulesEditor from './TieringRulesEditor';
+import { ArrowLeft, ArrowRight, Layers3, Target, ShieldAlert, ChevronDown, History, Hand } from 'lucide-react';
+
+type Tier = 1 | 2 | 3;
+
+const tierLabel = (tier: Tier | null): string => tier === null ? 'חזרה לסיווג המחושב' : `שכבה ${tier}`;
 
 interface TierCardProps {
-    tier: number;
+    tier: Tier;
     title: string;
     schools: SchoolForAnalysis[];
     totalSchools: number;
@@ -11,14 +17,35 @@ interface TierCardProps {
     interventionLevel: string;
     icon: React.ReactNode;
     colorClasses: string;
+    assignments?: { [schoolId: number]: TierAssignment };
+    overrides: { [schoolId: number]: ActiveTierOverride };
+    tierOf: (schoolId: number) => Tier;
+    onMoveSchool: (schoolId: number, toTier: Tier) => void;
 }
 
-const TierCard: React.FC<TierCardProps> = ({ title, schools, totalSchools, characteristics, interventionLevel, icon, colorClasses }) => {
+const TierCard: React.FC<TierCardProps> = ({ tier, title, schools, totalSchools, characteristics, interventionLevel, icon, colorClasses, assignments, overrides, tierOf, onMoveSchool }) => {
     const [isOpen, setIsOpen] = useState(false);
+    const [isDragOver, setIsDragOver] = useState(false);
     const percentage = totalSchools > 0 ? ((schools.length / totalSchools) * 100).toFixed(1) : 0;
 
+    const schoolTooltip = (schoolId: number): string | undefined => {
+        const override = overrides[schoolId];
+        if (override) return `שויך ידנית מ${tierLabel(override.computedTier)}: ${override.reason}`;
+        return assignments?.[schoolId]?.reasons.join('\n') || undefined;
+    };
+
     return (
-        <div className={`rounded-xl border-t-4 shadow-lg ${colorClasses}`}>
+        <div
+            className={`rounded-xl border-t-4 shadow-lg ${colorClasses} ${isDragOver ? 'ring-4 ring-purple-300' : ''}`}
+            onDragOver={(e) => { e.preventDefault(); setIsDragOver(true); }}
+            onDragLeave={() => setIsDragOver(false)}
+            onDrop={(e) => {
+                e.preventDefault();
+                setIsDragOver(false);
+                const schoolId = parseInt(e.dataTransfer.getData('text/plain'), 10);
+                if (!isNaN(schoolId)) onMoveSchool(schoolId, tier);
+            }}
+        >
             <div className="p-6">
                 <div className="flex items-start justify-between">
                     <div className="flex items-center gap-4">
@@ -49,8 +76,26 @@ const TierCard: React.FC<TierCardProps> = ({ title, schools, totalSchools, chara
                     {isOpen && (
                         <div className="mt-4 grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-3">
                             {schools.map(school => (
-                                <div key={school.id} className="bg-gray-100 p-2 rounded-md text-center text-xs">
+                                <div
+                                    key={school.id}
+                                    draggable
+                                    onDragStart={(e) => e.dataTransfer.setData('text/plain', String(school.id))}
+                                    className={`p-2 rounded-md text-center text-xs cursor-grab ${overrides[school.id] ? 'bg-purple-100 border border-purple-300' : 'bg-gray-100'}`}
+                                    title={schoolTooltip(school.id)}
+                                >
                                     <p className="font-semibold truncate">{school.name}</p>
+                                    {overrides[school.id] && (
+                                        <p className="flex items-center justify-center gap-1 text-purple-700 font-bold mt-0.5"><Hand size={10} /> שיוך ידני</p>
+                                    )}
+                                    <select
+                                        value=""
+                                        onChange={(e) => { if (e.target.value) onMoveSchool(school.id, parseInt(e.target.value, 10) as Tier); }}
+                                        className="mt-1 w-full p-0.5 border border-gray-300 rounded bg-white text-[11px]"
+                                        aria-label={`העברת ${school.name} לשכבה אחרת`}
+                                    >
+                                        <option value="">העברה לשכבה...</option>
+                                        {([3, 2, 1] as Tier[]).filter(t => t !== tierOf(school.id)).map(t => <option key={t} value={t}>{tierLabel(t)}</option>)}
+                                    </select>
                                 </div>
                             ))}
                         </div>
@@ -65,29 +110,62 @@ const TierCard: React.FC<TierCardProps> = ({ title, schools, totalSchools, chara
 interface MTSS_TieringStepProps {
     analysisData: AnalysisData;
     selectedIssues: Issue[];
+    historicalDatasets: HistoricalDataset[];
+    tieringRuleSet: TieringRuleSet;
+    onTieringRuleSetChange: (ruleSet: TieringRuleSet) => void;
+    tierOverrides: TierOverride[];
+    onTierOverridesChange: (history: TierOverride[]) => void;
     onComplete: () => void;
     onBack: () => void;
 }
 
-const MTSS_TieringStep: React.FC<MTSS_TieringStepProps> = ({ analysisData, selectedIssues, onComplete, onBack }) => {
+const MTSS_TieringStep: React.FC<MTSS_TieringStepProps> = ({ analysisData, selectedIssues, historicalDatasets, tieringRuleSet, onTieringRuleSetChange, tierOverrides, onTierOverridesChange, onComplete, onBack }) => {
     const { schools } = analysisData;
 
-    const tiers = useMemo(() => {
-        const affectedSchoolIds = new Set<number>();
-        selectedIssues.forEach(issue => {
-            issue.schoolDetails.forEach(detail => {
-                affectedSchoolIds.add(detail.schoolId);
-            });
-        });
+    const assignments = useMemo(() => assignTiers(schools, tieringRuleSet, historicalDatasets), [schools, tieringRuleSet, historicalDatasets]);
+
+    const computedTiers = useMemo(
+        () => computeTieredSchools(schools, selectedIssues, tieringRuleSet, historicalDatasets),
+        [schools, selectedIssues, tieringRuleSet, historicalDatasets]
+    );
+
+    const tiers = useMemo(
+        () => computeTieredSchools(schools, selectedIssues, tieringRuleSet, historicalDatasets, tierOverrides),
+        [schools, selectedIssues, tieringRuleSet, historicalDatasets, tierOverrides]
+    );
+
+    const [pendingMove, setPendingMove] = useState<{ schoolId: number; toTier: Tier | null } | null>(null);
+    const [moveReason, setMoveReason] = useState('');
+
+    const tierOf = (schoolId: number) => getEffectiveTier(tiers, schoolId);
+
+    const requestMove = (schoolId: number, toTier: Tier | null) => {
+        if (toTier !== null && tierOf(schoolId) === toTier) return;
+        // Moving a school back to its computed tier withdraws the override instead of pinning it.
+        const normalizedTier = toTier !== null && tiers.overrides[schoolId] && getEffectiveTier(computedTiers, schoolId) === toTier ? null : toTier;
+        setPendingMove({ schoolId, toTier: normalizedTier });
+        setMoveReason('');
+    };
 
-        const tier3 = schools.filter(s => s.tier === 3 && affectedSchoolIds.has(s.id));
-        const tier2 = schools.filter(s => s.tier === 2 && affectedSchoolIds.has(s.id));
-        const tier1 = schools; // Universal tier includes all schools
+    const confirmMove = () => {
+        const school = pendingMove && schools.find(s => s.id === pendingMove.schoolId);
+        if (!pendingMove || !school || !moveReason.trim()) return;
+        onTierOverridesChange([...tierOverrides, {
+            schoolId: school.id,
+            schoolName: school.name,
+            computedTier: getEffectiveTier(computedTiers, school.id),
+            fromTier: tierOf(school.id),
+            toTier: pendingMove.toTier,
+            reason: moveReason.trim(),
+            createdAt: new Date().toISOString(),
+        }]);
+        setPendingMove(null);
+    };
 
-        return { tier1, tier2, tier3 };
-    }, [schools, selectedIssues]);
+    const pendingSchool = pendingMove && schools.find(s => s.id === pendingMove.schoolId);
 
     const totalSchools = schools.length;
+    const tierCardProps = { totalSchools, assignments, overrides: tiers.overrides, tierOf, onMoveSchool: requestMove };
     const selectedIssueNames = selectedIssues.map(issue => `'${issue.name}'`).join(', ');
 
     return (
@@ -108,12 +186,27 @@ const MTSS_TieringStep: React.FC<MTSS_TieringStepProps> = ({ analysisData, selec
                 </div>
             )}
 
+            <TieringRulesEditor
+                ruleSet={tieringRuleSet}
+                onChange={onTieringRuleSetChange}
+                preview={{
+                    tier3: computedTiers.tier3.length,
+                    tier2: computedTiers.tier2.length,
+                    tier1Only: totalSchools - computedTiers.tier3.length - computedTiers.tier2.length,
+                }}
+            />
+
+            <p className="mb-4 text-sm text-gray-600 flex items-center gap-2">
+                <Hand size={16} className="text-purple-600" />
+                ניתן להעביר בית ספר לשכבה אחרת בגרירה בין הכרטיסים או מהרשימה של כל בית ספר. כל שינוי ידני מחייב נימוק ונשמר בהיסטוריה.
+            </p>
+
             <div className="space-y-8">
                 <TierCard
+                    {...tierCardProps}
                     tier={3}
                     title="שכבה 3: התערבות אינטנסיבית"
                     schools={tiers.tier3}
-                    totalSchools={totalSchools}
                     characteristics={`בתי ספר המציגים תפקוד נמוך ומתמודדים באופן מובהק עם האתגרים בתחומים: ${selectedIssueNames}.`}
                     interventionLevel="התערבות דחופה ואינטנסיבית"
                     icon={<ShieldAlert className="w-12 h-12 text-red-500" />}
@@ -121,10 +214,10 @@ const MTSS_TieringStep: React.FC<MTSS_TieringStepProps> = ({ analysisData, selec
                 />
 
                 <TierCard
+                    {...tierCardProps}
                     tier={2}
                     title="שכבה 2: תמיכה ממוקדת"
                     schools={tiers.tier2}
-                    totalSchools={totalSchools}
                     characteristics={`בתי ספר המציגים תפקוד בינוני וזקוקים לחיזוק ותמיכה ממוקדת בתחומים הקשורים לסוגיות: ${selectedIssueNames}.`}
                     interventionLevel="חיזוק ותמיכה ממוקדת"
                     icon={<Target className="w-12 h-12 text-yellow-500" />}
@@ -132,10 +225,10 @@ const MTSS_TieringStep: React.FC<MTSS_TieringStepProps> = ({ analysisData, selec
                 />
                 
                 <TierCard
+                    {...tierCardProps}
                     tier={1}
                     title="שכבה 1: אוניברסלית"
                     schools={tiers.tier1}
-                    totalSchools={totalSchools}
                     characteristics="כלל בתי הספר במערכת. שכבה זו מהווה בסיס למניעה, שימור חוזקות והטמעת פרקטיקות מיטביות עבור כולם."
                     interventionLevel="למידה, מניעה ושימור"
                     icon={<Layers3 className="w-12 h-12 text-blue-500" />}
@@ -143,6 +236,81 @@ const MTSS_TieringStep: React.FC<MTSS_TieringStepProps> = ({ analysisData, selec
                 />
             </div>
 
+            {tierOverrides.length > 0 && (
+                <details className="mt-8 bg-white border border-gray-200 rounded-lg p-4">
+                    <summary className="cursor-pointer font-semibold text-gray-800 flex items-center gap-2">
+                        <History className="w-5 h-5 text-purple-600" />
+                        היסטוריית שינויי שכבה ידניים ({Object.keys(tiers.overrides).length} בתוקף)
+                    </summary>
+                    <table className="mt-3 min-w-full text-sm">
+                        <thead className="bg-gray-100 text-xs text-gray-600">
+                            <tr>
+                                <th className="p-2 text-right">תאריך</th>
+                                <th className="p-2 text-right">בית ספר</th>
+                                <th className="p-2 text-right">סיווג מחושב</th>
+                                <th className="p-2 text-right">שינוי</th>
+                                <th className="p-2 text-right">נימוק</th>
+                                <th className="p-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {[...tierOverrides].reverse().map((entry, index) => (
+                                <tr key={index} className="border-t border-gray-200">
+                                    <td className="p-2 whitespace-nowrap">{new Date(entry.createdAt).toLocaleString('he-IL')}</td>
+                                    <td className="p-2 font-semibold">{entry.schoolName}</td>
+                                    <td className="p-2">{tierLabel(entry.computedTier)}</td>
+                                    <td className="p-2">{tierLabel(entry.fromTier)} ← {tierLabel(entry.toTier)}</td>
+                                    <td className="p-2">{entry.reason}</td>
+                                    <td className="p-2">
+                                        {tiers.overrides[entry.schoolId] === entry && (
+                                            <button type="button" onClick={() => requestMove(entry.schoolId, null)} className="text-xs text-red-600 hover:underline">
+                                                ביטול השיוך
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </details>
+            )}
+
+            {pendingMove && pendingSchool && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" role="dialog" aria-modal="true">
+                    <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-lg">
+                        <h3 className="text-xl font-bold text-gray-800">
+                            {pendingMove.toTier === null ? 'ביטול שיוך ידני' : 'שינוי שכבה ידני'}: {pendingSchool.name}
+                        </h3>
+                        <p className="text-sm text-gray-600 mt-2">
+                            {tierLabel(tierOf(pendingSchool.id))} ← {pendingMove.toTier === null ? tierLabel(getEffectiveTier(computedTiers, pendingSchool.id)) : tierLabel(pendingMove.toTier)}
+                            {' '}(סיווג מחושב: {tierLabel(getEffectiveTier(computedTiers, pendingSchool.id))})
+                        </p>
+                        <label className="block text-sm font-semibold text-gray-700 mt-4 mb-1">נימוק (חובה, יופיע בתוכנית המודפסת)</label>
+                        <textarea
+                            value={moveReason}
+                            onChange={(e) => setMoveReason(e.target.value)}
+                            rows={3}
+                            autoFocus
+                            placeholder="למשל: מונה מנהל חדש באמצע השנה / אירוע משברי בבית הספר"
+                            className="w-full p-2 border border-gray-300 rounded-md text-sm"
+                        />
+                        <div className="flex justify-end gap-3 mt-4">
+                            <button type="button" onClick={() => setPendingMove(null)} className="px-4 py-2 bg-gray-200 text-gray-800 font-semibold rounded-md hover:bg-gray-300">
+                                ביטול
+                            </button>
+                            <button
+                                type="button"
+                                onClick={confirmMove}
+                                disabled={!moveReason.trim()}
+                                className="px-4 py-2 bg-purple-600 text-white font-semibold rounded-md hover:bg-purple-700 disabled:bg-gray-400"
+                            >
+                                אישור
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
             <div className="flex justify-between items-center mt-12 border-t pt-6">
                 <button
                     onClick={onBack}
@@ -0,0 +1,169 @@
+import React from 'react';
+import type { TierPlan, SchoolForAnalysis, ObjectiveBinding } from '../types';
+import { HIERARCHICAL_CATEGORIES } from '../constants';
+import { getPlanObjectives, createObjectiveBinding, averageOnFields, fieldLabel } from '../services/objectiveService';
+import { toIsoDate } from '../services/monitoringService';
+import { Link2, Trash2, RefreshCw } from 'lucide-react';
+
+interface ObjectiveBindingsEditorProps {
+    plan: TierPlan;
+    /** The schools the plan covers, for the baseline. */
+    planSchools: SchoolForAnalysis[];
+    onChange: (bindings: ObjectiveBinding[]) => void;
+}
+
+const parseTarget = (value: string): number | null => {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? null : Math.min(4, Math.max(1, parsed));
+};
+
+const BindingEditor: React.FC<{
+    binding: ObjectiveBinding;
+    planSchools: SchoolForAnalysis[];
+    onChange: (binding: ObjectiveBinding) => void;
+    onRemove: () => void;
+}> = ({ binding, planSchools, onChange, onRemove }) => {
+    const currentBaseline = averageOnFields(planSchools, binding.fields);
+    const baselineIsStale = currentBaseline !== null && (binding.baseline === null || Math.abs(currentBaseline - binding.baseline) >= 0.005);
+
+    // Changing the fields re-measures the baseline on them.
+    const toggleField = (field: string, checked: boolean) => {
+        const fields = checked ? [...binding.fields, field] : binding.fields.filter(f => f !== field);
+        onChange({ ...binding, fields, baseline: averageOnFields(planSchools, fields) });
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex flex-wrap items-end gap-3 text-sm">
+                <span className="flex flex-col gap-1 text-gray-700">
+                    ערך בסיס
+                    <span className="flex items-center gap-1 font-semibold">
+                        {binding.baseline !== null ? binding.baseline.toFixed(2) : '—'}
+                        {baselineIsStale && (
+                            <button
+                                type="button"
+                                onClick={() => onChange({ ...binding, baseline: currentBaseline })}
+                                className="text-blue-600 hover:text-blue-800"
+                                title={`בתי הספר בתוכנית השתנו; הממוצע הנוכחי ${currentBaseline!.toFixed(2)}`}
+                            >
+                                <RefreshCw size={14} />
+                            </button>
+                        )}
+                    </span>
+                </span>
+                <label className="flex flex-col gap-1 text-gray-700">
+                    יעד (1-4)
+                    <input
+                        type="number"
+                        min={1}
+                        max={4}
+                        step={0.1}
+                        value={binding.target ?? ''}
+                        onChange={(e) => onChange({ ...binding, target: parseTarget(e.target.value) })}
+                        className="p-1 border border-gray-300 rounded-md bg-white w-20"
+                    />
+                </label>
+                <label className="flex flex-col gap-1 text-gray-700">
+                    מועד
+                    <input
+                        type="date"
+                        value={binding.deadline}
+                        onChange={(e) => onChange({ ...binding, deadline: e.target.value })}
+                        className="p-1 border border-gray-300 rounded-md bg-white"
+                    />
+                </label>
+                <button type="button" onClick={onRemove} className="text-red-500 hover:text-red-700 p-1" title="ביטול הקישור למדדים">
+                    <Trash2 size={16} />
+                </button>
+            </div>
+            <details>
+                <summary className="cursor-pointer text-xs text-gray-600">
+                    {binding.fields.length > 0 ? binding.fields.map(fieldLabel).join(', ') : 'בחירת מדדים'}
+                </summary>
+                <div className="mt-2 max-h-64 overflow-y-auto space-y-2 bg-white border border-gray-200 rounded-md p-2">
+                    {HIERARCHICAL_CATEGORIES.map(category => (
+                        <div key={category.name}>
+                            <p className="text-xs font-bold text-gray-700">{category.name}</p>
+                            {category.subCategories.map(subCat => (
+                                <div key={subCat.key} className="mr-2">
+                                    <p className="text-xs font-semibold text-gray-500">{subCat.name}</p>
+                                    {subCat.metrics.map(metric => (
+                                        <label key={metric.key} className="flex items-start gap-2 text-xs text-gray-700 mr-2 cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={binding.fields.includes(metric.key)}
+                                                onChange={(e) => toggleField(metric.key, e.target.checked)}
+                                                className="h-3 w-3 mt-0.5 rounded border-gray-300 text-blue-600"
+                                            />
+                                            {metric.name}
+                                        </label>
+                                    ))}
+                                </div>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            </details>
+        </div>
+    );
+};
+
+/**
+ * Ties the plan's measurable objectives to score fields, with a baseline measured on the plan's schools, a target and a deadline.
+ */
+const ObjectiveBindingsEditor: React.FC<ObjectiveBindingsEditorProps> = ({ plan, planSchools, onChange }) => {
+    const bindings = plan.objectiveBindings || [];
+    const objectives = getPlanObjectives(plan);
+    // Bindings whose objective was edited or removed from the plan.
+    const orphaned = bindings.filter(b => !objectives.includes(b.objective));
+
+    if (objectives.length === 0 && orphaned.length === 0) return null;
+
+    const updateBinding = (updated: ObjectiveBinding) => onChange(bindings.map(b => b.id === updated.id ? updated : b));
+    const removeBinding = (id: string) => onChange(bindings.filter(b => b.id !== id));
+    const bindObjective = (objective: string) => onChange([...bindings, createObjectiveBinding(objective, [], planSchools, toIsoDate(new Date()))]);
+
+    return (
+        <div className="bg-white p-3 rounded-lg border border-gray-200">
+            <h5 className="font-semibold text-gray-800 text-sm mb-2 flex items-center gap-2">
+                <Link2 size={16} /> קישור היעדים המדידים למדדים ({planSchools.length} בתי ספר)
+            </h5>
+            <ul className="space-y-3">
+                {objectives.map(objective => {
+                    const binding = bindings.find(b => b.objective === objective);
+                    return (
+                        <li key={objective} className="border-t border-gray-100 pt-2">
+                            <div className="flex flex-wrap justify-between items-start gap-2">
+                                <span className="text-sm text-gray-800 flex-1">{objective}</span>
+                                {!binding && (
+                                    <button
+                                        type="button"
+                                        onClick={() => bindObjective(objective)}
+                                        className="text-xs px-2 py-1 bg-blue-50 text-blue-700 border border-blue-200 rounded-md hover:bg-blue-100"
+                                    >
+                                        קישור למדדים
+                                    </button>
+                                )}
+                            </div>
+                            {binding && (
+                                <div className="mt-2">
+                                    <BindingEditor binding={binding} planSchools={planSchools} onChange={updateBinding} onRemove={() => removeBinding(binding.id)} />
+                                </div>
+                            )}
+                        </li>
+                    );
+                })}
+                {orphaned.map(binding => (
+                    <li key={binding.id} className="border-t border-gray-100 pt-2 text-sm text-gray-500 flex justify-between gap-2">
+                        <span>היעד "{binding.objective}" אינו מופיע עוד בתוכנית.</span>
+                        <button type="button" onClick={() => removeBinding(binding.id)} className="text-red-500 hover:text-red-700 p-1" title="מחיקת הקישור">
+                            <Trash2 size={14} />
+                        </button>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default ObjectiveBindingsEditor;
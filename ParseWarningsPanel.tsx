@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+import type { ParseIssue } from '../types';
+import { AlertCircle, ChevronDown, X } from 'lucide-react';
+
+interface ParseWarningsPanelProps {
+    fileName: string;
+    warnings: ParseIssue[];
+    onDismiss: () => void;
+}
+
+const ParseWarningsPanel: React.FC<ParseWarningsPanelProps> = ({ fileName, warnings, onDismiss }) => {
+    const [isOpen, setIsOpen] = useState(warnings.length <= 5);
+
+    if (warnings.length === 0) return null;
+
+    return (
+        <div className="max-w-7xl mx-auto px-4 md:px-8 pt-4">
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+                <div className="flex justify-between items-center">
+                    <button type="button" onClick={() => setIsOpen(!isOpen)} className="flex items-center gap-2 text-yellow-800 font-semibold">
+                        <AlertCircle className="w-5 h-5" />
+                        נמצאו {warnings.length} בעיות מבנה בקובץ "{fileName}". מומלץ לבדוק את השורות הבאות בקובץ המקור.
+                        <ChevronDown className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+                    </button>
+                    <button type="button" onClick={onDismiss} className="text-yellow-700 hover:text-yellow-900 p-1 rounded-full" aria-label="סגירה">
+                        <X size={16} />
+                    </button>
+                </div>
+                {isOpen && (
+                    <ul className="mt-3 space-y-1 text-sm text-yellow-900 max-h-48 overflow-y-auto">
+                        {warnings.map((warning, index) => (
+                            <li key={index}>
+                                <span className="font-semibold">שורה {warning.row}{warning.column !== undefined && `, עמודה ${warning.column}`}:</span> {warning.message}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ParseWarningsPanel;
@@ -0,0 +1,122 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { Issue, PrioritizationSettings } from '../types';
+import {
+    DEFAULT_PRIORITIZATION_SETTINGS, SEVERITY_LABELS, describePrioritization, validatePrioritizationSettings, isDefaultPrioritization,
+} from '../services/prioritizationService';
+import { ArrowUp, ArrowDown, RotateCcw, Check } from 'lucide-react';
+
+interface PrioritizationSettingsPanelProps {
+    settings: PrioritizationSettings;
+    onApply: (settings: PrioritizationSettings) => void;
+    /** Ranks the issues under the given settings, for the preview. */
+    rankIssues: (settings: PrioritizationSettings) => Issue[];
+}
+
+const FIELDS: { key: keyof PrioritizationSettings; label: string; step: number; min: number; max: number }[] = [
+    { key: 'scopeWeight', label: 'משקל היקף (שיעור בתי הספר המושפעים)', step: 0.05, min: 0, max: 1 },
+    { key: 'severityWeight', label: 'משקל חומרה (שיעור הציונים הנמוכים)', step: 0.05, min: 0, max: 1 },
+    { key: 'criticalThreshold', label: 'סף "קריטי"', step: 0.01, min: 0, max: 1 },
+    { key: 'highThreshold', label: 'סף "גבוה"', step: 0.01, min: 0, max: 1 },
+    { key: 'mediumThreshold', label: 'סף "בינוני"', step: 0.01, min: 0, max: 1 },
+    { key: 'lowScoreMax', label: 'ציון נמוך: עד', step: 1, min: 1, max: 3 },
+];
+
+const PrioritizationSettingsPanel: React.FC<PrioritizationSettingsPanelProps> = ({ settings, onApply, rankIssues }) => {
+    const [draft, setDraft] = useState<PrioritizationSettings>(settings);
+    useEffect(() => setDraft(settings), [settings]);
+
+    const errors = validatePrioritizationSettings(draft);
+    const currentRanking = useMemo(() => rankIssues(settings), [rankIssues, settings]);
+    // The preview keeps the current ranking while the draft is invalid.
+    const previewRanking = useMemo(() => errors.length > 0 ? currentRanking : rankIssues(draft), [rankIssues, draft, errors.length, currentRanking]);
+    const isChanged = (Object.keys(draft) as (keyof PrioritizationSettings)[]).some(key => draft[key] !== settings[key]);
+
+    return (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-sm space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                {FIELDS.map(field => (
+                    <label key={field.key} className="flex flex-col gap-1 text-gray-700">
+                        {field.label}
+                        <input
+                            type="number"
+                            step={field.step}
+                            min={field.min}
+                            max={field.max}
+                            value={draft[field.key]}
+                            onChange={(e) => setDraft({ ...draft, [field.key]: parseFloat(e.target.value) || 0 })}
+                            className="p-1 border border-gray-300 rounded-md w-28 bg-white"
+                        />
+                    </label>
+                ))}
+            </div>
+
+            {errors.length > 0 && (
+                <ul className="list-disc list-inside text-red-700">
+                    {errors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+            )}
+
+            <div>
+                <h4 className="font-bold text-gray-800 mb-1">הנוסחה</h4>
+                <ul className="list-disc list-inside text-gray-600 space-y-0.5">
+                    {describePrioritization(draft).map(line => <li key={line}>{line}</li>)}
+                </ul>
+            </div>
+
+            <div>
+                <h4 className="font-bold text-gray-800 mb-1">תצוגה מקדימה של הדירוג</h4>
+                <table className="w-full text-right border border-gray-200 bg-white">
+                    <thead className="bg-gray-100 text-gray-600">
+                        <tr>
+                            <th className="p-2">#</th>
+                            <th className="p-2">סוגיה</th>
+                            <th className="p-2">דחיפות</th>
+                            <th className="p-2">חומרה</th>
+                            <th className="p-2">שינוי במיקום</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {previewRanking.map((issue, index) => {
+                            const currentIndex = currentRanking.findIndex(i => i.id === issue.id);
+                            const moved = currentIndex === -1 ? 0 : currentIndex - index;
+                            return (
+                                <tr key={issue.id} className="border-t border-gray-200">
+                                    <td className="p-2">{index + 1}</td>
+                                    <td className="p-2">{issue.name}</td>
+                                    <td className="p-2">{issue.urgency}</td>
+                                    <td className="p-2">{SEVERITY_LABELS[issue.severity]}</td>
+                                    <td className="p-2">
+                                        {moved > 0 && <span className="flex items-center gap-1 text-green-700"><ArrowUp size={14} />{moved}</span>}
+                                        {moved < 0 && <span className="flex items-center gap-1 text-red-700"><ArrowDown size={14} />{-moved}</span>}
+                                        {moved === 0 && <span className="text-gray-400">—</span>}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="flex flex-wrap gap-2 justify-end">
+                <button
+                    type="button"
+                    onClick={() => setDraft(DEFAULT_PRIORITIZATION_SETTINGS)}
+                    disabled={isDefaultPrioritization(draft)}
+                    className="flex items-center gap-1 px-3 py-1.5 bg-white border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50"
+                >
+                    <RotateCcw size={14} /> ברירת המחדל
+                </button>
+                <button
+                    type="button"
+                    onClick={() => onApply(draft)}
+                    disabled={!isChanged || errors.length > 0}
+                    className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+                >
+                    <Check size={14} /> החל ושמור
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default PrioritizationSettingsPanel;
@@ -0,0 +1,77 @@
+import React from 'react';
+import type { SessionSummary, WizardStep } from '../types';
+import { Clock, Trash2, PlayCircle } from 'lucide-react';
+
+export const WIZARD_STEP_LABELS: Record<WizardStep, string> = {
+    'upload': 'העלאת נתונים',
+    'sheet-selection': 'בחירת גיליונות',
+    'column-mapping': 'מיפוי עמודות',
+    'data-mapping': 'מיפוי נתונים',
+    'analysis': 'ניתוח נתונים',
+    'focus-area-selection': 'בחירת תחומים',
+    'issue-selection': 'בחירת סוגיות',
+    'mtss-tiering': 'סיווג MTSS',
+    'supervisor-goals': 'מטרות ויעדים',
+    'plan': 'בניית תוכנית',
+    'monitoring': 'מעקב התקדמות',
+};
+
+interface RecentSessionsListProps {
+    sessions: SessionSummary[];
+    onResume: (sessionId: string) => void;
+    onDelete: (sessionId: string) => void;
+}
+
+const RecentSessionsList: React.FC<RecentSessionsListProps> = ({ sessions, onResume, onDelete }) => {
+    if (sessions.length === 0) return null;
+
+    const formatDate = (iso: string) => new Date(iso).toLocaleString('he-IL', { dateStyle: 'short', timeStyle: 'short' });
+
+    return (
+        <div className="max-w-4xl mx-auto px-8 pb-8">
+            <div className="bg-white rounded-2xl shadow-xl p-6 border border-gray-200">
+                <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+                    <Clock className="w-5 h-5 text-blue-600" />
+                    סשנים אחרונים
+                </h2>
+                <ul className="divide-y divide-gray-200">
+                    {sessions.map(session => (
+                        <li key={session.id} className="py-3 flex flex-wrap items-center justify-between gap-3">
+                            <div>
+                                <p className="font-bold text-gray-800">{session.name || 'סשן ללא שם'}</p>
+                                <p className="text-xs text-gray-500">
+                                    {[session.district, session.schoolYear].filter(Boolean).join(' | ')}
+                                    {(session.district || session.schoolYear) && ' | '}
+                                    {session.schoolCount} בתי ספר | שלב: {WIZARD_STEP_LABELS[session.currentStep]} | עודכן: {formatDate(session.updatedAt)}
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <button
+                                    type="button"
+                                    onClick={() => onResume(session.id)}
+                                    className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 text-white text-sm font-semibold rounded-md hover:bg-blue-700"
+                                >
+                                    <PlayCircle size={16} /> המשך
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => {
+                                        if (window.confirm(`האם למחוק את הסשן "${session.name || 'סשן ללא שם'}"?`)) {
+                                            onDelete(session.id);
+                                        }
+                                    }}
+                                    className="text-red-500 hover:text-red-700 p-1.5 rounded-full"
+                                    aria-label="מחיקת סשן"
+                                >
+                                    <Trash2 size={16} />
+                                </button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        </div>
+    );
+};
+
+export default RecentSessionsList;
@@ -0,0 +1,124 @@
+import React, { useState, useMemo, useRef } from 'react';
+import type { AllInterventionPlans, Issue, TieredSchools } from '../types';
+import { interventionPlanData } from '../data/interventionPlanData';
+import { buildSchoolPlan, highestTier, SchoolCommitment } from '../services/schoolPlanService';
+import { describeScope } from '../services/monitoringService';
+import { getEffectiveTier } from '../services/tieringRulesService';
+import { Printer, School as SchoolIcon } from 'lucide-react';
+
+interface SchoolPlanViewProps {
+    issues: Issue[];
+    plans: AllInterventionPlans;
+    tieredSchools: TieredSchools;
+    onPrint: (element: HTMLElement) => void;
+}
+
+const TIER_BADGE_STYLES: { [tier in 1 | 2 | 3]: string } = {
+    1: 'bg-green-100 text-green-800',
+    2: 'bg-yellow-100 text-yellow-800',
+    3: 'bg-red-100 text-red-800',
+};
+
+/**
+ * One document per school with everything the plans of all the selected issues ask of it, for its principal.
+ */
+const SchoolPlanView: React.FC<SchoolPlanViewProps> = ({ issues, plans, tieredSchools, onPrint }) => {
+    const schools = useMemo(
+        () => [...tieredSchools.tier1].sort((a, b) => getEffectiveTier(tieredSchools, b.id) - getEffectiveTier(tieredSchools, a.id) || a.name.localeCompare(b.name, 'he')),
+        [tieredSchools],
+    );
+    const [schoolId, setSchoolId] = useState<number | null>(schools[0]?.id ?? null);
+    const documentRef = useRef<HTMLDivElement>(null);
+
+    const school = schools.find(s => s.id === schoolId);
+    const schoolPlan = useMemo(() => school ? buildSchoolPlan(school, plans, issues, tieredSchools) : null, [school, plans, issues, tieredSchools]);
+
+    const issueTitle = (issueId: string) => interventionPlanData[issueId]?.title || issues.find(issue => issue.id === issueId)?.name || issueId;
+    const describeSource = (source: SchoolCommitment) => `${issueTitle(source.issueId)} · ${describeScope(source.scope, source.tier)}`;
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3 no-print">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <SchoolIcon size={18} className="text-blue-600" /> בית ספר:
+                    <select
+                        value={schoolId ?? ''}
+                        onChange={(e) => setSchoolId(Number(e.target.value))}
+                        className="p-2 border border-gray-300 rounded-md bg-white min-w-[16rem]"
+                    >
+                        {schools.map(s => (
+                            <option key={s.id} value={s.id}>{s.name} (שכבה {getEffectiveTier(tieredSchools, s.id)})</option>
+                        ))}
+                    </select>
+                </label>
+                <button
+                    type="button"
+                    onClick={() => documentRef.current && onPrint(documentRef.current)}
+                    disabled={!schoolPlan}
+                    className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg shadow-md hover:bg-blue-700 transition disabled:bg-gray-400"
+                >
+                    <Printer size={16} /> הדפסת התוכנית של בית הספר
+                </button>
+            </div>
+
+            {schoolPlan && (
+                <div ref={documentRef}>
+                    <div className="plan-to-print bg-white p-8 rounded-lg shadow-lg border">
+                        <header className="border-b-2 border-gray-200 pb-4 mb-6">
+                            <h1 className="text-3xl font-extrabold text-gray-800">תוכנית עבודה מאוחדת: {schoolPlan.school.name}</h1>
+                            <p className="text-gray-600 mt-1">
+                                {schoolPlan.school.principal && <>מנהל/ת: {schoolPlan.school.principal} · </>}
+                                שכבת תמיכה: {highestTier(schoolPlan)} · {new Set(schoolPlan.commitments.map(c => c.issueId)).size} סוגיות
+                            </p>
+                        </header>
+
+                        <section className="mb-6 break-inside-avoid">
+                            <h2 className="text-xl font-bold text-blue-800 mb-2">התוכניות שבית הספר שותף להן</h2>
+                            <ul className="flex flex-wrap gap-2 text-sm">
+                                {schoolPlan.commitments.map((commitment, index) => (
+                                    <li key={index} className={`px-2 py-1 rounded-md ${TIER_BADGE_STYLES[commitment.tier]}`}>{describeSource(commitment)}</li>
+                                ))}
+                            </ul>
+                        </section>
+
+                        {schoolPlan.principalGoals.length > 0 && (
+                            <section className="mb-6 break-inside-avoid">
+                                <h2 className="text-xl font-bold text-blue-800 mb-2">מטרות המנהל/ת</h2>
+                                <ul className="list-disc list-inside text-gray-800 space-y-1">
+                                    {schoolPlan.principalGoals.map(goal => (
+                                        <li key={goal.text}>{goal.text} <span className="text-xs text-gray-500">({goal.issueIds.map(issueTitle).join(' | ')})</span></li>
+                                    ))}
+                                </ul>
+                            </section>
+                        )}
+
+                        {schoolPlan.sections.filter(section => section.items.length > 0).map(section => (
+                            <section key={section.key} className="mb-6 break-inside-avoid">
+                                <h2 className="text-xl font-bold text-blue-800 mb-2">{section.title}</h2>
+                                <ul className="space-y-2">
+                                    {section.items.map(item => (
+                                        <li key={item.text} className="text-gray-800">
+                                            <span className="flex items-start gap-2">
+                                                <span className={`mt-1.5 inline-block w-2 h-2 rounded-full flex-shrink-0 ${item.sources.some(s => s.tier === 3) ? 'bg-red-500' : item.sources.some(s => s.tier === 2) ? 'bg-yellow-400' : 'bg-green-500'}`} />
+                                                <span>
+                                                    {item.text}
+                                                    <span className="block text-xs text-gray-500">{item.sources.map(describeSource).join(' | ')}</span>
+                                                </span>
+                                            </span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </section>
+                        ))}
+
+                        {schoolPlan.sections.every(section => section.items.length === 0) && (
+                            <p className="text-gray-500">עדיין לא הוגדרו בתוכניות פריטים החלים על בית ספר זה.</p>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SchoolPlanView;
@@ -1,14 +1,31 @@
-import React, { useMemo } from 'react';
-import { School } from '../types';
+import React, { useMemo, useRef } from 'react';
+import { School, SchoolYearSnapshot, CoverageRules } from '../types';
 import { SchoolReportCard as SchoolReportCardType } from '../types/schoolAssessmentTypes';
-import { HIERARCHICAL_CATEGORIES } from '../constants';
+import { ALL_SCORE_FIELDS, HIERARCHICAL_CATEGORIES, PERFORMANCE_TIER_LABELS } from '../constants';
+import { averageScore } from '../services/trendService';
+import { findPeerSchools, getWeakMetrics, metricLabel } from '../services/peerMatchingService';
+import { scoreCoverage, isSufficient, summarizeDomainScore, loadCoverageRules, INSUFFICIENT_DATA_HATCHING } from '../services/dataCoverageService';
+import { buildReportCardPdfDocument } from '../services/pdfDocumentService';
+import TrendBadge from './TrendBadge';
+import ExportControls from './ExportControls';
 
 interface DetailedSchoolReportProps {
     report: SchoolReportCardType;
+    /** The school's rows in earlier years, oldest first (see getSchoolHistory). */
+    history?: SchoolYearSnapshot[];
+    currentSchoolYear?: string;
+    /** Schools to search for peer partners; matches are shown for tier 2 and 3 schools. */
+    peerCandidates?: School[];
+    /** Minimum coverage and imputation; defaults to the user's saved rules. */
+    coverageRules?: CoverageRules;
 }
 
-const DetailedSchoolReport: React.FC<DetailedSchoolReportProps> = ({ report }) => {
+const DetailedSchoolReport: React.FC<DetailedSchoolReportProps> = ({ report, history = [], currentSchoolYear, peerCandidates = [], coverageRules }) => {
     const { school } = report;
+    const rules = useMemo(() => coverageRules || loadCoverageRules(), [coverageRules]);
+    const overallCoverage = scoreCoverage([school], ALL_SCORE_FIELDS as string[]);
+    const previous = history.length > 0 ? history[history.length - 1] : null;
+    const reportRef = useRef<HTMLDivElement>(null);
 
     const getScoreColor = (score: number) => {
         if (score >= 3.2) return '#27ae60'; // green
@@ -19,9 +36,9 @@ const DetailedSchoolReport: React.FC<DetailedSchoolReportProps> = ({ report }) =
 
     const getTierInfo = (tier: number) => {
         switch (tier) {
-            case 1: return { text: 'תפקוד מצוין', color: '#27ae60' };
-            case 2: return { text: 'תפקוד בינוני', color: '#f39c12' };
-            case 3: return { text: 'תפקוד נמוך', color: '#e74c3c' };
+            case 1: return { text: PERFORMANCE_TIER_LABELS[1], color: '#27ae60' };
+            case 2: return { text: PERFORMANCE_TIER_LABELS[2], color: '#f39c12' };
+            case 3: return { text: PERFORMANCE_TIER_LABELS[3], color: '#e74c3c' };
             default: return { text: 'לא נקבע', color: '#7f8c8d' };
         }
     };
@@ -35,9 +52,22 @@ const DetailedSchoolReport: React.FC<DetailedSchoolReportProps> = ({ report }) =
         }, {} as Record<string, string[]>);
     }, [report.challenges]);
 
+    const peerMatches = useMemo(
+        () => report.performanceTier >= 2 ? findPeerSchools(school, peerCandidates) : [],
+        [school, peerCandidates, report.performanceTier]
+    );
+    const weakMetricCount = getWeakMetrics(school).length;
+
 
     return (
-        <div className="bg-white p-6 rounded-lg shadow-md font-sans">
+        <div ref={reportRef} className="bg-white p-6 rounded-lg shadow-md font-sans">
+            <div className="flex justify-end">
+                <ExportControls
+                    targetRef={reportRef}
+                    reportName={`דוח-אבחון-${school.name.replace(/[\\/:*?"<>|]/g, '')}`}
+                    pdfDocument={() => buildReportCardPdfDocument({ report, history, currentSchoolYear, peerCandidates, rules })}
+                />
+            </div>
             <h2 className="text-3xl font-bold text-center text-gray-800 mb-2">{school.name}</h2>
             <p className="text-center text-gray-600 mb-6">דוח אבחון בית ספרי</p>
             
@@ -45,6 +75,9 @@ const DetailedSchoolReport: React.FC<DetailedSchoolReportProps> = ({ report }) =
                 <div className="bg-gray-100 p-3 rounded-md"><strong>מנהל/ת:</strong> {school.principal}</div>
                 <div className="bg-gray-100 p-3 rounded-md"><strong>תלמידים:</strong> {school.students}</div>
                 <div className="bg-gray-100 p-3 rounded-md"><strong>רמת ליווי:</strong> {school.supportLevel}</div>
+                <div className="bg-gray-100 p-3 rounded-md" style={isSufficient(overallCoverage, rules.minSchoolCoverage) ? undefined : INSUFFICIENT_DATA_HATCHING}>
+                    <strong>כיסוי נתונים:</strong> {overallCoverage.percent.toFixed(0)}% ({overallCoverage.filled} מתוך {overallCoverage.total} מדדים)
+                </div>
                 <div className="bg-gray-100 p-3 rounded-md"><strong>רמת תפקוד:</strong> 
                     <span className="font-bold px-2 py-1 rounded-full text-white text-xs ml-2" style={{ backgroundColor: tierInfo.color }}>
                         {tierInfo.text}
@@ -75,18 +108,93 @@ const DetailedSchoolReport: React.FC<DetailedSchoolReportProps> = ({ report }) =
 
             <h3 className="text-xl font-bold text-gray-700 mb-4 border-b pb-2">ציונים לפי תחומי הערכה (ממוצע)</h3>
             <div className="space-y-2 mb-8">
-                {Object.entries(report.domainAverages).map(([domain, avg]) => (
-                    <div key={domain} className="grid grid-cols-[220px,1fr,40px] gap-2 items-center text-sm">
-                        <span className="font-semibold text-gray-600">{domain}</span>
-                        <div className="w-full bg-gray-200 rounded-full h-5">
-                            <div className="h-5 rounded-full text-white text-xs flex items-center pl-2" style={{ width: `${(avg / 4) * 100}%`, backgroundColor: getScoreColor(avg) }}>
+                {Object.entries(report.domainAverages).map(([domain, reportedAvg]) => {
+                    const { coverage, sufficient, imputed, average: avg } = summarizeDomainScore(school, domain, reportedAvg, rules);
+                    return (
+                        <div key={domain} className="grid grid-cols-[220px,1fr,40px,130px] gap-2 items-center text-sm">
+                            <span className="font-semibold text-gray-600">{domain}</span>
+                            <div className="w-full bg-gray-200 rounded-full h-5" style={sufficient ? undefined : INSUFFICIENT_DATA_HATCHING}>
+                                <div
+                                    className={`h-5 rounded-full text-white text-xs flex items-center pl-2 ${imputed > 0 ? 'opacity-60 border-2 border-dashed border-gray-700' : ''}`}
+                                    style={{ width: `${(avg / 4) * 100}%`, backgroundColor: getScoreColor(avg) }}
+                                >
+                                </div>
                             </div>
+                            <span className={`font-bold text-gray-800 text-left ${imputed > 0 ? 'italic' : ''}`}>{avg.toFixed(2)}</span>
+                            <span className={`text-xs ${sufficient ? 'text-gray-500' : 'text-red-600 font-semibold'}`}>
+                                {sufficient ? `כיסוי ${coverage.percent.toFixed(0)}%` : `אין מספיק נתונים (${coverage.percent.toFixed(0)}%)`}
+                                {imputed > 0 && ` · ${imputed} משוערים`}
+                            </span>
                         </div>
-                        <span className="font-bold text-gray-800 text-left">{avg.toFixed(2)}</span>
-                    </div>
-                ))}
+                    );
+                })}
             </div>
             
+            {history.length > 0 && (
+                <>
+                    <h3 className="text-xl font-bold text-gray-700 mb-4 border-b pb-2">מגמות לאורך השנים</h3>
+                    <div className="overflow-x-auto mb-8">
+                        <table className="min-w-full text-sm border border-gray-200">
+                            <thead className="bg-gray-100 text-gray-600">
+                                <tr>
+                                    <th className="p-2 text-right">תת-תחום</th>
+                                    {history.map(snapshot => <th key={snapshot.schoolYear} className="p-2 text-center">{snapshot.schoolYear}</th>)}
+                                    <th className="p-2 text-center">{currentSchoolYear || 'נוכחי'}</th>
+                                    <th className="p-2 text-center">שינוי מאז {previous?.schoolYear}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {HIERARCHICAL_CATEGORIES.flatMap(category => category.subCategories).map(subCat => {
+                                    const fields = subCat.metrics.map(m => m.key);
+                                    const current = averageScore(school, fields);
+                                    const last = previous ? averageScore(previous.school, fields) : null;
+                                    return (
+                                        <tr key={subCat.key} className="border-t border-gray-200">
+                                            <td className="p-2 font-semibold text-gray-700">{subCat.name}</td>
+                                            {history.map(snapshot => {
+                                                const avg = averageScore(snapshot.school, fields);
+                                                return <td key={snapshot.schoolYear} className="p-2 text-center">{avg !== null ? avg.toFixed(2) : '—'}</td>;
+                                            })}
+                                            <td className="p-2 text-center font-bold">{current !== null ? current.toFixed(2) : '—'}</td>
+                                            <td className="p-2 text-center">
+                                                {current !== null && last !== null ? <TrendBadge delta={current - last} sinceYear={previous?.schoolYear} /> : '—'}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            )}
+
+            {peerMatches.length > 0 && (
+                <>
+                    <h3 className="text-xl font-bold text-gray-700 mb-4 mt-8 border-b pb-2">בתי ספר עמיתים מומלצים</h3>
+                    <p className="text-sm text-gray-600 mb-3">בתי ספר שקיבלו 3-4 במדדים שבהם בית ספר זה קיבל 2 ומטה, מדורגים לפי כיסוי המדדים, דמיון בפרופיל, מספר תלמידים ורמת ליווי.</p>
+                    <div className="space-y-3">
+                        {peerMatches.map(match => (
+                            <details key={match.school.id} className="bg-gray-50 p-3 rounded-lg border border-gray-200 text-sm">
+                                <summary className="cursor-pointer flex flex-wrap justify-between gap-2">
+                                    <span className="font-semibold text-gray-800">{match.school.name}</span>
+                                    <span className="text-gray-600">
+                                        חזק ב-{match.strongMetrics.length} מתוך {weakMetricCount} המדדים החלשים
+                                        {' | '}דמיון בפרופיל {Math.round(match.profileSimilarity * 100)}%
+                                        {match.school.students && ` | ${match.school.students} תלמידים`}
+                                        {match.sameSupportLevel && ' | אותה רמת ליווי'}
+                                    </span>
+                                </summary>
+                                <ul className="list-disc list-inside mt-2 space-y-1 text-green-800">
+                                    {match.strongMetrics.map(field => (
+                                        <li key={field}>{metricLabel(field)} (כאן {school[field]}, שם {match.school[field]})</li>
+                                    ))}
+                                </ul>
+                            </details>
+                        ))}
+                    </div>
+                </>
+            )}
+
             <h3 className="text-xl font-bold text-gray-700 mb-4 mt-8 border-b pb-2">פירוט מלא לפי תחומי הערכה</h3>
             <div className="space-y-8">
                 {HIERARCHICAL_CATEGORIES.map(category => (
@@ -99,12 +207,28 @@ const DetailedSchoolReport: React.FC<DetailedSchoolReportProps> = ({ report }) =
                                 const subCatAvg = subCatScores.length > 0 ? subCatScores.reduce((a,b) => a+b, 0) / subCatScores.length : 0;
                                 
                                 const challenges = challengesBySubCategory[subCat.name] || [];
+                                const previousAvg = previous ? averageScore(previous.school, subCat.metrics.map(m => m.key)) : null;
+                                const changedMetrics = previous ? subCat.metrics.filter(m => {
+                                    const before = parseInt(previous.school[m.key] as string, 10);
+                                    const now = parseInt(school[m.key] as string, 10);
+                                    return before > 0 && now > 0 && before !== now;
+                                }) : [];
+
+                                const subCatSufficient = isSufficient(scoreCoverage([school], subCat.metrics.map(m => m.key)), rules.minSchoolCoverage);
 
                                 return (
-                                    <div key={subCat.key} className="bg-gray-50 p-4 rounded-lg border border-gray-200">
+                                    <div key={subCat.key} className="bg-gray-50 p-4 rounded-lg border border-gray-200" style={subCatSufficient ? undefined : INSUFFICIENT_DATA_HATCHING}>
                                         <div className="flex justify-between items-start">
-                                            <span className="font-semibold text-gray-700 text-md">{subCat.name}</span>
-                                             <span className="text-2xl font-bold" style={{ color: getScoreColor(subCatAvg) }}>{subCatAvg.toFixed(1)}</span>
+                                            <span className="font-semibold text-gray-700 text-md">
+                                                {subCat.name}
+                                                <span className={`block text-xs font-normal ${subCatSufficient ? 'text-gray-500' : 'text-red-600'}`}>
+                                                    {subCatScores.length} מתוך {subCat.metrics.length} מדדים מולאו{!subCatSufficient && ' · אין מספיק נתונים'}
+                                                </span>
+                                            </span>
+                                            <span className="flex items-center gap-3">
+                                                {previousAvg !== null && subCatScores.length > 0 && <TrendBadge delta={subCatAvg - previousAvg} sinceYear={previous?.schoolYear} />}
+                                                <span className="text-2xl font-bold" style={{ color: getScoreColor(subCatAvg) }}>{subCatAvg.toFixed(1)}</span>
+                                            </span>
                                         </div>
                                         <div className="mt-2 pl-4">
                                             {challenges.length > 0 ? (
@@ -117,6 +241,23 @@ const DetailedSchoolReport: React.FC<DetailedSchoolReportProps> = ({ report }) =
                                                     </ul>
                                                 </div>
                                             ) : <p className="text-sm text-gray-500 italic mt-1">לא זוהו אתגרים בתחום זה</p>}
+                                            {changedMetrics.length > 0 && (
+                                                <details className="mt-2 text-sm">
+                                                    <summary className="cursor-pointer text-gray-600 font-semibold">מדדים שהשתנו מאז {previous?.schoolYear} ({changedMetrics.length})</summary>
+                                                    <ul className="mt-1 space-y-1">
+                                                        {changedMetrics.map(metric => {
+                                                            const before = parseInt(previous!.school[metric.key] as string, 10);
+                                                            const now = parseInt(school[metric.key] as string, 10);
+                                                            return (
+                                                                <li key={metric.key} className="flex justify-between gap-3">
+                                                                    <span className="text-gray-700">{metric.name}</span>
+                                                                    <span className="whitespace-nowrap">{before} ← {now} <TrendBadge delta={now - before} /></span>
+                                                                </li>
+                                                            );
+                                                        })}
+                                                    </ul>
+                                                </details>
+                                            )}
                                         </div>
                                     </div>
                                 );
@@ -0,0 +1,63 @@
+import React from 'react';
+import type { SessionMetadata } from '../types';
+import { Save, AlertCircle, Download } from 'lucide-react';
+
+interface SessionDetailsBarProps {
+    metadata: SessionMetadata;
+    onChange: (metadata: SessionMetadata) => void;
+    lastSavedAt: string | null;
+    saveError: string | null;
+    onExportProject: () => void;
+}
+
+const SessionDetailsBar: React.FC<SessionDetailsBarProps> = ({ metadata, onChange, lastSavedAt, saveError, onExportProject }) => {
+    const handleFieldChange = (field: keyof SessionMetadata, value: string) => {
+        onChange({ ...metadata, [field]: value });
+    };
+
+    return (
+        <div className="bg-white border-b border-gray-200 shadow-sm no-print">
+            <div className="max-w-7xl mx-auto px-4 md:px-8 py-2 flex flex-wrap items-center gap-3 text-sm">
+                <input
+                    type="text"
+                    value={metadata.name}
+                    onChange={(e) => handleFieldChange('name', e.target.value)}
+                    placeholder="שם הסשן"
+                    className="p-1.5 border border-gray-300 rounded-md font-semibold w-56"
+                />
+                <input
+                    type="text"
+                    value={metadata.district}
+                    onChange={(e) => handleFieldChange('district', e.target.value)}
+                    placeholder="מחוז / אשכול"
+                    className="p-1.5 border border-gray-300 rounded-md w-40"
+                />
+                <input
+                    type="text"
+                    value={metadata.schoolYear}
+                    onChange={(e) => handleFieldChange('schoolYear', e.target.value)}
+                    placeholder='שנת לימודים (למשל תשפ"ו)'
+                    className="p-1.5 border border-gray-300 rounded-md w-44"
+                />
+                <div className="flex-grow" />
+                {saveError ? (
+                    <span className="flex items-center gap-1 text-red-600"><AlertCircle size={14} /> {saveError}</span>
+                ) : lastSavedAt && (
+                    <span className="flex items-center gap-1 text-gray-500">
+                        <Save size={14} /> נשמר אוטומטית ב-{new Date(lastSavedAt).toLocaleTimeString('he-IL', { hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                )}
+                <button
+                    type="button"
+                    onClick={onExportProject}
+                    className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-100 text-gray-700 font-semibold rounded-md border border-gray-300 hover:bg-gray-200"
+                    title="שמירת הסשן כקובץ פרויקט שניתן להעביר לעמית/ה או למחוז"
+                >
+                    <Download size={14} /> ייצוא קובץ פרויקט (.mtss)
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default SessionDetailsBar;
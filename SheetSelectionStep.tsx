@@ -0,0 +1,167 @@
+import React, { useState, useMemo } from 'react';
+import type { RawDataTable, WorkbookSheet, SheetImportMode, SheetMergeKey } from '../types';
+import { appendSheets, mergeSheets } from '../services/sheetMergeService';
+import { ArrowLeft, ArrowRight, AlertCircle, Layers } from 'lucide-react';
+
+interface SheetSelectionStepProps {
+    fileName: string;
+    sheets: WorkbookSheet[];
+    onComplete: (table: RawDataTable) => void;
+    onBack: () => void;
+}
+
+const MAX_CONFLICTS_SHOWN = 50;
+
+const MODE_OPTIONS: { mode: SheetImportMode; label: string; description: string }[] = [
+    { mode: 'single', label: 'גיליון יחיד', description: 'ייבוא גיליון אחד בלבד מתוך הקובץ.' },
+    { mode: 'append', label: 'צירוף שורות', description: 'כל גיליון מכיל בתי ספר אחרים (למשל גיליון לכל אשכול). השורות מצורפות זו לזו.' },
+    { mode: 'merge', label: 'מיזוג לפי בית ספר', description: 'כל גיליון מכיל תחום אחר של אותם בתי ספר (למשל הנהגה, פדגוגיה, אקלים). השורות מאוחדות לפי שם או סמל מוסד.' },
+];
+
+const SheetSelectionStep: React.FC<SheetSelectionStepProps> = ({ fileName, sheets, onComplete, onBack }) => {
+    const [mode, setMode] = useState<SheetImportMode>('merge');
+    const [singleSheet, setSingleSheet] = useState(sheets[0].name);
+    const [selectedSheets, setSelectedSheets] = useState<string[]>(sheets.map(s => s.name));
+    const [mergeKey, setMergeKey] = useState<SheetMergeKey>('name');
+
+    const chosenSheets = useMemo(
+        () => mode === 'single' ? sheets.filter(s => s.name === singleSheet) : sheets.filter(s => selectedSheets.includes(s.name)),
+        [mode, sheets, singleSheet, selectedSheets]
+    );
+
+    const mergeResult = useMemo(() => mode === 'merge' ? mergeSheets(chosenSheets, mergeKey) : null, [mode, chosenSheets, mergeKey]);
+
+    const resultTable = useMemo((): RawDataTable => {
+        if (mergeResult) return mergeResult.table;
+        if (mode === 'append') return appendSheets(chosenSheets);
+        return chosenSheets[0]?.table || { headers: [], rows: [] };
+    }, [mode, chosenSheets, mergeResult]);
+
+    const toggleSheet = (name: string) => {
+        setSelectedSheets(prev => prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]);
+    };
+
+    const canContinue = resultTable.rows.length > 0 && (!mergeResult || mergeResult.sheetsMissingKey.length === 0);
+
+    return (
+        <div className="bg-white p-8 rounded-lg shadow-lg">
+            <header className="text-center mb-8">
+                <h1 className="text-3xl md:text-4xl font-bold text-gray-800">בחירת גיליונות</h1>
+                <p className="text-gray-500 mt-2 text-lg max-w-3xl mx-auto">
+                    הקובץ "{fileName}" מכיל {sheets.length} גיליונות עם נתונים. בחרו כיצד לייבא אותם.
+                </p>
+            </header>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                {MODE_OPTIONS.map(option => (
+                    <label key={option.mode} className={`cursor-pointer rounded-lg border-2 p-4 transition ${mode === option.mode ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'}`}>
+                        <input type="radio" name="sheet-import-mode" value={option.mode} checked={mode === option.mode} onChange={() => setMode(option.mode)} className="sr-only" />
+                        <p className="font-bold text-gray-800">{option.label}</p>
+                        <p className="text-sm text-gray-600 mt-1">{option.description}</p>
+                    </label>
+                ))}
+            </div>
+
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-6">
+                {mode === 'single' ? (
+                    <label className="flex items-center gap-3 text-sm font-semibold text-gray-700">
+                        גיליון:
+                        <select value={singleSheet} onChange={(e) => setSingleSheet(e.target.value)} className="p-1.5 border border-gray-300 rounded-md bg-white font-normal">
+                            {sheets.map(sheet => <option key={sheet.name} value={sheet.name}>{sheet.name} ({sheet.table.rows.length} שורות)</option>)}
+                        </select>
+                    </label>
+                ) : (
+                    <div className="space-y-3">
+                        <div className="flex flex-wrap gap-3">
+                            {sheets.map(sheet => (
+                                <label key={sheet.name} className="flex items-center gap-2 text-sm bg-white border border-gray-200 rounded-md px-3 py-1.5">
+                                    <input type="checkbox" checked={selectedSheets.includes(sheet.name)} onChange={() => toggleSheet(sheet.name)} />
+                                    {sheet.name} <span className="text-gray-400">({sheet.table.rows.length} שורות, {sheet.table.headers.length} עמודות)</span>
+                                </label>
+                            ))}
+                        </div>
+                        {mode === 'merge' && (
+                            <label className="flex items-center gap-3 text-sm font-semibold text-gray-700">
+                                איחוד לפי:
+                                <select value={mergeKey} onChange={(e) => setMergeKey(e.target.value as SheetMergeKey)} className="p-1.5 border border-gray-300 rounded-md bg-white font-normal">
+                                    <option value="name">שם בית הספר</option>
+                                    <option value="id">סמל מוסד</option>
+                                </select>
+                            </label>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            <div className="flex items-center gap-2 text-gray-700 font-semibold mb-4">
+                <Layers size={18} className="text-blue-600" />
+                תוצאה: {resultTable.rows.length} בתי ספר, {resultTable.headers.length} עמודות
+            </div>
+
+            {mergeResult && mergeResult.sheetsMissingKey.length > 0 && (
+                <div className="mb-4 flex items-center gap-2 text-sm text-red-800 bg-red-50 border border-red-200 rounded-md p-2">
+                    <AlertCircle size={16} />
+                    לא נמצאה עמודת {mergeKey === 'name' ? 'שם בית ספר' : 'סמל מוסד'} בגיליונות: {mergeResult.sheetsMissingKey.join(', ')}. יש לבטל את בחירתם או לבחור מפתח אחר.
+                </div>
+            )}
+            {mergeResult && mergeResult.rowsWithoutKey > 0 && (
+                <p className="mb-4 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md p-2">
+                    {mergeResult.rowsWithoutKey} שורות ללא {mergeKey === 'name' ? 'שם' : 'סמל מוסד'} יובאו כבתי ספר נפרדים.
+                </p>
+            )}
+            {mergeResult && mergeResult.conflicts.length > 0 && (
+                <div className="mb-4 border border-yellow-200 rounded-lg overflow-hidden">
+                    <p className="bg-yellow-50 text-yellow-900 text-sm font-semibold p-2">
+                        נמצאו {mergeResult.conflicts.length} התנגשויות: גיליונות שונים נותנים ערכים שונים לאותו שדה. נשמר הערך מהגיליון הראשון.
+                    </p>
+                    <div className="max-h-64 overflow-y-auto">
+                        <table className="min-w-full text-sm">
+                            <thead className="bg-gray-100 text-xs text-gray-600">
+                                <tr>
+                                    <th className="p-2 text-right">בית ספר</th>
+                                    <th className="p-2 text-right">עמודה</th>
+                                    <th className="p-2 text-right">ערכים</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {mergeResult.conflicts.slice(0, MAX_CONFLICTS_SHOWN).map((conflict, index) => (
+                                    <tr key={index} className="border-t border-gray-200">
+                                        <td className="p-2 font-semibold">{conflict.key}</td>
+                                        <td className="p-2">{conflict.header}</td>
+                                        <td className="p-2">
+                                            {conflict.values.map((v, i) => (
+                                                <span key={i} className={`inline-block ml-3 ${i === 0 ? 'font-semibold text-green-700' : 'text-gray-500 line-through'}`}>
+                                                    {v.value} <span className="text-xs">({v.sheetName})</span>
+                                                </span>
+                                            ))}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {mergeResult.conflicts.length > MAX_CONFLICTS_SHOWN && (
+                            <p className="text-xs text-gray-500 p-2">ועוד {mergeResult.conflicts.length - MAX_CONFLICTS_SHOWN} התנגשויות...</p>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            <div className="flex justify-between items-center mt-12 border-t pt-6">
+                <button onClick={onBack} className="flex items-center gap-2 px-6 py-3 bg-gray-200 text-gray-800 font-semibold rounded-lg shadow-sm hover:bg-gray-300 transition-colors">
+                    <ArrowRight size={18} />
+                    חזרה להעלאת קובץ
+                </button>
+                <button
+                    onClick={() => onComplete(resultTable)}
+                    disabled={!canContinue}
+                    className="flex items-center gap-2 px-8 py-4 bg-green-600 text-white font-bold rounded-lg shadow-lg hover:bg-green-700 transition-all transform hover:scale-105 disabled:bg-gray-400 disabled:cursor-not-allowed disabled:transform-none"
+                >
+                    המשך למיפוי עמודות
+                    <ArrowLeft size={20} />
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default SheetSelectionStep;
@@ -1,9 +1,9 @@
-import React, { useCallback, useState, useRef } from 'react';
-import type { School, Score, SupportLevel } from '../types';
-import { ALL_SCORE_FIELDS, HIERARCHICAL_CATEGORIES } from '../constants';
+import React, { useCallback, useState, useRef, useMemo } from 'react';
+import type { School, Score, SupportLevel, DataQualityIssue } from '../types';
+import { ALL_SCORE_FIELDS, HIERARCHICAL_CATEGORIES, SUPPORT_LEVELS } from '../constants';
+import { validateSchools, applyDataQualityFixes } from '../services/dataValidationService';
 import ExportControls from './ExportControls';
-
-const SUPPORT_LEVELS: SupportLevel[] = ['מלא', 'חלקי', 'מצומצם', 'מנהלים חדשים'];
+import DataQualityReport from './DataQualityReport';
 
 // Props for SchoolRow
 interface SchoolRowProps {
@@ -23,6 +23,15 @@ const SchoolRow: React.FC<SchoolRowProps> = React.memo(({ school, onUpdate, onRe
                     placeholder="שם ביה'ס"
                     className="w-32 p-2 border border-gray-300 rounded-md text-sm"
                 />
+            </td>
+            <td className="p-1 border-b border-gray-200 align-top">
+                <input
+                    type="text"
+                    value={school.institutionCode || ''}
+                    onChange={(e) => onUpdate(school.id, 'institutionCode', e.target.value)}
+                    placeholder="סמל מוסד"
+                    className="w-24 p-2 border border-gray-300 rounded-md text-sm"
+                />
             </td>
              <td className="p-1 border-b border-gray-200 align-top">
                 <input
@@ -98,7 +107,7 @@ const Step1_DataMapping: React.FC<Step1Props> = ({ schools, setSchools, onComple
 
     const addSchool = useCallback(() => {
         const createEmptySchool = (id: number): School => {
-            const school: any = { id, name: '', principal: '', students: '', supportLevel: '', notes: '' };
+            const school: any = { id, name: '', institutionCode: '', principal: '', students: '', supportLevel: '', notes: '' };
             ALL_SCORE_FIELDS.forEach(field => {
                 school[field] = '';
             });
@@ -119,8 +128,22 @@ const Step1_DataMapping: React.FC<Step1Props> = ({ schools, setSchools, onComple
         setSchools(prev => prev.map(s => s.id === id ? { ...s, [field]: value } : s));
     }, [setSchools]);
 
+    const qualityIssues = useMemo(() => validateSchools(schools), [schools]);
+
+    const handleApplyFixes = useCallback((issues: DataQualityIssue[]) => {
+        setSchools(prev => applyDataQualityFixes(prev, issues));
+    }, [setSchools]);
+
+    const handleContinue = useCallback(() => {
+        const errorCount = qualityIssues.filter(i => i.severity === 'error').length;
+        if (errorCount > 0 && !window.confirm(`נמצאו ${errorCount} שגיאות בנתונים. ערכים שגויים לא ייכללו בניתוח. להמשיך בכל זאת?`)) {
+            return;
+        }
+        onComplete();
+    }, [qualityIssues, onComplete]);
+
     const handleExportCSV = useCallback(() => {
-        const baseHeaders = ['שם בית הספר', 'מנהל/ת', 'מספר תלמידים', 'רמת ליווי'];
+        const baseHeaders = ['שם בית הספר', 'סמל מוסד', 'מנהל/ת', 'מספר תלמידים', 'רמת ליווי'];
         const scoreHeaders = ALL_SCORE_FIELDS.map(field => {
             for (const cat of HIERARCHICAL_CATEGORIES) {
                 for (const subCat of cat.subCategories) {
@@ -137,6 +160,7 @@ const Step1_DataMapping: React.FC<Step1Props> = ({ schools, setSchools, onComple
         const csvRows = schools.map(school => {
             const row = [
                 school.name,
+                school.institutionCode,
                 school.principal,
                 school.students,
                 school.supportLevel,
@@ -165,12 +189,14 @@ const Step1_DataMapping: React.FC<Step1Props> = ({ schools, setSchools, onComple
                 </p>
             </header>
 
+            <DataQualityReport issues={qualityIssues} onApplyFixes={handleApplyFixes} />
+
             <div ref={tableContainerRef} className="data-mapping-table-container overflow-x-auto border border-gray-200 rounded-lg shadow-md bg-white">
                 <table className="min-w-full bg-white text-sm" style={{ tableLayout: 'fixed' }}>
                      <thead className="bg-gray-100 sticky top-0 z-20 text-xs">
                         {/* Main Category Row */}
                         <tr>
-                            <th colSpan={4} rowSpan={3} className="p-2 text-center border-b-2 border-gray-300 font-bold sticky right-0 bg-gray-100 z-30">פרטי בית הספר</th>
+                            <th colSpan={5} rowSpan={3} className="p-2 text-center border-b-2 border-gray-300 font-bold sticky right-0 bg-gray-100 z-30">פרטי בית הספר</th>
                             {HIERARCHICAL_CATEGORIES.map(cat => (
                                 <th key={cat.name} colSpan={cat.subCategories.flatMap(sc => sc.metrics).length} className="p-2 text-center border-b-2 border-l border-gray-300 font-bold">
                                     {cat.name}
@@ -202,7 +228,7 @@ const Step1_DataMapping: React.FC<Step1Props> = ({ schools, setSchools, onComple
                             ))
                         ) : (
                             <tr>
-                                <td colSpan={6 + ALL_SCORE_FIELDS.length} className="text-center p-12 text-gray-500">
+                                <td colSpan={7 + ALL_SCORE_FIELDS.length} className="text-center p-12 text-gray-500">
                                     <h3 className="text-xl font-semibold">לא נטענו נתונים</h3>
                                     <p>חזור אחורה כדי לטעון קובץ או לחץ על "הוסף בית ספר" כדי להתחיל ידנית.</p>
                                 </td>
@@ -228,7 +254,7 @@ const Step1_DataMapping: React.FC<Step1Props> = ({ schools, setSchools, onComple
             </div>
 
             <div className="mt-8 text-center">
-                <button onClick={onComplete} disabled={schools.length === 0} className="px-8 py-4 bg-gradient-to-r from-green-500 to-teal-600 text-white text-lg font-bold rounded-lg shadow-xl hover:from-green-600 hover:to-teal-700 transition transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none">
+                <button onClick={handleContinue} disabled={schools.length === 0} className="px-8 py-4 bg-gradient-to-r from-green-500 to-teal-600 text-white text-lg font-bold rounded-lg shadow-xl hover:from-green-600 hover:to-teal-700 transition transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none">
                     המשך לניתוח נתונים ←
                 </button>
             </div>
@@ -1,189 +1,457 @@
 import React, { useState, useMemo } from 'react';
-import { SupervisorGoals, SuccessIndicators, SelectedGoals } from '../types';
+import { AllInterventionPlans, Issue, MonitoredIndicator, MonitoringStatus, MonitoringCheckIn, TieredSchools, HistoricalDataset } from '../types';
 import { indicatorsData } from '../data/indicatorsData';
-import { ArrowLeft, ArrowRight } from 'lucide-react';
+import {
+  MONITORING_STATUS_LABELS, listPlannedIndicators, syncIndicators, isInPlan, computeStatus, computeProgress, computeExpectedProgress,
+  rollUpStatus, describeScope, toIsoDate, StatusRollup,
+} from '../services/monitoringService';
+import { OBJECTIVE_STATUS_LABELS, ObjectiveStatus, listPlanScopes, evaluateObjective, fieldLabel } from '../services/objectiveService';
+import { importDatasetFile } from '../services/columnLayoutService';
+import VisitScheduler from './VisitScheduler';
+import { ArrowRight, RotateCcw, Plus, Trash2, Activity, Target, Upload } from 'lucide-react';
 
 interface Step7Props {
-  selectedGoals: SupervisorGoals;
-  onComplete: (indicators: SuccessIndicators) => void;
+  selectedIssues: Issue[];
+  plans: AllInterventionPlans;
+  /** Saves the support frequencies structured in the visit scheduler. */
+  onPlansChange: (plans: AllInterventionPlans) => void;
+  tieredSchools: TieredSchools;
+  indicators: MonitoredIndicator[];
+  onIndicatorsChange: (indicators: MonitoredIndicator[]) => void;
+  /** The follow-up measurement the bound objectives are checked against. */
+  followUpDataset: HistoricalDataset | null;
+  onFollowUpDatasetChange: (dataset: HistoricalDataset | null) => void;
   onBack: () => void;
+  onReset: () => void;
 }
 
-// Sub-component for a single goal's form
-const GoalIndicatorForm: React.FC<{
-  goal: string;
-  indicators: string[] | null;
-  selection: { predefined: string[]; custom: string };
-  onIndicatorChange: (goal: string, indicator: string, checked: boolean) => void;
-  onCustomChange: (goal: string, value: string) => void;
-}> = ({ goal, indicators, selection, onIndicatorChange, onCustomChange }) => {
+const TIERS: (1 | 2 | 3)[] = [1, 2, 3];
+
+const TIER_TITLES: { [tier in 1 | 2 | 3]: string } = {
+  1: 'שכבה 1 (אוניברסלית)',
+  2: 'שכבה 2 (תמיכה ממוקדת)',
+  3: 'שכבה 3 (התערבות אינטנסיבית)',
+};
+
+const STATUS_STYLES: { [status in MonitoringStatus]: string } = {
+  'on-track': 'bg-green-100 text-green-800 border-green-300',
+  'at-risk': 'bg-yellow-100 text-yellow-800 border-yellow-300',
+  'off-track': 'bg-red-100 text-red-800 border-red-300',
+  'no-data': 'bg-gray-100 text-gray-600 border-gray-300',
+};
+
+const StatusBadge: React.FC<{ status: MonitoringStatus }> = ({ status }) => (
+  <span className={`inline-block px-2 py-0.5 rounded-full border text-xs font-semibold whitespace-nowrap ${STATUS_STYLES[status]}`}>
+    {MONITORING_STATUS_LABELS[status]}
+  </span>
+);
+
+const RollupCell: React.FC<{ rollup: StatusRollup }> = ({ rollup }) => {
+  if (rollup.total === 0) return <span className="text-gray-400">—</span>;
   return (
-    <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
-      <p className="font-semibold text-gray-800 mb-3">{goal}</p>
-      <div className="space-y-2">
-        {indicators && indicators.map((indicator) => (
-          <label key={indicator} className="flex items-center text-sm text-gray-700 cursor-pointer">
-            <input
-              type="checkbox"
-              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-              checked={selection.predefined.includes(indicator)}
-              onChange={(e) => onIndicatorChange(goal, indicator, e.target.checked)}
-            />
-            <span className="mr-2">{indicator}</span>
-          </label>
-        ))}
-        <div className="flex items-center text-sm pt-2">
-          <span className="font-medium mr-6">אחר:</span>
+    <div className="flex flex-col items-start gap-0.5">
+      <StatusBadge status={rollup.status} />
+      <span className="text-xs text-gray-500">
+        {rollup.counts['on-track']} בתוואי · {rollup.counts['at-risk']} בסיכון · {rollup.counts['off-track']} חורגים{rollup.counts['no-data'] > 0 ? ` · ${rollup.counts['no-data']} ללא נתונים` : ''}
+      </span>
+    </div>
+  );
+};
+
+const OBJECTIVE_STATUS_STYLES: { [status in ObjectiveStatus]: string } = {
+  'achieved': 'bg-green-100 text-green-800 border-green-300',
+  'in-progress': 'bg-yellow-100 text-yellow-800 border-yellow-300',
+  'missed': 'bg-red-100 text-red-800 border-red-300',
+  'no-data': 'bg-gray-100 text-gray-600 border-gray-300',
+};
+
+const formatScore = (value: number | null): string => value !== null ? value.toFixed(2) : '—';
+
+// Sub-component for the objectives bound to score fields, measured on the follow-up dataset
+const ObjectiveResultsSection: React.FC<{
+  selectedIssues: Issue[];
+  plans: AllInterventionPlans;
+  tieredSchools: TieredSchools;
+  followUpDataset: HistoricalDataset | null;
+  onFollowUpDatasetChange: (dataset: HistoricalDataset | null) => void;
+  today: string;
+}> = ({ selectedIssues, plans, tieredSchools, followUpDataset, onFollowUpDatasetChange, today }) => {
+  const [label, setLabel] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const rows = listPlanScopes(plans, selectedIssues, tieredSchools).flatMap(planScope =>
+    (planScope.plan.objectiveBindings || [])
+      .filter(binding => binding.fields.length > 0)
+      .map(binding => ({ planScope, binding, result: evaluateObjective(binding, planScope.schools, followUpDataset, today) })));
+
+  const handleFile = async (file: File) => {
+    const measurement = label.trim();
+    if (!measurement) {
+      setError('יש להזין את מועד המדידה (למשל "אמצע שנה") לפני ההעלאה.');
+      return;
+    }
+    try {
+      setLoading(true);
+      setError(null);
+      onFollowUpDatasetChange(await importDatasetFile(file, measurement));
+      setLabel('');
+    } catch (error) {
+      setError(`שגיאה בטעינת הקובץ: ${(error as Error).message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="mb-8 overflow-x-auto">
+      <h2 className="text-xl font-bold text-gray-700 border-r-4 border-blue-500 pr-3 mb-3 flex items-center gap-2">
+        <Target size={20} /> יעדים מדידים מול ביצוע
+      </h2>
+      <div className="flex flex-wrap items-center gap-3 mb-3 text-sm">
+        {followUpDataset ? (
+          <span className="flex items-center gap-2 text-gray-700">
+            נתוני מעקב: <span className="font-bold">{followUpDataset.schoolYear}</span>
+            <span className="text-gray-500">| {followUpDataset.fileName} | {followUpDataset.schools.length} בתי ספר</span>
+            <button type="button" onClick={() => onFollowUpDatasetChange(null)} className="text-red-500 hover:text-red-700 p-1" title="הסרת נתוני המעקב">
+              <Trash2 size={14} />
+            </button>
+          </span>
+        ) : (
+          <span className="text-gray-600">העלו קובץ מדידה חוזרת כדי לחשב את הביצוע מול היעדים.</span>
+        )}
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder='מועד המדידה (למשל "סוף תשפ"ה")'
+          className="p-1.5 border border-gray-300 rounded-md w-52"
+        />
+        <label className={`flex items-center gap-2 px-3 py-1.5 font-semibold rounded-md cursor-pointer ${loading ? 'bg-gray-300 text-gray-600' : 'bg-blue-600 text-white hover:bg-blue-700'}`}>
+          <Upload size={16} /> {loading ? 'טוען...' : followUpDataset ? 'החלפת קובץ המעקב' : 'העלאת קובץ מעקב'}
           <input
-            type="text"
-            value={selection.custom}
-            onChange={(e) => onCustomChange(goal, e.target.value)}
-            placeholder="הגדר מדד מותאם אישית..."
-            className="flex-grow p-1 border-b border-gray-300 focus:border-blue-500 focus:outline-none bg-transparent"
+            type="file"
+            className="hidden"
+            accept=".xlsx,.xls,.csv"
+            disabled={loading}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) handleFile(file);
+            }}
           />
-        </div>
+        </label>
       </div>
+      {error && <p className="mb-3 text-sm text-red-700">{error}</p>}
+
+      {rows.length > 0 ? (
+        <table className="w-full text-right border border-gray-200 text-sm">
+          <thead className="bg-gray-100 text-gray-600">
+            <tr>
+              <th className="p-2">סוגיה</th>
+              <th className="p-2">היקף</th>
+              <th className="p-2">יעד מדיד</th>
+              <th className="p-2">מדדים</th>
+              <th className="p-2">בסיס</th>
+              <th className="p-2">יעד</th>
+              <th className="p-2">מועד</th>
+              <th className="p-2">בפועל</th>
+              <th className="p-2">סטטוס</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ planScope, binding, result }) => (
+              <tr key={`${planScope.issueId}-${planScope.tier}-${binding.id}-${planScope.scope.type === 'school' ? planScope.scope.schoolId : ''}`} className="border-t border-gray-200 align-top">
+                <td className="p-2 font-semibold text-gray-800">{selectedIssues.find(issue => issue.id === planScope.issueId)?.name}</td>
+                <td className="p-2 whitespace-nowrap">{describeScope(planScope.scope, planScope.tier)}</td>
+                <td className="p-2">{binding.objective}</td>
+                <td className="p-2 text-xs text-gray-600">{binding.fields.map(fieldLabel).join(', ')}</td>
+                <td className="p-2">{formatScore(binding.baseline)}</td>
+                <td className="p-2">{formatScore(binding.target)}</td>
+                <td className="p-2 whitespace-nowrap">{binding.deadline ? new Date(binding.deadline).toLocaleDateString('he-IL') : '—'}</td>
+                <td className="p-2">
+                  <span className="font-semibold">{formatScore(result.actual)}</span>
+                  {followUpDataset && (
+                    <span className={`block text-xs ${result.matchedSchools < result.totalSchools ? 'text-yellow-700' : 'text-gray-500'}`}>
+                      {result.matchedSchools} מתוך {result.totalSchools} בתי ספר
+                    </span>
+                  )}
+                  {result.progress !== null && <span className="block text-xs text-gray-500">{Math.round(result.progress * 100)}% מהדרך ליעד</span>}
+                </td>
+                <td className="p-2">
+                  <span className={`inline-block px-2 py-0.5 rounded-full border text-xs font-semibold whitespace-nowrap ${OBJECTIVE_STATUS_STYLES[result.status]}`}>
+                    {OBJECTIVE_STATUS_LABELS[result.status]}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="text-sm text-gray-600 bg-yellow-50 border border-yellow-200 p-3 rounded-md">
+          אף יעד מדיד לא קושר עדיין למדדים. ניתן לקשר יעדים למדדים בעורך התוכנית של כל שכבה.
+        </p>
+      )}
     </div>
   );
 };
 
-// Sub-component for rendering a whole section (General, Tier 1, etc.)
-const SectionRenderer: React.FC<{
-  title: string;
-  goals: SelectedGoals;
-  indicatorsData: string[] | null;
-  indicatorsState: SuccessIndicators;
-  handleIndicatorChange: (goal: string, indicator: string, checked: boolean) => void;
-  handleCustomChange: (goal: string, value: string) => void;
-}> = ({ title, goals, indicatorsData, indicatorsState, handleIndicatorChange, handleCustomChange }) => {
-  const allGoals = useMemo(() => {
-    const predefinedGoals = goals?.predefined || [];
-    // Fix: Added a type guard to ensure `g` is a string before calling `trim()`.
-    const customGoals = Object.values(goals?.custom || {}).filter(g => typeof g === 'string' && g.trim() !== '');
-    return [...predefinedGoals, ...customGoals];
-  }, [goals]);
-
-  if (allGoals.length === 0) {
-    return null;
-  }
+const parseNumber = (value: string): number | null => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+};
+
+// Sub-component for a single monitored success metric
+const IndicatorCard: React.FC<{
+  indicator: MonitoredIndicator;
+  today: string;
+  inPlan: boolean;
+  onChange: (indicator: MonitoredIndicator) => void;
+  onRemove: () => void;
+}> = ({ indicator, today, inPlan, onChange, onRemove }) => {
+  const [draft, setDraft] = useState<{ date: string; value: string; note: string }>({ date: today, value: '', note: '' });
+  const status = computeStatus(indicator, today);
+  const progress = computeProgress(indicator);
+  const expected = computeExpectedProgress(indicator, today);
+  const sortedCheckIns = [...indicator.checkIns].sort((a, b) => a.date.localeCompare(b.date));
+  const draftValue = parseNumber(draft.value);
+
+  const addCheckIn = () => {
+    if (draftValue === null || !draft.date) return;
+    const checkIn: MonitoringCheckIn = { date: draft.date, value: draftValue, note: draft.note.trim() };
+    onChange({ ...indicator, checkIns: [...indicator.checkIns, checkIn] });
+    setDraft({ date: today, value: '', note: '' });
+  };
+
+  const removeCheckIn = (checkIn: MonitoringCheckIn) =>
+    onChange({ ...indicator, checkIns: indicator.checkIns.filter(c => c !== checkIn) });
 
   return (
-    <div className="space-y-4">
-      <h3 className="text-xl font-bold text-gray-700 border-r-4 border-blue-500 pr-3">{title}</h3>
-      <div className="space-y-4">
-        {allGoals.map((goal) => (
-          <GoalIndicatorForm
-            key={goal} // Using the goal string itself as a stable key
-            goal={goal}
-            indicators={indicatorsData}
-            selection={indicatorsState[goal] || { predefined: [], custom: '' }}
-            onIndicatorChange={handleIndicatorChange}
-            onCustomChange={handleCustomChange}
+    <div className="bg-gray-50 p-4 rounded-lg border border-gray-200 space-y-3">
+      <div className="flex flex-wrap justify-between items-start gap-2">
+        <div>
+          <p className="font-semibold text-gray-800">{indicator.metric}</p>
+          <p className="text-xs text-gray-500">{describeScope(indicator.scope, indicator.tier)}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <StatusBadge status={status} />
+          {!inPlan && (
+            <button type="button" onClick={onRemove} className="text-red-600 hover:text-red-800" title="הסרת המדד מהמעקב">
+              <Trash2 size={16} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+        <label className="flex flex-col gap-1 text-gray-700">
+          ערך בסיס
+          <input
+            type="number"
+            step="any"
+            value={indicator.baseline ?? ''}
+            onChange={(e) => onChange({ ...indicator, baseline: parseNumber(e.target.value) })}
+            className="p-1 border border-gray-300 rounded-md bg-white"
           />
-        ))}
+        </label>
+        <label className="flex flex-col gap-1 text-gray-700">
+          יעד
+          <input
+            type="number"
+            step="any"
+            value={indicator.target ?? ''}
+            onChange={(e) => onChange({ ...indicator, target: parseNumber(e.target.value) })}
+            className="p-1 border border-gray-300 rounded-md bg-white"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-700">
+          תחילת המעקב
+          <input
+            type="date"
+            value={indicator.startDate}
+            onChange={(e) => onChange({ ...indicator, startDate: e.target.value })}
+            className="p-1 border border-gray-300 rounded-md bg-white"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-700">
+          מועד יעד
+          <input
+            type="date"
+            value={indicator.dueDate}
+            onChange={(e) => onChange({ ...indicator, dueDate: e.target.value })}
+            className="p-1 border border-gray-300 rounded-md bg-white"
+          />
+        </label>
+      </div>
+
+      {progress !== null ? (
+        <div>
+          <div className="relative h-3 bg-gray-200 rounded-full overflow-hidden" title={`התקדמות ${Math.round(progress * 100)}%, צפוי ${Math.round(expected * 100)}%`}>
+            <div className={`absolute inset-y-0 right-0 ${status === 'on-track' ? 'bg-green-500' : status === 'at-risk' ? 'bg-yellow-400' : 'bg-red-500'}`} style={{ width: `${Math.min(100, Math.max(0, progress * 100))}%` }} />
+            <div className="absolute inset-y-0 w-0.5 bg-gray-800" style={{ right: `${expected * 100}%` }} />
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            התקדמות {Math.round(progress * 100)}% מהדרך ליעד; לפי קצב אחיד היה צפוי {Math.round(expected * 100)}% עד היום.
+          </p>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">יש להזין ערך בסיס, יעד שונה ממנו ומדידה אחת לפחות כדי לחשב את הסטטוס.</p>
+      )}
+
+      <div>
+        <p className="text-sm font-semibold text-gray-700 mb-1">מדידות</p>
+        {sortedCheckIns.length > 0 && (
+          <table className="w-full text-sm text-right mb-2">
+            <tbody>
+              {sortedCheckIns.map((checkIn, index) => (
+                <tr key={index} className="border-t border-gray-200">
+                  <td className="p-1 whitespace-nowrap">{new Date(checkIn.date).toLocaleDateString('he-IL')}</td>
+                  <td className="p-1 font-semibold">{checkIn.value}</td>
+                  <td className="p-1 text-gray-600">{checkIn.note}</td>
+                  <td className="p-1 text-left">
+                    <button type="button" onClick={() => removeCheckIn(checkIn)} className="text-gray-400 hover:text-red-600" title="מחיקת המדידה">
+                      <Trash2 size={14} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <input type="date" value={draft.date} onChange={(e) => setDraft({ ...draft, date: e.target.value })} className="p-1 border border-gray-300 rounded-md bg-white" />
+          <input type="number" step="any" placeholder="ערך" value={draft.value} onChange={(e) => setDraft({ ...draft, value: e.target.value })} className="p-1 border border-gray-300 rounded-md bg-white w-24" />
+          <input type="text" placeholder="הערה (לא חובה)" value={draft.note} onChange={(e) => setDraft({ ...draft, note: e.target.value })} className="p-1 border border-gray-300 rounded-md bg-white flex-grow" />
+          <button
+            type="button"
+            onClick={addCheckIn}
+            disabled={draftValue === null || !draft.date}
+            className="flex items-center gap-1 px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            <Plus size={14} /> הוספת מדידה
+          </button>
+        </div>
       </div>
     </div>
   );
 };
 
 
-const Step7_SuccessIndicators: React.FC<Step7Props> = ({ selectedGoals, onComplete, onBack }) => {
-  const [indicators, setIndicators] = useState<SuccessIndicators>({});
-
-  const allSelectedGoalsFlat = useMemo(() => {
-    return [
-      ...(selectedGoals.general.predefined || []),
-      ...Object.values(selectedGoals.general.custom || {}),
-      ...(selectedGoals.tier1.predefined || []),
-      ...Object.values(selectedGoals.tier1.custom || {}),
-      ...(selectedGoals.tier2.predefined || []),
-      ...Object.values(selectedGoals.tier2.custom || {}),
-      ...(selectedGoals.tier3.predefined || []),
-      ...Object.values(selectedGoals.tier3.custom || {}),
-    ].filter(g => g && typeof g === 'string' && g.trim() !== '');
-  }, [selectedGoals]);
-
-  const handleIndicatorChange = (goal: string, indicator: string, checked: boolean) => {
-    setIndicators(prev => {
-      const currentSelection = prev[goal] || { predefined: [], custom: '' };
-      const newPredefined = checked
-        ? [...currentSelection.predefined, indicator]
-        : currentSelection.predefined.filter(i => i !== indicator);
-      return { ...prev, [goal]: { ...currentSelection, predefined: newPredefined } };
-    });
-  };
+const Step7_SuccessIndicators: React.FC<Step7Props> = ({ selectedIssues, plans, onPlansChange, tieredSchools, indicators, onIndicatorsChange, followUpDataset, onFollowUpDatasetChange, onBack, onReset }) => {
+  const today = useMemo(() => toIsoDate(new Date()), []);
 
-  const handleCustomChange = (goal: string, value: string) => {
-    setIndicators(prev => {
-      const currentSelection = prev[goal] || { predefined: [], custom: '' };
-      return { ...prev, [goal]: { ...currentSelection, custom: value } };
-    });
-  };
+  // The plan decides which success metrics are monitored; the tracked values are kept across plan edits.
+  const planned = useMemo(() => listPlannedIndicators(plans, selectedIssues, tieredSchools, today), [plans, selectedIssues, tieredSchools, today]);
+  const tracked = useMemo(() => syncIndicators(indicators, planned), [indicators, planned]);
+  const removedFromPlan = tracked.filter(indicator => !isInPlan(indicator, planned));
+
+  const handleIndicatorChange = (updated: MonitoredIndicator) =>
+    onIndicatorsChange(tracked.map(indicator => indicator.id === updated.id ? updated : indicator));
 
-  const isComplete = useMemo(() => {
-      // Allow proceeding even if no goals were selected in the previous step
-      if (allSelectedGoalsFlat.length === 0) return true; 
+  const handleIndicatorRemove = (id: string) =>
+    onIndicatorsChange(tracked.filter(indicator => indicator.id !== id));
 
-      return allSelectedGoalsFlat.every(goal => {
-          const selection = indicators[goal];
-          return selection && (selection.predefined.length > 0 || selection.custom.trim() !== '');
-      });
-  }, [indicators, allSelectedGoalsFlat]);
+  const inPlan = (issueId: string, tier?: 1 | 2 | 3) =>
+    tracked.filter(indicator => indicator.issueId === issueId && (tier === undefined || indicator.tier === tier) && isInPlan(indicator, planned));
 
   return (
     <div className="bg-white p-8 rounded-lg shadow-lg">
       <header className="text-center mb-8">
         <h1 className="text-3xl md:text-4xl font-bold text-gray-800">
-          שלב 7: הגדרת מדדי הצלחה (אינדיקטורים)
+          שלב 7: מעקב התקדמות במדדי ההצלחה
         </h1>
         <p className="text-gray-500 mt-2 text-lg max-w-3xl mx-auto">
-          לכל מטרה שנבחרה בשלב הקודם, הגדר/י מדד הצלחה כמותי או איכותני שישמש למדידת ההתקדמות.
+          לכל מדד הצלחה שנבחר בתוכנית, הגדר/י ערך בסיס, יעד ומועד, ועדכן/י מדידות תקופתיות. הסטטוס מחושב לפי קצב ההתקדמות הנדרש ומסוכם לפי שכבה וסוגיה.
         </p>
       </header>
 
-      <div className="space-y-8">
-        <SectionRenderer
-          title="מטרות כלליות"
-          goals={selectedGoals.general}
-          indicatorsData={indicatorsData.general}
-          indicatorsState={indicators}
-          handleIndicatorChange={handleIndicatorChange}
-          handleCustomChange={handleCustomChange}
-        />
-        <SectionRenderer
-          title="מטרות לשכבה 3 (התערבות אינטנסיבית)"
-          goals={selectedGoals.tier3}
-          indicatorsData={indicatorsData.tier3}
-          indicatorsState={indicators}
-          handleIndicatorChange={handleIndicatorChange}
-          handleCustomChange={handleCustomChange}
-        />
-        <SectionRenderer
-          title="מטרות לשכבה 2 (תמיכה ממוקדת)"
-          goals={selectedGoals.tier2}
-          indicatorsData={indicatorsData.tier2}
-          indicatorsState={indicators}
-          handleIndicatorChange={handleIndicatorChange}
-          handleCustomChange={handleCustomChange}
-        />
-        <SectionRenderer
-          title="מטרות לשכבה 1 (אוניברסלית)"
-          goals={selectedGoals.tier1}
-          indicatorsData={indicatorsData.tier1}
-          indicatorsState={indicators}
-          handleIndicatorChange={handleIndicatorChange}
-          handleCustomChange={handleCustomChange}
-        />
+      <div className="mb-8 overflow-x-auto">
+        <h2 className="text-xl font-bold text-gray-700 border-r-4 border-blue-500 pr-3 mb-3 flex items-center gap-2">
+          <Activity size={20} /> תמונת מצב
+        </h2>
+        <table className="w-full text-right border border-gray-200 text-sm">
+          <thead className="bg-gray-100 text-gray-600">
+            <tr>
+              <th className="p-2">סוגיה</th>
+              {TIERS.map(tier => <th key={tier} className="p-2">שכבה {tier}</th>)}
+              <th className="p-2">כלל הסוגיה</th>
+            </tr>
+          </thead>
+          <tbody>
+            {selectedIssues.map(issue => (
+              <tr key={issue.id} className="border-t border-gray-200 align-top">
+                <td className="p-2 font-semibold text-gray-800">{issue.name}</td>
+                {TIERS.map(tier => <td key={tier} className="p-2"><RollupCell rollup={rollUpStatus(inPlan(issue.id, tier), today)} /></td>)}
+                <td className="p-2"><RollupCell rollup={rollUpStatus(inPlan(issue.id), today)} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
       </div>
 
-       {allSelectedGoalsFlat.length === 0 && (
-          <div className="text-center bg-yellow-50 border border-yellow-200 p-6 rounded-lg mt-8">
-            <h2 className="text-xl font-semibold text-yellow-800">לא נבחרו מטרות</h2>
-            <p className="text-gray-600 mt-2">
-                נראה שלא נבחרו מטרות בשלב הקודם. ניתן לחזור אחורה או להמשיך לשלב הבא.
-            </p>
-          </div>
-       )}
+      <ObjectiveResultsSection
+        selectedIssues={selectedIssues}
+        plans={plans}
+        tieredSchools={tieredSchools}
+        followUpDataset={followUpDataset}
+        onFollowUpDatasetChange={onFollowUpDatasetChange}
+        today={today}
+      />
+
+      <VisitScheduler selectedIssues={selectedIssues} plans={plans} tieredSchools={tieredSchools} onPlansChange={onPlansChange} />
+
+      <div className="space-y-10">
+        {selectedIssues.map(issue => (
+          <section key={issue.id} className="space-y-6">
+            <h2 className="text-2xl font-bold text-blue-800">{issue.name}</h2>
+            {TIERS.map(tier => {
+              const tierIndicators = inPlan(issue.id, tier);
+              return (
+                <div key={tier} className="space-y-4">
+                  <h3 className="text-xl font-bold text-gray-700 border-r-4 border-blue-500 pr-3 flex items-center gap-3">
+                    {TIER_TITLES[tier]}
+                    {tierIndicators.length > 0 && <StatusBadge status={rollUpStatus(tierIndicators, today).status} />}
+                  </h3>
+                  {tierIndicators.length > 0 ? tierIndicators.map(indicator => (
+                    <IndicatorCard
+                      key={indicator.id}
+                      indicator={indicator}
+                      today={today}
+                      inPlan
+                      onChange={handleIndicatorChange}
+                      onRemove={() => handleIndicatorRemove(indicator.id)}
+                    />
+                  )) : (
+                    <div className="text-sm text-gray-600 bg-yellow-50 border border-yellow-200 p-3 rounded-md">
+                      <p>לא נבחרו מדדי הצלחה לשכבה זו בתוכנית. ניתן לחזור לתוכנית ולבחור, למשל:</p>
+                      <ul className="list-disc list-inside mt-1 text-gray-500">
+                        {indicatorsData[`tier${tier}` as 'tier1' | 'tier2' | 'tier3'].map(example => <li key={example}>{example}</li>)}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </section>
+        ))}
+
+        {removedFromPlan.length > 0 && (
+          <section className="space-y-4">
+            <h2 className="text-xl font-bold text-gray-700 border-r-4 border-gray-400 pr-3">מדדים שהוסרו מהתוכנית</h2>
+            <p className="text-sm text-gray-500">המדידות שנרשמו נשמרות עד שהמדד יוסר מהמעקב.</p>
+            {removedFromPlan.map(indicator => (
+              <IndicatorCard
+                key={indicator.id}
+                indicator={indicator}
+                today={today}
+                inPlan={false}
+                onChange={handleIndicatorChange}
+                onRemove={() => handleIndicatorRemove(indicator.id)}
+              />
+            ))}
+          </section>
+        )}
+      </div>
 
       <div className="flex justify-between items-center mt-12 border-t pt-6">
         <button
@@ -191,22 +459,17 @@ const Step7_SuccessIndicators: React.FC<Step7Props> = ({ selectedGoals, onComple
           className="flex items-center gap-2 px-6 py-3 bg-gray-200 text-gray-800 font-semibold rounded-lg shadow-sm hover:bg-gray-300 transition-colors"
         >
           <ArrowRight size={18} />
-          חזרה להגדרת מטרות ויעדים
+          חזרה לתוכנית ההתערבות
         </button>
         <button
-          onClick={() => onComplete(indicators)}
-          disabled={!isComplete}
-          className="flex items-center gap-2 px-8 py-4 bg-green-600 text-white font-bold rounded-lg shadow-lg hover:bg-green-700 transition-all transform hover:scale-105 disabled:bg-gray-400 disabled:cursor-not-allowed disabled:transform-none"
+          onClick={onReset}
+          className="flex items-center gap-2 px-6 py-3 bg-gray-500 text-white font-semibold rounded-lg shadow-md hover:bg-gray-600 transition"
         >
-          המשך לבניית תוכנית התערבות
-          <ArrowLeft size={20} />
+          <RotateCcw size={18} /> התחל מחדש
         </button>
       </div>
-       {!isComplete && allSelectedGoalsFlat.length > 0 && (
-          <p className="text-center text-sm text-yellow-700 mt-4 bg-yellow-50 p-2 rounded-md">יש להגדיר לפחות מדד הצלחה אחד עבור כל מטרה שנבחרה.</p>
-      )}
     </div>
   );
 };
 
-export default Step7_SuccessIndicators;
\ No newline at end of file
+export default Step7_SuccessIndicators;
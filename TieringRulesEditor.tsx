@@ -0,0 +1,278 @@
+import React, { useState } from 'react';
+import type { TieringRuleSet, TieringRule, TieringCondition, TieringComparison, SupportLevel } from '../types';
+import { SUPPORT_LEVELS } from '../constants';
+import {
+    DEFAULT_TIERING_RULE_SET, DOMAIN_NAMES, COMPARISON_LABELS, CONDITION_TYPE_LABELS,
+    createDefaultCondition, describeRuleSet, listTieringRuleSets, saveTieringRuleSet, deleteTieringRuleSet,
+} from '../services/tieringRulesService';
+import { SlidersHorizontal, Plus, Trash2, Save, Copy } from 'lucide-react';
+
+interface TieringRulesEditorProps {
+    ruleSet: TieringRuleSet;
+    onChange: (ruleSet: TieringRuleSet) => void;
+    /** Live preview of the rule set: number of schools in tiers 3 and 2, and the rest. */
+    preview: { tier3: number; tier2: number; tier1Only: number };
+}
+
+const DRAFT_RULE_SET_ID = 'draft';
+const CONDITION_TYPES = Object.keys(CONDITION_TYPE_LABELS) as TieringCondition['type'][];
+
+const ConditionEditor: React.FC<{ condition: TieringCondition; onChange: (condition: TieringCondition) => void }> = ({ condition, onChange }) => {
+    const comparisonSelect = (comparison: TieringComparison, value: number, step: number) => (
+        <>
+            <select
+                value={comparison}
+                onChange={(e) => onChange({ ...condition, comparison: e.target.value as TieringComparison } as TieringCondition)}
+                className="p-1 border border-gray-300 rounded-md bg-white"
+            >
+                {(Object.keys(COMPARISON_LABELS) as TieringComparison[]).map(c => <option key={c} value={c}>{COMPARISON_LABELS[c]}</option>)}
+            </select>
+            <input
+                type="number"
+                step={step}
+                min={0}
+                value={value}
+                onChange={(e) => onChange({ ...condition, value: parseFloat(e.target.value) || 0 } as TieringCondition)}
+                className="p-1 border border-gray-300 rounded-md w-20"
+            />
+        </>
+    );
+
+    switch (condition.type) {
+        case 'overall-average':
+            return comparisonSelect(condition.comparison, condition.value, 0.1);
+        case 'domain-average':
+            return (
+                <>
+                    <select
+                        value={condition.domain}
+                        onChange={(e) => onChange({ ...condition, domain: e.target.value })}
+                        className="p-1 border border-gray-300 rounded-md bg-white"
+                    >
+                        {DOMAIN_NAMES.map(domain => <option key={domain} value={domain}>{domain}</option>)}
+                    </select>
+                    {comparisonSelect(condition.comparison, condition.value, 0.1)}
+                </>
+            );
+        case 'low-score-count':
+            return comparisonSelect(condition.comparison, condition.value, 1);
+        case 'support-level':
+            return (
+                <span className="flex flex-wrap gap-2">
+                    {SUPPORT_LEVELS.map(level => (
+                        <label key={level} className="flex items-center gap-1">
+                            <input
+                                type="checkbox"
+                                checked={condition.levels.includes(level)}
+                                onChange={() => onChange({
+                                    ...condition,
+                                    levels: condition.levels.includes(level)
+                                        ? condition.levels.filter(l => l !== level)
+                                        : [...condition.levels, level as SupportLevel],
+                                })}
+                            />
+                            {level}
+                        </label>
+                    ))}
+                </span>
+            );
+        case 'new-principal':
+            return <span className="text-gray-500">לפי רמת ליווי "מנהלים חדשים" או החלפת מנהל/ת מאז השנה הקודמת</span>;
+    }
+};
+
+const RuleEditor: React.FC<{ title: string; rule: TieringRule; onChange: (rule: TieringRule) => void; colorClasses: string }> = ({ title, rule, onChange, colorClasses }) => {
+    const updateCondition = (index: number, condition: TieringCondition) => {
+        onChange({ ...rule, conditions: rule.conditions.map((c, i) => i === index ? condition : c) });
+    };
+
+    return (
+        <div className={`rounded-lg border-r-4 p-4 ${colorClasses}`}>
+            <div className="flex flex-wrap items-center gap-3 mb-3">
+                <h4 className="font-bold text-gray-800">{title}</h4>
+                <select
+                    value={rule.match}
+                    onChange={(e) => onChange({ ...rule, match: e.target.value as TieringRule['match'] })}
+                    className="p-1 border border-gray-300 rounded-md bg-white text-sm"
+                >
+                    <option value="any">מספיק שאחד התנאים מתקיים</option>
+                    <option value="all">כל התנאים מתקיימים</option>
+                </select>
+            </div>
+            <ul className="space-y-2 text-sm">
+                {rule.conditions.map((condition, index) => (
+                    <li key={index} className="flex flex-wrap items-center gap-2 bg-white rounded-md p-2 border border-gray-200">
+                        <span className="font-semibold w-36">{CONDITION_TYPE_LABELS[condition.type]}</span>
+                        <ConditionEditor condition={condition} onChange={(c) => updateCondition(index, c)} />
+                        <button
+                            type="button"
+                            onClick={() => onChange({ ...rule, conditions: rule.conditions.filter((_, i) => i !== index) })}
+                            className="mr-auto text-red-500 hover:text-red-700 p-1 rounded-full"
+                            aria-label="הסרת תנאי"
+                        >
+                            <Trash2 size={14} />
+                        </button>
+                    </li>
+                ))}
+                {rule.conditions.length === 0 && <li className="text-gray-500">אין תנאים. אף בית ספר לא ישויך לשכבה זו.</li>}
+            </ul>
+            <label className="mt-3 flex items-center gap-2 text-sm text-blue-700 font-semibold">
+                <Plus size={14} />
+                <select
+                    value=""
+                    onChange={(e) => {
+                        if (e.target.value) onChange({ ...rule, conditions: [...rule.conditions, createDefaultCondition(e.target.value as TieringCondition['type'])] });
+                    }}
+                    className="p-1 border border-gray-300 rounded-md bg-white font-normal"
+                >
+                    <option value="">הוספת תנאי...</option>
+                    {CONDITION_TYPES.map(type => <option key={type} value={type}>{CONDITION_TYPE_LABELS[type]}</option>)}
+                </select>
+            </label>
+        </div>
+    );
+};
+
+const TieringRulesEditor: React.FC<TieringRulesEditorProps> = ({ ruleSet, onChange, preview }) => {
+    const [savedRuleSets, setSavedRuleSets] = useState<TieringRuleSet[]>(() => listTieringRuleSets());
+    const [copied, setCopied] = useState(false);
+
+    const criteriaText = describeRuleSet(ruleSet).join('\n');
+
+    // Editing the built-in set starts an unsaved draft, so the built-in set stays available as is.
+    const update = (changes: Partial<TieringRuleSet>) => onChange(
+        ruleSet.id === DEFAULT_TIERING_RULE_SET.id
+            ? { ...ruleSet, id: DRAFT_RULE_SET_ID, name: 'כללים מותאמים', ...changes }
+            : { ...ruleSet, ...changes }
+    );
+
+    const handleLoad = (id: string) => {
+        const selected = id === DEFAULT_TIERING_RULE_SET.id ? DEFAULT_TIERING_RULE_SET : savedRuleSets.find(r => r.id === id);
+        if (selected) onChange(selected);
+    };
+
+    const handleSave = () => {
+        const name = ruleSet.name.trim();
+        if (!name) return;
+        const saved = saveTieringRuleSet({ ...ruleSet, name });
+        setSavedRuleSets(listTieringRuleSets());
+        onChange(saved);
+    };
+
+    const handleDelete = () => {
+        deleteTieringRuleSet(ruleSet.id);
+        setSavedRuleSets(listTieringRuleSets());
+        onChange(DEFAULT_TIERING_RULE_SET);
+    };
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(criteriaText);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch (error) {
+            console.error("Failed to copy the tiering criteria:", error);
+        }
+    };
+
+    const isSaved = savedRuleSets.some(r => r.id === ruleSet.id);
+
+    return (
+        <details className="mb-8 bg-gray-50 border border-gray-200 rounded-lg p-4" open={!ruleSet.useAnalysisTiers}>
+            <summary className="cursor-pointer font-semibold text-gray-800 flex items-center gap-2">
+                <SlidersHorizontal className="w-5 h-5 text-blue-600" />
+                כללי סיווג לשכבות: {ruleSet.name}
+            </summary>
+
+            <div className="mt-4 flex flex-wrap items-center gap-3 text-sm">
+                <label className="flex items-center gap-2 font-semibold text-gray-700">
+                    ערכת כללים:
+                    <select
+                        value={ruleSet.id === DEFAULT_TIERING_RULE_SET.id || isSaved ? ruleSet.id : ''}
+                        onChange={(e) => handleLoad(e.target.value)}
+                        className="p-1.5 border border-gray-300 rounded-md bg-white font-normal"
+                    >
+                        {ruleSet.id !== DEFAULT_TIERING_RULE_SET.id && !isSaved && <option value="">(לא שמורה)</option>}
+                        <option value={DEFAULT_TIERING_RULE_SET.id}>{DEFAULT_TIERING_RULE_SET.name}</option>
+                        {savedRuleSets.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+                    </select>
+                </label>
+                <input
+                    type="text"
+                    value={ruleSet.name}
+                    onChange={(e) => update({ name: e.target.value })}
+                    placeholder="שם ערכת הכללים"
+                    className="p-1.5 border border-gray-300 rounded-md w-56"
+                />
+                <button
+                    type="button"
+                    onClick={handleSave}
+                    disabled={!ruleSet.name.trim() || ruleSet.id === DEFAULT_TIERING_RULE_SET.id}
+                    className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+                >
+                    <Save size={14} /> שמירה
+                </button>
+                {isSaved && (
+                    <button type="button" onClick={handleDelete} className="flex items-center gap-1 px-3 py-1.5 text-red-600 hover:bg-red-50 rounded-md">
+                        <Trash2 size={14} /> מחיקה
+                    </button>
+                )}
+            </div>
+
+            <div className="mt-4 flex flex-wrap gap-6 text-sm">
+                <label className="flex items-center gap-2">
+                    <input
+                        type="checkbox"
+                        checked={!ruleSet.useAnalysisTiers}
+                        onChange={(e) => update({ useAnalysisTiers: !e.target.checked })}
+                    />
+                    סיווג לפי כללים מותאמים (במקום הסיווג האוטומטי)
+                </label>
+                <label className="flex items-center gap-2">
+                    <input
+                        type="checkbox"
+                        checked={ruleSet.requireSelectedIssue}
+                        onChange={(e) => update({ requireSelectedIssue: e.target.checked })}
+                    />
+                    רק בתי ספר המושפעים מהסוגיות שנבחרו
+                </label>
+            </div>
+
+            {!ruleSet.useAnalysisTiers && (
+                <div className="mt-4 grid grid-cols-1 lg:grid-cols-2 gap-4">
+                    <RuleEditor title="שכבה 3" rule={ruleSet.tier3} onChange={(tier3) => update({ tier3 })} colorClasses="border-red-500 bg-red-50" />
+                    <RuleEditor title="שכבה 2" rule={ruleSet.tier2} onChange={(tier2) => update({ tier2 })} colorClasses="border-yellow-500 bg-yellow-50" />
+                </div>
+            )}
+
+            <div className="mt-4 flex flex-wrap gap-3 text-sm font-semibold">
+                <span className="px-3 py-1 rounded-full bg-red-100 text-red-800">שכבה 3: {preview.tier3}</span>
+                <span className="px-3 py-1 rounded-full bg-yellow-100 text-yellow-800">שכבה 2: {preview.tier2}</span>
+                <span className="px-3 py-1 rounded-full bg-blue-100 text-blue-800">שכבה 1 בלבד: {preview.tier1Only}</span>
+            </div>
+
+            <div className="mt-4">
+                <label className="block text-sm font-semibold text-gray-700 mb-1">נימוק הקריטריונים</label>
+                <textarea
+                    value={ruleSet.justification}
+                    onChange={(e) => update({ justification: e.target.value })}
+                    rows={3}
+                    placeholder="למשל: בהתאם להגדרות המחוז, שכבה 3 כוללת בתי ספר עם ממוצע נמוך מ-2 בתחום ההישגים..."
+                    className="w-full p-2 border border-gray-300 rounded-md text-sm"
+                />
+            </div>
+
+            <div className="mt-4 bg-white border border-gray-200 rounded-md p-3 text-sm">
+                <div className="flex items-center justify-between mb-2">
+                    <span className="font-semibold text-gray-700">נוסח הקריטריונים</span>
+                    <button type="button" onClick={handleCopy} className="flex items-center gap-1 text-blue-600 hover:text-blue-800">
+                        <Copy size={14} /> {copied ? 'הועתק' : 'העתקה'}
+                    </button>
+                </div>
+                <p className="whitespace-pre-line text-gray-700">{criteriaText}</p>
+            </div>
+        </details>
+    );
+};
+
+export default TieringRulesEditor;
@@ -0,0 +1,28 @@
+import React from 'react';
+import { getTrendDirection } from '../services/trendService';
+import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
+
+interface TrendBadgeProps {
+    delta: number;
+    /** Year the change is measured from, shown in the tooltip. */
+    sinceYear?: string;
+    light?: boolean;
+}
+
+const TrendBadge: React.FC<TrendBadgeProps> = ({ delta, sinceYear, light = false }) => {
+    const direction = getTrendDirection(delta);
+    const Icon = direction === 'up' ? TrendingUp : direction === 'down' ? TrendingDown : Minus;
+    const color = light
+        ? 'text-white'
+        : direction === 'up' ? 'text-green-700' : direction === 'down' ? 'text-red-700' : 'text-gray-500';
+    const sign = delta > 0 ? '+' : '';
+
+    return (
+        <span className={`inline-flex items-center gap-1 text-xs font-bold ${color}`} title={sinceYear ? `שינוי מאז ${sinceYear}` : undefined}>
+            <Icon size={14} />
+            {sign}{delta.toFixed(2)}
+        </span>
+    );
+};
+
+export default TrendBadge;
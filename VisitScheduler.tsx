@@ -0,0 +1,282 @@
+import React, { useState, useMemo } from 'react';
+import type { AllInterventionPlans, Issue, TieredSchools, SchoolCalendar, SchoolHoliday, VisitCadence, VisitFrequency, VisitSpan } from '../types';
+import {
+    CADENCE_LABELS, SPAN_LABELS, WEEKDAY_LABELS, DEFAULT_SCHOOL_CALENDAR, loadSchoolCalendar, saveSchoolCalendar, validateSchoolCalendar,
+    getVisitFrequencies, setVisitFrequency, updateScopePlan, scheduleVisits, findOverloadDays, describeVisit, downloadVisitsIcs, dayOfWeek,
+} from '../services/visitScheduleService';
+import { listPlanScopes, PlanScope } from '../services/objectiveService';
+import { describeScope } from '../services/monitoringService';
+import { CalendarDays, Download, Plus, Trash2, AlertTriangle, RotateCcw } from 'lucide-react';
+
+interface VisitSchedulerProps {
+    selectedIssues: Issue[];
+    plans: AllInterventionPlans;
+    tieredSchools: TieredSchools;
+    onPlansChange: (plans: AllInterventionPlans) => void;
+}
+
+const CADENCES = Object.keys(CADENCE_LABELS) as VisitCadence[];
+const SPANS = Object.keys(SPAN_LABELS) as VisitSpan[];
+
+const formatDate = (isoDate: string): string => `${WEEKDAY_LABELS[dayOfWeek(isoDate)]} ${new Date(isoDate).toLocaleDateString('he-IL')}`;
+
+const CalendarEditor: React.FC<{ calendar: SchoolCalendar; onChange: (calendar: SchoolCalendar) => void }> = ({ calendar, onChange }) => {
+    const errors = validateSchoolCalendar(calendar);
+    const updateHoliday = (index: number, holiday: SchoolHoliday) =>
+        onChange({ ...calendar, holidays: calendar.holidays.map((h, i) => i === index ? holiday : h) });
+    const toggleWorkDay = (day: number, checked: boolean) =>
+        onChange({ ...calendar, workDays: checked ? [...calendar.workDays, day].sort((a, b) => a - b) : calendar.workDays.filter(d => d !== day) });
+
+    return (
+        <div className="space-y-4 text-sm">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <label className="flex flex-col gap-1 text-gray-700">
+                    שנת לימודים
+                    <input type="text" value={calendar.schoolYear} onChange={(e) => onChange({ ...calendar, schoolYear: e.target.value })} className="p-1 border border-gray-300 rounded-md bg-white" />
+                </label>
+                <label className="flex flex-col gap-1 text-gray-700">
+                    פתיחת השנה
+                    <input type="date" value={calendar.start} onChange={(e) => onChange({ ...calendar, start: e.target.value })} className="p-1 border border-gray-300 rounded-md bg-white" />
+                </label>
+                <label className="flex flex-col gap-1 text-gray-700">
+                    תחילת מחצית ב׳
+                    <input type="date" value={calendar.secondSemesterStart} onChange={(e) => onChange({ ...calendar, secondSemesterStart: e.target.value })} className="p-1 border border-gray-300 rounded-md bg-white" />
+                </label>
+                <label className="flex flex-col gap-1 text-gray-700">
+                    סיום השנה
+                    <input type="date" value={calendar.end} onChange={(e) => onChange({ ...calendar, end: e.target.value })} className="p-1 border border-gray-300 rounded-md bg-white" />
+                </label>
+                <label className="flex flex-col gap-1 text-gray-700">
+                    תחילת יום העבודה
+                    <input type="time" value={calendar.dayStartTime} onChange={(e) => onChange({ ...calendar, dayStartTime: e.target.value })} className="p-1 border border-gray-300 rounded-md bg-white" />
+                </label>
+                <label className="flex flex-col gap-1 text-gray-700">
+                    ביקורים מרביים ביום
+                    <input
+                        type="number"
+                        min={1}
+                        value={calendar.maxVisitsPerDay}
+                        onChange={(e) => onChange({ ...calendar, maxVisitsPerDay: parseInt(e.target.value, 10) || 0 })}
+                        className="p-1 border border-gray-300 rounded-md bg-white w-20"
+                    />
+                </label>
+                <div className="flex flex-col gap-1 text-gray-700 col-span-2">
+                    ימי עבודה
+                    <div className="flex gap-3">
+                        {WEEKDAY_LABELS.map((label, day) => (
+                            <label key={day} className="flex items-center gap-1 cursor-pointer">
+                                <input type="checkbox" checked={calendar.workDays.includes(day)} onChange={(e) => toggleWorkDay(day, e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-blue-600" />
+                                {label}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            <div>
+                <p className="font-semibold text-gray-700 mb-1">חופשות</p>
+                <ul className="space-y-1">
+                    {calendar.holidays.map((holiday, index) => (
+                        <li key={index} className="flex flex-wrap items-center gap-2">
+                            <input type="text" value={holiday.name} onChange={(e) => updateHoliday(index, { ...holiday, name: e.target.value })} className="p-1 border border-gray-300 rounded-md bg-white w-40" />
+                            <input type="date" value={holiday.start} onChange={(e) => updateHoliday(index, { ...holiday, start: e.target.value })} className="p-1 border border-gray-300 rounded-md bg-white" />
+                            <span className="text-gray-500">עד</span>
+                            <input type="date" value={holiday.end} onChange={(e) => updateHoliday(index, { ...holiday, end: e.target.value })} className="p-1 border border-gray-300 rounded-md bg-white" />
+                            <button type="button" onClick={() => onChange({ ...calendar, holidays: calendar.holidays.filter((_, i) => i !== index) })} className="text-red-500 hover:text-red-700 p-1" title="מחיקת החופשה">
+                                <Trash2 size={14} />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+                <div className="flex gap-2 mt-2">
+                    <button
+                        type="button"
+                        onClick={() => onChange({ ...calendar, holidays: [...calendar.holidays, { name: 'חופשה', start: calendar.start, end: calendar.start }] })}
+                        className="flex items-center gap-1 px-3 py-1 bg-gray-100 text-gray-800 border border-gray-300 rounded-md hover:bg-gray-200"
+                    >
+                        <Plus size={14} /> הוספת חופשה
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => onChange(DEFAULT_SCHOOL_CALENDAR)}
+                        className="flex items-center gap-1 px-3 py-1 bg-gray-100 text-gray-800 border border-gray-300 rounded-md hover:bg-gray-200"
+                    >
+                        <RotateCcw size={14} /> חזרה ללוח ברירת המחדל
+                    </button>
+                </div>
+            </div>
+            {errors.length > 0 && (
+                <ul className="text-red-700 list-disc list-inside">
+                    {errors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+const FrequencyRow: React.FC<{
+    frequency: VisitFrequency;
+    onChange: (frequency: VisitFrequency) => void;
+}> = ({ frequency, onChange }) => (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="flex-1 min-w-[12rem] text-gray-800">{frequency.source}</span>
+        <input
+            type="number"
+            min={1}
+            value={frequency.visits}
+            disabled={frequency.cadence === 'none'}
+            onChange={(e) => onChange({ ...frequency, visits: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+            className="p-1 border border-gray-300 rounded-md bg-white w-16 disabled:bg-gray-100"
+            title="מספר ביקורים"
+        />
+        <select value={frequency.cadence} onChange={(e) => onChange({ ...frequency, cadence: e.target.value as VisitCadence })} className="p-1 border border-gray-300 rounded-md bg-white">
+            {CADENCES.map(cadence => <option key={cadence} value={cadence}>{CADENCE_LABELS[cadence]}</option>)}
+        </select>
+        <select value={frequency.span} disabled={frequency.cadence === 'none'} onChange={(e) => onChange({ ...frequency, span: e.target.value as VisitSpan })} className="p-1 border border-gray-300 rounded-md bg-white disabled:bg-gray-100">
+            {SPANS.map(span => <option key={span} value={span}>{SPAN_LABELS[span]}</option>)}
+        </select>
+        <label className="flex items-center gap-1 text-gray-600">
+            <input
+                type="number"
+                min={15}
+                step={15}
+                value={frequency.durationMinutes}
+                disabled={frequency.cadence === 'none'}
+                onChange={(e) => onChange({ ...frequency, durationMinutes: Math.max(15, parseInt(e.target.value, 10) || 15) })}
+                className="p-1 border border-gray-300 rounded-md bg-white w-16 disabled:bg-gray-100"
+            />
+            דק׳
+        </label>
+    </div>
+);
+
+/**
+ * Turns the plans' support frequencies into dated visits across the school year, skipping vacations,
+ * flags days with more visits than the supervisor can make, and exports the visits to a calendar.
+ */
+const VisitScheduler: React.FC<VisitSchedulerProps> = ({ selectedIssues, plans, tieredSchools, onPlansChange }) => {
+    const [calendar, setCalendar] = useState<SchoolCalendar>(loadSchoolCalendar);
+    const calendarIsValid = validateSchoolCalendar(calendar).length === 0;
+
+    const planScopes = useMemo(() => listPlanScopes(plans, selectedIssues, tieredSchools), [plans, selectedIssues, tieredSchools]);
+    const schedule = useMemo(
+        () => calendarIsValid ? scheduleVisits(plans, selectedIssues, tieredSchools, calendar) : { visits: [], unscheduled: 0 },
+        [plans, selectedIssues, tieredSchools, calendar, calendarIsValid],
+    );
+    const overloadDays = findOverloadDays(schedule.visits, calendar);
+    const overloadDates = new Set(overloadDays.map(day => day.date));
+
+    const visitsByMonth = schedule.visits.reduce<{ [month: string]: typeof schedule.visits }>((months, visit) => {
+        const month = visit.date.slice(0, 7);
+        months[month] = [...(months[month] || []), visit];
+        return months;
+    }, {});
+
+    const handleCalendarChange = (updated: SchoolCalendar) => {
+        setCalendar(updated);
+        saveSchoolCalendar(updated);
+    };
+
+    const handleFrequencyChange = (planScope: PlanScope, frequency: VisitFrequency) =>
+        onPlansChange(updateScopePlan(plans, planScope, setVisitFrequency(planScope.plan, frequency)));
+
+    const issueName = (issueId: string) => selectedIssues.find(issue => issue.id === issueId)?.name || issueId;
+
+    return (
+        <div className="mb-8">
+            <h2 className="text-xl font-bold text-gray-700 border-r-4 border-blue-500 pr-3 mb-3 flex items-center gap-2">
+                <CalendarDays size={20} /> לוח ביקורים
+            </h2>
+
+            <details className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4">
+                <summary className="cursor-pointer font-semibold text-gray-800">
+                    לוח שנה {calendar.schoolYear} ({calendar.holidays.length} חופשות, עד {calendar.maxVisitsPerDay} ביקורים ביום)
+                </summary>
+                <div className="mt-3">
+                    <CalendarEditor calendar={calendar} onChange={handleCalendarChange} />
+                </div>
+            </details>
+
+            <details className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4">
+                <summary className="cursor-pointer font-semibold text-gray-800">תדירות הליווי בתוכניות</summary>
+                <p className="text-xs text-gray-500 mt-2">התדירות מפוענחת מהטקסט שבתוכנית; ניתן לתקן אותה כאן. בשכבה 3 בתוכנית כללית כל בית ספר מקבל ביקורים משלו.</p>
+                <div className="mt-3 space-y-4">
+                    {planScopes.map(planScope => {
+                        const frequencies = getVisitFrequencies(planScope.plan);
+                        const key = `${planScope.issueId}-${planScope.tier}-${planScope.scope.type === 'group' ? planScope.scope.groupId : planScope.scope.type === 'school' ? planScope.scope.schoolId : ''}`;
+                        return (
+                            <div key={key}>
+                                <p className="font-semibold text-gray-700 text-sm">{issueName(planScope.issueId)} – {describeScope(planScope.scope, planScope.tier)}</p>
+                                {frequencies.length > 0 ? (
+                                    <div className="space-y-1 mt-1 mr-3">
+                                        {frequencies.map(frequency => (
+                                            <FrequencyRow key={frequency.source} frequency={frequency} onChange={(updated) => handleFrequencyChange(planScope, updated)} />
+                                        ))}
+                                    </div>
+                                ) : (
+                                    <p className="text-xs text-gray-500 mr-3">לא נבחרה תדירות ליווי בתוכנית.</p>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            </details>
+
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-3 text-sm">
+                <p className="text-gray-700">
+                    {schedule.visits.length} ביקורים מתוכננים
+                    {schedule.unscheduled > 0 && <span className="text-yellow-700"> · {schedule.unscheduled} ביקורים לא שובצו (אין יום פנוי בתקופה)</span>}
+                </p>
+                <button
+                    type="button"
+                    onClick={() => downloadVisitsIcs(schedule.visits, selectedIssues, calendar)}
+                    disabled={schedule.visits.length === 0}
+                    className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+                >
+                    <Download size={16} /> ייצוא ליומן (ics)
+                </button>
+            </div>
+
+            {overloadDays.length > 0 && (
+                <div className="bg-red-50 border border-red-200 rounded-md p-3 mb-3 text-sm text-red-800">
+                    <p className="font-semibold flex items-center gap-2">
+                        <AlertTriangle size={16} /> {overloadDays.length} ימים עמוסים (יותר מ-{calendar.maxVisitsPerDay} ביקורים)
+                    </p>
+                    <ul className="list-disc list-inside mt-1">
+                        {overloadDays.map(day => (
+                            <li key={day.date}>{formatDate(day.date)}: {day.visits.map(visit => describeVisit(visit, selectedIssues)).join('; ')}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {schedule.visits.length > 0 && (
+                <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-md">
+                    <table className="w-full text-right text-sm">
+                        <tbody>
+                            {Object.entries(visitsByMonth).map(([month, visits]) => (
+                                <React.Fragment key={month}>
+                                    <tr className="bg-gray-100">
+                                        <td colSpan={4} className="p-2 font-bold text-gray-700">
+                                            {new Date(`${month}-01`).toLocaleDateString('he-IL', { month: 'long', year: 'numeric' })} ({visits.length})
+                                        </td>
+                                    </tr>
+                                    {visits.map(visit => (
+                                        <tr key={visit.id} className={`border-t border-gray-200 ${overloadDates.has(visit.date) ? 'bg-red-50' : ''}`}>
+                                            <td className="p-2 whitespace-nowrap">{formatDate(visit.date)}</td>
+                                            <td className="p-2 whitespace-nowrap">{visit.startTime}</td>
+                                            <td className="p-2">{describeVisit(visit, selectedIssues)}</td>
+                                            <td className="p-2 text-gray-500">{visit.source}</td>
+                                        </tr>
+                                    ))}
+                                </React.Fragment>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default VisitScheduler;
@@ -0,0 +1,233 @@
+import React, { useState, useMemo } from 'react';
+import type { Issue, TieredSchools } from '../types';
+import {
+    WhatIfContext, WhatIfScenario, WHAT_IF_DELTAS, WHAT_IF_SUB_CATEGORIES, getIssueSubCategoryKeys, simulateScenario, describeProjectedObjective,
+} from '../services/whatIfService';
+import { SEVERITY_LABELS } from '../services/prioritizationService';
+import { describeAnalyticsView } from '../services/analyticsViewService';
+import { ArrowUp, ArrowDown, Plus } from 'lucide-react';
+
+interface WhatIfSimulatorProps {
+    issueId: string;
+    /** The selected issues, offered as the issue to move. */
+    issues: Issue[];
+    tieredSchools: TieredSchools;
+    context: WhatIfContext;
+    /** Adds the projected objective to the measurable objectives of the target tiers' plans. */
+    onAddObjective: (tiers: (1 | 2 | 3)[], objective: string) => void;
+}
+
+const TIER_LABELS: { [tier in 1 | 2 | 3]: string } = { 1: 'שכבה 1', 2: 'שכבה 2', 3: 'שכבה 3' };
+
+const heatColor = (score: number): string => {
+    if (score >= 3.5) return 'bg-green-800 text-white';
+    if (score >= 3.0) return 'bg-green-600 text-white';
+    if (score >= 2.5) return 'bg-yellow-400 text-gray-900';
+    if (score >= 2.0) return 'bg-orange-500 text-white';
+    if (score > 0) return 'bg-red-600 text-white';
+    return 'bg-gray-200 text-gray-500';
+};
+
+const Change: React.FC<{ before: number; after: number; digits?: number; lowerIsBetter?: boolean }> = ({ before, after, digits = 2, lowerIsBetter = false }) => {
+    const diff = after - before;
+    if (Math.abs(diff) < Math.pow(10, -digits) / 2) return <span className="text-gray-400">—</span>;
+    const improved = lowerIsBetter ? diff < 0 : diff > 0;
+    return (
+        <span className={`inline-flex items-center gap-0.5 ${improved ? 'text-green-700' : 'text-red-700'}`} dir="ltr">
+            {diff > 0 ? <ArrowUp size={12} /> : <ArrowDown size={12} />}{Math.abs(diff).toFixed(digits)}
+        </span>
+    );
+};
+
+/**
+ * Projects a target for a group of schools (e.g. tier 3 raises its work-plan scores by a point) through the
+ * averages, urgency ranking and tiering the wizard used, so the plan can state an objective the data supports.
+ */
+const WhatIfSimulator: React.FC<WhatIfSimulatorProps> = ({ issueId, issues, tieredSchools, context, onAddObjective }) => {
+    const [scenario, setScenario] = useState<WhatIfScenario>(() => ({
+        issueId,
+        subCategoryKey: getIssueSubCategoryKeys(issueId)[0] || WHAT_IF_SUB_CATEGORIES[0].key,
+        targetTiers: [3],
+        delta: 1,
+    }));
+    const [added, setAdded] = useState(false);
+
+    const result = useMemo(() => simulateScenario(scenario, tieredSchools, context), [scenario, tieredSchools, context]);
+    const objective = describeProjectedObjective(result);
+    const issueSubCategoryKeys = getIssueSubCategoryKeys(scenario.issueId);
+
+    const updateScenario = (changes: Partial<WhatIfScenario>) => {
+        setScenario(prev => ({ ...prev, ...changes }));
+        setAdded(false);
+    };
+
+    const handleIssueChange = (id: string) => {
+        const keys = getIssueSubCategoryKeys(id);
+        updateScenario({ issueId: id, subCategoryKey: keys.includes(scenario.subCategoryKey) ? scenario.subCategoryKey : keys[0] || scenario.subCategoryKey });
+    };
+
+    const toggleTier = (tier: 1 | 2 | 3) => {
+        const tiers = scenario.targetTiers.includes(tier) ? scenario.targetTiers.filter(t => t !== tier) : [...scenario.targetTiers, tier].sort();
+        if (tiers.length > 0) updateScenario({ targetTiers: tiers });
+    };
+
+    const tierSizes: { [tier in 1 | 2 | 3]: number } = {
+        1: tieredSchools.tier1.length - tieredSchools.tier2.length - tieredSchools.tier3.length,
+        2: tieredSchools.tier2.length,
+        3: tieredSchools.tier3.length,
+    };
+    const domains = [...new Set(result.subCategoryAverages.map(sc => sc.domain))];
+
+    return (
+        <div className="space-y-4 text-sm">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <label className="flex flex-col gap-1 text-gray-700">
+                    סוגיה
+                    <select value={scenario.issueId} onChange={(e) => handleIssueChange(e.target.value)} className="p-1 border border-gray-300 rounded-md bg-white">
+                        {issues.map(issue => <option key={issue.id} value={issue.id}>{issue.name}</option>)}
+                    </select>
+                </label>
+                <label className="flex flex-col gap-1 text-gray-700">
+                    תת-תחום שהציונים בו עולים
+                    <select value={scenario.subCategoryKey} onChange={(e) => updateScenario({ subCategoryKey: e.target.value })} className="p-1 border border-gray-300 rounded-md bg-white">
+                        {issueSubCategoryKeys.length > 0 && (
+                            <optgroup label="מדדי הסוגיה">
+                                {WHAT_IF_SUB_CATEGORIES.filter(sc => issueSubCategoryKeys.includes(sc.key)).map(sc => <option key={sc.key} value={sc.key}>{sc.name}</option>)}
+                            </optgroup>
+                        )}
+                        <optgroup label="תתי-תחומים נוספים">
+                            {WHAT_IF_SUB_CATEGORIES.filter(sc => !issueSubCategoryKeys.includes(sc.key)).map(sc => <option key={sc.key} value={sc.key}>{sc.domain} – {sc.name}</option>)}
+                        </optgroup>
+                    </select>
+                </label>
+                <div className="flex flex-col gap-1 text-gray-700">
+                    בתי הספר
+                    <div className="flex flex-wrap gap-3">
+                        {([1, 2, 3] as const).map(tier => (
+                            <label key={tier} className="flex items-center gap-1">
+                                <input
+                                    type="checkbox"
+                                    checked={scenario.targetTiers.includes(tier)}
+                                    onChange={() => toggleTier(tier)}
+                                    className="h-4 w-4 rounded border-gray-300 text-blue-600"
+                                />
+                                {TIER_LABELS[tier]} ({tierSizes[tier]})
+                            </label>
+                        ))}
+                    </div>
+                </div>
+                <label className="flex flex-col gap-1 text-gray-700">
+                    שיפור בכל ציון
+                    <select value={scenario.delta} onChange={(e) => updateScenario({ delta: parseInt(e.target.value, 10) })} className="p-1 border border-gray-300 rounded-md bg-white w-40">
+                        {WHAT_IF_DELTAS.map(delta => <option key={delta} value={delta}>+{delta} {delta === 1 ? 'נקודה' : 'נקודות'}</option>)}
+                    </select>
+                </label>
+            </div>
+            <p className="text-xs text-gray-500">
+                {describeAnalyticsView(context.view)}. {result.raisedScores} ציונים עולים; ציונים חסרים וציונים שכבר עומדים על 4 אינם משתנים.
+            </p>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                <div>
+                    <h4 className="font-bold text-gray-800 mb-1">ממוצעי התחומים</h4>
+                    <table className="w-full text-right border border-gray-200 bg-white">
+                        <thead className="bg-gray-100 text-gray-600">
+                            <tr><th className="p-2">תחום</th><th className="p-2">כעת</th><th className="p-2">צפוי</th><th className="p-2">שינוי</th></tr>
+                        </thead>
+                        <tbody>
+                            {result.domainAverages.map(row => (
+                                <tr key={row.domain} className="border-t border-gray-200">
+                                    <td className="p-2">{row.domain}</td>
+                                    <td className="p-2">{row.before.toFixed(2)}</td>
+                                    <td className="p-2">{row.after.toFixed(2)}</td>
+                                    <td className="p-2"><Change before={row.before} after={row.after} /></td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <div>
+                    <h4 className="font-bold text-gray-800 mb-1">התפלגות השכבות</h4>
+                    <table className="w-full text-right border border-gray-200 bg-white">
+                        <thead className="bg-gray-100 text-gray-600">
+                            <tr><th className="p-2">שכבה</th><th className="p-2">כעת</th><th className="p-2">צפוי</th><th className="p-2">שינוי</th></tr>
+                        </thead>
+                        <tbody>
+                            {result.tierCounts.map(row => (
+                                <tr key={row.tier} className="border-t border-gray-200">
+                                    <td className="p-2">{TIER_LABELS[row.tier]}</td>
+                                    <td className="p-2">{row.before}</td>
+                                    <td className="p-2">{row.after}</td>
+                                    <td className="p-2"><Change before={row.before} after={row.after} digits={0} lowerIsBetter={row.tier > 1} /></td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {result.tierRulesSubstituted && (
+                        <p className="text-xs text-orange-700 mt-1">השכבות נקבעו בסיווג הניתוח האוטומטי, שאינו מחושב מחדש; ההשוואה משתמשת בכללי ברירת המחדל על שני המצבים.</p>
+                    )}
+                </div>
+            </div>
+
+            <div>
+                <h4 className="font-bold text-gray-800 mb-1">דירוג הסוגיות לפי דחיפות</h4>
+                <table className="w-full text-right border border-gray-200 bg-white">
+                    <thead className="bg-gray-100 text-gray-600">
+                        <tr><th className="p-2">סוגיה</th><th className="p-2">מיקום</th><th className="p-2">דחיפות</th><th className="p-2">חומרה</th></tr>
+                    </thead>
+                    <tbody>
+                        {result.issueRanking.map(row => (
+                            <tr key={row.id} className={`border-t border-gray-200 ${row.id === scenario.issueId ? 'bg-blue-50 font-semibold' : ''}`}>
+                                <td className="p-2">{row.name}</td>
+                                <td className="p-2">{row.rankBefore} ← {row.rankAfter ?? '—'}</td>
+                                <td className="p-2">{row.urgency.before} ← {row.urgency.after} <Change before={row.urgency.before} after={row.urgency.after} digits={0} lowerIsBetter /></td>
+                                <td className="p-2">{SEVERITY_LABELS[row.severityBefore]} ← {row.severityAfter ? SEVERITY_LABELS[row.severityAfter] : 'לא מופיעה'}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div>
+                <h4 className="font-bold text-gray-800 mb-1">מפת החום הצפויה</h4>
+                <div className="space-y-2">
+                    {domains.map(domain => (
+                        <div key={domain}>
+                            <p className="text-xs font-semibold text-gray-600 mb-1">{domain}</p>
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-1">
+                                {result.subCategoryAverages.filter(sc => sc.domain === domain).map(sc => (
+                                    <div
+                                        key={sc.key}
+                                        className={`p-2 rounded-md ${heatColor(sc.after)} ${sc.key === scenario.subCategoryKey ? 'ring-2 ring-blue-500 ring-offset-1' : ''}`}
+                                        title={`כעת: ${sc.before.toFixed(2)}, צפוי: ${sc.after.toFixed(2)}`}
+                                    >
+                                        <div className="text-xs truncate">{sc.name}</div>
+                                        <div className="font-bold" dir="ltr">
+                                            {sc.after.toFixed(2)}
+                                            {sc.after - sc.before >= 0.005 && <span className="text-xs font-normal"> (+{(sc.after - sc.before).toFixed(2)})</span>}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+                <h4 className="font-bold text-blue-800 mb-1">יעד מדיד מוצע</h4>
+                <p className="text-gray-800">{objective}</p>
+                <button
+                    type="button"
+                    onClick={() => { onAddObjective(scenario.targetTiers, objective); setAdded(true); }}
+                    disabled={added || result.targetSchoolCount === 0}
+                    className="mt-2 flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+                >
+                    <Plus size={14} /> {added ? 'נוסף ליעדים המדידים' : 'הוספה ליעדים המדידים של השכבות שנבחרו'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default WhatIfSimulator;
@@ -0,0 +1,89 @@
+import type { TierPlan, ActionOwner, ActionSchedule } from '../types';
+import { getPlanComponentItems } from './monitoringService';
+
+/** The months of the school year, from September. */
+export const SCHOOL_YEAR_MONTHS = ['ספט׳', 'אוק׳', 'נוב׳', 'דצמ׳', 'ינו׳', 'פבר׳', 'מרץ', 'אפר׳', 'מאי', 'יוני', 'יולי', 'אוג׳'];
+
+/** Annual plan reviews are held by quarter of the school year. */
+export const QUARTERS = [
+    { label: 'רבעון 1', startMonth: 1, endMonth: 3 },
+    { label: 'רבעון 2', startMonth: 4, endMonth: 6 },
+    { label: 'רבעון 3', startMonth: 7, endMonth: 9 },
+    { label: 'רבעון 4', startMonth: 10, endMonth: 12 },
+];
+
+export const OWNER_LABELS: { [owner in ActionOwner]: string } = {
+    'supervisor': 'מפקח/ת',
+    'principal': 'מנהל/ת',
+    'coordinator': 'רכז/ת',
+    'partner': 'שותף חיצוני',
+};
+
+export const quarterOf = (month: number): number => Math.ceil(month / 3);
+
+/** An action not scheduled yet spans the school year, September to June, under the principal. */
+const defaultSchedule = (action: string): ActionSchedule => ({
+    action,
+    startMonth: 1,
+    endMonth: 10,
+    owner: 'principal',
+    partner: '',
+    dependsOn: [],
+});
+
+/** The plan's main actions in their order, each with its schedule or, until one is set, the default. */
+export const getActionSchedules = (plan: TierPlan): { schedule: ActionSchedule; isScheduled: boolean }[] =>
+    getPlanComponentItems(plan.mainActions).map(action => {
+        const schedule = plan.actionSchedules?.find(s => s.action === action);
+        return { schedule: schedule || defaultSchedule(action), isScheduled: !!schedule };
+    });
+
+/** Stores the action's schedule on the plan, dropping those of actions no longer in it and dependencies on them. */
+export const setActionSchedule = (plan: TierPlan, schedule: ActionSchedule): TierPlan => {
+    const actions = getPlanComponentItems(plan.mainActions);
+    const keep = (s: ActionSchedule): ActionSchedule => ({ ...s, dependsOn: s.dependsOn.filter(a => actions.includes(a) && a !== s.action) });
+    const others = (plan.actionSchedules || []).filter(s => s.action !== schedule.action && actions.includes(s.action));
+    return { ...plan, actionSchedules: [...others, schedule].map(keep) };
+};
+
+const dependsTransitively = (schedules: ActionSchedule[], from: string, target: string, seen = new Set<string>()): boolean => {
+    if (seen.has(from)) return false;
+    seen.add(from);
+    const schedule = schedules.find(s => s.action === from);
+    return !!schedule && schedule.dependsOn.some(dep => dep === target || dependsTransitively(schedules, dep, target, seen));
+};
+
+/** Whether the action may depend on the other without closing a cycle. */
+export const canDependOn = (schedules: ActionSchedule[], action: string, other: string): boolean =>
+    action !== other && !dependsTransitively(schedules, other, action);
+
+/**
+ * The problems in the schedules, in Hebrew, by action: an action starting before an action it depends on has ended.
+ */
+export const findScheduleConflicts = (schedules: ActionSchedule[]): { [action: string]: string[] } => {
+    const conflicts: { [action: string]: string[] } = {};
+    schedules.forEach(schedule => {
+        schedule.dependsOn.forEach(dep => {
+            const prerequisite = schedules.find(s => s.action === dep);
+            if (prerequisite && prerequisite.endMonth >= schedule.startMonth) {
+                (conflicts[schedule.action] = conflicts[schedule.action] || []).push(
+                    `מתחילה ב${SCHOOL_YEAR_MONTHS[schedule.startMonth - 1]} לפני סיום "${dep}" (${SCHOOL_YEAR_MONTHS[prerequisite.endMonth - 1]}).`,
+                );
+            }
+        });
+    });
+    return conflicts;
+};
+
+export const describeOwner = (schedule: ActionSchedule): string =>
+    schedule.owner === 'partner' && schedule.partner ? schedule.partner : OWNER_LABELS[schedule.owner];
+
+/** "ספט׳–דצמ׳ (רבעונים 1-2)". */
+export const describePeriod = (schedule: ActionSchedule): string => {
+    const months = schedule.startMonth === schedule.endMonth
+        ? SCHOOL_YEAR_MONTHS[schedule.startMonth - 1]
+        : `${SCHOOL_YEAR_MONTHS[schedule.startMonth - 1]}–${SCHOOL_YEAR_MONTHS[schedule.endMonth - 1]}`;
+    const first = quarterOf(schedule.startMonth);
+    const last = quarterOf(schedule.endMonth);
+    return `${months} (${first === last ? `רבעון ${first}` : `רבעונים ${first}-${last}`})`;
+};
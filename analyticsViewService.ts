@@ -0,0 +1,75 @@
+import type { School, SupportLevel, AnalyticsView, AveragingMode } from '../types';
+import { SUPPORT_LEVELS } from '../constants';
+import { DEFAULT_COVERAGE_RULES, scoreWithImputation } from './dataCoverageService';
+
+export const DEFAULT_ANALYTICS_VIEW: AnalyticsView = { averaging: 'school', supportLevel: 'all', coverage: DEFAULT_COVERAGE_RULES };
+
+export const AVERAGING_LABELS: { [mode in AveragingMode]: string } = {
+    school: 'משוקלל לפי בתי ספר',
+    student: 'משוקלל לפי תלמידים',
+};
+
+// Schools without a support level form their own segment, listed last.
+export const SUPPORT_LEVEL_SEGMENTS: SupportLevel[] = [...SUPPORT_LEVELS, ''];
+
+export const supportLevelLabel = (level: SupportLevel | 'all'): string =>
+    level === 'all' ? 'כל רמות הליווי' : level || 'ללא רמת ליווי';
+
+/**
+ * The number of students, or null when the free-text field holds no positive number ("1,200" reads as 1200).
+ */
+export const parseStudentCount = (students: string): number | null => {
+    const count = parseInt((students || '').replace(/,/g, ''), 10);
+    return isNaN(count) || count <= 0 ? null : count;
+};
+
+/**
+ * How much the school counts in an average. Under student weighting a school with an unknown
+ * number of students weighs nothing, so it drops out of the averages rather than skewing them.
+ */
+export const schoolWeight = (school: School, averaging: AveragingMode): number =>
+    averaging === 'student' ? parseStudentCount(school.students) ?? 0 : 1;
+
+export const filterBySupportLevel = <T extends School>(schools: T[], supportLevel: SupportLevel | 'all'): T[] =>
+    supportLevel === 'all' ? schools : schools.filter(school => (school.supportLevel || '') === supportLevel);
+
+/**
+ * Average of all the schools' scores on the metrics, each score weighted by its school. 0 when nothing was scored.
+ * With imputeMissing, missing scores count at the school's sub-category mean.
+ */
+export const weightedAverage = (schools: School[], metrics: string[], averaging: AveragingMode, imputeMissing = false): number => {
+    let total = 0;
+    let weightSum = 0;
+    schools.forEach(school => {
+        const weight = schoolWeight(school, averaging);
+        if (weight === 0) return;
+        metrics.forEach(metric => {
+            const score = scoreWithImputation(school, metric, imputeMissing);
+            if (score !== null) {
+                total += score * weight;
+                weightSum += weight;
+            }
+        });
+    });
+    return weightSum > 0 ? total / weightSum : 0;
+};
+
+export const totalWeight = (schools: School[], averaging: AveragingMode): number =>
+    schools.reduce((sum, school) => sum + schoolWeight(school, averaging), 0);
+
+/**
+ * The schools left out of student-weighted averages because their number of students is unknown.
+ */
+export const countSchoolsWithoutStudents = (schools: School[]): number =>
+    schools.filter(school => parseStudentCount(school.students) === null).length;
+
+/**
+ * Splits the schools by support level, keeping only the levels that have schools.
+ */
+export const segmentBySupportLevel = <T extends School>(schools: T[]): { level: SupportLevel; schools: T[] }[] =>
+    SUPPORT_LEVEL_SEGMENTS
+        .map(level => ({ level, schools: filterBySupportLevel(schools, level) }))
+        .filter(segment => segment.schools.length > 0);
+
+export const describeAnalyticsView = (view: AnalyticsView): string =>
+    `ממוצע ${AVERAGING_LABELS[view.averaging]}, ${supportLevelLabel(view.supportLevel)}`;
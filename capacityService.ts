@@ -0,0 +1,184 @@
+import type { AllInterventionPlans, FullInterventionPlan, Issue, PlanComponent, TierPlan, TieredSchools, SchoolCalendar, ScheduledVisit, CapacitySettings } from '../types';
+import { getPlanComponentItems } from './monitoringService';
+
+const STORAGE_KEY = 'mtss.capacitySettings';
+/** Individual tier 3 plans at least this similar to the most typical one could follow a shared plan. */
+const SHARE_SIMILARITY = 0.5;
+
+export const DEFAULT_CAPACITY_SETTINGS: CapacitySettings = {
+    monthlyHoursBudget: 40,
+    supervisorCount: 1,
+};
+
+export type WorkloadCategory = 'tier1' | 'tier2' | 'tier3-general' | 'tier3-individual';
+
+export const WORKLOAD_CATEGORY_LABELS: { [category in WorkloadCategory]: string } = {
+    'tier1': 'שכבה 1',
+    'tier2': 'קבוצות שכבה 2',
+    'tier3-general': 'שכבה 3 (תוכנית כללית)',
+    'tier3-individual': 'שכבה 3 (תוכניות פרטניות)',
+};
+
+export const loadCapacitySettings = (): CapacitySettings => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return stored ? { ...DEFAULT_CAPACITY_SETTINGS, ...JSON.parse(stored) } : DEFAULT_CAPACITY_SETTINGS;
+    } catch (error) {
+        console.error("Failed to read capacity settings:", error);
+        return DEFAULT_CAPACITY_SETTINGS;
+    }
+};
+
+export const saveCapacitySettings = (settings: CapacitySettings): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const monthlyCapacity = (settings: CapacitySettings): number => settings.monthlyHoursBudget * settings.supervisorCount;
+
+const categorize = (visit: ScheduledVisit): WorkloadCategory => {
+    if (visit.tier === 1) return 'tier1';
+    if (visit.tier === 2) return 'tier2';
+    return visit.scope.type === 'school' ? 'tier3-individual' : 'tier3-general';
+};
+
+export interface MonthlyWorkload {
+    /** yyyy-mm. */
+    month: string;
+    hours: { [category in WorkloadCategory]: number };
+    total: number;
+    /** Hours of tier 2 groups and tier 3 individual plans, the support that grows with every group and school added. */
+    targeted: number;
+}
+
+/**
+ * Sums the hours of the scheduled visits in each month of the school year, by the kind of plan they carry out.
+ */
+export const computeMonthlyWorkload = (visits: ScheduledVisit[], calendar: SchoolCalendar): MonthlyWorkload[] => {
+    const months: MonthlyWorkload[] = [];
+    for (let month = calendar.start.slice(0, 7); month <= calendar.end.slice(0, 7);) {
+        months.push({ month, hours: { 'tier1': 0, 'tier2': 0, 'tier3-general': 0, 'tier3-individual': 0 }, total: 0, targeted: 0 });
+        const [year, m] = month.split('-').map(Number);
+        month = m === 12 ? `${year + 1}-01` : `${year}-${String(m + 1).padStart(2, '0')}`;
+    }
+    visits.forEach(visit => {
+        const workload = months.find(w => w.month === visit.date.slice(0, 7));
+        if (!workload) return;
+        const hours = visit.durationMinutes / 60;
+        const category = categorize(visit);
+        workload.hours[category] += hours;
+        workload.total += hours;
+        if (category === 'tier2' || category === 'tier3-individual') workload.targeted += hours;
+    });
+    return months;
+};
+
+export interface CapacitySummary {
+    capacity: number;
+    annualHours: number;
+    annualCapacity: number;
+    /** Months whose visits take more hours than the budget. */
+    overMonths: string[];
+    /** Months in which tier 2 groups and tier 3 individual plans alone take more hours than the budget. */
+    targetedOverMonths: string[];
+    peak: MonthlyWorkload | null;
+}
+
+export const summarizeCapacity = (workload: MonthlyWorkload[], settings: CapacitySettings): CapacitySummary => {
+    const capacity = monthlyCapacity(settings);
+    return {
+        capacity,
+        annualHours: workload.reduce((sum, w) => sum + w.total, 0),
+        annualCapacity: capacity * workload.length,
+        overMonths: workload.filter(w => w.total > capacity).map(w => w.month),
+        targetedOverMonths: workload.filter(w => w.targeted > capacity).map(w => w.month),
+        peak: workload.reduce<MonthlyWorkload | null>((peak, w) => !peak || w.total > peak.total ? w : peak, null),
+    };
+};
+
+const PLAN_COMPONENTS: (keyof TierPlan)[] = ['mainGoal', 'measurableObjectives', 'mainActions', 'supportFrequency', 'successMetrics', 'partners'];
+
+const planItems = (plan: TierPlan): Set<string> =>
+    new Set(PLAN_COMPONENTS.flatMap(key => getPlanComponentItems(plan[key] as PlanComponent).map(item => `${key}:${item}`)));
+
+/** Share of the items two plans have in common (Jaccard); two empty plans are identical. */
+export const planSimilarity = (a: TierPlan, b: TierPlan): number => {
+    const itemsA = planItems(a);
+    const itemsB = planItems(b);
+    const union = new Set([...itemsA, ...itemsB]);
+    if (union.size === 0) return 1;
+    return Array.from(itemsA).filter(item => itemsB.has(item)).length / union.size;
+};
+
+export interface Tier3SharingSuggestion {
+    issueId: string;
+    /** The school whose plan is most like the others'; the shared plan starts from it. */
+    representativeSchoolId: number;
+    /** Schools whose plans are close enough to the representative one to share it, the representative included. */
+    schoolIds: number[];
+    /** Schools with a distinct plan, which would follow the shared plan as well. */
+    distinctSchoolIds: number[];
+    averageSimilarity: number;
+    /** Visit hours over the year of the schools that could share, as planned now. */
+    annualHours: number;
+    /** Their hours if each followed the representative plan. */
+    sharedAnnualHours: number;
+}
+
+/**
+ * For each issue planned with individual tier 3 plans, finds the schools whose plans are alike enough to share
+ * a general plan, and the hours that would take.
+ */
+export const suggestSharedTier3Plans = (plans: AllInterventionPlans, issues: Issue[], tieredSchools: TieredSchools, visits: ScheduledVisit[]): Tier3SharingSuggestion[] =>
+    issues.flatMap(issue => {
+        const plan = plans[issue.id];
+        if (!plan || plan.tier3.useGeneralPlan) return [];
+        const individual = tieredSchools.tier3
+            .filter(school => plan.tier3.individualPlans[school.id])
+            .map(school => ({ schoolId: school.id, plan: plan.tier3.individualPlans[school.id] }));
+        if (individual.length < 2) return [];
+
+        const schoolHours = (schoolId: number) => visits
+            .filter(v => v.issueId === issue.id && v.scope.type === 'school' && v.scope.schoolId === schoolId)
+            .reduce((sum, v) => sum + v.durationMinutes / 60, 0);
+
+        const similarityTo = (candidate: typeof individual[number]) => individual
+            .filter(other => other !== candidate)
+            .map(other => ({ schoolId: other.schoolId, similarity: planSimilarity(candidate.plan, other.plan) }));
+        // The most typical plan; between equally typical ones, the lighter.
+        const typicality = (c: typeof individual[number]) => similarityTo(c).reduce((sum, s) => sum + s.similarity, 0);
+        const representative = individual.reduce((best, candidate) => {
+            const diff = typicality(candidate) - typicality(best);
+            return diff > 0 || (diff === 0 && schoolHours(candidate.schoolId) < schoolHours(best.schoolId)) ? candidate : best;
+        });
+        const similarities = similarityTo(representative);
+        const sharing = similarities.filter(s => s.similarity >= SHARE_SIMILARITY);
+        if (sharing.length === 0) return [];
+
+        const schoolIds = [representative.schoolId, ...sharing.map(s => s.schoolId)];
+        return [{
+            issueId: issue.id,
+            representativeSchoolId: representative.schoolId,
+            schoolIds,
+            distinctSchoolIds: similarities.filter(s => s.similarity < SHARE_SIMILARITY).map(s => s.schoolId),
+            averageSimilarity: sharing.reduce((sum, s) => sum + s.similarity, 0) / sharing.length,
+            annualHours: schoolIds.reduce((sum, id) => sum + schoolHours(id), 0),
+            sharedAnnualHours: schoolIds.length * schoolHours(representative.schoolId),
+        }];
+    });
+
+const isEmptyPlan = (plan: TierPlan): boolean => planItems(plan).size === 0;
+
+/**
+ * Moves the issue's tier 3 to a general plan. An empty general plan starts from the representative school's plan;
+ * the individual plans are kept, so the change can be undone.
+ */
+export const applyTier3Sharing = (plan: FullInterventionPlan, suggestion: Tier3SharingSuggestion): FullInterventionPlan => ({
+    ...plan,
+    tier3: {
+        ...plan.tier3,
+        useGeneralPlan: true,
+        generalPlan: isEmptyPlan(plan.tier3.generalPlan)
+            ? plan.tier3.individualPlans[suggestion.representativeSchoolId]
+            : plan.tier3.generalPlan,
+    },
+});
@@ -0,0 +1,82 @@
+import type { ColumnMapping, SavedColumnLayout, HistoricalDataset } from '../types';
+import { scoreColumnMatch, parseFile, buildSchoolsFromTable } from './fileParserService';
+
+const STORAGE_KEY = 'mtss.columnLayouts';
+
+const normalizeHeader = (header: string): string => header.toLowerCase().trim().replace(/\s+/g, ' ');
+
+const layoutSignature = (headers: string[]): string => headers.map(normalizeHeader).join('|');
+
+export const listColumnLayouts = (): SavedColumnLayout[] => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+        console.error("Failed to read saved column layouts:", error);
+        return [];
+    }
+};
+
+const writeColumnLayouts = (layouts: SavedColumnLayout[]): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(layouts));
+};
+
+/**
+ * Saves the reviewed mappings under a name. A layout with the same headers replaces the previous one.
+ */
+export const saveColumnLayout = (name: string, mappings: ColumnMapping[]): SavedColumnLayout => {
+    const headers = mappings.map(m => m.sourceHeader);
+    const layout: SavedColumnLayout = {
+        id: `layout-${Date.now()}`,
+        name,
+        headers,
+        mappings: Object.fromEntries(mappings.map(m => [m.sourceHeader, m.status === 'ignored' ? null : m.targetField])),
+        savedAt: new Date().toISOString(),
+    };
+    const signature = layoutSignature(headers);
+    writeColumnLayouts([layout, ...listColumnLayouts().filter(l => layoutSignature(l.headers) !== signature)]);
+    return layout;
+};
+
+export const deleteColumnLayout = (id: string): void => {
+    writeColumnLayouts(listColumnLayouts().filter(l => l.id !== id));
+};
+
+/**
+ * Finds a saved layout whose headers are identical (ignoring case and whitespace) to the given file's headers.
+ */
+export const findMatchingLayout = (headers: string[]): SavedColumnLayout | null => {
+    const signature = layoutSignature(headers);
+    return listColumnLayouts().find(l => layoutSignature(l.headers) === signature) || null;
+};
+
+/**
+ * Applies a saved layout to the current columns. Headers the layout does not know keep their current mapping.
+ */
+export const applyColumnLayout = (layout: SavedColumnLayout, mappings: ColumnMapping[]): ColumnMapping[] => {
+    const savedByHeader = new Map(Object.entries(layout.mappings).map(([header, field]) => [normalizeHeader(header), field]));
+    return mappings.map(mapping => {
+        const key = normalizeHeader(mapping.sourceHeader);
+        if (!savedByHeader.has(key)) return mapping;
+        const targetField = savedByHeader.get(key) ?? null;
+        if (!targetField) return { ...mapping, targetField: null, score: 0, status: 'ignored' };
+        return { ...mapping, targetField, score: scoreColumnMatch(mapping.sourceHeader, targetField), status: 'confirmed' };
+    });
+};
+
+/**
+ * Reads another measurement of the schools (an earlier year or a follow-up) from the file's first sheet,
+ * mapped by the saved layout for its headers, without a review step.
+ */
+export const importDatasetFile = async (file: File, schoolYear: string): Promise<HistoricalDataset> => {
+    const parsedData = await parseFile(file);
+    const savedLayout = findMatchingLayout(parsedData.table.headers);
+    const mappings = savedLayout ? applyColumnLayout(savedLayout, parsedData.columnMappings) : parsedData.columnMappings;
+    return {
+        id: `dataset-${Date.now()}`,
+        schoolYear,
+        fileName: file.name,
+        importedAt: new Date().toISOString(),
+        schools: buildSchoolsFromTable(parsedData.table, mappings),
+    };
+};
@@ -1,12 +1,12 @@
 import React from 'react';
-import { Score, School } from "./types";
+import { Score, School, SupportLevel } from "./types";
 import { issuesAndGoalsData } from './data/issuesAndGoalsData';
 import { Briefcase, BookOpen, HeartHandshake, Puzzle, Users, CheckCircle, BrainCircuit } from 'lucide-react';
 
 
-// Base64 encoded Assistant font for Hebrew support in PDFs.
-const HEBREW_FONT_REGULAR_BASE64 = 'AAEAAAARAQAABAAQR0RFRgQsBFIAAAbIAAAAHkdQT1O4B5LPAAAGJAAAAEhHU1VCAu4g6QAAAkQAAABIT1MvMmuG8wQAAAEoAAAAYGNtYXAAMQDXAAABxAAAAHxnYXNwAAAAEAAAAbgAAAAIZ2x5ZuAA1xIAAAqMAAAGHGhlYWQGUCyLAAAA4AAAADZoaGVhA+IB6QAAALwAAAAkaG10eBv2C0QAAAHgAAAAQmxvY2EAKAESAAACUAAAACBtYXhwABMAHwAAARgAAAAgbmFtZWVjixIAAAXQAAAAeXBvc3QAAwAAAAAABoAAAAEACgAoAAMABQALAAUACwABAAMPABQACQAGAAMAAQACAAAAAgAAAAAAAAABAAAAAwBwACwAAAAAAAgAAAABAAEAAgAWAAEAAgAWAAEACAAWAAEACQAWAAYACQAWAAkACQAWAAkACQAWAAkABgAaAAYACQAAAAEACAACAAYADgAJAA4ACQAOAAkADgAGAAYABgAGAAQACAAOAAkACgAJAAkACQAGAAYABgAKAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYACQAJAAkACQAKAAsACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAoABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAJAAkACQAJAAkACgABgAGAAYABgAJAAoABgAGAAYACQAJAAkACQAJAAoABgAGAAYACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAOAA4ACQAJAAkACQAJAA4ACQAJAAoABgAGAAYACQAJAAoABgAJAAoABgAGAAYACQAJAAkACQAGAAYACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkAAAABAABm729eXw889QADAgAAAAADDdXdAAAAAAN0pT0AAAAAA4Y5Q==';
-const HEBREW_FONT_BOLD_BASE64 = 'AAEAAAARAQAABAAQR0RFRgQsBFIAAAbYAAAAHkdQT1O4B5LPAAAGKAAAAEhHU1VCAu4g6QAAAkQAAABIT1MvMmuG8wQAAAEoAAAAYGNtYXAAMQDXAAABxAAAAHxnYXNwAAAAEAAAAbgAAAAIZ2x5ZuAA1xIAAAqYAAAGHGhlYWQGUCyLAAAA4AAAADZoaGVhA+IB6QAAALwAAAAkaG10eBv2C0QAAAHgAAAAQmxvY2EAKAESAAACUAAAACBtYXhwABMAHwAAARgAAAAgbmFtZWVjixIAAAXAAAAAeXBvc3QAAwAAAAAABoAAAAEACgAoAAMABQALAAUACwABAAMPABQACQAGAAMAAQACAAAAAgAAAAAAAAABAAAAAwBwACwAAAAAAAgAAAABAAEAAgAWAAEAAgAWAAEACAAWAAEACQAWAAYACQAWAAkACQAWAAkACQAWAAkABgAaAAYACQAAAAEACAACAAYADgAJAA4ACQAOAAkADgAGAAYABgAGAAQACAAOAAkACgAJAAkACQAGAAYABgAKAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYACQAJAAkACQAKAAsACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAoABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAGAAYABgAJAAkACQAJAAkACgABgAGAAYABgAJAAoABgAGAAYACQAJAAkACQAJAAoABgAGAAYACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAOAA4ACQAJAAkACQAJAA4ACQAJAAoABgAGAAYACQAJAAoABgAJAAoABgAGAAYACQAJAAkACQAGAAYACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAAkAAAABAABm729eXw889QADAgAAAAADDdXdAAAAAAN0pT0AAAAAA4YF5Q==';
+// Base64 encoded Assistant font (Regular and Bold, SIL Open Font License) for Hebrew text in PDFs.
+const HEBREW_FONT_REGULAR_BASE64 = 'AAEAAAAQAQAABAAAR0RFRgioCG4AAAHcAAAAVEdQT1PAosCCAAAn4AAAN9RHU1VCr0TKVwAAApAAAAJeT1MvMonaT9gAAAIwAAAAYFNUQVSB2WqWAAABmAAAAERjbWFwrcsHPwAACHgAAAWqZ2FzcAAAABAAAAEUAAAACGdseWYEyXQxAABftAAAYsxoZWFkD5T1UQAAAWAAAAA2aGhlYQavA34AAAE8AAAAJGhtdHj8zT+EAAAOJAAABwxsb2NhwVXZTgAABPAAAAOIbWF4cAHXAPIAAAEcAAAAIG5hbWXuhxTVAAAVMAAACFRwb3N0yDGuZAAAHYQAAApccHJlcGgGjIUAAAEMAAAAB7gB/4WwBI0AAAEAAf//AA8AAQAAAcMAkAAMAGAABAABAAAAAAAAAAAAAAAAAAMAAQABAAAD/f7hAAAEn/46/joEdQABAAAAAAAAAAAAAAAAAAABwwABAAAAAwAATNWsY18PPPUAAwPoAAAAANJg7loAAAAA22vDGv46/v0EdQP9AAAABgACAAAAAAAAAAEAAQAIAAEAAAAUAAIAAAAcAAJ3Z2h0AQAAAAAUAAQAAwAAAAIBAwGQAAACvAAAAAIAAAACAQMBkAAAAV4AAAH0AAAAAQACAA4AAAAAAAAAQgACAAgAAQBBAAEAQwCGAAEAiACuAAEAsADGAAEAxwDIAAIA0wELAAEBfwGOAAMBqwG7AAMAAQABAAAACAACAAEBfwGJAAAABAHnAZAABQAAAooCWAAAAEsCigJYAAABXgAyASwAAAAAAAAAAAAAAACgAAj/QAAgSwAAAAAAAAAASEZOVABAAA37SwP9/uEAyAP9AR8gAAAhAAAAAAH0Au4AAAAgAAMAAQAAAAoASACUAANERkxUACpoZWJyACpsYXRuABQABAAAAAD//wAGAAAAAQACAAMABAAFAAQAAAAA//8ABQAAAAIAAwAEAAUABmFhbHQARGNjbXAAPmZyYWMAOGxpZ2EAMm9yZG4ALHN1cHMAJgAAAAEABQAAAAEABwAAAAEACQAAAAEABgAAAAEAAgAAAAIAAAABAAoBlAFuASQBFgEWAOQAqABgAD4AFgAEAAAAAQAIAAEAGgABAAgAAgAMAAYAyAACAJYAxwACAIsAAQABAH8AAQAAAAEACAACAA4ABADJAMoAyQDKAAEABAABADYAXgCbAAYAAAACACQACgADAAEANAABABIAAAABAAAACAABAAIANgCbAAMAAQAaAAEAEgAAAAEAAAAIAAEAAgABAF4AAgABAQwBFQAAAAQAAAABAAgAAQAsAAIAFgAKAAEABAEZAAMBLQEQAAIADgAGARcAAwEtAQ4BGAADAS0BEAABAAIBDQEPAAEAAAABAAgAAgAWAAgAywDMAM0AzgDPARoBGwEcAAEACABeAHMAewCSAJsBDQEOAQ8AAQAAAAEACAABAEoAAQAGAAAAAgAoAAoAAwAAAAEAOgACABQAMAABAAAABAACAAEBigGPAAAAAwAAAAEAHAABABIAAQAAAAMAAgABAX8BiQAAAAEAAQCLAAMAAAABAAgAAQAKAAIAGAASAAEAAgBeAJsAAgDKAM8AAgDJAMsAAQAAAAEACAACABgACQDJAMoAzADNAIwAzgEaARsBHAABAAkAAQA2AHMAewCLAJIBDQEOAQ8AAAAAACwATgBaAGYAcgB+AIoAlgCiAK4AugDhARUBIQFRAV0BaAGLAbcBwwHPAeQB8AH8AggCFAIgAiwCOAJrAn4CsgK+AsoC1gLtAw4DGgMmAzIDPgNKA1YDYgNuA4wDpgOyA74DzQPoBBwEPgRKBHwEiASUBKAErAS4BMQE0AUKBRYFRAVnBYsF0gX+BkIGTgZaBmYGmgarBrcGwwbpBvUHAQcNBxkHJQdBB00Hhwe0B9IH3gfqCAAIDAgYCCQIYQhtCHkIhQiRCJ0IqQi1CMEIzQkKCXMJqwm3CeYJ8gn+CjIKeAqECpAKxwrTCt8K6wr3CwMLDwsbC2wLrAvbDA0MMgymDLIMvgznDRANHA0+DWcNcw1/DYsNlg2iDa0NuA3DDc4N2Q4fDjgORA5QDm4OmQ7NDu8O+w8tDzkPRQ9RD10PaQ91D4EPsA/qD/YQUhCKEMIQ9xEXEVYRYhFuEXoRxRH6Eh8SKxJ5EoUSpxKzEr8SyxLXEuMS/xMLE0UTcBOgE6wTuBPnE/wUCBQUFCAUMBQ8FEQUTBSDFLkU7xUdFUkVgBW4FdYV9BYRFjkWUxZzFoIWmha3FuMW9BcMFy8XRhdtF6MXsxfNF/gYGhhEGHcYjRipGNAY5xkVGToZRhlRGWEZcBl8GYgZlBmgGasZtxnDGc4Z2RnlGfAZ/BoHGhIaHhopGjUaQRpNGlgaZBpvGnsahxqSGtcbAhsZG0UbhxumG9wcIRw6HJMc2BznHSUdVB2rHb8d5h4iHkAeTx5YHnQegB6iHrIe0h7zHyIfOB9zH64fuh/KH9Yf5R/xIDEgcSCCIJMgrSDHINMg3yDrIPMg+yEHIRMhJCE1IUIhTiFaIX0hoCGpIbYhyyHZIe4h+iH6IfoiDiIiIkAiXiKSItwjJSNkI6AjzSQGJDEkPCRkJG0kmSShJKwkwSTdJTIlaiWAJZ0lrCW5JdIl8iY2JoonAScVJy8nQidjJ34oQyhkKHEohSj3KVEpbinNKhwqfiqrKtcrJCs6K1MreSueK7QrwivQK+Ur+CwLLCssUCx5LIYsliyfLLwsxSzOLOwtES0nLTUtQy1WLWkthi2rLdIt3y3fLfIt8i3/LgguES4aLiMuLC41Lj4uRy5QLlkuWS5iLmsukC7kLw8vPy9VL3ovry+7L8wv4i/4MC0wQzBPMGUwezCMMKowvjDlMSExOTE5MWYAAAACAAAAAwAAABQAAwABAAAAFAAEBZYAAADOAIAABgBOAA0ALwA5AH4BAwENARUBGQEhAScBKwExAUIBTwFTAVsBYQFrAXgBfgGPAZIB5wI3AlACVAJZAlsCgwKOApIClQKnArkCyALQAt0DBAMIAwwDHgMjAycDLgMxA2EDuAPAA8cFvAXDBccF6gX0HgceDx4hHiUeKx41HmMebx5/HpYeoR65Hs0gECAUIBogHiAiICYgLiAwIDogRCB0IKogrCEKISIhLiICIg8iEiIVIhoiHiIrIkgiYCJlJcolzPsC+zb7PPs++0H7RPtL//8AAAANACAAMAA6AKABDAESARgBIAEmASoBMQFBAUwBUgFaAWABagF4AX0BjwGSAeYCNwJQAlQCWQJbAoMCjgKSApQCpwK5AsYC0ALYAwADBgMKAx4DIwMnAy4DMQNhA7gDwAPHBbAFvgXHBdAF8x4GHgweIB4kHioeMh5iHmwefh6SHqAeuB7MIA4gEyAYIBwgICAmIC0gMCA5IEQgdCCqIKwhCiEiIS4iAiIPIhEiFSIZIh4iKyJIImAiZCXKJcz7Afsq+zj7PvtA+0P7Rv//AbQAAADcAAAAAAAAAAAAAAAAAAAAAP9bAAAAAAAAAAAAAAAA/uEAAP66/8EAAP+F/hj+T/5X/iH9+v40/ez97/4M/uMAAP7LAAAAAAAAAAD+bP5o/mX+X/5d/i79GP0R/Qv7+wAA+/T7A/tTAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA4SkAAAAA4P3hIOE54QPg0uFM4KrgpuAB4FfgTd9l310AAN9GAADfQd813w/fBgAA26bbowXGBcQFwwXCBcEFwAW/AAEAAADMAAAA6AFwAjYCOAI+AkACQgJEAAACRAJGAkwCTgJQAlIAAAJSAAAAAAJQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAI8AAACPgJIAlACVAAAAAAAAAAAAAAAAAAAAAAAAAAAAkQAAAAAAAACSAJKAlACUgJUAlYCXAJeAmQCZgJuAnACcgJ0AngAAAJ4AnwAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAJmAAACZgAAAAAAAAAAAmAAAAAAAAAAAAAAAAAAAAAAAAAAAAFJASQBKgEmAVEBaAF0ASsBMwE0AR0BagEiATcBJwEtASEBLAFhAVwBXQEoAXMAAQAMAA4AEQAVAB4AHwAjACcALQAuADEAMwA0ADYAQQBDAEQARQBKAE0AUwBVAFYAVwBaATEBHgEyAXwBLgGlAF4AagBsAG8AcwB/AIAAhgCLAJIAkwCWAJgAmQCbAKcAqQCqAKsAsQC1ALsAvQC+AL8AwwEvAXEBMAFYAUoBJQFPAVUBUAFWAXIBeAGjAXYAyQE6AWMBOQF3AacBegFrAb4BvwGeAcIBdQEfAaEBvQDKATsBGAEXARkBKQAHAAIABAAKAAUACQALABAAGwAWABgAGQArACgAKQAqABIANQA8ADcAOQA/ADoBZQA+AFEATgBPAFAAWABCAK8AZABfAGEAZwBiAGYAaQBuAHkAdAB2AHcAkACNAI4AjwBwAJoAoQCcAJ4ApQCfAVoApAC5ALYAtwC4AMAAqADBAAgAZQADAGAADwBtABwAegAXAHUAHQB7ACEAggAkAIcALACRADIAlwA9AKIAOACdAEAApgBGAKwARwCtAFIAugBbAMQAIACBAaIBoAGdAZ8BpAGpAagBqgGmAYEBggGEAYgBiQGGAYABfwGHAYMBhQFIAbgBRAG5AboBRQANAGsAEwBxABQAcgAiAIUAJgCJACUAiAAvAJQAMACVAEgArgBLALIATAC0AFQAvABcAMUAXQDGAIoABgBjABoAeAA7AKABSwFMATgBNgE1AT8BQAE+AX0BfgEgAW4BZAFZAW0BYgFeAAACiABaAhsABAIbAAQCGwAEAhsABAIbAAQCGwAEAhsABAIbAAQCGwAEAhsABAMzAAwCSQBcAkkAXAI5ADQCOQA0AjkANAJlAFwCegAiAmUAXAJlAFwCDABcAgwAXAIMAFwCDABcAgwAXAIMAFwCDABcAgwAXAIMAFwB6gBcAmYANAJmADQCZgA0AmYANAKIAFwCqwAhAogAXAKIAFwBAQBcAQEATgEB//ABAf/tAQH//wEB//0B2wAiAj0AXAI9AFwCPQBcAeEAXAHj//0C0QBcAoQAXAKEAFwClQA0ApUANAKVADQClQA0ApUANAKVADQClQA0ApUANAKVADMClQA0A0wANAIyAFwCQgBcApUANAIzAFwCEgArAhIAKwISACsCEgArAo8AOwIVABwCFQAcAhUAHAKDAFkCgwBZAoMAWQKDAFkCgwBZAoMAWQH9AAEB/QABAw4AGAH5ABAB1AAAAdQAAAHUAAACGwAuAhsALgIbAC4CGwAuAfUANQH1ADUB9QA1AfUANQH1ADUB9QA1AfUANQH1ADUB9QA1AfUANQH8AE0DEQA8AicAVQInAFUBxgAvAcYALwHGAC8CKAAxAh4ANwIoADECKAAxAewALwHsAC8B7AAvAewALwHsAC8B7AAvAewALwHsAC8B7AAvAbQAMwDy/9oBowADARwAHgH0AC8B9AAvAfQALwGc//8BsQAdAfQALwIcAFUCHAAKAhwAVQIcAFUCHABVAPIASADyAFUA8gBCAPL/4wDy/+0A8v/yAPL/9wDy/9wB5wBVAecAVQHnAFUA+gBVAQAAAQM5AFUCHwBVAh8AVQIcAC8CHAAvAhwALwIcAC8CHAAvAhwALwIcAC8CHAAvAcYAGQIcAC4CHAAvA0kALwIoAFUCKABVAigAMQFUAFUBoAAdAaAAHQGgAB0BoAAdAjcAVQHsACUBSwAZAUsAGQGiABkBSwAZAhwATgIcAE4CHABOAhwATgIcAE4CHABOAcsADAHLAAwCxgAYAbQADgHLAAwBywAMAcsADAHLAAwBowAeAaMAHgGjAB4BowAeAg4AHgIXAB4BVwAnAWsAHgFXACcBTwAdAU8AHQCm/+cBawAeAgYAPQJCABcB2gAJAjAAIQIOADMBdAAaAhcANQIiADwA4ABBAWkANwIzAD8CKQAxAOAAQQH3ADcB1wAtAdwAKwJEAEsCXQA2AOAAQQFwADACNQAxAhMAGgIjADsCHQA7AdIALgIEACcCJQA4AdgAKQJ2ADECXQAWAnYAMQJ2ACwCdgAxAnYALAIwACECMAAhAjAAIQIOADMBdAAaAhcANQIiADwA7//uAXYAFQIpADEA8f/2AfcANwHXAC0B3AArAl0ANgFwADACNQAxAiMAOwIdADsCBAAnAiUAOAHYACkCdgAxAl0AFgDgAD0CLAAyAewALQHDADEB7AAkAewAGwHsABEB7AAZAewAMQHsACwB7AApAewAKABV/1oDIwBLAxUASwMjACUBWABRAXIALwFxACgBnAA9AWAADADyAEIBKgAoAPIAQgDyAC8D5gBvARoAVgEaAFYB7AAjAPIAQgGjACYBowAwAZkAUQDyAFEA8gAvAWAACgH0AAwBKQAiASkAHAEpAF8BKQAcASkAUwEpACUDIAApAeAAKQE0ACkBNAApATQAKQGmACwBpgA2AQwALAEMADYBmQA9AZkAOQGZAD0A8gA5APIAPQDyAD0AyABNAPkAQwDVADIBhAAyATsALQDIAAAAyAAAAAD/jgAA/3AAAP9kAAD/VQHsAD0B7AAcAewANgHsABcB7AAQAt4ARQHsADUB7AAZAewAJQHsACUB8gC+AewAIgBV/1oB7AAiAewAIgHsACIDCQAoAUQANQHsACIB7AAiAewAIgHsACIB7AAzAewAIgIIACcDMQAkBJ8AKgHsACIB7AAiApwAWgIoACsB9AAVAlgALwIAADkA7QBcAO0AXANHADMCWAAhAiQAKQLoADIBoQAWAewALwJ2AAMBRgApAyAALgHsAD0BvQA3Ab0ANwAA/3MAAP/OAAD/eAAA/8gAAP+kAAD/aQAA/2kAAP9mAAD/lgAA/1UAAP9+AAD/ogAA/84AAP+kAAD/ZgAA/34AAP46AAD/bQAA/8sAAP9/AAD/zgAA/3AAAP9wAAD/cQAA/6EAAP9SAAD/fQAAAAAA8gAzAPIAAABuABcCHADXAhwAdAIcAHgCHACyAhwAeAIcAIECHADcAhwAhgIcALMCHACMAhwAAAIcAKQCHABjAAAAIgAAACIAAAAiAAAAIgAAACIAAAAiAAAAIgAAACIAAAAiAAAAIgAAACIAAAAiAAAAIgAAACAAAAAiAAAAIgAAACIA5//cAVwAUwF0AC8BbgAlAXQAMQD6AAACHABDAAAAGgE+AAMAAQQJAAACagSsAAMAAQQJAAEAEgSaAAMAAQQJAAIADgSMAAMAAQQJAAMAOARUAAMAAQQJAAQAIgQyAAMAAQQJAAUAGgQYAAMAAQQJAAYAIgP2AAMAAQQJAAcAwAM2AAMAAQQJAAkAUALmAAMAAQQJAAwAGALOAAMAAQQJAA0BIAGuAAMAAQQJAA4ANAF6AAMAAQQJABkAHAFeAAMAAQQJAQAADAFSAAMAAQQJAQEAFAE+AAMAAQQJAQIACgE0AAMAAQQJAQMADgSMAAMAAQQJAQQAEAEkAAMAAQQJAQUACAEcAAMAAQQJAQYAEgEKAAMAAQQJAQcAMgDYAAMAAQQJAQgAKACwAAMAAQQJAQkALACEAAMAAQQJAQoALgBWAAMAAQQJAQsAJgAwAAMAAQQJAQwAMAAAAEEAcwBzAGkAcwB0AGEAbgB0AFIAbwBtAGEAbgAtAEUAeAB0AHIAYQBCAG8AbABkAEEAcwBzAGkAcwB0AGEAbgB0AFIAbwBtAGEAbgAtAEIAbwBsAGQAQQBzAHMAaQBzAHQAYQBuAHQAUgBvAG0AYQBuAC0AUwBlAG0AaQBCAG8AbABkAEEAcwBzAGkAcwB0AGEAbgB0AFIAbwBtAGEAbgAtAFIAZQBnAHUAbABhAHIAQQBzAHMAaQBzAHQAYQBuAHQAUgBvAG0AYQBuAC0ATABpAGcAaAB0AEEAcwBzAGkAcwB0AGEAbgB0AFIAbwBtAGEAbgAtAEUAeAB0AHIAYQBMAGkAZwBoAHQARQB4AHQAcgBhAEIAbwBsAGQAQgBvAGwAZABTAGUAbQBpAEIAbwBsAGQATABpAGcAaAB0AEUAeAB0AHIAYQBMAGkAZwBoAHQAVwBlAGkAZwBoAHQAQQBzAHMAaQBzAHQAYQBuAHQAUgBvAG0AYQBuAGgAdAB0AHAAOgAvAC8AcwBjAHIAaQBwAHQAcwAuAHMAaQBsAC4AbwByAGcALwBPAEYATABUAGgAaQBzACAARgBvAG4AdAAgAFMAbwBmAHQAdwBhAHIAZQAgAGkAcwAgAGwAaQBjAGUAbgBzAGUAZAAgAHUAbgBkAGUAcgAgAHQAaABlACAAUwBJAEwAIABPAHAAZQBuACAARgBvAG4AdAAgAEwAaQBjAGUAbgBzAGUALAAgAFYAZQByAHMAaQBvAG4AIAAxAC4AMQAuACAAVABoAGkAcwAgAGwAaQBjAGUAbgBzAGUAIABpAHMAIABhAHYAYQBpAGwAYQBiAGwAZQAgAHcAaQB0AGgAIABhACAARgBBAFEAIABhAHQAOgAgAGgAdAB0AHAAOgAvAC8AcwBjAHIAaQBwAHQAcwAuAHMAaQBsAC4AbwByAGcALwBPAEYATABoAGEAZgBvAG4AdABpAGEALgBjAG8AbQBIAGUAYgByAGUAdwAgAEIAeQAgAEIAZQBuACAATgBhAHQAaABhAG4ALAAgAEwAYQB0AGkAbgAgAGIAeQAgAFAAYQB1AGwAIABIAHUAbgB0AFMAbwB1AHIAYwBlACAAaQBzACAAYQAgAHQAcgBhAGQAZQBtAGEAcgBrACAAbwBmACAAQQBkAG8AYgBlACAAUwB5AHMAdABlAG0AcwAgAEkAbgBjAG8AcgBwAG8AcgBhAHQAZQBkACAAaQBuACAAdABoAGUAIABVAG4AaQB0AGUAZAAgAFMAdABhAHQAZQBzACAAYQBuAGQALwBvAHIAIABvAHQAaABlAHIAIABjAG8AdQBuAHQAcgBpAGUAcwAuAEEAcwBzAGkAcwB0AGEAbgB0AC0AUgBlAGcAdQBsAGEAcgBWAGUAcgBzAGkAbwBuACAAMwAuADAAMAAwAEEAcwBzAGkAcwB0AGEAbgB0ACAAUgBlAGcAdQBsAGEAcgAzAC4AMAAwADAAOwBIAEYATgBUADsAQQBzAHMAaQBzAHQAYQBuAHQALQBSAGUAZwB1AGwAYQByAFIAZQBnAHUAbABhAHIAQQBzAHMAaQBzAHQAYQBuAHQAQwBvAHAAeQByAGkAZwBoAHQAIAAyADAAMgAwACAAVABoAGUAIABBAHMAcwBpAHMAdABhAG4AdAAgAFAAcgBvAGoAZQBjAHQAIABBAHUAdABoAG8AcgBzACAAKABoAHQAdABwAHMAOgAvAC8AZwBpAHQAaAB1AGIALgBjAG8AbQAvAGgAYQBmAG8AbgB0AGkAYQAvAEEAcwBzAGkAcwB0AGEAbgB0ACkALgAgAEMAbwBwAHkAcgBpAGcAaAB0ACAAMgAwADEAMAAgAFQAaABlACAAUwBvAHUAcgBjAGUAIABTAGEAbgBzACAAUAByAG8AIABBAHUAdABoAG8AcgBzACAAKABoAHQAdABwAHMAOgAvAC8AZwBpAHQAaAB1AGIALgBjAG8AbQAvAGEAZABvAGIAZQAtAGYAbwBuAHQAcwAvAHMAbwB1AHIAYwBlAC0AcwBhAG4AcwAtAHAAcgBvACkALAAgAHcAaQB0AGgAIABSAGUAcwBlAHIAdgBlAGQAIABGAG8AbgB0ACAATgBhAG0AZQAgACcAUwBvAHUAcgBjAGUAJwAuACAAUwBvAHUAcgBjAGUAIABpAHMAIABhACAAdAByAGEAZABlAG0AYQByAGsAIABvAGYAIABBAGQAbwBiAGUAIABTAHkAcwB0AGUAbQBzACAASQBuAGMAbwByAHAAbwByAGEAdABlAGQAIABpAG4AIAB0AGgAZQAgAFUAbgBpAHQAZQBkACAAUwB0AGEAdABlAHMAIABhAG4AZAAvAG8AcgAgAG8AdABoAGUAcgAgAGMAbwB1AG4AdAByAGkAZQBzAC4AAgAAAAAAAP+cADIAAAAAAAAAAAAAAAAAAAAAAAAAAAHDAAAAJADJAQIAxwBiAQMArQEEAGMArgCQACUBBQAmAP8AZAAnAOkBBgEHACgAZQEIAMgAygEJAMsBCgELACkAKgEMAQ0BDgArAQ8BEAERACwAzADNAM4AzwESAC0ALgETARQALwDiADAAMQBmADIA0AEVANEAZwEWANMBFwCRAK8AsAAzAO0ANAA1ADYBGADkARkBGgA3ARsBHAA4ANQA1QBoANYBHQA5AR4AOgA7ADwA6wC7AD0A5gEfASAARABpASEAawBsASIAagEjAG4AbQEkAKAARQElAEYBAABvAEcA6gEmAScASABwASgAcgBzASkAcQEqASsBLAEtAS4ASQBKAS8BMAExATIBMwBLATQBNQE2ATcATADXAHQAdgB3AHUBOABNAE4BOQE6AE8A4wBQAFEAeABSAHkBOwB7AHwBPAB6AT0BPgChAH0AsQBTAO4AVABVAFYBPwDlAUAAiQFBAFcBQgFDAUQAWAB+AIAAgQB/AUUAWQFGAFoAWwBcAOwAugFHAF0A5wFIAUkAwADBAJ0AngFKAUsBTAFNAU4BTwCbAVABUQFSAVMBVAFVAVYBVwFYAVkBWgFbAVwBXQFeAV8BYAFhAWIBYwFkAWUBZgFnAWgBaQFqAWsBbAFtAW4BbwFwAXEBcgFzAXQBdQF2AXcBeAF5AXoBewF8AX0BfgF/AYABgQGCAYMBhAGFAYYBhwGIAYkAEwAUABUAFgAXABgAGQAaABsAHAC8APQA9QD2AYoBiwGMAA0APwDDAIcAHQAPAKsABACjAAYAEQAiAKIABQAKAB4AEgBCAF4AYAA+AEAACwAMALMAsgAQAY0BjgCpAKoAvgC/AMUAtAC1ALYAtwDEAY8BkAGRAZIBkwADAZQBlQGWAZcBmACEAL0ABwGZAKYBmgCFAJYApwBhAZsAuAGcACAAIQCVAJIAnAAfAJQApADvAPAAjwCYAAgAxgAOAJMAmgClAJkBnQC5AF8A6AAjAAkAiACLAIoAhgCMAIMBngBBAIIAwgGfAaABoQGiAaMBpAGlAaYBpwGoAakBqgGrAawBrQGuAa8BsAGxAbIBswG0AbUBtgG3AbgBuQG6AbsBvAG9AI0A2wDhAN4A2ACOANwAQwDfANoA4ADdANkBvgG/AcABwQHCAcMBxAHFAcYBxwHIAckBygHLAcwBzQHOAc8A8QDyAPMB0AHRAJcGQWJyZXZlB3VuaTFFQTAHQW1hY3Jvbgd1bmkxRTA2B3VuaTFFMEMHdW5pMUUwRQZFYnJldmUHdW5pMUVCOAdFbWFjcm9uB0VvZ29uZWsGR2Nhcm9uCkdkb3RhY2NlbnQHdW5pMUUyMARIYmFyB3VuaTFFMkEHdW5pMUUyNAdJbWFjcm9uB3VuaTFFMzIHdW5pMUUzNAZPYnJldmUHdW5pMUVDQwdPbWFjcm9uBlNhY3V0ZQd1bmkxRTYyB3VuaTAxOEYHdW5pMUU2Qwd1bmkxRTZFB1VtYWNyb24HdW5pMUU3RQd1bmkxRTkyB3VuaTFFOTQGYWJyZXZlB3VuaTFFQTEHYW1hY3Jvbgd1bmkwMjUwB3VuaTFFMDcHdW5pMUUwRAd1bmkxRTBGBmVicmV2ZQd1bmkxRUI5B2VtYWNyb24HZW9nb25lawd1bmkwMjVCB3VuaTAyODMHdW5pMDI5MgZnY2Fyb24KZ2RvdGFjY2VudAd1bmkwMjk0B3VuaTAyOTUHdW5pMUUyMQRoYmFyB3VuaTFFMkIHdW5pMUUyNQd1bmkxRTk2B2ltYWNyb24HdW5pMUUzMwd1bmkxRTM1Bm9icmV2ZQd1bmkxRUNEB29tYWNyb24HdW5pMDI1NAZzYWN1dGUHdW5pMUU2Mwd1bmkwMjU5B3VuaTFFNkQHdW5pMDJBNwd1bmkxRTZGB3VtYWNyb24HdW5pMUU3Rgd1bmkwMjhFB3VuaTFFOTMHdW5pMUU5NQZhLnN1cHMGZS5zdXBzDGVvZ29uZWsuc3VwcwZqLnN1cHMGby5zdXBzBXRoZXRhA2NoaQd1bmkwNUQwB3VuaTA1RDEHdW5pMDVEMgd1bmkwNUQzB3VuaTA1RDQHdW5pMDVENQd1bmkwNUQ2B3VuaTA1RDcHdW5pMDVEOAd1bmkwNUQ5B3VuaTA1REEHdW5pMDVEQgd1bmkwNURDB3VuaTA1REQHdW5pMDVERQd1bmkwNURGB3VuaTA1RTAHdW5pMDVFMQd1bmkwNUUyB3VuaTA1RTMHdW5pMDVFNAd1bmkwNUU1B3VuaTA1RTYHdW5pMDVFNwd1bmkwNUU4B3VuaTA1RTkHdW5pMDVFQQd1bmlGQjJBB3VuaUZCMkIHdW5pRkIyQwd1bmlGQjJEB3VuaUZCMkUHdW5pRkIyRgd1bmlGQjMwB3VuaUZCMzEHdW5pRkIzMgd1bmlGQjMzB3VuaUZCMzQHdW5pRkIzNQd1bmlGQjM2B3VuaUZCMzgHdW5pRkIzOQd1bmlGQjNBB3VuaUZCM0IHdW5pRkIzQwd1bmlGQjNFB3VuaUZCNDAHdW5pRkI0MQd1bmlGQjQzB3VuaUZCNDQHdW5pRkI0Ngd1bmlGQjQ3B3VuaUZCNDgHdW5pRkI0OQd1bmlGQjRBB3VuaUZCNEIHdW5pMjEwQQhvbmUuc3Vwcwh0d28uc3Vwcwp0aHJlZS5zdXBzB3VuaTIwMTAHdW5pMDBBRAd1bmkwNUMwB3VuaTA1QzMHdW5pMDVGMwd1bmkwNUY0B3VuaTA1QkUHdW5pMDBBMAd1bmkyMDBFB3VuaTIwMEYHdW5pMjAyRAd1bmkyMDJFBEV1cm8JbmV3c2hlcWVsB3VuaTIyMTkHdW5pMjIxNQd1bmkyNWNjCWVzdGltYXRlZAd1bmkwMzA4B3VuaTAzMDcJZ3JhdmVjb21iCWFjdXRlY29tYgd1bmkwMzBCB3VuaTAzMDIHdW5pMDMwQwd1bmkwMzA2B3VuaTAzMEEJdGlsZGVjb21iB3VuaTAzMDQHdW5pMDMxRQxkb3RiZWxvd2NvbWIHdW5pMDMyNwd1bmkwMzJFB3VuaTAzMzEHdW5pMDM2MQt1bmkwMzA4LmNhcAt1bmkwMzA3LmNhcA1ncmF2ZWNvbWIuY2FwDWFjdXRlY29tYi5jYXALdW5pMDMwMi5jYXALdW5pMDMwQy5jYXALdW5pMDMwNi5jYXALdW5pMDMwQS5jYXANdGlsZGVjb21iLmNhcAt1bmkwMzA0LmNhcAt1bmkwMzI3LmNhcAd1bmkwMkQwB3VuaTAyQjkHdW5pMDJDOAd1bmkwNUIwB3VuaTA1QjEHdW5pMDVCMgd1bmkwNUIzB3VuaTA1QjQHdW5pMDVCNQd1bmkwNUI2B3VuaTA1QjcHdW5pMDVCOAd1bmkwNUI5B3VuaTA1QkEHdW5pMDVCQgd1bmkwNUJDB3VuaTA1QkYHdW5pMDVDMQd1bmkwNUMyB3VuaTA1QzcHdW5pMDIzNwxmb3Vyc3VwZXJpb3ICQ1IAAQAAAAoATgCSAANERkxUADRoZWJyACRsYXRuABQABAAAAAD//wADAAIAAwAEAAQAAAAA//8AAwABAAMABAAEAAAAAP//AAMAAAADAAQABWtlcm4APmtlcm4ANmtlcm4ALm1hcmsAJm1rbWsAIAAAAAEABQAAAAIAAwAEAAAAAgAAAAEAAAACAAAAAgAAAAEAAAAGNiAYQBfKAQAAkgAOAAYAEAABAAoAAAABAHAALAABAEIADAAJABoAGheQF5AAFBeQF5AXkBeQAAEAAALcAAEAAAKzAAEACQF/AYABgQGCAYQBhgGHAYgBiQALAAAXWgAAF1oAABdaAAAXWgAAF1oAABdaAAAXWgAAF1oAABdaAAAXWgAAF1oAAgABAX8BiQAAAAUAAAABAAgAAQBcAAwAAgBGABQAAQACAMcAyAACABwABgACFAAT+gAQAAoAAQGaAAAAAQGt/+wAAhPqE+QAEAAKAAEBlQAAAAEBlf/sAAUAABbOAAAWzgABFsgAABbOAAAWzgACAAEBigGOAAAABAAAAAEACAABFrIVpAAIFcwADAD8AAAVkhWMAAAAAAAAAAAAAAAAFZIVjAAAAAAAAAAAAAAAABWSFYwAAAAAAAAAAAAAAAAVkhWMAAAAAAAAAAAAAAAAFZIVjAAAAAAAAAAAAAAAABWSFYwAAAAAAAAAAAAAAAAVkhWMAAAAAAAAAAAAAAAAFZIVjAAAAAAAAAAAAAAAABWSFYwAAAAAAAAAAAAAAAAVkhWMAAAAAAAAAAAAAAAAFYYVgAAAAAAAAAAAAAAAABV6AAAAAAAAAAAAAAAAAAAVegAAAAAAAAAAAAAAAAAAFXQVbgAAAAAAAAAAAAAAABV0FW4AAAAAAAAAAAAAAAAVdBVuAAAAAAAAAAAAAAAAFWgVYgAAAAAAAAAAAAAAABVcFVYAAAAAAAAAAAAAAAAVaBViAAAAAAAAAAAAAAAAFWgVYgAAAAAAAAAAAAAAABVQFUoAAAAAAAAAAAAAAAAVUBVKAAAAAAAAAAAAAAAAFVAVSgAAAAAAAAAAAAAAABVQFUoAAAAAAAAAAAAAAAAVUBVKAAAAAAAAAAAAAAAAFVAVSgAAAAAAAAAAAAAAABVQFUoAAAAAAAAAAAAAAAAVUBVKAAAAAAAAAAAAAAAAFUQVPgAAAAAAAAAAAAAAABU4AAAAAAAAAAAAAAAAAAAVOAAAAAAAAAAAAAAAAAAAFTgAAAAAAAAAAAAAAAAAABU4AAAAAAAAAAAAAAAAAAAVMhUsAAAAAAAAAAAAAAAAFSYVIAAAAAAAAAAAAAAAABUyFSwAAAAAAAAAAAAAAAAVMhUsAAAAAAAAAAAAAAAAFRoVFAAAAAAAAAAAAAAAABUaFRQAAAAAAAAAAAAAAAAVGhUUAAAAAAAAAAAAAAAAFRoVFAAAAAAAAAAAAAAAABUaFRQAAAAAAAAAAAAAAAAVGhUUAAAAAAAAAAAAAAAAFQ4AAAAAAAAAAAAAAAAAABUIAAAAAAAAAAAAAAAAAAAVCAAAAAAAAAAAAAAAAAAAFQgAAAAAAAAAAAAAAAAAABUCFPwAAAAAFPYAAAAAAAAU8BTqAAAAABTkAAAAAAAAFN4U2AAAAAAAAAAAAAAAABTSFMwAAAAAAAAAAAAAAAAU0hTMAAAAAAAAAAAAAAAAFMYUwAAAAAAAAAAAAAAAABTGFMAAAAAAAAAAAAAAAAAUxhTAAAAAAAAAAAAAAAAAFMYUwAAAAAAAAAAAAAAAABTGFMAAAAAAAAAAAAAAAAAUxhTAAAAAAAAAAAAAAAAAFMYUwAAAAAAAAAAAAAAAABTGFMAAAAAAAAAAAAAAAAAUuhTAAAAAAAAAAAAAAAAAFMYUwAAAAAAAAAAAAAAAAAAAFLQAAAAAAAAAAAAAAAAUrgAAAAAAAAAAAAAAAAAAFKgUogAAAAAAAAAAAAAAABScFJYAAAAAAAAAAAAAAAAUnBSWAAAAAAAAAAAAAAAAFJwUlgAAAAAAAAAAAAAAABScFJYAAAAAAAAAAAAAAAAUkBSKAAAAAAAAAAAAAAAAFIQUfgAAAAAAAAAAAAAAABSEFH4AAAAAAAAAAAAAAAAUhBR+AAAAAAAAAAAAAAAAFHgUcgAAAAAAAAAAAAAAABR4FHIAAAAAAAAAAAAAAAAUeBRyAAAAAAAAAAAAAAAAFHgUcgAAAAAAAAAAAAAAABR4FHIAAAAAAAAAAAAAAAAUeBRyAAAAAAAAAAAAAAAAFGwAAAAAAAAAAAAAAAAAABRsAAAAAAAAAAAAAAAAAAAUZgAAAAAAAAAAAAAAAAAAFGAUWgAAAAAAAAAAAAAAABRUAAAAAAAAAAAAAAAAAAAUVAAAAAAAAAAAAAAAAAAAFFQAAAAAAAAAAAAAAAAAABROFEgAAAAAAAAAAAAAAAAUThRIAAAAAAAAAAAAAAAAFE4USAAAAAAAAAAAAAAAABROFEgAAAAAAAAAAAAAFEIUPBQ2AAAAAAAAAAAAABRCFDwUNgAAAAAAAAAAAAAUQhQ8FDYAAAAAAAAAAAAAFDAUPBQ2AAAAAAAAAAAAABQqFDwUNgAAAAAAAAAAAAAUQhQ8FDYAAAAAAAAAAAAAFEIUPBQ2AAAAAAAAAAAAABRCFDwUNgAAAAAAAAAAAAAUQhQ8FDYAAAAAAAAAAAAAFEIUPBQ2AAAAAAAAAAAAABQkFB4AAAAAAAAAAAAAAAAUGBQSFAwAAAAAAAAAAAAAAAAUBgAAAAAAAAAAAAAAAAAAFAYAAAAAAAAAAAAAAAAUABSEFSwAAAAAAAAAAAAAFAAUhBUsAAAAAAAAAAAAABQAFIQVLAAAAAAAAAAAAAAAABP6E/QAAAAAAAAAAAAAAAAT7gAAAAAAAAAAAAAAAAAAE/oT9AAAAAAAAAAAAAAAABP6E/QAAAAAAAAAAAAAE+gT4hPcAAAAAAAAAAAAABPoE+IT3AAAAAAAAAAAAAAT6BPiE9wAAAAAAAAAAAAAE9YT4hPcAAAAAAAAAAAAABPQE+IT3AAAAAAAAAAAAAAT6BPiE9wAAAAAAAAAAAAAE+gT4hPcAAAAAAAAAAAAABPoE+IT3AAAAAAAAAAAAAATygAAAAAAAAAAAAAAAAAAE8QTvhO4AAAAAAAAAAAAAAAAE7IAAAAAAAAAAAAAAAATrBOmAAAAAAAAAAAAAAAAAAAToBOaAAAAAAAAAAAAABOUE44AAAAAAAAAAAAAAAATlBOOAAAAAAAAAAAAAAAAE4gTjgAAAAAAAAAAAAAAAAAAE4IAAAAAAAAAAAAAAAAAABN8AAAAAAAAAAAAAAAAE5QTjgAAAAAAAAAAAAAAAAAAE3YVLAAAAAAAAAAAAAAAABN2FSwAAAAAAAAAAAAAAAATdhUsAAAAAAAAAAAAAAAAE3YVLAAAAAAAAAAAAAATcBNqE2QAAAAAAAAAAAAAE14TahNkAAAAAAAAAAAAABNeE2oTZAAAAAAAAAAAAAATWBNqE2QAAAAAAAAAAAAAE1ITahNkAAAAAAAAAAAAABNeE2oTZAAAAAAAAAAAAAATXhNqE2QAAAAAAAAAAAAAE0wTRgAAAAAAAAAAAAAAAAAAFZIAAAAAAAAAAAAAAAAAABWSAAAAAAAAAAAAAAAAAAAVkgAAAAAAAAAAAAAAAAAAE0ATOgAAAAATNAAAAAAAABMuFRQAAAAAEygAAAAAEyITHBMWAAAAAAAAAAAAABMQEwoTBAAAAAAAAAAAAAATEBMKEwQAAAAAAAAAAAAAEv4S+BUsAAAAAAAAAAAAABL+EvgVLAAAAAAAAAAAAAAS/hL4FSwAAAAAAAAAAAAAEvIS+BUsAAAAAAAAAAAAABLsEvgVLAAAAAAAAAAAAAAS/hL4FSwAAAAAAAAAAAAAEv4S+BUsAAAAAAAAAAAAABL+EvgVLAAAAAAAAAAAAAAS5hLgEtoAAAAAAAAAAAAAEv4S+BUsAAAAAAAAAAAAABL+EvgVLAAAAAAAAAAAAAAS1BQSEs4AAAAAAAAAAAAAEsgSwgAAAAAAAAAAAAAAABK8FE4AAAAAAAAAAAAAAAASthKwAAAAAAAAAAAAAAAAEqoTahKkAAAAAAAAAAAAABKeEpgSkgAAAAAAAAAAAAASnhKYEpIAAAAAAAAAAAAAEp4SmBKSAAAAAAAAAAAAABKeEpgSkgAAAAAAAAAAAAASjBKGEoAAAAAAAAAAAAAAEnoSdBU+AAAAAAAAAAAAABJ6EnQVPgAAAAAAAAAAAAAAABJuAAAAAAAAAAAAAAAAEnoSdBU+AAAAAAAAAAAAABJoEmISXAAAAAAAAAAAAAASaBJiElwAAAAAAAAAAAAAElYSYhJcAAAAAAAAAAAAABJQEmISXAAAAAAAAAAAAAASaBJiElwAAAAAAAAAAAAAEmgSYhJcAAAAAAAAAAAAABJKEkQAAAAAAAAAAAAAAAASShJEAAAAAAAAAAAAAAAAEj4SOAAAAAAAAAAAAAAAABIyEiwSJgAAAAAAAAAAAAATxBIgAAAAAAAAAAAAAAAAE8QSIAAAAAAAAAAAAAAAABIaEiAAAAAAAAAAAAAAAAASjBRUAAAAAAAAAAAAAAAAEhQSDhIIAAAAAAAAAAAAABIUEg4SCAAAAAAAAAAAAAASFBIOEggAAAAAAAAAAAAAEhQSDhIIAAAAAAAAAAAAABICAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAEfwAAAAAAAAAAAAAEfYR8BHqEeQAAAAAAAAAABHeEdgR0hHMAAAAAAAAAAARxhHAEboRtAAAAAAAAAAAEa4RqBGiEZwAAAAAAAAAABGWEagRkBGKAAAAAAAAAAARhBF+EXgRcgAAAAAAAAAAEWwRZhFgEVoAAAAAAAAAABFUEagRThFIAAAAAAAAAAARQhE8ETYRMAAAAAAAAAAAEYQRqBEqEXIAAAAAAAAAABEkEagRHhEYAAAAAAAAAAAREhFmEQwRBgAAAAAAAAAAEQAQ+hD0EO4AAAAAAAAAABUgEagQ6BDiAAAAAAAAAAAQ3BHYENYQ0AAAAAAAAAAAEYQRqBDKEXIAAAAAAAAAABDEEagQvhC4AAAAAAAAAAAR9hCyEKwQpgAAAAAAAAAAE/QQoBCaEJQAAAAAAAAAABCOEagQiBCCAAAAAAAAAAAUSBB8EHYQcAAAAAAAAAAAEGoRqBBkEF4AAAAAAAAAABBYELIQUhEYAAAAAAAAAAAQTBHYEEYQcAAAAAAAAAAAEEARZhA6EQYAAAAAAAAAABA0ETwQLhAoECIAAAAAAAAQHBAWEBAQCgAAAAAAAAAAEDQRPBAuECgQIgAAAAAAABA0ETwQLhAoECIAAAAAAAAQNBE8EC4QKBAiAAAAAAAAEDQRPBAuECgQIgAAAAAAABH2EfAR6hHkAAAAAAAAAAAR9hHwEeoR5AAAAAAAAAAAEfYR8BHqEeQAAAAAAAAAABHeEdgR0hHMAAAAAAAAAAARxhHAEboRtAAAAAAAAAAAEa4RqBGiEZwAAAAAAAAAABGWEagRkBGKAAAAAAAAAAAQBA/+D/gP8gAAAAAAAAAAD+wP5g/gD9oAAAAAAAAAABFCETwRNhEwAAAAAAAAAAAVFBHwD9QPzgAAAAAAAAAAESQRqBEeERgAAAAAAAAAABESEWYRDBEGAAAAAAAAAAARABD6EPQQ7gAAAAAAAAAAENwR2BDWENAAAAAAAAAAABDEEagQvhC4AAAAAAAAAAAR9hCyEKwQpgAAAAAAAAAAEI4RqBCIEIIAAAAAAAAAABRIEHwQdhBwAAAAAAAAAAAQWBCyEFIRGAAAAAAAAAAAEEwR2BBGEHAAAAAAAAAAABBAEWYQOhEGAAAAAAAAAAAQNBE8EC4QKBAiAAAAAAAAEBwQFhAQEAoAAAAAAAAAABGEEX4ReBFyAAAPyA/CAAAAAAAAAAAAAAAAAAEBE/8jAAEBHQH6AAEAgQH0AAEAFQFWAAEAtgH0AAEAMwD6AAEADAH0AAEArwAAAAEAfwH0AAEADAD6AAEAagH0AAEAfwAAAAEBKgH0AAEBSQD6AAEAWQH0AAEBRgAAAAECFQH0AAEBQAH0AAEBdADoAAEBQAAAAAEAoAD6AAEBZQAAAAEBEgEAAAEBKwAAAAEAlACLAAEA/AAAAAEA6QH0AAEA6QD6AAEA6QAAAAEBFgH0AAEBHwD3AAEAFwH0AAEBEgH0AAEBIAD6AAEBIACvAAEBCAH0AAEBMgEYAAEAEAH0AAEBGwH0AAEBHAD9AAEADgH0AAEAuAH0AAEAZgD6AAEAowAAAAEAcAD6AAEBMQH0AAEBSgD6AAEBNwAAAAEBIgH0AAEBIgD6AAEA8wH0AAEAgwD6AAH/2wH0AAEAygAAAAEA5wH0AAEArQDzAAEA0gAAAAEA/AH0AAEAuAD6AAEAtgD3AAEABAFWAAEBFAH0AAEBHgEAAAEASwH0AAEBFAAAAAEBGgH0AAEBDAD6AAEBDAAAAAEAswH0AAEAMQD6AAEACQH0AAEArAAAAAEAcAH0AAH//QD6AAEAWwH0AAEAcAAAAAEBEQH0AAEBCwD6AAEBEQAAAAEBDQH0AAEArwD6AAEAFAH0AAEBUwAAAAEAugH0AAEAXgEAAAEAHAH0AAEAzwAAAAEBEwH0AAEAtwD6AAEAFQH0AAEA2wAAAAEBFQH0AAEA+gBIAAEAJAH0AAEBGwAAAAEBmABsAAEBlgH6AAEA1gAAAAEA4f/sAAEA5QH6AAEA8QKzAAEAy/8jAAEBCgAAAAEA2v/sAAEA2gH6AAEBY//sAAEBYwH6AAEA5//sAAEA5wH6AAEBEQKzAAEBEQLcAAEBPgAAAAEBG//sAAEBEQH6AAEA0f/sAAEAzf/sAAEAjAJ/AAEA9gAAAAEA7v/sAAEA8AH6AAEA3AAAAAEA3P/sAAEA2wH6AAEAmAAAAAEA0QH6AAEBrv8jAAEBFwH6AAEApwLaAAEAd/8jAAEBIAH6AAEBpQAAAAEBugH6AAEA4wAAAAEA4//sAAEA4wH6AAEBDgKzAAEBDgLcAAEBDv/sAAEBDgH6AAEBPAAAAAEBFv/sAAEBIwH6AAEB9QAAAAEBpv/sAAEBogH6AAEAfwBsAAEAjf/sAAEAfABsAAEAfQAAAAEAkf/sAAEAef8NAAEAewLFAAEAegKzAAEAegLcAAEAegH6AAEAeQAAAAEAeP/sAAEAeQH6AAEBHv/sAAEA2f/sAAEAzv/sAAEBAgKzAAEBA/8jAAEBAgH6AAEAjgAAAAEAhf/sAAEA0v/sAAEAuQIHAAEAef/sAAEA2gAAAAEA+f/sAAEA8QH6AAEBCAH6AAEBCgKzAAEBCgLcAAEBAAAAAAEBAP/sAAEBCgH6AAEBD//sAAEBCAAAAAEBJv/sAAEBEAH6AAEBGP/sAAEBtAAAAAEBpf/sAAEBnQH6AAEBFf/sAAEBEgH6AAEBDQKzAAEBDQLcAAEBJQAAAAEA9//sAAEBDQH6AAEBFgAAAAEBGv/sAAEA7P/sAAEBNAAAAAEA+P/sAAEBiv/sAAEA///sAAEBQQAAAAEBQf/sAAEBCwAAAAEBC//sAAEBSAAAAAEBWP/sAAEBEAAAAAEBEP/sAAEA6wAAAAEBM//sAAEAhv/sAAEB5QAAAAEBTf/sAAEBSwAAAAEBS//sAAEBeQAAAAEBRf/sAAEBsQAAAAEBav/sAAEA1QBpAAEA/QAAAAEA8v/sAAEA0ABpAAEA+AAAAAEBIf/sAAEBR//sAAEA+//sAAEAgQAAAAEAgf/sAAEBIgAAAAEBV//sAAEBDgAAAAEBQ//sAAEBWv/sAAEA1QAAAAEAhP/sAAEBDwAAAAEBIv/sAAEBQgAAAAEBPf/sAAEBLAAAAAEBL//sAAEBVgAAAAEBVv/sAAEBLP/sAAEB1gAAAAEBo//sAAEBTAAAAAEBDP/sAAIABgABABwAAAAeAEEAHABEAIYAQACIAK4AgwCwAMgAqgDTAQsAwwAhAAAA4AAAAOAAAADgAAAA4AAAAOAAAADgAAAA4AAAAOAAAADgAAAA4AAAAOAAAQDaAAEA2gACANQAAQDaAAEA2gADAM4AAwDIAAMAwgADALwAAwDOAAMAtgADALYAAwCwAAMAsAAEAKoABACkAAMAngAFAJgABgCSAAcAjAAEAIwAAwCGAAEAUf/2AAEAQAGQAAEAfgGCAAEAQADzAAEAVP/qAAEAQAGuAAEAQAGIAAEAcf/2AAEAdv/2AAEAnP/2AAEAov/2AAEAqP/2AAEAQP/2AAEAAAAAAAEAAP/sAAEAAAH6AAIAAgF/AY4AAAGrAbsAEAACAAgAAQAIAAEAFgAFAAAABgBgAFIARAA8ADQAJgABAAYA0wDVAOMA5QDrAO0AAgDc//P/8wDs//L/8gABANT/4v/iAAEA7P/y//IAAgDb//L/8gDk/+L/4gACANb/9//3ANn/9//3AAIA3//i/+IA7P/i/+IAAgAIAAIUGgAKAAIQFAAEAAASUBC0ADIAKQAAAAAAAAAA//YAAAAAAAAAAAAA/+wAAAAAAAAAAP/6/+n/7AAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/2v/2//n/8AAAAAAAAAAAAAAAAAAA//MAAAAAAAD/8gAAAAAAAAAA//YAAAAAAAcAAP/9//7/+//H/9MAAP/+//AAAAAAAAAAAP/h//H/5wAAAAD/7QAA//0AAAAAAAD/9wAA//3//f/wAAAAAAAA//IAAAAAAAAAAAAA/+wAAAAKAAAABwAAAAH/6f/nAAD//v/2AAAAAAABAAAAAAAA//YAAP/s//H/9gAAAAAAAAAA//oAAAAHAAf/+gAA//YAAAAAAAAAAAAAAAAAAAAAAAAAAAAA//YAAAAAAAAAAAAAAAD/6QAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/9gAA/+MAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAP/s/+IAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/8wAAAAAAAAAA//kAAAAAAAAAAAAAAAAAAP/2ABj/+f/5AAD/8AAAAAD/+AAAAAD/+gAYAAD/zP/zAAD/9v/zAAAAAAAAAAD/zP+//8gAAAAA//MAAAAFAAAAAAAA/+cAAP/6//3//QAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA/+n/6QAAAAD/8wAAAAAAAAAAAAAAAP/xAAAAAP/x//0AAAAAAAAAAP/3AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAP/p//EAAAAAAAAAAAAAAAAAAAAAAAD/7AAAAAD/9gAAAAAAAAAAAAD/+gAAAAAAAAAAAAAAAAAA//3/7wAAAAAAAP/x//YAAAAA//YAAP/9AAAAAP/zAAAAAAAAAAAAAAAAAAAAAAAAAAAAAP/S//0AAP/2AAAAAAAAAAAAAAAAAAD/+gAA//UAAAAAAAAAAAAA/+0AAAAAAAAAAAAA/+wAAAAA/53/pwAAAAD/1QAAABkAAAAAAAAAAAAAAAAAAP/B/98AAAAAAAD/9gAAAAD/4f/sAAAAAAAAAAAAAP/9AAAAAAAAAAAAAAAAAAAAAAAAAAAAAP/sAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/8//9AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA//MAAAANAAAAAAAAAAL/7P/zAAAAAP/pAAAAAAAAAAAAAAAA//cAAP/zAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA/+n/7P/v//n/6AAA//YAAP/i/+//3f/y/+8AAAAAAAD/8wAA/+z/8wAAAAD/3QAAAAAAAAAAAAD/3v/5//kAAAAAAAAAAAAAAAD/7//v/+kAAAAAAAAAAAAAAAAAAAAAAAD/8P/sAAAAAAAAAAAAAP/S/78AAAAA/+UAAAAAAAAAAAAAAAAAAAAA/+z/7f/2/+b/8wAAAAAAAAAA//oAAP/zAAD/8wAA//AAAAAAAAAAAAAAAAAAAAAAAAAAEQAA//P/5//zAA8AAAAAAAAAJAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA/90AAP/9//0AAAAA//0AAP/sAAAAAAAAAAD/4QAAAAAAAAAAAAAAAP/p/+z/+gAAAAAAAAAA//b//f/9AAAAAAAAAAD/2P/9AAD//QAAAAAAAAAAAAAAAAAA//MAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAoAAAAAAAAAAP/p/+wAAAAA//YAAAAAAAAAAAAAAAD/9wAAAAD/9gAAAAAAAAAAAAD/9wAAAAAAAAAAAAD/9gAA/+gAAP/2AAAAAAAAAAAAAP/x//n//QAAAAD/5f/hAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAP/9AAAAAAAAAAD/5QAAAAD/9gAA//MAAP/p//b/5//s//MAAAAA/+7/+gAAAAD/5gAAAAD/8wAAAAAAAAAAAAD/9v/9//3//QAAAAAAAAAAAAD/8//2AAAAAP/6/+0AAP/2//IAAP/zAAD/+QAA/+YAAP/uAAD/8//w//EAAAAA/+EAAP/2//b//f/t//L/8gAAAAD/9P/2AAAAAAAAAAD/+gAA/+7/8f/xAAD/v//p/7b/2P/R/9EAAP+X/9f/yf+2/7b/3v/F/7MAAP/zAAD/7v/u/+wAAP/S/9gAAAAAAAD/qP+BAAAAAP/sAAAAAAAAAAAAAP/e/93/1wAA/9n/8/++//P/3//Y//b/qP/w/+X/v//E//P/2f/S//MAAAAAAAD/5//pAAD/zP/dAAAAAAALAAD/nAAAAAAAAAAAAAAAAP/6AAD/8//p/98AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAABQAAAAAAAAAAAAAAAA/+wAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/7AAA//YAAAAAAAAAAAAAAAAAAP/u//YABwAAAAD/7P/pAAAAAP/2AAAAAP/zAAAAAAAAAAAAAAAA//MAAAAAAAAAAAAAAAAAAAAHAAcACgAA/+8AAP/2AAD/8wAAAAAADgAAAAD/2v/2AAAAAP/6/+D/9gAAAAD/7QAO//b/5//3AAAAAP/nAAAAAAAAAAAAAAAAAAAAAP/3AAAAAAAA//oAAP/zAAD/6wAAAAAAAAAAAAkAAAAA/+f/9gAA//0AAP/z//0AAAAA/+wADwAA/+7/8wAAAAAAAAAAAAAAAAAAAAAAAAAA//b/5wAAAAAAAP/vAAAAAAAAAAAAAAAAAAAAAAAA//P//QAAAAD/8wAAAAD/6f/zAAAAAP/2AAAAAAAAAAAAAP/z/+wAAP/w//v//f/9AAAAAAAAAAAAAP/z//b/9gAA//X/5wAAAAT/9gAA/+UAAP/qAAD/yf/9/98AAAAA/4j/tQAA//P/7QAAAAD/3QAA/67/tv+2AAAAAP+0/8gAAAAAAAAAAP/jAAD/3//fAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA/+cAAAAAAAAAAAAEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA//YAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAACAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA//0AAAAA/9j/3QAAAAD/8wAAAAAAAAAAAAAAAAAAAAAAAP/w//D/8//sAAD/9gAAAAD//QAA/+wAAAAAAAAAAAAAAAAAAAAAAAD/4v/uAAAAAP/6AAAAAP/T/8wAAAAA/94AAAAAAAAAAAAAAAAAAAAA/+L/6//2//P/6QAAAAAAAAAA//oAAP/pAAD/4QAAAAD/zAAAAAAAAAAA//YAAAAAAAAAAP/sAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAP+kAAAAAP/2AAAAAAAAAAAAAAAAAAAAAAAA/94AAP/U/8gAAAAAAAAAAP/zAAAAAP/eAAD/9gAAAAAACwAA//MAAAAAAAAAAAAAAAAAAAAA/6j/uAAOAA7/+gAAAAAAAAAAAAAAAAAAAAAAAP/CAAD/vP/JAAD/8gAAAAAAAAAAAAD/0AAA/83/5QAAAAAAAP/vAAAAAAAAAAAAAAAAAAAAAP+o/7IAAAAA//oAAAAAAAYAAAAAAAAAAAAAAAD/8//2/9//2//w/+wAAP+7/+3/4gAA/+n/8f/t/+YAAAAEAAAAAP/2AAAAAP/sAAAAAAAAAAAAAP91AAUABf/pAAAAAAAAAAAAAP/u//H/5wAAAAAAAAAAAAAAAAAAAAD/6QAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/2AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAP/oAAD/1P/OAAAAAAAA/5P/9v+u/97/4AAA//b/7P/n//YAAAAAAAAAAAAA/+wAAAAAAAAAAAAA/20AAAAA/+kAAAAAAAAAAAAAAAAAAP/zAAD/9gAA//3//QAAAAAAAAAA//L/9v/h//0AAAAA//r/8wABAAAAAAAAAAAAAP/i//MAAAAAAAAAAP/uAAgAB//9AAAAAAAAAAAAAAAAAAD/+gAA//L/9v/s//P/4v/s//b/wf/2/+3/7f/r//f/9P/mAAAAAAAAAAAAAAAAAAD/6//vAAAAAAAOAAD/tgAKAAAAAAAAAAAAAAAAAAD/9//3//IAAAAA//n/7wAAAAAAAAAA/9//+f/5//b/8gAAAAD/9gAAAAAAAAAAAAAAAAAA//b/8QAAAAAADgAA/7wAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/+v/w//YABP/2AAD/9gAA//MAAP/mAAD/8QAA//P/7AAAAAD/8f/xAAAAAP/z//P/9v/6//oAAAABAAAAAAAAAAAAAAAAAAAAAP/x//P/9gAAAAAAAAAAAAAAAAAAAAD/+gAAAAD/8wAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/6f/sAAAAAAAAAAAAAAAAAAAAAAAA//MAAAAA/+8AAAAAAAAAAP/2AAD/7AAAAAAAAAAA/9AAAAAA//P/8gAA//3/8wAvAD0AMwAAAAAAAP/2AAAAAAAoACMAIwAAAAAAQwAvACIAAAAPAAAAGwAAAA4AAP/9AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/8QAAAAAAAAAAAAD//f/wAAAAAAAAAAD/vv/T/80AAAAAAAAAAAAAAAAAAAAA//EAAP/x//MABwAA//YAAP/p//MAAAAAAAD/zAAA//b/6f/2ABz//f/9AAAAAAAAAAAAAAAcAAD/7AAAAAAAIgAWAAD/zAAAAAAAAAAAAAAAAAAAAAAAHAAVAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/7wAAAAAAAAAAAAAAAAAAAAD//QAA/+z/9QAAAAAAAP/hAAD/9v/6AAAAAAAA/+n/7P/zAAAAAAAAAAD/9gAAAAAAAAAAAAAAAP/Y//cAAAAAAAAAAAAAAAAAAAAAAAAAAAAA//0AAP/2//0AAAAAAAD/3gAAAAAAAAAAAAAAAP/w/+n/6QAAAAAAAAAA//YAAAAAAAAAAAAAAAD/4v/3AAD/8wAAAAAAAAAAAAAAAAAAAAAAAP/w//b/9gAAAAAAAAAA//r//QAA//MAAAABAAAAAP/e/98AAAAA/+kAAAAA/+n/7AAAAAAAAAAAAAD/8gAA//YAAP/zAAAAAAAAAAAAAAAAAAIAGgABACIAAAAtADIAIgA2AEEAKABDAFMANABVAG4ARQBzAHsAXwB/AIIAaACFAIoAbACMAIwAcgCTAJYAcwCYALIAdwC0ALsAkgC9AMEAmgDDAMYAnwDIAMgAowDQANAApADSANIApQELAQsApgEhASMApwEnAScAqgEqASwAqwEvAS8ArgExATEArwEzATMAsAE1ATcAsQE5AUMAtAACAEQAAQAKAAQACwALABwADgAQAAIAHwAiAAIALQAtAB0ANgBAAAIAQwBDAAIARQBIAAkASgBMABAATQBSAAcAUwBTAB4AVQBVAB8AVgBWACAAVwBZABEAWgBdAAoAXgBnAAMAaABoAAUAaQBpAAMAbABvAAEAcQB7AAEAfQB9ABYAfwB/ABMAgACCAAwAhQCFAAwAhwCHACMAjACMAAYAkgCSABYAmACaAAYAmwCiAAEApACmAAEApwCnAAYAqQCpAAEAqgCqAAYAqwCuAA4AsQCyABQAtAC0ABQAtQC6AAUAuwC7ACYAvQC9ACcAvgC+ACgAvwDBAA0AwwDGAA8AxwDIABMA0ADQACUA0gDSACEBCwELAAEBIQEhABUBIgEjAAgBJAEkACIBJwEnAAgBKAEoACQBKgErABkBLAEsABUBMAEwABIBMgEyABIBNAE0ABIBNQE3AAsBOQE5AAsBOgE6ABcBOwE7ABgBPAE8ABcBPQE9ABgBPgE+AAgBPwE/ABoBQAFAABsBQQFBABoBQgFCABsBQwFDAAgAAgBKAAEACgAFAAsACwADAAwADQAaAA4AEAASABUAHQADAB4AHgAjAB8AIgAKAC0ALQAkAC4AMAATADEAMgAbAEAAQAADAEEAQQAlAEQARAAmAEUASAALAEoATAAUAE0AUgAIAFMAUwAnAFUAVQAoAFYAVgApAFcAWQAVAFoAXQAMAF4AZwAGAGgAaQACAGoAawABAGwAbgAXAHMAewACAH8AfwArAIAAggAOAIUAhQAOAIYAigAHAIwAjAAEAJMAlQAYAJYAlgAdAJgAmgAHAJsApQABAKYApgACAKcAqAABAKkAqQAEAKoAqgAtAKsArgAQAK8ArwAsALAAsAABALEAsgAZALQAtAAZALUAugAEALsAuwAvAL0AvQAwAL4AvgAxAL8AwQAPAMMAxgARAMgAyAAdANAA0AAuANIA0gAqAQsBCwAEASEBIQAcASIBIwAJAScBJwAJASoBKwAgASwBLAAcAS8BLwAWATEBMQAWATMBMwAWATUBNwANATkBOQANAToBOgAeATsBOwAfATwBPAAeAT0BPQAfAT4BPgAJAT8BPwAhAUABQAAiAUEBQQAhAUIBQgAiAUMBQwAJAAEBUAAEAAAAowmwCbAJsAmwCbAJsAmwCbAJsAmwCaIJogmUCZQJlAmCCYIJggmCCWQJVglWCVYJVglICTYJNgk2CSAJIAmCCYIJggmCCYIJggmCCYIJggmCCRIJAAmCCPII5AjkCOQI5AmCCNII0gjSCMwIzAjMCMwIzAjMCKYImAiGCHQIdAh0CGYIZghmCGYIYAhgCGAIYAhgCGAIYAhgCGAIYAf+B+gH0gfSB8gHyAfIB+gH6AfoB+gH6AfoB+gH6AfoB7IHoAegB6AHoAeWB5YHlgeWB5YHgAduB24HbgeWB5YHlgfSB9IH0gfSB9IH0gfSB9IH0gfSB9IH6AfSB9IHgAdcCuIK4griCuIHUgfSB0QHRAdEB4AHgAeAB4AHgAeABzIHIAcGBvQG9Ab0BfoF7AXsBewF7AXiBcwHgAVeBOwEzgNcAeoB5AHkAAIAGAABAAoAAAAMABQACgAeACIAEwAkACQAGAAuADIAGQA2AD8AHgBBAFMAKABVAG4AOwBzAHsAVQB/AIIAXgCFAIoAYgCMAIwAaACTAJUAaQCYALIAbAC0ALsAhwC9AMYAjwDRANIAmQELAQsAmwEeAR8AnAElASUAngEpASkAnwEtAS0AoAE6AToAoQE8ATwAogABANH/8wBcAAH/2AAC/9gAA//YAAT/2AAF/9gABv/YAAf/2AAI/9gACf/YAAr/2AAO//YAD//2ABD/9gAf//YAIP/2ACH/9gAi//YALf+wADb/9gA3//YAOP/2ADn/9gA6//YAO//2ADz/9gA9//YAPv/2AD//9gBA//YAQ//2AEn/8wBe/+kAX//pAGD/6QBh/+kAYv/pAGP/6QBk/+kAZf/pAGb/6QBn/+kAaP/sAGn/6QBs/94Abf/eAG7/3gBv/94Acf/eAHL/3gBz/94AdP/eAHX/3gB2/94Ad//eAHj/3gB5/94Aev/eAHv/3gB9ABwAgP/2AIH/9gCC//YAhf/2AIsAHACNABwAjgBEAI8ARACQACgAkQBEAJIAHACb/94AnP/eAJ3/3gCe/94An//eAKD/3gCh/94Aov/eAKT/3gCl/94Apv/eAKn/3gCxAAsAsgALALQACwC1/+wAtv/sALf/7AC4/+wAuf/sALr/7AEL/94AXAAB/8YAAv/GAAP/xgAE/8YABf/GAAb/xgAH/8YACP/GAAn/xgAK/8YADv/aAA//2gAQ/9oAH//aACD/2gAh/9oAIv/aADb/2gA3/9oAOP/aADn/2gA6/9oAO//aADz/2gA9/9oAPv/aAD//2gBA/9oAQ//aAEX/4QBG/+EAR//hAEj/4QBK/6oAS/+qAEz/qgBN/9oATv/aAE//2gBQ/9oAUf/aAFL/2gBT/8oAVf/aAFb/2gBX/6wAWP+sAFn/rABe/+AAX//gAGD/4ABh/+AAYv/gAGP/4ABk/+AAZf/gAGb/4ABn/+AAaf/gAGz/7QBt/+0Abv/tAG//7QBx/+0Acv/tAHP/7QB0/+0Adf/tAHb/7QB3/+0AeP/tAHn/7QB6/+0Ae//tAH0APQB//8YAkgA9AJv/7QCc/+0Anf/tAJ7/7QCf/+0AoP/tAKH/7QCi/+0ApP/tAKX/7QCm/+0Aqf/tAMf/xgDI/8YBC//tAAcAU//jAFX/8QBX/9cAWP/XAFn/1wB9ACIAkgAiABwAAf/pAAL/6QAD/+kABP/pAAX/6QAG/+kAB//pAAj/6QAJ/+kACv/pAEX/6QBG/+kAR//pAEj/6QBK/8EAS//BAEz/wQBT/+cAVv/nAFf/ygBY/8oAWf/KAFr/2gBb/9oAXP/aAF3/2gC+/+wA0v/sABsAEv/hACT/7gBK/6gAS/+oAEz/qABN/+EATv/hAE//4QBQ/+EAUf/hAFL/4QBT/8oAVf/hAFf/tgBY/7YAWf+2AH0ASgCAACIAgQAiAIIAIgCFACIAkgBKALv/7AC9//YAvwAOAMAADgDBAA4ABQDR//MBHf/pAR//7AEiAAYBLAAGAAIBO//zAT3/8wADAR//9QF3ABwBeQAOAD4ALf/YAEr/7ABL/+wATP/sAFP//QBW//0AV//6AFj/+gBZ//oAXv/sAF//7ABg/+wAYf/sAGL/7ABj/+wAZP/sAGX/7ABm/+wAZ//sAGn/7ABs//0Abf/9AG7//QBv//0Acf/9AHL//QBz//0AdP/9AHX//QB2//0Ad//9AHj//QB5//0Aev/9AHv//QB9//YAkv/2AJv//QCc//0Anf/9AJ7//QCf//0AoP/9AKH//QCi//0ApP/9AKX//QCm//0Aqf/9AL7/8wDD/+kAxP/pAMX/6QDG/+kBC//9ASL/4QEj/+EBJ//hAT7/4QFD/+EBdwAwAXkAKgAEAR0AAAEt//EBdwAwAXkADgAGAR3/6QEf/+wBIgAGASwABgF3ACoBeQALAAQBHf/1AS3/+AF3ACoBeQAMAAQBHf/1AS3/7AF3ADABeQALAAMBH//sAS0ADAF3ACMAAgEe/+cBd//gAAQBHgAOAR//7wEt/90BdwBCAAQBHf/rAR//5wF3AAEBef/sAAUBHf/nAR4AAAEfAAABLQAAAXcAAAACAR3/3QF5/+wABAEd/94BH//4AS0AMwF3AA8ABQEeAEIBH//sAS3/8QF3AE8BeQBNAAIBH//zAXcAFgAFAR3/5AEe/+cBHwAAAXf/+gF5AAAABQEd/90BHv/uAR///QF3AAEBef/wABgASv/pAEv/6QBM/+kAU//xAFX//QBX/+kAWP/pAFn/6QDD//AAxP/wAMX/8ADG//ABHf/JAR7/7gEf//0BKP/mATX/9gE2//YBN//2ATn/9gFA//EBQv/xAXcAAQF5//AAAQEd/8kAAwEf/8QBdwAUAXkAFAAEAR//0wEt/7sBdwAiAXkALwAEAR3/9gEf/9gBdwALAXkAFQADAS3/4AF3ACkBeQAhAAkAjQAOAI4ANgCPAD8AkAAUAJEANgEf//MBLf/PAXcANQF5ADUAAQEt/94ABAEf/8EBLf+kAXcAFAF5ACMAAwEd/+8BH//1AXcABAADAR3/9gEf//YBdwAcAAQBHf+/AR7/2AEt/8IBef/pAAMBH//4AS3/sQF3ACAABQEd/2sBHv+wAR//pwF3/6cBef+iAAQBHf/YAR//0wF3AAYBeQALAAMBLf/yAXcAFQF5AAcAAwEd/+QBdwALAXkADwAHAI4AHwCPACUAkQAfAR//8wEt/7gBdwAWAXkAKgAEAR3/3QEt/+4BdwAHAXn/5wADAR//zwF3AAwBeQAZAAMBHf/iAR//7AF5/+wABQEd/6EBHv/YAR//6QF3/7IBef/PAAIACAACANoACgACAEwABAAAAKIAaAAGAAUAAAAA/6X/sv+eAAD/kAAAAAAAAAAA/7MAAAAAAAAAAP9/AAAAAAAAAAAAAAAAAAD/4wAAAAAAAAAA/+0AAgAEASIBJAAAAScBKAADASoBKwAFAT4BQwAHAAIACQEiASMAAQEnAScAAQEqASsAAgE+AT4AAQE/AT8AAwFAAUAABAFBAUEAAwFCAUIABAFDAUMAAQACAAcBJAEkAAQBKAEoAAUBKgErAAEBPwE/AAIBQAFAAAMBQQFBAAIBQgFCAAMAAQAcAAQAAAAJAEIAPAA8ADwAQgA8ADIAMgA8AAEACQEhASIBIwEnASwBPgE/AUEBQwACASX/ygEp/3oAAQEd/3oAAQEd/8wABQBaAAACLgKUAAMACQAMAA8AFQAAcxEhESUhJycjBwc3JwERByczNzcjF1oB1P6NAQ9ONgQ4dIWFAVqDKwQyR/dHApT9bDaMZ2db7e/+JAHc7ytegIAAAAIABAAAAhcCkQANABEAAHMTMxMjAyYmJyMGBgcDNzUhFQThUuBOdxIhEQQPIRN4JwEsApH9bwF0OG06Om04/ozPOzv//wAEAAACFwNfBiYAAQAAAAcBkwEMAAD//wAEAAACFwNKBiYAAQAAAAcBlgEMAAD//wAEAAACFwNGBiYAAQAAAAcBlAEMAAD//wAEAAACFwMpBiYAAQAAAAcBkAEMAAD//wAE/zUCFwKRBiYAAQAAAAcBgAEM/Oj//wAEAAACFwNfBiYAAQAAAAcBkgEMAAD//wAEAAACFwMVBiYAAQAAAAcBmQEMAAD//wAEAAACFwNuBiYAAQAAAAcBlwEMAAD//wAEAAACFwNHBiYAAQAAAAcBmAEMAAAAAgAMAAADAwKRABIAFgAAcwEhFSEVMxUjFSEVIREjBgYHAzc1IRUMAV0BkP7l6+sBJf6RBBs4HcdIASECkT/ZPvw/AlY2bjf+hcY7OwAAAwBcAAACIAKRABEAGgAjAABzETMyFhYVFAYHFRYWFRQGBiMnMzI2NTQmIyM1MzI2NTQmIyNcvkNlODMvPUs+cEmDd1hiYFp3ZVhOUlBpApEhRzkxTg8EC09EQFYqO0JFQDw5PTM9Mv//AFz/WAIgApEGJgAMAAAABwGJASz8/gABADT/9AIYAp0AHgAARSImJjU0PgIzMhYXByYmIyIGBhUUFhYzMjY3FwYGAVBSgEorTmo+PFsbKRpDK0BgNTNfQDBMICkmYgxRmWpQfVouMR8xHSNDe1RVfEQoJC4tMv//ADT/9AIYA0wGJgAOAAAABwGVAUcAAP//ADT/9AIYAp0GJgAOAAAABgGaAAAAAgBcAAACMAKRAAoAFQAAcxEzMhYWFRQGBiMnMzI2NjU0JiYjI1yhZYlFRYhjWlFQaTQ0aVBRApFNkmdnlU89QnhUVHY/AAMAIgAAAkYCkQAEAA8AGgAAUzU3MxUDETMyFhYVFAYGIyczMjY2NTQmJiMjIlHh46JliUVFiGNbUlBoNDRoUFIBQykDLP69ApFNkmdnlU89QnhUVHY/AP//AFz/NQIwApEGJgARAAAABwGAAS/86P//AFz/WAIwApEGJgARAAAABwGJAS/8/gABAFwAAAHbApEACwAAcxEhFSEVMxUjFSEVXAF1/tX8/AE1ApE/2T78P///AFwAAAHbA18GJgAVAAAABwGTARwAAP//AFwAAAHbA0oGJgAVAAAABwGWARwAAP//AFwAAAHbA0YGJgAVAAAABwGUARwAAP//AFwAAAHbAykGJgAVAAAABwGQARwAAP//AFz/NQHbApEGJgAVAAAABwGAASL86P//AFwAAAHbA18GJgAVAAAABwGSARwAAP//AFwAAAHbAxUGJgAVAAAABwGZARwAAAABAFz/LgHqApEAIQAARSImNTQ2NjchESEVIRUzFSMVIRUjDgIVFBYzMjY3FwYGAZ4mNhUiE/7QAXX+1fz8ATUDFisbHhINEwkVDSzSLCobLyYMApE/2T78PwQfLxsZFwgGKAsQAAABAFwAAAHRApEACQAAcxEhFSEVMxUjEVwBdf7V/f0CkT/oPv7UAAEANP/0AiICnQAiAABFIiYmNTQ+AjMyFhcHJiYjIgYGFRQWFjMyNjc1IzUzEQYGAVlWhEstUG1BRFscKRlEM0VkNzRkRyZEFJDUH2cMUZlqUH1aLjMdMRslQ3tUVXxEFhSzPv7wISv//wA0//QCIgNMBiYAHwAAAAcBlQFfAAD//wA0//QCIgMwBiYAHwAAAAcBkQFfAAD//wA0//QCIgMVBiYAHwAAAAcBmQFfAAAAAQBcAAACLQKRAAsAAHMRMxEhETMRIxEhEVxKAT1KSv7DApH+6gEW/W8BOv7GAAIAIQAAAooCkQAEABAAAFM1NyEVAREzESERMxEjESERIVECGP3mSgE9Skr+wwHsJwUs/hQCkf7qARb9bwE6/sYA//8AXP8ZAi0CkQYmACMAAAAHAYYBQ/ze//8AXP81Ai0CkQYmACMAAAAHAYABQ/zoAAEAXAAAAKYCkQADAABzETMRXEoCkf1v//8ATgAAAQIDXwYmACcAAAAHAZMAgQAA////8AAAAREDRgYmACcAAAAHAZQAgQAA////7QAAARQDKQYmACcAAAAHAZAAgQAA/////wAAALMDXwYmACcAAAAHAZIAgQAA/////QAAAQQDFQYmACcAAAAHAZkAgQAAAAEAIv/0AYICkQAQAABXIiYnNxYWMzI2NREzERQGBtI9WBs1FzklNjZKJE0MNTIlJyRETAHM/i04XDYAAAEAXAAAAjgCkQAMAABzETMRMwEzBxMjAwcVXEoCAR1Uz+5TyXYCkf6tAVP5/mgBX4vUAP//AFz/NQI4ApEGJgAuAAAABwGAAUf86P//AFz/WAI4ApEGJgAuAAAABwGJAUf8/gABAFwAAAHIApEABQAAcxEzESEVXEoBIgKR/a4/AAAC//0AAAHOApEABwANAAB3Jz8CFw8CETMRIRUYG24xwRvcMQpKASPMLzsVZzB0FPoCkf2uPwABAFwAAAJ2ApEAHwAAcxEzExYWFzM2NjcTMxEjETQ2NjcjBwMjAycjHgIVEVxbgQwYDAQMFwx/XEUDBAIENIA0gTQEAgUDApH+mCJGIyNGIgFo/W8BfBxCQx2V/p8BYZUdQ0Ic/oQAAAEAXAAAAigCkQATAABzETMTFzMmJjURMxEjAycjFhYVEVxM+EgEAwdGTPhIBAQGApH+VocyaTIBZP1vAaqHMWUz/pj//wBcAAACKANHBiYANAAAAAcBmAFGAAAAAgA0//QCYQKdAA8AHwAARSImJjU0NjYzMhYWFRQGBicyNjY1NCYmIyIGBhUUFhYBS1J9SEh9UlF+R0d+UTxbMjJbPD1bMjJbDFSaaWmYUVGYaWmaVEFFfVRUekNDelRUfUUA//8ANP/0AmEDXwYmADYAAAAHAZMBSwAA//8ANP/0AmEDSgYmADYAAAAHAZYBSwAA//8ANP/0AmEDRgYmADYAAAAHAZQBSwAA//8ANP/0AmEDKQYmADYAAAAHAZABSwAA//8ANP81AmECnQYmADYAAAAHAYABS/zo//8ANP/0AmEDXwYmADYAAAAHAZIBSwAA//8ANP/0AmEDFQYmADYAAAAHAZkBSwAAAAMAM//kAmUCrQADABMAIwAAVycBFwEiJiY1NDY2MzIWFhUUBgYnMjY2NTQmJiMiBgYVFBYWXSoCCCr+6FF+R0d+UVJ9SEh9Uj1bMjJbPTxbMjJbHCACqSD9Z1SaaWmYUVGYaWmaVEFFfVRUekNDelRUfUX//wA0//QCYQNHBiYANgAAAAcBmAFLAAAAAgA0AAADGwKRABIAHQAAYSImJjU0NjYzIRUhFTMVIxUhFSUzESMiBgYVFBYWAXBkjkpLjmYBnv7m6+sBJP5eNDRSbzc3b0+VZ2eSTT/ZPvw/PQIXPndUVHlBAAACAFwAAAIGApEADAAVAABzETMyFhYVFAYGIyMRETMyNjU0JiMjXLZJbj08bEhwZVpXW1phApEkVEdEWCz+9gFHQ0hKOQAAAgBcAAACEAKRAA4AFwAAcxEzFTMyFhYVFAYGIyMVNTMyNjU0JiMjXEp6SG07PGxIem9aV1hZbwKRcCVTR0RYLJrWREhKOAAAAwA0/10CbAKdAA8AHgAuAABFIiYmNTQ2NjMyFhYVFAYGFyImJzceAjMyNjcXBgYnMjY2NTQmJiMiBgYVFBYWAUtSfUhIfVJRfkdHfnZdehpODTJDKBYhDQ8OMOM8WzIyWzw9WzIyWwxUmmlpmFFRmGlpmlSXX0YFIzAYBgQ7BQnVRX5WVHpDQ3pUVn5FAAMAXAAAAhkCkQAMABAAGQAAcxEzMhYWFRQGBiMjESEDNxMBMzI2NTQmIyNcyUJmOjpmQn8BH688x/6Nc1BUVFBzApEjUENAVSr+5AEwJP6sAVhBQkM3AAABACv/9AHrAp0ALQAARSImJzcWFjMyNjU0JiYnJy4CNTQ2NjMyFhcHJiYjIgYVFBYWFxceAhUUBgYBD0V0Ky0kXzVETB4yIF8ePik1Wzo7YyEoHUsvOUciMxlfJj0lNWMMNiwzJi4/MyMrHQ4qDSpAMTJNLC4jLx0iNy8hKhsLKhAsQjEzVDH//wAr//QB6wNfBiYARQAAAAcBkwEUAAD//wAr//QB6wNMBiYARQAAAAcBlQEUAAD//wAr/zUB6wKdBiYARQAAAAcBgAEQ/OgAAQA7//QCWwKdACIAAEUiJiY1NDY1IRUhHgIzMjY1NCYjIgYHJzY2MzIWFhUUBgYBRlR3QAEB5v5kAzJUN19taGUxVB4kI2dCVXtBRXwMU5hmBQsFOExrOZGHho8kHTMhK06YbW2ZUAABABwAAAH5ApEABwAAcxEjNSEVIxHmygHdyQJSPz/9rgD//wAc/zUB+QKRBiYASgAAAAcBgAEL/Oj//wAc/1gB+QKRBiYASgAAAAcBiQEL/P4AAQBZ//QCKgKRABcAAEUiLgI1ETMRFBYWMzI2NjURMxEUDgIBQTBVPyRKK0csLUksRyU/VAwdQGtOAYf+eVFdJyddUQGH/nlOa0Ad//8AWf/0AioDXwYmAE0AAAAHAZMBQQAA//8AWf/0AioDRgYmAE0AAAAHAZQBQQAA//8AWf/0AioDKQYmAE0AAAAHAZABQQAA//8AWf/0AioDXwYmAE0AAAAHAZIBQQAA//8AWf/0AioDFQYmAE0AAAAHAZkBQQAAAAEAAQAAAfwCkQANAABzAzMTFhYXMzY2NxMzA9XUT24SHBIEEx0RbkvSApH+ljtlOjplOwFq/W///wAB/zUB/AKRBiYAUwAAAAcBgAD//OgAAQAYAAAC9QKRACEAAHMDMxMWFhczNjY3EzMTFhYXMzY2NxMzAyMDJiYnIwYGBwOmjk1IChQKBAsZC19EXg0YDAQKEwpISItYaQgQCAQIEQlmApH+kzVrNTVrNQFt/pM1ajY2ajUBbf1vAZknSCYmSCf+ZwABABAAAAHqApEAGQAAcxMDMxcWFhczNjY3NzMDEyMnJiYnIwYGBwcQwLRSXg0YDwQOFQxcTrTBUmUMHRAEDhoNZAFUAT2vFisdHSsWr/6//rC3GTIeHjIZtwABAAAAAAHVApEADwAAcxEDMxcWFhczNjY3NzMDEcXFT1gRHxEEEiIQWE3GAQIBj78kRiUlRiS//nH+/v//AAAAAAHVA18GJgBXAAAABwGTAOoAAP//AAAAAAHVAykGJgBXAAAABwGQAOoAAAABAC4AAAHvApEACQAAczUBITUhFQEhFS4BYv6+AZ7+ngFlLAImPyz92j8A//8ALgAAAe8DTAYmAFoAAAAHAZUBGAAA//8ALv81Ae8CkQYmAFoAAAAHAYABGvzo//8ALv9YAe8CkQYmAFoAAAAHAYkBGvz+AAIANf/0AasB8QAdACgAAFciJiY1NDY3NCYmIyIGByc+AjMyFhYVESMnIwYGJzI2NzUOAhUUFsMoQCaRnREtKixLHB0VOkYnOkkhPAYDI1IbJUImVmQsNQwgPStQVREgPSUiEzIOHhQyWDv+1DsdKjsjIY4KIzIhKyf//wA1//QBqwMGBiYAXgAAAAcBggENAAD//wA1//QBqwLYBiYAXgAAAAcBhgENAAD//wA1//QBqwLjBiYAXgAAAAcBhAENAAD//wA1//QBqwKrBiYAXgAAAAcBfwENAAD//wA1/zUBqwHxBiYAXgAAAAcBgAD3/Oj//wA1//QBqwMGBiYAXgAAAAcBgQENAAD//wA1//QBqwKOBiYAXgAAAAcBiQENAAD//wA1//QBqwLsBiYAXgAAAAcBhwENAAD//wA1//QBuALOBiYAXgAAAAcBiAENAAAAAgBN//QBwwHxAB0AKAAARSImJjURMxczNjYzMhYVFAYHFB4CMzI2NxcOAic+AjU0JiMiBgcBDUVVJjwHAiRaMThKkZwMHDImKkcaHhQ3QpxWZSswISRJKAw0XTsBJUYlLUA+U1wSFy4mFyMTMw4dFPAKJTUiKCMlKgADADz/9ALrAfEAMgA/AEcAAFciJiY1NDY3NCYmIyIGByc+AjMyFhc2NjMyFhYVFAYHIR4CMzI2NxcGBiMiJiYnBgYnMjY3JiY1JwYGFRQWNyE0JiMiBgbKKEAmkJkQLSopShwdFTlCJDhGDhxTMjtTKgEC/sEBKkYrJTgbGx9KMyk/MBMwaRsjVSMICwF6ZjTxAQE+OiM7JwwfPSxQVREhPCUiEzIOHhQ7MTI6OGZGDBYJNVAtFxIzFB4aKxgsMTsqJRQ5HRkPPzIrJ+RQUyhJAAACAFX/9AH3AsoAFAAjAABFIiYnIwcjETMVBzY2MzIWFhUUBgYnMjY2NTQmJiMiBgcRFhYBJSJJIQMHOkgCIlApQFYrO2BDK0ImGzswIEQlIkIMIR0yAsrGWR4oPW9LU3U+PjBaPTdULyMj/vodGAD//wBV/1gB9wLKBiYAagAAAAcBiQEY/P4AAQAv//QBrQHxAB0AAEUiJiY1NDY2MzIWFwcmJiMiBgYVFBYWMzI2NxcGBgERQGY8QWg+MEQZJhUxHi5HKSdGLyM8FyAgUAw8cVFQczwjFzAUGTFYOTpXMB0VMR0h//8AL//0Aa0C6AYmAGwAAAAHAYUBEAAA//8AL/8gAa0B8QYmAGwAAAAHAYwBDgAAAAIAMf/0AdMCygATACEAAFciJjU0NjYzMhYXJzUzESMnIwYGJzI2NxEmJiMiBgYVFBb4Wm07YDgrPyADSDwGAxxNHSNAICE7IClDJ0kMhXlOcj8eG1S+/TY7HSo+IyIBBx0YMVc5WWcAAgA3//QB4QLZACkALQAARSImJjU0NjYzMhYXFyYmIyIGBhUUFhYzMjY2NTQuAic3HgMVFAYGAyclFwEMN2E9Nl07LVEaASNIJC9CIihCKC8+HydJYzshPG5XMzZfuBUBRxUMOGlJQ2U3Ky41NCEsSy80Tis1WzxahWJLIS8gU3GUYVB5QwIEJakmAP//ADH/NQHTAsoGJgBvAAAABwGAASb86P//ADH/WAHTAsoGJgBvAAAABwGJASb8/gABAC//9AHHAfEAIwAARSImJjU0NjYzMhYWFRQGByEnITQmIyIGBhUUFhYzMjY3FwYGARVAaD4+Yzg8Vi0CAv6lAQEfQjskRCwuTS4kPBsbH00MPXFQTnM+OGVGCxgJNU5RKVdEQVYsFhEwFB4A//8AL//0AccDBgYmAHMAAAAHAYIBCgAA//8AL//0AccC2AYmAHMAAAAHAYYBCgAA//8AL//0AccC4wYmAHMAAAAHAYQBCgAA//8AL//0AccCqwYmAHMAAAAHAX8BCgAA//8AL/81AccB8QYmAHMAAAAHAYABAPzo//8AL//0AccDBgYmAHMAAAAHAYEBCgAA//8AL//0AccCjgYmAHMAAAAHAYkBCgAAAAIAL/8zAccB8QAuADYAAEUiJjU0NjcGBiMiJiY1NDY2MzIWFhUUBgchHgIzMjY3Fw4CFRQWMzI2NxcGBgEhNCYjIgYGAWUlMykUDRoOQGg+PmM4PFYtAgL+tQIrSTAkPBsbLDETHRINEwkUDSz/AAEPQjskPyrNKiomPRIFAz1xUE5zPjhlRgsYCTZQLRYRMCAxKxUYGAcGJQsPAeROUSVIAAEAM//0AaAB8QAsAABXIiYmNTQ2Njc1JiY1NDY2MzIWFwcmJiMiBhUUFjMzFSMiBhUUFjMyNjcXBgb3N1k0HzEcJyswTy4sRiAeHDUhKzs6PTVDP0RJOSM9IiAqTgwkQC0jMR8HBA48Iiw5HRoXMRIVJygjLTUtKisxFhgxHhoAAf/a/yQBGQLYAB0AAFciJic3FhYzMjY1ETQ2NjMyFhcHJiYjIgYVERQGBh8VIw0PCRkNJhccPDESHgsPBxQKKxwaN9wIBDgDBTUsAnoxRiYIBTgDBjUt/YYxRiUAAAEAA/8kAZIB5QAfAABXIiYnNxYWMzI2NjU0JiMiBgcnEyM1IRUDNhYWFRQGBsZJWx8lGkg3JT0lSEQVGhEexfcBUMJDYDU6XdwwHS8YJyZGLkFJCAkrAQo8J/76CS1aPEZiMgACAB4AAAE3AtYAEAAVAABzETQ2NjMyFhcHJiYjIgYVEQM1NzMVYB49LhUpEBAOHA4jI4tFrwI5MUYmCQc4BwUyMP3IAak3BTwAAAMAL/8eAegB8QAzAEQAUwAAVyImJjU0Njc1JiY1NDY3NSYmNTQ2NjMyFhczFSMWFhUUBgYjIiYnBgYVFBYzMzIWFRQGBicyNjY1NCYjIyImJwYGFRQWEzI2NjU0JiYjIgYVFBYW9zxaMiYhEhkjEhcnMVExFCMMqGcTGC9PMRMmEQ4TJTFhVFM7bEAwRygzMlkLIhEcGU44HTEeHTEeLUAeMeIgOikgOhYEDCccHy4NBBNEKzVNKwcFORI2ITRLKgkICxwVGB83PCxMLzQeMBsjHAQEFC0WKTABeh42JCU1HT84JDYeAP//AC//HgHoAugGJgCAAAAABwGFAQIAAP//AC//HgHoArEGJgCAAAAABwGAAQIAAAAB//8AAAGIAtYAGQAAcxE+AjU0JiMiBgcnPgIzMhYWFRQGBgcRlTpLJEQ+NUcaJxQ3Ry84WzUsTTIBRSE/Riw7Ry0dMBYoGStVPjpVRSH+3QAAAQAdAAABpgLWABkAAHMRLgI1NDY2MzIWFhcHJiYjIgYVFBYWFxHIMU4sOGA6LUQzEycXQzFDSiVLOgEjIUVVOj5VKxkoFjAdLUc7LEY/If67//8AL/8eAegCjgYmAIAAAAAHAYkBAgAAAAEAVQAAAdECygAUAABzETMVBzY2MzIWFREjETQmIyIGBxFVSAIjTjFNR0ktMyc9JwLKxmYjMGBd/swBK0ZAJyf+nQAAAgAKAAAB0QLKABQAGQAAcxEzFQc2NjMyFhURIxE0JiMiBgcRAzU3MxVVSAIjTjFNR0ktMyc9J5NO/QLK7GYjMGBd/vIBBUZAJyf+wwI+JwQr//8AVf8ZAdECygYmAIYAAAAHAYYBHvze//8AVf81AdECygYmAIYAAAAHAYABHvzo//8AVf9YAdECygYmAIYAAAAHAYkBHvz+//8ASAAAAKwCsQYmAIwAAAAGAYB6AAABAFUAAACdAeUAAwAAcxEzEVVIAeX+G///AEIAAAEBAwYGJgCMAAAABgGCegD////jAAABEALjBiYAjAAAAAYBhHoA////7QAAAQYCqwYmAIwAAAAGAX96AP////IAAACxAwYGJgCMAAAABgGBegD////3AAAA/AKOBiYAjAAAAAYBiXoAAAP/3P8kAKwCsQAQACEALQAAVyImJzcWFjMyNjUTMxEUBgYjIiYnNxYWMzI2NRMzERQGBhMiJjU0NjMyFhUUBiEVIw0PCRkNJRgBSBo4LRUjDQ8JGQ0lGAFIGjgsFR0dFRYcHNwIBDgDBTUsAiT92zFGJQgEOAMFNSwCJP3bMUYlAykcFxUcHBUXHAAAAQBVAAAB3QLKAAwAAHMRMxEzEzMHEyMnBxVVRwPXUaK4T5NfAsr+EgEJwv7d8HCAAP//AFX/NQHdAsoGJgCTAAAABwGAAQz86P//AFX/WAHdAsoGJgCTAAAABwGJAQz8/gABAFX/9ADQAsoAEAAAVyImJjURMxEUFjMyNjcXBgakHCMQSA4JAwgHCggVDBctIQJx/YkSEAEBOAMEAAACAAH/9ADyAsoABwAYAABTJz8CFwcHEyImJjURMxEUFjMyNjcXBgYdHGAwRhthMEccIxFJDQkEBwcKCBQBLi88Fi0vPRf+mxctIQJx/YkSEAEBOAMEAAEAVQAAAusB8QAiAABzETMXMzY2MzIWFzY2MzIWFREjETQmIyIGBxEjETQmIyIHEVU8BgMgTSo5Pw4nTytLSEktMh0/I0ktMTpGAeVIIzEzKyo0YF3+zAErRkAnJ/6dAStGQE7+nQAAAQBVAAAB0QHxABQAAHMRMxczNjYzMhYVESMRNCYjIgYHEVU8BgMjTzFNR0ktMyc9JwHlSCQwYF3+zAErRkAnJ/6dAP//AFUAAAHRAs4GJgCZAAAABwGIASMAAAACAC//9AHtAfEADwAfAABFIiYmNTQ2NjMyFhYVFAYGJzI2NjU0JiYjIgYGFRQWFgEOO2Y+PmY7O2U/P2U7LEMlJUMsK0MlJUMMPHFRUHM8PHNQUXE8PTBXOjlYMTFYOTpXMAD//wAv//QB7QMGBiYAmwAAAAcBggEOAAD//wAv//QB7QLYBiYAmwAAAAcBhgEOAAD//wAv//QB7QLjBiYAmwAAAAcBhAEOAAD//wAv//QB7QKrBiYAmwAAAAcBfwEOAAD//wAv/zUB7QHxBiYAmwAAAAcBgAEO/Oj//wAv//QB7QMGBiYAmwAAAAcBgQEOAAD//wAv//QB7QKOBiYAmwAAAAcBiQEOAAAAAQAZ//QBlgHxAB0AAFciJic3FhYzMjY2NTQmJiMiBgcnNjYzMhYWFRQGBrUsUCAgGDwiLkcnJ0MqJDMYJhxJODliPDxmDCEdMRUdMFc6OlcxGBUwGCI8clFRcTwAAAMALv/pAe4B+wADABMAIwAAVycBFwMiJiY1NDY2MzIWFhUUBgYnMjY2NTQmJiMiBgYVFBYWUCIBniLgO2Y+PmY7O2U/P2U7LEQnJkUsK0QnJ0MXGwH3G/4UPHFRUHM8PHNQUXE8OzBXOT1ZMDBXOT1ZMAD//wAv//QB7QLOBiYAmwAAAAcBiAEOAAAAAwAv//QDJAHxACYANgA+AABFIiYmNTQ2NjMyFhc2NjMyFhYVFAYHIR4CMzI2NxcGBiMiJicGBicyNjY1NCYmIyIGBhUUFhY3ITQmIyIGBgEIOmM8PWM6OWAaHFs2O1QsAgL+vQErRyskOxsbHk0zOl8cHFw8KkElJUEqKkAlJUD+AQZBOyM7Jww8cVFQczxBPztFOGZGDBYJNVAtFxIzFB5EOj5APTBXOjlYMTFYOTpXMOJQUyhJAAIAVf8wAfcB8QAUACMAAFcRMxczNjYzMhYWFRQGBiMiJicXFRMyNjY1NCYmIyIGBxEWFlU8BgMhUSs/Vis7YDciRSMCfCtCJhs7MCBDJiNB0AK1OhwqPXBKU3U+HhtWpwECMFo9N1QvIyP++h0YAAACAFX/MAH3AsoAFAAjAABXETMVBzY2MzIWFhUUBgYjIiYnFxUTMjY2NTQmJiMiBgcRFhZVSAEhTilAVyw7YDcjRCIBfCtCJhs7MCBDJiNB0AOaxVUaJz1wSlN1Ph0aVKcBAjBaPTdULyMj/vodGAAAAgAx/zAB0wHxABMAIQAARTU3BgYjIiY1NDY2MzIWFzM3MxEDMjY3ESYmIyIGBhUUFgGLAx5MLFptO2A4KkEgAwc6yyNAICE7IClDJ0nQsFodKYV5TnI/Hhwu/UsBAiMiAQcdGDFXOVlnAAEAVQAAAVYB8QASAABzETMXMzY2MzIWFwcmJiMiBgcRVTwGAxlHKg8YCw4MEw8fRBoB5VkuNwUFQAQEM0D+xAABAB3/9AF/AfEAKgAAVyImJzcWFjMyNjU0JiYnLgI1NDYzMhYXByYmIyIGFRQWFhceAhUUBgbRNF4iJR9FLjIyIjMcIkQtV04sTBsjGTUiMC4fMhwkRS4oTgwnHDEZIjAhGiMZCgwiNCk5TyAWLxIZLR0YHxYLDSE2LyZBJ///AB3/9AF/AwYGJgCrAAAABwGCANsAAP//AB3/9AF/AugGJgCrAAAABwGFANsAAP//AB3/NQF/AfEGJgCrAAAABwGAANz86AABAFX/9AIaAtQANgAARSImJzcWFjMyNjU0LgQ1ND4CNTQmIyIGFREjETQ2NjMyFhYVFA4CFRQeBBUUBgYBfilFHh4cMx0sLR0uMi4dGyQcLCs2PkgtVDwyRiUcJRwdLjIuHSZGDBsXMxYWNSAfKBwZHy8iIzIrMCAnM09R/ggCBz9cMidBJyY2LCscGSEZGiQ1KilCJwACACX/9AG9AfEAGgAhAABXIiYmNTQ2NyEuAiMiBgcnNjYzMhYWFRQGBicyNjchFBbsPFkyAwEBTAIlQS4lPxwbIVE0PGA3OF48O0gH/vFJDDhoSgwYCTJNLBcUNBYcPHJQT3I+O1hPVFMAAQAZ//QBPwJuABcAAFciJjURIzU3NzMVMxUjERQWMzI2NxcGBuhMOklMCT2FhSEsDR8MDxQvDFhGARc3BYmJPP7nLTMIBTcHC///ABn/NQE/Am4GJgCxAAAABwGAAM386AACABn/JAJiAtgAHQA1AABFIiYnNxYWMzI2NRE0NjYzMhYXByYmIyIGFREUBgYnIiY1ESM1NzczFTMVIxEUFjMyNjcXBgYBaBQkDA4KGA0mGBs8MRMdCw4HFAsrHBk4rkw6SUwJPYWFISwNHwwPFC/cCAQ4AwU1LAJ6MUYmCAU4AwY1Lf2GMUYl0FhGARc3BYmJPP7nLTMIBTcHC///ABn/WAFPAm4GJgCxAAAABwGJAM38/gABAE7/9AHIAeUAFAAAVyImNREzERQWMzI2NxEzESMnIwYG4UtISC4zJj4kST0GAyJMDGBdATT+1UZBKS0BXP4bTSgx//8ATv/0AcgDBgYmALUAAAAHAYIBEQAA//8ATv/0AcgC4wYmALUAAAAHAYQBEQAA//8ATv/0AcgCqwYmALUAAAAHAX8BEQAA//8ATv/0AcgDBgYmALUAAAAHAYEBEQAA//8ATv/0AcgCjgYmALUAAAAHAYkBEQAAAAEADAAAAb8B5QANAABzAzMTFhYXMzY2NxMzA72xS2ALGAsECxgLYEiuAeX+5SNIIyNIIwEb/hv//wAM/zUBvwHlBiYAuwAAAAcBgADn/OgAAQAYAAACrgHlACEAAHMDMxMWFhczNjY3EzMTFhYXMzY2NxMzAyMDJiYnIwYGBwOhiUtMCA8GBAgRCU5JTwkRCAQIDwlKRoRaSggQCQQJEApIAeX+3yJCIiJCIgEh/t8iQiIiQiIBIf4bAQ8jRCQkRiP+8wABAA4AAAGmAeUAGQAAczcnMxcWFhczNjY3NzMHFyMnJiYnIwYGBwcOoJRPRAwZDAQMFgs/TJOfT0sMHA0EDRkNRv3obxQoFBQoFG/v9nYWLBUVLBZ2AAEADP8sAb8B5QAbAABXIiYnNxYWMzI2NzcDMxMWFhczNjY3EzMDDgJWEBwLDggVCSo4DwzES2gLGgsECxUKW0e4ES5D1AYEOwMFPzAlAej+6h9HIiFHIAEW/e4uTC0A//8ADP8sAb8DBgYmAL8AAAAHAYIA8QAA//8ADP8sAb8CqwYmAL8AAAAHAX8A8QAAAAEADAAAAb8C1gAbAABzEz4CMzIWFwcmJiMiBgcHEyMDJiYnIwYGBwMMxBAuQy8RGwsOBxUKKjYRFsNLZwwZDAQLFAtaAjAuSy0FBToCBT4wQ/4YARUgSCEhSCD+6wABAB4AAAGKAeUACQAAczUBIzUhFQEhFR4BB+oBRv75ARAnAYI8J/5+PP//AB4AAAGKAugGJgDDAAAABwGFAOUAAP//AB7/NQGKAeUGJgDDAAAABwGAAOH86P//AB7/WAGKAeUGJgDDAAAABwGJAOH8/v//AB4AAAHIAtYEJgB/AAAAJwCMARwAAAAHAYABlgAA//8AHv/0AewC1gQmAH8AAAAHAJYBHAAA//8AJwGFASYC1gYGAMsAAP//AB4BhQFMAtYGBgDPAAAAAgAnAYUBJgLWABkAIwAAUyImNTQ2NyYmIyIGByc2NjMyFhUVIycjBgYnMjY3NQYGFRQWiCs2X2kBGiUbOBQVGEUnPDMsBwQUMw8VKxZRQCABhTQqNTgKIS0XDCcOHEY9xiYSHC4UFlkIKR4aGgACAB0BhQE0AtYAGgAiAABTIiYmNTQ2NjMyHgIVFAYHIxYWMzI2NxcGBiczNCYmIyIGuSxGKilDKCYyHg0BA9wDOS8YKxAWFjeHrg8jHyYyAYUoSzYzTCkcLDQWCg0MMzsPCyQOFsIYLR00AAACAB0BhQE0AtYAGgAiAABTIiYmNTQ2NjMyHgIVFAYHIxYWMzI2NxcGBiczNCYmIyIGuSxGKilDKCYyHg0BA9wDOS8YKxAWFjeHrg8jHyYyAYUoSzYzTCkcLDQWCg0MMzsPCyQOFsIYLR00AAAC/+cA+wB8A1kAEAAcAAB3IiYnNxYWMzI2NREzERQGBhMiJjU0NjMyFhUUBhYPFAwMBwwKGA84EicfEhYWEhEWFvsFAy0CAx8dAWf+nSMyGwIUFRAQFRUQEBUAAAIAHgGFAUwC1gAPABsAAFMiJiY1NDY2MzIWFhUUBgYnMjY1NCYjIgYVFBa1KUQqKkQpKUQqKkQpKzIyKysyMgGFKUs1NUsoKEs1NUspL0Q2N0NDNzZEAAADAD3/9AHJAtYAAwARACMAAFM1IRUDIiY1NDY2MzIWFhUUBicyNjY1NC4CIyIOAhUUFhZlATyeXGowWD4+WDBqXCQ6IBMhLxsbLyETIDkBTzU1/qWywnekU1Sjd8KyPTuIdFB0SiMjSnRQdIg7AAEAF//0AioB5QAlAABFIiYmNTQ+AjcjFAYHJzY2NSM1NyEVIw4DFRQWMzI2NxcGBgHfIywUAQIBAbUSC0oREnFFAc5jAgMBARYXBxMOCgwfDBozJhRJW18pZ95mBGfcZDkFPiphXkoTGRcDAjgEBgABAAn/QQHgAfEADQAAVycTAzcTMxMzAxMHAyNSScK+SJgEgk6tzEapBL8MAVYBOhT+9AEA/r/+sBMBJgABACEAAAINAisADgAAYSMDAyMTNyczFxc3NzMDAg1U5GtJbRtcT1leFzxKcAFV/qsBWEKRjIxUxP6lAAACADMAAAHnAisADAAQAABhETQmIyM1MzIWFhURITUhFQFTOzG0xTJMKv6TAbQBdEU1PSRSRP6PPT0AAgAa//IBRgI2AA0AFgAAcyc1NCYnJzcXFhYVFRcFJzY2NxcOAvwmFyVAC1M8LiT+8BxFXx4ZEzZI0bovMQUKPA0JSkXB0A4+GVNEMTFIMwABADUAAAHhAisADQAAYRE0NjchNSEVIwYGFREBMg4N/ugBrEoPCgF5JjsUPT0ZQRv+hwAAAgA8AAAB3wIrAAwAEgAAYRE0JiMjNTMyFhYVESERNzMVEQGTPDHp+jJMKv5dC0EBdEU1PSRSRP6PAQ5DQ/7yAAEAQQAAAJsCKwAFAABzESczFxFODUwOAbZ1df5KAAEANwAAATICKwANAABzETQ2NyM1MxUjBgYVEX8PDWT7Tw8IAXkmOxQ9PRlBG/6HAAIAPwAAAe8CKwALAA8AAGERNCMjNSEyFhYVESERMxEBomz3AQg0TCj+UE0BZog9K1lE/p0CEf3vAAABADH/9gIBAjQAGQAAVwMzEz4DJzU0JiYnJzcXHgIXFxYOAnRDTTo0XEcmAxs5LTEFODlVMAIBAzpskgoCNf4SBSFAY0YZKT0lAwM+BAMsUkAcW4JSKgAAAQBBANIAmwIrAAcAAHc1NSczFxUHTg1MDgHST5V1dZU/AAEAN/84AbECKwAMAABFETQmIyM1MzIWFhURAWU8MMLSMkwqyAI8RTU9JFJE/ccAAAEALQAAAaECKwAXAABzNTMyNjY1NTQmJiMjNTMyFhYVFRQGBiMthDdIJCRIN4STSGQ1NWRIPSpTPD89Uio9OHBROVFwOAACACsAAAGuAs0ABgAKAABzEyE1IRUDAzUzFaDB/soBg8HCRgHuPUH+FgHu398AAwBLAAACAAIrAA0AEQAXAABhETQmIyM1MzIWFhURFSE1IQchETUzFREBszsxzt8ySyv+XwGHB/5sTQF0RTU9JFJE/so7PT0B9jU4/g0AAgA2/+gCLQIxABkAHwAAVzcWNjYnLgIjIgYGByc2NjMyHgIXFgYGJRMnMxcD8ghTZjADASc/KCk4HwcXEl84K0k4IQEDSI7+4kpNT0dGAj0SLHZeTVclIzghKkxFHD1mSXSUORgBhaap/n4AAQBB/zgAmwIrAAUAAFcRJzMXEU4NTA7IAn51df2CAAABADAAAAErAjYADQAAczUzETQmJyc3FxYWFREwriklQwtXPEA9AU0zLQYKPA0JT0X+dAAAAQAx//YCBAIrABkAAFcDNxM+BCc1NCYmIyEnITIWFxcWDgJ1PUg5KUxBMBgDGzYo/v0HARFaYQMBAzxukgoB+Cj+JwQTJTpVOxgqQic9cFweW31LJAACABr/4wHeAisADwATAABXJzc+BDUzFA4DBzUDMxMlC7I7SykTBEwIHDtlTYNNgR0+IgssSGyYZWyme1Q3DzkB7v4SAAEAO/84Ad4CKwAYAABBMhYWFREjETQmJiMjBwYWFhcHLgM3NwEWQFkvTR0+MGoSBwMbGxMlLxgCCCACKzhuUv4FAf09UipcJzgkBzIGHzBBKZYAAAEAOwAAAegCKwAiAABzNTMyPgI1NTQmJiMjBwYWFwcuAjc3MzIWFhUVFA4CI0yjJT4uGx8/L2kaDB05EDs/EAsmr0BbMiVBVTA9EytINT09UipvOj0LNQYwUDanOG5SOEVgOxsAAAIALv84AboCKwADAAcAAEUDMxMDJxMzASf5S/p4L6RKyALz/Q0BHTkBnQAAAwAnAAAB1QIrAAMABwALAABhATMBITUhFycnNzMBhv61TwFL/lIBexd8K21OAiv91T096ET/AAACADj/OAHyAisAEAAWAABzJz4DNzchNSEHBw4DBxE3MxUR5AgiPTAfBRH+mAG6AxAEJ0FZ4AtCPQQVL1VC0j03yUpvSibKAeREQ/4bAAABACkAAAGTAisADAAAYRE0JiMjNTMyFhYVEQFGOzGxwjJLKwF0RTU9JFJE/o8AAgAx//YCQQIrAA4AGgAAVwMzEz4DJyczFxYGBicnPgI3NzMHDgJ3Rko8TnZRKAEBTQEBZcx6EjU/HAEBSgEBKFcKAjX+DgUvVYFWko+Oul3XNhk4VkM7OktsTAABABb/8gIbAisAFgAAVyc+AjURMzIWFhURIxE0JiMjERQGBh4IKS0S9TJLK007MZclSw43BBwzJQGKJFJE/o8BdEU1/rs7TSkA//8AMf/2AkECrgYmAOwAAAAHAbkB1QBk//8ALP/2AkECrgYmAOwAAAAGAboLZP//ADH/9gJBAq4GJgDsAAAAJwG3ATT/9QAHAbkB1QBk//8ALP/2AkECrgYmAOwAAAAnAbcBNP/1AAYBugtk//8AIf+iAg0CKwYmANMAAAAHAbIAqgAK//8AIf8+Ag0CKwYmANMAAAAHAbMAqgAK//8AIQAAAg0CKwYmANMAAAAHAbcAuv9V//8AMwAAAecCKwYmANQAAAAHAbcAdwAH//8AGv/yAUYCNgYmANUAAAAGAbceDf//ADUAAAHhAisGJgDWAAAABwG3AG8AB///ADwAAAHfAisGJgDXAAAABwG3AMsAB////+4AAACpAisGJgDYDwAABgG3zAf//wAVAAABNQIrBiYA2QMAAAYBt/MH//8AMf/2AgECNAYmANsAAAAHAbcA3gAN////9gDSAKsCKwYmANwQAAAGAbfVY///ADf/OAGxAisGJgDdAAAABwG3AHgAB///AC0AAAGhAisGJgDeAAAABgG3bQD//wArAAABrgLNBiYA3wAAAAYBt0MH//8ANv/oAi0CMQYmAOEAAAAHAbcBCgAH//8AMAAAASsCNgYmAOMAAAAGAbcmB///ADH/9gIEAisGJgDkAAAABwG3ANwACv//ADv/OAHeAisGJgDmAAAABwG3AOAAB///ADsAAAHoAisGJgDnAAAABwG3AN8ABP//ACcAAAHVAisGJgDpAAAABgG3VJj//wA4/zgB8gIrBiYA6gAAAAcBtwDSAA3//wApAAABkwIrBiYA6wAAAAYBt2AH//8AMf/2AkECKwYmAOwAAAAHAbcBNP/1//8AFv/yAhsCKwYmAO0AAAAHAbcBCQAH//8APQAAAJsCqwYmANgAAAAGAbQbbAACADL/JAHVAfEAHwAtAABFIiYnNxYWMzI2NzcGBiMiJiY1NDY2MzIWFzM3MxEUBgMyNjc1JiYjIgYGFRQWAQMuWSYcJEkkRUMCARxLLTxaMjxhOClAHwMGPW1fJD8hITwfKkIoSdwcGjMYFko+YBwoO25NTG89HRwt/f5YZwEcJCP3HRgwUzdTZgACAC3/9AG/AooACwAbAABXIiY1NDYzMhYVFAYnMjY2NTQmJiMiBgYVFBYW9l5ra15fampfJzsgIDsnJzohIToMraChqKmgoK07OnpeX3c4OHdfXno6AAEAMQAAAZICfgAMAABzNTMRIzU2NjczETMVMZN0K0AaOIU9AeUvCBYP/b89AAABACQAAAG/AooAHAAAczU+AjU0JiMiBgcnNjYzMhYWFRQGBgc2NjMzFShiiEY9QShHHCsoWj06VS5Fek4aOBnBK2OVdjU4SCwiKis1LlM4PXyLUwIDPwAAAQAb//QBugKKAC0AAFciJiYnNxYWMzI2NTQmJiM1MjY2NTQmIyIGByc2NjMyFhYVFAYHFR4CFRQGBuszTjoVJR1POzxNKFxNRVEkPjUpRhwoJVg4NlQxQTUnQCY4XgwaKRcwHi9DOCc8ITkhOCMwOSUdLyItJkczOkwTBAkrQyw5USwAAQARAAABzwJ+ABAAAGERNDY3IwYGBwchFSE1ATMRATEEAQQMGg6fAXD+QgEXTgG0GUYZFioY5jovAZv9ggABABn/9AG8An4AIgAAVyImJic3FhYzMjY2NTQmIyIGBycTIRUjBzY2MzIWFhUUBgboM005FiUdTDsoQiZMQCIxHSgVATn5EhgwHjdZNTxhDBkoFjAdLSZELkVNFBMZATE/xw0PK1hFRWEyAAABADH/9AHDAooALwAARSIuAjU0PgIzMhYXByYmIyIGBhUUFhYzMjY2NTQmJiMiBgcnNjYzMhYWFRQGBgEKL1A5IShDVy8ySRopFDcfL08wIkIxIDUeGzYqIEwjAh9UKjdRLDNTDCdMc0tiiFQnJR0uGBs4gW9ObzolQiorQCMqMzwpMC1XQjxbNAABACwAAAHCAn4ADQAAcz4CNyE1IRUOAwe0BShOP/6+AZY5SCkUBXrCq1g/LEmHippeAAMAKf/0AcMCigAfAC4APAAAVyImJjU0NjY3NSYmNTQ2NjMyFhUUBgYHFR4CFRQGBicyNjY1NCYmJwYGFRQWFhM2NjU0JiYjIgYVFBYW+DteNiQ4HiM3L1AyVF8dKRMcMyAyXDsnOyEyUi8oNyVBVCMlGzQlLz0rRgwtUDIqQzEQBBlIMjFJKF9KIjwvDwQRKz0qMEwuNx41ISw3JRMaSC8kOSEBLR9CJSA2HzswJzUkAAABACj/9AG7AooALwAAVyImJzcWFjMyNjY1NCYmIyIGBhUUFhYzMjY3FwYGIyImJjU0NjYzMh4CFRQOAsoyShkpEzkdME8vIUIxITQeGzYqIEwjAh5VKjdSLDNUMjBPOiEoRFYMJhwuGBs4gW9ObzolQSsrQCMrMz0oMS1YQTxcMyZNc0thiVQnAAAB/1r/9AD4Ap0AAwAARwEzAaYBazP+lQwCqf1XAAADAEv/9ALyAp0AAwAMACUAAFcBMwEDESM1NjY3MxEBNT4CNTQmIyIGByc2NjMyFhUUBgYHMxWpAWsz/pU9VCArEzABET5TKiokGSwRIxZDJzpGKEQrqwwCqf1XASMBOCYGEw/+ev7pIjhTQR4oLSEZICEqPz8mRkotMQAAAwBL//QC8gKdAAMADAAZAABXATMBAxEjNTY2NzMRATU3IwcHMxUhNTczEboBazP+lU5UICsTMAGqBQQ0QeP+4Kc/DAKp/VcBIwE4JgYTD/56/unga1JkKh3+/noAAAMAJf/0AwACqQADACwAOQAAVwEzAQMiJic3FhYzMjY1NCYjNTI2NTQmIyIGByc2NjMyFhYVFAYHFhYVFAYGATU3IwcHMxUhNTczEd0BazP+lVwwSRYnEjQfITBCOzU5JyMWKhEjGD0nIjgiKB8iNCU+AbgFBDRB4/7gpz8MAqn9VwEXLCAeGyEnIiQkJisfHSQcFR8dIxkvICMwDggxKCQ0HP714GtSZCod/v56AAEAUQGXAN4DHQAIAABTESM1NjY3MxGlVCArEy8BlwE4JgYUDv56AAABAC8BlwFDAykAGAAAUzU+AjU0JiMiBgcnNjYzMhYVFAYGBzMVOz5TKiokGSwRIxZDJzpGJ0QsqwGXIjhTQR4oLSEZICEqPz8mRkotMQABACgBiwE/AykAKAAAUyImJzcWFjMyNjU0JiM1MjY1NCYjIgYHJzY2MzIWFhUUBgcWFhUUBga3L0oWJxI1HiExQzs1OSciFyoRIxg9KCE4IicfIjMlPgGLLCAeGyEnIiQkJisfHSQcFR8dIxkvICMwDggxKCQ0HAABAD0BrwFfAsgADgAAUyc3JzcXNzMXNxcHFwcniSU4Xw5kCSwJZA5gOSVEAa8aXScqGmtpGConXRpVAAABAAz/YAFWAsYAAwAARQEzAQEg/uw2ARSgA2b8mv//AEIBCACwAX0GBwEnAAABFAABACgAkQECAX0ADwAAdyImJjU0NjYzMhYWFRQGBpUdMR8fMR0dMh4eMpEeNSMkNB4eNCQjNR4A//8AQv/0ALAB1wYnAScAAAFuAAYBJwAAAAEAL/9aAL4AaQAUAABXJzY2NScXBgYjIiY1NDYzMhYVFAZCEykuCicHFQsXISMWHyJDpiwSQCpGOQoHGxsZHDAqPl7//wBv//QDeQBpBCYBJy0AACcBJwF7AAAABwEnAskAAAACAFb/9ADEAp4ABQARAAB3AyczBwMHIiY1NDYzMhYVFAZ0CgJKAgoZFiEhFhcgIMIBhFhY/nzOIBobICAbGiAAAgBW/0cAxAHxAAUAEQAAVzcTMxMXAyImNTQ2MzIWFRQGaAIKMgoCJRYhIRYXICC5VwGF/ntXAjUhGhogIBoaIQAAAgAjAAABzgKKABsAHwAAczcjNTM3IzUzNzMHMzczBzMVIwczFSMHIzcjBxMzNyNbGVFXE1ZcGDAXiRgwF1BWE1VbGTEZiRkfiROJzzSZNLq6uro0mTTPz88BA5kAAAEAQv/0ALAAaQALAABXIiY1NDYzMhYVFAZ5FiEhFhcgIAwgGhsgIBsaIAAAAgAm//QBcwKqABsAJwAAdyY+AzU0JiYjIgYHJzY2MzIWFhUUDgMXByImNTQ2MzIWFRQGoAYYKy4gFi0iIT0YKh9UNTJKKSEvLBsFHhYhIRYXICDCL0o8NzghHC8bHxwnIy4nRzAnQTk7RCrOIBobICAbGiAAAAIAMP87AX0B8QAbACcAAFciJiY1ND4DJzMWDgMVFBYWMzI2NxcGBgMiJjU0NjMyFhUUBtUySikhLy0aBUEGGCsuIBYtIiI9FyoeVSoWISEWFyAgxSdHLyhAOjtDKy9KPTY5IRsvGx8bJiIvAkEhGhogIBoaIf//AFEBuwFHArMEJgErAAAABwErAKgAAAABAFEBuwCfArMABQAAUycnMwcHYQ4CTgIOAbuiVlai//8AL/9aAL4B1wYnAScAAAFuAAYBIgAAAAEACv9gAVUCxgADAABXATMBCgEVNv7roANm/JoAAAEADP+EAej/twADAABXNSEVDAHcfDMzAAEAIv9oAQ0CxAAuAABXIiY1NDY2NTQmJzU+AjU0JiY1NDYzMxUjIgYVFBYVFAYHFRYWFRQGFRQWMzMV4zs4BAQiNCImDgQEODsqGyodBhogIBoGHSobmDdNJEA+Ih4wAS4BFiQTIj9AJE03Ki0yLVY1LzMJBAk0LjRWLjItKgAAAQAc/2gBBwLEAC4AAFc1MzI2NTQmNTQ2NzUmJjU0NjU0JiMjNTMyFhUUBgYVFBYWFxUGBhUUFhYVFAYjHBsqHQYaICAaBh0qGyo7OAQEDiYiMyMEBDg7mCotMi5WNC40CQQJMy81Vi0yLSo3TSRAPyITJBYBLgEwHiI+QCRNNwABAF//aAENAsQABwAAVxEzFSMRMxVfrnd3mANcKvz4KgAAAQAc/2gAygLEAAcAAFc1MxEjNTMRHHd3rpgqAwgq/KQAAAEAU/9QAQQC3AANAABXJiY1NDY3FwYGFRQWF9c9R0c9LTo6OjqwZd2EhN5kFl/ec3PdYAABACX/UADWAtwADQAAVyc2NjU0Jic3FhYVFAZSLTo6OjotPkZGsBZg3XNz3l8WZN6EhN0AAQApAOEC9wEVAAMAAHc1IRUpAs7hNDQAAQApAOEBtwEVAAMAAHc1IRUpAY7hNDQAAQApAN4BDAEXAAMAAHc1MxUp4945OQD//wApAN4BDAEXBgYBNwAA//8AKQDeAQwBFwYGATcAAP//ACwAQwFwAbUEJgE8AAAABwE8AJoAAP//ADYAQwF5AbUEJgE9AAAABwE9AJoAAAABACwAQwDWAbUABgAAdyc1NxcHF7WJiSF3d0OdOJ0cnZ4AAQA2AEMA3wG1AAYAAHcnNyc3FxVXIXd3IYhDG56dHJ04//8APf9yAWAAcwQnAUIAAP24AAcBQgCo/bj//wA5AbkBXAK6BCYBQQAAAAcBQQCoAAD//wA9AboBYAK7BCYBQgAAAAcBQgCoAAAAAQA5AbkAtAK6ABQAAFMiJjU0NjcXBgYVFyc2NjMyFhUUBnMbHzQxFiQlDCgJEAsTHxwBuSwpOlUdIxk5K0AxCQgYFxgcAAEAPQG6ALkCuwAUAABTJzY2NScXBgYjIiY1NDYzMhYVFAZTFiUlDSkJEAwTHhwVHB80AbojGToqQDEJCBkWGRssKTpUAP//AD3/cgC5AHMGBwFCAAD9uAABAE3/nAB7AoUAAwAAVxEzEU0uZALp/RcAAAIAQwARALUB1wADAAcAAHcnNxcDJzcXfTo6ODg6OjgROjg4ARo6ODgAAAEAMgH2AL0CtQADAABTJzcXWylXNAH2E6wbAAACADIB9gFQArUAAwAHAABTJzcXByc3F+4pVjX1KVc0AfYTrBukE6wbAAABAC0B7gEOAisAAwAAUzUzFS3hAe49PQAB/44C/wCQA9gACAAAUyc3IzUzJzcXJxk/v78/GWkC/xlCJD8bbQAAAf9wAwAAdAPYAAgAAEMnNxcHMxUjFydpaRk/wcA+AwBrbRpAJEIAAAL/ZAL/AKsD2AAIAA4AAEMnNyM1Myc3FwcnNyc3Fx8aP6KgPRpoBxlSUhlpAv8ZQiQ/G21sGVNSG20AAAL/VQMlAJ0D/QAIAA4AAFMnNxcHMxUjFwcnNxcHFx9mZhw/oaE/fWlpGVBQAyVtaxpCIkAabWsaUVMAAAIAPf/hAcICjQAcACAAAGUiJiY1NDY2MzIWFwcmJiMiBgYVFBYzMjY3FwYGBxEzEQElRGg8QWtBMEUYJBUzHjJLKllMJDsXISFQTTBIOGpMTWo3IxcuFBcsTzZQYR0ULxwjZwKs/VQAAgAcAGkB0QIqACAAMAAAdyc3JiY1NDY3JzcXNjMyFzcXBxYWFRQGBxcHJwYGIyInNzI2NjU0JiYjIgYGFRQWFkMnQBITExE/J0MxPz8xQyhBERQUEUEoQxc7HkAwcCI4ISE4IiE4IiI4aSlCGDojIzsYQilFJydFKUIYOyMjOhhCKUUTFCcQIz4qKT8kJD8pKj4jAAMANv+SAbAC7AAqAC4AMgAAVyImJic3FhYzMjY1NC4ENTQ2NjMyFhcHJiYjIgYVFB4EFRQGBgc1MxUDNTMV9SVGPRciIE0wOTspQEhAKS1PMztLHiccNiovOShBR0EoL1VNNzc3DBUkFTIaKTsxKzcnIitBMDJLKSsgLBweOC0mMSMhLkY3NU4rYnp6Atx+fgAAAwAX//QB5wKKAB0AIgAnAABFIiYmNTQ2NjMyFhcHJiYjIgYGFRQWFjMyNjcXBgYlNTchFSU1NyEVATxFajs+b0stTRkrFTQhN0woJ0kzJzkbLCFT/qRDASX+mEUBSwxQlGdnlFAtISkbIUJ5U1R7QyUkJysy+SkELXIpBC0AAgAQ/58ByQKdAB8AJAAAVyImJzcWFhc+AjcTPgIzMhYXByYmIyIGBgcDDgIDNTczFVcWJA0PCxoNICgWBiUIJUIzFygOEAsbFB8mFQQpBiNCGUXiYQkGNwUFAQEmRjIBWEJbLwsHOQUKJz8k/pQ+XDIBwDQFOQAAAgBFAAACpQIrAA4AHQAAcxEzMhYWFRUjNTQmIyMRMxEzET4DNSczFxYGBkX0NUUgPig2pV4+W3ZAGQJNAQFUvwIrK1lEmp1DRf4SAWz+1wQrVX1VkpKRtFMAAgA1AAABvwKKACAAJQAAczU2NjU0JiY1NDY2MzIWFwcmJiMiBhUUFhYVFAYHFSEVATU3MxU2NTUYGS5RNzVKGSsTMiQ3OxYVIR8BHf52Q/ksHWI5KVFQKDdSKyogKhkeQzYnTFAuN0kgBD8BHzADMwAAAQAZAAAB1AJ+AB0AAHM1IzUzNSM1MwMzFxYWFzM2Njc3MwMzFSMVMxUjFdGioqKPpUxSEB4QBBEeEFJKp5GkpKSgLEMrAUSxIUIkJEMgsf68K0MsoP//ACUAmQHHAfsGJgFYAGoABgFYAJYAAQAlAQMBxwGRABcAAEEiLgIjIgYHJzY2MzIeAjMyNjcXBgYBTh0vKSgVFScRKhpAHx4vKScVFiYRKhlAAQMaIhocIRwvKhoiGh0gHi0qAP//AL4BCwEsAYAEBwEnAHwBFwADACIAYwHKAjAAAwAPABsAAFM1IRUHIiY1NDYzMhYVFAYDIiY1NDYzMhYVFAYiAajUFR0dFRYcHBYVHR0VFhwcAS44OMsdFhYcHBYWHQFoHRYWHBwWFh3///9a//QA+AKdBgYBFgAA//8AIgDEAcoB0AYmAWQAagAGAWQAlgABACIAhwHKAhEACQAAdzU3NzUnJzUFFSLZhYXZAaiHQFEyBDJRQKc8AAACACIAAAHKAhEACQANAAB3NTc3NScnNQUVATUhFSLXh4fXAaj+WAGomUBNLQQtTUCaRP7NODgAAAMAKACYAuEB+wAhAC0AOQAAZSImJicjDgIjIiYmNTQ2NjMyFhYXMz4CMzIWFhUUBgYlMjY3JiYjIgYVFBYFMjY1NCYjIgYHFhYCOCpFPB4EEjFBKyhDKSpILihAMBIEFzpHKjJMKyxM/lsrRRshRCgpNzkBnjQ6PTgtTiUrTpgfNyUUMSQqRiszSikiMRggNyQtTTI2Uy5LOCcsNzEsLDkFQS00Qjo1OjsAAQA1/2IBKwMVACUAAFciJic3FhYzMjY1NC4CNTQ2NjMyFhcHJiYjIgYVFB4CFRQGBmQPGQcJBxIKKxkNEQ0UOTcOGQYJBxELKRkMEQwUOJ4EAzcBA1ZON3+HgDZAZjwEAjgCAldONoCFgTZAZzsAAAEAIgCHAcoCEQAJAABlJTUlFQcHFRcXAcr+WAGo2IWF2IenPKdAUTIEMlEAAgAiAAABygIRAAkADQAAZSU1JRUHBxUXFwU1IRUByv5YAajXhobX/lgBqJmaRJpATS0ELU3ZODgAAAEAIgBpAcoBZgAFAABlNSE1IRUBj/6TAahpxTj9AAEAIgEuAcoBZgADAABTNSEVIgGoAS44OAAAAQAzAIABugITAAsAAHcnNyc3FzcXBxcHJ1onnJwnnJwonJwonIApoaApoqIpoKEpogABACIARQHKAk8AEwAAdzcjNTM3IzUhNzMHMxUjBzMVIQc+TWmJXucBCE03TWmJXuf++U1FfzicOH9/OJw4fwAAAQAn//QB4AKdAC4AAFciJiY1NDY2MzIWFwcmJiMiBgYVFBYWMzI+AjU0JiYjIgYHJzY2MzIWFhUUBgbbMFIyNGFELFMfCSNKIzREICA1ICpDMRkkQCwgOhgiH04uP100QXYMLlY7QmQ6KiU9LSQrSC0pPSEtUnZIWGowGhkuHyNAhWlxq18AAAUAJP/0Aw0CowADABEAHQArADcAAFcBMwEDIiYmNTQ2MzIWFRQGBicyNjU0JiMiBhUUFgEiJiY1NDYzMhYVFAYGJzI2NTQmIyIGFRQWyAFrM/6VRC1CJFFCQ1AkQywpMjIpKDMzAestQiRQQ0NQJUIsKTExKSgzMwwCqf1XARExXUJja2tjQl0xLlNPUFBQUE9T/sExXUJja2tjQl0xLlNPUFBQUE9TAAcAKv/0BHUCoQADABEAHQArADcARQBRAABXATMBAyImJjU0NjMyFhUUBgYnMjY1NCYjIgYVFBYBIiYmNTQ2MzIWFRQGBicyNjU0JiMiBhUUFgUiJiY1NDYzMhYVFAYGJzI2NTQmIyIGFRQWxgFrM/6VPC1CJFFCQ1AkQywpMjIpKDMzAeItQiRQQ0NQJUIsKTExKSgzMwGTLUIkUUJDUCRDLCkyMikoMzMMAqn9VwEPMV1CY2trY0JdMS9ST1BQUFBPUv7CMV1CY2trY0JdMS5TT1BQUFBPUy4xXUJja2tjQl0xLlNPUFBQUE9TAAABACIAaQHKAisACwAAdzUjNTM1MxUzFSMV2La2PLa2acU4xcU4xQAAAgAiAAABygIrAAsADwAAdzUjNTM1MxUzFSMVBzUhFdi2tjy2tvIBqHq3OMLCOLd6ODgAAAEAWv+IAkICfgAHAABXESERIxEhEVoB6Ev+rXgC9v0KArb9SgAAAQAr/54CLAM0AA8AAEUDByc3ExYWFzM2NjcTMwMBGpZHEn93BQgDBAMFBLU22WIBryAqOP6fDx8PDx8PAwb8agAAAQAV/4gB8gJ+AA0AAFc1EwM1IRUhFRMDFSEVFfPoAbX+p9vlAYB4MAFLAUswPwT+yf7HBD8ADAAv//QCGwHxAAsAFwAjAC8AOwBHAFMAXwBrAHcAgwCPAABBIiY1NDYzMhYVFAYDIiY1NDYzMhYVFAYnIiY1NDYzMhYVFAYXIiY1NDYzMhYVFAYnIiY1NDYzMhYVFAYFIiY1NDYzMhYVFAYBIiY1NDYzMhYVFAYFIiY1NDYzMhYVFAYBIiY1NDYzMhYVFAYFIiY1NDYzMhYVFAYnIiY1NDYzMhYVFAYnIiY1NDYzMhYVFAYBJQ4UFA4PFBR5DhQUDg4UEl8NFBQNEBMTqQ4UFA4PFBTkDRQUDRAUFAEuDBQUDA8UE/7ODRQUDRATEwFiDhQUDg4UE/7ODhQUDg4UEgEuDxMTDw0VEisOFBQODhQTXwwUFAwPFBMBqRMRERMTERET/mYUEhARERASFFITERETExERE20SEhESEhESEtoTEhERERESE78UEhARERASFAEuExIREhIREhPcExERExMRERMBLhMQEhISEhATwRMSERERERITbhMRERISERETUhMRERISERETAAIAOf/2AccCngAFAA8AAFcDEzMTAyczNzcnJyMHBxfepaVFpKQlBEBEREAEQENDCgFUAVT+rP6sPYeQj4iIj5AAAAEAXP8GAJEC7gADAABXETMRXDX6A+j8GAAAAgBc/wYAkQLuAAMABwAAUxEzEQMRMxFcNTU1ASABzv4y/eYB0f4vAAIAM/9nAxQCgwBEAFIAAEUiLgI1ND4CMzIWFhUUDgIjIiYnIwYGIyImNTQ+AjMyFhczNzMHBjMyNjY1NC4CIyIOAhUUHgIzMjY3FwYGAzI2NzcmJiMiBgYVFBYBj0l/XzVCcpZSZJJPJDpFISk4BQIZPyEyRhsyRiwaKQ4CCjImHlYfPyokR2dEQ31lOixRbUAvUyIUK15IFy8bHQ8fFSg7ICqZL1qFVmSidD5Tk2JBY0MhJiYdKEhEJ1FEKhcZKMV5MV9CPmdKKjdmjlhKck8qGhQsGhoBBh4foxgTNlEnMisAAAEAIf/0AkoCnQBAAABXIiYmNTQ+BDU0JiMiBhUUHgIXFhYXByYmJy4DNTQ2NjMyFhUUDgQVFBYWMzI2NzY2NzMGBgcGBuc6WTMsQ01EKx0jJy0tS1wuJ0ofFCZVLDVjUC8lQyw7QSlCSkEqJD0mKk4gKTsSRBVDLylnDC5SNTBJOjIyOSMeLjkqL2ppXiQeKAo9Cy4jKmp2dTQsRSlHOCpDOTQ1PSUmOR8sIi1yREmGNy05AAIAKf+wAcQCkQAKAA4AAGUiJiY1NDY2MzMRExEzEQEkSHJBPmxFLDZK5yxfS05dKf5W/skC4f0fAAADADL/9QK2Ao0AEwAvAEMAAEUiLgI1ND4CMzIeAhUUDgInIiYmNTQ2NjMyFhcHJiYjIgYVFBYzMjY3FwYGBzI+AjU0LgIjIg4CFRQeAgF0QXVZMzNZdUFBdFozM1p0OjJRMTRTMCo6GCAVKRs4RkM3IjIWGxs+NTllTCwsTGU5OWVNLCxNZQsvV3xMTHpWLi5WekxMfFcviC9YPzpULiAYJBQWTT1FThoTJxghYSpObUJCa00qKk1rQkJtTioABAAWAUEBiwLJAA8AHwAtADYAAFMiJiY1NDY2MzIWFhUUBgYnMjY2NTQmJiMiBgYVFBYWJzUzMhYVFAYHFyMnIxU1MzI2NTQmIyPRNFUyMlU0M1UyMlUzKkMoKEMqKkQnJ0QeSx8uFREvKyUqGhUZExgdAUExWDo7WDIyWDs6WDEiKUkvMEkqKkkwL0kpPswcJBIgBlRISGcRERATAAACAC//wwG+AqwAIwBGAABlJzY2NTQuBDU0NjYzMhYXByYmIyIGFRQeBBUUBgYHIiYnNxYWMzI2NTQuBDU0NjcXBgYVFB4EFRQGBgFQKCosKUBIPykhQTEuTRwkGDYiLCcoP0c/KRwyhTRXHy0ZOykqLyg/R0AnPi4iIysoQEhAKChHjiYRKiclLiEeJDcqITokIhcvFBooGh0mHR8qPS4lNCbaJh8pGB0rHh4nHh4oPi0zRhQmEiwkIi4gHiU4Kic8IwAAAgADAW8CWQKkABMAGwAAQREzFxczNzczESM1NyMHIycjFxUhESM1IRUjEQE2QzEcBBwwQzMGBEssSwQH/v9lAQFmAW8BNXdQUHf+y49nx8dnjwEDMjL+/QAAAgApAbIBHgKtAA8AGwAAUyImJjU0NjYzMhYWFRQGBicyNjU0JiMiBhUUFqMgOCIiOCAhOCIiOCEiKysiISsrAbIeOCYnOR8fOScmOB4qLyMlLy8lIy8AAAIALv/0AvIClAAiADUAAEUiLgI1ND4CMzIeAhUUFBUhIhUVFBYXFhYzMjY3MwYGASEyNTU0JicmJiMiBgcGBhUVFAGQSYFhNzdhgUlKgGE3/cIEBQMpcUBEdio0MZP+zgG4BgUFKm4+QHAqAwUMNFx6RkZ6XDQ0XHpGAQUCBLgGCQUuNj0zPEgBWga4BgwELDI1LQQMBrQGAAABAD0BHQGvAp4ACQAAUxMzEyMnJyMHBz2YQphARTIEMUUBHQGB/n+3hYW3AAEAN/+wAYYCyAALAABXEwc1FyczBzcVJxO/BIyMBD8EjIwEUAJDBD8Enp4EPwT9vQAAAQA3/7ABhgLIABUAAFc3BzUXJzcHNRcnMwc3FScXBzcVJxe/BIyMBASMjAQ/BIyMBASMjARQngQ/Bbi4BT8Enp4EPwW4uAU/BJ4AAAL/cwJOAI0CqwALABcAAFMiJjU0NjMyFhUUBiMiJjU0NjMyFhUUBl4TGxsTFRoa0RQbGxQUGhoCThsTFBsbFBMbGxMUGxsUExsAAf/OAk0AMgKxAAsAAFEiJjU0NjMyFhUUBhUdHRUWHBwCTRwXFRwcFRccAAAB/3gCPQA4AwYAAwAAUyc3FxKaNIwCPZkwpAAAAf/IAj0AiAMGAAMAAEMnNxcSJow0Aj0lpDAAAAL/pAI4AMIC9wADAAcAAFMnNxcHJzcXYClXNPUpVzQCOBOsG6QTrBsAAAH/aQI5AJcC4wAHAABDJzczFwcnI3cgc0hzIHUEAjkdjY0ddAAAAf9pAj4AlwLoAAcAAEMnNxczNxcHJHMgdQR1IHMCPowedXUejAAB/2YCOwCaAtgAEQAAUSImJic3HgIzMjY2NxcOAjRDIAMvAxotISItGQMvAyBCAjstRSQHGjEgIDEaByRFLQAAAv+WAikAagLsAAsAFwAAUSImNTQ2MzIWFRQGJzI2NTQmIyIGFRQWMDo6MDE5OTEZIiIZGCMjAik3Kis3NysqNyIiHR0jIx0dIgAB/1UCQgCrAs4AGQAAUyIuAiMiBgcnPgIzMh4CMzI2NxcOAkkbJyAdExcXAjICFCojGyYgHhIYFgIyAhQpAkIaIhotJQMmOyQaIxovJAQkPCQAAf9+AloAggKOAAMAAEM1IRWCAQQCWjQ0AAAB/6L/CQBe/54ABwAARzUjNTMVIxUXR7xH92ksLGkA////zv81ADL/mQYHAYAAAPzoAAH/pP8gAEsAAwAPAABHJzY2NTQmJzczBxYWFRQGVAg/LyMrKzEdIiZS4CYEGBYUFgZbQwggHyorAP///2b/GQCa/7cGBwGGAAD83v///37/WACC/4wGBwGJAAD8/gAB/joCKAHGAs0ADwAAQSc2NjMyFhcHLgIjIgYG/lAWZeGAgOJkFj+RlkpKlpECKCY+QUE+JicyGBgyAAAC/20CzgCTAykACwAXAABTIiY1NDYzMhYVFAYjIiY1NDYzMhYVFAZlExoaExUZGd8UGhoUFBkZAs4ZFRQZGRQVGRkVFBkZFBUZAAH/ywLMADUDMAALAABRIiY1NDYzMhYVFAYWHx8WFh8fAswcFxUcHBUXHAAAAf9/ArsAMgNfAAMAAFMnNxcSkyqJArtzMX8AAAH/zgK7AIEDXwADAABDJzcXEiCJKgK7JX8xAAAB/3ACvQCQA0YABwAAQyc3MxcHJyNwIGpMaiBuBAK9GHFxGF4AAAH/cALDAJADTAAHAABDJzcXMzcXByZqIG4EbiBqAsNxGF5eGHEAAf9xAsMAjwNKAA8AAFEiJiYnNxYWMzI2NxcOAi09IQQtBjAsLDAGLQMiPALDIzshCCQ0NCQIITsjAAL/oQK7AF8DbgALABcAAFEiJjU0NjMyFhUUBicyNjU0JiMiBhUUFik2NikoNzcoFR8fFRYfHwK7MSgpMTEpKDEiHBsaHh4aGxwAAf9SAscArgNHABcAAFMiLgIjIgYHJzY2MzIeAjMyNjcXBgZMHCkgHhMUGwMyAzQrHCkgHhMUGgQyAjUCxxccFiMhAzdBFh0WJCEEN0EAAf99AuEAgwMVAAMAAEM1IRWDAQYC4TQ0AAACADMAAAC+AcsAAwAHAABzNzMXAyczBzNBCkBKQYtAgoIBS4CAAAEAFwIUAFYC1gADAABTJzMHHQY/BgIUwsL//wDXAj0BlgMGBAcBggEOAAD//wB0AjsBqQLYBAcBhgEOAAD//wB4Aj4BpQLoBAcBhQEOAAD//wCy/yABWgADBAcBjAEOAAD//wB4AjkBpQLjBAcBhAEOAAD//wCBAk4BmwKrBAcBfwEOAAD//wDcAk0BQAKxBAcBgAEOAAD//wCGAj0BRgMGBAcBgQEOAAD//wCzAjgB0AL3BAcBgwEOAAD//wCMAloBkAKOBAcBiQEOAAD//wCkAikBeQLsBAcBhwEOAAD//wBjAkIBuQLOBAcBiAEOAAAAAgAi/xcAXf+1AAsAFwAAVzIWFRQGIyImNTQ2FzIWFRQGIyImNTQ2QA0QEA0NERENDRAQDQ0REUsTDAwTEwwME14VDAwTEwwMFQAFACL/FwEt/7UACwAXACMALwA7AABFMhYVFAYjIiY1NDYHMhYVFAYjIiY1NDYnMhYVFAYjIiY1NDYXMhYVFAYjIiY1NDYnMhYVFAYjIiY1NDYBEA0QEA0NERGQDRAQDQ0RESYNEBANDRER3Q0QEA0NERFbDRAQDQ0REUsTDAwTEwwME14VDAwTEwwMFV4TDAwTEwwME14VDAwTEwwMFV4TDAwTEwwMEwADACL/FwEi/7UAAwAPABsAAFcVIzUXMhYVFAYjIiY1NDY3MhYVFAYjIiY1NDbAnuMNEBANDRERDQ0QEA0NERFVIyNUFQwMExMMDBVeEwwMExMMDBMAAAMAIv8XASL/tQAHABMAHwAAVxUjFyM3IzUXMhYVFAYjIiY1NDY3MhYVFAYjIiY1NDbAQwcnB0LjDRAQDQ0REQ0NEBANDRERVSNkZCNUFQwMExMMDBVeEwwMExMMDBMAAAEAIv93AF3/tQALAABXMhYVFAYjIiY1NDZADRAQDQ0REUsTDAwTEwwMEwAAAgAi/3cAyP+1AAsAFwAAVzIWFRQGIyImNTQ2IzIWFRQGIyImNTQ2qw0QEA0NERFeDRAQDQ0REUsTDAwTEwwMExMMDBMTDAwTAAADACL/IQDI/7UACwAXACMAAFcyFhUUBiMiJjU0NgcyFhUUBiMiJjU0NicyFhUUBiMiJjU0NqsNEBANDRERKQ0QEA0NEREoDRAQDQ0REUsTDAwTEwwME1UTDA0TEw0ME1UTDAwTEwwMEwAAAQAi/5gAwP+7AAMAAFcVIzXAnkUjIwAAAQAi/zQAwP+7AAcAAFcVIxcjNyM1wEMHJwdCRSNkZCMAAAEAIgH/AF0CPgALAABTMhYVFAYjIiY1NDZADRAQDQ0REQI+EwwNExMNDBMAAQAiAf8AXQI+AAsAAFMiJjU0NjMyFhUUBkANERENDRAQAf8UDAwTEwwMFAADACL+/QDi/7UACwAXACMAAFcyFhUUBiMiJjU0NicyFhUUBiMiJjU0NhcyFhUUBiMiJjU0NsUNEBANDRISeA0QEA0NERFPDhAQDg0REcQTDQwTEwwNE3kTDAwTEwwMEzwUDAwTEwwMFAAAAQAiAQIAXQFCAAsAAFMyFhUUBiMiJjU0NkANEBANDRERAUIUDAwUEw0MFAABACACFADdAjsAAwAAUxUjNd29AjsnJwABACICCgBdAkoACwAAUzIWFRQGIyImNTQ2QA0QEA0NERECShQMDBQUDAwUAAEAIgIKAF0CSgALAABTMhYVFAYjIiY1NDZADRAQDQ0REQJKFAwMFBQMDBQAAQAi/zQAgP+7AAcAAFcVIxcjNyM1gCkNJw0oRSNkZCMAAAH/3P8kAKAB5QAQAABXIiYnNxYWMzI2NRMzERQGBiEVIw0PCRkNJRgBSBo43AgEOAMFNSwCJP3bMUYlAAEAUwGXAOEDHQAIAABTESM1NjY3MxGnVCArEzABlwE4JgYUDv56AAABAC8BlwFDAykAGAAAUzU+AjU0JiMiBgcnNjYzMhYVFAYGBzMVOz5TKiokGSwRIxZDJzpGJ0QsqwGXIjhTQR4oLSEZICEqPz8mRkotMQABACUBiwE8AykAKAAAUyImJzcWFjMyNjU0JiM1MjY1NCYjIgYHJzY2MzIWFhUUBgcWFhUUBga0MEkWJxI0HyEwQjs1OScjFioRIxg9JyI4IigfIjQlPgGLLCAeGyEnIiQkJisfHSQcFR8dIxkvICMwDggxKCQ0HAABADEBlwFRAx0ADAAAUzU3IwcHMxUhNTczEeIFBDNB4v7gpz8Bl+BrUmQqHf7+egACAEP/RwHIAeUABQAaAABXNxMzExc3IiY1ETMRFBYzMjY3ETMRIycjBgZDAgoyCgJUS0hILjMmPiRJPQYDIky5VwGF/ntXrWBdATT+1UZBKS0BXP4bTSgxAA==';
+const HEBREW_FONT_BOLD_BASE64 = 'AAEAAAAQAQAABAAAR0RFRgioCG4AAAHMAAAAVEdQT1M7M64gAAAnwAAAN+xHU1VCr0TKVwAAAoAAAAJeT1MvMosGT9UAAAIgAAAAYFNUQVR5lHDCAAABYAAAADJjbWFwrcsHPwAACGgAAAWqZ2FzcAAAABAAAAEUAAAACGdseWYyJdG9AABfrAAAYqpoZWFkD8T1PwAAAZQAAAA2aGhlYQbeA60AAAE8AAAAJGhtdHgrJzAMAAAOFAAABwxsb2NhtxPPBgAABOAAAAOIbWF4cAHXAPIAAAEcAAAAIG5hbWXsyxKIAAAVIAAACEJwb3N0yDGuZAAAHWQAAApccHJlcGgGjIUAAAEMAAAAB7gB/4WwBI0AAAEAAf//AA8AAQAAAcMAkAAMAGAABAABAAAAAAAAAAAAAAAAAAMAAQABAAAD/f7hAAAE0f43/jcEpwABAAAAAAAAAAAAAAAAAAABwwABAAEACAABAAAAFAABAAAAHAACd2dodAEAAAAAAgACAAAAAAEFArwAAAKKAAAC7gAAAAAAAQAAAAMAAMW3QodfDzz1AAMD6AAAAADSYO5aAAAAANtrwxr+N/7rBKcD/QABAAYAAgAAAAAAAAABAAIADgAAAAAAAABCAAIACAABAEEAAQBDAIYAAQCIAK4AAQCwAMYAAQDHAMgAAgDTAQsAAQF/AY4AAwGrAbsAAwABAAEAAAAIAAIAAQF/AYkAAAAEAgQCvAAFAAACigJYAAAASwKKAlgAAAFeADIBLAAAAAAAAAAAAAAAAKAACP9AACBLAAAAAAAAAABIRk5UACAADftLA/3+4QDIA/0BHyAAACEAAAAAAfQC7gAAACAAAwABAAAACgBIAJQAA0RGTFQAKmhlYnIAKmxhdG4AFAAEAAAAAP//AAYAAAABAAIAAwAEAAUABAAAAAD//wAFAAAAAgADAAQABQAGYWFsdABEY2NtcAA+ZnJhYwA4bGlnYQAyb3JkbgAsc3VwcwAmAAAAAQAFAAAAAQAHAAAAAQAJAAAAAQAGAAAAAQACAAAAAgAAAAEACgGUAW4BJAEWARYA5ACoAGAAPgAWAAQAAAABAAgAAQAaAAEACAACAAwABgDIAAIAlgDHAAIAiwABAAEAfwABAAAAAQAIAAIADgAEAMkAygDJAMoAAQAEAAEANgBeAJsABgAAAAIAJAAKAAMAAQA0AAEAEgAAAAEAAAAIAAEAAgA2AJsAAwABABoAAQASAAAAAQAAAAgAAQACAAEAXgACAAEBDAEVAAAABAAAAAEACAABACwAAgAWAAoAAQAEARkAAwEtARAAAgAOAAYBFwADAS0BDgEYAAMBLQEQAAEAAgENAQ8AAQAAAAEACAACABYACADLAMwAzQDOAM8BGgEbARwAAQAIAF4AcwB7AJIAmwENAQ4BDwABAAAAAQAIAAEASgABAAYAAAACACgACgADAAAAAQA6AAIAFAAwAAEAAAAEAAIAAQGKAY8AAAADAAAAAQAcAAEAEgABAAAAAwACAAEBfwGJAAAAAQABAIsAAwAAAAEACAABAAoAAgAYABIAAQACAF4AmwACAMoAzwACAMkAywABAAAAAQAIAAIAGAAJAMkAygDMAM0AjADOARoBGwEcAAEACQABADYAcwB7AIsAkgENAQ4BDwAAAAAAKwBNAFkAZQBxAH0AiQCVAKEArQC5AN8BEwEfAU8BWwFmAYkBtgHCAc4B4wHvAfsCBwITAh8CKwI3AmoCfQKxAr0CyQLVAuoDCQMVAyEDLQM5A0UDUQNdA2kDhwOhA60DuQPIA+MEFwQ4BEQEdgSCBI4EmgSmBLIEvgTKBQQFEAU9BV8FgwXLBfYGOgZGBlIGXgaTBqQGsAa8BuIG7gb6BwYHEgceBzoHRgeAB60HygfWB+IH+AgECBAIHAhZCGUIcQh9CIkIlQihCK0IuQjFCQMJbAmjCa8J3gnqCfYKKgpwCnwKiAq+CsoK1griCu4K+gsGCxILYgujC9IMAwwoDJwMqAy0DN0NBg0SDTQNXQ1pDXUNgQ2NDZkNpQ2xDb0NyQ3VDhwONA5ADkwOag6VDskO6w73DykPNQ9BD00PWQ9lD3EPfQ+sD+YP8hBOEIUQvBDxERERUBFcEWgRdBG/EfQSGBIkEnESfRKfEqsStxLDEs8S2xL2EwITORNlE5QToBOsE9oT7hP6FAYUEhQiFC4UNhQ+FHUUqxThFQ8VOxVyFaoVxxXlFgIWKhZEFmUWdBaNFqoW1hbnFv8XIhc5F2AXlhemF8AX6xgOGDgYaxiAGJwYxBjbGQcZLBk4GUMZUxliGW4ZehmGGZIZnRmpGbUZwBnLGdcZ4hnuGfkaBBoQGhsaJxozGj8aShpWGmEabRp5GoQayRr1GwwbOBt6G5kbzxwUHC0chhzLHNodFx1GHZ0dsR3YHhQeMh5AHkkeZR5xHpQepB7EHuUfFB8qH2UfoB+sH7wfyB/WH+IgISBgIHEggiCcILYgwiDOINog4iDqIPYhAiETISQhMSE9IUkhbCGPIZghpSG5Icch3SHpIekh6SH9IhEiLyJNIoEiyyMUI1MjjyO8I/UkICQrJFIkWySHJI8kmiSvJMslICVYJW4liyWbJaglwSXhJiUmeSbwJwQnHicxJ1InbSgyKFMoYCh0KOYpQCldKbwqCyptKpkqxSsSKygrQStnK4wroiuwK74r0yvmK/ksGSw+LGcsdCyELI0sqiyzLLws2iz/LRUtIy0xLUQtVy10LZktwC3NLc0t4C3gLe0t9i3/LgguES4aLiMuLC41Lj4uRy5HLlAuWS5+LtIu/S8tL0MvaC+dL6kvui/QL+YwGzAxMD0wUzBpMHowmTCtMNQxEDEoMSgxVQAAAAIAAAADAAAAFAADAAEAAAAUAAQFlgAAAM4AgAAGAE4ADQAvADkAfgEDAQ0BFQEZASEBJwErATEBQgFPAVMBWwFhAWsBeAF+AY8BkgHnAjcCUAJUAlkCWwKDAo4CkgKVAqcCuQLIAtAC3QMEAwgDDAMeAyMDJwMuAzEDYQO4A8ADxwW8BcMFxwXqBfQeBx4PHiEeJR4rHjUeYx5vHn8elh6hHrkezSAQIBQgGiAeICIgJiAuIDAgOiBEIHQgqiCsIQohIiEuIgIiDyISIhUiGiIeIisiSCJgImUlyiXM+wL7Nvs8+z77QftE+0v//wAAAA0AIAAwADoAoAEMARIBGAEgASYBKgExAUEBTAFSAVoBYAFqAXgBfQGPAZIB5gI3AlACVAJZAlsCgwKOApIClAKnArkCxgLQAtgDAAMGAwoDHgMjAycDLgMxA2EDuAPAA8cFsAW+BccF0AXzHgYeDB4gHiQeKh4yHmIebB5+HpIeoB64HswgDiATIBggHCAgICYgLSAwIDkgRCB0IKogrCEKISIhLiICIg8iESIVIhkiHiIrIkgiYCJkJcolzPsB+yr7OPs++0D7Q/tG//8BtAAAANwAAAAAAAAAAAAAAAAAAAAA/1sAAAAAAAAAAAAAAAD+4QAA/rr/wQAA/4X+GP5P/lf+If36/jT97P3v/gz+4wAA/ssAAAAAAAAAAP5s/mj+Zf5f/l3+Lv0Y/RH9C/v7AAD79PsD+1MAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAADhKQAAAADg/eEg4TnhA+DS4UzgquCm4AHgV+BN32XfXQAA30YAAN9B3zXfD98GAADbptujBcYFxAXDBcIFwQXABb8AAQAAAMwAAADoAXACNgI4Aj4CQAJCAkQAAAJEAkYCTAJOAlACUgAAAlIAAAAAAlAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAjwAAAI+AkgCUAJUAAAAAAAAAAAAAAAAAAAAAAAAAAACRAAAAAAAAAJIAkoCUAJSAlQCVgJcAl4CZAJmAm4CcAJyAnQCeAAAAngCfAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAmYAAAJmAAAAAAAAAAACYAAAAAAAAAAAAAAAAAAAAAAAAAAAAUkBJAEqASYBUQFoAXQBKwEzATQBHQFqASIBNwEnAS0BIQEsAWEBXAFdASgBcwABAAwADgARABUAHgAfACMAJwAtAC4AMQAzADQANgBBAEMARABFAEoATQBTAFUAVgBXAFoBMQEeATIBfAEuAaUAXgBqAGwAbwBzAH8AgACGAIsAkgCTAJYAmACZAJsApwCpAKoAqwCxALUAuwC9AL4AvwDDAS8BcQEwAVgBSgElAU8BVQFQAVYBcgF4AaMBdgDJAToBYwE5AXcBpwF6AWsBvgG/AZ4BwgF1AR8BoQG9AMoBOwEYARcBGQEpAAcAAgAEAAoABQAJAAsAEAAbABYAGAAZACsAKAApACoAEgA1ADwANwA5AD8AOgFlAD4AUQBOAE8AUABYAEIArwBkAF8AYQBnAGIAZgBpAG4AeQB0AHYAdwCQAI0AjgCPAHAAmgChAJwAngClAJ8BWgCkALkAtgC3ALgAwACoAMEACABlAAMAYAAPAG0AHAB6ABcAdQAdAHsAIQCCACQAhwAsAJEAMgCXAD0AogA4AJ0AQACmAEYArABHAK0AUgC6AFsAxAAgAIEBogGgAZ0BnwGkAakBqAGqAaYBgQGCAYQBiAGJAYYBgAF/AYcBgwGFAUgBuAFEAbkBugFFAA0AawATAHEAFAByACIAhQAmAIkAJQCIAC8AlAAwAJUASACuAEsAsgBMALQAVAC8AFwAxQBdAMYAigAGAGMAGgB4ADsAoAFLAUwBOAE2ATUBPwFAAT4BfQF+ASABbgFkAVkBbQFiAV4AAAKsAFECOP/7Ajj/+wI4//sCOP/7Ajj/+wI4//sCOP/7Ajj/+wI4//sCOP/7A0r/9gJbAE8CWwBPAkQALwJEAC8CRAAvAngATwKQABsCeABPAngATwIhAE8CIQBPAiEATwIhAE8CIQBPAiEATwIhAE8CIQBPAiEATwIIAE8CewAvAnsALwJ7AC8CewAvAp4ATwLEABoCngBPAp4ATwEnAE8BJwBLASf/7QEn/+MBJ//sASf//wH4ABICYQBPAmEATwJhAE8CAQBPAgf/6wL1AE8ClgBPApYATwKpAC8CqQAvAqkALwKpAC8CqQAvAqkALwKpAC8CqQAvAqkAKQKpAC8DYwAvAlAATwJkAE8CqQAvAl4ATwIoACQCKAAkAigAJAIoACQCoQA0AikAGQIpABkCKQAZApYASwKWAEsClgBLApYASwKWAEsClgBLAib/+gIm//oDKQAPAi8ADAIF//kCBf/5AgX/+QIdACUCHQAlAh0AJQIdACUCDAArAgwAKwIMACsCDAArAgwAKwIMACsCDAArAgwAKwIMACsCDAArAhIAPQMSADACOgBDAjoAQwHSACUB0gAlAdIAJQI6ACgCLgAsAjoAKAI6ACgCAgAlAgIAJQICACUCAgAlAgIAJQICACUCAgAlAgIAJQICACUBygAuARH/zgHHAAUBTQAZAhIAJAISACQCEgAkAbv/+gHwACgCEgAkAjcAQwI3//4CNwBDAjcAQwI3AEMBEAA7ARAAQwEQAEMBEP/VARD/2QEQ/9ABEP/2ARH/0wIbAEMCGwBDAhsAQwEZAEMBKP/uA1UAQwI4AEMCOABDAikAJQIpACUCKQAlAikAJQIpACUCKQAlAikAJQIpACUB0gAXAikAJQIpACUDOQAlAjoAQwI6AEMCOgAoAYYAQwG3ABYBtwAWAbcAFgG3ABYCbwBDAgIAJAF4ABIBeAASAlAAEgF4ABICNQA+AjUAPgI1AD4CNQA+AjUAPgI1AD4CAgAMAgIADAL/ABgB9wAOAgEADAIBAAwCAQAMAgEADAHHACUBxwAlAccAJQHHACUCXQAZAmYAGQFlAB4BdAAZAWUAHgFZABgBWQAYALv/4AF0ABkCIQAyAnMAEgIHAAgCaQAVAh8AJQGoABECHgAjAj0AMAEDADEBdwAnAlMANQJPACgBAwAxAgAAJwHlAB0B8gAfAlAANAKCACMBAwAxAX0AJgJdACgCQAAHAjQAJAItACgCFQAgAi8AHgJOACsB6AAbAqYAKAJ7ABECpgAoAqYAKAKmACgCpgAoAmkAFQJpABUCaQAVAh8AJQGoABECHgAjAj0AMAEo//sBmgADAk8AKAEsAAACAAAnAeUAHQHyAB8CggAjAX0AJgJdACgCNAAkAi0AKAIvAB4CTgArAegAGwKmACgCewARAQMAMQJDAC0CCwAmAd4AKAILAB8CCwAWAgsAEwILABcCCwAqAgsALAILACoCCwAjAF//VgNIAEkDQwBJA0gAHAE/ADoBggArAX8AJQHDACkBVAAaASQAPgFSACgBJAA+ASQALgPjAFIBTABSAUwAUgILACIBJAA+AckAKQHJACsCBwBMASQATAEkAC4BVAANAfQADAFSAB8BUgAsAVIAWAFSACwBUgBJAVIALwMgACsB4AArAUkAKwFJACsBSQArAdgAMAHYADYBIQAwASEANgIHAEYCBwA3AgcARgEkADcBJABGASQARgC2ADgA2gAhAQ4AMgHHADIBSQAtAMgAAADIAAAAAP+OAAD/cAAA/2QAAP9VAgsAPAILABUCCwApAgsAFQILABwDRgA8AgsAMQILAA4CCwAeAgsAHgINALECCwAiAF//VgILACICCwAiAgsAIgMpACUBfQArAgsAIgILACICCwAiAgsAIgILADACCwAiAjkALwNNABsE0QAqAgsAIgILACICwABRAkcAHQISABoCWAAlAh8ANAEIAFcBCABXA34AMQKSABoCcAAnAu0ALgHIAB8CCwAmAqMABAFoACcDIAAuAgsAMwH1AC0B9QAtAAD/UQAA/7MAAP9IAAD/wwAA/4QAAP9NAAD/TQAA/1kAAP+AAAD/RQAA/24AAP+WAAD/swAA/5IAAP9ZAAD/bgAA/jcAAP9QAAD/rwAA/1kAAP+4AAD/WgAA/1oAAP9fAAD/kQAA/z0AAP9rAAAAAAEkACwBJAAAAI4AEAIpANgCKQBtAikAYgIpAKYCKQBiAikAZQIpAMcCKQBdAikAmAIpAIMCKQAAAikAlAIpAFkAAAAeAAAAHgAAAB4AAAAeAAAAHgAAAB4AAAAeAAAAHgAAAB4AAAAeAAAAHgAAAB4AAAAeAAAAIAAAAB4AAAAeAAAAHgEN/9MBSgA/AYYAKwF2ABwBdQAiAPoAAAI1ACcAAAAaAT4AAwABBAkAAAJqBJoAAwABBAkAAQASBIgAAwABBAkAAgAIBIAAAwABBAkAAwAyBE4AAwABBAkABAAcBDIAAwABBAkABQAaBBgAAwABBAkABgAcA/wAAwABBAkABwDAAzwAAwABBAkACQBQAuwAAwABBAkADAAYAtQAAwABBAkADQEgAbQAAwABBAkADgA0AYAAAwABBAkAGQAcAWQAAwABBAkBAAAMAVgAAwABBAkBAQAUAUQAAwABBAkBAgAKAToAAwABBAkBAwAOASwAAwABBAkBBAAQARwAAwABBAkBBQAIBIAAAwABBAkBBgASAQoAAwABBAkBBwAyANgAAwABBAkBCAAoALAAAwABBAkBCQAsAIQAAwABBAkBCgAuAFYAAwABBAkBCwAmADAAAwABBAkBDAAwAAAAQQBzAHMAaQBzAHQAYQBuAHQAUgBvAG0AYQBuAC0ARQB4AHQAcgBhAEIAbwBsAGQAQQBzAHMAaQBzAHQAYQBuAHQAUgBvAG0AYQBuAC0AQgBvAGwAZABBAHMAcwBpAHMAdABhAG4AdABSAG8AbQBhAG4ALQBTAGUAbQBpAEIAbwBsAGQAQQBzAHMAaQBzAHQAYQBuAHQAUgBvAG0AYQBuAC0AUgBlAGcAdQBsAGEAcgBBAHMAcwBpAHMAdABhAG4AdABSAG8AbQBhAG4ALQBMAGkAZwBoAHQAQQBzAHMAaQBzAHQAYQBuAHQAUgBvAG0AYQBuAC0ARQB4AHQAcgBhAEwAaQBnAGgAdABFAHgAdAByAGEAQgBvAGwAZABTAGUAbQBpAEIAbwBsAGQAUgBlAGcAdQBsAGEAcgBMAGkAZwBoAHQARQB4AHQAcgBhAEwAaQBnAGgAdABXAGUAaQBnAGgAdABBAHMAcwBpAHMAdABhAG4AdABSAG8AbQBhAG4AaAB0AHQAcAA6AC8ALwBzAGMAcgBpAHAAdABzAC4AcwBpAGwALgBvAHIAZwAvAE8ARgBMAFQAaABpAHMAIABGAG8AbgB0ACAAUwBvAGYAdAB3AGEAcgBlACAAaQBzACAAbABpAGMAZQBuAHMAZQBkACAAdQBuAGQAZQByACAAdABoAGUAIABTAEkATAAgAE8AcABlAG4AIABGAG8AbgB0ACAATABpAGMAZQBuAHMAZQAsACAAVgBlAHIAcwBpAG8AbgAgADEALgAxAC4AIABUAGgAaQBzACAAbABpAGMAZQBuAHMAZQAgAGkAcwAgAGEAdgBhAGkAbABhAGIAbABlACAAdwBpAHQAaAAgAGEAIABGAEEAUQAgAGEAdAA6ACAAaAB0AHQAcAA6AC8ALwBzAGMAcgBpAHAAdABzAC4AcwBpAGwALgBvAHIAZwAvAE8ARgBMAGgAYQBmAG8AbgB0AGkAYQAuAGMAbwBtAEgAZQBiAHIAZQB3ACAAQgB5ACAAQgBlAG4AIABOAGEAdABoAGEAbgAsACAATABhAHQAaQBuACAAYgB5ACAAUABhAHUAbAAgAEgAdQBuAHQAUwBvAHUAcgBjAGUAIABpAHMAIABhACAAdAByAGEAZABlAG0AYQByAGsAIABvAGYAIABBAGQAbwBiAGUAIABTAHkAcwB0AGUAbQBzACAASQBuAGMAbwByAHAAbwByAGEAdABlAGQAIABpAG4AIAB0AGgAZQAgAFUAbgBpAHQAZQBkACAAUwB0AGEAdABlAHMAIABhAG4AZAAvAG8AcgAgAG8AdABoAGUAcgAgAGMAbwB1AG4AdAByAGkAZQBzAC4AQQBzAHMAaQBzAHQAYQBuAHQALQBCAG8AbABkAFYAZQByAHMAaQBvAG4AIAAzAC4AMAAwADAAQQBzAHMAaQBzAHQAYQBuAHQAIABCAG8AbABkADMALgAwADAAMAA7AEgARgBOAFQAOwBBAHMAcwBpAHMAdABhAG4AdAAtAEIAbwBsAGQAQgBvAGwAZABBAHMAcwBpAHMAdABhAG4AdABDAG8AcAB5AHIAaQBnAGgAdAAgADIAMAAyADAAIABUAGgAZQAgAEEAcwBzAGkAcwB0AGEAbgB0ACAAUAByAG8AagBlAGMAdAAgAEEAdQB0AGgAbwByAHMAIAAoAGgAdAB0AHAAcwA6AC8ALwBnAGkAdABoAHUAYgAuAGMAbwBtAC8AaABhAGYAbwBuAHQAaQBhAC8AQQBzAHMAaQBzAHQAYQBuAHQAKQAuACAAQwBvAHAAeQByAGkAZwBoAHQAIAAyADAAMQAwACAAVABoAGUAIABTAG8AdQByAGMAZQAgAFMAYQBuAHMAIABQAHIAbwAgAEEAdQB0AGgAbwByAHMAIAAoAGgAdAB0AHAAcwA6AC8ALwBnAGkAdABoAHUAYgAuAGMAbwBtAC8AYQBkAG8AYgBlAC0AZgBvAG4AdABzAC8AcwBvAHUAcgBjAGUALQBzAGEAbgBzAC0AcAByAG8AKQAsACAAdwBpAHQAaAAgAFIAZQBzAGUAcgB2AGUAZAAgAEYAbwBuAHQAIABOAGEAbQBlACAAJwBTAG8AdQByAGMAZQAnAC4AIABTAG8AdQByAGMAZQAgAGkAcwAgAGEAIAB0AHIAYQBkAGUAbQBhAHIAawAgAG8AZgAgAEEAZABvAGIAZQAgAFMAeQBzAHQAZQBtAHMAIABJAG4AYwBvAHIAcABvAHIAYQB0AGUAZAAgAGkAbgAgAHQAaABlACAAVQBuAGkAdABlAGQAIABTAHQAYQB0AGUAcwAgAGEAbgBkAC8AbwByACAAbwB0AGgAZQByACAAYwBvAHUAbgB0AHIAaQBlAHMALgAAAAIAAAAAAAD/nAAyAAAAAAAAAAAAAAAAAAAAAAAAAAABwwAAACQAyQECAMcAYgEDAK0BBABjAK4AkAAlAQUAJgD/AGQAJwDpAQYBBwAoAGUBCADIAMoBCQDLAQoBCwApACoBDAENAQ4AKwEPARABEQAsAMwAzQDOAM8BEgAtAC4BEwEUAC8A4gAwADEAZgAyANABFQDRAGcBFgDTARcAkQCvALAAMwDtADQANQA2ARgA5AEZARoANwEbARwAOADUANUAaADWAR0AOQEeADoAOwA8AOsAuwA9AOYBHwEgAEQAaQEhAGsAbAEiAGoBIwBuAG0BJACgAEUBJQBGAQAAbwBHAOoBJgEnAEgAcAEoAHIAcwEpAHEBKgErASwBLQEuAEkASgEvATABMQEyATMASwE0ATUBNgE3AEwA1wB0AHYAdwB1ATgATQBOATkBOgBPAOMAUABRAHgAUgB5ATsAewB8ATwAegE9AT4AoQB9ALEAUwDuAFQAVQBWAT8A5QFAAIkBQQBXAUIBQwFEAFgAfgCAAIEAfwFFAFkBRgBaAFsAXADsALoBRwBdAOcBSAFJAMAAwQCdAJ4BSgFLAUwBTQFOAU8AmwFQAVEBUgFTAVQBVQFWAVcBWAFZAVoBWwFcAV0BXgFfAWABYQFiAWMBZAFlAWYBZwFoAWkBagFrAWwBbQFuAW8BcAFxAXIBcwF0AXUBdgF3AXgBeQF6AXsBfAF9AX4BfwGAAYEBggGDAYQBhQGGAYcBiAGJABMAFAAVABYAFwAYABkAGgAbABwAvAD0APUA9gGKAYsBjAANAD8AwwCHAB0ADwCrAAQAowAGABEAIgCiAAUACgAeABIAQgBeAGAAPgBAAAsADACzALIAEAGNAY4AqQCqAL4AvwDFALQAtQC2ALcAxAGPAZABkQGSAZMAAwGUAZUBlgGXAZgAhAC9AAcBmQCmAZoAhQCWAKcAYQGbALgBnAAgACEAlQCSAJwAHwCUAKQA7wDwAI8AmAAIAMYADgCTAJoApQCZAZ0AuQBfAOgAIwAJAIgAiwCKAIYAjACDAZ4AQQCCAMIBnwGgAaEBogGjAaQBpQGmAacBqAGpAaoBqwGsAa0BrgGvAbABsQGyAbMBtAG1AbYBtwG4AbkBugG7AbwBvQCNANsA4QDeANgAjgDcAEMA3wDaAOAA3QDZAb4BvwHAAcEBwgHDAcQBxQHGAccByAHJAcoBywHMAc0BzgHPAPEA8gDzAdAB0QCXBkFicmV2ZQd1bmkxRUEwB0FtYWNyb24HdW5pMUUwNgd1bmkxRTBDB3VuaTFFMEUGRWJyZXZlB3VuaTFFQjgHRW1hY3JvbgdFb2dvbmVrBkdjYXJvbgpHZG90YWNjZW50B3VuaTFFMjAESGJhcgd1bmkxRTJBB3VuaTFFMjQHSW1hY3Jvbgd1bmkxRTMyB3VuaTFFMzQGT2JyZXZlB3VuaTFFQ0MHT21hY3JvbgZTYWN1dGUHdW5pMUU2Mgd1bmkwMThGB3VuaTFFNkMHdW5pMUU2RQdVbWFjcm9uB3VuaTFFN0UHdW5pMUU5Mgd1bmkxRTk0BmFicmV2ZQd1bmkxRUExB2FtYWNyb24HdW5pMDI1MAd1bmkxRTA3B3VuaTFFMEQHdW5pMUUwRgZlYnJldmUHdW5pMUVCOQdlbWFjcm9uB2VvZ29uZWsHdW5pMDI1Qgd1bmkwMjgzB3VuaTAyOTIGZ2Nhcm9uCmdkb3RhY2NlbnQHdW5pMDI5NAd1bmkwMjk1B3VuaTFFMjEEaGJhcgd1bmkxRTJCB3VuaTFFMjUHdW5pMUU5NgdpbWFjcm9uB3VuaTFFMzMHdW5pMUUzNQZvYnJldmUHdW5pMUVDRAdvbWFjcm9uB3VuaTAyNTQGc2FjdXRlB3VuaTFFNjMHdW5pMDI1OQd1bmkxRTZEB3VuaTAyQTcHdW5pMUU2Rgd1bWFjcm9uB3VuaTFFN0YHdW5pMDI4RQd1bmkxRTkzB3VuaTFFOTUGYS5zdXBzBmUuc3Vwcwxlb2dvbmVrLnN1cHMGai5zdXBzBm8uc3VwcwV0aGV0YQNjaGkHdW5pMDVEMAd1bmkwNUQxB3VuaTA1RDIHdW5pMDVEMwd1bmkwNUQ0B3VuaTA1RDUHdW5pMDVENgd1bmkwNUQ3B3VuaTA1RDgHdW5pMDVEOQd1bmkwNURBB3VuaTA1REIHdW5pMDVEQwd1bmkwNUREB3VuaTA1REUHdW5pMDVERgd1bmkwNUUwB3VuaTA1RTEHdW5pMDVFMgd1bmkwNUUzB3VuaTA1RTQHdW5pMDVFNQd1bmkwNUU2B3VuaTA1RTcHdW5pMDVFOAd1bmkwNUU5B3VuaTA1RUEHdW5pRkIyQQd1bmlGQjJCB3VuaUZCMkMHdW5pRkIyRAd1bmlGQjJFB3VuaUZCMkYHdW5pRkIzMAd1bmlGQjMxB3VuaUZCMzIHdW5pRkIzMwd1bmlGQjM0B3VuaUZCMzUHdW5pRkIzNgd1bmlGQjM4B3VuaUZCMzkHdW5pRkIzQQd1bmlGQjNCB3VuaUZCM0MHdW5pRkIzRQd1bmlGQjQwB3VuaUZCNDEHdW5pRkI0Mwd1bmlGQjQ0B3VuaUZCNDYHdW5pRkI0Nwd1bmlGQjQ4B3VuaUZCNDkHdW5pRkI0QQd1bmlGQjRCB3VuaTIxMEEIb25lLnN1cHMIdHdvLnN1cHMKdGhyZWUuc3Vwcwd1bmkyMDEwB3VuaTAwQUQHdW5pMDVDMAd1bmkwNUMzB3VuaTA1RjMHdW5pMDVGNAd1bmkwNUJFB3VuaTAwQTAHdW5pMjAwRQd1bmkyMDBGB3VuaTIwMkQHdW5pMjAyRQRFdXJvCW5ld3NoZXFlbAd1bmkyMjE5B3VuaTIyMTUHdW5pMjVjYwllc3RpbWF0ZWQHdW5pMDMwOAd1bmkwMzA3CWdyYXZlY29tYglhY3V0ZWNvbWIHdW5pMDMwQgd1bmkwMzAyB3VuaTAzMEMHdW5pMDMwNgd1bmkwMzBBCXRpbGRlY29tYgd1bmkwMzA0B3VuaTAzMUUMZG90YmVsb3djb21iB3VuaTAzMjcHdW5pMDMyRQd1bmkwMzMxB3VuaTAzNjELdW5pMDMwOC5jYXALdW5pMDMwNy5jYXANZ3JhdmVjb21iLmNhcA1hY3V0ZWNvbWIuY2FwC3VuaTAzMDIuY2FwC3VuaTAzMEMuY2FwC3VuaTAzMDYuY2FwC3VuaTAzMEEuY2FwDXRpbGRlY29tYi5jYXALdW5pMDMwNC5jYXALdW5pMDMyNy5jYXAHdW5pMDJEMAd1bmkwMkI5B3VuaTAyQzgHdW5pMDVCMAd1bmkwNUIxB3VuaTA1QjIHdW5pMDVCMwd1bmkwNUI0B3VuaTA1QjUHdW5pMDVCNgd1bmkwNUI3B3VuaTA1QjgHdW5pMDVCOQd1bmkwNUJBB3VuaTA1QkIHdW5pMDVCQwd1bmkwNUJGB3VuaTA1QzEHdW5pMDVDMgd1bmkwNUM3B3VuaTAyMzcMZm91cnN1cGVyaW9yAkNSAAEAAAAKAE4AkgADREZMVAA0aGVicgAkbGF0bgAUAAQAAAAA//8AAwACAAMABAAEAAAAAP//AAMAAQADAAQABAAAAAD//wADAAAAAwAEAAVrZXJuAD5rZXJuADZrZXJuAC5tYXJrACZta21rACAAAAABAAUAAAACAAMABAAAAAIAAAABAAAAAgAAAAIAAAABAAAABjY4GFgX4gD6AJIADgAGABAAAQAKAAAAAQBwACwAAQBCAAwACQAaABoXqBeoABQXqBeoF6gXqAABAAAC4QABAAACzAABAAkBfwGAAYEBggGEAYYBhwGIAYkACwAAF3IAABdyAAAXcgAAF3IAABdyAAAXcgAAF3IAABdyAAAXcgAAF3IAABdyAAIAAQF/AYkAAAAFAAAAAQAIAAEAVgAMAAIAQAAUAAEAAgDHAMgAAgAcAAYAAhQkFB4AEAAKAAEB2gAAAAEB7v/sAAIUDhQIAAoVNAABAdX/7AAFAAAW7AAAFuwAARbmAAAW7AAAFuwAAgABAYoBjgAAAAQAAAABAAgAARbQFcIACBXqAAwA/AAAFbAVqgAAAAAAAAAAAAAAABWwFaoAAAAAAAAAAAAAAAAVsBWqAAAAAAAAAAAAAAAAFbAVqgAAAAAAAAAAAAAAABWwFaoAAAAAAAAAAAAAAAAVsBWqAAAAAAAAAAAAAAAAFbAVqgAAAAAAAAAAAAAAABWwFaoAAAAAAAAAAAAAAAAVsBWqAAAAAAAAAAAAAAAAFbAVqgAAAAAAAAAAAAAAABWkFZ4AAAAAAAAAAAAAAAAVmAAAAAAAAAAAAAAAAAAAFZgAAAAAAAAAAAAAAAAAABWSFYwAAAAAAAAAAAAAAAAVkhWMAAAAAAAAAAAAAAAAFZIVjAAAAAAAAAAAAAAAABWGFYAAAAAAAAAAAAAAAAAVehV0AAAAAAAAAAAAAAAAFYYVgAAAAAAAAAAAAAAAABWGFYAAAAAAAAAAAAAAAAAVbhVoAAAAAAAAAAAAAAAAFW4VaAAAAAAAAAAAAAAAABVuFWgAAAAAAAAAAAAAAAAVbhVoAAAAAAAAAAAAAAAAFW4VaAAAAAAAAAAAAAAAABVuFWgAAAAAAAAAAAAAAAAVbhVoAAAAAAAAAAAAAAAAFW4VaAAAAAAAAAAAAAAAABViFVwAAAAAAAAAAAAAAAAVVgAAAAAAAAAAAAAAAAAAFVYAAAAAAAAAAAAAAAAAABVWAAAAAAAAAAAAAAAAAAAVVgAAAAAAAAAAAAAAAAAAFVAVSgAAAAAAAAAAAAAAABVEFT4AAAAAAAAAAAAAAAAVUBVKAAAAAAAAAAAAAAAAFVAVSgAAAAAAAAAAAAAAABU4FTIAAAAAAAAAAAAAAAAVOBUyAAAAAAAAAAAAAAAAFTgVMgAAAAAAAAAAAAAAABU4FTIAAAAAAAAAAAAAAAAVOBUyAAAAAAAAAAAAAAAAFTgVMgAAAAAAAAAAAAAAABUsAAAAAAAAAAAAAAAAAAAVJgAAAAAAAAAAAAAAAAAAFSYAAAAAAAAAAAAAAAAAABUmAAAAAAAAAAAAAAAAAAAVbhUgAAAAABUaAAAAAAAAFRQVDgAAAAAVCAAAAAAAABUCFPwAAAAAAAAAAAAAAAAU9hTwAAAAAAAAAAAAAAAAFPYU8AAAAAAAAAAAAAAAABT2FOoAAAAAAAAAAAAAAAAU9hTqAAAAAAAAAAAAAAAAFPYU6gAAAAAAAAAAAAAAABT2FOoAAAAAAAAAAAAAAAAU9hTqAAAAAAAAAAAAAAAAFPYU6gAAAAAAAAAAAAAAABT2FOoAAAAAAAAAAAAAAAAU9hTqAAAAAAAAAAAAAAAAFOQU6gAAAAAAAAAAAAAAABT2FOoAAAAAAAAAAAAAAAAAABTeAAAAAAAAAAAAAAAAFNgAAAAAAAAAAAAAAAAAABTSFMwAAAAAAAAAAAAAAAAUxhTAAAAAAAAAAAAAAAAAFMYUwAAAAAAAAAAAAAAAABTGFMAAAAAAAAAAAAAAAAAUxhTAAAAAAAAAAAAAAAAAFLoUtAAAAAAAAAAAAAAAABSuFKgAAAAAAAAAAAAAAAAUrhSoAAAAAAAAAAAAAAAAFK4UqAAAAAAAAAAAAAAAABSiFJwAAAAAAAAAAAAAAAAUohScAAAAAAAAAAAAAAAAFKIUnAAAAAAAAAAAAAAAABSiFJwAAAAAAAAAAAAAAAAUohScAAAAAAAAAAAAAAAAFKIUnAAAAAAAAAAAAAAAABSWAAAAAAAAAAAAAAAAAAAUlgAAAAAAAAAAAAAAAAAAFJAAAAAAAAAAAAAAAAAAABSKFIQAAAAAAAAAAAAAAAAUfgAAAAAAAAAAAAAAAAAAFH4AAAAAAAAAAAAAAAAAABR+AAAAAAAAAAAAAAAAAAAUeBRyAAAAAAAAAAAAAAAAFHgUcgAAAAAAAAAAAAAAABR4FHIAAAAAAAAAAAAAAAAUeBRyAAAAAAAAAAAAABRsFGYUYAAAAAAAAAAAAAAUbBRmFGAAAAAAAAAAAAAAFGwUZhRgAAAAAAAAAAAAABRaFGYUYAAAAAAAAAAAAAAUVBRmFGAAAAAAAAAAAAAAFGwUZhRgAAAAAAAAAAAAABRsFGYUYAAAAAAAAAAAAAAUbBRmFGAAAAAAAAAAAAAAFGwUZhRgAAAAAAAAAAAAABRsFGYUYAAAAAAAAAAAAAAUThRIAAAAAAAAAAAAAAAAFEIUPBQ2AAAAAAAAAAAAAAAAFDAAAAAAAAAAAAAAAAAAABQwAAAAAAAAAAAAAAAAFCoUJBSoAAAAAAAAAAAAABQqFCQUqAAAAAAAAAAAAAAUKhQkFKgAAAAAAAAAAAAAAAAUHhQYAAAAAAAAAAAAAAAAFMYAAAAAAAAAAAAAAAAAABQeFBgAAAAAAAAAAAAAAAAUHhQYAAAAAAAAAAAAABQSFAwUBgAAAAAAAAAAAAAUEhQMFAYAAAAAAAAAAAAAFBIUDBQGAAAAAAAAAAAAABQAFAwUBgAAAAAAAAAAAAAT+hQMFAYAAAAAAAAAAAAAFBIUDBQGAAAAAAAAAAAAABQSFAwUBgAAAAAAAAAAAAAUEhQMFAYAAAAAAAAAAAAAE/QAAAAAAAAAAAAAAAAAABPuE+gT4gAAAAAAAAAAAAAAABPcAAAAAAAAAAAAAAAAE9YT0AAAAAAAAAAAAAAAAAAAE8oTxAAAAAAAAAAAAAATvhO4AAAAAAAAAAAAAAAAE74TuAAAAAAAAAAAAAAAABOyE7gAAAAAAAAAAAAAAAAAABOsAAAAAAAAAAAAAAAAAAATpgAAAAAAAAAAAAAAABO+E7gAAAAAAAAAAAAAAAAAABOgE5oAAAAAAAAAAAAAAAAToBOaAAAAAAAAAAAAAAAAE6ATmgAAAAAAAAAAAAAAABOgE5oAAAAAAAAAAAAAE5QTjhOIAAAAAAAAAAAAABOCE44TiAAAAAAAAAAAAAATghOOE4gAAAAAAAAAAAAAE3wTjhOIAAAAAAAAAAAAABN2E44TiAAAAAAAAAAAAAATghOOE4gAAAAAAAAAAAAAE4ITjhOIAAAAAAAAAAAAABNwE2oAAAAAAAAAAAAAAAAAABNkAAAAAAAAAAAAAAAAAAATZAAAAAAAAAAAAAAAAAAAE2QAAAAAAAAAAAAAAAAAABNeE1gAAAAAE1IAAAAAAAATTBNGAAAAABNAAAAAABM6EzQTLgAAAAAAAAAAAAATKBMiExwAAAAAAAAAAAAAEygTIhMcAAAAAAAAAAAAABQqFK4UqAAAAAAAAAAAAAAUKhSuFKgAAAAAAAAAAAAAFCoUrhSoAAAAAAAAAAAAABMWFK4UqAAAAAAAAAAAAAATEBSuFKgAAAAAAAAAAAAAFCoUrhSoAAAAAAAAAAAAABQqFK4UqAAAAAAAAAAAAAAUKhSuFKgAAAAAAAAAAAAAEwoTBBL+AAAAAAAAAAAAABQqFK4UqAAAAAAAAAAAAAAUKhSuFKgAAAAAAAAAAAAAEvgS8hLsAAAAAAAAAAAAABLmEuAAAAAAAAAAAAAAAAAS2hMiAAAAAAAAAAAAAAAAEtQSzgAAAAAAAAAAAAAAABLIE44SwgAAAAAAAAAAAAASvBPQErYAAAAAAAAAAAAAErwT0BK2AAAAAAAAAAAAABK8E9AStgAAAAAAAAAAAAASvBPQErYAAAAAAAAAAAAAErASqhKkAAAAAAAAAAAAABKeEpgSkgAAAAAAAAAAAAASnhKYEpIAAAAAAAAAAAAAAAASjAAAAAAAAAAAAAAAABKeEpgSkgAAAAAAAAAAAAAShhKAEnoAAAAAAAAAAAAAEoYSgBJ6AAAAAAAAAAAAABJ0EoASegAAAAAAAAAAAAASbhKAEnoAAAAAAAAAAAAAEoYSgBJ6AAAAAAAAAAAAABKGEoASegAAAAAAAAAAAAAT7hUUAAAAAAAAAAAAAAAAE+4VFAAAAAAAAAAAAAAAABJoEmIAAAAAAAAAAAAAAAASXBJWElAAAAAAAAAAAAAAEkoSRAAAAAAAAAAAAAAAABJKEkQAAAAAAAAAAAAAAAASPhJEAAAAAAAAAAAAAAAAEjgVFAAAAAAAAAAAAAAAABIyEiwSJgAAAAAAAAAAAAASMhIsEiYAAAAAAAAAAAAAEjISLBImAAAAAAAAAAAAABIyEiwSJgAAAAAAAAAAAAASIAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAABIaAAAAAAAAAAAAABIUEg4SCBICAAAAAAAAAAAR/BH2EfAR6gAAAAAAAAAAEeQR3hHYEdIAAAAAAAAAABHMEcYRwBG6AAAAAAAAAAARtBHGEa4RqAAAAAAAAAAAEaIRnBGWEZAAAAAAAAAAABGKEYQRfhF4AAAAAAAAAAARchHGEWwRZgAAAAAAAAAAEWARWhFUEU4AAAAAAAAAABGiEcYRSBGQAAAAAAAAAAARQhHGETwRNgAAAAAAAAAAETARKhEkER4AAAAAAAAAABEYERIRDBEGAAAAAAAAAAAVaBHGEQAQ+gAAAAAAAAAAEPQQ7hDoEOIAAAAAAAAAABGiEcYQ3BGQAAAAAAAAAAAQ1hHGENAReAAAAAAAAAAAEMoQxBC+ELgAAAAAAAAAABCyEKwQphCgAAAAAAAAAAAQmhHGEJQQjgAAAAAAAAAAEIgQxBCCEHwAAAAAAAAAABB2EcYQcBBqAAAAAAAAAAAQZBDEEF4QWAAAAAAAAAAAFYwR9hBSEEwAAAAAAAAAABBGESoQQBA6AAAAAAAAAAAQ9BA0EC4QKBAiAAAAAAAAFLQQHBAWEgIAAAAAAAAAABD0EDQQLhAoECIAAAAAAAAQ9BA0EC4QKBAiAAAAAAAAEPQQNBAuECgQIgAAAAAAABD0EDQQLhAoECIAAAAAAAASFBIOEggSAgAAAAAAAAAAEhQSDhIIEgIAAAAAAAAAABIUEg4SCBICAAAAAAAAAAAR/BH2EfAR6gAAAAAAAAAAEeQR3hHYEdIAAAAAAAAAABHMEcYRwBG6AAAAAAAAAAARtBHGEa4RqAAAAAAAAAAAEBAQChAED/4AAAAAAAAAAA/4D/IP7A/mAAAAAAAAAAARYBFaEVQRTgAAAAAAAAAAD+AP2g/UD84AAAAAAAAAABFCEcYRPBE2AAAAAAAAAAARMBEqESQRHgAAAAAAAAAAERgREhEMEQYAAAAAAAAAABD0EO4Q6BDiAAAAAAAAAAAQ1hHGENAReAAAAAAAAAAAEMoQxBC+ELgAAAAAAAAAABCaEcYQlBCOAAAAAAAAAAAQiBDEEIIQfAAAAAAAAAAAEGQQxBBeEFgAAAAAAAAAABWMEfYQUhBMAAAAAAAAAAAQRhEqEEAQOgAAAAAAAAAAEPQQNBAuECgQIgAAAAAAABS0EBwQFhICAAAAAAAAAAARohGcEZYRkAAAD8gPwgAAAAAAAAAAAAAAAAABASr/MQABAS0CAwABAKsB9AABACIBWgABAD0B9AABAKsAAAABAMYB9AABACUA+gABAA8B9AABAMQAAAABAKYB9AABAB0A+gABAJMB9AABAKYAAAABAVcA+gABAFYB9AABAjYB9AABAVcB9AABAXkAzQABAGAB9AABAPMB9AABAJkA+gABAWMAAAABASkB9AABAR8BCQABARAB9AABAIQAqAABARAAAAABAQsB9AABAQsA+gABAQsAAAABARgB9AABAScA8wABARgAAAABARoB9AABAR8A+gABAR8APwABASAB9AABAT4BRQABABMB9AABASAAAAABATEB9AABATQBAgABABUB9AABATEAAAABAFsA+gABALcAAAABAIIA+gABAUgB9AABAVkA+gABABgB9AABAVcAAAABASgB9AABASgA+gABAP0B9AABAHsA+gAB/84B9AABAOIAAAABAPEB9AABAJwA+AABABAB9AABAOoAAAABAQEB9AABAKIA+gABAJwA8wAB//kBWgABAS4B9AABATgBCQABAGEB9AABAS4AAAABASoB9AABASUA+gABASUAAAABAL8B9AABAB4A+gABAAkB9AABAL0AAAABAIIB9AAB//gA+gABAG4B9AABAIIAAAABAR8B9AABARwA+gABAR8AAAABARIB9AABAJAA+gABABQB9AABAUQAAAABANEB9AABAGMBCQABAC4B9AABANkAAAABARQB9AABAKYA+gABABYB9AABAQAAAAABAToB9AABARoALQABACMB9AABAT0AAAABAdYBDgABAdQCAwABAO0AAAABAPH/7AABAPkCAwABAQcCAwABAQoCzAABAPD/MQABAQoCAwABAXQAAAABAPz/7AABAPwCAwABAYD/7AABAYACAwABASMCzAABASMC4QABAZMAAAABASD/7AABASMCAwABASj/7AABAOcAAAABAN3/7AABAKMCjQABAQEAAAABAPv/7AABAP0CAwABAOMAAAABAO8CAwABAJcAAAABAOwCAwABAa7/MQABASsCAwABAPYC2gABAIX/MQABAS4CAwABAZ0AAAABAZ3/7AABAawCAwABAOkAAAABAOn/7AABAOkCAwABARUCzAABARUC4QABAYwAAAABAST/7AABATYCAwABAogAAAABAbL/7AABAbcCAwABAJIBDgABAJYAAAABAJn/7AABAIkBDgABAI0AAAABAKH/7AABASP/7AABAIn/GAABAI0C5QABAIgCzAABAIgC4QABAIgCAwABAIgAAAABAIj/7AABAIcCAwABARwAAAABASf/7AABAPj/7AABAN7/7AABARACzAABARH/MQABARACAwABAKcAAAABAKD/7AABAOP/7AABAMkCDAABAIn/7AABAOUAAAABAP7/7AABAQMCAwABAQ0CAwABARMCzAABARMC4QABAQkAAAABAQn/7AABARMCAwABAP8AAAABASr/7AABAQ3/7AABARUCAwABAR//7AABAfcAAAABAZr/7AABAZsCAwABARz/7AABARkCAwABARsCzAABARsC4QABAXAAAAABAQD/7AABARsCAwABASQAAAABARr/7AABAQX/7AABAaMAAAABAQ7/7AABAZf/7AABARH/7AABAUsAAAABAUv/7AABARUAAAABARX/7AABAVAAAAABAWT/7AABARcAAAABARf/7AABALsAAAABAUX/7AABAJ3/7AABAk8AAAABAVb/7AABAVUAAAABAdUAAAABAVX/7AABAjAAAAABAXz/7AABALYBBwABARoAAAABAQP/7AABAK8BBwABARMAAAABAUz/7AABAQv/7AABAJUAAAABAJT/7AABANsAAAABAWL/7AABAMcAAAABAU7/7AABAWj/7AABALMAAAABAJv/7AABASgAAAABASL/7AABAUUAAAABAUj/7AABASwAAAABATj/7AABAV0AAAABAV3/7AABATn/7AABAj0AAAABAb7/7AABAbgAAAABARn/7AACAAYAAQAcAAAAHgBBABwARACGAEAAiACuAIMAsADIAKoA0wELAMMAIQAAAOAAAADgAAAA4AAAAOAAAADgAAAA4AAAAOAAAADgAAAA4AAAAOAAAADgAAEA2gABANoAAgDUAAEA2gABANoAAwDOAAMAyAADAMIAAwC8AAMAzgADALYAAwC2AAMAsAADALAABACqAAQApAADAJ4ABQCYAAYAkgAHAIwABACMAAMAhgABAFH/8gABAEABkAABAH4BggABAEAA8wABAHb/7gABAEAB2wABAEABewABAHH/8gABAHb/8gABAKD/8gABAKL/8gABAKj/8gABAED/8gABAAAAAAABAAD/7AABAAACAwACAAIBfwGOAAABqwG7ABAAAgAIAAEACAABABYABQAAAAYAYABSAEQAPAA0ACYAAQAGANMA1QDjAOUA6wDtAAIA3P/v/+8A7P/7//sAAQDU/+L/4gABAOz/+//7AAIA2//7//sA5P/i/+IAAgDW/+r/6gDZ/+r/6gACAN//4v/iAOz/4v/iAAIACAACFBoACgACEBQABAAAElAQtAAyACkAAAAAAAAAAP/2AAAAAAAAAAAAAP/sAAAAAAAAAAD/8f/l/+wAAAAAAAAAAAAAAAAAAAAAAAAAAAAA/8z/9v/+/+cAAAAAAAAAAAAAAAAAAP/vAAAAAAAA//UAAAAAAAAAAP/2AAAAAAADAAD/+f/8//T/xf/KAAD//P/nAAAAAAAAAAD/7//7/94AAAAA/+0AAP/5AAAAAAAA/+MAAP/5//n/5wAAAAAAAP/1AAAAAAAAAAAAAP/sAAAACgAA//wAAP/6/+X/3gAA//z/9gAAAAD/9AAAAAAAAP/2AAD/7P/o//YAAAAAAAAAAP/xAAD//P/8//EAAP/2AAAAAAAAAAAAAAAAAAAAAAAAAAAAAP/2AAAAAAAAAAAAAAAA/+UAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA//YAAP/WAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/7P/iAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA/+8AAAAAAAAAAP/+AAAAAAAAAAAAAAAAAAD/9gAP//7//gAA//QAAAAA//0AAAAA//EADwAA/7r/7wAA//b/7wAAAAAAAAAA/7r/r//GAAAAAP/vAAD//AAAAAAAAP/eAAD/8f/5//kAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAP/l/+UAAAAA/+8AAAAAAAAAAAAAAAD/6AAAAAD/6P/5AAAAAAAAAAD/4wAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/5f/oAAAAAAAAAAAAAAAAAAAAAAAA/+wAAAAA//YAAAAAAAAAAAAA//EAAAAAAAAAAAAAAAAAAP/5//QAAAAAAAD/6P/2AAAAAP/2AAD/+QAAAAD/7wAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/yf/5AAD/9gAAAAAAAAAAAAAAAAAA//EAAP/2AAAAAAAAAAAAAP/mAAAAAAAAAAAAAP/sAAAAAP+d/5MAAAAA/8QAAAAjAAAAAAAAAAAAAAAAAAD/tv/bAAAAAAAA//YAAAAA/8j/3wAAAAAAAAAAAAD/+QAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/7AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA/+//+QAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAP/vAAAAEgAAAAAAAP/0/+z/7wAAAAD/5QAAAAAAAAAAAAAAAP/qAAD/7wAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAP/y/+z/9P/+//EAAP/2AAD/4v/0/+f/9f/0AAAAAAAA/+8AAP/s/+8AAAAA/+cAAAAAAAAAAAAA/+f//v/+AAAAAAAAAAAAAAAA//T/9P/lAAAAAAAAAAAAAAAAAAAAAAAA/+f/7AAAAAAAAAAAAAD/yf+2AAAAAP/qAAAAAAAAAAAAAAAAAAAAAP/s/+3/9v/d/+8AAAAAAAAAAP/xAAD/7wAA/+8AAP/uAAAAAAAAAAAAAAAAAAAAAAAAAAYAAP/v/97/7wAGAAAAAAAAAC0AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAP/UAAD/+f/5AAAAAP/5AAD/7AAAAAAAAAAA/8gAAAAAAAAAAAAAAAD/5f/s//EAAAAAAAAAAP/2//n/+QAAAAAAAAAA/9j/+QAA//kAAAAAAAAAAAAAAAAAAP/vAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAKAAAAAAAAAAD/5f/sAAAAAP/2AAAAAAAAAAAAAAAA/+oAAAAA//YAAAAAAAAAAAAA/+oAAAAAAAAAAAAA//YAAP/xAAD/9gAAAAAAAAAAAAD/6P/+//kAAAAA/+r/7wAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/+QAAAAAAAAAA/90AAAAA//YAAP/vAAD/5f/2/97/7P/vAAAAAP/z//EAAAAA/90AAAAA/+8AAAAAAAAAAAAA//b/+f/5//kAAAAAAAAAAAAA/+//9gAAAAD/8f/mAAD/9v/1AAD/7wAA/+4AAP/QAAD/4AAA/+//5//oAAAAAP/PAAD/9v/2//n/4P/V/9UAAAAA/+//9gAAAAAAAAAA//EAAP/g/+j/6AAA/7b/5f+//9j/1v/WAAD/jv/l/9P/v/+//+f/xf++AAD/7wAA//P/8//sAAD/yf/YAAAAAAAA/7r/hgAAAAD/7AAAAAAAAAAAAAD/5//n/+UAAP/M/+//tf/v/9v/2P/2/5T/7v/q/7b/xP/v/8z/yf/vAAAAAAAA/9H/3gAA/7r/zQAAAAD//gAA/5wAAAAAAAAAAAAAAAD/8QAA/+//5f/bAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAUAAAAAAAAAAAAAAAAP/sAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA/+YAAP/2AAAAAAAAAAAAAAAAAAD/4P/2AAMAAAAA/+z/5QAAAAD/9gAAAAD/7wAAAAAAAAAAAAAAAP/vAAAAAAAAAAAAAAAAAAAAAwAD//0AAP/mAAD/9gAA/+8AAAAAAAUAAAAA/7L/9gAAAAD/8f/O//AAAAAA/+AABf/2/97/6gAAAAD/3gAAAAAAAAAAAAAAAAAAAAD/4wAAAAAAAP/xAAD/7wAA/+wAAAAAAAAAAP/3AAAAAP/e//YAAP/5AAD/7//5AAAAAP/sAAYAAP/z/+8AAAAAAAAAAAAAAAAAAAAAAAAAAP/2/94AAAAAAAD/9AAAAAAAAAAAAAAAAAAAAAAAAP/v//kAAAAA/+8AAAAA/+X/7wAAAAD/9gAAAAAAAAAAAAD/7//sAAD/7v/0//n/+QAAAAAAAAAAAAD/7//2//YAAP/y/94AAP/7//YAAP/dAAD/5QAA/9P/+f/OAAAAAP+I/6wAAP/v/+YAAAAA/+cAAP98/5n/mQAAAAD/sv/GAAAAAAAAAAD/zwAA/87/2wAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAP/eAAAAAAAAAAAABAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAP/2AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAsAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAP/5AAAAAP/Y/80AAAAA/+8AAAAAAAAAAAAAAAAAAAAAAAD/5//n/+//7AAA//YAAAAA//kAAP/sAAAAAAAAAAAAAAAAAAAAAAAA/+L/8wAAAAD/8QAAAAD/yv+6AAAAAP/nAAAAAAAAAAAAAAAAAAAAAP/i/+z/9v/v/+UAAAAAAAAAAP/xAAD/5QAA/+8AAAAA/7oAAAAAAAAAAP/2AAAAAAAAAAD/7AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/kgAAAAD/9gAAAAAAAAAAAAAAAAAAAAAAAP/nAAD/3f/GAAAAAAAAAAD/7wAAAAD/5wAA//YAAAAA//4AAP/vAAAAAAAAAAAAAAAAAAAAAP+6/6YABQAF//EAAAAAAAAAAAAAAAAAAAAAAAD/3QAA/87/swAA//sAAAAAAAAAAAAA/+IAAP/b/+oAAAAAAAD/9AAAAAAAAAAAAAAAAAAAAAD/uv+XAAAAAP/xAAAAAAAPAAAAAAAAAAAAAAAA/+//9v/b/9n/7v/sAAD/p//m/+IAAP/l/+j/5v/QAAD/9QAAAAD/9gAAAAD/7AAAAAAAAAAAAAD/ev/8//z/5QAAAAAAAAAAAAD/4P/o/94AAAAAAAAAAAAAAAAAAAAA/+UAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA/9gAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD/6wAA/93/zgAAAAAAAP9///b/yf/n/+4AAP/2/+z/8f/2AAAAAAAAAAAAAP/sAAAAAAAAAAAAAP9yAAAAAP/lAAAAAAAAAAAAAAAAAAD/7wAA//YAAP/5//kAAAAAAAAAAP/y//b/4v/5AAAAAP/x/+//9AAAAAAAAAAAAAD/4v/vAAAAAAAAAAD/8//2AAP/+QAAAAAAAAAAAAAAAAAA//EAAP/u//b/3//v/+L/7P/2/7b/9v/t/+3/7P/3/+//6gAAAAAAAAAAAAAAAAAA/+z/5wAAAAAABQAA/78ACgAAAAAAAAAAAAAAAAAA//f/9//uAAAAAP/+//QAAAAAAAAAAP/b//7//v/2//sAAAAA//YAAAAAAAAAAAAAAAAAAP/2/+gAAAAAAAUAAP/OAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA//H/5//2//v/9gAA//YAAP/vAAD/3QAA/+gAAP/v/+wAAAAA/+j/6AAAAAD/7//v//b/8f/xAAD/9AAAAAAAAAAAAAAAAAAAAAD/6P/v//YAAAAAAAAAAAAAAAAAAAAA//EAAAAA/+8AAAAAAAAAAAAAAAAAAAAAAAAAAAAA/+X/7AAAAAAAAAAAAAAAAAAAAAAAAP/vAAAAAP/0AAAAAAAAAAD/9gAA/+wAAAAAAAAAAP/CAAAAAP/v//UAAP/5/+8AKwAwACYAAAAAAAD/9gAAAAAAKAAaABoAAAAAAD8AKwAZAAAABgAAABcAAAAFAAD/+QAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA/+gAAAAAAAAAAAAA//n/7gAAAAAAAAAA/7X/vf+uAAAAAAAAAAAAAAAAAAAAAP/oAAD/6P/vAAMAAP/2AAD/5f/vAAAAAAAA/60AAP/2/+X/9gAK//n/+QAAAAAAAAAAAAAACgAA/+wAAAAAABn/+wAA/7oAAAAAAAAAAAAAAAAAAAAAAAoACAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA//QAAAAAAAAAAAAAAAAAAAAA//kAAP/s//MAAAAAAAD/yAAA//b/8QAAAAAAAP/l/+z/7wAAAAAAAAAA//YAAAAAAAAAAAAAAAD/2P/3AAAAAAAAAAAAAAAAAAAAAAAAAAAAAP/5AAD/9v/5AAAAAAAA/7QAAAAAAAAAAAAAAAD/5//l/+UAAAAAAAAAAP/2AAAAAAAAAAAAAAAA/+L/9wAA/+8AAAAAAAAAAAAAAAAAAAAAAAD/5//2//YAAAAAAAAAAP/x//kAAP/vAAD/9AAAAAD/5//bAAAAAP/lAAAAAP/l/+wAAAAAAAAAAAAA/+4AAP/2AAD/7wAAAAAAAAAAAAAAAAACABoAAQAiAAAALQAyACIANgBBACgAQwBTADQAVQBuAEUAcwB7AF8AfwCCAGgAhQCKAGwAjACMAHIAkwCWAHMAmACyAHcAtAC7AJIAvQDBAJoAwwDGAJ8AyADIAKMA0ADQAKQA0gDSAKUBCwELAKYBIQEjAKcBJwEnAKoBKgEsAKsBLwEvAK4BMQExAK8BMwEzALABNQE3ALEBOQFDALQAAgBEAAEACgAEAAsACwAcAA4AEAACAB8AIgACAC0ALQAdADYAQAACAEMAQwACAEUASAAJAEoATAAQAE0AUgAHAFMAUwAeAFUAVQAfAFYAVgAgAFcAWQARAFoAXQAKAF4AZwADAGgAaAAFAGkAaQADAGwAbwABAHEAewABAH0AfQAWAH8AfwATAIAAggAMAIUAhQAMAIcAhwAjAIwAjAAGAJIAkgAWAJgAmgAGAJsAogABAKQApgABAKcApwAGAKkAqQABAKoAqgAGAKsArgAOALEAsgAUALQAtAAUALUAugAFALsAuwAmAL0AvQAnAL4AvgAoAL8AwQANAMMAxgAPAMcAyAATANAA0AAlANIA0gAhAQsBCwABASEBIQAVASIBIwAIASQBJAAiAScBJwAIASgBKAAkASoBKwAZASwBLAAVATABMAASATIBMgASATQBNAASATUBNwALATkBOQALAToBOgAXATsBOwAYATwBPAAXAT0BPQAYAT4BPgAIAT8BPwAaAUABQAAbAUEBQQAaAUIBQgAbAUMBQwAIAAIASgABAAoABQALAAsAAwAMAA0AGgAOABAAEgAVAB0AAwAeAB4AIwAfACIACgAtAC0AJAAuADAAEwAxADIAGwBAAEAAAwBBAEEAJQBEAEQAJgBFAEgACwBKAEwAFABNAFIACABTAFMAJwBVAFUAKABWAFYAKQBXAFkAFQBaAF0ADABeAGcABgBoAGkAAgBqAGsAAQBsAG4AFwBzAHsAAgB/AH8AKwCAAIIADgCFAIUADgCGAIoABwCMAIwABACTAJUAGACWAJYAHQCYAJoABwCbAKUAAQCmAKYAAgCnAKgAAQCpAKkABACqAKoALQCrAK4AEACvAK8ALACwALAAAQCxALIAGQC0ALQAGQC1ALoABAC7ALsALwC9AL0AMAC+AL4AMQC/AMEADwDDAMYAEQDIAMgAHQDQANAALgDSANIAKgELAQsABAEhASEAHAEiASMACQEnAScACQEqASsAIAEsASwAHAEvAS8AFgExATEAFgEzATMAFgE1ATcADQE5ATkADQE6AToAHgE7ATsAHwE8ATwAHgE9AT0AHwE+AT4ACQE/AT8AIQFAAUAAIgFBAUEAIQFCAUIAIgFDAUMACQABAVAABAAAAKMJsAmwCbAJsAmwCbAJsAmwCbAJsAmiCaIJlAmUCZQJggmCCYIJgglkCVYJVglWCVYJSAk2CTYJNgkgCSAJggmCCYIJggmCCYIJggmCCYIJggkSCQAJggjyCOQI5AjkCOQJggjSCNII0gjMCMwIzAjMCMwIzAimCJgIhgh0CHQIdAhmCGYIZghmCGAIYAhgCGAIYAhgCGAIYAhgCGAH/gfoB9IH0gfIB8gHyAfoB+gH6AfoB+gH6AfoB+gH6AeyB6AHoAegB6AHlgeWB5YHlgeWB4AHbgduB24HlgeWB5YH0gfSB9IH0gfSB9IH0gfSB9IH0gfSB+gH0gfSB4AHXAriCuIK4griB1IH0gdEB0QHRAeAB4AHgAeAB4AHgAcyByAHBgb0BvQG9AX6BewF7AXsBewF4gXMB4AFXgTsBM4DXAHqAeQB5AACABgAAQAKAAAADAAUAAoAHgAiABMAJAAkABgALgAyABkANgA/AB4AQQBTACgAVQBuADsAcwB7AFUAfwCCAF4AhQCKAGIAjACMAGgAkwCVAGkAmACyAGwAtAC7AIcAvQDGAI8A0QDSAJkBCwELAJsBHgEfAJwBJQElAJ4BKQEpAJ8BLQEtAKABOgE6AKEBPAE8AKIAAQDR/+8AXAAB/9gAAv/YAAP/2AAE/9gABf/YAAb/2AAH/9gACP/YAAn/2AAK/9gADv/2AA//9gAQ//YAH//2ACD/9gAh//YAIv/2AC3/sAA2//YAN//2ADj/9gA5//YAOv/2ADv/9gA8//YAPf/2AD7/9gA///YAQP/2AEP/9gBJ/+8AXv/lAF//5QBg/+UAYf/lAGL/5QBj/+UAZP/lAGX/5QBm/+UAZ//lAGj/7ABp/+UAbP/uAG3/7gBu/+4Ab//uAHH/7gBy/+4Ac//uAHT/7gB1/+4Adv/uAHf/7gB4/+4Aef/uAHr/7gB7/+4AfQAKAID/9gCB//YAgv/2AIX/9gCLAAoAjQAKAI4AMgCPADIAkAAoAJEAMgCSAAoAm//uAJz/7gCd/+4Anv/uAJ//7gCg/+4Aof/uAKL/7gCk/+4Apf/uAKb/7gCp/+4Asf/+ALL//gC0//4Atf/sALb/7AC3/+wAuP/sALn/7AC6/+wBC//uAFwAAf+rAAL/qwAD/6sABP+rAAX/qwAG/6sAB/+rAAj/qwAJ/6sACv+rAA7/sgAP/7IAEP+yAB//sgAg/7IAIf+yACL/sgA2/7IAN/+yADj/sgA5/7IAOv+yADv/sgA8/7IAPf+yAD7/sgA//7IAQP+yAEP/sgBF/8gARv/IAEf/yABI/8gASv+hAEv/oQBM/6EATf/MAE7/zABP/8wAUP/MAFH/zABS/8wAU/+tAFX/zABW/78AV/+IAFj/iABZ/4gAXv/OAF//zgBg/84AYf/OAGL/zgBj/84AZP/OAGX/zgBm/84AZ//OAGn/zgBs/+AAbf/gAG7/4ABv/+AAcf/gAHL/4ABz/+AAdP/gAHX/4AB2/+AAd//gAHj/4AB5/+AAev/gAHv/4AB9ADAAf/+rAJIAMACb/+AAnP/gAJ3/4ACe/+AAn//gAKD/4ACh/+AAov/gAKT/4ACl/+AApv/gAKn/4ADH/6sAyP+rAQv/4AAHAFP/zwBV/+gAV/++AFj/vgBZ/74AfQAZAJIAGQAcAAH/5QAC/+UAA//lAAT/5QAF/+UABv/lAAf/5QAI/+UACf/lAAr/5QBF/+UARv/lAEf/5QBI/+UASv+9AEv/vQBM/70AU//eAFb/3gBX/60AWP+tAFn/rQBa/98AW//fAFz/3wBd/98Avv/sANL/7AAbABL/7wAk//MASv+6AEv/ugBM/7oATf/vAE7/7wBP/+8AUP/vAFH/7wBS/+8AU//TAFX/7wBX/78AWP+/AFn/vwB9AEEAgAAZAIEAGQCCABkAhQAZAJIAQQC7/+wAvf/2AL8ABQDAAAUAwQAFAAUA0f/vAR3/6wEf/+wBIgAPASwADwACATv/7wE9/+8AAwEf//YBdwAKAXkABQA+AC3/2ABK/+wAS//sAEz/7ABT//kAVv/5AFf/8QBY//EAWf/xAF7/7ABf/+wAYP/sAGH/7ABi/+wAY//sAGT/7ABl/+wAZv/sAGf/7ABp/+wAbP/5AG3/+QBu//kAb//5AHH/+QBy//kAc//5AHT/+QB1//kAdv/5AHf/+QB4//kAef/5AHr/+QB7//kAff/2AJL/9gCb//kAnP/5AJ3/+QCe//kAn//5AKD/+QCh//kAov/5AKT/+QCl//kApv/5AKn/+QC+/+8Aw//lAMT/5QDF/+UAxv/lAQv/+QEi/8gBI//IASf/yAE+/8gBQ//IAXcAHgF5AA8ABAEdAAABLf/7AXcAHgF5AAUABgEd/+sBH//sASIADwEsAA8BdwAPAXn//gAEAR3/9gEt//0BdwAPAXn//gAEAR3/9gEt/+wBdwAeAXn//gADAR//7AEt//4BdwAaAAIBHv/eAXf/zgAEAR4ABQEf//QBLf/nAXcAJQAEAR3/7AEf/94Bd//0AXn/7AAFAR3/8QEeAAABHwAAAS0AAAF3AAAAAgEd/+cBef/sAAQBHf/nAR///QEtAB8BdwAGAAUBHgAlAR//7AEt//sBdwA2AXkASQACAR//7wF3AAgABQEd//YBHv/eAR8AAAF3//EBeQAAAAUBHf/nAR7/4AEf//kBd//0AXn/5wAYAEr/5QBL/+UATP/lAFP/6ABV//kAV//lAFj/5QBZ/+UAw//hAMT/4QDF/+EAxv/hAR3/0wEe/+ABH//5ASj/3QE1//YBNv/2ATf/9gE5//YBQP/oAUL/6AF3//QBef/nAAEBHf/TAAMBH//EAXcAFAF5ABQABAEf/8oBLf/OAXcAGQF5ACsABAEd//YBH//YAXf/9wF5ABUAAwEt//UBdwAcAXkAJgAJAI0ABQCOAC0AjwBEAJAAFACRAC0BH//8AS3/4gF3ADMBeQA6AAEBLf/uAAQBH/+9AS3/uQF3ABQBeQAaAAMBHf/0AR//9gF3//sAAwEd//YBH//2AXcACgAEAR3/1gEe/9gBLf/dAXn/5QADAR///QEt/8oBdwASAAUBHf9XAR7/sAEf/5MBd/+TAXn/hQAEAR3/2AEf/8oBd//pAXn//gADAS3/+wF3AAgBeQADAAMBHf/pAXf/9wF5//kABwCOABIAjwAhAJEAEgEf/+8BLf/NAXcACAF5AA8ABAEd/+cBLf/zAXcAAwF5/94AAwEf/7sBd//+AXkAEAADAR3/4gEf/+wBef/sAAUBHf+rAR7/2AEf/+UBd/+kAXn/uwACAAgAAgDaAAoAAgBMAAQAAACiAGgABgAFAAAAAP+G/4r/dgAA/34AAAAAAAAAAP+LAAAAAAAAAAD/awAAAAAAAAAAAAAAAAAA/88AAAAAAAAAAP/gAAIABAEiASQAAAEnASgAAwEqASsABQE+AUMABwACAAkBIgEjAAEBJwEnAAEBKgErAAIBPgE+AAEBPwE/AAMBQAFAAAQBQQFBAAMBQgFCAAQBQwFDAAEAAgAHASQBJAAEASgBKAAFASoBKwABAT8BPwACAUABQAADAUEBQQACAUIBQgADAAEAHAAEAAAACQBCADwAPAA8AEIAPAAyADIAPAABAAkBIQEiASMBJwEsAT4BPwFBAUMAAgEl/9MBKf+DAAEBHf9dAAEBHf/hAAUAUQAAAlsClAADAAkADAAPABUAAHMRIRElMycnIwcHNycBEQcnMzc3IxdRAgr+obMsKwQremNjAU5jRgQsJKUlApT9bFZWYmIYwMH+fwGBwUZfREQAAv/7AAACPQKMAA0AEQAAYxMzEyMDJiYnIwYGBwMnNSEVBc+kz5FaDhsOBAwbDlsIATgCjP10AVAybjQ0bjL+sKJra/////sAAAI9A3oGJgABAAAABwGTARkAAP////sAAAI9A08GJgABAAAABwGWARkAAP////sAAAI9A0MGJgABAAAABwGUARkAAP////sAAAI9A0QGJgABAAAABwGQARkAAP////v/IQI9AowGJgABAAAABwGAARn85f////sAAAI9A3oGJgABAAAABwGSARkAAP////sAAAI9AywGJgABAAAABwGZARkAAP////sAAAI9A3wGJgABAAAABwGXARkAAP////sAAAI9A1IGJgABAAAABwGYARkAAAAC//YAAAMWAowAEgAWAABjASEVIxUzFSMVIRUhESMGBgcDNzUhFQoBOwHb/tbWAQj+bgQVKRWnBwFBAoxzjnSkcwIlMWAt/pmba2sAAwBPAAACOQKMABEAGgAjAABzETMyFhYVFAYHFRYWFRQGBiMnMzI2NTQmIyM1MzI2NTQmIyNP20NsPy8pNEVEckdkWEBCQkBYSjo1NzdLAowdRz0tUQ8EDExCQlUpai8wLSlmLCYpIv//AE//RgI5AowGJgAMAAAABwGJATn89QABAC//9AItApgAHgAARSImJjU0PgIzMhYXByYmIyIGBhUUFhYzMjY3FwYGAVxTiFIwVW89P2MgSRk4JS9MLChLMilBGUkoagxMlm1RflktMiJYGB41YkRFYzQkG1YvMf//AC//9AItA1MGJgAOAAAABwGVAVUAAP//AC//9AItApgGJgAOAAAABgGaAAAAAgBPAAACSQKMAAoAFQAAcxEzMhYWFRQGBiMnMzI2NjU0JiYjI0+1ZJJPT45gNCQ6VjAwVjokAoxFj29vkkhvLF9PT10pAAMAGwAAAmECjAAEAA8AGgAAUzU3IRUBETMyFhYVFAYGIyczMjY2NTQmJiMjG04BCf71tmOST0+OYDMjO1YvL1Y7IwEwPwVE/tACjEWPb2+SSG8sX09PXSkA//8AT/8hAkkCjAYmABEAAAAHAYABOPzl//8AT/9GAkkCjAYmABEAAAAHAYkBOPz1AAEATwAAAe0CjAALAABzESEVIRUzFSMVIRVPAZT+9ePjARUCjHOOdKRz//8ATwAAAe0DegYmABUAAAAHAZMBIAAA//8ATwAAAe0DTwYmABUAAAAHAZYBIAAA//8ATwAAAe0DQwYmABUAAAAHAZQBIAAA//8ATwAAAe0DRAYmABUAAAAHAZABIAAA//8AT/8hAe0CjAYmABUAAAAHAYABIvzl//8ATwAAAe0DegYmABUAAAAHAZIBIAAA//8ATwAAAe0DLAYmABUAAAAHAZkBIAAAAAEAT/8iAgACjAAhAABFIiY1NDY2NyERIRUhFTMVIxUhFSMOAhUUFjMyNjcXBgYBmy5BGCUR/tUBlP714+MBFQUXKBgbEAoSCCASOd4xLR4yJQsCjHOOdKRzARsqFxQTCQVGDhQAAAEATwAAAeUCjAAJAABzESEVIRUzFSMRTwGW/vPm5gKMc6Jz/vwAAQAv//QCQAKYACIAAEUiJiY1ND4CMzIWFwcmJiMiBgYVFBYWMzI2NzUjNTMRBgYBa1qPUzFXckFHZCBJGDorNVEtKlQ/FikNcOshcAxMlm1RflktMyFYFx81YkRFYzQLC3pw/tghLv//AC//9AJAA1MGJgAfAAAABwGVAW0AAP//AC//9AJAA1IGJgAfAAAABwGRAW0AAP//AC//9AJAAywGJgAfAAAABwGZAW0AAAABAE8AAAJPAowACwAAcxEzFTM1MxEjESMRT4nuiYnuAoz+/v10ARb+6gACABoAAAKqAowABAAQAABTNTchFQERMxUzNTMRIxEjERpOAkL9uYnuiYnuAec+BUP+GQKM/v79dAEW/uoA//8AT/8XAk8CjAYmACMAAAAHAYYBTvzb//8AT/8hAk8CjAYmACMAAAAHAYABTvzlAAEATwAAANgCjAADAABzETMRT4kCjP10//8ASwAAATsDegYmACcAAAAHAZMAlAAA////7QAAAToDQwYmACcAAAAHAZQAlAAA////4wAAAUQDRAYmACcAAAAHAZAAlAAA////7AAAANwDegYmACcAAAAHAZIAlAAA/////wAAASgDLAYmACcAAAAHAZkAlAAAAAEAEv/0Aa0CjAAQAABXIiYnNxYWMzI2NREzERQGBuBIZSFeEzEbKSuKK1sMOjpFIiAzQwGr/kk+Zj0AAAEATwAAAmUCjAAMAABzETMRMxMzAxMjAwcVT4kEzpjH6pekUgKM/uwBFP7+/nYBHmq0AP//AE//IQJlAowGJgAuAAAABwGAAUz85f//AE//RgJlAowGJgAuAAAABwGJAUz89QABAE8AAAHeAowABQAAcxEzESEVT4kBBgKM/edzAAAC/+sAAAHlAowABwANAAB3Jz8CFw8CETMRIRUbMHtpsC/faRCJAQazU0UsYlN5LeACjP3ncwABAE8AAAKmAowAHwAAcxEzExYWFzM2NjcTMxEjETQ2NjcjBwMjAycjHgIVEU+XbQoTCgQKEwppmH4HCAMENWFOYTQEAwgGAoz+1R0/Hx8/HQEr/XQBAx9NTh+a/vgBCJofTk0f/v0AAAEATwAAAkcCjAATAABzETMTFzMmJjU1MxEjAycjFhYVFU+NtEIEBQ2DjbRCBAUNAoz+ro40fDn3/XQBU400ejn5//8ATwAAAkcDUgYmADQAAAAHAZgBTQAAAAIAL//0AnoCmAAPAB8AAEUiJiY1NDY2MzIWFhUUBgYnMjY2NTQmJiMiBgYVFBYWAVVXhUpKhVdXhEpKhFcuRSUlRS4vRSUlRQxSmWpqlk9PlmpqmVJ3NmRERGE0NGFERGQ2AP//AC//9AJ6A3oGJgA2AAAABwGTAVUAAP//AC//9AJ6A08GJgA2AAAABwGWAVUAAP//AC//9AJ6A0MGJgA2AAAABwGUAVUAAP//AC//9AJ6A0QGJgA2AAAABwGQAVUAAP//AC//IQJ6ApgGJgA2AAAABwGAAVX85f//AC//9AJ6A3oGJgA2AAAABwGSAVUAAP//AC//9AJ6AywGJgA2AAAABwGZAVUAAAADACn/2AKOArQAAwATACMAAFcnARcBIiYmNTQ2NjMyFhYVFAYGJzI2NjU0JiYjIgYGFRQWFnFIAh1I/shXhUpKhVdXhEpKhFcuRSUlRS4vRSUlRSg4AqQ3/XdSmWpqlk9PlmpqmVJ3NmRERGE0NGFERGQ2//8AL//0AnoDUgYmADYAAAAHAZgBVQAAAAIALwAAAy8CjAASAB0AAGEiJiY1NDY2MyEVIxUzFSMVIRUlMxEjIgYGFRQWFgF0XpNUVZZiAan81NQBBv5VGxs8WjIyWkiSb2+PRXOOdKRzbwGvKF5PT2ArAAIATwAAAioCjAAMABUAAHMRMzIWFhUUBgYjIxURMzI2NTQmIyNP2kh0RURzRlVMQT5DQEgCjCZbTktgL+MBUTc1NysAAgBPAAACNAKMAA4AFwAAcxEzFTMyFhYVFAYGIyMVNTMyNjU0JiMjT4lfR3NDRHNGX1ZBPkA/VgKMZCdaTkthLn/sODU3KwAAAwAv/00CmQKYAA8AHgAuAABFIiYmNTQ2NjMyFhYVFAYGFyImJzceAjMyNjcXBgYDMjY2NTQmJiMiBgYVFBYWAVVXhUpKhVdXhEpKhH1pjyCMDDE+IRUkDxgROvkuRSUlRS4vRSUlRQxSmWpqlk9PlmpqmVKnaFANHyYSBwRlCAwBFzdmSERhNDRhREhmNwAAAwBPAAACSwKMAAwAEAAZAABzETMyFhYVFAYGIyMVMwM3EwEzMjY1NCYjI0/mRXBDQ3BFXdmVYM/+jVE9QEA9UQKMJFhMSV0t8QEWVv6UAV8zMjMoAAABACT/9AIGApgALQAARSImJzcWFjMyNjU0JiYnJy4CNTQ2NjMyFhcHJiYjIgYVFBYWFxceAhUUBgYBFEB/MU8jVyoxMRgrHVYiPCY7Z0I5bSlGH0IoKDEaLxxUKDohOW0MMS5eICYlIRYcFQwlDi5FLzZWMywoVxkcIh8VHBUMIhAwQy42Wzf//wAk//QCBgN6BiYARQAAAAcBkwEhAAD//wAk//QCBgNTBiYARQAAAAcBlQEhAAD//wAk/yECBgKYBiYARQAAAAcBgAEX/OUAAQA0//QCcgKYACIAAEUiJiY1NDY3IRUhHgIzMjY1NCYjIgYHJzY2MzIWFhUUBgYBT1d/RQIBAdX+tAQlPSlGVVNULkgbQCdwSlaBSEmDDE6VbAsXC2Q6SiRudXNuJBpeIy1Mlm9umE0AAAEAGQAAAhACjAAHAABzESM1IRUjEdC3Afe3Ahlzc/3nAP//ABn/IQIQAowGJgBKAAAABwGAARX85f//ABn/RgIQAowGJgBKAAAABwGJARX89QABAEv/9AJKAowAFwAARSIuAjURMxEUFhYzMjY2NREzERQOAgFMPWBCIoocNiUmNh6EIUFfDCRKdlEBY/6QQk4hIU5CAXD+nVF2SiT//wBL//QCSgN6BiYATQAAAAcBkwFLAAD//wBL//QCSgNDBiYATQAAAAcBlAFLAAD//wBL//QCSgNEBiYATQAAAAcBkAFLAAD//wBL//QCSgN6BiYATQAAAAcBkgFLAAD//wBL//QCSgMsBiYATQAAAAcBmQFLAAAAAf/6AAACLAKMAA0AAHMDMxMWFhczNjY3EzMDwceRUxAXDwQQGA5RjccCjP7JN2U3N2U3ATf9dP////r/IQIsAowGJgBTAAAABwGAARH85QABAA8AAAMaAowAIQAAcwMzExYWFzM2NjcTMxMWFhczNjY3EzMDIwMmJicjBgYHA4t8jTEGDwcEChQKSXZJChUKBAYPBzCEd6xFCA0GBAYOCEMCjP7INGgzM2kzATj+yDNoNDRoMwE4/XQBOCZMJSVMJv7IAAEADAAAAiMCjAAZAABzEwMzFxYWFzM2Njc3MwMTIycmJicjBgYHBwy2q5k+CxcOBAwUCjmTq7aZRQ0YDQQMFwtDAVABPIIWMh8fMhaC/r3+t4wZNB4eNBmMAAH/+QAAAgwCjAAPAABzNQMzFxYWFzM2Njc3MwMVvsWTPw0bDgQPHA4+kMXsAaCbJUYlJUYlm/5g7P////kAAAIMA3oGJgBXAAAABwGTAQMAAP////kAAAIMA0QGJgBXAAAABwGQAQMAAAABACUAAAH6AowACQAAczUBITUhFQEhFSUBKf7zAbf+1gEsUwHGc1L+OXMA//8AJQAAAfoDUwYmAFoAAAAHAZUBGwAA//8AJf8hAfoCjAYmAFoAAAAHAYABGvzl//8AJf9GAfoCjAYmAFoAAAAHAYkBGvz1AAIAK//0Ac8B+wAdACgAAFciJiY1NDY3LgIjIgYHJz4CMzIWFhURIycjBgY3MjY3NQ4CFRQWvixCJYaVAREjHSFBIzIeREgnP1YscAoEH0kDGykWOUIcIgwnQypOWBAXJBQZFVsSHhEyYUr+4jQcJGoZFV4HGSMUGxr//wAr//QB0gMzBiYAXgAAAAcBggEbAAD//wAr//QBzwLlBiYAXgAAAAcBhgEbAAD//wAr//QBzwLoBiYAXgAAAAcBhAEbAAD//wAr//QBzwLEBiYAXgAAAAcBfwEbAAD//wAr/yEBzwH7BiYAXgAAAAcBgAEA/OX//wAr//QBzwMzBiYAXgAAAAcBgQEbAAD//wAr//QBzwKpBiYAXgAAAAcBiQEbAAD//wAr//QBzwMBBiYAXgAAAAcBhwEbAAD//wAr//QB1gLgBiYAXgAAAAcBiAEbAAAAAgA9//QB4AH7AB0AKAAARSImJjURMxczNjYzMhYVFAYHHgMzMjY3Fw4CAz4CNTQmIyIGBwEURmAxcAoDHlExP0eGlAEMFyQaIT4jMR1ARXM5QhwfGBovFwwzZUoBGT4hKUw7UWMREB0VDBoUWhMdEQEQCBojFRoYHBwAAAMAMP/0Au0B+wAyAD8ARwAAVyImJjU0NjcuAiMiBgcnPgIzMhYXNjYzMhYWFRQGByEeAjMyNjcXBgYjIiYmJwYGJzI2NyYmJycGBhUUFjczNCYjIgYGwyxCJYWTARAiHh9BIzIeQUUkMEYVH0gtQVgrBAL+3gUjNB8eMhswJVstJT4zFTRbAxs0FgUIAQJPQyLvsygrGSgbDCdDKk5ZDxgjFBkVWxIeESslJio/bUQSIAklMhkUEFkZHhQlFiolahoWECQTFQstHxsaxzE8GTAAAAIAQ//0AhICvgAUACMAAEUiJicjByMRMxUHNjYzMhYWFRQGBicyNjY1NCYmIyIGBxUWFgFBIkMeBAtsiQMdRSQ9Vy88X1UbLhoUKR8YLRgWLQwhIDUCvq5OGh8/cExVeD9wIUQ1LT8gFhrTExD//wBD/0YCEgK+BiYAagAAAAcBiQEf/PUAAQAl//QBuwH7AB0AAEUiJiY1NDY2MzIWFwcmJiMiBgYVFBYWMzI2NxcGBgEYRG5BSHRDLkgbQhIhFCU3Hh41IhowEzckVgw9dFJSdD4fF1kRDyVDLS1DJBYQWh8c//8AJf/0AcgC9gYmAGwAAAAHAYUBFQAA//8AJf8TAbsB+wYmAGwAAAAHAYwBFQAAAAIAKP/0AfcCvgATACEAAFciJjU0NjYzMhYXJzUzESMnIwYGJzI2NzUmJiMiBgYVFBbzXG87XzUqOBoFiXAKBBpHAhoqFBUtFhosGzMMinlRdD8cGU2r/UIyGiRwFhrUEw8gQTBLSgAAAgAs//QB+gLjACkALQAARSImJjU0NjYzMhYXFyYmIyIGBhUUFhYzMjY2NTQuAic3HgMVFAYGAyclFwEQPWg/OV01KUoTAhk2HSAwGh4xHR4uGSJCYkA8PnZfNzlp2SQBbiQMOmxJR2Y2Ji5KIRcdNykpOR4jRzVOd1xKIlQgVXCUYVF8SAHrPbk+AP//ACj/IQH3Ar4GJgBvAAAABwGAASr85f//ACj/RgH3Ar4GJgBvAAAABwGJASr89QABACX/9AHeAfsAIwAARSImJjU0NjYzMhYWFRQGByEnMzQmIyIGBhUUFhYzMjY3FwYGAR5GcUJDajtFXS8EAv65AdgqLhsyIClAJB41Gy0lWww+c1JQdEA+a0QSIwlbLjkeRTg5Qx4REFMZHv//ACX/9AHeAzMGJgBzAAAABwGCARMAAP//ACX/9AHeAuUGJgBzAAAABwGGARMAAP//ACX/9AHeAugGJgBzAAAABwGEARMAAP//ACX/9AHeAsQGJgBzAAAABwF/ARMAAP//ACX/IQHeAfsGJgBzAAAABwGAAQn85f//ACX/9AHeAzMGJgBzAAAABwGBARMAAP//ACX/9AHeAqkGJgBzAAAABwGJARMAAAACACX/LgHeAfsALgA2AABFIiY1NDY3BgYjIiYmNTQ2NjMyFhYVFAYHIR4CMzI2NxcOAhUUFjMyNjcXBgYDMzQmIyIGBgFqKzwmEwkPBkZxQkNqO0VdLwQC/tIGJTgjHjUbLSwvERoRCxEIHRI42L8qLhksHdIuLSU5EQICPnNSUHRAPmtEEiMJJzMZERBTHiwmExQTBwU+DhMB/S45Fy4AAQAu//QBtwH7ACwAAEUiJiY1NDY2NzUmJjU0NjYzMhYXByYmIyIGFRQWMzMVIyIGFRQWMzI2NxcGBgEKOWQ/GzAeKSg3WzQsTSUzGS4dICcmJkJRKyk3Kxg2HDYsUgwjRDEiMB4IBAw8HjI9HhcXWQ8PHRkYGVsaHB0gEBFXHRYAAAH/zv85AUQCywAdAABXIiYnNxYWMzI2NRE0NjYzMhYXByYmIyIGFREUBgYkHigQGQoTCx8XIU9EGyMNGAcPCCQcH0vHCAVlAwQpKgISNlg0CAZlAwQoKv3tNVg0AAABAAX/OQGyAe8AHwAAVyImJzcWFjMyNjY1NCYjIgYHJzcjNSEVBx4CFRQGBtJIYyI+GT4oHS8bNy8UFhEuntEBdJs4UCo+ZscwIFUWIRszIzAzBQdD0WxKzAIyVDVJZjQAAAIAGQAAAWsCygAQABUAAHMRNDY2MzIWFwcmJiMiBhURAzU3MxVbIk5AHjIQGQ0aDRwey0ndAhA1VDELBmUGBSMo/ewBg2YGbAAAAwAk/ysCAwH7ADMARABTAABXIiYmNTQ2NzUmJjU0Njc1JiY1NDY2MzIWFzMVIxYWFRQGBiMiJicGBhUUFjMzMhYVFAYGJzI2NjU0JiMjIiYnBgYVFBYTMjY2NTQmJiMiBhUUFhbyOl42JSESGyEWGSk5XDUVJxCzUwkMNFc2Dh8RCgojKVNaYEN6PiM2HykmORcgDRAPPygVIRMTIRUfKhMh1Rs4LB8zEwQNKR4bMRAEE0MrO08pBwVlDCUVOUokBQUIEQ8TFDtBM1AuVxEfExkQBAMNGg8eHwFuFCgcHCYULCocKBQA//8AJP8rAgMC9gYmAIAAAAAHAYUBEAAA//8AJP8rAgMCzgYmAIAAAAAHAYABEAAAAAH/+gAAAaoCygAZAABzET4CNTQmIyIGByc+AjMyFhYVFAYGBxGDOkQfNC0oQBhFGD1OMDxkPSlHLgE+JDw6Ii8zJhtWGSkXLVpEN1RHI/72AAABACgAAAHXAsoAGQAAcxEuAjU0NjYzMhYWFwcmJiMiBhUUFhYXEcUtSCg/aj4uSjoWRBY7JTE7H0U5AQojR1Q3RFotFykZVhsmMy8iOjwk/sL//wAk/ysCAwKpBiYAgAAAAAcBiQEQAAAAAQBDAAAB+gK+ABQAAHMRMxUHNjYzMhYVESMRNCYjIgYHEUOJBh1LM1BJiSAiHiobAr6uXBssal3+zAEiOCwbGv6vAAAC//4AAAH6Ar4AFAAZAABzETMVBzY2MzIWFREjNTQmIyIGBxEDNTchFUOJBh1LM1BJiSAiHiobzk0BLAK+3VwbLGpd/vvzOCwbGv7eAi4+BkT//wBD/xcB+gK+BiYAhgAAAAcBhgEn/Nv//wBD/yEB+gK+BiYAhgAAAAcBgAEn/OX//wBD/0YB+gK+BiYAhgAAAAcBiQEn/PX//wA7AAAA1QLOBiYAjAAAAAcBgACIAAAAAQBDAAAAzAHvAAMAAHMRMxFDiQHv/hH//wBDAAABQAMzBiYAjAAAAAcBggCIAAD////VAAABOwLoBiYAjAAAAAcBhACIAAD////ZAAABNwLEBiYAjAAAAAcBfwCIAAD////QAAAAzAMzBiYAjAAAAAcBgQCIAAD////2AAABGgKpBiYAjAAAAAcBiQCIAAAAA//T/zkA1wLOABAAIQAtAABXIiYnNxYWMzI2NRMzAxQGBiMiJic3FhYzMjY1EzMDFAYGEyImNTQ2MzIWFRQGKB0pDxkKEwofFwKJAh9KQR0pDxkKEwofFwKJAh9KISIsLCIiKyvHCAVlAwQpKgH4/gs1WDQIBWUDBCkqAfj+CzVYNAMCKiAgKSkgICoAAAEAQwAAAhUCvgAMAABzETMRMzczBxMjJwcVQ4YEpZWsupR0RAK+/mLPy/7cyE17//8AQ/8hAhUCvgYmAJMAAAAHAYABI/zl//8AQ/9GAhUCvgYmAJMAAAAHAYkBI/z1AAEAQ//0AQkCvgAQAABXIiYmNREzERQWMzI2NxcGBsMvOBmJEQkFBwYRDCIMJ0YwAi39zRYSAQFlBQcAAAL/7v/0ATUCvgAHABgAAFMnPwIXBwcTIiYmNREzERQWMzI2NxcGBh4wZ2VML3tldy84GYkRCQUHBhEMIgEBVTovLVZFL/7SJ0YwAi39zRYSAQFlBQcAAQBDAAADFgH7ACIAAHMRMxczNjYzMhYXNjYzMhYVESMRNCYjIgYHESMRNCYjIgcRQ3AKBB5IMDVCEiFLMFBKiR8iFSwaiR8iKTIB70EfLi0oIzJqXf7MASI4LBob/q8BIjgsNf6vAAABAEMAAAH6AfsAFAAAcxEzFzM2NjMyFhURIxE0JiMiBgcRQ3AKBCBNM1BJiSAiHiobAe9AHy1qXf7MASI4LBsa/q8A//8AQwAAAfoC4AYmAJkAAAAHAYgBNgAAAAIAJf/0AgQB+wAPAB8AAEUiJiY1NDY2MzIWFhUUBgYnMjY2NTQmJiMiBgYVFBYWARU/bUREbT8+bUREbT4gLBYWLCAhLBYWLAw9dFJSdD4+dFJSdD1vJEMtLUMlJUMtLUMkAP//ACX/9AIEAzMGJgCbAAAABwGCARUAAP//ACX/9AIEAuUGJgCbAAAABwGGARUAAP//ACX/9AIEAugGJgCbAAAABwGEARUAAP//ACX/9AIEAsQGJgCbAAAABwF/ARUAAP//ACX/IQIEAfsGJgCbAAAABwGAARX85f//ACX/9AIEAzMGJgCbAAAABwGBARUAAP//ACX/9AIEAqkGJgCbAAAABwGJARUAAAABABf/9AGsAfsAHQAAVyImJzcWFjMyNjY1NCYmIyIGByc2NjMyFhYVFAYGuilWJDYUMBkiNh4dMyAaJRNBHFI1P2xBQW4MHB9aEBYkQy0tQyUPEVkXHz10U1J0PQAAAwAl/+cCBAIJAAMAEwAjAABXJwEXAyImJjU0NjYzMhYWFRQGBicyNjY1NCYmIyIGBhUUFhZiNAGZNOY/bUREbT8+bUREbT4gMBoZMSAhMBoaMBkpAfkp/hQ9dFJSdD4+dFJSdD1qJUEsNUckJEIrNkckAP//ACX/9AIEAuAGJgCbAAAABwGIARUAAAADACX/9AMUAfsAJgA2AD4AAEUiJiY1NDY2MzIWFzY2MzIWFhUUBgchHgIzMjY3FwYGIyImJwYGJzI2NjU0JiYjIgYGFRQWFjczNCYjIgYGAQs/aD9Aaj81UhsfUi9BVywDAv7cBSM0IB4zGy8lXC0uVh4eUjQdKhcXKh0dKhcXKvq0KCwYKRsMPXRSUnQ+MissMT9tRBIgCSUyGRQQWRkeMSstL28kQy0tQyUlQy0tQyTCMTwZMAAAAgBD/0UCEgH7ABQAIwAAVxEzFzM2NjMyFhYVFAYGIyImJxcVEzI2NjU0JiYjIgYHFRYWQ3AKBB5KJz1WLzxfNiA+GwRWGy4aFCkfGCwZFi27AqoyGiQ/cUxVdz8bGU+UAR8hRDUtPyAWGtMTEAACAEP/RQISAr4AFAAjAABXETMVBzY2MzIWFhUUBgYjIiYnFxUTMjY2NTQmJiMiBgcVFhZDiQMbQiM+WzA8XzYkORsDVhsuGhQpHxgsGRYtuwN5r0gXHT9xTFV3PxkXS5QBHyFENS0/IBYa0xMQAAIAKP9FAfcB+wATACEAAEU1NwYGIyImNTQ2NjMyFhczNzMRAzI2NzUmJiMiBgYVFBYBbgUZRCNcbztfNSk/HQQLbOEaKhQVLRYaLBszu5pOGCGKeVF0Px4fMf1WAR8WGtQTDyBBMEtKAAABAEMAAAGHAfsAEgAAcxEzFzM2NjMyFhcHJiYjIgYHEUNwCgQbSyYUHAoXDRcQHT4VAe9XMTIFBXcEBCo1/t0AAQAW//QBmwH7ACoAAFciJic3FhYzMjY1NCYmJy4CNTQ2MzIWFwcmJiMiBhUUFhYXHgIVFAYG0zFnJT4iQCEjIB0vGh89KWZUOFQfPRs0Gx8fHC4aID4qLlkMJx5WGRwaFhEZEwoMJDgpRFUmGFMUFxkUEBYSCQwjOS0sSCr//wAW//QBpwMzBiYAqwAAAAcBggDvAAD//wAW//QBogL2BiYAqwAAAAcBhQDvAAD//wAW/yEBmwH7BiYAqwAAAAcBgADj/OUAAQBD//QCVALIADYAAEUiJic3FhYzMjY1NC4ENTQ+AjU0JiMiBhURIxE0NjYzMhYWFRQOAhUUHgQVFAYGAaAsRiMwGS8YHR8aKS0qGRYdFiIhLzCIM2dOQVgsGB8YGSotKRopUQwYFl0TEh8WFRwYGSAuIR4rJiscHyhFPv4mAetAZDkuSiskMyYiFREaFholNCctSSwAAgAk//QB3QH7ABoAIQAAVyImJjU0NjchLgIjIgYHJzY2MzIWFhUUBgYnMjY3IxQW+EVfMAUBAS4FHzIhHTgaLihdL0FnPT9pQCc2B78sDD5sRRMjCSUyGRIRWhoYP3RQUXQ/aTQ1LzoAAAEAEv/0AWgCcwAXAABXIiY1NSM1NzczFTMVIxUUFjMyNjcXBgb9Wk1ETBBxeXkjHw0aChYUNgxoVNNmBoSEbNIqJwYEZAYM//8AEv8hAWgCcwYmALEAAAAHAYAA3fzlAAIAEv85AroCywAdADUAAEUiJic3FhYzMjY1ETQ2NjMyFhcHJiYjIgYVERQGBiciJjU1IzU3NzMVMxUjFRQWMzI2NxcGBgGZHSgQGQoTCx4YIU5FGiMOGQcPCCQcH0rdWk1ETBBxeXkjHw0aChYUNscIBWUDBCkqAhI2WDQIBmUDBCgq/e01WDS7aFTTZgaEhGzSKicGBGQGDP//ABL/RgFvAnMGJgCxAAAABwGJAN389QABAD7/9AHxAe8AFAAAVyImNREzERQWMzI2NxEzESMnIwYG109KiSEiHSoXiXAKAyBKDGpdATT+3TgrGyABS/4RRiYs//8APv/0AfEDMwYmALUAAAAHAYIBIwAA//8APv/0AfEC6AYmALUAAAAHAYQBIwAA//8APv/0AfECxAYmALUAAAAHAX8BIwAA//8APv/0AfEDMwYmALUAAAAHAYEBIwAA//8APv/0AfECqQYmALUAAAAHAYkBIwAAAAEADAAAAfYB7wANAABzAzMXFhYXMzY2NzczA7SoikUJFAoEChQKRISkAe/xJUwmJkwl8f4R//8ADP8hAfYB7wYmALsAAAAHAYABA/zlAAEAGAAAAucB7wAhAABzAzMXFhYXMzY2NzczFxYWFzM2Njc3MwMjJyYmJyMGBgcHln6INAYLBgQHDgk6eDsJDwcEBwoHM395oTEHDQcEBwwILwHv7iRJJSVJJO7uJEklJUkk7v4R0CNGKChGI9AAAQAOAAAB6QHvABkAAHMTJzMXFhYXMzY2NzczBxcjJyYmJyMGBgcHDpmQkzAKFgsECBMIJo6QmZM0CxgMBAoVCSsBAu1VFCsVFSsUVf3yVxUsFRUrFlcAAAEADP88AfUB7wAbAABXIiYnNxYWMzI2NzcDMxcWFhczNjY3NzMDDgJ0FiAPGQcTCCUrCgjAiksLFAoECREJQISuFzZOxAYEaAEFKB8cAeTfIUYlI0ci3/4GO1MrAP//AAz/PAH1AzMGJgC/AAAABwGCAQoAAP//AAz/PAH1AsQGJgC/AAAABwF/AQoAAAABAAwAAAH1AsoAGwAAcxM+AjMyFhcHJiYjIgYHBxMjJyYmJyMGBgcHDLcWN005Fx8PGQcSCSUqCxHAiksLFAoECBIJQQIRPFIrBQVoAgQnIDP+HN4iRyMiRyPeAAEAJQAAAa4B7wAJAABzNRMjNSEVAzMVJde/AWrY30kBOmxK/sdsAP//ACUAAAGuAvYGJgDDAAAABwGFAPkAAP//ACX/IQGuAe8GJgDDAAAABwGAAPH85f//ACX/RgGuAe8GJgDDAAAABwGJAPH89f//ABkAAAIiAs4EJgB/AAAAJwCMAU0AAAAHAYAB1QAA//8AGf/0AlYCygQmAH8AAAAHAJYBTQAA//8AHgFyATwCygYGAMsAAP//ABkBcgFaAsoGBgDPAAAAAgAeAXIBPALKABkAIwAAUyImNTQ2NyYmIyIGByc2NjMyFhUVIycjBgY3MjY3NQYGFRQWgy82WmMCFxoVLxgjIEknP0ROCQQSMAQQGg42KRUBcjsoNToJFxkRDUATGEhKviISGEsODTwFHhQPEQACABgBcgFCAsoAGgAiAABTIiYmNTQ2NjMyHgIVFAYHIxYWMzI2NxcGBiczNCYmIyIGwC9MLSxIKiU1IhACA8cGLyITJREiGj9rfAsZFhkkAXIpTTY1TSoaLDgeDRAMJiIKCzsRFMsSHxIhAAACABgBcgFCAsoAGgAiAABTIiYmNTQ2NjMyHgIVFAYHIxYWMzI2NxcGBiczNCYmIyIGwC9MLSxIKiU1IhACA8cGLyITJREiGj9rfAsZFhkkAXIpTTY1TSoaLDgeDRAMJiIKCzsRFMsSHxIhAAAC/+AA8QCXA1cAEAAcAAB3IiYnNxYWMzI2NREzERQGBhMiJjU0NjMyFhUUBhoVGgsRBgwJEw5iFjMZGSAgGRggIPEFA0kBAxgcAVD+tCQ9JAIBHRUXHBwXFR0AAAIAGQFyAVoCygAPABsAAFMiJiY1NDY2MzIWFhUUBgYnMjY1NCYjIgYVFBa6K0ktLUkrKkktLUkqHx4eHyAeHgFyKU02Nk0pKU02Nk0pTjMrKzQ0KyszAAADADL/9AHvAsoAAwARACMAAFM1IRUDIiY1NDY2MzIWFhUUBicyNjY1NC4CIyIOAhUUFhZ8ASqVZXo4ZENDYzh6ZBkpFw0ZIRITIRkNFykBNFxc/sC1uHqhTk+geri1bytvZExhOBYWOGFMZG8rAAEAEv/0AlwB7wAlAABFIiYmNTQ+AjUjFAYHJzY2NSM1NyEVIw4DFRQWMzI2NxcGBgIENT4aAQIBfBAKihISbUoCAF4CAwEBFxYHEwsRDi0MKEkxDDRESCBbzWIIZMpUZwZtIUxHNAoZFAMBZQUJAAABAAj/QwIUAfsADQAAVycTAzcXMzczAxMHJyOVjb6+iHgEXY+rx4eBBL0MAVYBNx/e0v65/rke9QAAAQAVAAACTQI7AA4AAGEjAwMjEzcnMxcXNzczAwJNmrxZiW8eXJFQSBsoiXgBI/7dAVdNl4JtW5T+lAAAAgAlAAACAQI7AAwAEAAAYRE0JiMjNTMyFhYVESE1IRUBLiQgxe0yTiz+ZwHcAYYnIW0mUkT+gWxsAAIAEf/tAX8CRwANABYAAHMnNTQmJyc3FxYWFRUXBSc2NjcXDgL2JxcZPxJ2PTog/sc1Sl8YMBMwRuOrJR0ECGsQB0xGvuATchhIMkssRzQAAQAjAAAB+AI7AA0AAGERNDY3ITUhFSMGBhURAQcPDf8AAdVOCwgBWSg8EW1tGUEb/qcAAAIAMAAAAg8COwAMABIAAGERNCYjITUhMhYWFREhETczFREBfiMg/vsBLDJOLf4hFH0BhichbSZSRP6BARFDQ/7vAAEAMQAAAM0COwAFAABzESczFxE8C5AMAcZ1df46AAEAJwAAAVACOwANAABzETQ2NyM1IRUjBgYVEWUPDVoBKUsMBAFZKDwRbW0ZQRv+pwAAAgA1AAACIAI7AAsADwAAYRE0IyE1ITIWFhURIREzEQGPQ/7pAT4zTiz+FZEBgU1tKFVE/oYB+v4GAAEAKP/2AjgCRgAZAABXAzMTPgMnNTQmJicnNxceAhcXFg4Ca0ORMTZKLBMBFCwiMQs9O187AgEDPXmsCgJF/jsFITVILCAcMCECA28DAy5ZRRxbg1QrAAABADEA0gDNAjsABwAAdzU1JzMXFQc8C5AMAdJYnHV1nD8AAQAn/zgBygI7AAwAAEURNCYjIzUzMhYWFREBOiQgz/cyTizIAk4nIW0mUkT9uQAAAQAdAAABvwI7ABcAAHM1MzI2NjU1NCYmIyM1MzIWFhUVFAYGIx2gKDIXFzIooMdJYTExYUlsJEAoSyg/JG1Ac007TnM/AAIAHwAAAdICzQAGAAoAAHMTITUhFQMDNTMVjbT+3gGztP+CAc5td/48Ac7//wADADQAAAIeAjsADQARABcAAGERNCYjIzUzMhYWFREVITUhByERNTMVEQGNIyC64TJOLf41AZcD/k2RAYYnIW0mUkT+3l1sbAHjWGD+JQACACP/5QJcAkQAGQAfAABFNxY2NicuAiMiBgYHJzY2MzIeAhUWBgYlEyczFwMBCQ1KUiEBARowJRssHAQhFFs3NVE4HQFPmP64RlCWQz4BbBAjXkY/TiMWKh0+TEUjSG5JbpQ7GwGBusH+hgABADH/OADNAjsABQAAVxEnMxcRPAuQDMgCjnV1/XIAAAEAJgAAAUkCRwANAABzNTMRNCYnJzcXFhYVESaTHRpGEn0+QGwBISYdAwlrEAhZRf5vAAABACj/9gIwAjsAGQAAVwM3Ez4EJzU0JiYjISchMhYXFxYOAmw3iiwrPyoXCgITIxj+5Q0BM2NrAwEDPXeoCgHYQf5nBBMjMUIqHh8rGW1wYCFdf04nAAIAB//ZAhYCOwAPABMAAFcnNz4ENTMUDgMHJwMzExsU6TE7HgwBjwcbPm5WSHeRcCdxLAkrR2eKWWKhgWFCEVcB4f4fAAABACT/OAH+AjsAGAAAQTIWFhURIxE0JiYjIwcGFhYXBy4DNzcBLUZdLpEULSdLDAMDFhgaN0MgBAglAjtAck39/AILKD8kQxcsHgJXASA2RSaoAAABACgAAAIKAjsAIgAAczUzMj4CNTU0JiYjIwcGFhcHLgI3NzMyFhYVFRQOAiM1yh0tIBAXMiZIEgcaKhdJThcJKNNGYzUhPlU1bBMlNCFKKD8kVCUmCVoBM1M0tEByTTw8YEIiAAACACD/OAIAAjsAAwAHAABFAzMTJycTMwES8orygFWwicgDA/z99msBogADAB4AAAILAjsAAwAHAAsAAGEBMwEhNSEXJyc3MwFr/r2SAUL+IgGQKWNSWo8CO/3FbGzge+AAAAIAK/84AioCOwAQABYAAEUnPgM3NyE1IQcHDgMFETczFREBAAsgMiMUBAz+pQH3BQsDIUBp/t4UfQFsAxUpRDGtbV6WRHZaM8gB30RD/iAAAQAbAAABswI7AAwAAGERNCYjIzUzMhYWFREBIiMgxOsyTi0BhichbSZSRP6BAAIAKP/yAoECOwAOABoAAFcDMxM+AzUnMxcWBgYnJz4CNTUzFQ4Cc0uJN0tmPRoCkQEBbuhlIi4vEIkBJVsKAkX+MgUtSmY9r6iKu1zoWgwtTj1CP0dxUAABABH/7wJGAjsAFgAAVyc+AjURITIWFhURIxE0JiMjERQGBh4NJyYNAS8yTS2RIyB2L2IRYgUVKiEBhSZSRP6BAYYnIf77TVos//8AKP/yAoECswYmAOwAAAAHAbkB9gBk//8AKP/yAoECswYmAOwAAAAGAbogZP//ACj/8gKBArMGJgDsAAAAJwG3ATn/2gAHAbkB9gBk//8AKP/yAoECswYmAOwAAAAnAbcBOf/aAAYBuiBk//8AFf+iAk0COwYmANMAAAAHAbIAzAAO//8AFf8+Ak0COwYmANMAAAAHAbMAzAAO//8AFQAAAk0COwYmANMAAAAHAbcA2v86//8AJQAAAgECOwYmANQAAAAHAbcAZgAH//8AEf/tAX8CRwYmANUAAAAGAbcjFv//ACMAAAH4AjsGJgDWAAAABwG3AE8AB///ADAAAAIPAjsGJgDXAAAABwG3ANwAB/////sAAADyAjsGJgDYJQAABgG33Qf//wADAAABVwI7BiYA2QcAAAYBt+UH//8AKP/2AjgCRgYmANsAAAAHAbcA+AAW//8AAADSAPYCOwYmANwpAAAGAbfiZ///ACf/OAHKAjsGJgDdAAAABwG3AGEAB///AB0AAAG/AjsGJgDeAAAABgG3XAX//wAfAAAB0gLNBiYA3wAAAAYBtzsH//8AI//lAlwCRAYmAOEAAAAHAbcBGQAH//8AJgAAAUkCRwYmAOMAAAAGAbcaB///ACj/9gIwAjsGJgDkAAAABwG3APQAD///ACT/OAH+AjsGJgDmAAAABwG3AN8AB///ACgAAAIKAjsGJgDnAAAABwG3AOf/////AB4AAAILAjsGJgDpAAAABgG3RLX//wAr/zgCKgI7BiYA6gAAAAcBtwDfABb//wAbAAABswI7BiYA6wAAAAYBt1kH//8AKP/yAoECOwYmAOwAAAAHAbcBOf/a//8AEf/vAkYCOwYmAO0AAAAHAbcBFwAH//8AMQAAAM0CxAYmANgAAAAGAbQueQACAC3/OgH7AfsAHwAtAABFIiYnNxYWMzI2NzcGBiMiJiY1NDY2MzIWFzM3MxEUBgMyNjc1JiYjIgYGFRQWAQUpZSouI0gfOTEDAxhBJT1bMj1gNCY+HQMKb4BgGSkVFSwWGy0bNcYcG1sVEjInQhgcPm5ITHA/Gx8u/hFfZwFAFxu8Ew8gPStASAACACb/9AHlAocACwAbAABFIiY1NDYzMhYVFAYnMjY2NTQmJiMiBgYVFBYWAQZmenpmZXp6ZRorGBgrGhsrGBgrDKqio6SloqKqaihjV1hgJSVgWFdjKAAAAQAoAAABtgJ7AAwAAHM1MxEjNTY2NzMRMxUojHcySCFleW8Bf1UKGxP99G8AAAEAHwAAAd8ChwAcAABzNT4CNTQmIyIGByc2NjMyFhYVFAYGBzY2MzMVJVR+RjItIjoYSy5hQz5dNDxhOBk7F4lPT4FqLzA0KBtKMjIxWj02cHM6AwRzAAABABb/9AHaAocALQAAVyImJic3FhYzMjY1NCYmIzUyNjY1NCYjIgYHJzY2MzIWFhUUBgcVHgIVFAYG8jNSQBdAHUcrMDweTEY7Qx0sJyM6HUYsYDpAYDY4MyU6IT9qDBcpGlccJisnHSsYYhcoGyQnHhtTJisoTDgyRxYECio+KTtTKwABABMAAAHzAnsAEAAAYRE0NjcjBgYHByEVITUTMxEBJwUBBAwaDl4BXP4g7qYBeR1RHRo0G5dpXwGB/YUAAAEAF//0AdsCewAiAABXIiYmJzcWFjMyNjY1NCYjIgYHJxMhFSMHNjYzMhYWFRQGBvU0Uj8ZPh1FKyEzHDovHCgdPhIBYuwLEyIWNlw3QGkMGCgZVxsmGS8jMjYPEigBPnOCCQgrV0RGYzQAAAEAKv/0AecChwAvAABFIi4CNTQ+AjMyFhcHJiYjIgYGFRQWFjMyNjY1NCYmIyIGByc2NjMyFhYVFAYGARcuVUMnKkdcMj1aHUgRNxwmPyUeMh4XJhcWKBoaOBcGGk4hNlUxOV4MJEx3U1qCVCksH1IUGy1mWE9cKBgwJSMrFSEnWyUpKldDQl8zAAEALAAAAeECewANAABzPgI3ITUhFQ4DB6IGIkc9/t4BtThDJREEbKydU3NUQ3l8kl0AAwAq//QB4wKHAB8ALgA8AABFIiYmNTQ2Njc1JiY1NDY2MzIWFRQGBgcVHgIVFAYGJzI2NjU0JiYnBgYVFBYWEzY2NTQmJiMiBhUUFhYBBT5kOR4yHiQyM1s6V2gZJRYeMh44Y0AaKRgkPykXIBwvQxUWEyUaICwdNAwsTzMnOy0QBBtIMjVOKl9OHzUqDwQQLT8qMk4vYBMlHB4nHhETOB8dKxYBGhgwGxonFigmHCYdAAEAI//0AeAChwAvAABXIiYnNxYWMzI2NjU0JiYjIgYGFRQWFjMyNjcXBgYjIiYmNTQ2NjMyHgIVFA4C4T1aHkkRNxwmPiUeMR4XJxcXKBoaOBcGGU8hNlYwOV45LlVCKCpIWwwtHlITGyxnWE9cJxcwJSMrFSAoXCQqK1dDQV8zJEx3UlqDVCkAAAH/Vv/0AQgCmAADAABHATMBqgFhUf6eDAKk/VwAAAMASf/0Ax0CqwADAAwAJQAAVwEzAQMRIzU2NjczERM1PgI1NCYjIgYHJzY2MzIWFRQGBgczFcIBYlD+nnFYKC0ZUPgzTiwgHBQkETkdSSxATh8yHn4MAqT9XAExARw/BhQR/nr+2zcrSDsZHyIbFjQnKUQ/ID09IFUAAwBJ//QDNgKrAAMADAAZAABXATMBAxEjNTY2NzMRATU3IwcHMxUhNTczEcgBYlD+nndYKC0ZUAGcBQQpLej+upB8DAKk/VwBMQEcPwYUEf56/tvKc05TQzP6/noAAAMAHP/0AzsCtwADACwAOQAAVwEzAQMiJic3FhYzMjY1NCYjNTI2NTQmIyIGByc2NjMyFhYVFAYHFhYVFAYGATU3IwcHMxUhNTczEdQBYlD+n2wyURo+EioZGSMxMCYsHBgTIQ46IEEtIz4lHxwfKilEAccFBCkt6P66kHwMAqT9XAElKSUwGRgaGBwaOxsZFRcXETMiIRswISAsDwwwIyQ2Hv7nynNOU0Mz+v56AAEAOgGSAPcDGAAIAABTESM1NjY3MxGSWCcuGFABkgEdPwYUEP56AAABACsBkgFaAyQAGAAAUzU+AjU0JiMiBgcnNjYzMhYVFAYGBzMVPDROLCAcFSMROh1KK0FNHjIefQGSNytIOxkfIhoXNScoRD8gPTwhVQABACUBhgFWAyQAKAAAUyImJzcWFjMyNjU0JiM1MjY1NCYjIgYHJzY2MzIWFhUUBgcWFhUUBgbBMlEZPRIqGRkjMTAmLR0XFCEOOR9BLSQ9JR8cHyopRAGGKiUwGRgaGBsbOxoZFhcXETMhIRowIh8sEAswJCQ2HgABACkBaAGaAsgADgAAUyc3JzcXNzMXNxcHFwcnkzs7ahZyDEkMcRdrOzpOAWgqZjBEGXV1GUQwZipZAAABABr/YAFIAsYAAwAAVwMzE+7UWtSgA2b8mgD//wA+AOkA5gGZBgcBJwAAAPUAAQAoAH4BKgGPAA8AAHciJiY1NDY2MzIWFhUUBgapJDojIzokJDojIzp+JD0nKD0kJD0oJz0kAP//AD7/9ADmAe4GJwEnAAABSgAGAScAAAABAC7/QQD3AKQAFAAAVyc2NicnFwYGIyImNTQ2MzIWFRQGSx02OAEDLwsaDyEzNCMvMlm/ShRCJl9PCQkpJiQsRj9PdAD//wBS//QDlgCkBCYBJxQAACcBJwFiAAAABwEnArAAAAACAFL/9AD6Ap4ABQARAAB3AyczBwMHIiY1NDYzMhYVFAZ5EwWKBRMtIzExIyUvL+IBPX9//sPuMyUmMjImJTMAAgBS/1EA+gH7AAUAEQAAVzcTMxMXAyImNTQ2MzIWFRQGYQUTWhMFRSMxMSMlLy+vfgE9/sN+AfozJSUzMyUlMwAAAgAiAAAB7QKKABsAHwAAczcjNTM3IzUzNzMHMzczBzMVIwczFSMHIzcjBxMzNyNWF0tVD1BbFVAUbBVPFE9aDlReF1EXbBchbA5rvVl0WKioqKhYdFm9vb0BFnQAAAEAPv/0AOYApAALAABXIiY1NDYzMhYVFAaSIzExIyUvLwwzJSYyMiYlMwAAAgAp//QBngKqABsAJwAAdyY+AzU0JiYjIgYHJzY2MzIWFhUUDgMXByImNTQ2MzIWFRQGmwYWKCoeEiAWHC0WSyNeOjVVMB4tKhoEPCMxMSMlLy/iKkI2LywYFR8QGhZFKDIkTDolOjExOCXuMyUmMjImJTMAAAIAK/9FAaEB+wAbACcAAFciJiY1ND4DJzMWDgMVFBYWMzI2NxcGBgMiJjU0NjMyFhUUBuU1VDEeLSoaBHgGFigqHhIgFh0uFEwjXy0jMTEjJS8vuyVLOSU6MjE4JCpCNi4sGBYfEBsVRScyAgYzJSUzMyUlM///AEwBbgG6Aq4EJgErAAAABwErAOMAAAABAEwBbgDXAq4ABQAAUycnMwcHbBsFiwQbAW7Cfn7C//8ALv9BAPcB7gYnAScAAAFKAAYBIgAAAAEADf9gAToCxgADAABXEzMDDdNa06ADZvyaAAABAAz/dgHo/8UAAwAAVzUhFQwB3IpPTwABAB//aAEmAsQALgAAVyImNTQ2NjU0JiM1MjY2NTQmJjU0NjMzFSMiBhUUFhUUBgcVFhYVFAYVFBYzMxXqQT0FBCQyISYPBAU9QTwUIRcFIyUlIwUXIRSYPVAkNjQgGy9SFyESIDQ2JFE8SR8rKE4vODMJBAkzOC5OKSsfSQABACz/aAEyAsQALgAAVzUzMjY1NCY1NDY3NSYmNTQ2NTQmIyM1MzIWFRQGBhUUFhYzFSIGFRQWFhUUBiMsFCAXBCMlJSMEFyAUPEE9BQUQJSExJQUFPUGYSR8rKU4uODMJBAkzOC9OKCsfSTxRJDY0IBIhF1IvGyA0NiRQPQABAFj/aAEmAsQABwAAVxEzFSMRMxVYzmhomANcSf02SQAAAQAs/2gA+gLEAAcAAFc1MxEjNTMRLGhozphJAspJ/KQAAAEASf9NASMC3wANAABXJiY1NDY3FwYGFRQWF80+RkY+Vjc0NDezZ96EhN9mJWDYbGvYYQABAC//TQEIAt8ADQAAVyc2NjU0Jic3FhYVFAaEVTc0NDdVP0VFsyVh2Gts2GAlZt+EhN4AAQArANEC9QEpAAMAAHc1IRUrAsrRWFgAAQArANEBtQEpAAMAAHc1IRUrAYrRWFgAAQArAMwBHgEuAAMAAHc1MxUr88xiYgD//wArAMwBHgEuBgYBNwAA//8AKwDMAR4BLgYGATcAAP//ADAAOQGiAb8EJgE8AAAABwE8ALgAAP//ADYAOQGoAb8EJgE9AAAABwE9ALgAAAABADAAOQDrAb8ABgAAdyc1NxcHF7eHhzRwcDmSYpIrmJkAAQA2ADkA8QG/AAYAAHcnNyc3FxVqNHBwNIc5KpmYK5Ji//8ARv9bAdAApwQnAUIAAP3uAAcBQgDj/e7//wA3AWEBwgKtBCYBQQAAAAcBQQDjAAD//wBGAW0B0AK5BCYBQgAAAAcBQgDjAAAAAQA3AWEA3wKtABQAAFMiJjU0NjcXBgYVFyc2NjMyFhUUBpArLkRFHywsBS8LGg4eKykBYUE7RWkiPBc8LFNACQwlISMqAAEARgFtAO0CuQAUAABTJzY2NScXBgYjIiY1NDYzMhYVFAZlHywsBjALGg8eKyofLC1DAW08Fj0sU0AJDCYfJCpBO0VoAP//AEb/WwDtAKcGBwFCAAD97gABADj/nAB+AoUAAwAAVxEzEThGZALp/RcAAAIAIQARALkB7gADAAcAAHcnNxcnJzcXbUxMTExMTEwRTUxM905LSwABADIB6gDmAr8AAwAAUyc3F3tJWFwB6iG0KgAAAgAyAeoBlAK/AAMABwAAQSc3FwUnNxcBKUhXXP7nSVhcAeohtCqrIbQqAAABAC0BzgEcAjsAAwAAUzUzFS3vAc5tbQAB/44C/wCQA9gACAAAUyc3IzUzJzcXJxk/v78/GWkC/xlCJD8bbQAAAf9wAwAAdAPYAAgAAEMnNxcHMxUjFydpaRk/wcA+AwBrbRpAJEIAAAL/ZAL/AKsD2AAIAA4AAEMnNyM1Myc3FwcnNyc3Fx8aP6KgPRpoBxlSUhlpAv8ZQiQ/G21sGVNSG20AAAL/VQMlAJ0D/QAIAA4AAFMnNxcHMxUjFwcnNxcHFx9mZhw/oaE/fWlpGVBQAyVtaxpCIkAabWsaUVMAAAIAPP/YAeICjwAcACAAAGUiJiY1NDY2MzIWFwcmJiMiBgYVFBYzMjY3FwYGBxEzEQE+TXNCSXpLLkoZPxIkFDBAIUpCHC8TNyNYVkw2PHFQUXI7IBlVEQ4jQCxBTRcPVx8fXgK3/UkAAgAVAFYB9gI8ACAAMAAAdyc3JiY1NDY3JzcXNjMyFzcXBxYWFRQGBxcHJwYGIyInNzI2NjU0JiYjIgYGFRQWFlpFPRASEg88RUUwNzYxRUQ9EBITED5ERhc1GjkuZxkqGBgqGRopGRkpVkY+FzghITcWP0VGGxtGRT8WNyEhOBc+RkcODRtFGS8gHy8ZGS8fIC8ZAAMAKf+SAc8C6QAqAC4AMgAAVyImJic3FhYzMjY1NC4ENTQ2NjMyFhcHJiYjIgYVFB4EFRQGBgc1MxUDNTMV9iFKRxs8JkYlLComPUQ9JzJcPUBYI0UbMyElKSY9RD0mMmFkXFxcDBIjGV0dHyYkHCggIi0/LjlULS8kTxoaIiQZJB4hLUIxOVgyYpmZAsqNjQAAAwAV//QCAwKHAB0AIgAnAABFIiYmNTQ2NjMyFhcHJiYjIgYGFRQWFjMyNjcXBgYlNTchFSU1NyEVAU5KdURGeVAtVB9MEysbKTkeHzkpHy4TTSRa/pBJATT+g0oBWwxLkmlplU8pJUoVGTVkRUdkNh4bRyww5kEGR3tBBkcAAgAc/6AB6QKYAB8AJAAAVyImJzcWFhc+AjcTPgIzMhYXByYmIyIGBgcDDgIDNTczFXAcLAwTCxcLGR8TBSIJLFI/EzMPGgkXEBgfEgMqByRMQUr8YAkGZQQEAQEaPTgBL0hbKwoIZgMIFiYa/qA8YTgBmV8FZAAAAgA8//wDGgI7AA4AHQAAcxEhMhYWFRUjNTQmIyMRMxEzFTI+AjUnMxcWBgY8AUozTClrHSK3RGtZbDYSApEBAWjlAjsoVUSRmCcm/jIBa/QoS2Y9rq6TskwAAgAxAAAB6gKHACAAJQAAczU2NjU0JiY1NDY2MzIWFwcmJiMiBhUUFhYVFAYHFSEVATU3IRUxLjwWFzdePTdSIUsRKBkqMRARFxgBBv5KRAEdVBZTNSJFRR8/WjEqJkoVFzEyH0BCJCc3HARzARFRBVYAAQAOAAAB/QJ7AB0AAHM1IzUzNSM1MwMzFxYWFzM2Njc3MwMzFSMVMxUjFcGbm5t9lY03DBoNBA0aDTeJlX2bm5uURDhDASiKIUIhIUIhiv7YQzhElP//AB4AgAHtAhQGJgFYAHMABgFYAI0AAQAeAPMB7QGhABcAAGUiLgIjIgYHJzY2MzIeAjMyNjcXBgYBWx4vJyQVFCUPSCRKJB8vJiUUFSQQRyNK8xceGB4cNjcuFx4YHhw3Ni7//wCxAPABWQGgBAcBJwBzAPwAAwAiAEwB6QJHAAMADwAbAABTNSEVByImNTQ2MzIWFRQGAyImNTQ2MzIWFRQGIgHH4yEtLSEgLS0gIS0tISAtLQEZYmLNKiAgKSkgICoBaCogICkpICAq////Vv/0AQgCmAYGARYAAP//ACIApgHpAe4GJgFkAHMABgFkAI0AAQAiAGwB6QIsAAkAAHc1Nzc1Jyc1BRUitYeHtQHHbHI9LwQvPXKwYAAAAgAiAAAB6QIsAAkADQAAdzU3NzUnJzUFFQE1IRUisoqKsgHH/jkBx5pxMiQEIzJykHP+12FhAAADACUAdgMDAhcAIQAtADkAAGUiJiYnIw4CIyImJjU0NjYzMhYWFzM+AjMyFhYVFAYGJTI2NyYmIyIGFRQWJTI2NTQmIyIGBxYWAkIqRT0gBBIwPScuTC0wUzcnPS8SBBo6RCg1VTE0WP5iIDYVFzkgJCYqAY4rMTUuI0MfIEF2GjUoFyscMVAuP1owGysZITIcM1g4RmM1fScfIi0nIB4wAjckLTUqKy07AAEAK/9iAWIDFwAlAABXIiYnNxYWMzI2NTQuAjU0NjYzMhYXByYmIyIGFRQeAhUUBgZjER4JDgcSCigYCw8MG05LEh4IDgcRCycZDA8LG02eBQNjAgJBSDpxc3Y9Rm1BBQJkAgJCSDhzcnY9RW9AAAABACIAbAHpAiwACQAAZSU1JRUHBxUXFwHp/jkBx7WHh7VssGCwcj0vBC89AAIAIgAAAekCLAAJAA0AAGUlNSUVBwcVFxcBNSEVAen+OQHHsoqKsv45Aceaj3OQcjIjBCQy/vVhYQABACIAXwHpAXsABQAAZTUhNSERAYT+ngHHX7pi/uQAAAEAIgEZAekBewADAABTNSEVIgHHARliYgAAAQAwAHIB2wIhAAsAAHcnNyc3FzcXBxcHJ3VFkZFFkZBFkZFFkHJFkpJGk5NGkpJFkgABACIALAHpAmgAEwAAdzcjNTM3IzUhNzMHMxUjBzMVIQc1SFuSS90BFEhYSFuRTN3+7UksemKEYnp6YoRiegAAAQAv//QCCwKYAC4AAFciJiY1NDY2MzIWFwcmJiMiBgYVFBYWMzI+AjU0JiYjIgYHJzY2MzIWFhUUBgbxNFk1NmFAKEoaEBc4HSAvGhcmFhwwJxYYMigeMxg7KFczTGY0SH8MMFg8RWY6JyRiJh4aMigeKhUdQGlLPVApGBdVIiZEgVt1r2AAAAUAG//0AzICqAADABEAHQArADcAAFcBMwEDIiYmNTQ2MzIWFRQGBicyNjU0JiMiBhUUFgEiJiY1NDYzMhYVFAYGJzI2NTQmIyIGFRQWzQFhUf6eYS9JKVtGRlopSS4bJSUbGyYmAfAvSClaRkZbKkgvHCQkHBomJgwCpP1cARYxXUJibGxiQl0xTTxHRjo6Rkc8/p0yXUFibGxiQV0yTTxHRzo6R0c8AAcAKv/0BKcCowADABEAHQArADcARQBRAABXATMBAyImJjU0NjMyFhUUBgYnMjY1NCYjIgYVFBYBIiYmNTQ2MzIWFRQGBicyNjU0JiMiBhUUFgUiJiY1NDYzMhYVFAYGJzI2NTQmIyIGFRQWzgFiUP6eUy9JKVtGRlopSS4bJSUbGyYmAeAvSClaRkZbKkgvHCQkHBomJgGQL0gpWkZGWypILxwlJRwaJiYMAqT9XAERMl1BYmxsYkFdMk08R0c6OkdHPP6iMl1BYmxsYkFdMk08R0c6OkdHPE0yXUFibGxiQV0yTTxHRzo6R0c8AAABACIAXwHpAjUACwAAdzUjNTM1MxUzFSMV07GxZbGxX7piurpiugAAAgAiAAAB6QI1AAsADwAAdzUjNTM1MxUzFSMVBTUhFdOxsWWxsf7qAceZjmKsrGKOmWFhAAEAUf+IAm8CewAHAABXESERIxEhEVECHor+9XgC8/0NAnz9hAAAAQAd/64CTgM0AA8AAEUDByc3ExYWFzM2NjcTMwMBFpZKGahmBQsEBAMHBKFc2VIBnR9CRf7REygUFCgTArD8egAAAQAa/4gCCQJ7AA0AAFc1EwM1IRUhFRMDFSEVGtPJAc3+2q62AUZ4UgEnASlRcwT+/f7+BHMADAAl//MCHgH7AAsAFwAjAC8AOwBHAFMAXwBrAHcAgwCPAABBIiY1NDYzMhYVFAYDIiY1NDYzMhYVFAYnIiY1NDYzMhYVFAYXIiY1NDYzMhYVFAYnIiY1NDYzMhYVFAYFIiY1NDYzMhYVFAYBIiY1NDYzMhYVFAYFIiY1NDYzMhYVFAYBIiY1NDYzMhYVFAYFIiY1NDYzMhYVFAYnIiY1NDYzMhYVFAYnIiY1NDYzMhYVFAYBIRAYGBASGBh7ERgYERAZF2EPGBgPExcXpRAYGBASGBjmDxkZDxMYFwEpDxkZDxIYF/7MDxgYDxMXFwFeERkZEREYF/7MERgYERAZFwEqERgYEREZFy0RGRkRERgXYg8ZGQ8SGBcBphcVExYWExUX/mgYFBMVFRMUGFIWFBUWFhUUFm0XFRMVFRMVF9oXFBQVFRQUF78YFBMVFRMUGAEsFxUVFBQVFRfaFhQVFhYVFBYBLBcTFRUVFRMXvxcUFBUVFBQXbRYVFBUVFBUWURcUFBYWFBQXAAIANP/2AesCngAFAA8AAFcDEzMTAyczNzcnJyMHBxfXo6Nxo6M6BDcwMDcENzExCgFUAVT+rP6sc3pnZnt7ZmcAAAEAV/8GALEC7gADAABXETMRV1r6A+j8GAAAAgBX/wYAsQLuAAMABwAAUxEzEQMRMxFXWlpaATUBuf5H/dEBx/45AAIAMf9XA00CmgBEAFIAAEUiLgI1ND4CMzIWFhUUDgIjIiYnIwYGIyImNTQ+AjMyFhczNzMHBjMyNjY1NC4CIyIOAhUUHgIzMjY3FwYGAzI2NzcmJiMiBgYVFBYBqEuHaTxHe6Fba51WKUFPJis/CAIVRB85SR42SSsZJw0CDlQsF0YeOCQgQmdJQXphOi9RajsoUiAeLWE+ESEUGQkYER8uGB+pLl2MX2mpeUJan2hEZkUiJyUeJVBFLVdFKhcaKdlbLVM4N2NLLDViilRKbkokFhFLGRcBMRYZixAPL0UfJCIAAAEAGv/0AoACmABAAABXIiYmNTQ+BDU0JiMiBhUUHgIXFhYXByYmJy4DNTQ2NjMyFhUUDgQVFBYWMzI2NzY2NzMGBgcGBvFFYTEsRU1GKxYZGiUvT2ExKE0gIS9lMjxtVTErTjVHVCk/SD8oGS8eI0cgJzsRfRZHNS57DDNUMzRLNispMCAYHigkKFpbUR8ZIgZvCi0iKGhycDEuTC5OQitDNy8tMh8bKBYlHydnP0mGPDE+AAIAJ/+wAhACjAAKAA4AAGUiJiY1NDY2MzMRExEzEQEoR3RGRXJGLDeJyjJnTFNhKf4+/uYC3P0kAAADAC7/9wK/Ao8AEwAvAEMAAEUiLgI1ND4CMzIeAhUUDgInIiYmNTQ2NjMyFhcHJiYjIgYVFBYzMjY3FwYGBzI+AjU0LgIjIg4CFRQeAgF3Q3dbNDRbd0NCd1s0NFt3NzdWMzdXMi4+GDQRIRUxNDQsGiYTLRxAMzdgSCgoSGA3OGBIKChIYAkuV3xNTXpWLS1Wek1NfFcuiDBYPTpWMCMYOhESQC42PhQQQRYeTidJZj4+ZUcmJkdlPj5mSScABAAfATgBqALLAA8AHwAtADYAAFMiJiY1NDY2MzIWFhUUBgYnMjY2NTQmJiMiBgYVFBYWJzUzMhYVFAYHFyMnIxU1MzI2NTQmIyPkN1k1NVk3Nlk1NVk2KkElJUEqKkIlJUImVyIvEhIrOh8fFREQEBAWATg0Wzo7WzQ0Wzs6WzQwJkUuL0UnJ0UvLkUmOMYfIxAeCE4+PmUQDAwPAAACACb/rwHlArEAIwBGAABlJzY2NTQuBDU0NjYzMhYXByYmIyIGFRQeBBUUBgYHIiYnNxYWMzI2NTQuBDU0NjcXBgYVFB4EFRQGBgF5TSMiKEBIPygpTjc4Wh4/GDcbHhwoPUU+KBowqzZoIU8ZOB8gHyY8RD0mQDNEISIoPkU+KCxTijoNIx0dJh0eJzorLEQmKBhVFBsWFRMdGiAtQC0iNSvrKihHGRoaFBUdGh8rQS8uTxM7DCUbGyUdHig6Ky1FKQAAAgAEAWoCiwKkABMAGwAAQREzFxczNzczESM1NyMHIycjFxUhNSM1IRUjFQE7ZygXBBcoZ1MKBDtAOwQK/s5YAQxZAWoBOmVFRWX+xmdyqqpyZ+hSUugAAAIAJwGTAUICrgAPABsAAFMiJiY1NDY2MzIWFhUUBgYnMjY1NCYjIgYVFBa1KEAmJkAoJ0AmJkAnHiYmHh4nJwGTJEApKUAlJUApKUAkQiohIikpIiEqAAACAC7/9QLzApUAIgA1AABFIi4CNTQ+AjMyHgIVFBQVISIVFRQWFxYWMzI2NzMGBgEhMjU1NCYnJiYjIgYHBgYVFRQBkUmBYjc3YYJJSoBhN/3BBAUDKXFARHcpNDGT/s4BuQUFBCpvPkBwKQQFCzRcekZGelw0NFx6RgIFAgS3BgoFLjU8MztIAVoFuAcLBCwzNS0EDAe0BQAAAQAzARMB2AKeAAkAAFMTMxMjJycjBwczm2+bcjAuBC4xARMBi/51iIeHiAABAC3/sAHIAsgACwAAVxMHNRcnMwc3FScTxAifnwhuCJ6eCFACDwhuCKurCG4I/fEAAAEALf+wAcgCyAAVAABXNwc1Fyc3BzUXJzMHNxUnFwc3FScXxAifnwgIn58IbgienggInp4IUKsIbguGhgtuCKurCG4LhoYLbgirAAAC/1ECPACvAsQACwAXAABTIiY1NDYzMhYVFAYjIiY1NDYzMhYVFAZrHScnHR4mJvQeJiYeHiYmAjwnHR0nJx0dJycdHScnHR0nAAH/swI7AE0CzgALAABRIiY1NDYzMhYVFAYhLCwhIisrAjsqICApKSAgKgAAAf9IAjwAPQMzAAMAAEMnNxcHsV2YAjydWrMAAAH/wwI8ALgDMwADAABTJzcXB0SYXQI8RLNaAAAC/4QCNQDmAwoAAwAHAABTJzcXBSc3F3tJWFz+5khXXQI1IbQqqyG0KgAB/00CMgCzAugABwAAQyc3MxcHJyN+NW2MbTV8BAIyMYWFMV8AAAH/TQJBALMC9gAHAABDJzcXMzcXB0ZtNXwEfDVtAkGEMV9fMYQAAf9ZAjwApwLlABEAAFEiJiYnNx4CMzI2NjcXDgI4SSQCTwMVJRsbJhQDTwIkSAI8KkcrDRYmFxcmFg0rRyoAAAL/gAIzAIADAQALABcAAFEiJjU0NjMyFhUUBicyNjU0JiMiBhUUFj5CQj4/QUE/ExoaExMaGgIzPCsrPDwrKzw0HBcXHBwXFxwAAf9FAj4AuwLgABkAAFMiLgIjIgYHJz4CMzIeAjMyNjcXDgJDGCYfGQ0QEgNWAR00JhklHxoNEBEDVgEcNQI+FBsUHR4FMkIhFBsUHR4FMUMhAAH/bgJRAJICqQADAABDNSEVkgEkAlFYWAAAAf+W/wAAav+sAAcAAEM1IzUzFSMVJUXURf8AaUNDaf///7P/IQBN/7QGBwGAAAD85QAB/5L/EwBdAAQADwAARyc2NjU0Jic3MwcWFhUUBmQKOywfLS9RHCUnZe04BBQVEBUGYUEJIiAxMQD///9Z/xcAp//BBgcBhgAA/Nv///9u/0YAkv+eBgcBiQAA/PUAAf43AhoByQLWAA8AAEEnNjYzMhYXBy4CIyIGBv5cJWfpeXnqZiVAkpJAQJKSAhpAPj4+PkAlKxMTKwAAAv9QAr4AsANEAAsAFwAAUyImNTQ2MzIWFRQGIyImNTQ2MzIWFRQGbh0mJh0dJSX5HCYmHB4lJQK+Jh0dJiYdHSYmHR0mJh0dJgAB/68CvwBRA1IACwAAUSImNTQ2MzIWFRQGIy4uIyMuLgK/KiAgKSkgICoAAAH/WQKrAEgDegADAABTJzcXC7JJpgKrdlmKAAAB/7gCqwCnA3oAAwAAQyc3Fws9pkkCq0WKWQAAAf9aAq8ApgNDAAcAAEMnNzMXBycjaztclFw7aQQCryVvbyVVAAAB/1oCvgCmA1MABwAAQyc3FzM3FwdKXDtpBGk7XAK+byZVVSZvAAH/XwK6AKEDTwAPAABRIiYmJzcWFjMyNjcXDgIxRCcFTAcrIyMrB0wFJ0QCuiA9Kw0fJSUfDSs9IAAC/5ECuQBvA3wACwAXAABRIiY1NDYzMhYVFAYnMjY1NCYjIgYVFBYxPj4xMT4+MRIZGRISGRkCuTYsLDU1LCw2NBgWFBkZFBYYAAH/PQK3AMMDUgAXAABTIi4CIyIGByc2NjMyHgIzMjY3FwYGSBspIBoNDxUDWQVDMxspIBoNDxUDWQREArcSFxIXHAZKQxIXEhccBklEAAH/awLTAJUDLAADAABDNSEVlQEqAtNZWQAAAgAsAAAA+AHmAAMABwAAczczFwMnMwcsXw5fbV/MX7a2ATC2tgABABACGwB+AuYAAwAAUyczBxYGbgYCG8vL//8A2AI8AcwDMwQHAYIBFQAA//8AbQI8AbwC5QQHAYYBFQAA//8AYgJBAccC9gQHAYUBFQAA//8Apv8TAXEABAQHAYwBFQAA//8AYgIyAccC6AQHAYQBFQAA//8AZQI8AcQCxAQHAX8BFQAA//8AxwI7AWICzgQHAYABFQAA//8AXQI8AVIDMwQHAYEBFQAA//8AmAI1AfsDCgQHAYMBFQAA//8AgwJRAaYCqQQHAYkBFQAA//8AlAIzAZUDAQQHAYcBFQAA//8AWQI+AdAC4AQHAYgBFQAAAAIAHv8MAGH/uQALABcAAFcyFhUUBiMiJjU0NhcyFhUUBiMiJjU0NkAQEREQDxMTDxARERAPExNHFQ4OFRUODhVmFw0OFRUODRcABQAe/wwBMf+5AAsAFwAjAC8AOwAARTIWFRQGIyImNTQ2BzIWFRQGIyImNTQ2JzIWFRQGIyImNTQ2FzIWFRQGIyImNTQ2JzIWFRQGIyImNTQ2ARAQEREQDxMTjhARERAPExMkEBEREA8TE98QEREQDxMTWRARERAPExNHFQ4OFRUODhVmFw0OFRUODRdmFQ4OFRUODhVmFw0OFRUODRdmFQ4OFRUODhUAAwAe/wwBJv+5AAMADwAbAABXFSM1FzIWFRQGIyImNTQ2NzIWFRQGIyImNTQ2xKbnDxISDw8TEw8PEhIPDxMTVScnWBcNDhUVDg0XZhUODhUVDg4VAAADAB7/DAEm/7kABwATAB8AAFcVIxcjNyM1FzIWFRQGIyImNTQ2NzIWFRQGIyImNTQ2xEMGLQZC5w8SEg8PExMPDxISDw8TE1UnZGQnWBcNDhUVDg0XZhUODhUVDg4VAAABAB7/cwBh/7kACwAAVzIWFRQGIyImNTQ2QBARERAPExNHFQ4OFRUODhUAAAIAHv9zAMz/uQALABcAAFcyFhUUBiMiJjU0NiMyFhUUBiMiJjU0NqsQEREQDxMTXBARERAPExNHFQ4OFRUODhUVDg4VFQ4OFQAAAwAe/xYAzP+5AAsAFwAjAABXMhYVFAYjIiY1NDYHMhYVFAYjIiY1NDYnMhYVFAYjIiY1NDarEBEREA8TEycPEhIPDxMTJhARERAPExNHFQ4OFRUODhVdFQ0OFhYODRVdFQ4OFRUODhUAAAEAHv+UAMT/uwADAABXFSM1xKZFJycAAAEAHv8wAMT/uwAHAABXFSMXIzcjNcRDBi0GQkUnZGQnAAABAB4CBABhAksACwAAUzIWFRQGIyImNTQ2QBARERAPExMCSxYNDhYWDg0WAAEAHgIEAGECSwALAABTIiY1NDYzMhYVFAZADxMTDxAREQIEFg4NFhYNDhYAAwAe/usA7f+5AAsAFwAjAABXMhYVFAYjIiY1NDYnMhYVFAYjIiY1NDYXMhYVFAYjIiY1NDbMEBEREA8TE30QEREQDxMTVRARERAPExPPFQ4OFRUODhWIFQ4OFRUODhVEFQ4OFRUODhUAAAEAHgD9AGEBRQALAABTMhYVFAYjIiY1NDZAEBEREA8TEwFFFg0PFhYPDRYAAQAgAgsA3QJAAAMAAFMVIzXdvQJANTUAAQAeAggAYQJPAAsAAFMyFhUUBiMiJjU0NkAQEREQDxMTAk8WDQ4WFg4NFgABAB4CCABhAk8ACwAAUzIWFRQGIyImNTQ2QBARERAPExMCTxYNDhYWDg0WAAEAHv8wAIT/uwAHAABXFSMXIzcjNYQqDS0NKUUnZGQnAAAB/9P/OQDUAe8AEAAAVyImJzcWFjMyNjUTMwMUBgYoHSkPGQoTCh8XAokCH0rHCAVlAwQpKgH4/gs1WDQAAAEAPwGSAP0DGAAIAABTESM1NjY3MxGXWCgtGFEBkgEdPwYUEP56AAABACsBkgFaAyQAGAAAUzU+AjU0JiMiBgcnNjYzMhYVFAYGBzMVPDROLCAcFSMROh1KK0FNHjIefQGSNytIOxkfIhoXNScoRD8gPTwhVQABABwBhgFOAyQAKAAAUyImJzcWFjMyNjU0JiM1MjY1NCYjIgYHJzY2MzIWFhUUBgcWFhUUBga5MlEaPhIqGRkjMTAmLBwYEyEOOiBBLSM+JR8cHyopRAGGKiUwGRgaGBsbOxoZFhcXETMhIRowIh8sEAswJCQ2HgABACIBkgFpAxgADAAAUzU3IwcHMxUhNTczEdUGBCot6f65kXwBksp0TlNDMvr+egACACf/UQHxAe8ABQAaAABXNxMzExc3IiY1ETMRFBYzMjY3ETMRIycjBgYnBRNaEwQnT0qJISIdKheJcAoDIEqvfgE9/sN+o2pdATT+3TgrGyABS/4RRiYsAAAA';
 export const HEBREW_FONTS = {
   REGULAR: {
     fileName: 'Assistant-Regular.ttf',
@@ -18,6 +18,15 @@ export const HEBREW_FONTS = {
   },
 };
 
+export const SUPPORT_LEVELS: SupportLevel[] = ['מלא', 'חלקי', 'מצומצם', 'מנהלים חדשים'];
+
+/** How a school performs overall, by its report card's performance tier. */
+export const PERFORMANCE_TIER_LABELS: { [tier: number]: string } = {
+  1: 'תפקוד מצוין',
+  2: 'תפקוד בינוני',
+  3: 'תפקוד נמוך',
+};
+
 export const ALL_SCORE_FIELDS: (keyof import('./types').School)[] = [
     'vision_clearAndAgreedScore', 'vision_educationalConceptTranslatedScore', 'vision_resourcesAndEdgesScore', 'vision_strategicPlanningScore', 'vision_measurableGoalsScore', 'vision_communityPartnershipScore',
     'workPlan_needsBasedScore', 'workPlan_clearGoalsAndMetricsScore', 'workPlan_systematicMonitoringScore',
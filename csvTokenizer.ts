@@ -0,0 +1,135 @@
+import type { ParseIssue } from '../types';
+
+export interface CsvRecord {
+    fields: string[];
+    /** 1-based line on which the record starts; records with multi-line cells span several lines. */
+    line: number;
+}
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+const DELIMITER_SAMPLE_SIZE = 20;
+
+/**
+ * Tokenizes CSV text according to RFC 4180: fields may be wrapped in double quotes,
+ * quoted fields may contain delimiters and line breaks, and a doubled quote ("") inside
+ * a quoted field stands for a literal quote. Records are yielded one at a time so callers
+ * can stop early (e.g. when sampling for delimiter detection).
+ *
+ * Malformed input that can still be read unambiguously (text after a closing quote, a quote
+ * in the middle of an unquoted field) is kept as-is and reported through `onWarning`.
+ * An unterminated quoted field cannot be recovered and throws.
+ */
+export function* tokenizeCsv(text: string, delimiter: string, onWarning?: (issue: ParseIssue) => void): Generator<CsvRecord> {
+    let fields: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let afterClosingQuote = false;
+    let line = 1;
+    let column = 0;
+    let recordLine = 1;
+    let quoteStart = { line: 1, column: 1 };
+
+    const endField = () => {
+        fields.push(field);
+        field = '';
+        afterClosingQuote = false;
+    };
+
+    const endRecord = (): CsvRecord | null => {
+        endField();
+        const record = { fields, line: recordLine };
+        fields = [];
+        // Blank lines are not records.
+        return record.fields.length === 1 && record.fields[0] === '' ? null : record;
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        column++;
+
+        if (inQuotes) {
+            if (char === '"') {
+                if (text[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                    column++;
+                } else {
+                    inQuotes = false;
+                    afterClosingQuote = true;
+                }
+            } else {
+                if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) {
+                    line++;
+                    column = 0;
+                }
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === delimiter) {
+            endField();
+        } else if (char === '\r' || char === '\n') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            const record = endRecord();
+            if (record) yield record;
+            line++;
+            column = 0;
+            recordLine = line;
+        } else if (char === '"' && field === '' && !afterClosingQuote) {
+            inQuotes = true;
+            quoteStart = { line, column };
+        } else {
+            if (afterClosingQuote) {
+                onWarning?.({ row: line, column, message: `תו לא צפוי אחרי מרכאות סוגרות בשדה ${fields.length + 1}; התו נשמר כחלק מהערך.` });
+                afterClosingQuote = false;
+            } else if (char === '"') {
+                onWarning?.({ row: line, column, message: `מרכאות בתוך שדה שאינו עטוף במרכאות (שדה ${fields.length + 1}).` });
+            }
+            field += char;
+        }
+    }
+
+    if (inQuotes) {
+        throw new Error(`שדה עם מרכאות פותחות שלא נסגרו (שורה ${quoteStart.line}, עמודה ${quoteStart.column}).`);
+    }
+
+    if (field !== '' || fields.length > 0 || afterClosingQuote) {
+        const record = endRecord();
+        if (record) yield record;
+    }
+}
+
+/**
+ * Picks the delimiter that splits the first records of the file into the most consistent
+ * number of fields. Looking at several records (not just the header) avoids being fooled
+ * by a header that happens to contain commas or semicolons inside quoted titles.
+ */
+export const detectDelimiter = (text: string): string => {
+    let best = { delimiter: ',', consistency: 0, fieldCount: 0 };
+
+    for (const delimiter of CANDIDATE_DELIMITERS) {
+        const counts: number[] = [];
+        try {
+            for (const record of tokenizeCsv(text, delimiter)) {
+                counts.push(record.fields.length);
+                if (counts.length >= DELIMITER_SAMPLE_SIZE) break;
+            }
+        } catch (error) {
+            continue; // A delimiter that makes the sample unparseable is not the right one.
+        }
+        if (counts.length === 0) continue;
+
+        const frequency = new Map<number, number>();
+        counts.forEach(count => frequency.set(count, (frequency.get(count) || 0) + 1));
+        const [fieldCount, occurrences] = [...frequency.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+        if (fieldCount < 2) continue;
+
+        const consistency = occurrences / counts.length;
+        if (consistency > best.consistency || (consistency === best.consistency && fieldCount > best.fieldCount)) {
+            best = { delimiter, consistency, fieldCount };
+        }
+    }
+
+    return best.delimiter;
+};
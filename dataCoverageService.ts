@@ -0,0 +1,117 @@
+import type { School, CoverageRules } from '../types';
+import { HIERARCHICAL_CATEGORIES } from '../constants';
+
+const STORAGE_KEY = 'mtss.coverageRules';
+
+export const DEFAULT_COVERAGE_RULES: CoverageRules = {
+    minSchoolCoverage: 60,
+    minGroupCoverage: 60,
+    imputeMissing: false,
+};
+
+export interface Coverage {
+    filled: number;
+    total: number;
+    /** Share of the scores that were filled in, 0-100. 100 when there is nothing to fill. */
+    percent: number;
+}
+
+// Each metric's sibling metrics in its sub-category, for imputation.
+const SUB_CATEGORY_METRICS = new Map<string, string[]>(
+    HIERARCHICAL_CATEGORIES.flatMap(cat => cat.subCategories.flatMap(subCat => {
+        const keys = subCat.metrics.map(m => m.key);
+        return keys.map(key => [key, keys] as [string, string[]]);
+    }))
+);
+
+const parseScore = (school: School, metric: string): number | null => {
+    const score = parseInt(school[metric] as string, 10);
+    return !isNaN(score) && score > 0 ? score : null;
+};
+
+/**
+ * How many of the schools' scores on the metrics were filled in. Pass a single school for its own coverage.
+ */
+export const scoreCoverage = (schools: School[], metrics: string[]): Coverage => {
+    const total = schools.length * metrics.length;
+    let filled = 0;
+    schools.forEach(school => metrics.forEach(metric => { if (parseScore(school, metric) !== null) filled++; }));
+    return { filled, total, percent: total > 0 ? (filled / total) * 100 : 100 };
+};
+
+export const isSufficient = (coverage: Coverage, minPercent: number): boolean => coverage.percent >= minPercent;
+
+/**
+ * The school's mean on the other metrics of the same sub-category, or null when it scored none of them.
+ */
+export const imputeScore = (school: School, metric: string): number | null => {
+    const siblings = (SUB_CATEGORY_METRICS.get(metric) || []).filter(key => key !== metric);
+    const scores = siblings.map(key => parseScore(school, key)).filter((s): s is number => s !== null);
+    return scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : null;
+};
+
+/**
+ * The score as entered, or the imputed score when imputation is on. Imputed scores are not rounded.
+ */
+export const scoreWithImputation = (school: School, metric: string, imputeMissing: boolean): number | null =>
+    parseScore(school, metric) ?? (imputeMissing ? imputeScore(school, metric) : null);
+
+/**
+ * Number of missing scores that imputation fills in.
+ */
+export const countImputedScores = (schools: School[], metrics: string[]): number =>
+    schools.reduce((count, school) =>
+        count + metrics.filter(metric => parseScore(school, metric) === null && imputeScore(school, metric) !== null).length, 0);
+
+export const averageWithImputation = (school: School, metrics: string[], imputeMissing: boolean): number | null => {
+    const scores = metrics.map(metric => scoreWithImputation(school, metric, imputeMissing)).filter((s): s is number => s !== null);
+    return scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : null;
+};
+
+export const getDomainMetrics = (domain: string): string[] =>
+    HIERARCHICAL_CATEGORIES.find(cat => cat.name === domain)?.subCategories.flatMap(subCat => subCat.metrics.map(m => m.key)) || [];
+
+export interface DomainScore {
+    coverage: Coverage;
+    sufficient: boolean;
+    /** Missing scores filled in; the average is marked as estimated when there are any. */
+    imputed: number;
+    average: number;
+}
+
+/**
+ * The school's average in a domain under the coverage rules: recomputed with imputed scores when those are on,
+ * the reported average otherwise.
+ */
+export const summarizeDomainScore = (school: School, domain: string, reportedAverage: number, rules: CoverageRules): DomainScore => {
+    const metrics = getDomainMetrics(domain);
+    const coverage = scoreCoverage([school], metrics);
+    const imputed = rules.imputeMissing ? countImputedScores([school], metrics) : 0;
+    return {
+        coverage,
+        sufficient: isSufficient(coverage, rules.minSchoolCoverage),
+        imputed,
+        average: imputed > 0 ? averageWithImputation(school, metrics, true) ?? reportedAverage : reportedAverage,
+    };
+};
+
+/**
+ * Diagonal stripes laid over a cell, card or bar whose data is insufficient; visible on light and colored backgrounds.
+ */
+export const INSUFFICIENT_DATA_HATCHING = {
+    backgroundImage: 'repeating-linear-gradient(45deg, rgba(0,0,0,0.18) 0, rgba(0,0,0,0.18) 6px, transparent 6px, transparent 12px)',
+};
+
+export const loadCoverageRules = (): CoverageRules => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return stored ? { ...DEFAULT_COVERAGE_RULES, ...JSON.parse(stored) } : DEFAULT_COVERAGE_RULES;
+    } catch (error) {
+        console.error("Failed to read coverage rules:", error);
+        return DEFAULT_COVERAGE_RULES;
+    }
+};
+
+export const saveCoverageRules = (rules: CoverageRules): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+};
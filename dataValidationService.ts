@@ -0,0 +1,175 @@
+import type { School, DataQualityIssue, DataQualityFix } from '../types';
+import { ALL_SCORE_FIELDS, FIELD_HEBREW_MAP, SUPPORT_LEVELS } from '../constants';
+import { stringSimilarity } from './fileParserService';
+
+// Some districts record scores with Hebrew letter numerals (א=1 ... ד=4).
+const HEBREW_LETTER_SCORES: { [letter: string]: string } = { 'א': '1', 'ב': '2', 'ג': '3', 'ד': '4' };
+
+const SUPPORT_LEVEL_SIMILARITY_THRESHOLD = 0.5;
+
+export const DATA_QUALITY_ISSUE_LABELS: { [K in DataQualityIssue['type']]: string } = {
+    'score-out-of-range': 'ציון מחוץ לטווח 1-4',
+    'score-non-integer': 'ציון לא שלם',
+    'score-non-numeric': 'ציון לא מספרי',
+    'duplicate-name': 'שם בית ספר כפול',
+    'missing-principal': 'חסר שם מנהל/ת',
+    'students-non-numeric': 'מספר תלמידים לא תקין',
+    'unknown-support-level': 'רמת ליווי לא מוכרת',
+};
+
+const clearFix = (field: keyof School): DataQualityFix => ({ label: 'נקה ערך', field, value: '' });
+
+const normalizeName = (name: string): string => name.trim().replace(/\s+/g, ' ');
+
+const checkScore = (school: School, field: keyof School): DataQualityIssue | null => {
+    const value = String(school[field] ?? '').trim();
+    if (value === '' || /^[1-4]$/.test(value)) return null;
+
+    const base = { id: `${school.id}:${field}`, severity: 'error' as const, schoolId: school.id, schoolName: school.name, field, value };
+    const fieldName = FIELD_HEBREW_MAP[field as string] || (field as string);
+
+    if (HEBREW_LETTER_SCORES[value]) {
+        const converted = HEBREW_LETTER_SCORES[value];
+        return { ...base, type: 'score-non-numeric', message: `הציון "${value}" ב"${fieldName}" רשום באות עברית.`, fix: { label: `המר ל-${converted}`, field, value: converted } };
+    }
+
+    const numeric = Number(value.replace(',', '.'));
+    if (Number.isNaN(numeric)) {
+        return { ...base, type: 'score-non-numeric', message: `הערך "${value}" ב"${fieldName}" אינו ציון מספרי ולא ייכלל בניתוח.`, fix: clearFix(field) };
+    }
+    if (numeric < 1 || numeric > 4) {
+        // 0 usually marks a missing score rather than a very low one.
+        const fix = numeric > 4 ? { label: 'קבע ל-4', field, value: '4' } : clearFix(field);
+        return { ...base, type: 'score-out-of-range', message: `הציון ${value} ב"${fieldName}" מחוץ לטווח 1-4.`, fix };
+    }
+    const rounded = String(Math.round(numeric));
+    return { ...base, type: 'score-non-integer', message: `הציון ${value} ב"${fieldName}" אינו מספר שלם.`, fix: { label: `עגל ל-${rounded}`, field, value: rounded } };
+};
+
+const checkStudents = (school: School): DataQualityIssue | null => {
+    const value = String(school.students ?? '').trim();
+    if (value === '' || /^\d+$/.test(value)) return null;
+
+    let fix: DataQualityFix = clearFix('students');
+    if (/^\d{1,3}(,\d{3})+$/.test(value)) {
+        fix = { label: `השתמש ב-${value.replace(/,/g, '')}`, field: 'students', value: value.replace(/,/g, '') };
+    } else {
+        const firstNumber = value.match(/\d+/);
+        if (firstNumber) fix = { label: `השתמש ב-${firstNumber[0]}`, field: 'students', value: firstNumber[0] };
+    }
+    return {
+        id: `${school.id}:students`,
+        type: 'students-non-numeric',
+        severity: 'error',
+        schoolId: school.id,
+        schoolName: school.name,
+        field: 'students',
+        value,
+        message: `מספר התלמידים "${value}" אינו מספר שלם.`,
+        fix,
+    };
+};
+
+const checkSupportLevel = (school: School): DataQualityIssue | null => {
+    const value = String(school.supportLevel ?? '').trim();
+    if (value === '' || (SUPPORT_LEVELS as string[]).includes(value)) return null;
+
+    let bestLevel: string | null = null;
+    let bestScore = SUPPORT_LEVEL_SIMILARITY_THRESHOLD;
+    for (const level of SUPPORT_LEVELS) {
+        const score = value.includes(level) ? 1 : stringSimilarity(value, level);
+        if (score >= bestScore) {
+            bestScore = score;
+            bestLevel = level;
+        }
+    }
+    return {
+        id: `${school.id}:supportLevel`,
+        type: 'unknown-support-level',
+        severity: 'error',
+        schoolId: school.id,
+        schoolName: school.name,
+        field: 'supportLevel',
+        value,
+        message: `רמת הליווי "${value}" אינה אחת מהרמות המוכרות (${SUPPORT_LEVELS.join(', ')}).`,
+        fix: bestLevel ? { label: `שנה ל"${bestLevel}"`, field: 'supportLevel', value: bestLevel } : clearFix('supportLevel'),
+    };
+};
+
+/**
+ * Runs every data-quality check over the imported schools. Errors are values the analysis would
+ * silently drop or miscount; warnings are gaps that do not affect the numbers.
+ */
+export const validateSchools = (schools: School[]): DataQualityIssue[] => {
+    const issues: DataQualityIssue[] = [];
+    const usedNames = new Set(schools.map(s => normalizeName(s.name)));
+    const seenNames = new Map<string, number>();
+
+    schools.forEach(school => {
+        ALL_SCORE_FIELDS.forEach(field => {
+            const issue = checkScore(school, field);
+            if (issue) issues.push(issue);
+        });
+
+        const studentsIssue = checkStudents(school);
+        if (studentsIssue) issues.push(studentsIssue);
+
+        const supportLevelIssue = checkSupportLevel(school);
+        if (supportLevelIssue) issues.push(supportLevelIssue);
+
+        if (!String(school.principal ?? '').trim()) {
+            issues.push({
+                id: `${school.id}:principal`,
+                type: 'missing-principal',
+                severity: 'warning',
+                schoolId: school.id,
+                schoolName: school.name,
+                field: 'principal',
+                value: '',
+                message: 'לא הוזן שם מנהל/ת.',
+            });
+        }
+
+        const name = normalizeName(school.name);
+        if (!name) return;
+        const occurrences = (seenNames.get(name) || 0) + 1;
+        seenNames.set(name, occurrences);
+        if (occurrences > 1) {
+            let suffix = occurrences;
+            while (usedNames.has(`${name} (${suffix})`)) suffix++;
+            const uniqueName = `${name} (${suffix})`;
+            usedNames.add(uniqueName);
+            issues.push({
+                id: `${school.id}:name`,
+                type: 'duplicate-name',
+                severity: 'warning',
+                schoolId: school.id,
+                schoolName: school.name,
+                field: 'name',
+                value: school.name,
+                message: `השם "${name}" מופיע ביותר מבית ספר אחד.`,
+                fix: { label: `שנה ל"${uniqueName}"`, field: 'name', value: uniqueName },
+            });
+        }
+    });
+
+    return issues;
+};
+
+/**
+ * Applies the suggested fix of each given issue. Issues without a fix are ignored.
+ */
+export const applyDataQualityFixes = (schools: School[], issues: DataQualityIssue[]): School[] => {
+    const fixesBySchool = new Map<number, DataQualityFix[]>();
+    issues.forEach(issue => {
+        if (!issue.fix) return;
+        fixesBySchool.set(issue.schoolId, [...(fixesBySchool.get(issue.schoolId) || []), issue.fix]);
+    });
+    if (fixesBySchool.size === 0) return schools;
+
+    return schools.map(school => {
+        const fixes = fixesBySchool.get(school.id);
+        if (!fixes) return school;
+        return fixes.reduce((updated, fix) => ({ ...updated, [fix.field]: fix.value }), school);
+    });
+};
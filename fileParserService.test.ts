@@ -0,0 +1,29 @@
+import { detectHeader } from './fileParserService';
+import { FIELD_HEBREW_MAP } from '../constants';
+
+const metricHeaders = Object.values(FIELD_HEBREW_MAP).slice(0, 6);
+
+describe('detectHeader', () => {
+    it('keeps a single header row when the first data row is sparse', () => {
+        const header = ['שם בית הספר', 'מנהל/ת', ...metricHeaders];
+        const grid = [
+            header,
+            ['אורט', '', '', '3', '', '', '', ''],
+            ['עמל', 'דנה', '4', '3', '2', '4', '3', '2'],
+        ];
+
+        expect(detectHeader(grid, false)).toEqual({ headers: header, dataStart: 1 });
+    });
+
+    it('combines a category row with the metric row below it', () => {
+        const grid = [
+            ['', '', 'חזון ברור', '', 'צוות הנהלה', ''],
+            ['שם בית הספר', 'מנהל/ת', 'החזון ברור ומוסכם', 'תכנון אסטרטגי', 'עבודת צוות מתבססת', 'הגדרות תפקידים ברורות'],
+            ['אורט', 'דנה', '4', '3', '2', '4'],
+        ];
+
+        const { headers, dataStart } = detectHeader(grid, false);
+        expect(dataStart).toBe(2);
+        expect(headers.slice(0, 2)).toEqual(['שם בית הספר', 'מנהל/ת']);
+    });
+});
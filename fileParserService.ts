@@ -1,8 +1,10 @@
 // Fix: Use the global XLSX object provided by the CDN script instead of module import.
 declare const XLSX: any;
 
-import type { ParsedData, School } from '../types';
-import { ALL_SCORE_FIELDS, FIELD_HEBREW_MAP } from '../constants';
+import type { ParsedData, ParseIssue, School, RawDataTable, ColumnMapping, WorkbookSheet } from '../types';
+import { ALL_SCORE_FIELDS, FIELD_HEBREW_MAP, HIERARCHICAL_CATEGORIES } from '../constants';
+import { tokenizeCsv, detectDelimiter } from './csvTokenizer';
+import { TEMPLATE_INSTRUCTIONS_SHEET_NAME } from './templateService';
 
 /**
  * Calculates the similarity between two strings based on Dice's Coefficient.
@@ -11,7 +13,7 @@ import { ALL_SCORE_FIELDS, FIELD_HEBREW_MAP } from '../constants';
  * @param str2 The second string.
  * @returns A number between 0 and 1, where 1 is a perfect match.
  */
-function stringSimilarity(str1: string, str2: string): number {
+export function stringSimilarity(str1: string, str2: string): number {
     const s1 = str1.toLowerCase().trim().replace(/\s+/g, ' ');
     const s2 = str2.toLowerCase().trim().replace(/\s+/g, ' ');
 
@@ -48,7 +50,7 @@ function stringSimilarity(str1: string, str2: string): number {
 
 const createEmptySchool = (id: number): School => {
     const school: any = {
-        id, name: '', principal: '', students: '', supportLevel: '', notes: ''
+        id, name: '', institutionCode: '', principal: '', students: '', supportLevel: '', notes: ''
     };
     ALL_SCORE_FIELDS.forEach(field => {
         school[field] = '';
@@ -56,10 +58,10 @@ const createEmptySchool = (id: number): School => {
     return school as School;
 };
 
-const parseRow = (row: any[], columnIndexMap: (keyof School | string)[]): School => {
+const parseRow = (row: any[], columnIndexMap: (keyof School | null)[]): School => {
     const school = createEmptySchool(0); // ID will be assigned later
     row.forEach((value, i) => {
-        const field = columnIndexMap[i] as keyof School;
+        const field = columnIndexMap[i];
         // Check if the field is a recognized key of the School object
         if (field && typeof field === 'string' && Object.keys(school).includes(field)) {
             (school as any)[field] = String(value || '').trim();
@@ -68,128 +70,292 @@ const parseRow = (row: any[], columnIndexMap: (keyof School | string)[]): School
     return school;
 }
 
-const getColumnIndexMap = (headers: string[]): (keyof School | string)[] => {
-    // 1. Create a definitive map of target fields and their known variations.
-    const targetFields: { field: keyof School; variations: string[] }[] = [];
-    
-    // Add base fields with more variations for better matching
-    targetFields.push(
-        { field: 'name', variations: ['שם בית הספר', 'בית ספר', 'school name', 'school', 'שם ביה"ס', 'שם ביהס'] },
-        { field: 'principal', variations: ['שם המנהל/ת', 'מנהל/ת', 'מנהל', 'principal', 'שם המנהל'] },
-        { field: 'students', variations: ["מספר תלמידים", "מס' תלמידים", 'תלמידים', 'students', 'סהכ תלמידים'] },
-        { field: 'supportLevel', variations: ['רמת ליווי', 'ליווי', 'support level', 'סוג ליווי'] },
-        { field: 'notes', variations: ['הערות', 'notes', 'הערה'] }
+const BASE_FIELD_TARGETS: { field: keyof School; label: string; variations: string[] }[] = [
+    { field: 'name', label: 'שם בית הספר', variations: ['שם בית הספר', 'בית ספר', 'school name', 'school', 'שם ביה"ס', 'שם ביהס'] },
+    { field: 'institutionCode', label: 'סמל מוסד', variations: ['סמל מוסד', 'סמל בית ספר', 'סמל', 'קוד מוסד', 'institution code', 'school id'] },
+    { field: 'principal', label: 'מנהל/ת', variations: ['שם המנהל/ת', 'מנהל/ת', 'מנהל', 'principal', 'שם המנהל'] },
+    { field: 'students', label: 'מספר תלמידים', variations: ["מספר תלמידים", "מס' תלמידים", 'תלמידים', 'students', 'סהכ תלמידים'] },
+    { field: 'supportLevel', label: 'רמת ליווי', variations: ['רמת ליווי', 'ליווי', 'support level', 'סוג ליווי'] },
+    { field: 'notes', label: 'הערות', variations: ['הערות', 'notes', 'הערה'] },
+];
+
+const SIMILARITY_THRESHOLD = 0.7;
+const CATEGORY_SIMILARITY_THRESHOLD = 0.8;
+const GROUPED_HEADER_SEPARATOR = ' - ';
+
+interface TargetField {
+    field: keyof School;
+    label: string;
+    variations: string[];
+    /** Sub-category of a score field (e.g. "חזון ברור"), matched against the category row of grouped headers. */
+    category?: string;
+    /** Metric-only names of a score field, matched against the sub-header of grouped headers. */
+    metricVariations?: string[];
+}
+
+// A definitive list of target fields and their known variations.
+const getTargetFields = (): TargetField[] => {
+    const targetFields: TargetField[] = [...BASE_FIELD_TARGETS];
+    const metricNames = new Map<string, { category: string; name: string }>(
+        HIERARCHICAL_CATEGORIES.flatMap(cat => cat.subCategories.flatMap(subCat =>
+            subCat.metrics.map(metric => [metric.key, { category: subCat.name, name: metric.name }] as [string, { category: string; name: string }])
+        ))
     );
-    
+
     // Add all score fields from the map, creating variations for better matching
     for (const [key, hebrewName] of Object.entries(FIELD_HEBREW_MAP)) {
         const hebrewVariations = [hebrewName];
-        const parts = hebrewName.split(' - ');
+        const metricVariations: string[] = [];
+        const parts = hebrewName.split(GROUPED_HEADER_SEPARATOR);
         if (parts.length > 1) {
             hebrewVariations.push(parts[1]); // e.g., "החזון ברור ומוסכם"
+            metricVariations.push(parts[1]);
+        }
+        // The official assessment sheets use the full metric wording from the hierarchy.
+        const metric = metricNames.get(key);
+        if (metric) {
+            hebrewVariations.push(metric.name, `${metric.category}${GROUPED_HEADER_SEPARATOR}${metric.name}`);
+            metricVariations.push(metric.name);
         }
-        targetFields.push({ field: key as keyof School, variations: [...hebrewVariations, key] });
+        targetFields.push({
+            field: key as keyof School,
+            label: hebrewName,
+            variations: [...hebrewVariations, key],
+            category: metric?.category || (parts.length > 1 ? parts[0] : undefined),
+            metricVariations,
+        });
     }
+    return targetFields;
+};
+
+/**
+ * Scores a header against a target. A grouped header ("category - metric") is also matched part by part:
+ * the metric part counts for a score field only when the category part names that field's sub-category.
+ */
+const scoreHeader = (header: string, target: TargetField): number => {
+    let score = Math.max(...target.variations.map(variation => stringSimilarity(header, variation)));
+    const separatorIndex = header.indexOf(GROUPED_HEADER_SEPARATOR);
+    if (separatorIndex === -1 || score === 1) return score;
+
+    const categoryPart = header.slice(0, separatorIndex);
+    const metricPart = header.slice(separatorIndex + GROUPED_HEADER_SEPARATOR.length);
+    if (!target.category) {
+        // Base columns (name, principal...) that happen to sit under a category cell.
+        return Math.max(score, ...target.variations.map(variation => stringSimilarity(metricPart, variation)));
+    }
+    if (target.metricVariations?.length && stringSimilarity(categoryPart, target.category) >= CATEGORY_SIMILARITY_THRESHOLD) {
+        score = Math.max(score, ...target.metricVariations.map(variation => stringSimilarity(metricPart, variation)));
+    }
+    return score;
+};
+
+/**
+ * The fields a source column can be mapped to, with their display labels.
+ */
+export const getMappingTargets = (): { field: keyof School; label: string }[] =>
+    getTargetFields().map(({ field, label }) => ({ field, label }));
 
-    const SIMILARITY_THRESHOLD = 0.7;
+/**
+ * Scores how well a source header matches a specific target field (best score over the field's variations).
+ */
+export const scoreColumnMatch = (header: string, field: keyof School): number => {
+    const target = getTargetFields().find(t => t.field === field);
+    if (!header || !target) return 0;
+    return scoreHeader(header, target);
+};
+
+/**
+ * Proposes a target field for every source column by Dice similarity.
+ * Each target field is assigned to at most one column; columns without a confident match are left unmapped.
+ */
+export const proposeColumnMappings = (headers: string[]): ColumnMapping[] => {
+    const targetFields = getTargetFields();
     const mappedFields = new Set<keyof School>();
 
     return headers.map(header => {
-        if (!header || typeof header !== 'string') return header; // Handle empty/invalid header cells
-        
+        if (!header || typeof header !== 'string') { // Handle empty/invalid header cells
+            return { sourceHeader: header || '', targetField: null, score: 0, status: 'unmapped' };
+        }
+
         let bestMatch: { field: keyof School | null; score: number } = { field: null, score: 0.0 };
 
         for (const target of targetFields) {
             // Skip if this field has already been confidently mapped to another column
             if (mappedFields.has(target.field)) continue;
 
-            for (const variation of target.variations) {
-                const score = stringSimilarity(header, variation);
-                if (score > bestMatch.score) {
-                    bestMatch = { field: target.field, score: score };
-                }
+            const score = scoreHeader(header, target);
+            if (score > bestMatch.score) {
+                bestMatch = { field: target.field, score: score };
             }
         }
-        
+
         if (bestMatch.field && bestMatch.score >= SIMILARITY_THRESHOLD) {
             // Add to mapped fields to prevent mapping another column to the same target field
             mappedFields.add(bestMatch.field);
-            return bestMatch.field;
-        } else {
-            return header; // Keep original if no confident match
+            return { sourceHeader: header, targetField: bestMatch.field, score: bestMatch.score, status: 'proposed' };
         }
+        return { sourceHeader: header, targetField: null, score: bestMatch.score, status: 'unmapped' };
+    });
+};
+
+/**
+ * Builds the school list from a raw table using the given column mappings. Ignored and unmapped columns are skipped.
+ */
+export const buildSchoolsFromTable = (table: RawDataTable, mappings: ColumnMapping[]): School[] => {
+    const columnIndexMap = mappings.map(mapping => mapping.status === 'ignored' ? null : mapping.targetField);
+    return table.rows.map((row, index) => {
+        const school = parseRow(row, columnIndexMap);
+        school.id = index + 1;
+        if (!school.name) school.name = `בית ספר ${index + 1}`;
+        return school;
     });
 };
 
-const parseSchoolsFromCSV = (csvText: string): School[] => {
+const parseTableFromCSV = (csvText: string, warnings: ParseIssue[]): RawDataTable => {
     let text = csvText;
     if (text.charCodeAt(0) === 0xFEFF) text = text.slice(1); // Remove BOM
 
-    const rows = text.split(/\r?\n/).filter(row => row.trim() !== '');
-    if (rows.length < 2) throw new Error("CSV חייב להכיל שורת כותרת ולפחות שורת נתונים אחת.");
+    const delimiter = detectDelimiter(text);
+    const records = [...tokenizeCsv(text, delimiter, issue => warnings.push(issue))];
+    if (records.length < 2) throw new Error("CSV חייב להכיל שורת כותרת ולפחות שורת נתונים אחת.");
 
-    const headerRow = rows[0];
-    const dataRows = rows.slice(1);
-    const delimiter = [',', ';', '\t'].sort((a, b) => headerRow.split(b).length - headerRow.split(a).length)[0];
-    const headers = headerRow.split(delimiter).map(h => h.trim().replace(/"/g, ''));
-    
-    const columnIndexMap = getColumnIndexMap(headers);
+    const headers = records[0].fields.map(h => h.trim());
+    const rows = records.slice(1).map(record => {
+        if (record.fields.length !== headers.length) {
+            warnings.push({
+                row: record.line,
+                column: Math.min(record.fields.length, headers.length) + 1,
+                message: `נמצאו ${record.fields.length} עמודות במקום ${headers.length}. יש לבדוק את יישור הנתונים בשורה זו.`,
+            });
+        }
+        return record.fields;
+    });
+    return { headers, rows };
+};
 
-    return dataRows.map((rowStr, index) => {
-        const values = rowStr.split(delimiter).map(v => v.trim().replace(/"/g, ''));
-        const school = parseRow(values, columnIndexMap);
-        school.id = index + 1;
-        if (!school.name) school.name = `בית ספר ${index + 1}`;
-        return school;
+const HEADER_SCAN_ROWS = 6;
+
+/**
+ * Copies the value of each merged range's top-left cell into the rest of the range, so a category cell
+ * merged across its metric columns labels every one of them.
+ */
+const fillMergedCells = (grid: string[][], worksheet: any): boolean => {
+    const merges: any[] = worksheet['!merges'] || [];
+    if (merges.length === 0 || !worksheet['!ref']) return false;
+    const origin = XLSX.utils.decode_range(worksheet['!ref']).s;
+    merges.forEach(merge => {
+        const value = grid[merge.s.r - origin.r]?.[merge.s.c - origin.c] || '';
+        for (let r = merge.s.r; r <= merge.e.r; r++) {
+            const row = grid[r - origin.r];
+            if (!row) continue;
+            for (let c = merge.s.c; c <= merge.e.c; c++) row[c - origin.c] = value;
+        }
     });
+    return true;
 };
 
-const parseSchoolsFromXLSX = (data: ArrayBuffer): School[] => {
-    const workbook = XLSX.read(data, { type: 'array' });
-    const sheetName = workbook.SheetNames[0];
-    const worksheet = workbook.Sheets[sheetName];
-    const json: any[][] = XLSX.utils.sheet_to_json(worksheet, { header: 1, raw: false, dateNF: 'dd/mm/yyyy' });
+const combineHeaderRows = (categoryRow: string[], metricRow: string[], forwardFill: boolean): string[] => {
+    let lastCategory = '';
+    return metricRow.map((metric, i) => {
+        let category = (categoryRow[i] || '').trim();
+        if (forwardFill) {
+            if (category) lastCategory = category;
+            else category = metric ? lastCategory : '';
+        }
+        if (!category || category === metric) return metric;
+        return metric ? `${category}${GROUPED_HEADER_SEPARATOR}${metric}` : category;
+    });
+};
 
-    if (json.length < 2) throw new Error("קובץ Excel חייב להכיל שורת כותרת ולפחות שורת נתונים אחת.");
+/**
+ * Finds the header within the first rows of a sheet: either a single row, or a category row above a metric row.
+ * Title rows and unrecognized layouts score lower because fewer of their columns map to known fields.
+ */
+export const detectHeader = (grid: string[][], hasMerges: boolean): { headers: string[]; dataStart: number } => {
+    const width = Math.max(0, ...grid.slice(0, HEADER_SCAN_ROWS + 1).map(row => row.length));
+    const padded = (row: string[] = []) => Array.from({ length: width }, (_, i) => (row[i] || '').trim());
+    const countMapped = (headers: string[]) => proposeColumnMappings(headers).filter(m => m.targetField).length;
 
-    const headers = (json[0] as any[]).map(h => String(h || '').trim());
-    const dataRows = json.slice(1);
-    
-    const columnIndexMap = getColumnIndexMap(headers);
-    
-    return dataRows.map((row: any[], index) => {
-        const school = parseRow(row, columnIndexMap);
-        school.id = index + 1;
-        if (!school.name) school.name = `בית ספר ${index + 1}`;
-        return school;
-    }).filter(s => s.name); // Filter out potentially empty rows
+    let best = { headers: padded(grid[0]), dataStart: 1, mapped: countMapped(padded(grid[0])), grouped: false };
+    for (let i = 0; i < Math.min(HEADER_SCAN_ROWS, grid.length - 1); i++) {
+        const single = padded(grid[i]);
+        const singleMapped = countMapped(single);
+        if (singleMapped > best.mapped) best = { headers: single, dataStart: i + 1, mapped: singleMapped, grouped: false };
+        if (i === 0) continue;
+        // Row i-1 alone is the best header so far, so row i is data, even when its blanks leave the grouped reading level.
+        if (best.dataStart === i && !best.grouped) continue;
+
+        // Without merge information, category cells are assumed to span until the next category.
+        const grouped = combineHeaderRows(padded(grid[i - 1]), single, !hasMerges);
+        const groupedMapped = countMapped(grouped);
+        if (groupedMapped > best.mapped) best = { headers: grouped, dataStart: i + 1, mapped: groupedMapped, grouped: true };
+    }
+    return { headers: best.headers, dataStart: best.dataStart };
+};
+
+const parseSheetTable = (worksheet: any): RawDataTable | null => {
+    const json: any[][] = XLSX.utils.sheet_to_json(worksheet, { header: 1, raw: false, dateNF: 'dd/mm/yyyy', blankrows: true, defval: '' });
+    const grid = json.map((row: any[]) => Array.from(row, value => String(value ?? '')));
+    if (grid.length < 2) return null;
+
+    const hasMerges = fillMergedCells(grid, worksheet);
+    const { headers, dataStart } = detectHeader(grid, hasMerges);
+    const rows = grid.slice(dataStart)
+        .filter(row => row.some(value => value.trim() !== '')); // Filter out empty rows
+    return rows.length > 0 ? { headers, rows } : null;
+};
+
+/**
+ * Reads every sheet that has a header row and at least one data row, in workbook order.
+ * The instructions sheet of the blank template is skipped.
+ */
+const parseSheetsFromXLSX = (data: ArrayBuffer): WorkbookSheet[] => {
+    const workbook = XLSX.read(data, { type: 'array' });
+    const sheets: WorkbookSheet[] = [];
+    for (const sheetName of workbook.SheetNames as string[]) {
+        if (sheetName === TEMPLATE_INSTRUCTIONS_SHEET_NAME) continue;
+        const table = parseSheetTable(workbook.Sheets[sheetName]);
+        if (table) sheets.push({ name: sheetName, table });
+    }
+
+    if (sheets.length === 0) throw new Error("קובץ Excel חייב להכיל גיליון עם שורת כותרת ולפחות שורת נתונים אחת.");
+    return sheets;
 };
 
 export const parseFile = async (file: File): Promise<ParsedData> => {
     try {
         const fileExtension = file.name.split('.').pop()?.toLowerCase();
-        let schools: School[];
+        let sheets: WorkbookSheet[];
+        const warnings: ParseIssue[] = [];
 
         if (fileExtension === 'csv' || fileExtension === 'txt') {
             const text = await file.text();
-            schools = parseSchoolsFromCSV(text);
+            sheets = [{ name: file.name, table: parseTableFromCSV(text, warnings) }];
         } else if (fileExtension === 'xlsx' || fileExtension === 'xls') {
             const buffer = await file.arrayBuffer();
-            schools = parseSchoolsFromXLSX(buffer);
+            sheets = parseSheetsFromXLSX(buffer);
         } else {
             throw new Error("סוג קובץ לא נתמך. יש להעלות קבצי CSV או Excel.");
         }
-        
+
+        const table = sheets[0].table;
+        const columnMappings = proposeColumnMappings(table.headers);
+        const schools = buildSchoolsFromTable(table, columnMappings);
+
         if (schools.length === 0) {
             throw new Error("לא נמצאו נתונים בקובץ.");
         }
 
         return {
             schools,
+            table,
+            sheets,
+            columnMappings,
             metadata: {
                 fileName: file.name,
                 fileType: file.type || 'N/A',
                 columns: schools.length > 0 ? Object.keys(schools[0]) : [],
+                warnings,
             },
         };
     } catch (error) {
@@ -199,4 +365,4 @@ export const parseFile = async (file: File): Promise<ParsedData> => {
         }
         throw new Error("אירעה שגיאה פנימית בלתי צפויה בניתוח הקובץ.");
     }
-};
\ No newline at end of file
+};
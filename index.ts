@@ -5,6 +5,8 @@ export type SupportLevel = 'מלא' | 'חלקי' | 'מצומצם' | 'מנהלי
 export interface School {
     id: number;
     name: string;
+    /** Ministry institution symbol ("סמל מוסד"), used to match a school across years. */
+    institutionCode: string;
     principal: string;
     students: string;
     supportLevel: SupportLevel;
@@ -178,15 +180,102 @@ export interface School {
 }
 
 
+export interface ParseIssue {
+    row: number;
+    column?: number;
+    message: string;
+}
+
+export interface RawDataTable {
+    headers: string[];
+    rows: string[][];
+}
+
+export type ColumnMappingStatus = 'proposed' | 'confirmed' | 'ignored' | 'unmapped';
+
+export interface ColumnMapping {
+    sourceHeader: string;
+    targetField: keyof School | null;
+    score: number;
+    status: ColumnMappingStatus;
+}
+
+export interface SavedColumnLayout {
+    id: string;
+    name: string;
+    headers: string[];
+    /** Target per source header; null marks a column the user chose to ignore. */
+    mappings: { [sourceHeader: string]: keyof School | null };
+    savedAt: string;
+}
+
+export interface WorkbookSheet {
+    name: string;
+    table: RawDataTable;
+}
+
+export type SheetImportMode = 'single' | 'append' | 'merge';
+
+export type SheetMergeKey = 'name' | 'id';
+
+export interface SheetMergeConflict {
+    key: string;
+    header: string;
+    /** Every differing value in sheet order; the first one is kept in the merged table. */
+    values: { sheetName: string; value: string }[];
+}
+
+export interface SheetMergeResult {
+    table: RawDataTable;
+    conflicts: SheetMergeConflict[];
+    /** Selected sheets in which no column matches the merge key. */
+    sheetsMissingKey: string[];
+    /** Rows with an empty key, kept as separate schools because they cannot be joined. */
+    rowsWithoutKey: number;
+}
+
 export interface ParsedData {
     schools: School[];
+    table: RawDataTable;
+    /** All non-empty sheets of the workbook; a CSV file yields a single sheet. */
+    sheets: WorkbookSheet[];
+    columnMappings: ColumnMapping[];
     metadata: {
         fileName: string;
         fileType: string;
         columns: string[];
+        warnings: ParseIssue[];
     };
 }
 
+export type DataQualityIssueType =
+    | 'score-out-of-range'
+    | 'score-non-integer'
+    | 'score-non-numeric'
+    | 'duplicate-name'
+    | 'missing-principal'
+    | 'students-non-numeric'
+    | 'unknown-support-level';
+
+export interface DataQualityFix {
+    label: string;
+    field: keyof School;
+    value: string;
+}
+
+export interface DataQualityIssue {
+    id: string;
+    type: DataQualityIssueType;
+    severity: 'error' | 'warning';
+    schoolId: number;
+    schoolName: string;
+    field: keyof School;
+    value: string;
+    message: string;
+    /** Suggested one-click correction; absent when the value must be entered by hand. */
+    fix?: DataQualityFix;
+}
+
 export interface SchoolForAnalysis extends School {
     characterization: string;
     specificChallenges: string[];
@@ -247,6 +336,14 @@ export interface Issue {
   tier1Average: number;
   tier2Average: number;
   tier3Average: number;
+  /** Students in the affected schools, where the number of students is known. */
+  affectedStudents?: number;
+  /** The issue's average within each support level that has schools. */
+  supportLevelAverages?: { level: SupportLevel; average: number }[];
+  /** Percentage of the issue's scores that were filled in by the schools. */
+  dataCoverage?: number;
+  /** Schools whose scores on the issue's metrics fall below the minimum coverage. */
+  insufficientDataSchools?: number;
 }
 
 
@@ -279,6 +376,52 @@ export interface PlanComponent {
     custom: string;
 }
 
+/** A measurable objective tied to score fields, measured on the schools the tier plan covers. */
+export interface ObjectiveBinding {
+    id: string;
+    /** The objective as written in the plan's measurable objectives. */
+    objective: string;
+    /** Keys of ALL_SCORE_FIELDS. */
+    fields: string[];
+    /** The plan schools' average on the fields, filled in when the objective is bound. */
+    baseline: number | null;
+    target: number | null;
+    /** ISO date (yyyy-mm-dd). */
+    deadline: string;
+}
+
+export type VisitCadence = 'none' | 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'per-semester' | 'total';
+
+/** The part of the school year a support frequency's visits are laid across. */
+export type VisitSpan = 'year' | 'first-semester' | 'second-semester';
+
+/** A support frequency item structured into visits. */
+export interface VisitFrequency {
+    /** The item as written in the plan's support frequency. */
+    source: string;
+    cadence: VisitCadence;
+    /** Visits in each period of the cadence; with 'total', over the whole span. */
+    visits: number;
+    span: VisitSpan;
+    durationMinutes: number;
+}
+
+export type ActionOwner = 'supervisor' | 'principal' | 'coordinator' | 'partner';
+
+/** When and by whom a main action is carried out. */
+export interface ActionSchedule {
+    /** The action as written in the plan's main actions. */
+    action: string;
+    /** Months of the school year, 1 being September and 12 August. */
+    startMonth: number;
+    endMonth: number;
+    owner: ActionOwner;
+    /** One of the plan's partners, when the owner is an external partner. */
+    partner: string;
+    /** Actions that must be completed before this one starts. */
+    dependsOn: string[];
+}
+
 export interface TierPlan {
     mainGoal: PlanComponent;
     measurableObjectives: PlanComponent;
@@ -286,6 +429,12 @@ export interface TierPlan {
     supportFrequency: PlanComponent;
     successMetrics: PlanComponent;
     partners: PlanComponent;
+    /** Objectives bound to score fields; plans saved before binding existed have none. */
+    objectiveBindings?: ObjectiveBinding[];
+    /** Support frequencies structured in the visit scheduler; items without one are parsed from their text. */
+    visitFrequencies?: VisitFrequency[];
+    /** Timing and owners of the main actions; actions without one are not scheduled yet. */
+    actionSchedules?: ActionSchedule[];
 }
 
 export interface Tier2Group {
@@ -315,12 +464,239 @@ export type AllInterventionPlans = {
     [issueId: string]: FullInterventionPlan;
 };
 
+export type MonitoringStatus = 'on-track' | 'at-risk' | 'off-track' | 'no-data';
+
+/** What a monitored success metric is measured on: the whole tier, a tier 2 group or a tier 3 school. */
+export type MonitoringScope =
+    | { type: 'tier' }
+    | { type: 'group'; groupId: string; name: string }
+    | { type: 'school'; schoolId: number; name: string };
+
+export interface MonitoringCheckIn {
+    /** ISO date (yyyy-mm-dd). */
+    date: string;
+    value: number;
+    note: string;
+}
+
+/** A success metric selected in a tier plan, tracked after the plan is delivered. */
+export interface MonitoredIndicator {
+    id: string;
+    issueId: string;
+    tier: 1 | 2 | 3;
+    scope: MonitoringScope;
+    /** The success metric as written in TierPlan.successMetrics. */
+    metric: string;
+    baseline: number | null;
+    target: number | null;
+    /** ISO dates; progress is expected to advance evenly between them. */
+    startDate: string;
+    dueDate: string;
+    checkIns: MonitoringCheckIn[];
+}
+
+export interface SchoolHoliday {
+    name: string;
+    /** ISO dates (yyyy-mm-dd), both included. */
+    start: string;
+    end: string;
+}
+
+/** The school year the visits are scheduled in. */
+export interface SchoolCalendar {
+    schoolYear: string;
+    /** ISO dates (yyyy-mm-dd). */
+    start: string;
+    end: string;
+    secondSemesterStart: string;
+    holidays: SchoolHoliday[];
+    /** Days of the week visits can take place on, 0 being Sunday. */
+    workDays: number[];
+    /** HH:MM. */
+    dayStartTime: string;
+    /** More visits on one day overload it. */
+    maxVisitsPerDay: number;
+}
+
+export interface ScheduledVisit {
+    id: string;
+    /** ISO date (yyyy-mm-dd). */
+    date: string;
+    /** HH:MM. */
+    startTime: string;
+    durationMinutes: number;
+    issueId: string;
+    tier: 1 | 2 | 3;
+    scope: MonitoringScope;
+    schoolNames: string[];
+    /** The support frequency item the visit carries out. */
+    source: string;
+}
+
+/** The supervision time available for the plans. */
+export interface CapacitySettings {
+    /** Hours a month each supervisor can give to visits. */
+    monthlyHoursBudget: number;
+    supervisorCount: number;
+}
+
 export type TieredSchools = {
     tier1: SchoolForAnalysis[];
     tier2: SchoolForAnalysis[];
     tier3: SchoolForAnalysis[];
+    /** Manual tier changes in effect, by school id. */
+    overrides: { [schoolId: number]: ActiveTierOverride };
 };
 
+export type WizardStep = 'upload' | 'sheet-selection' | 'column-mapping' | 'data-mapping' | 'analysis' | 'focus-area-selection' | 'issue-selection' | 'mtss-tiering' | 'supervisor-goals' | 'plan' | 'monitoring';
+
+export interface SessionMetadata {
+    name: string;
+    district: string;
+    schoolYear: string;
+}
+
+export interface HistoricalDataset {
+    id: string;
+    schoolYear: string;
+    fileName: string;
+    importedAt: string;
+    schools: School[];
+}
+
+export interface SchoolYearSnapshot {
+    schoolYear: string;
+    school: School;
+}
+
+export type TieringComparison = 'below' | 'at-most' | 'at-least';
+
+export type TieringCondition =
+    | { type: 'overall-average'; comparison: TieringComparison; value: number }
+    /** `domain` is the name of a top-level category in HIERARCHICAL_CATEGORIES. */
+    | { type: 'domain-average'; domain: string; comparison: TieringComparison; value: number }
+    /** Number of metrics scored 1 or 2. */
+    | { type: 'low-score-count'; comparison: TieringComparison; value: number }
+    | { type: 'support-level'; levels: SupportLevel[] }
+    | { type: 'new-principal' };
+
+export interface TieringRule {
+    match: 'all' | 'any';
+    conditions: TieringCondition[];
+}
+
+export interface TieringRuleSet {
+    id: string;
+    name: string;
+    /** Written rationale for the criteria, shown with the tiering and in the plan. */
+    justification: string;
+    /** When set, the tiers from the automatic analysis are used and the rules are ignored. */
+    useAnalysisTiers: boolean;
+    /** Limits tiers 2 and 3 to schools affected by the selected issues. */
+    requireSelectedIssue: boolean;
+    tier3: TieringRule;
+    tier2: TieringRule;
+    savedAt: string;
+}
+
+/**
+ * One entry in the audit trail of manual tier changes. The latest entry for a school is the one in effect.
+ */
+export interface TierOverride {
+    schoolId: number;
+    schoolName: string;
+    /** Tier computed by the rules when the change was made. */
+    computedTier: 1 | 2 | 3;
+    fromTier: 1 | 2 | 3;
+    /** null when the override was withdrawn and the school returned to its computed tier. */
+    toTier: 1 | 2 | 3 | null;
+    reason: string;
+    createdAt: string;
+}
+
+export interface ActiveTierOverride extends TierOverride {
+    toTier: 1 | 2 | 3;
+}
+
+export interface TierAssignment {
+    tier: 1 | 2 | 3;
+    /** Human-readable conditions that placed the school in its tier. */
+    reasons: string[];
+}
+
+/** The formula that ranks issues by urgency and grades their severity. */
+export interface PrioritizationSettings {
+    /** Weight of the share of schools affected by the issue. */
+    scopeWeight: number;
+    /** Weight of the share of low scores among the issue's scores. */
+    severityWeight: number;
+    /** Urgency score (0-1) above which an issue is critical, high or medium; anything lower is low. */
+    criticalThreshold: number;
+    highThreshold: number;
+    mediumThreshold: number;
+    /** Scores at or below this value count as low. */
+    lowScoreMax: number;
+}
+
+export type AveragingMode = 'school' | 'student';
+
+export interface CoverageRules {
+    /** Minimum percentage of a school's metrics in a domain or issue that must be scored for its result to count. */
+    minSchoolCoverage: number;
+    /** Minimum percentage of the scores of a group of schools that must be present for the group's average to count. */
+    minGroupCoverage: number;
+    /** Fill missing scores with the school's mean in the same sub-category. Imputed results are marked as such. */
+    imputeMissing: boolean;
+}
+
+/** How the analysis views aggregate the schools: which schools are shown and how much each one counts. */
+export interface AnalyticsView {
+    averaging: AveragingMode;
+    /** 'all' shows every school; '' is the segment of schools without a support level. */
+    supportLevel: SupportLevel | 'all';
+    coverage: CoverageRules;
+}
+
+export interface WizardSessionState {
+    currentStep: WizardStep;
+    schoolsData: School[];
+    analysisData: AnalysisData | null;
+    selectedFocusAreas: string[];
+    selectedIssues: Issue[];
+    interventionPlans: AllInterventionPlans;
+    /** Datasets of earlier school years, compared against the current one. */
+    historicalDatasets: HistoricalDataset[];
+    tieringRuleSet: TieringRuleSet;
+    tierOverrides: TierOverride[];
+    /** The formula the selected issues were ranked with. */
+    prioritizationSettings: PrioritizationSettings;
+    monitoringIndicators: MonitoredIndicator[];
+    /** Scores of the same schools measured after the plan started, compared against the objectives' targets. */
+    followUpDataset: HistoricalDataset | null;
+}
+
+export interface SavedSession extends WizardSessionState, SessionMetadata {
+    id: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface SessionSummary extends SessionMetadata {
+    id: string;
+    currentStep: WizardStep;
+    schoolCount: number;
+    updatedAt: string;
+}
+
+export interface MtssProjectFile {
+    format: 'mtss-project';
+    schemaVersion: number;
+    exportedAt: string;
+    metadata: SessionMetadata;
+    state: WizardSessionState;
+    tierAssignments: { [schoolId: number]: 1 | 2 | 3 };
+}
+
 export interface InformationCard {
   title: string;
   coreDomain: string;
@@ -0,0 +1,121 @@
+import type { SchoolForAnalysis, Issue, SchoolIssueDetail, FullSystemicIssue, AveragingMode, CoverageRules, PrioritizationSettings } from '../types';
+import { FIELD_HEBREW_MAP, METRIC_TO_CHALLENGE_MAP, BOOKLET_ISSUE_TO_METRICS_MAP, BOOKLET_TO_PLAN_ISSUES_MAP } from '../constants';
+import { issuesAndGoalsData } from '../data/issuesAndGoalsData';
+import { segmentBySupportLevel, weightedAverage, schoolWeight, totalWeight, parseStudentCount } from './analyticsViewService';
+import { scoreCoverage, isSufficient } from './dataCoverageService';
+import { computeUrgencyScore, classifySeverity, isLowScore } from './prioritizationService';
+
+const buildSchoolDetails = (schools: SchoolForAnalysis[], categoryKey: string, settings: PrioritizationSettings): SchoolIssueDetail[] => {
+    const metricsForCategory = BOOKLET_ISSUE_TO_METRICS_MAP[categoryKey] || [];
+    if (metricsForCategory.length === 0) return [];
+
+    return schools.map(school => {
+        const affectedMetricsForSchool = metricsForCategory.filter(metric => {
+            const score = parseInt(school[metric] as string, 10);
+            return !isNaN(score) && isLowScore(score, settings);
+        });
+
+        if (affectedMetricsForSchool.length === 0) return null;
+
+        const percentage = (affectedMetricsForSchool.length / metricsForCategory.length) * 100;
+        let severity: 'critical' | 'high' | 'medium';
+        if (percentage >= 70) severity = 'critical';
+        else if (percentage >= 40) severity = 'high';
+        else severity = 'medium';
+
+        return {
+            schoolId: school.id, schoolName: school.name, performanceTier: school.tier, severity,
+            affectedMetrics: affectedMetricsForSchool.map(key => METRIC_TO_CHALLENGE_MAP[key as string] || `תפקוד נמוך במדד: "${FIELD_HEBREW_MAP[key as string]?.split(' - ')[1] || String(key)}"`)
+        };
+    }).filter((detail): detail is SchoolIssueDetail => detail !== null);
+};
+
+/**
+ * Finds the issues of the focus areas among the schools, ranked by urgency: the share of schools affected
+ * and the share of low scores, combined and graded by the prioritization settings.
+ * Averages and urgency weigh each school by the averaging mode. Coverage counts only the scores the schools
+ * entered, even when missing scores are imputed for the averages. The support-level breakdown always covers allSchools.
+ */
+export const identifyIssues = (
+    schools: SchoolForAnalysis[],
+    allSchools: SchoolForAnalysis[],
+    selectedFocusAreas: string[],
+    averaging: AveragingMode,
+    coverageRules: CoverageRules,
+    settings: PrioritizationSettings,
+): Issue[] => {
+    if (schools.length === 0 || selectedFocusAreas.length === 0) return [];
+
+    const relevantIssueIds = new Set(selectedFocusAreas.flatMap(area => BOOKLET_TO_PLAN_ISSUES_MAP[area] || []));
+    const relevantIssuesData = issuesAndGoalsData.filter(issue => relevantIssueIds.has(issue.id));
+
+    const calculateAverageForCategory = (categoryKey: string, schoolSet: SchoolForAnalysis[]): number =>
+        weightedAverage(schoolSet, (BOOKLET_ISSUE_TO_METRICS_MAP[categoryKey] || []) as string[], averaging, coverageRules.imputeMissing);
+
+    return relevantIssuesData
+        .map((issueData: FullSystemicIssue): Issue | null => {
+            const metricsForCategory = (BOOKLET_ISSUE_TO_METRICS_MAP[issueData.id] || []) as string[];
+            let totalLowScores = 0;
+            let totalScoresCount = 0;
+            let affectedWeight = 0;
+            let affectedStudents = 0;
+            const affectedSchoolIds = new Set<number>();
+
+            // Each school counts by its weight: 1, or its number of students under student weighting.
+            schools.forEach(school => {
+                const weight = schoolWeight(school, averaging);
+                let hasLowScoreInIssue = false;
+                metricsForCategory.forEach(metric => {
+                    const score = parseInt(school[metric] as string, 10);
+                    if (!isNaN(score) && score > 0) {
+                        totalScoresCount += weight;
+                        if (isLowScore(score, settings)) {
+                            totalLowScores += weight;
+                            hasLowScoreInIssue = true;
+                        }
+                    }
+                });
+                if (hasLowScoreInIssue) {
+                    affectedSchoolIds.add(school.id);
+                    affectedWeight += weight;
+                    affectedStudents += parseStudentCount(school.students) ?? 0;
+                }
+            });
+
+            const affectedSchoolsCount = affectedSchoolIds.size;
+            if (affectedSchoolsCount === 0) return null;
+
+            const scopeScore = affectedWeight / (totalWeight(schools, averaging) || 1);
+            const severityScore = (totalLowScores / (totalScoresCount || 1));
+            const finalScore = computeUrgencyScore(scopeScore, severityScore, settings);
+
+            const tier1Schools = schools.filter(s => s.tier === 1);
+            const tier2Schools = schools.filter(s => s.tier === 2);
+            const tier3Schools = schools.filter(s => s.tier === 3);
+
+            return {
+                id: issueData.id,
+                name: issueData.title,
+                description: issueData.principalGoal,
+                affectedSchools: affectedSchoolsCount,
+                totalSchools: schools.length,
+                severity: classifySeverity(finalScore, settings),
+                category: issueData.category,
+                urgency: Math.round(finalScore * 100),
+                schoolDetails: buildSchoolDetails(schools, issueData.id, settings),
+                overallAverage: calculateAverageForCategory(issueData.id, schools),
+                tier1Average: calculateAverageForCategory(issueData.id, tier1Schools),
+                tier2Average: calculateAverageForCategory(issueData.id, tier2Schools),
+                tier3Average: calculateAverageForCategory(issueData.id, tier3Schools),
+                affectedStudents,
+                dataCoverage: scoreCoverage(schools, metricsForCategory).percent,
+                insufficientDataSchools: schools.filter(school => !isSufficient(scoreCoverage([school], metricsForCategory), coverageRules.minSchoolCoverage)).length,
+                supportLevelAverages: segmentBySupportLevel(allSchools).map(segment => ({
+                    level: segment.level,
+                    average: calculateAverageForCategory(issueData.id, segment.schools),
+                })),
+            };
+        })
+        .filter((issue): issue is Issue => issue !== null)
+        .sort((a, b) => b.urgency - a.urgency);
+};
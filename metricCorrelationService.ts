@@ -0,0 +1,202 @@
+import type { School } from '../types';
+import { ALL_SCORE_FIELDS, BOOKLET_ISSUE_TO_METRICS_MAP, HIERARCHICAL_CATEGORIES } from '../constants';
+
+// Correlations over fewer schools than this are too noisy to show.
+export const MIN_PAIRED_SCHOOLS = 5;
+// Metrics whose correlation is at least this strong are clustered together.
+export const METRIC_CLUSTER_THRESHOLD = 0.6;
+const MAX_LINKED_METRICS = 3;
+
+export interface CorrelationMatrix {
+    fields: string[];
+    /** Pearson correlation by field index, or null when too few schools scored both metrics. */
+    values: (number | null)[][];
+}
+
+export interface MetricAssociation {
+    field: string;
+    /** Mean correlation with the issue's metrics. */
+    correlation: number;
+    /** The issue metric it correlates with most strongly. */
+    strongestWith: string;
+    strongestCorrelation: number;
+}
+
+export interface RankedRootCause {
+    cause: string;
+    /** Upstream metrics the root cause text refers to, strongest evidence first. */
+    linkedMetrics: MetricAssociation[];
+    /** Strongest association among the linked metrics, or null when none is linked. */
+    evidence: number | null;
+}
+
+const METRIC_NAMES = new Map<string, string>(
+    HIERARCHICAL_CATEGORIES.flatMap(cat => cat.subCategories.flatMap(subCat =>
+        subCat.metrics.map(metric => [metric.key, `${subCat.name} ${metric.name}`] as [string, string])
+    ))
+);
+
+const toScore = (school: School, field: string): number | null => {
+    const score = parseInt(school[field] as string, 10);
+    return !isNaN(score) && score > 0 ? score : null;
+};
+
+const pearson = (pairs: [number, number][]): number | null => {
+    if (pairs.length < MIN_PAIRED_SCHOOLS) return null;
+    const n = pairs.length;
+    const meanX = pairs.reduce((sum, [x]) => sum + x, 0) / n;
+    const meanY = pairs.reduce((sum, [, y]) => sum + y, 0) / n;
+    let covariance = 0;
+    let varianceX = 0;
+    let varianceY = 0;
+    pairs.forEach(([x, y]) => {
+        covariance += (x - meanX) * (y - meanY);
+        varianceX += (x - meanX) ** 2;
+        varianceY += (y - meanY) ** 2;
+    });
+    // A metric every school scored the same carries no information about the others.
+    if (varianceX === 0 || varianceY === 0) return null;
+    return covariance / Math.sqrt(varianceX * varianceY);
+};
+
+/**
+ * Correlates every pair of metrics across the schools, using the schools that scored both.
+ */
+export const computeCorrelationMatrix = (schools: School[], fields: string[] = ALL_SCORE_FIELDS as string[]): CorrelationMatrix => {
+    const scores = schools.map(school => fields.map(field => toScore(school, field)));
+    const values: (number | null)[][] = fields.map(() => fields.map(() => null));
+    for (let i = 0; i < fields.length; i++) {
+        values[i][i] = 1;
+        for (let j = i + 1; j < fields.length; j++) {
+            const pairs: [number, number][] = [];
+            scores.forEach(row => {
+                if (row[i] !== null && row[j] !== null) pairs.push([row[i] as number, row[j] as number]);
+            });
+            values[i][j] = values[j][i] = pearson(pairs);
+        }
+    }
+    return { fields, values };
+};
+
+export const getCorrelation = (matrix: CorrelationMatrix, a: string, b: string): number | null => {
+    const i = matrix.fields.indexOf(a);
+    const j = matrix.fields.indexOf(b);
+    return i === -1 || j === -1 ? null : matrix.values[i][j];
+};
+
+/**
+ * Groups metrics that move together: average-linkage clustering on 1 - r, stopped once
+ * the closest clusters correlate more weakly than the threshold. Only groups of two or more are returned.
+ */
+export const clusterMetrics = (matrix: CorrelationMatrix, threshold = METRIC_CLUSTER_THRESHOLD): string[][] => {
+    const n = matrix.fields.length;
+    let clusters: number[][] = matrix.fields.map((_, index) => [index]);
+    // Missing correlations count as unrelated.
+    let distances: number[][] = matrix.values.map(row => row.map(r => 1 - (r ?? 0)));
+    const maxDistance = 1 - threshold;
+
+    while (clusters.length > 1) {
+        let bestI = -1;
+        let bestJ = -1;
+        let best = Infinity;
+        for (let i = 0; i < clusters.length; i++) {
+            for (let j = i + 1; j < clusters.length; j++) {
+                if (distances[i][j] < best) {
+                    best = distances[i][j];
+                    bestI = i;
+                    bestJ = j;
+                }
+            }
+        }
+        if (best > maxDistance) break;
+
+        // Lance-Williams update for average linkage.
+        const sizeI = clusters[bestI].length;
+        const sizeJ = clusters[bestJ].length;
+        const remaining = clusters.map((_, k) => k).filter(k => k !== bestI && k !== bestJ);
+        const mergedRow = remaining.map(k => (sizeI * distances[bestI][k] + sizeJ * distances[bestJ][k]) / (sizeI + sizeJ));
+        distances = [
+            ...remaining.map((k, row) => [...remaining.map(l => distances[k][l]), mergedRow[row]]),
+            [...mergedRow, 0],
+        ];
+        clusters = [...remaining.map(k => clusters[k]), [...clusters[bestI], ...clusters[bestJ]]];
+    }
+
+    return n === 0 ? [] : clusters
+        .filter(cluster => cluster.length > 1)
+        .sort((a, b) => b.length - a.length)
+        .map(cluster => cluster.map(index => matrix.fields[index]));
+};
+
+export const getIssueMetrics = (issueId: string): string[] => (BOOKLET_ISSUE_TO_METRICS_MAP[issueId] || []) as string[];
+
+/**
+ * Ranks the metrics outside the issue by their mean correlation with the issue's metrics.
+ */
+export const rankUpstreamMetrics = (matrix: CorrelationMatrix, issueMetrics: string[]): MetricAssociation[] => {
+    const issueSet = new Set(issueMetrics);
+    return matrix.fields
+        .filter(field => !issueSet.has(field))
+        .map(field => {
+            const correlations = issueMetrics
+                .map(target => ({ target, r: getCorrelation(matrix, field, target) }))
+                .filter((c): c is { target: string; r: number } => c.r !== null);
+            if (correlations.length === 0) return null;
+            const strongest = correlations.reduce((a, b) => b.r > a.r ? b : a);
+            return {
+                field,
+                correlation: correlations.reduce((sum, c) => sum + c.r, 0) / correlations.length,
+                strongestWith: strongest.target,
+                strongestCorrelation: strongest.r,
+            };
+        })
+        .filter((a): a is MetricAssociation => a !== null)
+        .sort((a, b) => b.correlation - a.correlation);
+};
+
+// Hebrew prefixes (ו, ה, ב, ל, מ, ש, כ) are attached to the word, so they are stripped before comparing.
+const PREFIX_PATTERN = /^[והבלמשכ]{1,2}(?=[א-ת]{3,})/;
+const STOP_WORDS = new Set(['של', 'את', 'על', 'עם', 'או', 'גם', 'אין', 'לא', 'כל', 'בין', 'ללא', 'היעדר', 'חוסר', 'אינו', 'אינה', 'אינם', 'ולא', 'אחר', 'אשר', 'כדי', 'יותר', 'מאוד', 'בית', 'הספר', 'ספר']);
+
+const tokenize = (text: string): Set<string> =>
+    new Set(text
+        .replace(/[^א-תa-zA-Z\s-]/g, ' ')
+        .split(/[\s-]+/)
+        .filter(word => word.length >= 3 && !STOP_WORDS.has(word))
+        .map(word => word.replace(PREFIX_PATTERN, ''))
+        .filter(word => word.length >= 3));
+
+const sharedTokens = (a: Set<string>, b: Set<string>): number => {
+    let shared = 0;
+    a.forEach(token => {
+        if ([...b].some(other => other === token || (token.length >= 4 && other.length >= 4 && (other.startsWith(token) || token.startsWith(other))))) shared++;
+    });
+    return shared;
+};
+
+/**
+ * Orders the root causes of an issue by the data: each cause is linked to the metrics its text refers to,
+ * and ranked by how strongly those metrics are associated with the issue's metrics.
+ */
+export const rankRootCauses = (causes: string[], upstream: MetricAssociation[]): RankedRootCause[] => {
+    const metricTokens = upstream.map(association => ({ association, tokens: tokenize(METRIC_NAMES.get(association.field) || '') }));
+    return causes
+        .map(cause => {
+            const causeTokens = tokenize(cause);
+            const linkedMetrics = metricTokens
+                .map(({ association, tokens }) => ({ association, shared: sharedTokens(causeTokens, tokens) }))
+                .filter(link => link.shared > 0)
+                .sort((a, b) => b.shared - a.shared || b.association.correlation - a.association.correlation)
+                .slice(0, MAX_LINKED_METRICS)
+                .map(link => link.association)
+                .sort((a, b) => b.correlation - a.correlation);
+            return { cause, linkedMetrics, evidence: linkedMetrics.length > 0 ? linkedMetrics[0].correlation : null };
+        })
+        // Causes without evidence keep their original order after the ranked ones.
+        .sort((a, b) => {
+            if (a.evidence === null || b.evidence === null) return (a.evidence === null ? 1 : 0) - (b.evidence === null ? 1 : 0);
+            return b.evidence - a.evidence;
+        });
+};
+
+export const metricName = (field: string): string => METRIC_NAMES.get(field) || field;
@@ -0,0 +1,155 @@
+import type { AllInterventionPlans, Issue, TieredSchools, TierPlan, PlanComponent, MonitoredIndicator, MonitoringScope, MonitoringStatus, MonitoringCheckIn } from '../types';
+
+/** Progress may trail the even pace by this share of the way before the indicator is at risk. */
+const AT_RISK_MARGIN = 0.1;
+/** Beyond this shortfall it is off track. */
+const OFF_TRACK_MARGIN = 0.3;
+const DEFAULT_DURATION_MONTHS = 6;
+
+export const MONITORING_STATUS_LABELS: { [status in MonitoringStatus]: string } = {
+    'on-track': 'בתוואי',
+    'at-risk': 'בסיכון',
+    'off-track': 'חורג מהתוואי',
+    'no-data': 'אין נתונים',
+};
+
+// The order statuses are rolled up in: the worst status with data wins.
+const STATUS_SEVERITY: MonitoringStatus[] = ['off-track', 'at-risk', 'on-track', 'no-data'];
+
+export const toIsoDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+const addMonths = (isoDate: string, months: number): string => {
+    const date = new Date(isoDate);
+    date.setMonth(date.getMonth() + months);
+    return toIsoDate(date);
+};
+
+/** The items of a plan field: the selected ones and each line of the free text. */
+export const getPlanComponentItems = (component: PlanComponent): string[] => [
+    ...component.predefined,
+    ...component.custom.split('\n').map(line => line.trim()).filter(Boolean),
+];
+
+export const getPlanSuccessMetrics = (plan: TierPlan): string[] => getPlanComponentItems(plan.successMetrics);
+
+const scopeKey = (scope: MonitoringScope): string =>
+    scope.type === 'tier' ? 'tier' : scope.type === 'group' ? `group:${scope.groupId}` : `school:${scope.schoolId}`;
+
+const indicatorId = (issueId: string, tier: 1 | 2 | 3, scope: MonitoringScope, metric: string): string =>
+    [issueId, tier, scopeKey(scope), metric].join('|');
+
+/**
+ * The indicators the plans call for: every success metric of the tier 1 plan, of each tier 2 group,
+ * and of the tier 3 general plan or of each tier 3 school's individual plan, whichever is in use. Individual plans of
+ * schools no longer in tier 3 are left out.
+ */
+export const listPlannedIndicators = (plans: AllInterventionPlans, issues: Issue[], tieredSchools: TieredSchools, today: string): MonitoredIndicator[] => {
+    const indicators: MonitoredIndicator[] = [];
+    const add = (issueId: string, tier: 1 | 2 | 3, scope: MonitoringScope, plan: TierPlan) => {
+        getPlanSuccessMetrics(plan).forEach(metric => indicators.push({
+            id: indicatorId(issueId, tier, scope, metric),
+            issueId, tier, scope, metric,
+            baseline: null,
+            target: null,
+            startDate: today,
+            dueDate: addMonths(today, DEFAULT_DURATION_MONTHS),
+            checkIns: [],
+        }));
+    };
+
+    issues.forEach(issue => {
+        const plan = plans[issue.id];
+        if (!plan) return;
+        add(issue.id, 1, { type: 'tier' }, plan.tier1);
+        plan.tier2Groups.forEach(group => add(issue.id, 2, { type: 'group', groupId: group.id, name: group.name }, group.plan));
+        if (plan.tier3.useGeneralPlan) {
+            add(issue.id, 3, { type: 'tier' }, plan.tier3.generalPlan);
+        } else {
+            Object.entries(plan.tier3.individualPlans).forEach(([id, schoolPlan]) => {
+                const school = tieredSchools.tier3.find(s => s.id === Number(id));
+                if (!school) return;
+                add(issue.id, 3, { type: 'school', schoolId: school.id, name: school.name }, schoolPlan);
+            });
+        }
+    });
+    return indicators;
+};
+
+/**
+ * Merges the planned indicators with the tracked ones. Tracked values are kept; indicators dropped from
+ * the plan are kept only when they already have check-ins, so recorded progress is never lost.
+ */
+export const syncIndicators = (tracked: MonitoredIndicator[], planned: MonitoredIndicator[]): MonitoredIndicator[] => {
+    const trackedById = new Map(tracked.map(indicator => [indicator.id, indicator]));
+    const plannedIds = new Set(planned.map(indicator => indicator.id));
+    return [
+        ...planned.map(indicator => {
+            const existing = trackedById.get(indicator.id);
+            // The scope name may have changed (a renamed group); everything else is the supervisor's input.
+            return existing ? { ...existing, scope: indicator.scope } : indicator;
+        }),
+        ...tracked.filter(indicator => !plannedIds.has(indicator.id) && indicator.checkIns.length > 0),
+    ];
+};
+
+export const isInPlan = (indicator: MonitoredIndicator, planned: MonitoredIndicator[]): boolean =>
+    planned.some(p => p.id === indicator.id);
+
+export const getLatestCheckIn = (indicator: MonitoredIndicator): MonitoringCheckIn | null =>
+    indicator.checkIns.reduce<MonitoringCheckIn | null>((latest, checkIn) => !latest || checkIn.date >= latest.date ? checkIn : latest, null);
+
+/**
+ * Share of the way from baseline to target covered by the latest check-in; works for targets below the baseline too.
+ * Null without a baseline, a target different from it, or a check-in.
+ */
+export const computeProgress = (indicator: MonitoredIndicator): number | null => {
+    const latest = getLatestCheckIn(indicator);
+    if (indicator.baseline === null || indicator.target === null || indicator.target === indicator.baseline || !latest) return null;
+    return (latest.value - indicator.baseline) / (indicator.target - indicator.baseline);
+};
+
+/** Share of the time from start to due date that has passed on the given date, 0-1. */
+export const computeExpectedProgress = (indicator: MonitoredIndicator, today: string): number => {
+    const start = new Date(indicator.startDate).getTime();
+    const due = new Date(indicator.dueDate).getTime();
+    if (!(due > start)) return 1;
+    return Math.min(1, Math.max(0, (new Date(today).getTime() - start) / (due - start)));
+};
+
+/**
+ * On track while progress keeps up with an even pace toward the due date; a target reached is on track.
+ */
+export const computeStatus = (indicator: MonitoredIndicator, today: string): MonitoringStatus => {
+    const progress = computeProgress(indicator);
+    if (progress === null) return 'no-data';
+    if (progress >= 1) return 'on-track';
+    const shortfall = computeExpectedProgress(indicator, today) - progress;
+    if (today > indicator.dueDate) return 'off-track';
+    if (shortfall <= AT_RISK_MARGIN) return 'on-track';
+    if (shortfall <= OFF_TRACK_MARGIN) return 'at-risk';
+    return 'off-track';
+};
+
+export interface StatusRollup {
+    status: MonitoringStatus;
+    counts: { [status in MonitoringStatus]: number };
+    total: number;
+}
+
+/**
+ * Rolls the indicators' statuses up into the worst status among those with data, with the count of each.
+ */
+export const rollUpStatus = (indicators: MonitoredIndicator[], today: string): StatusRollup => {
+    const counts: StatusRollup['counts'] = { 'on-track': 0, 'at-risk': 0, 'off-track': 0, 'no-data': 0 };
+    indicators.forEach(indicator => { counts[computeStatus(indicator, today)]++; });
+    const status = STATUS_SEVERITY.find(s => counts[s] > 0) || 'no-data';
+    return { status, counts, total: indicators.length };
+};
+
+export const describeScope = (scope: MonitoringScope, tier: 1 | 2 | 3): string => {
+    switch (scope.type) {
+        case 'tier': return tier === 3 ? 'שכבה 3 (תוכנית כללית)' : `שכבה ${tier}`;
+        case 'group': return `קבוצה: ${scope.name}`;
+        case 'school': return `בית ספר: ${scope.name}`;
+    }
+};
@@ -0,0 +1,120 @@
+import type { AllInterventionPlans, Issue, School, SchoolForAnalysis, TierPlan, TieredSchools, ObjectiveBinding, MonitoringScope, HistoricalDataset } from '../types';
+import { FIELD_HEBREW_MAP } from '../constants';
+import { weightedAverage } from './analyticsViewService';
+import { scoreCoverage } from './dataCoverageService';
+import { findMatchingSchool } from './trendService';
+import { getPlanComponentItems } from './monitoringService';
+
+export type ObjectiveStatus = 'achieved' | 'in-progress' | 'missed' | 'no-data';
+
+export const OBJECTIVE_STATUS_LABELS: { [status in ObjectiveStatus]: string } = {
+    'achieved': 'היעד הושג',
+    'in-progress': 'בדרך ליעד',
+    'missed': 'היעד לא הושג במועד',
+    'no-data': 'אין נתוני מעקב',
+};
+
+export const getPlanObjectives = (plan: TierPlan): string[] => getPlanComponentItems(plan.measurableObjectives);
+
+export const fieldLabel = (field: string): string => FIELD_HEBREW_MAP[field] || field;
+
+/**
+ * The schools' average on the fields, every filled score counting once; null when none of the fields was scored.
+ */
+export const averageOnFields = (schools: School[], fields: string[]): number | null =>
+    scoreCoverage(schools, fields).filled > 0 ? weightedAverage(schools, fields, 'school') : null;
+
+/** June 30 of the school year the date falls in; school years start in September. */
+export const endOfSchoolYear = (isoDate: string): string => {
+    const date = new Date(isoDate);
+    const year = date.getMonth() >= 8 ? date.getFullYear() + 1 : date.getFullYear();
+    return `${year}-06-30`;
+};
+
+export const createObjectiveBinding = (objective: string, fields: string[], schools: School[], today: string): ObjectiveBinding => ({
+    id: `objective-${Date.now()}`,
+    objective,
+    fields,
+    baseline: averageOnFields(schools, fields),
+    target: null,
+    deadline: endOfSchoolYear(today),
+});
+
+export interface PlanScope {
+    issueId: string;
+    tier: 1 | 2 | 3;
+    scope: MonitoringScope;
+    plan: TierPlan;
+    /** The schools the plan is carried out in. */
+    schools: SchoolForAnalysis[];
+}
+
+/**
+ * Every tier plan of the issues with its schools: tier 1 covers all the schools, a tier 2 group its members,
+ * and tier 3 the whole tier under the general plan or each school under its individual plan.
+ */
+export const listPlanScopes = (plans: AllInterventionPlans, issues: Issue[], tieredSchools: TieredSchools): PlanScope[] =>
+    issues.flatMap(issue => {
+        const plan = plans[issue.id];
+        if (!plan) return [];
+        const scopes: PlanScope[] = [{ issueId: issue.id, tier: 1, scope: { type: 'tier' }, plan: plan.tier1, schools: tieredSchools.tier1 }];
+        plan.tier2Groups.forEach(group => scopes.push({
+            issueId: issue.id, tier: 2,
+            scope: { type: 'group', groupId: group.id, name: group.name },
+            plan: group.plan,
+            schools: tieredSchools.tier2.filter(school => group.schoolIds.includes(school.id)),
+        }));
+        if (plan.tier3.useGeneralPlan) {
+            scopes.push({ issueId: issue.id, tier: 3, scope: { type: 'tier' }, plan: plan.tier3.generalPlan, schools: tieredSchools.tier3 });
+        } else {
+            Object.entries(plan.tier3.individualPlans).forEach(([id, schoolPlan]) => {
+                const school = tieredSchools.tier3.find(s => s.id === Number(id));
+                if (!school) return;
+                scopes.push({ issueId: issue.id, tier: 3, scope: { type: 'school', schoolId: school.id, name: school.name }, plan: schoolPlan, schools: [school] });
+            });
+        }
+        return scopes;
+    });
+
+export interface ObjectiveResult {
+    /** The follow-up average of the plan schools found in the follow-up dataset. */
+    actual: number | null;
+    matchedSchools: number;
+    totalSchools: number;
+    /** Share of the way from baseline to target; works for targets below the baseline too. */
+    progress: number | null;
+    status: ObjectiveStatus;
+}
+
+/**
+ * Compares the follow-up scores of the plan schools with the objective's target. Schools missing from the
+ * follow-up dataset are left out, and the count of those matched is reported with the result.
+ */
+export const evaluateObjective = (binding: ObjectiveBinding, schools: School[], followUp: HistoricalDataset | null, today: string): ObjectiveResult => {
+    const matched = followUp
+        ? schools.map(school => findMatchingSchool(school, followUp.schools)).filter((s): s is School => s !== null)
+        : [];
+    const actual = averageOnFields(matched, binding.fields);
+    const { baseline, target } = binding;
+    const progress = actual !== null && baseline !== null && target !== null && target !== baseline
+        ? (actual - baseline) / (target - baseline)
+        : null;
+
+    let status: ObjectiveStatus = 'no-data';
+    if (actual !== null && target !== null) {
+        const achieved = baseline !== null && target < baseline ? actual <= target : actual >= target;
+        status = achieved ? 'achieved' : today > binding.deadline ? 'missed' : 'in-progress';
+    }
+    return { actual, matchedSchools: matched.length, totalSchools: schools.length, progress, status };
+};
+
+/**
+ * One line for the printed plan: the fields, baseline, target and deadline.
+ */
+export const describeObjectiveBinding = (binding: ObjectiveBinding): string => {
+    const fields = binding.fields.map(fieldLabel).join(', ');
+    const baseline = binding.baseline !== null ? binding.baseline.toFixed(2) : '—';
+    const target = binding.target !== null ? binding.target.toFixed(2) : '—';
+    const deadline = binding.deadline ? new Date(binding.deadline).toLocaleDateString('he-IL') : '—';
+    return `${binding.objective} | מדדים: ${fields} | בסיס ${baseline}, יעד ${target} עד ${deadline}`;
+};
@@ -0,0 +1,312 @@
+import type { AllInterventionPlans, Issue, InformationCard, TierOverride, TierPlan, TieredSchools, School, SchoolYearSnapshot, CoverageRules, PlanComponent } from '../types';
+import type { SchoolReportCard } from '../types/schoolAssessmentTypes';
+import { ALL_SCORE_FIELDS, HIERARCHICAL_CATEGORIES, PERFORMANCE_TIER_LABELS } from '../constants';
+import type { PdfBlock, PdfDocument, PdfSection } from './pdfExportService';
+import { getPlanComponentItems } from './monitoringService';
+import { describeObjectiveBinding } from './objectiveService';
+import { getActionSchedules, findScheduleConflicts, describeOwner, describePeriod } from './actionTimelineService';
+import { SEVERITY_LABELS } from './prioritizationService';
+import { averageScore } from './trendService';
+import { findPeerSchools, getWeakMetrics, metricLabel } from './peerMatchingService';
+import { scoreCoverage, isSufficient, summarizeDomainScore } from './dataCoverageService';
+
+const PLAN_LISTS: { key: keyof TierPlan; title: string }[] = [
+    { key: 'mainGoal', title: 'מטרה מרכזית' },
+    { key: 'measurableObjectives', title: 'יעדים מדידים' },
+    { key: 'mainActions', title: 'פעולות מרכזיות' },
+    { key: 'supportFrequency', title: 'תדירות ליווי' },
+    { key: 'successMetrics', title: 'מדדי הצלחה' },
+    { key: 'partners', title: 'שותפים' },
+];
+
+// The information cards mark emphasis with **, which a single-font text line cannot show.
+const stripEmphasis = (text: string): string => text.replace(/\*\*(.*?)\*\*/g, '$1');
+
+const formatDelta = (delta: number): string => `${delta > 0 ? '+' : ''}${delta.toFixed(2)}`;
+
+// Lists with nothing in them are left out, as the print layout does.
+const withoutEmptyLists = (section: PdfSection): PdfSection =>
+    ({ ...section, blocks: section.blocks.filter(block => block.type !== 'list' || block.items.length > 0) });
+
+const planBlocks = (plan: TierPlan): PdfBlock[] => {
+    const blocks: PdfBlock[] = PLAN_LISTS.map(({ key, title }) => ({ type: 'list', title, items: getPlanComponentItems(plan[key] as PlanComponent) }));
+    blocks.splice(2, 0, { type: 'list', title: 'יעדים מקושרים למדדים', items: (plan.objectiveBindings || []).map(describeObjectiveBinding) });
+
+    const rows = getActionSchedules(plan);
+    if (rows.length > 0) {
+        const conflicts = findScheduleConflicts(rows.map(row => row.schedule));
+        blocks.push({
+            type: 'table',
+            columns: [{ title: 'פעולה', width: 4 }, { title: 'אחראי/ת', width: 2 }, { title: 'תקופה', width: 3 }, { title: 'תלויות', width: 3 }],
+            rows: rows.map(({ schedule, isScheduled }) => [
+                schedule.action,
+                describeOwner(schedule),
+                `${describePeriod(schedule)}${isScheduled ? '' : '\nטרם תוזמן'}`,
+                [schedule.dependsOn.length > 0 ? `אחרי: ${schedule.dependsOn.join(', ')}` : '', ...(conflicts[schedule.action] || [])].filter(Boolean).join('\n'),
+            ]),
+        });
+    }
+    return blocks;
+};
+
+export interface PlanPdfOptions {
+    plans: AllInterventionPlans;
+    issues: { id: string; title: string }[];
+    tieredSchools: TieredSchools;
+    cardData?: InformationCard | null;
+    tieringCriteria?: string[];
+    tierOverrideHistory?: TierOverride[];
+    prioritizationFormula?: string[];
+    rankedIssues?: Issue[];
+}
+
+/**
+ * The intervention plan as the print layout shows it: a section per issue with its tiers, then the prioritization,
+ * the tiering and the issue's information card.
+ */
+export const buildPlanPdfDocument = ({
+    plans, issues, tieredSchools, cardData, tieringCriteria = [], tierOverrideHistory = [], prioritizationFormula = [], rankedIssues = [],
+}: PlanPdfOptions): PdfDocument => {
+    const sections: PdfSection[] = issues.filter(issue => plans[issue.id]).map(issue => {
+        const plan = plans[issue.id];
+        const blocks: PdfBlock[] = [
+            { type: 'list', title: 'גורמי שורש שנבחרו', items: plan.selectedRootCauses },
+            { type: 'heading', level: 2, text: 'שכבה 1: אוניברסלית' },
+            { type: 'paragraph', muted: true, text: `${tieredSchools.tier1.length} בתי ספר` },
+            ...planBlocks(plan.tier1),
+            { type: 'heading', level: 2, text: 'שכבה 2: תמיכה ממוקדת' },
+            ...plan.tier2Groups.flatMap((group): PdfBlock[] => [
+                { type: 'heading', level: 3, text: group.name },
+                { type: 'paragraph', muted: true, text: `${group.schoolIds.length} בתי ספר` },
+                ...planBlocks(group.plan),
+            ]),
+            { type: 'heading', level: 2, text: 'שכבה 3: התערבות אינטנסיבית' },
+        ];
+        if (plan.tier3.useGeneralPlan) {
+            blocks.push({ type: 'paragraph', text: `תוכנית כללית לכל ${tieredSchools.tier3.length} בתי הספר:` }, ...planBlocks(plan.tier3.generalPlan));
+        } else {
+            Object.entries(plan.tier3.individualPlans).forEach(([schoolId, individualPlan]) => {
+                const school = tieredSchools.tier3.find(s => s.id === parseInt(schoolId));
+                const override = tieredSchools.overrides[parseInt(schoolId)];
+                blocks.push({ type: 'heading', level: 3, text: school?.name || schoolId });
+                if (override) {
+                    blocks.push({ type: 'paragraph', muted: true, text: `שויך ידנית לשכבה 3 (סיווג מחושב: שכבה ${override.computedTier}). נימוק: ${override.reason}` });
+                }
+                blocks.push(...planBlocks(individualPlan));
+            });
+        }
+        return { title: issue.title, blocks };
+    });
+
+    if (prioritizationFormula.length > 0) {
+        const ranked = issues.map(issue => ({ issue, ranked: rankedIssues.find(r => r.id === issue.id) })).filter(r => r.ranked);
+        const blocks: PdfBlock[] = [{ type: 'list', items: prioritizationFormula }];
+        if (ranked.length > 0) {
+            blocks.push({
+                type: 'table',
+                columns: [{ title: 'סוגיה', width: 4 }, { title: 'דחיפות', width: 1 }, { title: 'חומרה', width: 1 }, { title: 'בתי ספר מושפעים', width: 2 }],
+                rows: ranked.map(({ issue, ranked }) => [issue.title, String(ranked!.urgency), SEVERITY_LABELS[ranked!.severity], `${ranked!.affectedSchools} מתוך ${ranked!.totalSchools}`]),
+            });
+        }
+        sections.push({ title: 'תעדוף הסוגיות', blocks });
+    }
+
+    if (tieringCriteria.length > 0 || tierOverrideHistory.length > 0) {
+        const blocks: PdfBlock[] = [{ type: 'list', title: 'קריטריונים', items: tieringCriteria }];
+        if (tierOverrideHistory.length > 0) {
+            blocks.push(
+                { type: 'heading', level: 2, text: 'שינויי שכבה ידניים' },
+                {
+                    type: 'table',
+                    columns: [{ title: 'תאריך', width: 2 }, { title: 'בית ספר', width: 3 }, { title: 'סיווג מחושב', width: 2 }, { title: 'שינוי', width: 3 }, { title: 'נימוק', width: 4 }],
+                    rows: tierOverrideHistory.map(entry => [
+                        new Date(entry.createdAt).toLocaleDateString('he-IL'),
+                        entry.schoolName,
+                        `שכבה ${entry.computedTier}`,
+                        entry.toTier === null ? `שכבה ${entry.fromTier}, בוטל השיוך הידני` : `משכבה ${entry.fromTier} לשכבה ${entry.toTier}`,
+                        entry.reason,
+                    ]),
+                },
+            );
+        }
+        sections.push({ title: 'סיווג בתי הספר לשכבות', blocks });
+    }
+
+    if (cardData) {
+        sections.push({
+            title: cardData.title,
+            blocks: [
+                { type: 'heading', level: 2, text: 'תחום ליבה (מטרת המנהל/ת)' },
+                { type: 'paragraph', text: cardData.coreDomain },
+                { type: 'heading', level: 2, text: 'עמדת המפקח/ת' },
+                { type: 'paragraph', text: stripEmphasis(cardData.supervisorStance) },
+                { type: 'list', title: 'פרקטיקות מוכחות להצלחת מנהלים', items: cardData.provenPractices.map((practice, i) => `${i + 1}. ${stripEmphasis(practice)}`) },
+                { type: 'list', title: 'תפקיד המפקח/ת בתמיכה במנהל/ת', items: cardData.supervisorSupport.map(stripEmphasis) },
+                { type: 'heading', level: 2, text: 'יישום התמיכה במודל MTSS' },
+                { type: 'list', title: 'רובד 1 (אוניברסלי - לכלל המנהלים)', items: [cardData.mtssTiers.tier1] },
+                { type: 'list', title: 'רובד 2 (ממוקד - למנהל/ת הזקוק/ה לכך)', items: [cardData.mtssTiers.tier2] },
+                { type: 'list', title: 'רובד 3 (אינטנסיבי - למנהל/ת יחיד/ה)', items: [cardData.mtssTiers.tier3] },
+            ],
+        });
+    }
+
+    return {
+        title: 'תוכנית התערבות מערכתית',
+        subtitle: issues.map(issue => issue.title).join(' | '),
+        header: `תוכנית התערבות מערכתית · ${issues.map(issue => issue.title).join(', ')}`,
+        sections: sections.map(withoutEmptyLists),
+    };
+};
+
+export interface ReportCardPdfOptions {
+    report: SchoolReportCard;
+    history?: SchoolYearSnapshot[];
+    currentSchoolYear?: string;
+    peerCandidates?: School[];
+    rules: CoverageRules;
+}
+
+/**
+ * The school's report card as the detailed report shows it: its profile and domain averages, the trends over the
+ * years, peer schools and the full breakdown by domain.
+ */
+export const buildReportCardPdfDocument = ({ report, history = [], currentSchoolYear, peerCandidates = [], rules }: ReportCardPdfOptions): PdfDocument => {
+    const { school } = report;
+    const previous = history.length > 0 ? history[history.length - 1] : null;
+    const overallCoverage = scoreCoverage([school], ALL_SCORE_FIELDS as string[]);
+    const sections: PdfSection[] = [];
+
+    sections.push({
+        title: 'תמונת מצב',
+        blocks: [
+            {
+                type: 'table',
+                columns: [{ title: 'נתון', width: 1 }, { title: 'ערך', width: 3 }],
+                rows: [
+                    ['מנהל/ת', school.principal || '—'],
+                    ['תלמידים', String(school.students ?? '—')],
+                    ['רמת ליווי', school.supportLevel || '—'],
+                    ['כיסוי נתונים', `${overallCoverage.percent.toFixed(0)}% (${overallCoverage.filled} מתוך ${overallCoverage.total} מדדים)${isSufficient(overallCoverage, rules.minSchoolCoverage) ? '' : ' · אין מספיק נתונים'}`],
+                    ['רמת תפקוד', PERFORMANCE_TIER_LABELS[report.performanceTier] || 'לא נקבע'],
+                ],
+            },
+            { type: 'list', title: 'נקודות חוזק מרכזיות', items: report.strengths },
+            { type: 'heading', level: 2, text: 'ציונים לפי תחומי הערכה (ממוצע)' },
+            {
+                type: 'table',
+                columns: [{ title: 'תחום', width: 3 }, { title: 'ממוצע', width: 1 }, { title: 'כיסוי', width: 2 }],
+                rows: Object.entries(report.domainAverages).map(([domain, reportedAvg]) => {
+                    const { coverage, sufficient, imputed, average } = summarizeDomainScore(school, domain, reportedAvg, rules);
+                    return [
+                        domain,
+                        average.toFixed(2),
+                        `${sufficient ? `כיסוי ${coverage.percent.toFixed(0)}%` : `אין מספיק נתונים (${coverage.percent.toFixed(0)}%)`}${imputed > 0 ? ` · ${imputed} משוערים` : ''}`,
+                    ];
+                }),
+            },
+        ],
+    });
+
+    if (history.length > 0) {
+        sections.push({
+            title: 'מגמות לאורך השנים',
+            blocks: [{
+                type: 'table',
+                columns: [
+                    { title: 'תת-תחום', width: 4 },
+                    ...history.map(snapshot => ({ title: snapshot.schoolYear, width: 1 })),
+                    { title: currentSchoolYear || 'נוכחי', width: 1 },
+                    { title: `שינוי מאז ${previous?.schoolYear}`, width: 1.5 },
+                ],
+                rows: HIERARCHICAL_CATEGORIES.flatMap(category => category.subCategories).map(subCat => {
+                    const fields = subCat.metrics.map(m => m.key);
+                    const current = averageScore(school, fields);
+                    const last = previous ? averageScore(previous.school, fields) : null;
+                    return [
+                        subCat.name,
+                        ...history.map(snapshot => averageScore(snapshot.school, fields)?.toFixed(2) ?? '—'),
+                        current !== null ? current.toFixed(2) : '—',
+                        current !== null && last !== null ? formatDelta(current - last) : '—',
+                    ];
+                }),
+            }],
+        });
+    }
+
+    const peerMatches = report.performanceTier >= 2 ? findPeerSchools(school, peerCandidates) : [];
+    if (peerMatches.length > 0) {
+        const weakMetricCount = getWeakMetrics(school).length;
+        sections.push({
+            title: 'בתי ספר עמיתים מומלצים',
+            blocks: [
+                { type: 'paragraph', muted: true, text: 'בתי ספר שקיבלו 3-4 במדדים שבהם בית ספר זה קיבל 2 ומטה, מדורגים לפי כיסוי המדדים, דמיון בפרופיל, מספר תלמידים ורמת ליווי.' },
+                ...peerMatches.flatMap((match): PdfBlock[] => [
+                    { type: 'heading', level: 3, text: match.school.name },
+                    {
+                        type: 'paragraph',
+                        muted: true,
+                        text: [
+                            `חזק ב-${match.strongMetrics.length} מתוך ${weakMetricCount} המדדים החלשים`,
+                            `דמיון בפרופיל ${Math.round(match.profileSimilarity * 100)}%`,
+                            match.school.students ? `${match.school.students} תלמידים` : '',
+                            match.sameSupportLevel ? 'אותה רמת ליווי' : '',
+                        ].filter(Boolean).join(' | '),
+                    },
+                    { type: 'list', items: match.strongMetrics.map(field => `${metricLabel(field)} (כאן ${school[field]}, שם ${match.school[field]})`) },
+                ]),
+            ],
+        });
+    }
+
+    const challengesBySubCategory = report.challenges.reduce((acc, challenge) => {
+        (acc[challenge.subCategory] = acc[challenge.subCategory] || []).push(challenge.text);
+        return acc;
+    }, {} as Record<string, string[]>);
+
+    sections.push({
+        title: 'פירוט מלא לפי תחומי הערכה',
+        blocks: HIERARCHICAL_CATEGORIES.flatMap((category): PdfBlock[] => [
+            { type: 'heading', level: 2, text: category.name },
+            ...category.subCategories.flatMap((subCat): PdfBlock[] => {
+                const subCatScores = subCat.metrics.map(m => parseInt(school[m.key] as string, 10)).filter(s => !isNaN(s) && s > 0);
+                const subCatAvg = subCatScores.length > 0 ? subCatScores.reduce((a, b) => a + b, 0) / subCatScores.length : 0;
+                const previousAvg = previous ? averageScore(previous.school, subCat.metrics.map(m => m.key)) : null;
+                const sufficient = isSufficient(scoreCoverage([school], subCat.metrics.map(m => m.key)), rules.minSchoolCoverage);
+                const challenges = challengesBySubCategory[subCat.name] || [];
+                const changedMetrics = previous ? subCat.metrics.filter(m => {
+                    const before = parseInt(previous.school[m.key] as string, 10);
+                    const now = parseInt(school[m.key] as string, 10);
+                    return before > 0 && now > 0 && before !== now;
+                }) : [];
+
+                return [
+                    { type: 'heading', level: 3, text: `${subCat.name}: ${subCatAvg.toFixed(1)}` },
+                    {
+                        type: 'paragraph',
+                        muted: true,
+                        text: [
+                            `${subCatScores.length} מתוך ${subCat.metrics.length} מדדים מולאו`,
+                            sufficient ? '' : 'אין מספיק נתונים',
+                            previousAvg !== null && subCatScores.length > 0 ? `שינוי מאז ${previous?.schoolYear}: ${formatDelta(subCatAvg - previousAvg)}` : '',
+                        ].filter(Boolean).join(' · '),
+                    },
+                    challenges.length > 0
+                        ? { type: 'list', title: 'אתגרים שזוהו:', items: challenges }
+                        : { type: 'paragraph', muted: true, text: 'לא זוהו אתגרים בתחום זה' },
+                    {
+                        type: 'list',
+                        title: `מדדים שהשתנו מאז ${previous?.schoolYear}`,
+                        items: changedMetrics.map(metric => `${metric.name}: מ-${parseInt(previous!.school[metric.key] as string, 10)} ל-${parseInt(school[metric.key] as string, 10)}`),
+                    },
+                ];
+            }),
+        ]),
+    });
+
+    return {
+        title: school.name,
+        subtitle: 'דוח אבחון בית ספרי',
+        header: `דוח אבחון בית ספרי · ${school.name}`,
+        sections: sections.map(withoutEmptyLists),
+    };
+};
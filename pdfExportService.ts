@@ -0,0 +1,442 @@
+import { HEBREW_FONTS } from '../constants';
+
+/** A piece of a section's content, laid out from the right. */
+export type PdfBlock =
+    | { type: 'heading'; text: string; level: 2 | 3 }
+    | { type: 'paragraph'; text: string; muted?: boolean }
+    | { type: 'list'; title?: string; items: string[] }
+    | { type: 'table'; columns: { title: string; width: number }[]; rows: string[][] }
+    | { type: 'page-break' };
+
+/** Starts on a new page and is listed in the table of contents, with its level 2 headings. */
+export interface PdfSection {
+    title: string;
+    blocks: PdfBlock[];
+}
+
+export interface PdfDocument {
+    title: string;
+    subtitle?: string;
+    /** Repeated at the top of every page after the title page. */
+    header: string;
+    sections: PdfSection[];
+}
+
+const FONT_NAME = 'Assistant';
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 18;
+const RIGHT = PAGE_WIDTH - MARGIN;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const CONTENT_TOP = 24;
+const CONTENT_BOTTOM = PAGE_HEIGHT - 20;
+const PT_TO_MM = 0.3528;
+const TOC_ENTRIES_PER_PAGE = 30;
+const CELL_PADDING = 1.5;
+const BULLET_INDENT = 5;
+
+const SIZES = { title: 26, section: 18, heading2: 14, heading3: 12, body: 10.5, small: 8.5 };
+
+type Rgb = [number, number, number];
+const COLORS: { [name: string]: Rgb } = {
+    text: [31, 41, 55],
+    muted: [107, 114, 128],
+    accent: [30, 64, 175],
+    rule: [209, 213, 219],
+    fill: [243, 244, 246],
+};
+
+// --- Right-to-left text ---
+
+const HEBREW = /[\u0590-\u05FF\uFB1D-\uFB4F]/;
+const LATIN_OR_DIGIT = /[A-Za-z0-9\u00C0-\u024F]/;
+const DIGIT = /[0-9]/;
+/** Signs that belong to the number next to them: 75%, ₪120, +0.3. */
+const NUMBER_SIGN = /[%₪$€#+°]/;
+/** Separators inside a number: 2.5, 1,200, 10:30, 2026-09-01, 2/3. */
+const NUMBER_SEPARATOR = /[.,:/\-–]/;
+const MIRRORED: { [char: string]: string } = { '(': ')', ')': '(', '[': ']', ']': '[', '{': '}', '}': '{', '<': '>', '>': '<' };
+
+/**
+ * Reorders a line of Hebrew text for drawing from left to right: a right-to-left paragraph in which runs of Latin
+ * text and numbers keep their order and brackets are mirrored. A simplified form of the Unicode bidi algorithm,
+ * enough for the app's texts, which have no explicit direction marks.
+ */
+export const toVisualOrder = (line: string): string => {
+    const chars = Array.from(line);
+    const isDigit = (index: number) => index >= 0 && index < chars.length && DIGIT.test(chars[index]);
+
+    const strong: ('R' | 'L' | null)[] = chars.map((char, index) => {
+        if (HEBREW.test(char)) return 'R';
+        if (LATIN_OR_DIGIT.test(char)) return 'L';
+        if (NUMBER_SIGN.test(char) && (isDigit(index - 1) || isDigit(index + 1))) return 'L';
+        if (NUMBER_SEPARATOR.test(char) && isDigit(index - 1) && isDigit(index + 1)) return 'L';
+        return null;
+    });
+
+    // Spaces and punctuation take the direction of the text around them only between two left-to-right runs.
+    const previous: ('R' | 'L' | null)[] = [];
+    strong.forEach((dir, index) => { previous[index] = dir || (index > 0 ? previous[index - 1] : null); });
+    const next: ('R' | 'L' | null)[] = [];
+    for (let index = strong.length - 1; index >= 0; index--) {
+        next[index] = strong[index] || (index < strong.length - 1 ? next[index + 1] : null);
+    }
+    const resolved = strong.map((dir, index) => dir || (previous[index] === 'L' && next[index] === 'L' ? 'L' : 'R'));
+
+    const runs: { dir: 'R' | 'L'; chars: string[] }[] = [];
+    chars.forEach((char, index) => {
+        const last = runs[runs.length - 1];
+        if (last && last.dir === resolved[index]) last.chars.push(char);
+        else runs.push({ dir: resolved[index], chars: [char] });
+    });
+
+    return runs
+        .reverse()
+        .map(run => run.dir === 'L' ? run.chars.join('') : run.chars.reverse().map(char => MIRRORED[char] || char).join(''))
+        .join('');
+};
+
+// --- Embedded font ---
+
+const decodeBase64 = (data: string): Uint8Array | null => {
+    try {
+        const binary = atob(data);
+        return Uint8Array.from(binary, char => char.charCodeAt(0));
+    } catch (error) {
+        return null;
+    }
+};
+
+/**
+ * Whether the base64 data is a whole TrueType font: every table its directory lists lies within the data,
+ * the character map and glyphs among them. A truncated font would make jsPDF write an unreadable file.
+ */
+export const isCompleteTrueTypeFont = (base64: string): boolean => {
+    const bytes = decodeBase64(base64);
+    if (!bytes || bytes.length < 12) return false;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const version = view.getUint32(0);
+    if (version !== 0x00010000 && version !== 0x74727565) return false;
+
+    const tableCount = view.getUint16(4);
+    if (12 + tableCount * 16 > bytes.length) return false;
+    const tags = new Set<string>();
+    for (let i = 0; i < tableCount; i++) {
+        const entry = 12 + i * 16;
+        const tag = String.fromCharCode(bytes[entry], bytes[entry + 1], bytes[entry + 2], bytes[entry + 3]);
+        const offset = view.getUint32(entry + 8);
+        const length = view.getUint32(entry + 12);
+        if (offset + length > bytes.length) return false;
+        tags.add(tag);
+    }
+    return ['cmap', 'glyf', 'head', 'hmtx', 'loca'].every(tag => tags.has(tag));
+};
+
+const findTable = (bytes: Uint8Array, view: DataView, name: string): number | null => {
+    const tableCount = view.getUint16(4);
+    for (let i = 0; i < tableCount; i++) {
+        const entry = 12 + i * 16;
+        if (String.fromCharCode(bytes[entry], bytes[entry + 1], bytes[entry + 2], bytes[entry + 3]) === name) return view.getUint32(entry + 8);
+    }
+    return null;
+};
+
+/**
+ * The characters the font has glyphs for, read from its Unicode character maps (formats 4 and 12).
+ */
+export const getFontCharacters = (base64: string): Set<number> => {
+    const characters = new Set<number>();
+    const bytes = decodeBase64(base64);
+    if (!bytes || !isCompleteTrueTypeFont(base64)) return characters;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const cmap = findTable(bytes, view, 'cmap');
+    if (cmap === null) return characters;
+
+    for (let i = 0; i < view.getUint16(cmap + 2); i++) {
+        const record = cmap + 4 + i * 8;
+        const platform = view.getUint16(record);
+        const encoding = view.getUint16(record + 2);
+        if (platform !== 0 && !(platform === 3 && (encoding === 1 || encoding === 10))) continue;
+        const table = cmap + view.getUint32(record + 4);
+        const format = view.getUint16(table);
+
+        if (format === 4) {
+            const segCountX2 = view.getUint16(table + 6);
+            const ends = table + 14;
+            const starts = ends + segCountX2 + 2;
+            const deltas = starts + segCountX2;
+            const rangeOffsets = deltas + segCountX2;
+            for (let seg = 0; seg < segCountX2; seg += 2) {
+                const start = view.getUint16(starts + seg);
+                const end = view.getUint16(ends + seg);
+                const delta = view.getUint16(deltas + seg);
+                const rangeOffset = view.getUint16(rangeOffsets + seg);
+                for (let code = start; code <= end && code !== 0xFFFF; code++) {
+                    const glyph = rangeOffset === 0
+                        ? (code + delta) & 0xFFFF
+                        : view.getUint16(rangeOffsets + seg + rangeOffset + 2 * (code - start));
+                    if (glyph !== 0) characters.add(code);
+                }
+            }
+        } else if (format === 12) {
+            const groups = view.getUint32(table + 12);
+            for (let g = 0; g < groups; g++) {
+                const group = table + 16 + g * 12;
+                for (let code = view.getUint32(group); code <= view.getUint32(group + 4); code++) characters.add(code);
+            }
+        }
+    }
+    return characters;
+};
+
+/** Drawn in place of a character the font has no glyph for, which would otherwise print as an empty box or nothing. */
+const MISSING_GLYPH = '?';
+
+/**
+ * Text PDFs need jsPDF, loaded from the CDN, and a complete embedded Hebrew font.
+ */
+export const canRenderPdfDocuments = (): boolean =>
+    typeof window.jspdf !== 'undefined'
+    && isCompleteTrueTypeFont(HEBREW_FONTS.REGULAR.data)
+    && isCompleteTrueTypeFont(HEBREW_FONTS.BOLD.data);
+
+const registerHebrewFont = (pdf: any) => {
+    pdf.addFileToVFS(HEBREW_FONTS.REGULAR.fileName, HEBREW_FONTS.REGULAR.data);
+    pdf.addFont(HEBREW_FONTS.REGULAR.fileName, FONT_NAME, 'normal');
+    pdf.addFileToVFS(HEBREW_FONTS.BOLD.fileName, HEBREW_FONTS.BOLD.data);
+    pdf.addFont(HEBREW_FONTS.BOLD.fileName, FONT_NAME, 'bold');
+};
+
+// --- Layout ---
+
+const lineHeight = (size: number): number => size * PT_TO_MM * 1.4;
+
+/** Breaks the text into lines no wider than the width, at spaces where possible; explicit line breaks are kept. */
+const wrapText = (pdf: any, text: string, width: number): string[] =>
+    text.split('\n').flatMap(paragraph => {
+        const lines: string[] = [];
+        let line = '';
+        paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+            const candidate = line ? `${line} ${word}` : word;
+            if (pdf.getTextWidth(candidate) <= width) {
+                line = candidate;
+                return;
+            }
+            if (line) lines.push(line);
+            line = '';
+            // A word wider than the line is cut where it overflows.
+            for (const char of Array.from(word)) {
+                if (line && pdf.getTextWidth(line + char) > width) {
+                    lines.push(line);
+                    line = '';
+                }
+                line += char;
+            }
+        });
+        lines.push(line);
+        return lines;
+    });
+
+/**
+ * Lays the document out as text in A4 pages: a title page, a table of contents with links, each section from a
+ * new page, headings kept with what follows them, table headers repeated across pages, and a running header and
+ * page numbers. Returns the jsPDF document.
+ */
+export const renderPdfDocument = (document: PdfDocument): any => {
+    const { jsPDF } = window.jspdf;
+    const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4', compress: true });
+    registerHebrewFont(pdf);
+    const regularCharacters = getFontCharacters(HEBREW_FONTS.REGULAR.data);
+    const boldCharacters = getFontCharacters(HEBREW_FONTS.BOLD.data);
+    let y = CONTENT_TOP;
+
+    const setText = (size: number, style: 'normal' | 'bold' = 'normal', color: Rgb = COLORS.text) => {
+        pdf.setFont(FONT_NAME, style);
+        pdf.setFontSize(size);
+        pdf.setTextColor(...color);
+    };
+    // Every character drawn is checked against both weights of the font.
+    const coveredText = (text: string) => Array.from(text)
+        .map(char => regularCharacters.has(char.codePointAt(0)!) && boldCharacters.has(char.codePointAt(0)!) ? char : MISSING_GLYPH)
+        .join('');
+    // The text is reordered here, so jsPDF's own bidi pass is told it is already visual.
+    const drawText = (text: string, x: number, top: number, size: number, align: 'right' | 'center' | 'left' = 'right') =>
+        pdf.text(toVisualOrder(coveredText(text)), x, top + size * PT_TO_MM, { align, isInputVisual: true, isOutputVisual: true });
+    const newPage = () => {
+        pdf.addPage();
+        y = CONTENT_TOP;
+    };
+    const ensureSpace = (height: number) => {
+        if (y + height > CONTENT_BOTTOM) newPage();
+    };
+    const writeLines = (text: string, size: number, indent = 0) => {
+        wrapText(pdf, text, CONTENT_WIDTH - indent).forEach(line => {
+            ensureSpace(lineHeight(size));
+            drawText(line, RIGHT - indent, y, size);
+            y += lineHeight(size);
+        });
+    };
+
+    const toc: { title: string; level: 1 | 2; page: number }[] = [];
+
+    const writeHeading = (text: string, level: 2 | 3) => {
+        const size = level === 2 ? SIZES.heading2 : SIZES.heading3;
+        y += level === 2 ? 4 : 2;
+        // A heading is not left alone at the bottom of a page.
+        ensureSpace(lineHeight(size) + 2 * lineHeight(SIZES.body));
+        if (level === 2) toc.push({ title: text, level: 2, page: pdf.getNumberOfPages() });
+        setText(size, 'bold', level === 2 ? COLORS.accent : COLORS.text);
+        writeLines(text, size);
+        y += 1;
+    };
+
+    const writeList = (title: string | undefined, items: string[]) => {
+        if (items.length === 0) return;
+        y += 1;
+        if (title) {
+            ensureSpace(2 * lineHeight(SIZES.body));
+            setText(SIZES.body, 'bold');
+            writeLines(title, SIZES.body);
+        }
+        setText(SIZES.body);
+        items.forEach(item => {
+            wrapText(pdf, item, CONTENT_WIDTH - BULLET_INDENT).forEach((line, index) => {
+                ensureSpace(lineHeight(SIZES.body));
+                if (index === 0) drawText('•', RIGHT, y, SIZES.body);
+                drawText(line, RIGHT - BULLET_INDENT, y, SIZES.body);
+                y += lineHeight(SIZES.body);
+            });
+        });
+        y += 1;
+    };
+
+    const writeTable = (columns: { title: string; width: number }[], rows: string[][]) => {
+        const totalWidth = columns.reduce((sum, column) => sum + column.width, 0);
+        const widths = columns.map(column => (column.width / totalWidth) * CONTENT_WIDTH);
+        const lh = lineHeight(SIZES.small);
+
+        const layoutRow = (cells: string[], style: 'normal' | 'bold') => {
+            setText(SIZES.small, style);
+            const lines = widths.map((width, index) => wrapText(pdf, cells[index] ?? '', width - 2 * CELL_PADDING));
+            return { lines, height: Math.max(...lines.map(l => l.length)) * lh + 2 * CELL_PADDING };
+        };
+        const drawRow = (row: { lines: string[][]; height: number }, style: 'normal' | 'bold') => {
+            let right = RIGHT;
+            widths.forEach((width, index) => {
+                if (style === 'bold') {
+                    pdf.setFillColor(...COLORS.fill);
+                    pdf.rect(right - width, y, width, row.height, 'F');
+                }
+                pdf.setDrawColor(...COLORS.rule);
+                pdf.rect(right - width, y, width, row.height, 'S');
+                setText(SIZES.small, style);
+                row.lines[index].forEach((line, lineIndex) => drawText(line, right - CELL_PADDING, y + CELL_PADDING + lineIndex * lh, SIZES.small));
+                right -= width;
+            });
+            y += row.height;
+        };
+
+        const header = layoutRow(columns.map(column => column.title), 'bold');
+        const body = rows.map(cells => layoutRow(cells, 'normal'));
+        y += 1;
+        ensureSpace(header.height + (body[0]?.height ?? 0));
+        drawRow(header, 'bold');
+        body.forEach(row => {
+            if (y + row.height > CONTENT_BOTTOM) {
+                newPage();
+                drawRow(header, 'bold');
+            }
+            drawRow(row, 'normal');
+        });
+        y += 3;
+    };
+
+    // Title page
+    setText(SIZES.title, 'bold', COLORS.accent);
+    y = 100;
+    wrapText(pdf, document.title, CONTENT_WIDTH).forEach(line => {
+        drawText(line, PAGE_WIDTH / 2, y, SIZES.title, 'center');
+        y += lineHeight(SIZES.title);
+    });
+    if (document.subtitle) {
+        setText(SIZES.heading2, 'normal', COLORS.muted);
+        y += 4;
+        drawText(document.subtitle, PAGE_WIDTH / 2, y, SIZES.heading2, 'center');
+    }
+    const generatedOn = new Date().toLocaleDateString('he-IL');
+    setText(SIZES.body, 'normal', COLORS.muted);
+    drawText(`הופק ב-${generatedOn}`, PAGE_WIDTH / 2, PAGE_HEIGHT - 40, SIZES.body, 'center');
+
+    // The table of contents is filled in once the sections' pages are known.
+    const tocEntryCount = document.sections.length
+        + document.sections.reduce((count, section) => count + section.blocks.filter(b => b.type === 'heading' && b.level === 2).length, 0);
+    const tocPageCount = Math.max(1, Math.ceil(tocEntryCount / TOC_ENTRIES_PER_PAGE));
+    for (let i = 0; i < tocPageCount; i++) pdf.addPage();
+
+    document.sections.forEach(section => {
+        newPage();
+        toc.push({ title: section.title, level: 1, page: pdf.getNumberOfPages() });
+        setText(SIZES.section, 'bold', COLORS.accent);
+        writeLines(section.title, SIZES.section);
+        pdf.setDrawColor(...COLORS.accent);
+        pdf.line(MARGIN, y + 1, RIGHT, y + 1);
+        y += 5;
+
+        section.blocks.forEach(block => {
+            switch (block.type) {
+                case 'heading':
+                    writeHeading(block.text, block.level);
+                    break;
+                case 'paragraph':
+                    setText(block.muted ? SIZES.small : SIZES.body, 'normal', block.muted ? COLORS.muted : COLORS.text);
+                    writeLines(block.text, block.muted ? SIZES.small : SIZES.body);
+                    y += 1;
+                    break;
+                case 'list':
+                    writeList(block.title, block.items);
+                    break;
+                case 'table':
+                    writeTable(block.columns, block.rows);
+                    break;
+                case 'page-break':
+                    newPage();
+                    break;
+            }
+        });
+    });
+
+    toc.forEach((entry, index) => {
+        const page = 2 + Math.floor(index / TOC_ENTRIES_PER_PAGE);
+        pdf.setPage(page);
+        let top = CONTENT_TOP;
+        if (index % TOC_ENTRIES_PER_PAGE === 0) {
+            setText(SIZES.section, 'bold', COLORS.accent);
+            drawText('תוכן העניינים', RIGHT, top, SIZES.section);
+        }
+        top += lineHeight(SIZES.section) + 4 + (index % TOC_ENTRIES_PER_PAGE) * lineHeight(SIZES.body) * 1.2;
+        const indent = entry.level === 1 ? 0 : 6;
+        setText(SIZES.body, entry.level === 1 ? 'bold' : 'normal');
+        const [title] = wrapText(pdf, entry.title, CONTENT_WIDTH - indent - 15);
+        drawText(title === entry.title ? title : `${title}…`, RIGHT - indent, top, SIZES.body);
+        drawText(String(entry.page), MARGIN, top, SIZES.body, 'left');
+        pdf.link(MARGIN, top, CONTENT_WIDTH, lineHeight(SIZES.body), { pageNumber: entry.page });
+        if (entry.level === 1) pdf.outline?.add(null, entry.title, { pageNumber: entry.page });
+    });
+
+    const pageCount = pdf.getNumberOfPages();
+    for (let page = 2; page <= pageCount; page++) {
+        pdf.setPage(page);
+        setText(SIZES.small, 'normal', COLORS.muted);
+        drawText(document.header, RIGHT, 10, SIZES.small);
+        drawText(generatedOn, MARGIN, 10, SIZES.small, 'left');
+        pdf.setDrawColor(...COLORS.rule);
+        pdf.line(MARGIN, 15, RIGHT, 15);
+        drawText(`עמוד ${page} מתוך ${pageCount}`, PAGE_WIDTH / 2, PAGE_HEIGHT - 12, SIZES.small, 'center');
+    }
+
+    return pdf;
+};
+
+export const downloadPdfDocument = (document: PdfDocument, fileName: string): void => {
+    renderPdfDocument(document).save(`${fileName}.pdf`);
+};
@@ -0,0 +1,89 @@
+import type { School } from '../types';
+import { ALL_SCORE_FIELDS, FIELD_HEBREW_MAP } from '../constants';
+import { parseStudentCount } from './analyticsViewService';
+
+const MAX_PEER_MATCHES = 5;
+
+// Ranking weights: how much of the weakness the peer covers matters most, then how alike the schools are.
+const COVERAGE_WEIGHT = 0.5;
+const PROFILE_WEIGHT = 0.25;
+const STUDENTS_WEIGHT = 0.15;
+const SUPPORT_LEVEL_WEIGHT = 0.1;
+
+export interface PeerMatch {
+    school: School;
+    /** The school's weak metrics (scored 1-2) on which the peer scored 3-4. */
+    strongMetrics: string[];
+    /** Share of the school's weak metrics covered by the peer, 0-1. */
+    coverage: number;
+    /** Similarity of the scores on all other metrics, 0-1. */
+    profileSimilarity: number;
+    /** Similarity of the student counts, 0-1; 0.5 when either count is unknown. */
+    studentsSimilarity: number;
+    sameSupportLevel: boolean;
+    score: number;
+}
+
+const scoreOf = (school: School, field: string): number => {
+    const score = parseInt(school[field] as string, 10);
+    return !isNaN(score) && score > 0 ? score : 0;
+};
+
+export const getWeakMetrics = (school: School): string[] =>
+    (ALL_SCORE_FIELDS as string[]).filter(field => {
+        const score = scoreOf(school, field);
+        return score > 0 && score <= 2;
+    });
+
+const profileSimilarity = (a: School, b: School, excluded: Set<string>): number => {
+    const differences = (ALL_SCORE_FIELDS as string[])
+        .filter(field => !excluded.has(field) && scoreOf(a, field) > 0 && scoreOf(b, field) > 0)
+        .map(field => Math.abs(scoreOf(a, field) - scoreOf(b, field)));
+    if (differences.length === 0) return 0;
+    // Scores run from 1 to 4, so the largest possible difference is 3.
+    return 1 - differences.reduce((sum, d) => sum + d, 0) / differences.length / 3;
+};
+
+/**
+ * Finds schools that are strong (3-4) where the given school is weak (1-2), for peer visits.
+ * Peers are ranked by how many of the weak metrics they cover, then by profile, size and support level.
+ */
+export const findPeerSchools = (school: School, candidates: School[], limit = MAX_PEER_MATCHES): PeerMatch[] => {
+    const weakMetrics = getWeakMetrics(school);
+    if (weakMetrics.length === 0) return [];
+    const weakSet = new Set(weakMetrics);
+    const students = parseStudentCount(school.students);
+
+    return candidates
+        .filter(candidate => candidate.id !== school.id)
+        .map(candidate => {
+            const strongMetrics = weakMetrics.filter(field => scoreOf(candidate, field) >= 3);
+            const coverage = strongMetrics.length / weakMetrics.length;
+            const candidateStudents = parseStudentCount(candidate.students);
+            const studentsSimilarity = students !== null && candidateStudents !== null
+                ? Math.min(students, candidateStudents) / Math.max(students, candidateStudents)
+                : 0.5;
+            const similarity = profileSimilarity(school, candidate, weakSet);
+            const sameSupportLevel = !!school.supportLevel && school.supportLevel === candidate.supportLevel;
+            return {
+                school: candidate,
+                strongMetrics,
+                coverage,
+                profileSimilarity: similarity,
+                studentsSimilarity,
+                sameSupportLevel,
+                score: COVERAGE_WEIGHT * coverage + PROFILE_WEIGHT * similarity + STUDENTS_WEIGHT * studentsSimilarity + SUPPORT_LEVEL_WEIGHT * (sameSupportLevel ? 1 : 0),
+            };
+        })
+        .filter(match => match.strongMetrics.length > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+};
+
+export const metricLabel = (field: string): string => FIELD_HEBREW_MAP[field]?.split(' - ')[1] || FIELD_HEBREW_MAP[field] || field;
+
+/**
+ * Text for the "partners" field of a plan, naming the peer school and what to learn there.
+ */
+export const describePeerPartner = (match: PeerMatch): string =>
+    `ביקורי עמיתים בבית הספר ${match.school.name} (חזק ב-${match.strongMetrics.length} מהמדדים החלשים: ${match.strongMetrics.slice(0, 3).map(metricLabel).join(', ')}${match.strongMetrics.length > 3 ? ' ועוד' : ''})`;
@@ -0,0 +1,88 @@
+import type { Issue, PrioritizationSettings } from '../types';
+
+const STORAGE_KEY = 'mtss.prioritizationSettings';
+
+export const DEFAULT_PRIORITIZATION_SETTINGS: PrioritizationSettings = {
+    scopeWeight: 0.6,
+    severityWeight: 0.4,
+    criticalThreshold: 0.4,
+    highThreshold: 0.25,
+    mediumThreshold: 0.1,
+    lowScoreMax: 2,
+};
+
+export const SEVERITY_LABELS: { [severity in Issue['severity']]: string } = {
+    critical: 'קריטי',
+    high: 'גבוה',
+    medium: 'בינוני',
+    low: 'נמוך',
+};
+
+/**
+ * Combines the scope (share of schools affected, 0-1) and severity (share of low scores, 0-1) into an urgency score.
+ * The weights are normalized, so only their ratio matters.
+ */
+export const computeUrgencyScore = (scopeScore: number, severityScore: number, settings: PrioritizationSettings): number => {
+    const totalWeight = settings.scopeWeight + settings.severityWeight;
+    if (totalWeight <= 0) return 0;
+    return (scopeScore * settings.scopeWeight + severityScore * settings.severityWeight) / totalWeight;
+};
+
+export const classifySeverity = (urgencyScore: number, settings: PrioritizationSettings): Issue['severity'] => {
+    if (urgencyScore > settings.criticalThreshold) return 'critical';
+    if (urgencyScore > settings.highThreshold) return 'high';
+    if (urgencyScore > settings.mediumThreshold) return 'medium';
+    return 'low';
+};
+
+export const isLowScore = (score: number, settings: PrioritizationSettings): boolean => score > 0 && score <= settings.lowScoreMax;
+
+/**
+ * Returns the problems that make the settings unusable, in Hebrew; empty when they are valid.
+ */
+export const validatePrioritizationSettings = (settings: PrioritizationSettings): string[] => {
+    const errors: string[] = [];
+    if (settings.scopeWeight < 0 || settings.severityWeight < 0) errors.push('המשקלות אינם יכולים להיות שליליים.');
+    if (settings.scopeWeight + settings.severityWeight <= 0) errors.push('לפחות אחד המשקלות חייב להיות גדול מ-0.');
+    if (!(settings.criticalThreshold > settings.highThreshold && settings.highThreshold > settings.mediumThreshold)) {
+        errors.push('ספי החומרה חייבים לרדת: קריטי > גבוה > בינוני.');
+    }
+    if (settings.mediumThreshold < 0 || settings.criticalThreshold > 1) errors.push('ספי החומרה חייבים להיות בין 0 ל-1.');
+    if (settings.lowScoreMax < 1 || settings.lowScoreMax > 3) errors.push('ציון "נמוך" חייב להיות בין 1 ל-3.');
+    return errors;
+};
+
+const formatNumber = (value: number): string => String(Math.round(value * 100) / 100);
+
+/**
+ * Writes the formula as text, to be shown wherever the ranking is presented or exported.
+ */
+export const describePrioritization = (settings: PrioritizationSettings): string[] => {
+    const totalWeight = settings.scopeWeight + settings.severityWeight || 1;
+    const scopeShare = formatNumber(settings.scopeWeight / totalWeight);
+    const severityShare = formatNumber(settings.severityWeight / totalWeight);
+    return [
+        `ציון נמוך: ${settings.lowScoreMax} ומטה.`,
+        `היקף = שיעור בתי הספר (או התלמידים, בשקלול לפי תלמידים) שקיבלו ציון נמוך לפחות באחד ממדדי הסוגיה; חומרה = שיעור הציונים הנמוכים מכלל ציוני הסוגיה.`,
+        `דחיפות = ${scopeShare} × היקף + ${severityShare} × חומרה (מוצגת כאחוז).`,
+        `רמת חומרה: קריטי מעל ${formatNumber(settings.criticalThreshold)}, גבוה מעל ${formatNumber(settings.highThreshold)}, בינוני מעל ${formatNumber(settings.mediumThreshold)}, אחרת נמוך.`,
+    ];
+};
+
+export const isDefaultPrioritization = (settings: PrioritizationSettings): boolean =>
+    (Object.keys(DEFAULT_PRIORITIZATION_SETTINGS) as (keyof PrioritizationSettings)[])
+        .every(key => settings[key] === DEFAULT_PRIORITIZATION_SETTINGS[key]);
+
+export const loadPrioritizationSettings = (): PrioritizationSettings => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return stored ? { ...DEFAULT_PRIORITIZATION_SETTINGS, ...JSON.parse(stored) } : DEFAULT_PRIORITIZATION_SETTINGS;
+    } catch (error) {
+        console.error("Failed to read prioritization settings:", error);
+        return DEFAULT_PRIORITIZATION_SETTINGS;
+    }
+};
+
+export const savePrioritizationSettings = (settings: PrioritizationSettings): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
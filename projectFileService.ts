@@ -0,0 +1,141 @@
+import type { MtssProjectFile, SessionMetadata, WizardSessionState, School } from '../types';
+import { ALL_SCORE_FIELDS } from '../constants';
+import { DEFAULT_TIERING_RULE_SET } from './tieringRulesService';
+import { DEFAULT_PRIORITIZATION_SETTINGS } from './prioritizationService';
+
+export const PROJECT_FILE_EXTENSION = 'mtss';
+export const CURRENT_PROJECT_SCHEMA_VERSION = 7;
+
+type ProjectMigration = (project: any) => any;
+
+/**
+ * Upgrades a project from version N to N+1, keyed by N.
+ * Whenever the shape of the wizard state changes, bump CURRENT_PROJECT_SCHEMA_VERSION
+ * and register a migration here so files saved by older versions keep opening.
+ */
+const MIGRATIONS: { [fromVersion: number]: ProjectMigration } = {
+    // v2: earlier school years are stored alongside the current dataset.
+    1: project => ({ ...project, state: { ...project.state, historicalDatasets: [] } }),
+    // v3: tiers come from a configurable rule set; older projects keep the automatic classification.
+    2: project => ({ ...project, state: { ...project.state, tieringRuleSet: DEFAULT_TIERING_RULE_SET } }),
+    // v4: manual tier changes are kept as an audit trail.
+    3: project => ({ ...project, state: { ...project.state, tierOverrides: [] } }),
+    // v5: the issue ranking formula is editable; older projects were ranked with the default one.
+    4: project => ({ ...project, state: { ...project.state, prioritizationSettings: DEFAULT_PRIORITIZATION_SETTINGS } }),
+    // v6: success metrics are tracked after the plan is delivered.
+    5: project => ({ ...project, state: { ...project.state, monitoringIndicators: [] } }),
+    // v7: a follow-up dataset measures the plan's objectives.
+    6: project => ({ ...project, state: { ...project.state, followUpDataset: null } }),
+};
+
+const migrateProject = (project: any): MtssProjectFile => {
+    let migrated = project;
+    let version: number = migrated.schemaVersion;
+    while (version < CURRENT_PROJECT_SCHEMA_VERSION) {
+        const migration = MIGRATIONS[version];
+        if (!migration) {
+            throw new Error(`לא ניתן לשדרג קובץ פרויקט מגרסה ${version}.`);
+        }
+        migrated = { ...migration(migrated), schemaVersion: version + 1 };
+        version++;
+    }
+    return migrated as MtssProjectFile;
+};
+
+// Score fields added to the catalog after a file was saved are filled in as empty.
+const normalizeSchool = <T extends School>(school: T): T => {
+    const normalized: any = { ...school };
+    ['name', 'institutionCode', 'principal', 'students', 'supportLevel', 'notes', ...ALL_SCORE_FIELDS].forEach(field => {
+        if (normalized[field] === undefined || normalized[field] === null) normalized[field] = '';
+    });
+    return normalized;
+};
+
+const normalizeState = (state: WizardSessionState, tierAssignments: MtssProjectFile['tierAssignments']): WizardSessionState => {
+    const analysisData = state.analysisData && {
+        ...state.analysisData,
+        schools: state.analysisData.schools.map(school => ({
+            ...normalizeSchool(school),
+            tier: tierAssignments[school.id] || school.tier,
+        })),
+    };
+    return {
+        currentStep: state.currentStep || 'data-mapping',
+        schoolsData: (state.schoolsData || []).map(normalizeSchool),
+        analysisData: analysisData || null,
+        selectedFocusAreas: state.selectedFocusAreas || [],
+        selectedIssues: state.selectedIssues || [],
+        interventionPlans: state.interventionPlans || {},
+        historicalDatasets: (state.historicalDatasets || []).map(dataset => ({ ...dataset, schools: dataset.schools.map(normalizeSchool) })),
+        tieringRuleSet: state.tieringRuleSet || DEFAULT_TIERING_RULE_SET,
+        tierOverrides: state.tierOverrides || [],
+        prioritizationSettings: { ...DEFAULT_PRIORITIZATION_SETTINGS, ...state.prioritizationSettings },
+        monitoringIndicators: state.monitoringIndicators || [],
+        followUpDataset: state.followUpDataset
+            ? { ...state.followUpDataset, schools: state.followUpDataset.schools.map(normalizeSchool) }
+            : null,
+    };
+};
+
+export const createProjectFile = (metadata: SessionMetadata, state: WizardSessionState): MtssProjectFile => {
+    const tierAssignments: MtssProjectFile['tierAssignments'] = {};
+    state.analysisData?.schools.forEach(school => {
+        tierAssignments[school.id] = school.tier;
+    });
+    return {
+        format: 'mtss-project',
+        schemaVersion: CURRENT_PROJECT_SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        metadata,
+        state,
+        tierAssignments,
+    };
+};
+
+export const downloadProjectFile = (metadata: SessionMetadata, state: WizardSessionState): void => {
+    const project = createProjectFile(metadata, state);
+    const blob = new Blob([JSON.stringify(project, null, 2)], { type: 'application/json;charset=utf-8;' });
+    const baseName = [metadata.name, metadata.district, metadata.schoolYear].filter(Boolean).join('_') || 'פרויקט-MTSS';
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${baseName.replace(/[\\/:*?"<>|]/g, '-')}.${PROJECT_FILE_EXTENSION}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+};
+
+export const isProjectFile = (file: File): boolean => file.name.split('.').pop()?.toLowerCase() === PROJECT_FILE_EXTENSION;
+
+export const parseProjectFile = async (file: File): Promise<MtssProjectFile> => {
+    let raw: any;
+    try {
+        raw = JSON.parse(await file.text());
+    } catch (error) {
+        throw new Error("קובץ הפרויקט פגום ואינו בפורמט JSON תקין.");
+    }
+
+    if (!raw || raw.format !== 'mtss-project' || typeof raw.schemaVersion !== 'number') {
+        throw new Error("הקובץ אינו קובץ פרויקט MTSS מוכר.");
+    }
+    if (raw.schemaVersion > CURRENT_PROJECT_SCHEMA_VERSION) {
+        throw new Error("קובץ הפרויקט נוצר בגרסה חדשה יותר של הכלי. יש לעדכן את הכלי כדי לפתוח אותו.");
+    }
+
+    const project = migrateProject(raw);
+    if (!project.state || !Array.isArray(project.state.schoolsData)) {
+        throw new Error("קובץ הפרויקט אינו מכיל נתוני בתי ספר.");
+    }
+
+    const tierAssignments = project.tierAssignments || {};
+    return {
+        ...project,
+        metadata: {
+            name: project.metadata?.name || file.name.replace(/\.[^.]+$/, ''),
+            district: project.metadata?.district || '',
+            schoolYear: project.metadata?.schoolYear || '',
+        },
+        state: normalizeState(project.state, tierAssignments),
+        tierAssignments,
+    };
+};
@@ -0,0 +1,76 @@
+import type { AllInterventionPlans, Issue, PlanComponent, SchoolForAnalysis, TieredSchools, MonitoringScope } from '../types';
+import { getPlanComponentItems } from './monitoringService';
+import { listPlanScopes } from './objectiveService';
+
+export type SchoolPlanSectionKey = 'mainGoal' | 'measurableObjectives' | 'mainActions' | 'supportFrequency' | 'successMetrics' | 'partners';
+
+export const SCHOOL_PLAN_SECTIONS: { key: SchoolPlanSectionKey; title: string }[] = [
+    { key: 'mainGoal', title: 'מטרות' },
+    { key: 'measurableObjectives', title: 'יעדים מדידים' },
+    { key: 'mainActions', title: 'פעולות' },
+    { key: 'supportFrequency', title: 'תדירות ליווי' },
+    { key: 'successMetrics', title: 'מדדי הצלחה' },
+    { key: 'partners', title: 'שותפים' },
+];
+
+/** A plan of one issue the school takes part in. */
+export interface SchoolCommitment {
+    issueId: string;
+    tier: 1 | 2 | 3;
+    scope: MonitoringScope;
+}
+
+export interface ConsolidatedItem {
+    text: string;
+    /** Every plan the item appears in; an item shared by several plans is listed once. */
+    sources: SchoolCommitment[];
+}
+
+export interface SchoolPlan {
+    school: SchoolForAnalysis;
+    commitments: SchoolCommitment[];
+    principalGoals: { text: string; issueIds: string[] }[];
+    sections: { key: SchoolPlanSectionKey; title: string; items: ConsolidatedItem[] }[];
+}
+
+// Items differing only in spacing, case or a closing period are the same commitment.
+const normalizeItem = (text: string): string => text.trim().replace(/\s+/g, ' ').replace(/[.。]+$/, '').toLowerCase();
+
+/**
+ * Pivots the plans of every issue onto one school: the tier 1 plan, the plan of each tier 2 group it belongs to,
+ * and its tier 3 plan, general or individual. The items of each plan field are merged across them.
+ */
+export const buildSchoolPlan = (school: SchoolForAnalysis, plans: AllInterventionPlans, issues: Issue[], tieredSchools: TieredSchools): SchoolPlan => {
+    const scopes = listPlanScopes(plans, issues, tieredSchools).filter(planScope => planScope.schools.some(s => s.id === school.id));
+    const commitments = scopes.map(({ issueId, tier, scope }) => ({ issueId, tier, scope }));
+
+    const sections = SCHOOL_PLAN_SECTIONS.map(section => {
+        const items = new Map<string, ConsolidatedItem>();
+        scopes.forEach(({ issueId, tier, scope, plan }) => {
+            getPlanComponentItems(plan[section.key] as PlanComponent).forEach(text => {
+                const key = normalizeItem(text);
+                const existing = items.get(key);
+                const source = { issueId, tier, scope };
+                if (existing) existing.sources.push(source);
+                else items.set(key, { text, sources: [source] });
+            });
+        });
+        return { ...section, items: Array.from(items.values()) };
+    });
+
+    const principalGoals = new Map<string, { text: string; issueIds: string[] }>();
+    issues
+        .filter(issue => plans[issue.id]?.principalGoal && scopes.some(s => s.issueId === issue.id))
+        .forEach(issue => {
+            const text = plans[issue.id].principalGoal;
+            const existing = principalGoals.get(normalizeItem(text));
+            if (existing) existing.issueIds.push(issue.id);
+            else principalGoals.set(normalizeItem(text), { text, issueIds: [issue.id] });
+        });
+
+    return { school, commitments, principalGoals: Array.from(principalGoals.values()), sections };
+};
+
+/** The school's highest tier among its commitments: how intensive its support is overall. */
+export const highestTier = (schoolPlan: SchoolPlan): 1 | 2 | 3 =>
+    schoolPlan.commitments.reduce<1 | 2 | 3>((tier, c) => (c.tier > tier ? c.tier : tier), 1);
@@ -0,0 +1,80 @@
+import type { SavedSession, SessionSummary } from '../types';
+
+const DB_NAME = 'mtss-intervention-tool';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    return new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error("הדפדפן אינו תומך בשמירה מקומית של סשנים."));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+                const store = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+                store.createIndex('updatedAt', 'updatedAt');
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+/**
+ * Runs a single request against the sessions store and closes the connection when the transaction settles.
+ */
+const withSessionsStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(SESSIONS_STORE, mode);
+        const request = action(transaction.objectStore(SESSIONS_STORE));
+        transaction.oncomplete = () => {
+            db.close();
+            resolve(request.result);
+        };
+        transaction.onerror = () => {
+            db.close();
+            reject(transaction.error || request.error);
+        };
+        transaction.onabort = () => {
+            db.close();
+            reject(transaction.error || new Error("פעולת השמירה בוטלה."));
+        };
+    });
+};
+
+export const createSessionId = (): string => `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const saveSession = async (session: SavedSession): Promise<void> => {
+    await withSessionsStore('readwrite', store => store.put(session));
+};
+
+export const loadSession = async (id: string): Promise<SavedSession | null> => {
+    const session = await withSessionsStore<SavedSession | undefined>('readonly', store => store.get(id));
+    return session || null;
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+    await withSessionsStore('readwrite', store => store.delete(id));
+};
+
+/**
+ * Returns lightweight summaries of all saved sessions, most recently updated first.
+ */
+export const listSessions = async (): Promise<SessionSummary[]> => {
+    const sessions = await withSessionsStore<SavedSession[]>('readonly', store => store.getAll());
+    return sessions
+        .map(session => ({
+            id: session.id,
+            name: session.name,
+            district: session.district,
+            schoolYear: session.schoolYear,
+            currentStep: session.currentStep,
+            schoolCount: session.schoolsData.length,
+            updatedAt: session.updatedAt,
+        }))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
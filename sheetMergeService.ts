@@ -0,0 +1,116 @@
+import type { RawDataTable, WorkbookSheet, SheetMergeKey, SheetMergeConflict, SheetMergeResult } from '../types';
+import { proposeColumnMappings } from './fileParserService';
+
+const normalizeHeader = (header: string): string => header.toLowerCase().trim().replace(/\s+/g, ' ');
+
+const normalizeKey = (value: string): string => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Finds the column holding the merge key: the column proposed for the school name or for the institution symbol.
+ * Returns -1 when the sheet has no such column.
+ */
+export const findKeyColumn = (headers: string[], key: SheetMergeKey): number => {
+    const targetField = key === 'name' ? 'name' : 'institutionCode';
+    return proposeColumnMappings(headers).findIndex(m => m.targetField === targetField);
+};
+
+/**
+ * Builds the union of the sheets' headers (case and whitespace insensitive) and, per sheet, the merged column of each source column.
+ */
+const unionHeaders = (sheets: WorkbookSheet[]): { headers: string[]; columnMaps: number[][] } => {
+    const headers: string[] = [];
+    const indexByHeader = new Map<string, number>();
+    const columnMaps = sheets.map(sheet => sheet.table.headers.map(header => {
+        const normalized = normalizeHeader(header);
+        if (!indexByHeader.has(normalized)) {
+            indexByHeader.set(normalized, headers.length);
+            headers.push(header);
+        }
+        return indexByHeader.get(normalized)!;
+    }));
+    return { headers, columnMaps };
+};
+
+/**
+ * Stacks the rows of sheets that hold different schools (e.g. one sheet per cluster), aligning columns by header.
+ */
+export const appendSheets = (sheets: WorkbookSheet[]): RawDataTable => {
+    const { headers, columnMaps } = unionHeaders(sheets);
+    const rows = sheets.flatMap((sheet, sheetIndex) => sheet.table.rows.map(row => {
+        const merged = new Array<string>(headers.length).fill('');
+        row.forEach((value, i) => {
+            const target = columnMaps[sheetIndex][i];
+            if (target !== undefined && !merged[target]) merged[target] = value;
+        });
+        return merged;
+    }));
+    return { headers, rows };
+};
+
+/**
+ * Joins sheets that hold different fields of the same schools (e.g. one sheet per domain) into one row per school.
+ * The key column of every sheet is folded into the first sheet's key column. When two sheets give different
+ * non-empty values for the same column, the first sheet's value is kept and a conflict is reported.
+ */
+export const mergeSheets = (sheets: WorkbookSheet[], key: SheetMergeKey): SheetMergeResult => {
+    const keyColumns = sheets.map(sheet => findKeyColumn(sheet.table.headers, key));
+    const sheetsMissingKey = sheets.filter((_, i) => keyColumns[i] === -1).map(sheet => sheet.name);
+    const joinable = sheets.filter((_, i) => keyColumns[i] !== -1);
+    if (joinable.length === 0) {
+        return { table: { headers: [], rows: [] }, conflicts: [], sheetsMissingKey, rowsWithoutKey: 0 };
+    }
+
+    // Rename every key column to the first sheet's key header so they share one merged column.
+    const joinableKeyColumns = keyColumns.filter(index => index !== -1);
+    const keyHeader = joinable[0].table.headers[joinableKeyColumns[0]];
+    const aligned = joinable.map((sheet, i) => ({
+        ...sheet,
+        table: { ...sheet.table, headers: sheet.table.headers.map((h, col) => col === joinableKeyColumns[i] ? keyHeader : h) },
+    }));
+    const { headers, columnMaps } = unionHeaders(aligned);
+    const mergedKeyColumn = columnMaps[0][joinableKeyColumns[0]];
+
+    const rows: string[][] = [];
+    const rowSources: string[][] = []; // Sheet that supplied each kept value, for conflict reporting.
+    const rowIndexByKey = new Map<string, number>();
+    const conflictsByCell = new Map<string, SheetMergeConflict>();
+    let rowsWithoutKey = 0;
+
+    aligned.forEach((sheet, sheetIndex) => {
+        sheet.table.rows.forEach(row => {
+            const keyValue = normalizeKey(row[joinableKeyColumns[sheetIndex]] || '');
+            let rowIndex = keyValue ? rowIndexByKey.get(keyValue) : undefined;
+            if (rowIndex === undefined) {
+                rowIndex = rows.length;
+                rows.push(new Array<string>(headers.length).fill(''));
+                rowSources.push(new Array<string>(headers.length).fill(''));
+                if (keyValue) rowIndexByKey.set(keyValue, rowIndex);
+                else rowsWithoutKey++;
+            }
+
+            const merged = rows[rowIndex];
+            row.forEach((rawValue, i) => {
+                const target = columnMaps[sheetIndex][i];
+                const value = rawValue.trim();
+                if (target === undefined || !value) return;
+                if (!merged[target]) {
+                    merged[target] = value;
+                    rowSources[rowIndex!][target] = sheet.name;
+                    return;
+                }
+                if (target === mergedKeyColumn || normalizeKey(merged[target]) === normalizeKey(value)) return;
+
+                const cellId = `${rowIndex}:${target}`;
+                const conflict = conflictsByCell.get(cellId) || {
+                    key: merged[mergedKeyColumn],
+                    header: headers[target],
+                    values: [{ sheetName: rowSources[rowIndex!][target], value: merged[target] }],
+                };
+                conflict.values.push({ sheetName: sheet.name, value });
+                conflictsByCell.set(cellId, conflict);
+            });
+        });
+    });
+
+    return { table: { headers, rows }, conflicts: [...conflictsByCell.values()], sheetsMissingKey, rowsWithoutKey };
+};
@@ -0,0 +1,186 @@
+// Fix: Use the global XLSX object provided by the CDN script instead of module import.
+declare const XLSX: any;
+
+import type { School } from '../types';
+import { ALL_SCORE_FIELDS, FIELD_HEBREW_MAP, HIERARCHICAL_CATEGORIES, SUPPORT_LEVELS } from '../constants';
+
+const TEMPLATE_FILE_NAME = 'תבנית-הזנת-נתונים';
+const TEMPLATE_DATA_ROWS = 300;
+const HEADER_ROW_COUNT = 2;
+const DATA_SHEET_NAME = 'נתוני בתי ספר';
+/** The parser skips this sheet, so a filled-in template imports as a single sheet. */
+export const TEMPLATE_INSTRUCTIONS_SHEET_NAME = 'הוראות למילוי';
+
+interface TemplateColumn {
+    field: keyof School;
+    /** Sub-category shown in the merged category row; empty for the school details columns. */
+    category: string;
+    header: string;
+    /** Single-row header used by the CSV template, in the "category - metric" format of FIELD_HEBREW_MAP. */
+    flatHeader: string;
+    width: number;
+}
+
+const BASE_COLUMNS: { field: keyof School; header: string; width: number }[] = [
+    { field: 'name', header: 'שם בית הספר', width: 28 },
+    { field: 'institutionCode', header: 'סמל מוסד', width: 12 },
+    { field: 'principal', header: 'מנהל/ת', width: 20 },
+    { field: 'students', header: 'מספר תלמידים', width: 12 },
+    { field: 'supportLevel', header: 'רמת ליווי', width: 16 },
+];
+
+const NOTES_COLUMN = { field: 'notes' as keyof School, header: 'הערות', width: 40 };
+
+const getTemplateColumns = (): TemplateColumn[] => {
+    const metricsByKey = new Map<string, { category: string; name: string }>(
+        HIERARCHICAL_CATEGORIES.flatMap(cat => cat.subCategories.flatMap(subCat =>
+            subCat.metrics.map(metric => [metric.key, { category: subCat.name, name: metric.name }] as [string, { category: string; name: string }])
+        ))
+    );
+
+    const scoreColumns = ALL_SCORE_FIELDS.map(field => {
+        const label = FIELD_HEBREW_MAP[field as string] || (field as string);
+        const [labelCategory, labelMetric] = label.split(' - ');
+        const metric = metricsByKey.get(field as string);
+        return {
+            field,
+            category: metric?.category || labelCategory,
+            header: metric?.name || labelMetric || label,
+            flatHeader: label,
+            width: 14,
+        };
+    });
+
+    return [
+        ...BASE_COLUMNS.map(c => ({ ...c, category: '', flatHeader: c.header })),
+        ...scoreColumns,
+        { ...NOTES_COLUMN, category: '', flatHeader: NOTES_COLUMN.header },
+    ];
+};
+
+const escapeXml = (value: string): string => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * The community build of SheetJS does not write frozen panes or data validation,
+ * so both are patched into the generated worksheet XML.
+ */
+const patchWorksheetXml = (xml: string, columns: TemplateColumn[]): string => {
+    const firstDataRow = HEADER_ROW_COUNT + 1;
+    const lastDataRow = HEADER_ROW_COUNT + TEMPLATE_DATA_ROWS;
+    const columnRange = (index: number) => {
+        const col = XLSX.utils.encode_col(index);
+        return `${col}${firstDataRow}:${col}${lastDataRow}`;
+    };
+
+    const topLeftCell = `${XLSX.utils.encode_col(1)}${firstDataRow}`;
+    const sheetViews = `<sheetViews><sheetView rightToLeft="1" workbookViewId="0"><pane xSplit="1" ySplit="${HEADER_ROW_COUNT}" topLeftCell="${topLeftCell}" activePane="bottomRight" state="frozen"/><selection pane="bottomRight" activeCell="${topLeftCell}" sqref="${topLeftCell}"/></sheetView></sheetViews>`;
+
+    const scoreRanges = columns.map((c, i) => ALL_SCORE_FIELDS.includes(c.field) ? columnRange(i) : null).filter(Boolean).join(' ');
+    const supportLevelRange = columnRange(columns.findIndex(c => c.field === 'supportLevel'));
+    const listValidation = (sqref: string, values: string[], error: string) =>
+        `<dataValidation type="list" allowBlank="1" showErrorMessage="1" errorTitle="${escapeXml('ערך לא חוקי')}" error="${escapeXml(error)}" sqref="${sqref}"><formula1>"${escapeXml(values.join(','))}"</formula1></dataValidation>`;
+    const dataValidations = `<dataValidations count="2">${
+        listValidation(scoreRanges, ['1', '2', '3', '4'], 'יש לבחור ציון בין 1 ל-4.')
+    }${
+        listValidation(supportLevelRange, SUPPORT_LEVELS, `יש לבחור רמת ליווי: ${SUPPORT_LEVELS.join(', ')}.`)
+    }</dataValidations>`;
+
+    let patched = /<sheetViews>[\s\S]*?<\/sheetViews>/.test(xml)
+        ? xml.replace(/<sheetViews>[\s\S]*?<\/sheetViews>/, sheetViews)
+        : xml.replace(/(<sheetFormatPr|<cols>|<sheetData)/, `${sheetViews}$1`);
+    // dataValidations must directly follow mergeCells (or sheetData), before ignoredErrors and the page setup elements.
+    patched = patched.includes('</mergeCells>')
+        ? patched.replace('</mergeCells>', `</mergeCells>${dataValidations}`)
+        : patched.replace('</sheetData>', `</sheetData>${dataValidations}`);
+    return patched;
+};
+
+const buildDataSheet = (columns: TemplateColumn[]): any => {
+    const categoryRow = columns.map((c, i) => c.category && c.category !== columns[i - 1]?.category ? c.category : '');
+    const headerRow = columns.map(c => c.category ? c.header : '');
+    // School details columns span both header rows.
+    columns.forEach((c, i) => { if (!c.category) categoryRow[i] = c.header; });
+
+    const worksheet = XLSX.utils.aoa_to_sheet([categoryRow, headerRow]);
+    worksheet['!ref'] = XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: HEADER_ROW_COUNT + TEMPLATE_DATA_ROWS - 1, c: columns.length - 1 } });
+    worksheet['!cols'] = columns.map(c => ({ wch: c.width }));
+
+    const merges: any[] = [];
+    columns.forEach((c, i) => {
+        if (!c.category) {
+            merges.push({ s: { r: 0, c: i }, e: { r: 1, c: i } });
+        } else if (c.category !== columns[i - 1]?.category) {
+            let end = i;
+            while (columns[end + 1]?.category === c.category) end++;
+            if (end > i) merges.push({ s: { r: 0, c: i }, e: { r: 0, c: end } });
+        }
+    });
+    worksheet['!merges'] = merges;
+    return worksheet;
+};
+
+const buildInstructionsSheet = (columns: TemplateColumn[]): any => {
+    const rows: string[][] = [
+        ['תבנית להזנת נתוני בתי ספר'],
+        [''],
+        ['1. יש למלא שורה אחת לכל בית ספר בגיליון "' + DATA_SHEET_NAME + '", החל מהשורה השלישית.'],
+        ['2. אין לשנות, למחוק או להזיז את שתי שורות הכותרת. הכלי מזהה את העמודות לפיהן.'],
+        ['3. ציונים: יש לבחור ערך מ-1 עד 4 מהרשימה הנפתחת. תא ריק מסמן שהמדד לא הוערך.'],
+        ['   1 = נמוך מאוד, 2 = נמוך, 3 = טוב, 4 = טוב מאוד.'],
+        ['4. רמת ליווי: יש לבחור אחת מהאפשרויות: ' + SUPPORT_LEVELS.join(', ') + '.'],
+        ['5. מספר תלמידים: מספר שלם בלבד, ללא פסיקים או מילים.'],
+        ['6. לאחר המילוי יש לשמור את הקובץ ולהעלות אותו לכלי במסך "העלאת קובץ נתונים".'],
+        [''],
+        ['מקרא מדדים'],
+        ['תחום', 'מדד', 'שם העמודה בקובץ CSV'],
+        ...columns.filter(c => c.category).map(c => [c.category, c.header, c.flatHeader]),
+    ];
+    const worksheet = XLSX.utils.aoa_to_sheet(rows);
+    worksheet['!cols'] = [{ wch: 24 }, { wch: 70 }, { wch: 50 }];
+    return worksheet;
+};
+
+const triggerDownload = (blob: Blob, fileName: string): void => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+};
+
+/**
+ * Generates the blank .xlsx template: grouped headers, score and support-level dropdowns,
+ * a frozen school-name column and an instructions sheet.
+ */
+export const downloadXlsxTemplate = (): void => {
+    const columns = getTemplateColumns();
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, buildDataSheet(columns), DATA_SHEET_NAME);
+    XLSX.utils.book_append_sheet(workbook, buildInstructionsSheet(columns), TEMPLATE_INSTRUCTIONS_SHEET_NAME);
+    workbook.Workbook = { Views: [{ RTL: true }] };
+
+    const data = new Uint8Array(XLSX.write(workbook, { bookType: 'xlsx', type: 'array', compression: true }));
+    const zip = XLSX.CFB.read(data, { type: 'array' });
+    const sheetEntry = XLSX.CFB.find(zip, '/xl/worksheets/sheet1.xml');
+    if (sheetEntry) {
+        const xml = new TextDecoder().decode(sheetEntry.content);
+        sheetEntry.content = new TextEncoder().encode(patchWorksheetXml(xml, columns));
+        sheetEntry.size = sheetEntry.content.length;
+    }
+    const patched = XLSX.CFB.write(zip, { type: 'array', fileType: 'zip', compression: true });
+
+    triggerDownload(
+        new Blob([patched], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+        `${TEMPLATE_FILE_NAME}.xlsx`
+    );
+};
+
+/**
+ * Generates the blank CSV template. CSV has no merged cells, so each header carries its category as "category - metric".
+ */
+export const downloadCsvTemplate = (): void => {
+    const headers = getTemplateColumns().map(c => `"${c.flatHeader.replace(/"/g, '""')}"`);
+    triggerDownload(new Blob([`\uFEFF${headers.join(',')}\n`], { type: 'text/csv;charset=utf-8;' }), `${TEMPLATE_FILE_NAME}.csv`);
+};
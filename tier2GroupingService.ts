@@ -0,0 +1,146 @@
+import type { School, Issue } from '../types';
+import { BOOKLET_ISSUE_TO_METRICS_MAP, HIERARCHICAL_CATEGORIES } from '../constants';
+
+export const DEFAULT_GROUP_SIZE = { min: 4, max: 6 };
+
+// A sub-category names the group when at least this share of its schools score low in it.
+const SHARED_CHALLENGE_RATIO = 0.5;
+const MAX_LABEL_CHALLENGES = 3;
+
+export interface SchoolCluster {
+    schoolIds: number[];
+    /** Sub-categories in which most of the group's schools score low, most common first. */
+    sharedChallenges: string[];
+}
+
+const SUB_CATEGORY_NAMES = new Map<string, string>(
+    HIERARCHICAL_CATEGORIES.flatMap(cat => cat.subCategories.map(subCat => [subCat.key, subCat.name] as [string, string]))
+);
+
+// Score fields are named "<subCategoryKey>_<metric>Score".
+const subCategoryOf = (metric: string): string => SUB_CATEGORY_NAMES.get(metric.split('_')[0]) || metric;
+
+/**
+ * The school's low-score profile: the metrics of the selected issues that it scored 1 or 2.
+ */
+const lowScoreProfile = (school: School, metrics: string[]): Set<string> =>
+    new Set(metrics.filter(metric => {
+        const score = parseInt(school[metric] as string, 10);
+        return !isNaN(score) && score > 0 && score <= 2;
+    }));
+
+// Jaccard distance between two low-score profiles.
+const profileDistance = (a: Set<string>, b: Set<string>): number => {
+    if (a.size === 0 && b.size === 0) return 0;
+    let shared = 0;
+    a.forEach(metric => { if (b.has(metric)) shared++; });
+    return 1 - shared / (a.size + b.size - shared);
+};
+
+const averageLinkage = (a: number[], b: number[], distances: number[][]): number => {
+    let total = 0;
+    a.forEach(i => b.forEach(j => { total += distances[i][j]; }));
+    return total / (a.length * b.length);
+};
+
+/**
+ * Finds the closest pair of clusters whose union is no larger than maxSize, or null when none can be merged.
+ */
+const closestMergeablePair = (clusters: number[][], distances: number[][], maxSize: number, onlySmallerThan = Infinity): [number, number] | null => {
+    let best: [number, number] | null = null;
+    let bestDistance = Infinity;
+    for (let i = 0; i < clusters.length; i++) {
+        for (let j = i + 1; j < clusters.length; j++) {
+            if (clusters[i].length + clusters[j].length > maxSize) continue;
+            if (clusters[i].length >= onlySmallerThan && clusters[j].length >= onlySmallerThan) continue;
+            const distance = averageLinkage(clusters[i], clusters[j], distances);
+            if (distance < bestDistance) {
+                bestDistance = distance;
+                best = [i, j];
+            }
+        }
+    }
+    return best;
+};
+
+const mergePair = (clusters: number[][], [i, j]: [number, number]): number[][] =>
+    [...clusters.filter((_, index) => index !== i && index !== j), [...clusters[i], ...clusters[j]]];
+
+/**
+ * Fills a group that is still too small with the closest schools of groups that can spare one.
+ */
+const fillUndersized = (clusters: number[][], distances: number[][], minSize: number): number[][] => {
+    const result = clusters.map(c => [...c]);
+    result.forEach(small => {
+        while (small.length < minSize) {
+            let best: { donor: number[]; index: number } | null = null;
+            let bestDistance = Infinity;
+            result.forEach(donor => {
+                if (donor === small || donor.length <= minSize) return;
+                donor.forEach(index => {
+                    const distance = averageLinkage([index], small, distances);
+                    if (distance < bestDistance) {
+                        bestDistance = distance;
+                        best = { donor, index };
+                    }
+                });
+            });
+            if (!best) break;
+            const { donor, index } = best as { donor: number[]; index: number };
+            donor.splice(donor.indexOf(index), 1);
+            small.push(index);
+        }
+    });
+    return result;
+};
+
+/**
+ * Splits the schools into disjoint groups of similar low-score profiles over the selected issues' metrics.
+ *
+ * Average-linkage agglomerative clustering, capped at maxSize, runs until the number of groups needed
+ * for the schools is reached. Groups still smaller than minSize then join their closest group with room,
+ * or take the closest schools from groups larger than minSize.
+ */
+export const suggestTier2Clusters = (schools: School[], issues: Issue[], minSize: number, maxSize: number): SchoolCluster[] => {
+    const metrics = [...new Set(issues.flatMap(issue => (BOOKLET_ISSUE_TO_METRICS_MAP[issue.id] || []) as string[]))];
+    if (metrics.length === 0 || schools.length === 0) return [];
+
+    const sortedSchools = [...schools].sort((a, b) => a.id - b.id);
+    const profiles = sortedSchools.map(school => lowScoreProfile(school, metrics));
+    const distances = profiles.map(a => profiles.map(b => profileDistance(a, b)));
+
+    const targetGroups = Math.ceil(sortedSchools.length / maxSize);
+    let clusters: number[][] = sortedSchools.map((_, index) => [index]);
+    while (clusters.length > targetGroups) {
+        const pair = closestMergeablePair(clusters, distances, maxSize);
+        if (!pair) break;
+        clusters = mergePair(clusters, pair);
+    }
+    while (clusters.some(c => c.length < minSize)) {
+        const pair = closestMergeablePair(clusters, distances, maxSize, minSize);
+        if (!pair) break;
+        clusters = mergePair(clusters, pair);
+    }
+    clusters = fillUndersized(clusters, distances, minSize);
+
+    return clusters
+        .map(cluster => {
+            const challengeCounts = new Map<string, number>();
+            cluster.forEach(index => {
+                new Set([...profiles[index]].map(subCategoryOf)).forEach(subCategory => {
+                    challengeCounts.set(subCategory, (challengeCounts.get(subCategory) || 0) + 1);
+                });
+            });
+            const sharedChallenges = [...challengeCounts.entries()]
+                .filter(([, count]) => count / cluster.length >= SHARED_CHALLENGE_RATIO)
+                .sort((a, b) => b[1] - a[1])
+                .map(([subCategory]) => subCategory);
+            return { schoolIds: cluster.map(index => sortedSchools[index].id), sharedChallenges };
+        })
+        .sort((a, b) => b.schoolIds.length - a.schoolIds.length);
+};
+
+export const describeCluster = (cluster: SchoolCluster): string =>
+    cluster.sharedChallenges.length > 0
+        ? cluster.sharedChallenges.slice(0, MAX_LABEL_CHALLENGES).join(', ')
+        : 'ללא אתגר משותף בולט';
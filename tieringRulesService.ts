@@ -0,0 +1,232 @@
+import type { School, SchoolForAnalysis, Issue, HistoricalDataset, TieredSchools, TieringRuleSet, TieringRule, TieringCondition, TieringComparison, TierAssignment, TierOverride, ActiveTierOverride } from '../types';
+import { ALL_SCORE_FIELDS, HIERARCHICAL_CATEGORIES } from '../constants';
+import { averageScore, findMatchingSchool, sortDatasetsByYear } from './trendService';
+import { getDomainMetrics } from './dataCoverageService';
+
+const STORAGE_KEY = 'mtss.tieringRuleSets';
+const NEW_PRINCIPAL_SUPPORT_LEVEL = 'מנהלים חדשים';
+const ANALYSIS_TIER_REASON = 'סיווג הניתוח האוטומטי';
+
+export const DOMAIN_NAMES: string[] = HIERARCHICAL_CATEGORIES.map(cat => cat.name);
+
+export const COMPARISON_LABELS: { [comparison in TieringComparison]: string } = {
+    'below': 'מתחת ל-',
+    'at-most': 'עד',
+    'at-least': 'לפחות',
+};
+
+export const CONDITION_TYPE_LABELS: { [type in TieringCondition['type']]: string } = {
+    'overall-average': 'ממוצע כללי',
+    'domain-average': 'ממוצע בתחום',
+    'low-score-count': 'מספר ציונים 2 ומטה',
+    'support-level': 'רמת ליווי',
+    'new-principal': 'מנהל/ת חדש/ה',
+};
+
+/**
+ * The built-in rule set keeps the tiers of the automatic analysis. Its rules are the starting point
+ * when a district switches to its own criteria.
+ */
+export const DEFAULT_TIERING_RULE_SET: TieringRuleSet = {
+    id: 'default',
+    name: 'סיווג הניתוח האוטומטי',
+    justification: '',
+    useAnalysisTiers: true,
+    requireSelectedIssue: true,
+    tier3: {
+        match: 'any',
+        conditions: [
+            { type: 'overall-average', comparison: 'below', value: 2 },
+            { type: 'low-score-count', comparison: 'at-least', value: 10 },
+        ],
+    },
+    tier2: {
+        match: 'any',
+        conditions: [
+            { type: 'overall-average', comparison: 'below', value: 2.75 },
+            { type: 'low-score-count', comparison: 'at-least', value: 5 },
+            { type: 'new-principal' },
+        ],
+    },
+    savedAt: '',
+};
+
+export const createDefaultCondition = (type: TieringCondition['type']): TieringCondition => {
+    switch (type) {
+        case 'overall-average': return { type, comparison: 'below', value: 2.5 };
+        case 'domain-average': return { type, domain: DOMAIN_NAMES[0], comparison: 'below', value: 2.5 };
+        case 'low-score-count': return { type, comparison: 'at-least', value: 5 };
+        case 'support-level': return { type, levels: [] };
+        case 'new-principal': return { type };
+    }
+};
+
+const compare = (actual: number, comparison: TieringComparison, value: number): boolean => {
+    if (comparison === 'below') return actual < value;
+    if (comparison === 'at-most') return actual <= value;
+    return actual >= value;
+};
+
+export const countLowScores = (school: School): number =>
+    ALL_SCORE_FIELDS.filter(field => {
+        const score = parseInt(school[field] as string, 10);
+        return score === 1 || score === 2;
+    }).length;
+
+/**
+ * A principal is new when the support level says so, or when the principal's name differs from the latest earlier year.
+ */
+export const isNewPrincipal = (school: School, historicalDatasets: HistoricalDataset[]): boolean => {
+    if (school.supportLevel === NEW_PRINCIPAL_SUPPORT_LEVEL) return true;
+    const principal = (school.principal || '').trim();
+    if (!principal) return false;
+    const latest = sortDatasetsByYear(historicalDatasets).reverse().find(dataset => findMatchingSchool(school, dataset.schools));
+    if (!latest) return false;
+    const previousPrincipal = (findMatchingSchool(school, latest.schools)?.principal || '').trim();
+    return previousPrincipal !== '' && previousPrincipal !== principal;
+};
+
+const formatComparison = (comparison: TieringComparison, value: number): string =>
+    comparison === 'below' ? `${COMPARISON_LABELS.below}${value}` : `${COMPARISON_LABELS[comparison]} ${value}`;
+
+export const describeCondition = (condition: TieringCondition): string => {
+    switch (condition.type) {
+        case 'overall-average':
+            return `ממוצע כללי ${formatComparison(condition.comparison, condition.value)}`;
+        case 'domain-average':
+            return `ממוצע בתחום "${condition.domain}" ${formatComparison(condition.comparison, condition.value)}`;
+        case 'low-score-count':
+            return `${formatComparison(condition.comparison, condition.value)} ציונים של 2 ומטה`;
+        case 'support-level':
+            return condition.levels.length > 0 ? `רמת ליווי: ${condition.levels.join(' / ')}` : 'רמת ליווי (לא נבחרו רמות)';
+        case 'new-principal':
+            return 'מנהל/ת חדש/ה';
+    }
+};
+
+const describeRule = (rule: TieringRule): string =>
+    rule.conditions.length === 0
+        ? 'אין תנאים'
+        : rule.conditions.map(describeCondition).join(rule.match === 'all' ? ' וגם ' : ' או ');
+
+/**
+ * Writes the criteria of a rule set as text, to be quoted when the tiering has to be justified.
+ */
+export const describeRuleSet = (ruleSet: TieringRuleSet): string[] => {
+    const lines = ruleSet.useAnalysisTiers
+        ? ['השכבות נקבעו לפי הסיווג של הניתוח האוטומטי.']
+        : [
+            `שכבה 3: ${describeRule(ruleSet.tier3)}.`,
+            `שכבה 2 (בתי ספר שאינם בשכבה 3): ${describeRule(ruleSet.tier2)}.`,
+        ];
+    if (ruleSet.requireSelectedIssue) lines.push('שכבות 2 ו-3 כוללות רק בתי ספר המושפעים מהסוגיות שנבחרו.');
+    if (ruleSet.justification.trim()) lines.push(`נימוק: ${ruleSet.justification.trim()}`);
+    return lines;
+};
+
+const evaluateCondition = (school: School, condition: TieringCondition, historicalDatasets: HistoricalDataset[]): boolean => {
+    switch (condition.type) {
+        case 'overall-average': {
+            const average = averageScore(school, ALL_SCORE_FIELDS as string[]);
+            return average !== null && compare(average, condition.comparison, condition.value);
+        }
+        case 'domain-average': {
+            const average = averageScore(school, getDomainMetrics(condition.domain));
+            return average !== null && compare(average, condition.comparison, condition.value);
+        }
+        case 'low-score-count':
+            return compare(countLowScores(school), condition.comparison, condition.value);
+        case 'support-level':
+            return condition.levels.includes(school.supportLevel);
+        case 'new-principal':
+            return isNewPrincipal(school, historicalDatasets);
+    }
+};
+
+/**
+ * Returns the conditions the school meets, or null when the rule does not apply.
+ */
+const matchRule = (school: School, rule: TieringRule, historicalDatasets: HistoricalDataset[]): string[] | null => {
+    if (rule.conditions.length === 0) return null;
+    const met = rule.conditions.filter(c => evaluateCondition(school, c, historicalDatasets));
+    const applies = rule.match === 'all' ? met.length === rule.conditions.length : met.length > 0;
+    return applies ? met.map(describeCondition) : null;
+};
+
+export const assignTier = (school: SchoolForAnalysis, ruleSet: TieringRuleSet, historicalDatasets: HistoricalDataset[]): TierAssignment => {
+    if (ruleSet.useAnalysisTiers) {
+        return { tier: school.tier, reasons: school.tier > 1 ? [ANALYSIS_TIER_REASON] : [] };
+    }
+    const tier3Reasons = matchRule(school, ruleSet.tier3, historicalDatasets);
+    if (tier3Reasons) return { tier: 3, reasons: tier3Reasons };
+    const tier2Reasons = matchRule(school, ruleSet.tier2, historicalDatasets);
+    if (tier2Reasons) return { tier: 2, reasons: tier2Reasons };
+    return { tier: 1, reasons: [] };
+};
+
+export const assignTiers = (schools: SchoolForAnalysis[], ruleSet: TieringRuleSet, historicalDatasets: HistoricalDataset[]): { [schoolId: number]: TierAssignment } =>
+    Object.fromEntries(schools.map(school => [school.id, assignTier(school, ruleSet, historicalDatasets)]));
+
+/**
+ * Reduces the audit trail to the overrides in effect: the latest entry per school, unless it was withdrawn.
+ */
+export const getActiveTierOverrides = (history: TierOverride[]): { [schoolId: number]: ActiveTierOverride } => {
+    const latest: { [schoolId: number]: TierOverride } = {};
+    history.forEach(entry => { latest[entry.schoolId] = entry; });
+    return Object.fromEntries(
+        Object.values(latest).filter((entry): entry is ActiveTierOverride => entry.toTier !== null).map(entry => [entry.schoolId, entry])
+    );
+};
+
+/**
+ * Splits the schools into MTSS tiers by the rule set, then applies the manual overrides.
+ * Tier 1 is universal and holds every school; the schools in tiers 2 and 3 carry their effective tier.
+ */
+export const computeTieredSchools = (
+    schools: SchoolForAnalysis[],
+    selectedIssues: Issue[],
+    ruleSet: TieringRuleSet,
+    historicalDatasets: HistoricalDataset[],
+    overrideHistory: TierOverride[] = [],
+): TieredSchools => {
+    const assignments = assignTiers(schools, ruleSet, historicalDatasets);
+    const affectedSchoolIds = new Set<number>(selectedIssues.flatMap(issue => issue.schoolDetails.map(detail => detail.schoolId)));
+    const overrides = getActiveTierOverrides(overrideHistory);
+    // An override is a deliberate decision, so it applies whether or not the school is affected by the selected issues.
+    const tierOf = (school: SchoolForAnalysis): 1 | 2 | 3 => overrides[school.id]?.toTier
+        ?? (!ruleSet.requireSelectedIssue || affectedSchoolIds.has(school.id) ? assignments[school.id].tier : 1);
+    const inTier = (tier: 2 | 3) => schools.filter(s => tierOf(s) === tier).map(s => ({ ...s, tier }));
+
+    return { tier1: schools, tier2: inTier(2), tier3: inTier(3), overrides };
+};
+
+export const getEffectiveTier = (tieredSchools: TieredSchools, schoolId: number): 1 | 2 | 3 =>
+    tieredSchools.tier3.some(s => s.id === schoolId) ? 3 : tieredSchools.tier2.some(s => s.id === schoolId) ? 2 : 1;
+
+export const listTieringRuleSets = (): TieringRuleSet[] => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+        console.error("Failed to read saved tiering rule sets:", error);
+        return [];
+    }
+};
+
+const writeTieringRuleSets = (ruleSets: TieringRuleSet[]): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(ruleSets));
+};
+
+/**
+ * Saves the rule set under its name. A rule set with the same name replaces the previous one.
+ */
+export const saveTieringRuleSet = (ruleSet: TieringRuleSet): TieringRuleSet => {
+    const saved: TieringRuleSet = { ...ruleSet, id: `rules-${Date.now()}`, savedAt: new Date().toISOString() };
+    const name = saved.name.trim();
+    writeTieringRuleSets([saved, ...listTieringRuleSets().filter(r => r.name.trim() !== name)]);
+    return saved;
+};
+
+export const deleteTieringRuleSet = (id: string): void => {
+    writeTieringRuleSets(listTieringRuleSets().filter(r => r.id !== id));
+};
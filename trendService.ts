@@ -0,0 +1,111 @@
+import type { School, HistoricalDataset, SchoolYearSnapshot } from '../types';
+
+// Changes smaller than this (on the 1-4 scale) are shown as stable.
+export const TREND_STABLE_THRESHOLD = 0.1;
+
+const HEBREW_LETTER_VALUES: { [letter: string]: number } = {
+    'א': 1, 'ב': 2, 'ג': 3, 'ד': 4, 'ה': 5, 'ו': 6, 'ז': 7, 'ח': 8, 'ט': 9,
+    'י': 10, 'כ': 20, 'ך': 20, 'ל': 30, 'מ': 40, 'ם': 40, 'נ': 50, 'ן': 50, 'ס': 60, 'ע': 70, 'פ': 80, 'ף': 80, 'צ': 90, 'ץ': 90,
+    'ק': 100, 'ר': 200, 'ש': 300, 'ת': 400,
+};
+
+/**
+ * Orders school years written either as Gregorian years ("2024-2025") or in Hebrew letters (תשפ"ה).
+ * Hebrew years are summed by letter value, so תש"צ sorts before תשצ"א even though the strings do not.
+ */
+export const schoolYearSortKey = (schoolYear: string): number => {
+    const gregorian = schoolYear.match(/\d{4}/);
+    if (gregorian) return parseInt(gregorian[0], 10);
+    const hebrewValue = [...schoolYear].reduce((sum, char) => sum + (HEBREW_LETTER_VALUES[char] || 0), 0);
+    // Hebrew years omit the thousands (תשפ"ה = 5785); 5785 - 3761 = 2024.
+    return hebrewValue > 0 ? hebrewValue + 5000 - 3761 : 0;
+};
+
+export const sortDatasetsByYear = (datasets: HistoricalDataset[]): HistoricalDataset[] =>
+    [...datasets].sort((a, b) => schoolYearSortKey(a.schoolYear) - schoolYearSortKey(b.schoolYear));
+
+const normalizeName = (name: string): string => (name || '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Finds the same school in another dataset: by institution symbol when both rows have one, otherwise by name.
+ */
+export const findMatchingSchool = (school: School, candidates: School[]): School | null => {
+    const code = (school.institutionCode || '').trim();
+    if (code) {
+        const byCode = candidates.find(c => (c.institutionCode || '').trim() === code);
+        if (byCode) return byCode;
+    }
+    const name = normalizeName(school.name);
+    if (!name) return null;
+    return candidates.find(c => {
+        // Two different symbols mean two different schools, even under the same name.
+        if (code && (c.institutionCode || '').trim()) return false;
+        return normalizeName(c.name) === name;
+    }) || null;
+};
+
+/**
+ * Counts how the schools of the current dataset match a historical one, for the import summary.
+ */
+export const summarizeDatasetMatch = (current: School[], dataset: HistoricalDataset): { byCode: number; byName: number; unmatched: number } => {
+    let byCode = 0;
+    let byName = 0;
+    current.forEach(school => {
+        const match = findMatchingSchool(school, dataset.schools);
+        if (!match) return;
+        if ((school.institutionCode || '').trim() && match.institutionCode === school.institutionCode) byCode++;
+        else byName++;
+    });
+    return { byCode, byName, unmatched: current.length - byCode - byName };
+};
+
+/**
+ * Returns the school's rows in earlier years, oldest first.
+ */
+export const getSchoolHistory = (school: School, datasets: HistoricalDataset[]): SchoolYearSnapshot[] =>
+    sortDatasetsByYear(datasets).flatMap(dataset => {
+        const match = findMatchingSchool(school, dataset.schools);
+        return match ? [{ schoolYear: dataset.schoolYear, school: match }] : [];
+    });
+
+/**
+ * Average of the valid (1-4) scores among the given fields, or null when none was scored.
+ */
+export const averageScore = (school: School, fields: string[]): number | null => {
+    const scores = fields.map(field => parseInt(school[field] as string, 10)).filter(s => !isNaN(s) && s > 0);
+    return scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : null;
+};
+
+export interface GroupTrend {
+    current: number;
+    previous: number;
+    delta: number;
+    matchedSchools: number;
+}
+
+/**
+ * Compares a group of schools with the same schools in a historical dataset, over the given fields.
+ * Only schools found in both years count, so a change in the school list does not read as a trend.
+ */
+export const compareWithDataset = (schools: School[], dataset: HistoricalDataset, fields: string[]): GroupTrend | null => {
+    const currentScores: number[] = [];
+    const previousScores: number[] = [];
+    schools.forEach(school => {
+        const match = findMatchingSchool(school, dataset.schools);
+        if (!match) return;
+        const current = averageScore(school, fields);
+        const previous = averageScore(match, fields);
+        if (current === null || previous === null) return;
+        currentScores.push(current);
+        previousScores.push(previous);
+    });
+    if (currentScores.length === 0) return null;
+
+    const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+    const current = mean(currentScores);
+    const previous = mean(previousScores);
+    return { current, previous, delta: current - previous, matchedSchools: currentScores.length };
+};
+
+export const getTrendDirection = (delta: number): 'up' | 'down' | 'stable' =>
+    delta >= TREND_STABLE_THRESHOLD ? 'up' : delta <= -TREND_STABLE_THRESHOLD ? 'down' : 'stable';
@@ -0,0 +1,379 @@
+import type { AllInterventionPlans, Issue, TierPlan, TieredSchools, VisitCadence, VisitFrequency, VisitSpan, SchoolCalendar, ScheduledVisit } from '../types';
+import { getPlanComponentItems, describeScope } from './monitoringService';
+import { PlanScope, listPlanScopes } from './objectiveService';
+
+const STORAGE_KEY = 'mtss.schoolCalendar';
+const DEFAULT_DURATION_MINUTES = 90;
+
+export const CADENCE_LABELS: { [cadence in VisitCadence]: string } = {
+    'none': 'ללא ביקורים',
+    'weekly': 'בכל שבוע',
+    'biweekly': 'בכל שבועיים',
+    'monthly': 'בכל חודש',
+    'quarterly': 'בכל רבעון',
+    'per-semester': 'בכל מחצית',
+    'total': 'בסך הכול',
+};
+
+export const SPAN_LABELS: { [span in VisitSpan]: string } = {
+    'year': 'כל השנה',
+    'first-semester': 'מחצית א׳',
+    'second-semester': 'מחצית ב׳',
+};
+
+export const WEEKDAY_LABELS = ['א׳', 'ב׳', 'ג׳', 'ד׳', 'ה׳', 'ו׳', 'ש׳'];
+
+/**
+ * The school year תשפ"ז with its main vacations. The dates follow the Hebrew calendar and should be checked
+ * against the Ministry of Education's published calendar; every supervisor can adjust them.
+ */
+export const DEFAULT_SCHOOL_CALENDAR: SchoolCalendar = {
+    schoolYear: 'תשפ"ז',
+    start: '2026-09-01',
+    end: '2027-06-30',
+    secondSemesterStart: '2027-01-31',
+    holidays: [
+        { name: 'ראש השנה', start: '2026-09-11', end: '2026-09-13' },
+        { name: 'יום כיפור וסוכות', start: '2026-09-20', end: '2026-10-04' },
+        { name: 'חנוכה', start: '2026-12-06', end: '2026-12-11' },
+        { name: 'פורים', start: '2027-03-23', end: '2027-03-24' },
+        { name: 'פסח', start: '2027-04-11', end: '2027-04-29' },
+        { name: 'יום העצמאות', start: '2027-05-12', end: '2027-05-12' },
+        { name: 'ל"ג בעומר', start: '2027-05-25', end: '2027-05-25' },
+        { name: 'שבועות', start: '2027-06-10', end: '2027-06-11' },
+    ],
+    workDays: [0, 1, 2, 3, 4],
+    dayStartTime: '08:30',
+    maxVisitsPerDay: 2,
+};
+
+export const loadSchoolCalendar = (): SchoolCalendar => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return stored ? { ...DEFAULT_SCHOOL_CALENDAR, ...JSON.parse(stored) } : DEFAULT_SCHOOL_CALENDAR;
+    } catch (error) {
+        console.error("Failed to read the school calendar:", error);
+        return DEFAULT_SCHOOL_CALENDAR;
+    }
+};
+
+export const saveSchoolCalendar = (calendar: SchoolCalendar): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(calendar));
+};
+
+/**
+ * Returns the problems that make the calendar unusable, in Hebrew; empty when it is valid.
+ */
+export const validateSchoolCalendar = (calendar: SchoolCalendar): string[] => {
+    const errors: string[] = [];
+    if (!calendar.start || !calendar.end || calendar.start > calendar.end) errors.push('תאריך תחילת השנה חייב להקדים את תאריך סיומה.');
+    if (calendar.secondSemesterStart <= calendar.start || calendar.secondSemesterStart > calendar.end) {
+        errors.push('תחילת מחצית ב׳ חייבת ליפול בתוך שנת הלימודים.');
+    }
+    if (calendar.workDays.length === 0) errors.push('יש לבחור לפחות יום עבודה אחד בשבוע.');
+    if (!(calendar.maxVisitsPerDay >= 1)) errors.push('מספר הביקורים המרבי ביום חייב להיות 1 לפחות.');
+    if (!/^\d{2}:\d{2}$/.test(calendar.dayStartTime)) errors.push('שעת תחילת יום העבודה אינה תקינה.');
+    calendar.holidays.forEach(holiday => {
+        if (!holiday.start || !holiday.end || holiday.start > holiday.end) errors.push(`תאריכי החופשה "${holiday.name}" אינם תקינים.`);
+    });
+    return errors;
+};
+
+// Dates are handled as ISO strings at midnight UTC, so no time zone shifts a day.
+const toDate = (isoDate: string): Date => new Date(`${isoDate}T00:00:00Z`);
+const fromDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+const addDays = (isoDate: string, days: number): string => {
+    const date = toDate(isoDate);
+    date.setUTCDate(date.getUTCDate() + days);
+    return fromDate(date);
+};
+
+const addMonths = (isoDate: string, months: number): string => {
+    const date = toDate(isoDate);
+    date.setUTCDate(1);
+    date.setUTCMonth(date.getUTCMonth() + months);
+    return fromDate(date);
+};
+
+const daysBetween = (from: string, to: string): number => Math.round((toDate(to).getTime() - toDate(from).getTime()) / 86400000);
+
+export const dayOfWeek = (isoDate: string): number => toDate(isoDate).getUTCDay();
+
+export const isVisitDay = (isoDate: string, calendar: SchoolCalendar): boolean =>
+    isoDate >= calendar.start && isoDate <= calendar.end
+    && calendar.workDays.includes(dayOfWeek(isoDate))
+    && !calendar.holidays.some(holiday => isoDate >= holiday.start && isoDate <= holiday.end);
+
+/**
+ * Structures a support frequency written in Hebrew, e.g. "פגישות דו-שבועיות למשך סמסטר" or "2-3 פגישות עבודה".
+ * Items that describe ongoing or on-demand support rather than visits get the cadence 'none'.
+ */
+export const parseSupportFrequency = (text: string): VisitFrequency => {
+    const hours = text.match(/(\d+)(?:\s*-\s*(\d+))?\s*שעות/);
+    const frequency: VisitFrequency = {
+        source: text,
+        cadence: 'none',
+        visits: 1,
+        span: /למשך (?:ה)?סמסטר|במהלך (?:ה)?סמסטר|בתחילת (?:ה)?שנה/.test(text) ? 'first-semester' : 'year',
+        durationMinutes: hours ? Number(hours[2] || hours[1]) * 60 : DEFAULT_DURATION_MINUTES,
+    };
+    if (/לפי הצורך|שוטפ|סינכרוני/.test(text)) return frequency;
+
+    const count = text.match(/(\d+)(?:\s*-\s*(\d+))?\s*(?:פגישות|ישיבות|מפגשים|סדנאות|ביקורים)/);
+    if (/דו[-\s]?שבוע/.test(text)) return { ...frequency, cadence: 'biweekly' };
+    if (/שבועי/.test(text)) return { ...frequency, cadence: 'weekly' };
+    if (/חודשי/.test(text)) return { ...frequency, cadence: 'monthly' };
+    if (/רבעוני/.test(text)) return { ...frequency, cadence: 'quarterly' };
+    if (/לסמסטר|למחצית/.test(text)) return { ...frequency, cadence: 'per-semester' };
+    // A range of meetings is planned for at its upper end.
+    if (count) return { ...frequency, cadence: 'total', visits: Number(count[2] || count[1]) };
+    if (/פגיש|מפגש|סדנ|יום עיון|וובינר|תצפית|הדרכה|בדיקה/.test(text)) return { ...frequency, cadence: 'total' };
+    return frequency;
+};
+
+/** The plan's support frequency items, each with its structured form or, until it is edited, the parsed one. */
+export const getVisitFrequencies = (plan: TierPlan): VisitFrequency[] =>
+    getPlanComponentItems(plan.supportFrequency).map(item =>
+        plan.visitFrequencies?.find(frequency => frequency.source === item) || parseSupportFrequency(item));
+
+/** Stores the structured frequency on the plan, dropping those of items no longer in it. */
+export const setVisitFrequency = (plan: TierPlan, frequency: VisitFrequency): TierPlan => {
+    const items = getPlanComponentItems(plan.supportFrequency);
+    const others = (plan.visitFrequencies || []).filter(f => f.source !== frequency.source && items.includes(f.source));
+    return { ...plan, visitFrequencies: [...others, frequency] };
+};
+
+/** Replaces the tier plan a scope points to. */
+export const updateScopePlan = (plans: AllInterventionPlans, planScope: PlanScope, updated: TierPlan): AllInterventionPlans => {
+    const plan = plans[planScope.issueId];
+    const { scope } = planScope;
+    let next = plan;
+    if (planScope.tier === 1) {
+        next = { ...plan, tier1: updated };
+    } else if (scope.type === 'group') {
+        next = { ...plan, tier2Groups: plan.tier2Groups.map(group => group.id === scope.groupId ? { ...group, plan: updated } : group) };
+    } else if (scope.type === 'school') {
+        next = { ...plan, tier3: { ...plan.tier3, individualPlans: { ...plan.tier3.individualPlans, [scope.schoolId]: updated } } };
+    } else {
+        next = { ...plan, tier3: { ...plan.tier3, generalPlan: updated } };
+    }
+    return { ...plans, [planScope.issueId]: next };
+};
+
+const spanBounds = (span: VisitSpan, calendar: SchoolCalendar): [string, string] => {
+    switch (span) {
+        case 'year': return [calendar.start, calendar.end];
+        case 'first-semester': return [calendar.start, addDays(calendar.secondSemesterStart, -1)];
+        case 'second-semester': return [calendar.secondSemesterStart, calendar.end];
+    }
+};
+
+/** The cadence's periods within the span, each from its first day up to (not including) the next one's. */
+const listPeriods = (cadence: VisitCadence, from: string, to: string, calendar: SchoolCalendar): [string, string][] => {
+    const end = addDays(to, 1);
+    const starts: string[] = [from];
+    const pushUntilEnd = (next: (date: string) => string) => {
+        for (let date = next(from); date < end; date = next(date)) starts.push(date);
+    };
+    switch (cadence) {
+        case 'weekly':
+        case 'biweekly': {
+            // Weeks start on Sunday; the first one may be partial.
+            const step = cadence === 'weekly' ? 7 : 14;
+            const firstSunday = addDays(from, -dayOfWeek(from));
+            for (let date = addDays(firstSunday, step); date < end; date = addDays(date, step)) starts.push(date);
+            break;
+        }
+        case 'monthly': pushUntilEnd(date => addMonths(date, 1)); break;
+        case 'quarterly': pushUntilEnd(date => addMonths(date, 3)); break;
+        case 'per-semester':
+            if (calendar.secondSemesterStart > from && calendar.secondSemesterStart < end) starts.push(calendar.secondSemesterStart);
+            break;
+        default: break;
+    }
+    return starts.map((start, index) => [start, starts[index + 1] || end]);
+};
+
+interface VisitSeries {
+    planScope: PlanScope;
+    frequency: VisitFrequency;
+    schoolNames: string[];
+    scopeKey: string;
+}
+
+/**
+ * The visits each tier plan calls for: tier 1 meets all its schools together, a tier 2 group meets as a group,
+ * and each tier 3 school is visited on its own, under the general plan or its individual one.
+ */
+const listVisitSeries = (plans: AllInterventionPlans, issues: Issue[], tieredSchools: TieredSchools): VisitSeries[] =>
+    listPlanScopes(plans, issues, tieredSchools).flatMap(planScope => {
+        const frequencies = getVisitFrequencies(planScope.plan).filter(f => f.cadence !== 'none' && f.visits > 0);
+        const { scope } = planScope;
+        const audiences = planScope.tier === 3 && scope.type === 'tier'
+            ? planScope.schools.map(school => ({ key: `school:${school.id}`, schoolNames: [school.name] }))
+            : [{ key: scope.type === 'group' ? `group:${scope.groupId}` : scope.type === 'school' ? `school:${scope.schoolId}` : 'tier', schoolNames: planScope.schools.map(s => s.name) }];
+        return audiences.flatMap(audience => frequencies.map(frequency => ({
+            planScope, frequency, schoolNames: audience.schoolNames, scopeKey: audience.key,
+        })));
+    });
+
+const addMinutes = (time: string, minutes: number): string => {
+    const [h, m] = time.split(':').map(Number);
+    const total = h * 60 + m + minutes;
+    return `${String(Math.floor(total / 60) % 24).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+};
+
+export interface VisitSchedule {
+    visits: ScheduledVisit[];
+    /** Visits that found no free school day in their slot, e.g. a week of vacation. */
+    unscheduled: number;
+}
+
+/**
+ * Lays every visit the plans call for across the school year. Each period of a cadence is split evenly among
+ * its visits, and each visit takes the school day in its slot that keeps the series on the same weekday,
+ * unless that day is already full, and otherwise the least loaded one.
+ */
+export const scheduleVisits = (plans: AllInterventionPlans, issues: Issue[], tieredSchools: TieredSchools, calendar: SchoolCalendar): VisitSchedule => {
+    const load = new Map<string, number>();
+    const visits: ScheduledVisit[] = [];
+    let unscheduled = 0;
+
+    listVisitSeries(plans, issues, tieredSchools).forEach((series, seriesIndex) => {
+        const { frequency, planScope } = series;
+        const [from, to] = spanBounds(frequency.span, calendar);
+        let preferredDay: number | null = null;
+
+        listPeriods(frequency.cadence, from, to, calendar).forEach(([periodStart, periodEnd]) => {
+            const slotLength = daysBetween(periodStart, periodEnd) / frequency.visits;
+            for (let i = 0; i < frequency.visits; i++) {
+                const slotStart = addDays(periodStart, Math.floor(i * slotLength));
+                const slotEnd = addDays(periodStart, Math.floor((i + 1) * slotLength));
+                const candidates: string[] = [];
+                for (let date = slotStart; date < slotEnd; date = addDays(date, 1)) {
+                    if (isVisitDay(date, calendar)) candidates.push(date);
+                }
+                if (candidates.length === 0) {
+                    unscheduled++;
+                    continue;
+                }
+                const rank = (date: string): number[] => {
+                    const dayLoad = load.get(date) || 0;
+                    return [dayLoad >= calendar.maxVisitsPerDay ? 1 : 0, preferredDay === null || dayOfWeek(date) === preferredDay ? 0 : 1, dayLoad];
+                };
+                const date = candidates.reduce((best, candidate) => {
+                    const a = rank(candidate), b = rank(best);
+                    const diff = a.findIndex((value, index) => value !== b[index]);
+                    return diff !== -1 && a[diff] < b[diff] ? candidate : best;
+                });
+                preferredDay = preferredDay ?? dayOfWeek(date);
+                load.set(date, (load.get(date) || 0) + 1);
+                visits.push({
+                    id: `visit-${seriesIndex}-${visits.length}`,
+                    date,
+                    startTime: calendar.dayStartTime,
+                    durationMinutes: frequency.durationMinutes,
+                    issueId: planScope.issueId,
+                    tier: planScope.tier,
+                    scope: planScope.scope,
+                    schoolNames: series.schoolNames,
+                    source: frequency.source,
+                });
+            }
+        });
+    });
+
+    // Visits on the same day follow one another from the start of the working day.
+    const bookedMinutes = new Map<string, number>();
+    const timed = [...visits].sort((a, b) => a.date.localeCompare(b.date)).map(visit => {
+        const booked = bookedMinutes.get(visit.date) || 0;
+        bookedMinutes.set(visit.date, booked + visit.durationMinutes);
+        return { ...visit, startTime: addMinutes(calendar.dayStartTime, booked) };
+    });
+    return { visits: timed, unscheduled };
+};
+
+export interface OverloadDay {
+    date: string;
+    visits: ScheduledVisit[];
+}
+
+export const findOverloadDays = (visits: ScheduledVisit[], calendar: SchoolCalendar): OverloadDay[] => {
+    const byDate = new Map<string, ScheduledVisit[]>();
+    visits.forEach(visit => byDate.set(visit.date, [...(byDate.get(visit.date) || []), visit]));
+    return Array.from(byDate.entries())
+        .filter(([, dayVisits]) => dayVisits.length > calendar.maxVisitsPerDay)
+        .map(([date, dayVisits]) => ({ date, visits: dayVisits }))
+        .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const describeVisit = (visit: ScheduledVisit, issues: Issue[]): string => {
+    const issueName = issues.find(issue => issue.id === visit.issueId)?.name || visit.issueId;
+    const audience = visit.scope.type === 'tier' && visit.tier === 3 ? `בית ספר: ${visit.schoolNames[0]}` : describeScope(visit.scope, visit.tier);
+    return `${issueName} – ${audience}`;
+};
+
+const escapeIcsText = (text: string): string =>
+    text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded; Hebrew letters take two octets each.
+const foldIcsLine = (line: string): string => {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    let octets = 0;
+    for (const char of line) {
+        const size = encoder.encode(char).length;
+        if (octets + size > (parts.length === 0 ? 75 : 74)) {
+            parts.push(current);
+            current = '';
+            octets = 0;
+        }
+        current += char;
+        octets += size;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+const toIcsDateTime = (date: string, time: string): string => `${date.replace(/-/g, '')}T${time.replace(':', '')}00`;
+
+/**
+ * Writes the visits as an iCalendar file, in local (floating) time so they keep their hour in any calendar.
+ */
+export const exportVisitsToIcs = (visits: ScheduledVisit[], issues: Issue[]): string => {
+    const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//MTSS//Visit Scheduler//HE',
+        'CALSCALE:GREGORIAN',
+        ...visits.flatMap(visit => {
+            const endTime = addMinutes(visit.startTime, visit.durationMinutes);
+            return [
+                'BEGIN:VEVENT',
+                `UID:${visit.id}-${visit.date}@mtss`,
+                `DTSTAMP:${stamp}`,
+                `DTSTART:${toIcsDateTime(visit.date, visit.startTime)}`,
+                `DTEND:${toIcsDateTime(visit.date, endTime)}`,
+                `SUMMARY:${escapeIcsText(describeVisit(visit, issues))}`,
+                `DESCRIPTION:${escapeIcsText(`${visit.source}\nבתי ספר: ${visit.schoolNames.join(', ')}`)}`,
+                'END:VEVENT',
+            ];
+        }),
+        'END:VCALENDAR',
+    ];
+    return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+export const downloadVisitsIcs = (visits: ScheduledVisit[], issues: Issue[], calendar: SchoolCalendar): void => {
+    const blob = new Blob([exportVisitsToIcs(visits, issues)], { type: 'text/calendar;charset=utf-8;' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `לוח-ביקורים-${calendar.schoolYear.replace(/[\\/:*?"<>|]/g, '')}.ics`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+};
@@ -0,0 +1,197 @@
+import type { SchoolForAnalysis, Issue, Score, AnalyticsView, PrioritizationSettings, TieringRuleSet, HistoricalDataset, TierOverride, TieredSchools } from '../types';
+import { HIERARCHICAL_CATEGORIES, BOOKLET_ISSUE_TO_METRICS_MAP } from '../constants';
+import { filterBySupportLevel, weightedAverage } from './analyticsViewService';
+import { getDomainMetrics } from './dataCoverageService';
+import { identifyIssues } from './issueAnalysisService';
+import { DEFAULT_TIERING_RULE_SET, DOMAIN_NAMES, computeTieredSchools, getEffectiveTier } from './tieringRulesService';
+import { SEVERITY_LABELS } from './prioritizationService';
+
+const MAX_SCORE = 4;
+
+export const WHAT_IF_DELTAS = [1, 2, 3];
+
+export const WHAT_IF_SUB_CATEGORIES: { key: string; name: string; domain: string; metrics: string[] }[] =
+    HIERARCHICAL_CATEGORIES.flatMap(cat => cat.subCategories.map(subCat => ({
+        key: subCat.key, name: subCat.name, domain: cat.name, metrics: subCat.metrics.map(m => m.key),
+    })));
+
+/**
+ * The sub-categories holding the issue's metrics, where a target moves the issue's urgency.
+ */
+export const getIssueSubCategoryKeys = (issueId: string): string[] => {
+    const issueMetrics = new Set<string>((BOOKLET_ISSUE_TO_METRICS_MAP[issueId] || []) as string[]);
+    return WHAT_IF_SUB_CATEGORIES.filter(sc => sc.metrics.some(metric => issueMetrics.has(metric))).map(sc => sc.key);
+};
+
+export interface WhatIfScenario {
+    issueId: string;
+    /** The sub-category whose scores are raised, e.g. 'workPlan' for the workPlan_* metrics. */
+    subCategoryKey: string;
+    /** The effective tiers of the schools that raise their scores. */
+    targetTiers: (1 | 2 | 3)[];
+    /** Points added to each filled score, capped at 4. */
+    delta: number;
+}
+
+/** Everything the analysis steps ranked and tiered the schools with. */
+export interface WhatIfContext {
+    schools: SchoolForAnalysis[];
+    selectedFocusAreas: string[];
+    selectedIssueIds: string[];
+    ruleSet: TieringRuleSet;
+    historicalDatasets: HistoricalDataset[];
+    tierOverrides: TierOverride[];
+    prioritizationSettings: PrioritizationSettings;
+    view: AnalyticsView;
+}
+
+export interface BeforeAfter {
+    before: number;
+    after: number;
+}
+
+export interface WhatIfIssueRank {
+    id: string;
+    name: string;
+    rankBefore: number;
+    /** 1-based; null when the issue no longer affects any school. */
+    rankAfter: number | null;
+    urgency: BeforeAfter;
+    severityBefore: Issue['severity'];
+    severityAfter: Issue['severity'] | null;
+}
+
+export interface WhatIfResult {
+    scenario: WhatIfScenario;
+    subCategoryName: string;
+    targetSchoolCount: number;
+    /** Scores that rose; scores already at 4 or missing do not move. */
+    raisedScores: number;
+    /** The sub-category average of the target schools. */
+    targetAverage: BeforeAfter;
+    domainAverages: ({ domain: string } & BeforeAfter)[];
+    subCategoryAverages: ({ key: string; name: string; domain: string } & BeforeAfter)[];
+    issueRanking: WhatIfIssueRank[];
+    tierCounts: { tier: 1 | 2 | 3; before: number; after: number }[];
+    /** True when the tiers of the automatic analysis were projected with the built-in rules, since the analysis is not rerun. */
+    tierRulesSubstituted: boolean;
+}
+
+/**
+ * Copies the schools with the scenario applied: the target schools' filled scores in the sub-category rise by delta, up to 4.
+ */
+export const applyScenario = (schools: SchoolForAnalysis[], targetIds: Set<number>, metrics: string[], delta: number): SchoolForAnalysis[] =>
+    schools.map(school => {
+        if (!targetIds.has(school.id)) return school;
+        const raised: SchoolForAnalysis = { ...school };
+        metrics.forEach(metric => {
+            const score = parseInt(school[metric] as string, 10);
+            if (!isNaN(score) && score > 0) {
+                raised[metric] = String(Math.min(MAX_SCORE, score + delta)) as Score;
+            }
+        });
+        return raised;
+    });
+
+const countRaisedScores = (before: SchoolForAnalysis[], after: SchoolForAnalysis[], metrics: string[]): number =>
+    before.reduce((count, school, index) => count + metrics.filter(metric => school[metric] !== after[index][metric]).length, 0);
+
+const countTiers = (tiered: TieredSchools): { [tier in 1 | 2 | 3]: number } => ({
+    1: tiered.tier1.length - tiered.tier2.length - tiered.tier3.length,
+    2: tiered.tier2.length,
+    3: tiered.tier3.length,
+});
+
+/**
+ * Projects the scenario through the same averages, urgency ranking and tiering rules the wizard used.
+ * Averages and ranking cover the support level in view; tiers cover all the schools and keep the manual overrides.
+ */
+export const simulateScenario = (scenario: WhatIfScenario, tieredSchools: TieredSchools, context: WhatIfContext): WhatIfResult => {
+    const { view, prioritizationSettings } = context;
+    const { averaging, coverage } = view;
+    const subCategory = WHAT_IF_SUB_CATEGORIES.find(sc => sc.key === scenario.subCategoryKey);
+    const metrics = subCategory?.metrics || [];
+
+    const targetIds = new Set(context.schools
+        .filter(school => scenario.targetTiers.includes(getEffectiveTier(tieredSchools, school.id)))
+        .map(school => school.id));
+    const projected = applyScenario(context.schools, targetIds, metrics, scenario.delta);
+
+    const segmentBefore = filterBySupportLevel(context.schools, view.supportLevel);
+    const segmentAfter = filterBySupportLevel(projected, view.supportLevel);
+    const average = (schools: SchoolForAnalysis[], keys: string[]) => weightedAverage(schools, keys, averaging, coverage.imputeMissing);
+    const compare = (keys: string[]): BeforeAfter => ({ before: average(segmentBefore, keys), after: average(segmentAfter, keys) });
+
+    const rank = (segment: SchoolForAnalysis[], all: SchoolForAnalysis[]) =>
+        identifyIssues(segment, all, context.selectedFocusAreas, averaging, coverage, prioritizationSettings);
+    const issuesBefore = rank(segmentBefore, context.schools);
+    const issuesAfter = rank(segmentAfter, projected);
+    const issueRanking: WhatIfIssueRank[] = issuesBefore.map((issue, index) => {
+        const afterIndex = issuesAfter.findIndex(i => i.id === issue.id);
+        const after = afterIndex === -1 ? null : issuesAfter[afterIndex];
+        return {
+            id: issue.id,
+            name: issue.name,
+            rankBefore: index + 1,
+            rankAfter: after ? afterIndex + 1 : null,
+            urgency: { before: issue.urgency, after: after ? after.urgency : 0 },
+            severityBefore: issue.severity,
+            severityAfter: after ? after.severity : null,
+        };
+    });
+
+    // The analysis tiers come from the initial analysis, which cannot be rerun on projected scores.
+    const tierRulesSubstituted = context.ruleSet.useAnalysisTiers;
+    const projectionRuleSet = tierRulesSubstituted
+        ? { ...DEFAULT_TIERING_RULE_SET, useAnalysisTiers: false, requireSelectedIssue: context.ruleSet.requireSelectedIssue }
+        : context.ruleSet;
+    // Tiers are recomputed over all the schools, against the selected issues as ranked on all of them.
+    const tier = (schools: SchoolForAnalysis[]) => {
+        const selectedIssues = identifyIssues(schools, schools, context.selectedFocusAreas, averaging, coverage, prioritizationSettings)
+            .filter(issue => context.selectedIssueIds.includes(issue.id));
+        return countTiers(computeTieredSchools(schools, selectedIssues, projectionRuleSet, context.historicalDatasets, context.tierOverrides));
+    };
+    const tiersBefore = tier(context.schools);
+    const tiersAfter = tier(projected);
+
+    const targetBefore = context.schools.filter(school => targetIds.has(school.id));
+    const targetAfter = projected.filter(school => targetIds.has(school.id));
+
+    return {
+        scenario,
+        subCategoryName: subCategory?.name || scenario.subCategoryKey,
+        targetSchoolCount: targetIds.size,
+        raisedScores: countRaisedScores(targetBefore, targetAfter, metrics),
+        targetAverage: { before: average(targetBefore, metrics), after: average(targetAfter, metrics) },
+        domainAverages: DOMAIN_NAMES.map(domain => ({ domain, ...compare(getDomainMetrics(domain)) })),
+        subCategoryAverages: WHAT_IF_SUB_CATEGORIES.map(sc => ({ key: sc.key, name: sc.name, domain: sc.domain, ...compare(sc.metrics) })),
+        issueRanking,
+        tierCounts: ([1, 2, 3] as const).map(t => ({ tier: t, before: tiersBefore[t], after: tiersAfter[t] })),
+        tierRulesSubstituted,
+    };
+};
+
+const formatAverage = (value: number): string => value.toFixed(2);
+
+const describeTargetTiers = (tiers: (1 | 2 | 3)[]): string =>
+    tiers.length === 3 ? 'בכל בתי הספר' : `בבתי הספר בשכבה ${[...tiers].sort().join(' ו-')}`;
+
+/**
+ * Writes the projection as a measurable objective for the plan, in place of a generic improvement target.
+ */
+export const describeProjectedObjective = (result: WhatIfResult): string => {
+    const { scenario, targetAverage } = result;
+    const parts = [
+        `העלאת הציונים ב"${result.subCategoryName}" ב-${scenario.delta} ${scenario.delta === 1 ? 'נקודה' : 'נקודות'} ${describeTargetTiers(scenario.targetTiers)} (${result.targetSchoolCount} בתי ספר): ` +
+        `ממוצע מ-${formatAverage(targetAverage.before)} ל-${formatAverage(targetAverage.after)}`,
+    ];
+    const issue = result.issueRanking.find(i => i.id === scenario.issueId);
+    if (issue) {
+        if (!issue.severityAfter) parts.push(`הסוגיה "${issue.name}" צפויה לא להופיע עוד בבתי הספר`);
+        else if (issue.urgency.after < issue.urgency.before) parts.push(`דחיפות הסוגיה "${issue.name}" צפויה לרדת מ-${issue.urgency.before} ל-${issue.urgency.after} (${SEVERITY_LABELS[issue.severityAfter]})`);
+        else parts.push(`דחיפות הסוגיה "${issue.name}" צפויה להישאר ${issue.urgency.after}`);
+    }
+    const tier3 = result.tierCounts.find(t => t.tier === 3);
+    if (tier3 && tier3.after !== tier3.before) parts.push(`מספר בתי הספר בשכבה 3 צפוי להשתנות מ-${tier3.before} ל-${tier3.after}`);
+    return `${parts.join('; ')}.`;
+};